@@ -0,0 +1,94 @@
+import { prisma } from "../src/lib/prisma";
+import {
+  checkFamilyIntegrity,
+  getFamilyAdminId,
+  repairDiscrepancies,
+} from "../src/lib/integrity";
+
+/**
+ * Balance integrity check
+ *
+ * Usage:
+ *   pnpm db:check-integrity                    # laporan saja
+ *   pnpm db:check-integrity --repair           # perbaiki + AuditLog
+ *   pnpm db:check-integrity --family <id>      # satu keluarga saja
+ *
+ * Exit code 1 jika ada selisih yang belum diperbaiki.
+ */
+
+const args = process.argv.slice(2);
+const repair = args.includes("--repair");
+const familyArgIndex = args.indexOf("--family");
+const familyId = familyArgIndex >= 0 ? args[familyArgIndex + 1] : undefined;
+
+async function main() {
+  console.log(
+    `🔍 Checking balance integrity${repair ? " (repair mode)" : ""}...`
+  );
+
+  const families = await prisma.family.findMany({
+    where: familyId ? { id: familyId } : {},
+    select: { id: true, name: true },
+    orderBy: { createdAt: "asc" },
+  });
+
+  if (familyId && families.length === 0) {
+    throw new Error(`Family ${familyId} not found`);
+  }
+
+  let unresolved = 0;
+
+  for (const family of families) {
+    const report = await checkFamilyIntegrity(prisma, family.id);
+    const { wallets, budgets, goals } = report.checked;
+
+    if (report.discrepancies.length === 0) {
+      console.log(
+        `✅ ${family.name}: OK (${wallets} wallets, ${budgets} budgets, ${goals} goals)`
+      );
+      continue;
+    }
+
+    console.log(
+      `⚠️  ${family.name}: ${report.discrepancies.length} discrepancies`
+    );
+    for (const item of report.discrepancies) {
+      console.log(
+        `   - ${item.entityType} "${item.name}" (${item.entityId}) ${item.field}: stored ${item.stored}, expected ${item.expected} (${item.difference > 0 ? "+" : ""}${item.difference})`
+      );
+    }
+
+    if (!repair) {
+      unresolved += report.discrepancies.length;
+      continue;
+    }
+
+    const adminId = await getFamilyAdminId(prisma, family.id);
+    if (!adminId) {
+      console.log("   ❌ Skipped repair: family has no admin for the audit log");
+      unresolved += report.discrepancies.length;
+      continue;
+    }
+
+    const repaired = await prisma.$transaction(async (tx) => {
+      const fresh = await checkFamilyIntegrity(tx, family.id);
+      return repairDiscrepancies(tx, family.id, adminId, fresh.discrepancies);
+    });
+    console.log(`   🔧 Repaired ${repaired} records`);
+  }
+
+  console.log(`\n🎉 Checked ${families.length} families`);
+
+  if (unresolved > 0) {
+    process.exitCode = 1;
+  }
+}
+
+main()
+  .catch((e) => {
+    console.error("❌ Integrity check failed:", e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
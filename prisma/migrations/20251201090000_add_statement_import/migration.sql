@@ -0,0 +1,35 @@
+-- AlterTable
+ALTER TABLE "Transaction" ADD COLUMN     "externalId" TEXT,
+ADD COLUMN     "importBatchId" TEXT;
+
+-- CreateTable
+CREATE TABLE "ImportMapping" (
+    "id" TEXT NOT NULL,
+    "dateColumn" TEXT NOT NULL,
+    "descriptionColumn" TEXT NOT NULL,
+    "amountColumn" TEXT,
+    "debitColumn" TEXT,
+    "creditColumn" TEXT,
+    "referenceColumn" TEXT,
+    "delimiter" TEXT NOT NULL DEFAULT ',',
+    "hasHeader" BOOLEAN NOT NULL DEFAULT true,
+    "dateFormat" TEXT NOT NULL DEFAULT 'DD/MM/YYYY',
+    "decimalSeparator" TEXT NOT NULL DEFAULT ',',
+    "walletId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ImportMapping_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Transaction_externalId_idx" ON "Transaction"("externalId");
+
+-- CreateIndex
+CREATE INDEX "Transaction_importBatchId_idx" ON "Transaction"("importBatchId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ImportMapping_walletId_key" ON "ImportMapping"("walletId");
+
+-- AddForeignKey
+ALTER TABLE "ImportMapping" ADD CONSTRAINT "ImportMapping_walletId_fkey" FOREIGN KEY ("walletId") REFERENCES "Wallet"("id") ON DELETE CASCADE ON UPDATE CASCADE;
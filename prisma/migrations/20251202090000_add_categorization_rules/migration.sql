@@ -0,0 +1,49 @@
+-- AlterTable
+ALTER TABLE "Transaction" ADD COLUMN     "tags" TEXT[] DEFAULT ARRAY[]::TEXT[];
+
+-- CreateTable
+CREATE TABLE "CategorizationRule" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "priority" INTEGER NOT NULL DEFAULT 0,
+    "transactionType" "TransactionType",
+    "descriptionContains" TEXT,
+    "descriptionRegex" TEXT,
+    "minAmount" DOUBLE PRECISION,
+    "maxAmount" DOUBLE PRECISION,
+    "walletId" TEXT,
+    "memberId" TEXT,
+    "categoryId" TEXT,
+    "notes" TEXT,
+    "tags" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "matchCount" INTEGER NOT NULL DEFAULT 0,
+    "lastMatchedAt" TIMESTAMP(3),
+    "familyId" TEXT NOT NULL,
+    "createdById" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "CategorizationRule_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "CategorizationRule_familyId_enabled_idx" ON "CategorizationRule"("familyId", "enabled");
+
+-- CreateIndex
+CREATE INDEX "CategorizationRule_priority_idx" ON "CategorizationRule"("priority");
+
+-- AddForeignKey
+ALTER TABLE "CategorizationRule" ADD CONSTRAINT "CategorizationRule_walletId_fkey" FOREIGN KEY ("walletId") REFERENCES "Wallet"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CategorizationRule" ADD CONSTRAINT "CategorizationRule_memberId_fkey" FOREIGN KEY ("memberId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CategorizationRule" ADD CONSTRAINT "CategorizationRule_categoryId_fkey" FOREIGN KEY ("categoryId") REFERENCES "Category"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CategorizationRule" ADD CONSTRAINT "CategorizationRule_familyId_fkey" FOREIGN KEY ("familyId") REFERENCES "Family"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CategorizationRule" ADD CONSTRAINT "CategorizationRule_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,31 @@
+-- CreateTable
+CREATE TABLE "TransactionSplit" (
+    "id" TEXT NOT NULL,
+    "amount" DOUBLE PRECISION NOT NULL,
+    "note" TEXT,
+    "transactionId" TEXT NOT NULL,
+    "categoryId" TEXT,
+    "memberId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "TransactionSplit_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "TransactionSplit_transactionId_idx" ON "TransactionSplit"("transactionId");
+
+-- CreateIndex
+CREATE INDEX "TransactionSplit_categoryId_idx" ON "TransactionSplit"("categoryId");
+
+-- CreateIndex
+CREATE INDEX "TransactionSplit_memberId_idx" ON "TransactionSplit"("memberId");
+
+-- AddForeignKey
+ALTER TABLE "TransactionSplit" ADD CONSTRAINT "TransactionSplit_transactionId_fkey" FOREIGN KEY ("transactionId") REFERENCES "Transaction"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TransactionSplit" ADD CONSTRAINT "TransactionSplit_categoryId_fkey" FOREIGN KEY ("categoryId") REFERENCES "Category"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TransactionSplit" ADD CONSTRAINT "TransactionSplit_memberId_fkey" FOREIGN KEY ("memberId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,34 @@
+-- AlterTable
+ALTER TABLE "Wallet" ADD COLUMN     "currency" TEXT NOT NULL DEFAULT 'IDR';
+
+-- AlterTable
+ALTER TABLE "Transaction" ADD COLUMN     "currency" TEXT NOT NULL DEFAULT 'IDR';
+
+-- Backfill: wallet memakai mata uang keluarga, transaksi memakai mata uang wallet
+UPDATE "Wallet" w SET "currency" = f."currency" FROM "Family" f WHERE w."familyId" = f."id";
+UPDATE "Transaction" t SET "currency" = f."currency" FROM "Family" f WHERE t."familyId" = f."id";
+UPDATE "Transaction" t SET "currency" = w."currency" FROM "Wallet" w WHERE w."id" = COALESCE(t."fromWalletId", t."toWalletId");
+
+-- CreateTable
+CREATE TABLE "ExchangeRate" (
+    "id" TEXT NOT NULL,
+    "fromCurrency" TEXT NOT NULL,
+    "toCurrency" TEXT NOT NULL,
+    "rate" DOUBLE PRECISION NOT NULL,
+    "date" TIMESTAMP(3) NOT NULL,
+    "source" TEXT NOT NULL DEFAULT 'MANUAL',
+    "familyId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ExchangeRate_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ExchangeRate_familyId_idx" ON "ExchangeRate"("familyId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ExchangeRate_familyId_fromCurrency_toCurrency_date_key" ON "ExchangeRate"("familyId", "fromCurrency", "toCurrency", "date");
+
+-- AddForeignKey
+ALTER TABLE "ExchangeRate" ADD CONSTRAINT "ExchangeRate_familyId_fkey" FOREIGN KEY ("familyId") REFERENCES "Family"("id") ON DELETE CASCADE ON UPDATE CASCADE;
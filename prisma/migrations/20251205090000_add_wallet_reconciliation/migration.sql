@@ -0,0 +1,42 @@
+-- AlterTable
+ALTER TABLE "Wallet" ADD COLUMN     "isArchived" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "archivedAt" TIMESTAMP(3),
+ADD COLUMN     "lastReconciledAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "Transaction" ADD COLUMN     "reconciledAt" TIMESTAMP(3),
+ADD COLUMN     "reconciliationId" TEXT;
+
+-- CreateTable
+CREATE TABLE "WalletReconciliation" (
+    "id" TEXT NOT NULL,
+    "statementDate" TIMESTAMP(3) NOT NULL,
+    "statementBalance" DOUBLE PRECISION NOT NULL,
+    "computedBalance" DOUBLE PRECISION NOT NULL,
+    "difference" DOUBLE PRECISION NOT NULL,
+    "notes" TEXT,
+    "adjustmentTransactionId" TEXT,
+    "walletId" TEXT NOT NULL,
+    "createdById" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "WalletReconciliation_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Transaction_reconciliationId_idx" ON "Transaction"("reconciliationId");
+
+-- CreateIndex
+CREATE INDEX "WalletReconciliation_walletId_idx" ON "WalletReconciliation"("walletId");
+
+-- CreateIndex
+CREATE INDEX "WalletReconciliation_statementDate_idx" ON "WalletReconciliation"("statementDate");
+
+-- AddForeignKey
+ALTER TABLE "Transaction" ADD CONSTRAINT "Transaction_reconciliationId_fkey" FOREIGN KEY ("reconciliationId") REFERENCES "WalletReconciliation"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "WalletReconciliation" ADD CONSTRAINT "WalletReconciliation_walletId_fkey" FOREIGN KEY ("walletId") REFERENCES "Wallet"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "WalletReconciliation" ADD CONSTRAINT "WalletReconciliation_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,57 @@
+-- Money columns: DOUBLE PRECISION -> DECIMAL(18,2)
+-- Nilai lama dibulatkan ke 2 desimal (ROUND half away from zero).
+
+-- AlterTable
+ALTER TABLE "Wallet" ALTER COLUMN "balance" SET DATA TYPE DECIMAL(18,2) USING ROUND("balance"::numeric, 2);
+
+-- AlterTable
+ALTER TABLE "Transaction" ALTER COLUMN "amount" SET DATA TYPE DECIMAL(18,2) USING ROUND("amount"::numeric, 2);
+
+-- AlterTable
+ALTER TABLE "TransactionSplit" ALTER COLUMN "amount" SET DATA TYPE DECIMAL(18,2) USING ROUND("amount"::numeric, 2);
+
+-- AlterTable
+ALTER TABLE "CategorizationRule" ALTER COLUMN "minAmount" SET DATA TYPE DECIMAL(18,2) USING ROUND("minAmount"::numeric, 2),
+ALTER COLUMN "maxAmount" SET DATA TYPE DECIMAL(18,2) USING ROUND("maxAmount"::numeric, 2);
+
+-- AlterTable
+ALTER TABLE "WalletReconciliation" ALTER COLUMN "statementBalance" SET DATA TYPE DECIMAL(18,2) USING ROUND("statementBalance"::numeric, 2),
+ALTER COLUMN "computedBalance" SET DATA TYPE DECIMAL(18,2) USING ROUND("computedBalance"::numeric, 2),
+ALTER COLUMN "difference" SET DATA TYPE DECIMAL(18,2) USING ROUND("difference"::numeric, 2);
+
+-- AlterTable
+ALTER TABLE "Asset" ALTER COLUMN "value" SET DATA TYPE DECIMAL(18,2) USING ROUND("value"::numeric, 2),
+ALTER COLUMN "purchasePrice" SET DATA TYPE DECIMAL(18,2) USING ROUND("purchasePrice"::numeric, 2);
+
+-- AlterTable
+ALTER TABLE "AssetValueHistory" ALTER COLUMN "value" SET DATA TYPE DECIMAL(18,2) USING ROUND("value"::numeric, 2);
+
+-- AlterTable
+ALTER TABLE "Liability" ALTER COLUMN "amount" SET DATA TYPE DECIMAL(18,2) USING ROUND("amount"::numeric, 2),
+ALTER COLUMN "remainingAmount" SET DATA TYPE DECIMAL(18,2) USING ROUND("remainingAmount"::numeric, 2),
+ALTER COLUMN "monthlyPayment" SET DATA TYPE DECIMAL(18,2) USING ROUND("monthlyPayment"::numeric, 2);
+
+-- AlterTable
+ALTER TABLE "LiabilityPayment" ALTER COLUMN "amount" SET DATA TYPE DECIMAL(18,2) USING ROUND("amount"::numeric, 2),
+ALTER COLUMN "principalPaid" SET DATA TYPE DECIMAL(18,2) USING ROUND("principalPaid"::numeric, 2),
+ALTER COLUMN "interestPaid" SET DATA TYPE DECIMAL(18,2) USING ROUND("interestPaid"::numeric, 2);
+
+-- AlterTable
+ALTER TABLE "Goal" ALTER COLUMN "targetAmount" SET DATA TYPE DECIMAL(18,2) USING ROUND("targetAmount"::numeric, 2),
+ALTER COLUMN "currentAmount" SET DATA TYPE DECIMAL(18,2) USING ROUND("currentAmount"::numeric, 2);
+
+-- AlterTable
+ALTER TABLE "GoalContribution" ALTER COLUMN "amount" SET DATA TYPE DECIMAL(18,2) USING ROUND("amount"::numeric, 2);
+
+-- AlterTable
+ALTER TABLE "GoalDistribution" ALTER COLUMN "amount" SET DATA TYPE DECIMAL(18,2) USING ROUND("amount"::numeric, 2);
+
+-- AlterTable
+ALTER TABLE "Budget" ALTER COLUMN "amount" SET DATA TYPE DECIMAL(18,2) USING ROUND("amount"::numeric, 2),
+ALTER COLUMN "spent" SET DATA TYPE DECIMAL(18,2) USING ROUND("spent"::numeric, 2);
+
+-- AlterTable
+ALTER TABLE "RecurringTransaction" ALTER COLUMN "amount" SET DATA TYPE DECIMAL(18,2) USING ROUND("amount"::numeric, 2);
+
+-- AlterTable
+ALTER TABLE "TransactionTemplate" ALTER COLUMN "amount" SET DATA TYPE DECIMAL(18,2) USING ROUND("amount"::numeric, 2);
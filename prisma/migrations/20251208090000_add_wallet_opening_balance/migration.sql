@@ -0,0 +1,19 @@
+-- AlterTable
+ALTER TABLE "Wallet" ADD COLUMN     "openingBalance" DECIMAL(18,2) NOT NULL DEFAULT 0;
+
+-- Backfill: saldo awal = saldo sekarang dikurangi efek semua transaksi,
+-- sehingga data lama dianggap konsisten pada saat migrasi
+UPDATE "Wallet" w
+SET "openingBalance" = w."balance" - COALESCE((
+  SELECT SUM(
+    CASE
+      WHEN t."type" = 'INCOME' AND COALESCE(t."fromWalletId", t."toWalletId") = w."id" THEN t."amount"
+      WHEN t."type" = 'EXPENSE' AND t."fromWalletId" = w."id" THEN -t."amount"
+      WHEN t."type" = 'TRANSFER' AND t."fromWalletId" = w."id" THEN -t."amount"
+      WHEN t."type" = 'TRANSFER' AND t."toWalletId" = w."id" THEN t."amount"
+      ELSE 0
+    END
+  )
+  FROM "Transaction" t
+  WHERE t."fromWalletId" = w."id" OR t."toWalletId" = w."id"
+), 0);
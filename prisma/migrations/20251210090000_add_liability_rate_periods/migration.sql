@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "LiabilityRatePeriod" (
+    "id" TEXT NOT NULL,
+    "liabilityId" TEXT NOT NULL,
+    "startMonth" INTEGER NOT NULL,
+    "annualRate" DOUBLE PRECISION NOT NULL,
+    "note" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "LiabilityRatePeriod_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "LiabilityRatePeriod_liabilityId_idx" ON "LiabilityRatePeriod"("liabilityId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "LiabilityRatePeriod_liabilityId_startMonth_key" ON "LiabilityRatePeriod"("liabilityId", "startMonth");
+
+-- AddForeignKey
+ALTER TABLE "LiabilityRatePeriod" ADD CONSTRAINT "LiabilityRatePeriod_liabilityId_fkey" FOREIGN KEY ("liabilityId") REFERENCES "Liability"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,15 @@
+-- AlterTable
+ALTER TABLE "Liability" ADD COLUMN     "statementDay" INTEGER,
+ADD COLUMN     "paymentDueDay" INTEGER,
+ADD COLUMN     "creditLimit" DECIMAL(18,2),
+ADD COLUMN     "minimumPaymentPercent" DOUBLE PRECISION,
+ADD COLUMN     "minimumPaymentAmount" DECIMAL(18,2);
+
+-- AlterTable
+ALTER TABLE "Transaction" ADD COLUMN     "liabilityId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "Transaction_liabilityId_idx" ON "Transaction"("liabilityId");
+
+-- AddForeignKey
+ALTER TABLE "Transaction" ADD CONSTRAINT "Transaction_liabilityId_fkey" FOREIGN KEY ("liabilityId") REFERENCES "Liability"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,17 @@
+-- AlterTable
+ALTER TABLE "LiabilityPayment" ADD COLUMN     "walletId" TEXT;
+
+-- AlterTable
+ALTER TABLE "Transaction" ADD COLUMN     "liabilityPaymentId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "LiabilityPayment_walletId_idx" ON "LiabilityPayment"("walletId");
+
+-- CreateIndex
+CREATE INDEX "Transaction_liabilityPaymentId_idx" ON "Transaction"("liabilityPaymentId");
+
+-- AddForeignKey
+ALTER TABLE "Transaction" ADD CONSTRAINT "Transaction_liabilityPaymentId_fkey" FOREIGN KEY ("liabilityPaymentId") REFERENCES "LiabilityPayment"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "LiabilityPayment" ADD CONSTRAINT "LiabilityPayment_walletId_fkey" FOREIGN KEY ("walletId") REFERENCES "Wallet"("id") ON DELETE SET NULL ON UPDATE CASCADE;
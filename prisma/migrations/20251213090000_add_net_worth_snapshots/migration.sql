@@ -0,0 +1,30 @@
+-- CreateEnum
+CREATE TYPE "SnapshotPeriod" AS ENUM ('DAILY', 'MONTHLY');
+
+-- CreateTable
+CREATE TABLE "NetWorthSnapshot" (
+    "id" TEXT NOT NULL,
+    "period" "SnapshotPeriod" NOT NULL,
+    "date" TIMESTAMP(3) NOT NULL,
+    "asOf" TIMESTAMP(3) NOT NULL,
+    "currency" TEXT NOT NULL,
+    "walletTotal" DECIMAL(18,2) NOT NULL,
+    "assetTotal" DECIMAL(18,2) NOT NULL,
+    "liabilityTotal" DECIMAL(18,2) NOT NULL,
+    "netWorth" DECIMAL(18,2) NOT NULL,
+    "breakdown" JSONB NOT NULL,
+    "familyId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "NetWorthSnapshot_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "NetWorthSnapshot_familyId_idx" ON "NetWorthSnapshot"("familyId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "NetWorthSnapshot_familyId_period_date_key" ON "NetWorthSnapshot"("familyId", "period", "date");
+
+-- AddForeignKey
+ALTER TABLE "NetWorthSnapshot" ADD CONSTRAINT "NetWorthSnapshot_familyId_fkey" FOREIGN KEY ("familyId") REFERENCES "Family"("id") ON DELETE CASCADE ON UPDATE CASCADE;
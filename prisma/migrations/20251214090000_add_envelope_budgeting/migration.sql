@@ -0,0 +1,45 @@
+-- CreateEnum
+CREATE TYPE "BudgetMode" AS ENUM ('CATEGORY', 'ENVELOPE');
+
+-- AlterTable
+ALTER TABLE "Family" ADD COLUMN     "budgetMode" "BudgetMode" NOT NULL DEFAULT 'CATEGORY';
+
+-- AlterTable
+ALTER TABLE "Budget" ADD COLUMN     "rollover" BOOLEAN NOT NULL DEFAULT true;
+
+-- CreateTable
+CREATE TABLE "BudgetTransfer" (
+    "id" TEXT NOT NULL,
+    "amount" DECIMAL(18,2) NOT NULL,
+    "month" INTEGER NOT NULL,
+    "year" INTEGER NOT NULL,
+    "note" TEXT,
+    "fromCategoryId" TEXT,
+    "toCategoryId" TEXT,
+    "familyId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "BudgetTransfer_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "BudgetTransfer_familyId_year_month_idx" ON "BudgetTransfer"("familyId", "year", "month");
+
+-- CreateIndex
+CREATE INDEX "BudgetTransfer_fromCategoryId_idx" ON "BudgetTransfer"("fromCategoryId");
+
+-- CreateIndex
+CREATE INDEX "BudgetTransfer_toCategoryId_idx" ON "BudgetTransfer"("toCategoryId");
+
+-- AddForeignKey
+ALTER TABLE "BudgetTransfer" ADD CONSTRAINT "BudgetTransfer_fromCategoryId_fkey" FOREIGN KEY ("fromCategoryId") REFERENCES "Category"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "BudgetTransfer" ADD CONSTRAINT "BudgetTransfer_toCategoryId_fkey" FOREIGN KEY ("toCategoryId") REFERENCES "Category"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "BudgetTransfer" ADD CONSTRAINT "BudgetTransfer_familyId_fkey" FOREIGN KEY ("familyId") REFERENCES "Family"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "BudgetTransfer" ADD CONSTRAINT "BudgetTransfer_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,12 @@
+-- AlterEnum
+ALTER TYPE "BudgetPeriod" ADD VALUE 'WEEKLY';
+ALTER TYPE "BudgetPeriod" ADD VALUE 'BIWEEKLY';
+ALTER TYPE "BudgetPeriod" ADD VALUE 'QUARTERLY';
+ALTER TYPE "BudgetPeriod" ADD VALUE 'PAY_CYCLE';
+
+-- CreateEnum
+CREATE TYPE "BudgetRollover" AS ENUM ('NONE', 'UNDERSPEND', 'OVERSPEND', 'BOTH');
+
+-- AlterTable
+ALTER TABLE "Budget" ADD COLUMN     "cycleStartDay" INTEGER,
+ADD COLUMN     "rolloverMode" "BudgetRollover" NOT NULL DEFAULT 'NONE';
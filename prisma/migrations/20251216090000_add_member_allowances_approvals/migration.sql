@@ -0,0 +1,114 @@
+-- CreateEnum
+CREATE TYPE "ApprovalType" AS ENUM ('MEMBER_EXPENSE');
+
+-- CreateEnum
+CREATE TYPE "ApprovalStatus" AS ENUM ('PENDING', 'APPROVED', 'REJECTED', 'CANCELLED');
+
+-- AlterEnum
+ALTER TYPE "NotificationType" ADD VALUE 'APPROVAL_REQUEST';
+
+-- CreateTable
+CREATE TABLE "MemberAllowance" (
+    "id" TEXT NOT NULL,
+    "amount" DECIMAL(18,2) NOT NULL,
+    "frequency" "RecurringFrequency" NOT NULL DEFAULT 'WEEKLY',
+    "dayOfMonth" INTEGER,
+    "nextDate" TIMESTAMP(3) NOT NULL,
+    "lastRunDate" TIMESTAMP(3),
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "limitPeriod" "BudgetPeriod" NOT NULL DEFAULT 'WEEKLY',
+    "startDate" TIMESTAMP(3) NOT NULL,
+    "spendingLimit" DECIMAL(18,2),
+    "approvalThreshold" DECIMAL(18,2),
+    "memberId" TEXT NOT NULL,
+    "walletId" TEXT NOT NULL,
+    "sourceWalletId" TEXT,
+    "familyId" TEXT NOT NULL,
+    "createdById" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "MemberAllowance_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "MemberCategoryLimit" (
+    "id" TEXT NOT NULL,
+    "amount" DECIMAL(18,2) NOT NULL,
+    "allowanceId" TEXT NOT NULL,
+    "categoryId" TEXT NOT NULL,
+
+    CONSTRAINT "MemberCategoryLimit_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ApprovalRequest" (
+    "id" TEXT NOT NULL,
+    "type" "ApprovalType" NOT NULL,
+    "status" "ApprovalStatus" NOT NULL DEFAULT 'PENDING',
+    "amount" DECIMAL(18,2),
+    "description" TEXT NOT NULL,
+    "payload" JSONB NOT NULL,
+    "reasons" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "reviewNote" TEXT,
+    "resultId" TEXT,
+    "familyId" TEXT NOT NULL,
+    "requestedById" TEXT NOT NULL,
+    "reviewedById" TEXT,
+    "reviewedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ApprovalRequest_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "MemberAllowance_memberId_key" ON "MemberAllowance"("memberId");
+
+-- CreateIndex
+CREATE INDEX "MemberAllowance_familyId_idx" ON "MemberAllowance"("familyId");
+
+-- CreateIndex
+CREATE INDEX "MemberAllowance_isActive_nextDate_idx" ON "MemberAllowance"("isActive", "nextDate");
+
+-- CreateIndex
+CREATE INDEX "MemberCategoryLimit_categoryId_idx" ON "MemberCategoryLimit"("categoryId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "MemberCategoryLimit_allowanceId_categoryId_key" ON "MemberCategoryLimit"("allowanceId", "categoryId");
+
+-- CreateIndex
+CREATE INDEX "ApprovalRequest_familyId_status_idx" ON "ApprovalRequest"("familyId", "status");
+
+-- CreateIndex
+CREATE INDEX "ApprovalRequest_requestedById_idx" ON "ApprovalRequest"("requestedById");
+
+-- AddForeignKey
+ALTER TABLE "MemberAllowance" ADD CONSTRAINT "MemberAllowance_memberId_fkey" FOREIGN KEY ("memberId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "MemberAllowance" ADD CONSTRAINT "MemberAllowance_walletId_fkey" FOREIGN KEY ("walletId") REFERENCES "Wallet"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "MemberAllowance" ADD CONSTRAINT "MemberAllowance_sourceWalletId_fkey" FOREIGN KEY ("sourceWalletId") REFERENCES "Wallet"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "MemberAllowance" ADD CONSTRAINT "MemberAllowance_familyId_fkey" FOREIGN KEY ("familyId") REFERENCES "Family"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "MemberAllowance" ADD CONSTRAINT "MemberAllowance_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "MemberCategoryLimit" ADD CONSTRAINT "MemberCategoryLimit_allowanceId_fkey" FOREIGN KEY ("allowanceId") REFERENCES "MemberAllowance"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "MemberCategoryLimit" ADD CONSTRAINT "MemberCategoryLimit_categoryId_fkey" FOREIGN KEY ("categoryId") REFERENCES "Category"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ApprovalRequest" ADD CONSTRAINT "ApprovalRequest_familyId_fkey" FOREIGN KEY ("familyId") REFERENCES "Family"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ApprovalRequest" ADD CONSTRAINT "ApprovalRequest_requestedById_fkey" FOREIGN KEY ("requestedById") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ApprovalRequest" ADD CONSTRAINT "ApprovalRequest_reviewedById_fkey" FOREIGN KEY ("reviewedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,11 @@
+-- AlterEnum
+ALTER TYPE "ApprovalType" ADD VALUE 'WALLET_TRANSFER';
+ALTER TYPE "ApprovalType" ADD VALUE 'DELETE_ASSET';
+ALTER TYPE "ApprovalType" ADD VALUE 'DELETE_LIABILITY';
+ALTER TYPE "ApprovalType" ADD VALUE 'CHANGE_ROLE';
+
+-- AlterTable
+ALTER TABLE "Family" ADD COLUMN     "approvalDeleteAssets" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "approvalDeleteLiabilities" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "approvalRoleChanges" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "approvalTransferThreshold" DECIMAL(18,2);
@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "ReminderSchedule" ADD COLUMN     "failureCount" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "lastError" TEXT,
+ADD COLUMN     "lastStatus" TEXT;
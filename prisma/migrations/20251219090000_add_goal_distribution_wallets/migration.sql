@@ -0,0 +1,24 @@
+-- AlterTable
+ALTER TABLE "GoalDistribution" ADD COLUMN     "userId" TEXT,
+ADD COLUMN     "walletId" TEXT;
+
+-- AlterTable
+ALTER TABLE "Transaction" ADD COLUMN     "goalDistributionId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "GoalDistribution_userId_idx" ON "GoalDistribution"("userId");
+
+-- CreateIndex
+CREATE INDEX "GoalDistribution_walletId_idx" ON "GoalDistribution"("walletId");
+
+-- CreateIndex
+CREATE INDEX "Transaction_goalDistributionId_idx" ON "Transaction"("goalDistributionId");
+
+-- AddForeignKey
+ALTER TABLE "Transaction" ADD CONSTRAINT "Transaction_goalDistributionId_fkey" FOREIGN KEY ("goalDistributionId") REFERENCES "GoalDistribution"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "GoalDistribution" ADD CONSTRAINT "GoalDistribution_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "GoalDistribution" ADD CONSTRAINT "GoalDistribution_walletId_fkey" FOREIGN KEY ("walletId") REFERENCES "Wallet"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,41 @@
+-- CreateEnum
+CREATE TYPE "GoalFunding" AS ENUM ('WALLET_DEBIT', 'EARMARK');
+
+-- AlterTable
+ALTER TABLE "GoalContribution" ADD COLUMN     "funding" "GoalFunding",
+ADD COLUMN     "recurringId" TEXT,
+ADD COLUMN     "walletId" TEXT;
+
+-- AlterTable
+ALTER TABLE "GoalDistribution" ADD COLUMN     "earmarkReleased" DECIMAL(18,2) NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "RecurringTransaction" ADD COLUMN     "goalFunding" "GoalFunding",
+ADD COLUMN     "goalId" TEXT;
+
+-- AlterTable
+ALTER TABLE "Transaction" ADD COLUMN     "goalContributionId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "GoalContribution_walletId_idx" ON "GoalContribution"("walletId");
+
+-- CreateIndex
+CREATE INDEX "GoalContribution_recurringId_idx" ON "GoalContribution"("recurringId");
+
+-- CreateIndex
+CREATE INDEX "RecurringTransaction_goalId_idx" ON "RecurringTransaction"("goalId");
+
+-- CreateIndex
+CREATE INDEX "Transaction_goalContributionId_idx" ON "Transaction"("goalContributionId");
+
+-- AddForeignKey
+ALTER TABLE "Transaction" ADD CONSTRAINT "Transaction_goalContributionId_fkey" FOREIGN KEY ("goalContributionId") REFERENCES "GoalContribution"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "GoalContribution" ADD CONSTRAINT "GoalContribution_walletId_fkey" FOREIGN KEY ("walletId") REFERENCES "Wallet"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "GoalContribution" ADD CONSTRAINT "GoalContribution_recurringId_fkey" FOREIGN KEY ("recurringId") REFERENCES "RecurringTransaction"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RecurringTransaction" ADD CONSTRAINT "RecurringTransaction_goalId_fkey" FOREIGN KEY ("goalId") REFERENCES "Goal"("id") ON DELETE CASCADE ON UPDATE CASCADE;
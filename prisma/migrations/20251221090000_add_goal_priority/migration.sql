@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Goal" ADD COLUMN     "priority" INTEGER NOT NULL DEFAULT 3;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "LiabilityPayment" ADD COLUMN "principalApplied" DECIMAL(18,2) NOT NULL DEFAULT 0;
+
+-- Pembayaran lama dianggap menerapkan seluruh pokoknya
+UPDATE "LiabilityPayment" SET "principalApplied" = "principalPaid";
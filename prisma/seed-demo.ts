@@ -140,6 +140,7 @@ async function main() {
         name: "BCA - Budi",
         type: "BANK_ACCOUNT",
         balance: 15000000,
+        openingBalance: 15000000,
         icon: "🏦",
         color: "#2563eb",
         familyId: family.id,
@@ -150,6 +151,7 @@ async function main() {
         name: "Mandiri - Ani",
         type: "BANK_ACCOUNT",
         balance: 8000000,
+        openingBalance: 8000000,
         icon: "🏦",
         color: "#f59e0b",
         familyId: family.id,
@@ -160,6 +162,7 @@ async function main() {
         name: "Dompet Cash",
         type: "CASH",
         balance: 1500000,
+        openingBalance: 1500000,
         icon: "💵",
         color: "#10b981",
         familyId: family.id,
@@ -47,6 +47,7 @@ async function main() {
         name: "BCA - Ayah",
         type: "BANK",
         balance: 5000000,
+        openingBalance: 5000000,
         familyId: family.id,
         color: "#0066CC",
       },
@@ -54,6 +55,7 @@ async function main() {
         name: "GoPay - Ibu",
         type: "E_WALLET",
         balance: 500000,
+        openingBalance: 500000,
         familyId: family.id,
         color: "#00AA13",
       },
@@ -61,6 +63,7 @@ async function main() {
         name: "Cash",
         type: "CASH",
         balance: 1000000,
+        openingBalance: 1000000,
         familyId: family.id,
         color: "#6B7280",
       },
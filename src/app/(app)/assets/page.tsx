@@ -2,6 +2,8 @@
 
 import { useEffect, useState } from 'react';
 import AssetModal from '@/components/AssetModal';
+import NetWorthChart from '@/components/charts/NetWorthChart';
+import NetWorthChange from '@/components/dashboard/NetWorthChange';
 
 interface Asset {
   id: string;
@@ -19,6 +21,24 @@ interface AssetSummary {
   totalValue: number;
 }
 
+interface NetWorthTrend {
+  currency: string;
+  current: { netWorth: number };
+  monthOverMonth: {
+    change: number;
+    savings: number;
+    assetRevaluation: number;
+    debtPaydown: number;
+  };
+  history: Array<{
+    date: string;
+    walletTotal: number;
+    assetTotal: number;
+    liabilityTotal: number;
+    netWorth: number;
+  }>;
+}
+
 const assetTypeLabels: Record<string, string> = {
   PROPERTY: 'Properti',
   VEHICLE: 'Kendaraan',
@@ -43,6 +63,8 @@ export default function AssetsPage() {
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [editingAsset, setEditingAsset] = useState<Asset | null>(null);
   const [deletingAssetId, setDeletingAssetId] = useState<string | null>(null);
+  const [netWorthTrend, setNetWorthTrend] = useState<NetWorthTrend | null>(null);
+  const [netWorthLoading, setNetWorthLoading] = useState(true);
 
   const fetchAssets = async () => {
     try {
@@ -65,8 +87,27 @@ export default function AssetsPage() {
     }
   };
 
+  // Nilai aset ikut menentukan kekayaan bersih, jadi dimuat ulang bersama
+  const fetchNetWorthTrend = async () => {
+    try {
+      setNetWorthLoading(true);
+      const response = await fetch('/api/dashboard/net-worth?period=MONTHLY&count=12');
+
+      if (!response.ok) {
+        throw new Error('Gagal memuat riwayat kekayaan bersih');
+      }
+
+      setNetWorthTrend(await response.json());
+    } catch (err) {
+      console.error('Fetch net worth trend error:', err);
+    } finally {
+      setNetWorthLoading(false);
+    }
+  };
+
   useEffect(() => {
     fetchAssets();
+    fetchNetWorthTrend();
   }, []);
 
   const handleAddAsset = () => {
@@ -98,6 +139,7 @@ export default function AssetsPage() {
 
       // Refresh assets
       await fetchAssets();
+      fetchNetWorthTrend();
     } catch (err) {
       console.error('Delete asset error:', err);
       alert(err instanceof Error ? err.message : 'Gagal menghapus aset');
@@ -113,6 +155,7 @@ export default function AssetsPage() {
 
   const handleModalSuccess = () => {
     fetchAssets();
+    fetchNetWorthTrend();
   };
 
   const formatCurrency = (amount: number) => {
@@ -180,6 +223,30 @@ export default function AssetsPage() {
         </div>
       </div>
 
+      {/* Net Worth Trend */}
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6 mb-6 space-y-6">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
+            Kekayaan Bersih
+          </h2>
+          <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+            Wallet + aset - hutang, 12 bulan terakhir
+          </p>
+        </div>
+        {netWorthTrend && (
+          <NetWorthChange
+            netWorth={netWorthTrend.current.netWorth}
+            change={netWorthTrend.monthOverMonth}
+            currency={netWorthTrend.currency}
+          />
+        )}
+        <NetWorthChart
+          data={netWorthTrend?.history || []}
+          currency={netWorthTrend?.currency}
+          isLoading={netWorthLoading}
+        />
+      </div>
+
       {/* Action Button */}
       <div className="mb-4">
         <button
@@ -39,6 +39,15 @@ interface Budget {
   spent?: number;
   percentage?: number;
   status?: "SAFE" | "WARNING" | "DANGER" | "EXCEEDED";
+  effective?: {
+    period: string;
+    start: string;
+    end: string;
+    amount: number;
+    carryOver: number;
+    effectiveAmount: number;
+    spent: number;
+  } | null;
 }
 
 interface BudgetStatus {
@@ -81,7 +90,11 @@ export default function BudgetsPage() {
   const fetchBudgets = async () => {
     setIsLoading(true);
     try {
-      const response = await fetch(`/api/budget?month=${selectedMonth}`);
+      const response = await fetch(
+        `/api/budget?month=${selectedMonth % 100}&year=${Math.floor(
+          selectedMonth / 100
+        )}`
+      );
       if (!response.ok) throw new Error("Failed to fetch budgets");
 
       const data = await response.json();
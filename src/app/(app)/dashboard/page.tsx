@@ -6,9 +6,12 @@ import { TrendingUp, TrendingDown, Wallet, DollarSign } from "lucide-react";
 import StatsCard from "@/components/dashboard/StatsCard";
 import QuickActions from "@/components/dashboard/QuickActions";
 import BudgetProgress from "@/components/dashboard/BudgetProgress";
+import PinnedSearches from "@/components/dashboard/PinnedSearches";
 import IncomeExpenseChart from "@/components/charts/IncomeExpenseChart";
 import CategoryBreakdownChart from "@/components/charts/CategoryBreakdownChart";
 import MonthlyTrendChart from "@/components/charts/MonthlyTrendChart";
+import NetWorthChart from "@/components/charts/NetWorthChart";
+import NetWorthChange from "@/components/dashboard/NetWorthChange";
 import ChartExportButton from "@/components/ui/ChartExportButton";
 import TransactionModal from "@/components/TransactionModal";
 
@@ -79,6 +82,31 @@ interface DashboardStats {
     expense: number;
   }>;
   recentTransactions: Transaction[];
+  pinnedSearches: Array<{
+    id: string;
+    name: string;
+    filters: { tags?: string[]; startDate?: string; endDate?: string };
+    totals: { income: number; expense: number; net: number; count: number };
+  }>;
+  currency: string;
+}
+
+interface NetWorthTrend {
+  currency: string;
+  current: { netWorth: number };
+  monthOverMonth: {
+    change: number;
+    savings: number;
+    assetRevaluation: number;
+    debtPaydown: number;
+  };
+  history: Array<{
+    date: string;
+    walletTotal: number;
+    assetTotal: number;
+    liabilityTotal: number;
+    netWorth: number;
+  }>;
 }
 
 export default function DashboardPage() {
@@ -87,10 +115,15 @@ export default function DashboardPage() {
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState("");
   const [isModalOpen, setIsModalOpen] = useState(false);
+  const [netWorthTrend, setNetWorthTrend] = useState<NetWorthTrend | null>(
+    null
+  );
+  const [isNetWorthLoading, setIsNetWorthLoading] = useState(true);
 
   // Fetch dashboard stats on component mount
   useEffect(() => {
     fetchDashboardStats();
+    fetchNetWorthTrend();
   }, []);
 
   const fetchDashboardStats = async () => {
@@ -113,9 +146,30 @@ export default function DashboardPage() {
     }
   };
 
+  // Riwayat kekayaan bersih dimuat terpisah agar dashboard tidak menunggu
+  const fetchNetWorthTrend = async () => {
+    try {
+      setIsNetWorthLoading(true);
+
+      const response = await fetch("/api/dashboard/net-worth?period=MONTHLY&count=12");
+
+      if (!response.ok) {
+        throw new Error("Gagal mengambil riwayat kekayaan bersih");
+      }
+
+      const data: NetWorthTrend = await response.json();
+      setNetWorthTrend(data);
+    } catch (err) {
+      console.error("Fetch net worth trend error:", err);
+    } finally {
+      setIsNetWorthLoading(false);
+    }
+  };
+
   const handleTransactionSuccess = () => {
     // Refresh dashboard after adding new transaction
     fetchDashboardStats();
+    fetchNetWorthTrend();
   };
 
   // Format currency to IDR
@@ -241,6 +295,19 @@ export default function DashboardPage() {
         />
       </div>
 
+      {/* Pinned Saved Searches */}
+      {stats && stats.pinnedSearches.length > 0 && (
+        <div className="space-y-3">
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
+            Pencarian Tersimpan
+          </h2>
+          <PinnedSearches
+            searches={stats.pinnedSearches}
+            currency={stats.currency}
+          />
+        </div>
+      )}
+
       {/* Charts Row */}
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
         {/* Income vs Expense Chart (2/3 width) */}
@@ -349,6 +416,38 @@ export default function DashboardPage() {
         </div>
       </div>
 
+      {/* Net Worth Trend Chart */}
+      <div className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700">
+        <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-700 flex items-center justify-between">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
+              Kekayaan Bersih
+            </h2>
+            <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+              Wallet + aset - hutang, 12 bulan terakhir
+            </p>
+          </div>
+          <ChartExportButton
+            chartId="net-worth-chart"
+            filename="net-worth.png"
+          />
+        </div>
+        <div className="p-6 space-y-6" id="net-worth-chart">
+          {netWorthTrend && (
+            <NetWorthChange
+              netWorth={netWorthTrend.current.netWorth}
+              change={netWorthTrend.monthOverMonth}
+              currency={netWorthTrend.currency}
+            />
+          )}
+          <NetWorthChart
+            data={netWorthTrend?.history || []}
+            currency={netWorthTrend?.currency}
+            isLoading={isNetWorthLoading}
+          />
+        </div>
+      </div>
+
       {/* Recent Transactions */}
       <div className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700">
         <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-700 flex items-center justify-between">
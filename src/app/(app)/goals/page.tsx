@@ -12,6 +12,9 @@ import {
 import GoalCard from "@/components/goals/GoalCard";
 import GoalModal from "@/components/goals/GoalModal";
 import ContributionModal from "@/components/goals/ContributionModal";
+import DistributionModal from "@/components/goals/DistributionModal";
+import GoalNotifications from "@/components/goals/GoalNotifications";
+import SavingsAllocator from "@/components/goals/SavingsAllocator";
 import { GoalType } from "@/types/goal";
 
 export default function GoalsPage() {
@@ -20,6 +23,7 @@ export default function GoalsPage() {
   const [isLoading, setIsLoading] = useState(true);
   const [showGoalModal, setShowGoalModal] = useState(false);
   const [showContributeModal, setShowContributeModal] = useState(false);
+  const [showDistributeModal, setShowDistributeModal] = useState(false);
   const [selectedGoal, setSelectedGoal] = useState<GoalType | null>(null);
   const [searchQuery, setSearchQuery] = useState("");
   const [statusFilter, setStatusFilter] = useState<
@@ -85,6 +89,11 @@ export default function GoalsPage() {
     setShowContributeModal(true);
   };
 
+  const handleDistribute = (goal: GoalType) => {
+    setSelectedGoal(goal);
+    setShowDistributeModal(true);
+  };
+
   const handleCloseGoalModal = () => {
     setShowGoalModal(false);
     setSelectedGoal(null);
@@ -95,6 +104,11 @@ export default function GoalsPage() {
     setSelectedGoal(null);
   };
 
+  const handleCloseDistributeModal = () => {
+    setShowDistributeModal(false);
+    setSelectedGoal(null);
+  };
+
   const handleGoalSuccess = () => {
     handleCloseGoalModal();
     fetchGoals();
@@ -105,6 +119,11 @@ export default function GoalsPage() {
     fetchGoals();
   };
 
+  const handleDistributeSuccess = () => {
+    handleCloseDistributeModal();
+    fetchGoals();
+  };
+
   // Calculate statistics
   const stats = {
     totalGoals: goals.filter((g) => g.status === "ACTIVE").length,
@@ -145,6 +164,16 @@ export default function GoalsPage() {
         />
       )}
 
+      {/* Distribution Modal */}
+      {selectedGoal && (
+        <DistributionModal
+          isOpen={showDistributeModal}
+          onClose={handleCloseDistributeModal}
+          onSuccess={handleDistributeSuccess}
+          goal={selectedGoal}
+        />
+      )}
+
       <div className="space-y-6">
         {/* Header */}
         <div className="flex items-center justify-between">
@@ -156,13 +185,16 @@ export default function GoalsPage() {
               Kelola dan pantau tujuan keuangan keluarga Anda
             </p>
           </div>
-          <button
-            onClick={handleAddGoal}
-            className="flex items-center gap-2 px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 transition-colors"
-          >
-            <Plus className="w-5 h-5" />
-            <span>Tambah Goal</span>
-          </button>
+          <div className="flex items-center gap-2">
+            <GoalNotifications />
+            <button
+              onClick={handleAddGoal}
+              className="flex items-center gap-2 px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 transition-colors"
+            >
+              <Plus className="w-5 h-5" />
+              <span>Tambah Goal</span>
+            </button>
+          </div>
         </div>
 
         {/* Statistics Cards */}
@@ -232,6 +264,9 @@ export default function GoalsPage() {
           </div>
         </div>
 
+        {/* Savings Allocator */}
+        {stats.totalGoals > 0 && <SavingsAllocator />}
+
         {/* Search and Filter */}
         <div className="bg-white dark:bg-gray-800 rounded-xl border border-gray-200 dark:border-gray-700 p-4">
           <div className="flex flex-col md:flex-row gap-4">
@@ -318,6 +353,7 @@ export default function GoalsPage() {
                 goal={goal}
                 onEdit={handleEditGoal}
                 onContribute={handleContribute}
+                onDistribute={handleDistribute}
                 onRefresh={fetchGoals}
               />
             ))}
@@ -11,8 +11,10 @@ import {
   Shield,
   Database,
   Trash2,
+  KeyRound,
 } from "lucide-react";
 import { Card, Button, Select, Badge } from "@/components/ui";
+import ApiKeyManager from "@/components/settings/ApiKeyManager";
 import { toast } from "@/store/useNotificationStore";
 
 export default function SettingsPage() {
@@ -305,6 +307,16 @@ export default function SettingsPage() {
           </div>
         </Card>
 
+        {/* API Keys */}
+        <Card variant="elevated" padding="lg" className="mb-6">
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-4 flex items-center gap-2">
+            <KeyRound className="w-5 h-5" />
+            API Key
+          </h2>
+
+          <ApiKeyManager />
+        </Card>
+
         {/* Data Management */}
         <Card variant="elevated" padding="lg" className="mb-6">
           <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-4 flex items-center gap-2">
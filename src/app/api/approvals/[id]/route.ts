@@ -0,0 +1,147 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { withAuth } from '@/lib/route-auth';
+import { PrismaErrorHandler } from '@/lib/prisma-helpers';
+import {
+  approvalReviewSchema,
+  cancelApprovalRequest,
+  reviewApprovalRequest,
+} from '@/lib/approvals';
+
+/**
+ * POST /api/approvals/[id]
+ *
+ * Approve or reject a pending request (ADMIN only). Saat disetujui, aksi
+ * yang diajukan langsung dijalankan; jika gagal (mis. saldo tidak
+ * mencukupi) permintaan tetap PENDING.
+ *
+ * @example
+ * ```typescript
+ * await fetch(`/api/approvals/${id}`, {
+ *   method: 'POST',
+ *   body: JSON.stringify({ action: 'APPROVE', note: 'Oke, untuk buku sekolah' })
+ * });
+ * ```
+ */
+export const POST = withAuth<{ id: string }>(
+  { roles: ['ADMIN'] },
+  async (request, { session, params }) => {
+    try {
+      const { id } = await params;
+
+      const body = await request.json();
+      const input = approvalReviewSchema.parse(body);
+
+      const approvalRequest = await prisma.$transaction((tx) =>
+        reviewApprovalRequest(tx, session.familyId, session.userId, id, input)
+      );
+
+      return NextResponse.json({
+        approvalRequest,
+        message:
+          input.action === 'APPROVE'
+            ? 'Permintaan berhasil disetujui'
+            : 'Permintaan berhasil ditolak',
+      });
+    } catch (error) {
+      console.error('Review approval request error:', error);
+
+      if (error instanceof z.ZodError) {
+        const firstError = error.errors[0];
+        return NextResponse.json(
+          {
+            error: firstError.message,
+            code: 'VALIDATION_ERROR',
+            field: firstError.path.join('.'),
+          },
+          { status: 400 }
+        );
+      }
+
+      if (error instanceof Error && error.message.includes('tidak ditemukan')) {
+        return NextResponse.json(
+          { error: error.message, code: 'NOT_FOUND' },
+          { status: 404 }
+        );
+      }
+
+      if (
+        error instanceof Error &&
+        (error.message.includes('sudah diproses') ||
+          error.message.includes('permintaan sendiri') ||
+          error.message.includes('tidak mencukupi') ||
+          error.message.includes('diarsipkan') ||
+          error.message.includes('dompet yang sama') ||
+          error.message.includes('harus diisi') ||
+          error.message.includes('role sendiri') ||
+          error.message.includes('sudah memiliki role') ||
+          error.message.includes('minimal satu admin'))
+      ) {
+        return NextResponse.json(
+          { error: error.message, code: 'BUSINESS_LOGIC_ERROR' },
+          { status: 400 }
+        );
+      }
+
+      if (error && typeof error === 'object' && 'code' in error) {
+        const prismaError = PrismaErrorHandler.handle(error);
+        return NextResponse.json(
+          { error: prismaError.message, code: prismaError.code },
+          { status: 400 }
+        );
+      }
+
+      return NextResponse.json(
+        {
+          error: 'Terjadi kesalahan saat memproses permintaan persetujuan',
+          code: 'INTERNAL_ERROR',
+        },
+        { status: 500 }
+      );
+    }
+  }
+);
+
+/**
+ * DELETE /api/approvals/[id]
+ *
+ * Cancel one of your own pending requests
+ */
+export const DELETE = withAuth<{ id: string }>(
+  async (request, { session, params }) => {
+    try {
+      const { id } = await params;
+
+      await prisma.$transaction((tx) =>
+        cancelApprovalRequest(tx, session.familyId, session.userId, id)
+      );
+
+      return NextResponse.json({ message: 'Permintaan berhasil dibatalkan' });
+    } catch (error) {
+      console.error('Cancel approval request error:', error);
+
+      if (error instanceof Error && error.message.includes('tidak ditemukan')) {
+        return NextResponse.json(
+          { error: error.message, code: 'NOT_FOUND' },
+          { status: 404 }
+        );
+      }
+
+      if (error instanceof Error && error.message.includes('sudah diproses')) {
+        return NextResponse.json(
+          { error: error.message, code: 'BUSINESS_LOGIC_ERROR' },
+          { status: 400 }
+        );
+      }
+
+      return NextResponse.json(
+        {
+          error: 'Terjadi kesalahan saat membatalkan permintaan persetujuan',
+          code: 'INTERNAL_ERROR',
+        },
+        { status: 500 }
+      );
+    }
+  }
+);
@@ -0,0 +1,70 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { withAuth } from '@/lib/route-auth';
+
+const approvalQuerySchema = z.object({
+  status: z
+    .enum(['PENDING', 'APPROVED', 'REJECTED', 'CANCELLED'], {
+      errorMap: () => ({ message: 'Status tidak valid' }),
+    })
+    .optional(),
+});
+
+/**
+ * GET /api/approvals
+ *
+ * List approval requests of the family. Admin melihat semua permintaan,
+ * anggota hanya permintaan yang diajukannya sendiri.
+ *
+ * Query params:
+ * - status?: PENDING | APPROVED | REJECTED | CANCELLED
+ */
+export const GET = withAuth(async (request, { session }) => {
+  try {
+    const { status } = approvalQuerySchema.parse({
+      status: request.nextUrl.searchParams.get('status') ?? undefined,
+    });
+
+    const requests = await prisma.approvalRequest.findMany({
+      where: {
+        familyId: session.familyId,
+        ...(status && { status }),
+        ...(session.role !== 'ADMIN' && { requestedById: session.userId }),
+      },
+      include: {
+        requestedBy: { select: { id: true, name: true } },
+        reviewedBy: { select: { id: true, name: true } },
+      },
+      orderBy: { createdAt: 'desc' },
+      take: 100,
+    });
+
+    return NextResponse.json({
+      requests,
+      pending: requests.filter((r) => r.status === 'PENDING').length,
+    });
+  } catch (error) {
+    console.error('Get approval requests error:', error);
+
+    if (error instanceof z.ZodError) {
+      const firstError = error.errors[0];
+      return NextResponse.json(
+        {
+          error: firstError.message,
+          code: 'VALIDATION_ERROR',
+          field: firstError.path.join('.'),
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        error: 'Terjadi kesalahan saat mengambil permintaan persetujuan',
+        code: 'INTERNAL_ERROR',
+      },
+      { status: 500 }
+    );
+  }
+});
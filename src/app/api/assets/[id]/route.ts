@@ -1,8 +1,11 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextResponse } from 'next/server';
 import { z } from 'zod';
 import { prisma } from '@/lib/prisma';
-import { requireAuth, requireFamily, validateFamilyAccess } from '@/lib/auth';
+import { validateFamilyAccess } from '@/lib/auth';
+import { withAuth } from '@/lib/route-auth';
 import { PrismaErrorHandler } from '@/lib/prisma-helpers';
+import { createApprovalRequest, requiresApproval } from '@/lib/approvals';
+import { deleteAsset } from '@/lib/assets';
 
 /**
  * Asset Update Schema
@@ -40,227 +43,219 @@ type UpdateAssetInput = z.infer<typeof UpdateAssetSchema>;
 
 /**
  * PUT /api/assets/[id]
- * 
+ *
  * Update an asset
  */
-export async function PUT(
-  request: NextRequest,
-  props: { params: Promise<{ id: string }> }
-) {
-  const params = await props.params;
-  try {
-    // Get current session
-    const session = await requireAuth();
-    
-    // Ensure user has a family
-    await requireFamily(session);
+export const PUT = withAuth<{ id: string }>(
+  async (request, { session, params }) => {
+    const { id } = await params;
+    try {
+      // Find asset
+      const asset = await prisma.asset.findUnique({
+        where: { id },
+        select: { id: true, familyId: true },
+      });
 
-    const { id } = params;
-
-    // Find asset
-    const asset = await prisma.asset.findUnique({
-      where: { id },
-      select: { id: true, familyId: true },
-    });
-
-    if (!asset) {
-      return NextResponse.json(
-        {
-          error: 'Aset tidak ditemukan',
-          code: 'NOT_FOUND',
-        },
-        { status: 404 }
-      );
-    }
+      if (!asset) {
+        return NextResponse.json(
+          {
+            error: 'Aset tidak ditemukan',
+            code: 'NOT_FOUND',
+          },
+          { status: 404 }
+        );
+      }
 
-    // Validate family access
-    await validateFamilyAccess(session, asset.familyId);
+      // Validate family access
+      await validateFamilyAccess(session, asset.familyId);
 
-    // Parse and validate request body
-    const body = await request.json();
-    const validatedData: UpdateAssetInput = UpdateAssetSchema.parse(body);
+      // Parse and validate request body
+      const body = await request.json();
+      const validatedData: UpdateAssetInput = UpdateAssetSchema.parse(body);
 
-    // Convert date string to Date object if provided
-    let acquisitionDate = undefined;
-    if (validatedData.acquisitionDate !== undefined) {
-      if (validatedData.acquisitionDate === null) {
-        acquisitionDate = null;
-      } else if (typeof validatedData.acquisitionDate === 'string') {
-        acquisitionDate = new Date(validatedData.acquisitionDate);
-      } else {
-        acquisitionDate = validatedData.acquisitionDate;
+      // Convert date string to Date object if provided
+      let acquisitionDate = undefined;
+      if (validatedData.acquisitionDate !== undefined) {
+        if (validatedData.acquisitionDate === null) {
+          acquisitionDate = null;
+        } else if (typeof validatedData.acquisitionDate === 'string') {
+          acquisitionDate = new Date(validatedData.acquisitionDate);
+        } else {
+          acquisitionDate = validatedData.acquisitionDate;
+        }
       }
-    }
 
-    // Update asset
-    const updatedAsset = await prisma.asset.update({
-      where: { id },
-      data: {
-        ...validatedData,
-        acquisitionDate,
-      },
-    });
+      // Update asset
+      const updatedAsset = await prisma.asset.update({
+        where: { id },
+        data: {
+          ...validatedData,
+          acquisitionDate,
+        },
+      });
 
-    // Create audit log
-    await prisma.auditLog.create({
-      data: {
-        action: 'UPDATE_ASSET',
-        entityType: 'Asset',
-        entityId: id,
-        details: JSON.stringify(validatedData),
-        userId: session.userId,
-        familyId: session.familyId!,
-      },
-    });
+      // Create audit log
+      await prisma.auditLog.create({
+        data: {
+          action: 'UPDATE_ASSET',
+          entityType: 'Asset',
+          entityId: id,
+          details: JSON.stringify(validatedData),
+          userId: session.userId,
+          familyId: session.familyId,
+        },
+      });
 
-    return NextResponse.json({
-      message: 'Aset berhasil diperbarui',
-      asset: updatedAsset,
-    });
-  } catch (error) {
-    console.error('Update asset error:', error);
+      return NextResponse.json({
+        message: 'Aset berhasil diperbarui',
+        asset: updatedAsset,
+      });
+    } catch (error) {
+      console.error('Update asset error:', error);
 
-    // Handle Zod validation errors
-    if (error instanceof z.ZodError) {
-      const firstError = error.errors[0];
-      return NextResponse.json(
-        {
-          error: firstError.message,
-          code: 'VALIDATION_ERROR',
-          field: firstError.path.join('.'),
-        },
-        { status: 400 }
-      );
-    }
+      // Handle Zod validation errors
+      if (error instanceof z.ZodError) {
+        const firstError = error.errors[0];
+        return NextResponse.json(
+          {
+            error: firstError.message,
+            code: 'VALIDATION_ERROR',
+            field: firstError.path.join('.'),
+          },
+          { status: 400 }
+        );
+      }
 
-    // Handle authorization errors
-    if (error instanceof Error && (error.message.includes('required') || error.message.includes('denied'))) {
-      return NextResponse.json(
-        {
-          error: error.message,
-          code: 'UNAUTHORIZED',
-        },
-        { status: 401 }
-      );
-    }
+      // Handle family access errors
+      if (error instanceof Error && error.message.includes('denied')) {
+        return NextResponse.json(
+          {
+            error: error.message,
+            code: 'FORBIDDEN',
+          },
+          { status: 403 }
+        );
+      }
+
+      // Handle Prisma errors
+      if (error && typeof error === 'object' && 'code' in error) {
+        const prismaError = PrismaErrorHandler.handle(error);
+        return NextResponse.json(
+          {
+            error: prismaError.message,
+            code: prismaError.code,
+          },
+          { status: 400 }
+        );
+      }
 
-    // Handle Prisma errors
-    if (error && typeof error === 'object' && 'code' in error) {
-      const prismaError = PrismaErrorHandler.handle(error);
+      // Handle generic errors
       return NextResponse.json(
         {
-          error: prismaError.message,
-          code: prismaError.code,
+          error: 'Terjadi kesalahan saat memperbarui aset',
+          code: 'INTERNAL_ERROR',
         },
-        { status: 400 }
+        { status: 500 }
       );
     }
-
-    // Handle generic errors
-    return NextResponse.json(
-      {
-        error: 'Terjadi kesalahan saat memperbarui aset',
-        code: 'INTERNAL_ERROR',
-      },
-      { status: 500 }
-    );
   }
-}
+);
 
 /**
  * DELETE /api/assets/[id]
- * 
- * Delete an asset
+ *
+ * Delete an asset. Jika kebijakan keluarga mewajibkan persetujuan, penghapusan
+ * disimpan sebagai permintaan persetujuan dan dikembalikan 202.
  */
-export async function DELETE(
-  request: NextRequest,
-  props: { params: Promise<{ id: string }> }
-) {
-  const params = await props.params;
-  try {
-    // Get current session
-    const session = await requireAuth();
-    
-    // Ensure user has a family
-    await requireFamily(session);
+export const DELETE = withAuth<{ id: string }>(
+  async (request, { session, params }) => {
+    const { id } = await params;
+    try {
+      // Find asset
+      const asset = await prisma.asset.findUnique({
+        where: { id },
+        select: { id: true, familyId: true, name: true, value: true },
+      });
 
-    const { id } = params;
+      if (!asset) {
+        return NextResponse.json(
+          {
+            error: 'Aset tidak ditemukan',
+            code: 'NOT_FOUND',
+          },
+          { status: 404 }
+        );
+      }
 
-    // Find asset
-    const asset = await prisma.asset.findUnique({
-      where: { id },
-      select: { id: true, familyId: true, name: true, value: true },
-    });
+      // Validate family access
+      await validateFamilyAccess(session, asset.familyId);
 
-    if (!asset) {
-      return NextResponse.json(
-        {
-          error: 'Aset tidak ditemukan',
-          code: 'NOT_FOUND',
-        },
-        { status: 404 }
-      );
-    }
+      // Hapus aset perlu persetujuan admin lain jika diatur kebijakan keluarga
+      if (
+        await requiresApproval(prisma, session.familyId, session.userId, {
+          type: 'DELETE_ASSET',
+        })
+      ) {
+        const approvalRequest = await prisma.$transaction((tx) =>
+          createApprovalRequest(tx, {
+            familyId: session.familyId,
+            type: 'DELETE_ASSET',
+            requestedById: session.userId,
+            description: `Hapus aset ${asset.name}`,
+            payload: { id },
+          })
+        );
 
-    // Validate family access
-    await validateFamilyAccess(session, asset.familyId);
+        return NextResponse.json(
+          {
+            approvalRequest,
+            message: 'Penghapusan aset menunggu persetujuan admin',
+          },
+          { status: 202 }
+        );
+      }
 
-    // Delete asset
-    await prisma.asset.delete({
-      where: { id },
-    });
+      await prisma.$transaction((tx) =>
+        deleteAsset(tx, session.familyId, session.userId, id)
+      );
 
-    // Create audit log
-    await prisma.auditLog.create({
-      data: {
-        action: 'DELETE_ASSET',
-        entityType: 'Asset',
-        entityId: id,
-        details: JSON.stringify({
-          name: asset.name,
-          value: asset.value,
-        }),
-        userId: session.userId,
-        familyId: session.familyId!,
-      },
-    });
+      return NextResponse.json({
+        message: 'Aset berhasil dihapus',
+      });
+    } catch (error) {
+      console.error('Delete asset error:', error);
 
-    return NextResponse.json({
-      message: 'Aset berhasil dihapus',
-    });
-  } catch (error) {
-    console.error('Delete asset error:', error);
+      // Handle family access errors
+      if (error instanceof Error && error.message.includes('denied')) {
+        return NextResponse.json(
+          {
+            error: error.message,
+            code: 'FORBIDDEN',
+          },
+          { status: 403 }
+        );
+      }
 
-    // Handle authorization errors
-    if (error instanceof Error && (error.message.includes('required') || error.message.includes('denied'))) {
-      return NextResponse.json(
-        {
-          error: error.message,
-          code: 'UNAUTHORIZED',
-        },
-        { status: 401 }
-      );
-    }
+      // Handle Prisma errors
+      if (error && typeof error === 'object' && 'code' in error) {
+        const prismaError = PrismaErrorHandler.handle(error);
+        return NextResponse.json(
+          {
+            error: prismaError.message,
+            code: prismaError.code,
+          },
+          { status: 400 }
+        );
+      }
 
-    // Handle Prisma errors
-    if (error && typeof error === 'object' && 'code' in error) {
-      const prismaError = PrismaErrorHandler.handle(error);
+      // Handle generic errors
       return NextResponse.json(
         {
-          error: prismaError.message,
-          code: prismaError.code,
+          error: 'Terjadi kesalahan saat menghapus aset',
+          code: 'INTERNAL_ERROR',
         },
-        { status: 400 }
+        { status: 500 }
       );
     }
-
-    // Handle generic errors
-    return NextResponse.json(
-      {
-        error: 'Terjadi kesalahan saat menghapus aset',
-        code: 'INTERNAL_ERROR',
-      },
-      { status: 500 }
-    );
   }
-}
+);
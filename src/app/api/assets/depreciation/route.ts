@@ -1,6 +1,6 @@
-import { NextRequest, NextResponse } from "next/server";
+import { NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
-import { verifyToken } from "@/lib/auth";
+import { withAuth } from "@/lib/route-auth";
 
 /**
  * GET /api/assets/depreciation
@@ -11,20 +11,8 @@ import { verifyToken } from "@/lib/auth";
  * - usefulLife: number in years (optional, default based on asset type)
  * - salvageValue: number (optional, default 0)
  */
-export async function GET(request: NextRequest) {
+export const GET = withAuth(async (request, { session }) => {
   try {
-    const token = request.cookies.get("auth-token")?.value;
-    if (!token) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-    const user = await verifyToken(token);
-    if (!user || !user.familyId) {
-      return NextResponse.json(
-        { error: "Unauthorized or no family" },
-        { status: 401 }
-      );
-    }
-
     const { searchParams } = new URL(request.url);
     const assetId = searchParams.get("assetId");
     const method = searchParams.get("method") || "straight_line";
@@ -38,7 +26,7 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    const familyId = user.familyId!;
+    const familyId = session.familyId;
 
     // Fetch asset
     const asset = await prisma.asset.findFirst({
@@ -66,8 +54,8 @@ export async function GET(request: NextRequest) {
     const usefulLife = usefulLifeParam
       ? parseInt(usefulLifeParam)
       : asset.depreciationRate
-      ? 100 / asset.depreciationRate // If depreciation rate is set
-      : defaultUsefulLife[asset.type] || 5;
+        ? 100 / asset.depreciationRate // If depreciation rate is set
+        : defaultUsefulLife[asset.type] || 5;
 
     const purchasePrice = Number(asset.purchasePrice || asset.value);
     const salvageValue = salvageValueParam
@@ -278,8 +266,8 @@ export async function GET(request: NextRequest) {
           method === "straight_line"
             ? straightLineAccumulatedDepreciation
             : method === "declining_balance"
-            ? decliningBalanceAccumulatedDepreciation
-            : sumOfYearsAccumulatedDepreciation,
+              ? decliningBalanceAccumulatedDepreciation
+              : sumOfYearsAccumulatedDepreciation,
       },
       depreciationSchedule,
       timestamp: new Date(),
@@ -291,4 +279,4 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
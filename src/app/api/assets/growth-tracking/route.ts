@@ -1,6 +1,6 @@
-import { NextRequest, NextResponse } from "next/server";
+import { NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
-import { verifyToken } from "@/lib/auth";
+import { withAuth } from "@/lib/route-auth";
 
 /**
  * GET /api/assets/growth-tracking
@@ -10,26 +10,14 @@ import { verifyToken } from "@/lib/auth";
  * - type: AssetType (optional)
  * - period: 1m | 3m | 6m | 1y | ytd | all (default: all)
  */
-export async function GET(request: NextRequest) {
+export const GET = withAuth(async (request, { session }) => {
   try {
-    const token = request.cookies.get("auth-token")?.value;
-    if (!token) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-    const user = await verifyToken(token);
-    if (!user || !user.familyId) {
-      return NextResponse.json(
-        { error: "Unauthorized or no family" },
-        { status: 401 }
-      );
-    }
-
     const { searchParams } = new URL(request.url);
     const assetId = searchParams.get("assetId");
     const type = searchParams.get("type");
     const period = searchParams.get("period") || "all";
 
-    const familyId = user.familyId!;
+    const familyId = session.familyId;
 
     // Calculate date range based on period
     let startDate: Date | null = null;
@@ -171,11 +159,7 @@ export async function GET(request: NextRequest) {
 
       // Performance benchmarking
       let performanceLevel:
-        | "excellent"
-        | "good"
-        | "average"
-        | "poor"
-        | "declining";
+        "excellent" | "good" | "average" | "poor" | "declining";
       if (totalGrowthPercentage > 20) performanceLevel = "excellent";
       else if (totalGrowthPercentage > 10) performanceLevel = "good";
       else if (totalGrowthPercentage > 0) performanceLevel = "average";
@@ -244,10 +228,10 @@ export async function GET(request: NextRequest) {
             volatility < 5
               ? "low"
               : volatility < 15
-              ? "medium"
-              : volatility < 30
-              ? "high"
-              : "very_high",
+                ? "medium"
+                : volatility < 30
+                  ? "high"
+                  : "very_high",
         },
         trend: {
           direction: trendDirection,
@@ -256,8 +240,8 @@ export async function GET(request: NextRequest) {
             trendDirection === "up"
               ? `Growing at ${trendStrength.toFixed(1)}% rate`
               : trendDirection === "down"
-              ? `Declining at ${trendStrength.toFixed(1)}% rate`
-              : "Stable with minimal fluctuation",
+                ? `Declining at ${trendStrength.toFixed(1)}% rate`
+                : "Stable with minimal fluctuation",
         },
         performance: {
           level: performanceLevel,
@@ -265,12 +249,12 @@ export async function GET(request: NextRequest) {
             performanceLevel === "excellent"
               ? 90
               : performanceLevel === "good"
-              ? 75
-              : performanceLevel === "average"
-              ? 60
-              : performanceLevel === "poor"
-              ? 40
-              : 20,
+                ? 75
+                : performanceLevel === "average"
+                  ? 60
+                  : performanceLevel === "poor"
+                    ? 40
+                    : 20,
         },
         prediction: {
           next6Months: {
@@ -298,11 +282,14 @@ export async function GET(request: NextRequest) {
       (portfolioGrowth / totalPurchaseValue) * 100;
 
     // Calculate portfolio CAGR
-    const oldestAcquisition = assets.reduce((oldest, asset) => {
-      if (!asset.acquisitionDate) return oldest;
-      const date = new Date(asset.acquisitionDate);
-      return !oldest || date < oldest ? date : oldest;
-    }, null as Date | null);
+    const oldestAcquisition = assets.reduce(
+      (oldest, asset) => {
+        if (!asset.acquisitionDate) return oldest;
+        const date = new Date(asset.acquisitionDate);
+        return !oldest || date < oldest ? date : oldest;
+      },
+      null as Date | null
+    );
 
     let portfolioCagr = 0;
     if (oldestAcquisition) {
@@ -369,4 +356,4 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
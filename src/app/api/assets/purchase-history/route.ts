@@ -1,6 +1,6 @@
-import { NextRequest, NextResponse } from "next/server";
+import { NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
-import { verifyToken } from "@/lib/auth";
+import { withAuth } from "@/lib/route-auth";
 
 /**
  * GET /api/assets/purchase-history
@@ -11,27 +11,15 @@ import { verifyToken } from "@/lib/auth";
  * - sortBy: acquisitionDate | value | name (default: acquisitionDate)
  * - sortOrder: asc | desc (default: desc)
  */
-export async function GET(request: NextRequest) {
+export const GET = withAuth(async (request, { session }) => {
   try {
-    const token = request.cookies.get("auth-token")?.value;
-    if (!token) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-    const user = await verifyToken(token);
-    if (!user || !user.familyId) {
-      return NextResponse.json(
-        { error: "Unauthorized or no family" },
-        { status: 401 }
-      );
-    }
-
     const { searchParams } = new URL(request.url);
     const year = searchParams.get("year");
     const type = searchParams.get("type");
     const sortBy = searchParams.get("sortBy") || "acquisitionDate";
     const sortOrder = searchParams.get("sortOrder") || "desc";
 
-    const familyId = user.familyId!;
+    const familyId = session.familyId;
 
     // Build filter
     const filter: any = { familyId };
@@ -125,10 +113,10 @@ export async function GET(request: NextRequest) {
             appreciationPercentage > 10
               ? "excellent"
               : appreciationPercentage > 0
-              ? "good"
-              : appreciationPercentage > -10
-              ? "fair"
-              : "poor",
+                ? "good"
+                : appreciationPercentage > -10
+                  ? "fair"
+                  : "poor",
           isAppreciating: appreciation > 0,
         },
       };
@@ -234,4 +222,4 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
@@ -1,7 +1,7 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextResponse } from 'next/server';
 import { z } from 'zod';
 import { prisma } from '@/lib/prisma';
-import { requireAuth, requireFamily } from '@/lib/auth';
+import { withAuth } from '@/lib/route-auth';
 import { PrismaErrorHandler } from '@/lib/prisma-helpers';
 
 /**
@@ -35,21 +35,15 @@ type CreateAssetInput = z.infer<typeof CreateAssetSchema>;
 
 /**
  * GET /api/assets
- * 
+ *
  * Get all assets for the user's family
  */
-export async function GET() {
+export const GET = withAuth(async (request, { session }) => {
   try {
-    // Get current session
-    const session = await requireAuth();
-    
-    // Ensure user has a family
-    await requireFamily(session);
-
     // Fetch assets
     const assets = await prisma.asset.findMany({
       where: {
-        familyId: session.familyId!,
+        familyId: session.familyId,
       },
       orderBy: {
         createdAt: 'desc',
@@ -57,8 +51,11 @@ export async function GET() {
     });
 
     // Calculate total value
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const totalValue = assets.reduce((sum: number, asset: any) => sum + asset.value, 0);
+    const totalValue = assets.reduce(
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      (sum: number, asset: any) => sum + asset.value,
+      0
+    );
 
     return NextResponse.json({
       assets,
@@ -70,16 +67,6 @@ export async function GET() {
   } catch (error) {
     console.error('Get assets error:', error);
 
-    if (error instanceof Error && error.message.includes('required')) {
-      return NextResponse.json(
-        {
-          error: error.message,
-          code: 'UNAUTHORIZED',
-        },
-        { status: 401 }
-      );
-    }
-
     return NextResponse.json(
       {
         error: 'Terjadi kesalahan saat mengambil data aset',
@@ -88,21 +75,15 @@ export async function GET() {
       { status: 500 }
     );
   }
-}
+});
 
 /**
  * POST /api/assets
- * 
+ *
  * Create a new asset
  */
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request, { session }) => {
   try {
-    // Get current session
-    const session = await requireAuth();
-    
-    // Ensure user has a family
-    await requireFamily(session);
-
     // Parse and validate request body
     const body = await request.json();
     const validatedData: CreateAssetInput = CreateAssetSchema.parse(body);
@@ -124,7 +105,7 @@ export async function POST(request: NextRequest) {
         value,
         description: description || null,
         acquisitionDate: assetDate || null,
-        familyId: session.familyId!,
+        familyId: session.familyId,
       },
     });
 
@@ -140,7 +121,7 @@ export async function POST(request: NextRequest) {
           value,
         }),
         userId: session.userId,
-        familyId: session.familyId!,
+        familyId: session.familyId,
       },
     });
 
@@ -167,17 +148,6 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Handle authorization errors
-    if (error instanceof Error && error.message.includes('required')) {
-      return NextResponse.json(
-        {
-          error: error.message,
-          code: 'UNAUTHORIZED',
-        },
-        { status: 401 }
-      );
-    }
-
     // Handle Prisma errors
     if (error && typeof error === 'object' && 'code' in error) {
       const prismaError = PrismaErrorHandler.handle(error);
@@ -199,4 +169,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
@@ -1,6 +1,6 @@
-import { NextRequest, NextResponse } from "next/server";
+import { NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
-import { verifyToken } from "@/lib/auth";
+import { withAuth } from "@/lib/route-auth";
 
 /**
  * GET /api/assets/value-tracking
@@ -11,27 +11,15 @@ import { verifyToken } from "@/lib/auth";
  * - startDate: ISO date (optional)
  * - endDate: ISO date (optional)
  */
-export async function GET(request: NextRequest) {
+export const GET = withAuth(async (request, { session }) => {
   try {
-    const token = request.cookies.get("auth-token")?.value;
-    if (!token) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-    const user = await verifyToken(token);
-    if (!user || !user.familyId) {
-      return NextResponse.json(
-        { error: "Unauthorized or no family" },
-        { status: 401 }
-      );
-    }
-
     const { searchParams } = new URL(request.url);
     const assetId = searchParams.get("assetId");
     const type = searchParams.get("type");
     const startDate = searchParams.get("startDate");
     const endDate = searchParams.get("endDate");
 
-    const familyId = user.familyId!;
+    const familyId = session.familyId;
 
     // Build asset filter
     const assetFilter: any = { familyId };
@@ -209,26 +197,14 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
 /**
  * POST /api/assets/value-tracking
  * Add new value history entry for an asset
  */
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request, { session }) => {
   try {
-    const token = request.cookies.get("auth-token")?.value;
-    if (!token) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-    const user = await verifyToken(token);
-    if (!user || !user.familyId) {
-      return NextResponse.json(
-        { error: "Unauthorized or no family" },
-        { status: 401 }
-      );
-    }
-
     const body = await request.json();
     const { assetId, value, date, notes, source } = body;
 
@@ -239,7 +215,7 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const familyId = user.familyId!;
+    const familyId = session.familyId;
 
     // Verify asset belongs to family
     const asset = await prisma.asset.findFirst({
@@ -279,4 +255,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
@@ -0,0 +1,50 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { withAuth } from '@/lib/route-auth';
+import { revokeApiKey } from '@/lib/api-keys';
+
+/**
+ * DELETE /api/auth/api-keys/[id]
+ *
+ * Revoke an API key of the current user. Kunci tetap tersimpan (dengan
+ * `revokedAt`) untuk riwayat, tetapi tidak bisa dipakai lagi.
+ */
+export const DELETE = withAuth<{ id: string }>(
+  { family: false, apiKey: false },
+  async (request, { session, params }) => {
+    const { id } = await params;
+    try {
+      const apiKey = await prisma.$transaction((tx) =>
+        revokeApiKey(tx, session, id)
+      );
+
+      return NextResponse.json({
+        message: 'API key revoked successfully',
+        apiKey,
+      });
+    } catch (error) {
+      if (
+        error instanceof Error &&
+        error.message === 'API key tidak ditemukan'
+      ) {
+        return NextResponse.json(
+          { error: error.message, code: 'NOT_FOUND' },
+          { status: 404 }
+        );
+      }
+
+      if (error instanceof Error && error.message === 'API key sudah dicabut') {
+        return NextResponse.json(
+          { error: error.message, code: 'ALREADY_REVOKED' },
+          { status: 400 }
+        );
+      }
+
+      console.error('Revoke API key error:', error);
+      return NextResponse.json(
+        { error: 'Failed to revoke API key', code: 'INTERNAL_ERROR' },
+        { status: 500 }
+      );
+    }
+  }
+);
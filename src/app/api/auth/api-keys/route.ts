@@ -0,0 +1,85 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { withAuth } from '@/lib/route-auth';
+import { apiKeySchema, apiKeySelect, createApiKey } from '@/lib/api-keys';
+
+/**
+ * GET /api/auth/api-keys
+ *
+ * List the API keys of the current user (tanpa kunci lengkap)
+ */
+export const GET = withAuth(
+  // Kelola API key hanya lewat sesi login
+  { family: false, apiKey: false },
+  async (request, { session }) => {
+    try {
+      const apiKeys = await prisma.apiKey.findMany({
+        where: { userId: session.userId },
+        select: apiKeySelect,
+        orderBy: { createdAt: 'desc' },
+      });
+
+      return NextResponse.json({ apiKeys });
+    } catch (error) {
+      console.error('Get API keys error:', error);
+      return NextResponse.json(
+        { error: 'Failed to fetch API keys', code: 'INTERNAL_ERROR' },
+        { status: 500 }
+      );
+    }
+  }
+);
+
+/**
+ * POST /api/auth/api-keys
+ *
+ * Create an API key. Kunci lengkap hanya dikembalikan sekali di respons ini.
+ */
+export const POST = withAuth(
+  { family: false, apiKey: false },
+  async (request, { session }) => {
+    try {
+      const body = await request.json();
+      const input = apiKeySchema.parse(body);
+
+      const result = await prisma.$transaction((tx) =>
+        createApiKey(tx, session, input)
+      );
+
+      return NextResponse.json(
+        {
+          message: 'API key created successfully',
+          apiKey: result.apiKey,
+          key: result.key,
+        },
+        { status: 201 }
+      );
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        const firstError = error.errors[0];
+        return NextResponse.json(
+          {
+            error: firstError.message,
+            code: 'VALIDATION_ERROR',
+            field: firstError.path.join('.'),
+          },
+          { status: 400 }
+        );
+      }
+
+      if (error instanceof Error && error.message.startsWith('Maksimal')) {
+        return NextResponse.json(
+          { error: error.message, code: 'LIMIT_EXCEEDED' },
+          { status: 400 }
+        );
+      }
+
+      console.error('Create API key error:', error);
+      return NextResponse.json(
+        { error: 'Failed to create API key', code: 'INTERNAL_ERROR' },
+        { status: 500 }
+      );
+    }
+  }
+);
@@ -1,10 +1,10 @@
-import { NextResponse } from 'next/server';
-import { getCurrentSession } from '@/lib/auth';
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionFromRequest } from '@/lib/route-auth';
 import { prisma } from '@/lib/prisma';
 
-export async function GET() {
+export async function GET(request: NextRequest) {
   try {
-    const session = await getCurrentSession();
+    const session = await getSessionFromRequest(request);
 
     if (!session) {
       return NextResponse.json({ user: null }, { status: 200 });
@@ -0,0 +1,189 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { withAuth } from '@/lib/route-auth';
+import { PrismaErrorHandler } from '@/lib/prisma-helpers';
+import {
+  envelopeMoveSchema,
+  getEnvelopeMonth,
+  moveEnvelopeMoney,
+  requireEnvelopeMode,
+} from '@/lib/envelopes';
+
+const monthQuerySchema = z.object({
+  month: z.coerce
+    .number({ invalid_type_error: 'Month harus berupa angka' })
+    .int('Month harus bilangan bulat')
+    .min(1, 'Month minimal 1')
+    .max(12, 'Month maksimal 12'),
+  year: z.coerce
+    .number({ invalid_type_error: 'Year harus berupa angka' })
+    .int('Year harus bilangan bulat')
+    .min(2000, 'Year minimal 2000')
+    .max(2100, 'Year maksimal 2100'),
+});
+
+/**
+ * GET /api/budget/envelopes
+ *
+ * Envelope balances of a month (carry-over, assigned, moved, spent,
+ * available), the family's available-to-assign amount and the money moves
+ * made in that month
+ *
+ * Query params:
+ * - month?: 1-12 (default bulan ini)
+ * - year?: default tahun ini
+ *
+ * @example
+ * ```typescript
+ * const response = await fetch('/api/budget/envelopes?month=3&year=2025');
+ * const { envelopes, availableToAssign, moves } = await response.json();
+ * ```
+ */
+export const GET = withAuth(async (request, { session }) => {
+  try {
+    const familyId = session.familyId;
+    await requireEnvelopeMode(prisma, familyId);
+
+    const now = new Date();
+    const { searchParams } = request.nextUrl;
+    const { month, year } = monthQuerySchema.parse({
+      month: searchParams.get('month') ?? now.getMonth() + 1,
+      year: searchParams.get('year') ?? now.getFullYear(),
+    });
+
+    const [envelopeMonth, moves] = await Promise.all([
+      getEnvelopeMonth(prisma, familyId, month, year),
+      prisma.budgetTransfer.findMany({
+        where: { familyId, month, year },
+        include: {
+          fromCategory: { select: { name: true, icon: true } },
+          toCategory: { select: { name: true, icon: true } },
+          user: { select: { name: true } },
+        },
+        orderBy: { createdAt: 'desc' },
+      }),
+    ]);
+
+    return NextResponse.json({ ...envelopeMonth, moves });
+  } catch (error) {
+    console.error('Get envelopes error:', error);
+
+    if (error instanceof z.ZodError) {
+      const firstError = error.errors[0];
+      return NextResponse.json(
+        {
+          error: firstError.message,
+          code: 'VALIDATION_ERROR',
+          field: firstError.path.join('.'),
+        },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof Error && error.message.includes('belum diaktifkan')) {
+      return NextResponse.json(
+        { error: error.message, code: 'BUSINESS_LOGIC_ERROR' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        error: 'Terjadi kesalahan saat mengambil envelope budget',
+        code: 'INTERNAL_ERROR',
+      },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * POST /api/budget/envelopes
+ *
+ * Move money between envelopes mid-month (ADMIN only). Kosongkan
+ * `fromCategoryId` untuk mengisi envelope dari dana yang belum dialokasikan,
+ * atau `toCategoryId` untuk mengembalikan dana ke sana.
+ *
+ * @example
+ * ```typescript
+ * await fetch('/api/budget/envelopes', {
+ *   method: 'POST',
+ *   body: JSON.stringify({
+ *     fromCategoryId: 'cat_hiburan',
+ *     toCategoryId: 'cat_makan',
+ *     amount: 250000,
+ *     month: 3,
+ *     year: 2025,
+ *     note: 'Tambahan belanja dapur',
+ *   })
+ * });
+ * ```
+ */
+export const POST = withAuth(
+  { roles: ['ADMIN'] },
+  async (request, { session }) => {
+    try {
+      const body = await request.json();
+      const input = envelopeMoveSchema.parse(body);
+
+      const transfer = await prisma.$transaction((tx) =>
+        moveEnvelopeMoney(tx, session.familyId, session.userId, input)
+      );
+
+      return NextResponse.json(
+        { transfer, message: 'Dana envelope berhasil dipindahkan' },
+        { status: 201 }
+      );
+    } catch (error) {
+      console.error('Move envelope money error:', error);
+
+      if (error instanceof z.ZodError) {
+        const firstError = error.errors[0];
+        return NextResponse.json(
+          {
+            error: firstError.message,
+            code: 'VALIDATION_ERROR',
+            field: firstError.path.join('.'),
+          },
+          { status: 400 }
+        );
+      }
+
+      if (error instanceof Error && error.message.includes('tidak ditemukan')) {
+        return NextResponse.json(
+          { error: error.message, code: 'NOT_FOUND' },
+          { status: 404 }
+        );
+      }
+
+      if (
+        error instanceof Error &&
+        (error.message.includes('belum diaktifkan') ||
+          error.message.includes('tidak mencukupi') ||
+          error.message.includes('Envelope hanya'))
+      ) {
+        return NextResponse.json(
+          { error: error.message, code: 'BUSINESS_LOGIC_ERROR' },
+          { status: 400 }
+        );
+      }
+
+      if (error && typeof error === 'object' && 'code' in error) {
+        const prismaError = PrismaErrorHandler.handle(error);
+        return NextResponse.json(
+          { error: prismaError.message, code: prismaError.code },
+          { status: 400 }
+        );
+      }
+
+      return NextResponse.json(
+        {
+          error: 'Terjadi kesalahan saat memindahkan dana envelope',
+          code: 'INTERNAL_ERROR',
+        },
+        { status: 500 }
+      );
+    }
+  }
+);
@@ -1,34 +1,29 @@
-import { NextRequest, NextResponse } from "next/server";
+import { NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
-import { verifyToken } from "@/lib/auth";
+import { withAuth } from "@/lib/route-auth";
 import {
-  getMonthInt,
-  getMonthDateRange,
-  monthIntToDate,
-} from "@/lib/date-helpers";
+  getBudgetReferenceDate,
+  getMonthBudgetsWhere,
+} from "@/lib/budget-periods";
+import {
+  getEffectiveBudgets,
+  rolloverBudgetSelect,
+} from "@/lib/budget-rollover";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
 
 /**
  * GET /api/budget/realization
  * Monitor budget realization with trend analysis
+ * Planned amount is the effective budget (budget + carry-over) of the period
+ * active in the requested month, or today's period within the year
  * Query params:
  * - year: number
  * - month: number (optional)
  * - categoryId: string (optional)
  */
-export async function GET(request: NextRequest) {
+export const GET = withAuth(async (request, { session }) => {
   try {
-    const token = request.cookies.get("auth-token")?.value;
-    if (!token) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-    const user = await verifyToken(token);
-    if (!user || !user.familyId) {
-      return NextResponse.json(
-        { error: "Unauthorized or no family" },
-        { status: 401 }
-      );
-    }
-
     const { searchParams } = new URL(request.url);
     const year = parseInt(
       searchParams.get("year") || new Date().getFullYear().toString()
@@ -36,18 +31,25 @@ export async function GET(request: NextRequest) {
     const monthParam = searchParams.get("month");
     const categoryId = searchParams.get("categoryId");
 
-    const familyId = user.familyId!;
+    const familyId = session.familyId;
 
     // Build filter
-    const budgetFilter: any = {
-      familyId,
-      year,
-    };
-
-    if (monthParam) {
-      const month = parseInt(monthParam);
-      budgetFilter.month = getMonthInt(new Date(year, month - 1, 1));
-    }
+    const budgetFilter: any = monthParam
+      ? getMonthBudgetsWhere(familyId, parseInt(monthParam), year)
+      : {
+          familyId,
+          OR: [
+            { year },
+            {
+              month: null,
+              startDate: { lte: new Date(year, 11, 31, 23, 59, 59, 999) },
+              OR: [
+                { endDate: null },
+                { endDate: { gte: new Date(year, 0, 1) } },
+              ],
+            },
+          ],
+        };
 
     if (categoryId) {
       budgetFilter.categoryId = categoryId;
@@ -56,18 +58,38 @@ export async function GET(request: NextRequest) {
     // Fetch budgets
     const budgets = await prisma.budget.findMany({
       where: budgetFilter,
-      include: {
+      select: {
+        ...rolloverBudgetSelect,
         category: true,
       },
       orderBy: [{ month: "asc" }],
     });
 
+    // Periode aktif: bulan yang diminta, atau hari ini dalam tahun tersebut
+    const now = new Date();
+    const yearStart = new Date(year, 0, 1);
+    const yearEnd = new Date(year, 11, 31);
+    const referenceDate = monthParam
+      ? getBudgetReferenceDate(parseInt(monthParam), year, now)
+      : now < yearStart
+        ? yearStart
+        : now > yearEnd
+          ? yearEnd
+          : now;
+    const effectiveBudgets = await getEffectiveBudgets(
+      prisma,
+      familyId,
+      budgets,
+      referenceDate
+    );
+
     // Calculate realization for each budget
     const realizationData = await Promise.all(
       budgets.map(async (budget) => {
-        if (!budget.month || !budget.year) return null;
+        const effective = effectiveBudgets.get(budget.id);
+        if (!effective) return null;
 
-        const { start, end } = getMonthDateRange(budget.month);
+        const { start, end } = effective;
 
         // Get transactions for this budget
         const transactions = await prisma.transaction.findMany({
@@ -84,27 +106,39 @@ export async function GET(request: NextRequest) {
           (sum, tx) => sum + Number(tx.amount),
           0
         );
-        const budgetAmount = Number(budget.amount);
+        const budgetAmount = effective.effectiveAmount;
         const realizationRate = (actualSpent / budgetAmount) * 100;
         const variance = actualSpent - budgetAmount;
         const variancePercentage = (variance / budgetAmount) * 100;
 
-        // Calculate daily realization progress
-        const monthValue = budget.month!; // Already checked above
-        const yearValue = budget.year!; // Already checked above
-        const daysInMonth = new Date(yearValue, monthValue % 100, 0).getDate();
-        const dailyProgress = Array.from({ length: daysInMonth }, (_, i) => {
+        // Calculate daily realization progress over the budget period
+        const dayIndexOf = (date: Date) =>
+          Math.round(
+            (new Date(
+              date.getFullYear(),
+              date.getMonth(),
+              date.getDate()
+            ).getTime() -
+              start.getTime()) /
+              DAY_MS
+          );
+        const daysInPeriod = dayIndexOf(end) + 1;
+        const dailyProgress = Array.from({ length: daysInPeriod }, (_, i) => {
           const day = i + 1;
-          const dayDate = new Date(yearValue, (monthValue % 100) - 1, day);
+          const dayDate = new Date(
+            start.getFullYear(),
+            start.getMonth(),
+            start.getDate() + i
+          );
           const dayTransactions = transactions.filter(
-            (tx) => new Date(tx.date).getDate() === day
+            (tx) => dayIndexOf(new Date(tx.date)) === i
           );
           const daySpent = dayTransactions.reduce(
             (sum, tx) => sum + Number(tx.amount),
             0
           );
           const cumulativeSpent = transactions
-            .filter((tx) => new Date(tx.date).getDate() <= day)
+            .filter((tx) => dayIndexOf(new Date(tx.date)) <= i)
             .reduce((sum, tx) => sum + Number(tx.amount), 0);
 
           return {
@@ -122,14 +156,15 @@ export async function GET(request: NextRequest) {
         const avgDailySpend =
           last7Days.reduce((sum, d) => sum + d.dailySpent, 0) / 7;
         const trend =
-          avgDailySpend > budgetAmount / daysInMonth
+          avgDailySpend > budgetAmount / daysInPeriod
             ? "increasing"
             : "decreasing";
 
         // Performance metrics
-        const targetDailySpend = budgetAmount / daysInMonth;
+        const targetDailySpend = budgetAmount / daysInPeriod;
         const actualDailySpend =
-          actualSpent / Math.min(new Date().getDate(), daysInMonth);
+          actualSpent /
+          Math.min(Math.max(dayIndexOf(now) + 1, 1), daysInPeriod);
         const efficiency = (targetDailySpend / actualDailySpend) * 100;
 
         // Grade the realization
@@ -145,17 +180,19 @@ export async function GET(request: NextRequest) {
           categoryId: budget.categoryId,
           categoryName: budget.category?.name || "Uncategorized",
           period: {
+            type: effective.period,
             year: budget.year,
             month: budget.month,
-            monthName: monthIntToDate(budget.month).toLocaleDateString(
-              "id-ID",
-              {
-                month: "long",
-                year: "numeric",
-              }
-            ),
+            start,
+            end,
+            monthName: start.toLocaleDateString("id-ID", {
+              month: "long",
+              year: "numeric",
+            }),
           },
           budget: {
+            base: effective.amount,
+            carryOver: effective.carryOver,
             planned: budgetAmount,
             actual: actualSpent,
             remaining: budgetAmount - actualSpent,
@@ -191,8 +228,8 @@ export async function GET(request: NextRequest) {
                 ? "excellent"
                 : "good"
               : realizationRate <= 110
-              ? "warning"
-              : "over",
+                ? "warning"
+                : "over",
         };
       })
     );
@@ -267,4 +304,4 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
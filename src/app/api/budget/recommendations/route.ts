@@ -1,6 +1,6 @@
-import { NextRequest, NextResponse } from "next/server";
+import { NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
-import { verifyToken } from "@/lib/auth";
+import { withAuth } from "@/lib/route-auth";
 import { getMonthInt, getMonthDateRange } from "@/lib/date-helpers";
 
 /**
@@ -11,20 +11,8 @@ import { getMonthInt, getMonthDateRange } from "@/lib/date-helpers";
  * - targetYear: number
  * - targetMonth: number
  */
-export async function GET(request: NextRequest) {
+export const GET = withAuth(async (request, { session }) => {
   try {
-    const token = request.cookies.get("auth-token")?.value;
-    if (!token) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-    const user = await verifyToken(token);
-    if (!user || !user.familyId) {
-      return NextResponse.json(
-        { error: "Unauthorized or no family" },
-        { status: 401 }
-      );
-    }
-
     const { searchParams } = new URL(request.url);
     const monthsToAnalyze = parseInt(
       searchParams.get("monthsToAnalyze") || "6"
@@ -36,7 +24,7 @@ export async function GET(request: NextRequest) {
       searchParams.get("targetMonth") || (new Date().getMonth() + 2).toString()
     );
 
-    const familyId = user.familyId!;
+    const familyId = session.familyId;
 
     // Calculate analysis period
     const endDate = new Date();
@@ -96,8 +84,8 @@ export async function GET(request: NextRequest) {
           trendPercentage > 10
             ? "increasing"
             : trendPercentage < -10
-            ? "decreasing"
-            : "stable";
+              ? "decreasing"
+              : "stable";
 
         // Calculate recommended budget
         let recommendedBudget = average;
@@ -154,8 +142,8 @@ export async function GET(request: NextRequest) {
               trend === "increasing"
                 ? "Added buffer due to increasing spending."
                 : trend === "decreasing"
-                ? "Reduced budget due to decreasing spending."
-                : "Stable spending pattern with small buffer."
+                  ? "Reduced budget due to decreasing spending."
+                  : "Stable spending pattern with small buffer."
             }`,
             minBudget: Math.ceil((average - stdDev) / 1000) * 1000,
             maxBudget: Math.ceil((average + stdDev * 1.5) / 1000) * 1000,
@@ -295,4 +283,4 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
@@ -1,45 +1,102 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextResponse } from 'next/server';
 import { z } from 'zod';
 import { prisma } from '@/lib/prisma';
-import { requireAuth, requireFamily } from '@/lib/auth';
+import { withAuth } from '@/lib/route-auth';
 import { PrismaErrorHandler } from '@/lib/prisma-helpers';
+import { getEnvelopeMonth } from '@/lib/envelopes';
+import {
+  getBudgetReferenceDate,
+  getMonthBudgetsWhere,
+} from '@/lib/budget-periods';
+import {
+  getEffectiveBudgets,
+  refreshRecurringBudgetSpent,
+} from '@/lib/budget-rollover';
 
 /**
  * Budget Create/Update Schema
  */
-const BudgetSchema = z.object({
-  categoryId: z.string().uuid('Category ID tidak valid'),
-  amount: z
-    .number()
-    .nonnegative('Jumlah budget tidak boleh negatif')
-    .max(999999999999, 'Jumlah budget terlalu besar'),
-  month: z
-    .number()
-    .int('Month harus bilangan bulat')
-    .min(1, 'Month minimal 1')
-    .max(12, 'Month maksimal 12'),
-  year: z
-    .number()
-    .int('Year harus bilangan bulat')
-    .min(2000, 'Year minimal 2000')
-    .max(2100, 'Year maksimal 2100'),
-});
+const BudgetSchema = z
+  .object({
+    categoryId: z.string().uuid('Category ID tidak valid'),
+    amount: z
+      .number()
+      .nonnegative('Jumlah budget tidak boleh negatif')
+      .max(999999999999, 'Jumlah budget terlalu besar'),
+    period: z
+      .enum([
+        'WEEKLY',
+        'BIWEEKLY',
+        'MONTHLY',
+        'QUARTERLY',
+        'YEARLY',
+        'PAY_CYCLE',
+      ])
+      .default('MONTHLY'),
+    month: z
+      .number()
+      .int('Month harus bilangan bulat')
+      .min(1, 'Month minimal 1')
+      .max(12, 'Month maksimal 12')
+      .optional(),
+    year: z
+      .number()
+      .int('Year harus bilangan bulat')
+      .min(2000, 'Year minimal 2000')
+      .max(2100, 'Year maksimal 2100')
+      .optional(),
+    // Budget berulang: mulai berlaku (dan acuan periode WEEKLY/BIWEEKLY)
+    startDate: z.string().datetime('Format tanggal tidak valid').optional(),
+    endDate: z
+      .string()
+      .datetime('Format tanggal tidak valid')
+      .nullable()
+      .optional(),
+    // PAY_CYCLE: tanggal gajian, misal 25 → periode 25 s/d 24
+    cycleStartDay: z
+      .number()
+      .int('Tanggal siklus harus bilangan bulat')
+      .min(1, 'Tanggal siklus minimal 1')
+      .max(28, 'Tanggal siklus maksimal 28')
+      .optional(),
+    rolloverMode: z
+      .enum(['NONE', 'UNDERSPEND', 'OVERSPEND', 'BOTH'])
+      .optional(),
+    // Mode envelope: sisa budget dibawa ke bulan berikutnya
+    rollover: z.boolean().optional(),
+  })
+  .refine((data) => data.period !== 'MONTHLY' || (data.month && data.year), {
+    message: 'Month dan year wajib diisi untuk budget bulanan',
+    path: ['month'],
+  })
+  .refine((data) => data.period !== 'PAY_CYCLE' || data.cycleStartDay, {
+    message: 'Tanggal siklus wajib diisi untuk budget PAY_CYCLE',
+    path: ['cycleStartDay'],
+  });
 
 type BudgetInput = z.infer<typeof BudgetSchema>;
 
 /**
  * POST /api/budget
- * 
- * Create or update budget for a category in a specific month/year
- * 
+ *
+ * Create or update budget for a category in a specific month/year, or a
+ * recurring budget with a custom period (weekly, bi-weekly, quarterly,
+ * yearly or pay cycle)
+ *
  * Request body:
  * {
  *   categoryId: string,
  *   amount: number,
- *   month: number (1-12),
- *   year: number (e.g., 2025)
+ *   period?: 'WEEKLY' | 'BIWEEKLY' | 'MONTHLY' | 'QUARTERLY' | 'YEARLY' | 'PAY_CYCLE' (default MONTHLY),
+ *   month?: number (1-12, wajib untuk MONTHLY),
+ *   year?: number (e.g., 2025, wajib untuk MONTHLY),
+ *   startDate?: string (ISO, budget berulang; default hari ini),
+ *   endDate?: string | null,
+ *   cycleStartDay?: number (1-28, wajib untuk PAY_CYCLE),
+ *   rolloverMode?: 'NONE' | 'UNDERSPEND' | 'OVERSPEND' | 'BOTH' (default NONE),
+ *   rollover?: boolean (mode envelope, default true)
  * }
- * 
+ *
  * Response:
  * {
  *   budget: {
@@ -53,184 +110,208 @@ type BudgetInput = z.infer<typeof BudgetSchema>;
  *   created: boolean (true if new, false if updated)
  * }
  */
-export async function POST(request: NextRequest) {
-  try {
-    // Get current session
-    const session = await requireAuth();
-    
-    // Ensure user has a family
-    await requireFamily(session);
-
-    // Check if user is ADMIN
-    if (session.role !== 'ADMIN') {
-      return NextResponse.json(
-        {
-          error: 'Akses ditolak',
-          message: 'Hanya admin yang dapat mengelola budget',
-        },
-        { status: 403 }
-      );
-    }
+export const POST = withAuth(
+  { roles: ['ADMIN'] },
+  async (request, { session }) => {
+    try {
+      // Parse and validate request body
+      const body = await request.json();
+      const validatedData: BudgetInput = BudgetSchema.parse(body);
 
-    // Parse and validate request body
-    const body = await request.json();
-    const validatedData: BudgetInput = BudgetSchema.parse(body);
+      const {
+        categoryId,
+        amount,
+        period,
+        startDate,
+        endDate,
+        cycleStartDay,
+        rolloverMode,
+        rollover,
+      } = validatedData;
+      // Budget berulang tidak memakai month/year
+      const month = period === 'MONTHLY' ? validatedData.month! : null;
+      const year = period === 'MONTHLY' ? validatedData.year! : null;
 
-    const { categoryId, amount, month, year } = validatedData;
+      // Verify category belongs to user's family
+      const category = await prisma.category.findUnique({
+        where: { id: categoryId },
+        select: { id: true, familyId: true, name: true, type: true },
+      });
 
-    // Verify category belongs to user's family
-    const category = await prisma.category.findUnique({
-      where: { id: categoryId },
-      select: { id: true, familyId: true, name: true, type: true },
-    });
+      if (!category) {
+        return NextResponse.json(
+          {
+            error: 'Kategori tidak ditemukan',
+            code: 'CATEGORY_NOT_FOUND',
+          },
+          { status: 404 }
+        );
+      }
 
-    if (!category) {
-      return NextResponse.json(
-        {
-          error: 'Kategori tidak ditemukan',
-          code: 'CATEGORY_NOT_FOUND',
-        },
-        { status: 404 }
-      );
-    }
+      if (category.familyId !== session.familyId) {
+        return NextResponse.json(
+          {
+            error: 'Kategori tidak ditemukan dalam keluarga Anda',
+            code: 'CATEGORY_NOT_IN_FAMILY',
+          },
+          { status: 403 }
+        );
+      }
 
-    if (category.familyId !== session.familyId) {
-      return NextResponse.json(
-        {
-          error: 'Kategori tidak ditemukan dalam keluarga Anda',
-          code: 'CATEGORY_NOT_IN_FAMILY',
+      // Check if budget already exists
+      const existingBudget = await prisma.budget.findFirst({
+        where: {
+          familyId: session.familyId,
+          categoryId,
+          month,
+          year,
+          ...(month === null && { period }),
         },
-        { status: 403 }
-      );
-    }
-
-    // Check if budget already exists
-    const existingBudget = await prisma.budget.findFirst({
-      where: {
-        familyId: session.familyId!,
-        categoryId,
-        month,
-        year,
-      },
-    });
+      });
 
-    let budget;
-    let created = false;
+      let budget;
+      let created = false;
 
-    if (existingBudget) {
-      // Update existing budget
-      budget = await prisma.budget.update({
-        where: { id: existingBudget.id },
-        data: {
-          amount,
-          updatedAt: new Date(),
-        },
-        include: {
-          category: {
-            select: {
-              name: true,
-              type: true,
-              icon: true,
+      if (existingBudget) {
+        // Update existing budget
+        budget = await prisma.budget.update({
+          where: { id: existingBudget.id },
+          data: {
+            amount,
+            cycleStartDay,
+            rolloverMode,
+            rollover,
+            ...(startDate && { startDate: new Date(startDate) }),
+            ...(endDate !== undefined && {
+              endDate: endDate ? new Date(endDate) : null,
+            }),
+            updatedAt: new Date(),
+          },
+          include: {
+            category: {
+              select: {
+                name: true,
+                type: true,
+                icon: true,
+              },
             },
           },
-        },
-      });
-    } else {
-      // Create new budget
-      budget = await prisma.budget.create({
-        data: {
-          familyId: session.familyId!,
-          categoryId,
-          amount,
-          month,
-          year,
-          createdById: session.userId,
-        },
-        include: {
-          category: {
-            select: {
-              name: true,
-              type: true,
-              icon: true,
+        });
+      } else {
+        // Create new budget
+        budget = await prisma.budget.create({
+          data: {
+            familyId: session.familyId,
+            categoryId,
+            amount,
+            period,
+            month,
+            year,
+            startDate:
+              month === null
+                ? startDate
+                  ? new Date(startDate)
+                  : new Date(new Date().setHours(0, 0, 0, 0))
+                : undefined,
+            endDate: endDate ? new Date(endDate) : undefined,
+            cycleStartDay,
+            rolloverMode,
+            rollover,
+            createdById: session.userId,
+          },
+          include: {
+            category: {
+              select: {
+                name: true,
+                type: true,
+                icon: true,
+              },
             },
           },
+        });
+        created = true;
+      }
+
+      // Create audit log
+      await prisma.auditLog.create({
+        data: {
+          userId: session.userId,
+          familyId: session.familyId,
+          action: created ? 'CREATE_BUDGET' : 'UPDATE_BUDGET',
+          entityType: 'Budget',
+          entityId: budget.id,
+          changes: JSON.stringify({
+            categoryId,
+            categoryName: category.name,
+            amount,
+            period,
+            month,
+            year,
+            cycleStartDay,
+            rolloverMode:
+              rolloverMode ?? existingBudget?.rolloverMode ?? 'NONE',
+            rollover: rollover ?? existingBudget?.rollover ?? true,
+            previousAmount: existingBudget?.amount || null,
+          }),
         },
       });
-      created = true;
-    }
-
-    // Create audit log
-    await prisma.auditLog.create({
-      data: {
-        userId: session.userId,
-        familyId: session.familyId!,
-        action: created ? 'CREATE_BUDGET' : 'UPDATE_BUDGET',
-        entityType: 'Budget',
-        entityId: budget.id,
-        changes: JSON.stringify({
-          categoryId,
-          categoryName: category.name,
-          amount,
-          month,
-          year,
-          previousAmount: existingBudget?.amount || null,
-        }),
-      },
-    });
-
-    return NextResponse.json(
-      {
-        budget,
-        created,
-        message: created
-          ? 'Budget berhasil dibuat'
-          : 'Budget berhasil diperbarui',
-      },
-      { status: created ? 201 : 200 }
-    );
-  } catch (error) {
-    console.error('Create/update budget error:', error);
 
-    if (error instanceof z.ZodError) {
       return NextResponse.json(
-        { error: 'Data tidak valid', details: error.errors },
-        { status: 400 }
+        {
+          budget,
+          created,
+          message: created
+            ? 'Budget berhasil dibuat'
+            : 'Budget berhasil diperbarui',
+        },
+        { status: created ? 201 : 200 }
       );
-    }
+    } catch (error) {
+      console.error('Create/update budget error:', error);
+
+      if (error instanceof z.ZodError) {
+        return NextResponse.json(
+          { error: 'Data tidak valid', details: error.errors },
+          { status: 400 }
+        );
+      }
+
+      // Handle Prisma errors
+      const prismaError = PrismaErrorHandler.handle(error);
+      if (prismaError.code !== 'UNKNOWN') {
+        return NextResponse.json(
+          {
+            error: prismaError.message,
+            code: prismaError.code,
+          },
+          { status: 400 }
+        );
+      }
 
-    // Handle Prisma errors
-    const prismaError = PrismaErrorHandler.handle(error);
-    if (prismaError.code !== 'UNKNOWN') {
       return NextResponse.json(
-        {
-          error: prismaError.message,
-          code: prismaError.code,
-        },
-        { status: 400 }
+        { error: 'Terjadi kesalahan saat menyimpan budget' },
+        { status: 500 }
       );
     }
-
-    return NextResponse.json(
-      { error: 'Terjadi kesalahan saat menyimpan budget' },
-      { status: 500 }
-    );
   }
-}
+);
 
 /**
  * GET /api/budget
- * 
+ *
  * Get all budgets for the family
  * Optional query params: month, year
+ *
+ * With both month and year given, recurring budgets running in that month
+ * are included and each budget has `effective` (period range, carry-over,
+ * effective amount, spent and remaining).
+ *
+ * Response includes the family budget `mode`. In ENVELOPE mode with both
+ * month and year given, `envelope` holds the envelope balances of that month
+ * including `availableToAssign`.
  */
-export async function GET(request: NextRequest) {
+export const GET = withAuth(async (request, { session }) => {
   try {
-    // Get current session
-    const session = await requireAuth();
-    
-    // Ensure user has a family
-    await requireFamily(session);
-
     // Parse query parameters
     const { searchParams } = new URL(request.url);
     const month = searchParams.get('month');
@@ -242,7 +323,7 @@ export async function GET(request: NextRequest) {
       month?: number;
       year?: number;
     } = {
-      familyId: session.familyId!,
+      familyId: session.familyId,
     };
 
     if (month) {
@@ -259,9 +340,18 @@ export async function GET(request: NextRequest) {
       }
     }
 
+    // Satu bulan: sertakan budget berulang yang berjalan di bulan tersebut
+    const isMonthView = !!(where.month && where.year);
+
+    // Budget berulang yang baru berganti periode masih menyimpan `spent`
+    // periode lalu
+    await refreshRecurringBudgetSpent(prisma, session.familyId);
+
     // Fetch budgets
     const budgets = await prisma.budget.findMany({
-      where,
+      where: isMonthView
+        ? getMonthBudgetsWhere(session.familyId, where.month!, where.year!)
+        : where,
       include: {
         category: {
           select: {
@@ -276,12 +366,46 @@ export async function GET(request: NextRequest) {
           },
         },
       },
-      orderBy: [{ year: 'desc' }, { month: 'desc' }, { category: { name: 'asc' } }],
+      orderBy: [
+        { year: 'desc' },
+        { month: 'desc' },
+        { category: { name: 'asc' } },
+      ],
     });
 
+    const family = await prisma.family.findUnique({
+      where: { id: session.familyId },
+      select: { budgetMode: true },
+    });
+    const mode = family?.budgetMode ?? 'CATEGORY';
+
+    const envelope =
+      mode === 'ENVELOPE' && isMonthView
+        ? await getEnvelopeMonth(
+            prisma,
+            session.familyId,
+            where.month!,
+            where.year!
+          )
+        : null;
+
+    const effectiveBudgets = isMonthView
+      ? await getEffectiveBudgets(
+          prisma,
+          session.familyId,
+          budgets,
+          getBudgetReferenceDate(where.month!, where.year!)
+        )
+      : null;
+
     return NextResponse.json({
-      budgets,
+      budgets: budgets.map((budget) => ({
+        ...budget,
+        effective: effectiveBudgets?.get(budget.id) ?? null,
+      })),
       count: budgets.length,
+      mode,
+      envelope,
     });
   } catch (error) {
     console.error('Get budgets error:', error);
@@ -291,4 +415,4 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
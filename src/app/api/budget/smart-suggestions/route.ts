@@ -1,6 +1,6 @@
-import { NextRequest, NextResponse } from "next/server";
+import { NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
-import { verifyToken } from "@/lib/auth";
+import { withAuth } from "@/lib/route-auth";
 import { getMonthInt, getMonthDateRange } from "@/lib/date-helpers";
 
 /**
@@ -10,20 +10,8 @@ import { getMonthInt, getMonthDateRange } from "@/lib/date-helpers";
  * - targetYear: number
  * - targetMonth: number
  */
-export async function GET(request: NextRequest) {
+export const GET = withAuth(async (request, { session }) => {
   try {
-    const token = request.cookies.get("auth-token")?.value;
-    if (!token) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-    const user = await verifyToken(token);
-    if (!user || !user.familyId) {
-      return NextResponse.json(
-        { error: "Unauthorized or no family" },
-        { status: 401 }
-      );
-    }
-
     const { searchParams } = new URL(request.url);
     const targetYear = parseInt(
       searchParams.get("targetYear") || new Date().getFullYear().toString()
@@ -32,7 +20,7 @@ export async function GET(request: NextRequest) {
       searchParams.get("targetMonth") || (new Date().getMonth() + 2).toString()
     );
 
-    const familyId = user.familyId!;
+    const familyId = session.familyId;
 
     // Get 12 months of historical data for ML
     const endDate = new Date();
@@ -229,8 +217,8 @@ export async function GET(request: NextRequest) {
             confidence === "very_high" || confidence === "high"
               ? "aiOptimized"
               : coefficientOfVariation > 40
-              ? "conservative"
-              : "moderate",
+                ? "conservative"
+                : "moderate",
           analysis: {
             monthsAnalyzed: 12,
             averageMonthly: avgAmount,
@@ -391,4 +379,4 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
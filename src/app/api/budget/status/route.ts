@@ -1,7 +1,17 @@
-import { NextRequest, NextResponse } from "next/server";
+import { NextResponse } from "next/server";
 import { z } from "zod";
 import { prisma } from "@/lib/prisma";
-import { requireAuth, requireFamily } from "@/lib/auth";
+import { withAuth } from "@/lib/route-auth";
+import {
+  getBudgetReferenceDate,
+  getMonthBudgetsWhere,
+  isRecurringBudget,
+} from "@/lib/budget-periods";
+import {
+  EffectiveBudget,
+  getEffectiveBudgets,
+  rolloverBudgetSelect,
+} from "@/lib/budget-rollover";
 
 /**
  * Query Schema for Budget Status
@@ -23,6 +33,10 @@ const BudgetStatusQuerySchema = z.object({
  * Get budget status for all categories in a specific month/year
  * Returns categories with their budget and actual spending (realization)
  *
+ * `budget` is the effective amount (budget + carry-over) of the budget
+ * period active in that month (hari ini untuk bulan berjalan). For
+ * non-monthly budgets the realization covers that period, not the month.
+ *
  * Query params:
  * - month: 1-12
  * - year: YYYY (e.g., 2025)
@@ -37,7 +51,10 @@ const BudgetStatusQuerySchema = z.object({
  *       name: string,
  *       type: string,
  *       budget: number | null,
+ *       baseBudget: number | null,
+ *       carryOver: number,
  *       budgetId: string | null,
+ *       period: { type: string, start: string, end: string } | null,
  *       realization: number,
  *       percentage: number,
  *       status: 'over' | 'warning' | 'safe' | 'no-budget'
@@ -47,14 +64,8 @@ const BudgetStatusQuerySchema = z.object({
  *   totalRealization: number
  * }
  */
-export async function GET(request: NextRequest) {
+export const GET = withAuth(async (request, { session }) => {
   try {
-    // Get current session
-    const session = await requireAuth();
-
-    // Ensure user has a family
-    await requireFamily(session);
-
     // Parse and validate query parameters
     const { searchParams } = new URL(request.url);
     const queryResult = BudgetStatusQuerySchema.safeParse({
@@ -89,7 +100,7 @@ export async function GET(request: NextRequest) {
     // Fetch all categories for the family
     const categories = await prisma.category.findMany({
       where: {
-        familyId: session.familyId!,
+        familyId: session.familyId,
       },
       select: {
         id: true,
@@ -102,35 +113,42 @@ export async function GET(request: NextRequest) {
       },
     });
 
-    // Fetch budgets for this month/year
+    // Fetch budgets for this month/year plus recurring budgets
     const budgets = await prisma.budget.findMany({
-      where: {
-        familyId: session.familyId!,
-        month,
-        year,
-      },
-      select: {
-        id: true,
-        categoryId: true,
-        amount: true,
-      },
+      where: getMonthBudgetsWhere(session.familyId, month, year),
+      select: rolloverBudgetSelect,
     });
 
+    // Baris bulanan didahulukan dari budget berulang kategori yang sama
+    const categoryBudgets = new Map<string, (typeof budgets)[number]>();
+    for (const budget of budgets) {
+      if (!budget.categoryId) continue;
+      const existing = categoryBudgets.get(budget.categoryId);
+      if (
+        !existing ||
+        (isRecurringBudget(existing) && !isRecurringBudget(budget))
+      ) {
+        categoryBudgets.set(budget.categoryId, budget);
+      }
+    }
+
+    const effectiveBudgets = await getEffectiveBudgets(
+      prisma,
+      session.familyId,
+      [...categoryBudgets.values()],
+      getBudgetReferenceDate(month, year)
+    );
+
     // Create budget lookup map
-    const budgetMap = new Map<string, { id: string; amount: number }>(
-      budgets
-        .filter(
-          (b): b is { id: string; categoryId: string; amount: number } =>
-            b.categoryId !== null
-        )
-        .map((b) => [b.categoryId, { id: b.id, amount: b.amount }])
+    const budgetMap = new Map<string, EffectiveBudget>(
+      [...effectiveBudgets.values()].map((b) => [b.categoryId!, b])
     );
 
     // Fetch transaction totals per category for the month
     const transactionTotals = await prisma.transaction.groupBy({
       by: ["categoryId"],
       where: {
-        familyId: session.familyId!,
+        familyId: session.familyId,
         type: "EXPENSE", // Only count expenses for budget tracking
         date: {
           gte: startDate,
@@ -159,7 +177,10 @@ export async function GET(request: NextRequest) {
       type: string;
       icon: string | null;
       budget: number | null;
+      baseBudget: number | null;
+      carryOver: number;
       budgetId: string | null;
+      period: { type: string; start: Date; end: Date } | null;
       realization: number;
       percentage: number;
       actualPercentage: number;
@@ -174,9 +195,11 @@ export async function GET(request: NextRequest) {
         icon: string | null;
       }) => {
         const budgetData = budgetMap.get(category.id);
-        const budget = budgetData?.amount || null;
-        const budgetId = budgetData?.id || null;
-        const realization = realizationMap.get(category.id) || 0;
+        const budget = budgetData?.effectiveAmount ?? null;
+        const budgetId = budgetData?.budgetId || null;
+        const realization = budgetData
+          ? budgetData.spent
+          : realizationMap.get(category.id) || 0;
 
         // Calculate percentage and status
         let percentage = 0;
@@ -192,6 +215,10 @@ export async function GET(request: NextRequest) {
           } else {
             status = "safe";
           }
+        } else if (budget !== null && budget < 0) {
+          // Carry-over kelebihan belanja menghabiskan budget periode ini
+          percentage = 100;
+          status = "over";
         }
 
         return {
@@ -200,7 +227,16 @@ export async function GET(request: NextRequest) {
           type: category.type,
           icon: category.icon,
           budget,
+          baseBudget: budgetData?.amount ?? null,
+          carryOver: budgetData?.carryOver ?? 0,
           budgetId,
+          period: budgetData
+            ? {
+                type: budgetData.period,
+                start: budgetData.start,
+                end: budgetData.end,
+              }
+            : null,
           realization,
           percentage: Math.min(percentage, 100), // Cap at 100 for display
           actualPercentage: percentage, // Keep actual value for logic
@@ -243,4 +279,4 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
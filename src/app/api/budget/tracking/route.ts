@@ -1,7 +1,8 @@
-import { NextRequest, NextResponse } from "next/server";
+import { NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
-import { verifyToken } from "@/lib/auth";
+import { withAuth } from "@/lib/route-auth";
 import { getMonthInt, getMonthDateRange } from "@/lib/date-helpers";
+import { getCategorySpending } from "@/lib/transaction-ledger";
 
 /**
  * GET /api/budget/tracking
@@ -10,20 +11,8 @@ import { getMonthInt, getMonthDateRange } from "@/lib/date-helpers";
  * - year: number
  * - month: number (optional, if not provided returns all budgets for the year)
  */
-export async function GET(request: NextRequest) {
+export const GET = withAuth(async (request, { session }) => {
   try {
-    const token = request.cookies.get("auth-token")?.value;
-    if (!token) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-    const user = await verifyToken(token);
-    if (!user || !user.familyId) {
-      return NextResponse.json(
-        { error: "Unauthorized or no family" },
-        { status: 401 }
-      );
-    }
-
     const { searchParams } = new URL(request.url);
     const year = parseInt(
       searchParams.get("year") || new Date().getFullYear().toString()
@@ -31,7 +20,7 @@ export async function GET(request: NextRequest) {
     const monthParam = searchParams.get("month");
     const month = monthParam ? parseInt(monthParam) : null;
 
-    const familyId = user.familyId!;
+    const familyId = session.familyId;
 
     // Build query filter
     const budgetFilter: any = {
@@ -61,21 +50,21 @@ export async function GET(request: NextRequest) {
         const { start, end } = getMonthDateRange(budget.month);
 
         // Get actual spending for this budget period
-        const transactions = await prisma.transaction.aggregate({
-          where: {
-            familyId,
-            categoryId: budget.categoryId,
-            type: "EXPENSE",
-            date: {
-              gte: start,
-              lte: end,
-            },
-          },
-          _sum: { amount: true },
-          _count: true,
-        });
+        // (split transactions count per split line)
+        const spending = await getCategorySpending(
+          prisma,
+          familyId,
+          { start, end },
+          budget.categoryId
+            ? { categoryIds: [budget.categoryId], rollup: true }
+            : {}
+        );
+        const transactions = spending.get(budget.categoryId) ?? {
+          amount: 0,
+          count: 0,
+        };
 
-        const actualSpent = Number(transactions._sum?.amount || 0);
+        const actualSpent = Number(transactions.amount);
         const budgetAmount = Number(budget.amount);
         const remaining = budgetAmount - actualSpent;
         const utilizationRate = (actualSpent / budgetAmount) * 100;
@@ -126,8 +115,8 @@ export async function GET(request: NextRequest) {
           projectedUtilization > 100
             ? "over"
             : projectedUtilization > 90
-            ? "warning"
-            : "good";
+              ? "warning"
+              : "good";
 
         return {
           budgetId: budget.id,
@@ -146,7 +135,7 @@ export async function GET(request: NextRequest) {
             utilizationRate,
           },
           metrics: {
-            transactionCount: transactions._count,
+            transactionCount: transactions.count,
             dailyBurnRate,
             daysElapsed,
             daysRemaining: daysInMonth - daysElapsed,
@@ -228,4 +217,4 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
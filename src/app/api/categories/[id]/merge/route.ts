@@ -0,0 +1,258 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { withAuth } from '@/lib/route-auth';
+import { PrismaErrorHandler } from '@/lib/prisma-helpers';
+import { recalculateBudgetSpent } from '@/lib/transaction-ledger';
+import {
+  categorySelect,
+  MergeCategoryInput,
+  mergeCategorySchema,
+} from '@/lib/categories';
+
+/**
+ * POST /api/categories/[id]/merge
+ *
+ * Merge a category into another one of the same type (ADMIN only).
+ * Transactions, split lines, budgets, recurring transactions, templates,
+ * rules and subcategories are moved to the target; the source category is
+ * deleted. Budgets of the same month are combined.
+ *
+ * @example
+ * ```typescript
+ * await fetch(`/api/categories/${sourceId}/merge`, {
+ *   method: 'POST',
+ *   body: JSON.stringify({ targetCategoryId: targetId })
+ * });
+ * ```
+ */
+export const POST = withAuth<{ id: string }>(
+  { roles: ['ADMIN'] },
+  async (request, { session, params }) => {
+    const { id } = await params;
+    try {
+      const body = await request.json();
+      const { targetCategoryId }: MergeCategoryInput =
+        mergeCategorySchema.parse(body);
+      const familyId = session.familyId;
+
+      const result = await prisma.$transaction(async (tx) => {
+        // 1. Verify both categories
+        const [source, target] = await Promise.all([
+          tx.category.findFirst({
+            where: { id, familyId },
+            select: {
+              ...categorySelect,
+              _count: { select: { children: true } },
+            },
+          }),
+          tx.category.findFirst({
+            where: { id: targetCategoryId, familyId },
+            select: categorySelect,
+          }),
+        ]);
+
+        if (!source || !target) {
+          throw new Error('Kategori tidak ditemukan');
+        }
+
+        if (source.id === target.id) {
+          throw new Error(
+            'Kategori tidak dapat digabung dengan dirinya sendiri'
+          );
+        }
+
+        if (source.type !== target.type) {
+          throw new Error(
+            'Kategori tidak dapat digabung dengan kategori bertipe berbeda'
+          );
+        }
+
+        if (target.isArchived) {
+          throw new Error(
+            'Kategori tidak dapat digabung ke kategori yang diarsipkan'
+          );
+        }
+
+        if (target.parentId === source.id) {
+          throw new Error(
+            'Kategori tidak dapat digabung ke subkategorinya sendiri'
+          );
+        }
+
+        if (source._count.children > 0 && target.parentId) {
+          throw new Error(
+            'Kategori dengan subkategori tidak dapat digabung ke subkategori'
+          );
+        }
+
+        // 2. Re-point everything that references the source
+        const moveTo = { categoryId: target.id };
+        const fromSource = { categoryId: source.id };
+
+        const [
+          transactions,
+          splits,
+          recurring,
+          templates,
+          rules,
+          subcategories,
+        ] = await Promise.all([
+          tx.transaction.updateMany({ where: fromSource, data: moveTo }),
+          tx.transactionSplit.updateMany({ where: fromSource, data: moveTo }),
+          tx.recurringTransaction.updateMany({
+            where: fromSource,
+            data: moveTo,
+          }),
+          tx.transactionTemplate.updateMany({
+            where: fromSource,
+            data: moveTo,
+          }),
+          tx.categorizationRule.updateMany({ where: fromSource, data: moveTo }),
+          tx.category.updateMany({
+            where: { parentId: source.id },
+            data: { parentId: target.id },
+          }),
+        ]);
+
+        // 3. Move budgets; budgets for the same month are combined
+        const sourceBudgets = await tx.budget.findMany({
+          where: { familyId, categoryId: source.id },
+          select: { id: true, amount: true, month: true, year: true },
+        });
+
+        for (const budget of sourceBudgets) {
+          const existing =
+            budget.month !== null && budget.year !== null
+              ? await tx.budget.findFirst({
+                  where: {
+                    familyId,
+                    categoryId: target.id,
+                    month: budget.month,
+                    year: budget.year,
+                  },
+                  select: { id: true },
+                })
+              : null;
+
+          if (existing) {
+            await tx.budget.update({
+              where: { id: existing.id },
+              data: { amount: { increment: budget.amount } },
+            });
+            await tx.budget.delete({ where: { id: budget.id } });
+          } else {
+            await tx.budget.update({
+              where: { id: budget.id },
+              data: moveTo,
+            });
+          }
+        }
+
+        // 4. Delete the source category
+        await tx.category.delete({ where: { id: source.id } });
+
+        // 5. Recalculate spent of the affected monthly budgets (the target,
+        // its parent, and the former parent of the source)
+        const affectedCategoryIds = [target.id, source.parentId].filter(
+          (categoryId): categoryId is string => !!categoryId
+        );
+        const months = await tx.budget.findMany({
+          where: {
+            familyId,
+            categoryId: { in: affectedCategoryIds },
+            month: { gte: 1, lte: 12 },
+            year: { not: null },
+          },
+          select: { categoryId: true, month: true, year: true },
+          distinct: ['categoryId', 'month', 'year'],
+        });
+
+        for (const { categoryId, month, year } of months) {
+          await recalculateBudgetSpent(tx, familyId, {
+            type: 'EXPENSE',
+            categoryId,
+            date: new Date(year!, month! - 1, 1),
+          });
+        }
+
+        const moved = {
+          transactions: transactions.count,
+          splits: splits.count,
+          recurringTransactions: recurring.count,
+          templates: templates.count,
+          rules: rules.count,
+          subcategories: subcategories.count,
+          budgets: sourceBudgets.length,
+        };
+
+        // 6. Create audit log
+        await tx.auditLog.create({
+          data: {
+            action: 'MERGE_CATEGORY',
+            entityType: 'Category',
+            entityId: target.id,
+            dataBefore: JSON.stringify(source),
+            details: JSON.stringify({ sourceCategoryId: source.id, moved }),
+            userId: session.userId,
+            familyId,
+          },
+        });
+
+        return { category: target, moved };
+      });
+
+      return NextResponse.json({
+        message: 'Kategori berhasil digabung',
+        ...result,
+      });
+    } catch (error) {
+      console.error('Merge category error:', error);
+
+      if (error instanceof z.ZodError) {
+        const firstError = error.errors[0];
+        return NextResponse.json(
+          {
+            error: firstError.message,
+            code: 'VALIDATION_ERROR',
+            field: firstError.path.join('.'),
+          },
+          { status: 400 }
+        );
+      }
+
+      if (
+        error instanceof Error &&
+        error.message === 'Kategori tidak ditemukan'
+      ) {
+        return NextResponse.json(
+          { error: error.message, code: 'NOT_FOUND' },
+          { status: 404 }
+        );
+      }
+
+      if (error instanceof Error && error.message.includes('tidak dapat')) {
+        return NextResponse.json(
+          { error: error.message, code: 'BUSINESS_LOGIC_ERROR' },
+          { status: 400 }
+        );
+      }
+
+      if (error && typeof error === 'object' && 'code' in error) {
+        const prismaError = PrismaErrorHandler.handle(error);
+        return NextResponse.json(
+          { error: prismaError.message, code: prismaError.code },
+          { status: 400 }
+        );
+      }
+
+      return NextResponse.json(
+        {
+          error: 'Terjadi kesalahan saat menggabungkan kategori',
+          code: 'INTERNAL_ERROR',
+        },
+        { status: 500 }
+      );
+    }
+  }
+);
@@ -0,0 +1,255 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { withAuth } from '@/lib/route-auth';
+import { PrismaErrorHandler } from '@/lib/prisma-helpers';
+import { UpdateCategoryInput, updateCategorySchema } from '@/lib/validation';
+import { categorySelect, validateCategoryParent } from '@/lib/categories';
+
+/**
+ * Map thrown errors to API responses (shared by all handlers)
+ */
+function handleError(error: unknown, fallbackMessage: string) {
+  if (error instanceof z.ZodError) {
+    const firstError = error.errors[0];
+    return NextResponse.json(
+      {
+        error: firstError.message,
+        code: 'VALIDATION_ERROR',
+        field: firstError.path.join('.'),
+      },
+      { status: 400 }
+    );
+  }
+
+  if (error instanceof Error) {
+    if (error.message === 'Kategori tidak ditemukan') {
+      return NextResponse.json(
+        { error: error.message, code: 'NOT_FOUND' },
+        { status: 404 }
+      );
+    }
+
+    if (
+      error.message.includes('induk') ||
+      error.message.includes('tidak dapat')
+    ) {
+      return NextResponse.json(
+        { error: error.message, code: 'BUSINESS_LOGIC_ERROR' },
+        { status: 400 }
+      );
+    }
+  }
+
+  if (error && typeof error === 'object' && 'code' in error) {
+    const prismaError = PrismaErrorHandler.handle(error);
+    return NextResponse.json(
+      { error: prismaError.message, code: prismaError.code },
+      { status: 400 }
+    );
+  }
+
+  return NextResponse.json(
+    { error: fallbackMessage, code: 'INTERNAL_ERROR' },
+    { status: 500 }
+  );
+}
+
+/**
+ * GET /api/categories/[id]
+ *
+ * Get a category with its parent, subcategories and usage counts
+ */
+export const GET = withAuth<{ id: string }>(
+  async (request, { session, params }) => {
+    const { id } = await params;
+    try {
+      const category = await prisma.category.findFirst({
+        where: { id, familyId: session.familyId },
+        select: {
+          ...categorySelect,
+          parent: { select: { id: true, name: true, icon: true } },
+          children: { select: categorySelect, orderBy: { name: 'asc' } },
+          _count: {
+            select: {
+              transactions: true,
+              transactionSplits: true,
+              budgets: true,
+              recurringTransactions: true,
+              transactionTemplates: true,
+            },
+          },
+        },
+      });
+
+      if (!category) {
+        throw new Error('Kategori tidak ditemukan');
+      }
+
+      const { _count, ...details } = category;
+
+      return NextResponse.json({ category: details, stats: _count });
+    } catch (error) {
+      console.error('Get category error:', error);
+      return handleError(
+        error,
+        'Terjadi kesalahan saat mengambil data kategori'
+      );
+    }
+  }
+);
+
+/**
+ * PUT /api/categories/[id]
+ *
+ * Update a category, move it under another parent or (un)archive it
+ * (ADMIN only). The type cannot be changed because transactions and
+ * budgets depend on it. Archiving a parent also archives its subcategories.
+ */
+export const PUT = withAuth<{ id: string }>(
+  { roles: ['ADMIN'] },
+  async (request, { session, params }) => {
+    const { id } = await params;
+    try {
+      const body = await request.json();
+      const validatedData: UpdateCategoryInput =
+        updateCategorySchema.parse(body);
+
+      const category = await prisma.$transaction(async (tx) => {
+        const existing = await tx.category.findFirst({
+          where: { id, familyId: session.familyId },
+          select: categorySelect,
+        });
+
+        if (!existing) {
+          throw new Error('Kategori tidak ditemukan');
+        }
+
+        const { isArchived, ...details } = validatedData;
+        const parentId =
+          details.parentId !== undefined ? details.parentId : existing.parentId;
+
+        // Validasi induk saat dipindah, atau saat diaktifkan kembali
+        if (
+          parentId &&
+          (parentId !== existing.parentId ||
+            (isArchived === false && existing.isArchived))
+        ) {
+          await validateCategoryParent(tx, session.familyId, {
+            categoryId: id,
+            type: existing.type,
+            parentId,
+          });
+        }
+
+        const updated = await tx.category.update({
+          where: { id },
+          data: {
+            ...details,
+            ...(isArchived !== undefined && {
+              isArchived,
+              archivedAt: isArchived ? new Date() : null,
+            }),
+          },
+          select: categorySelect,
+        });
+
+        if (isArchived && !existing.isArchived) {
+          await tx.category.updateMany({
+            where: { parentId: id, isArchived: false },
+            data: { isArchived: true, archivedAt: new Date() },
+          });
+        }
+
+        await tx.auditLog.create({
+          data: {
+            action: 'UPDATE_CATEGORY',
+            entityType: 'Category',
+            entityId: id,
+            dataBefore: JSON.stringify(existing),
+            dataAfter: JSON.stringify(updated),
+            userId: session.userId,
+            familyId: session.familyId,
+          },
+        });
+
+        return updated;
+      });
+
+      return NextResponse.json({
+        message: 'Kategori berhasil diperbarui',
+        category,
+      });
+    } catch (error) {
+      console.error('Update category error:', error);
+      return handleError(error, 'Terjadi kesalahan saat memperbarui kategori');
+    }
+  }
+);
+
+/**
+ * PATCH /api/categories/[id]
+ *
+ * Alias of PUT - all fields are already optional
+ */
+export const PATCH = PUT;
+
+/**
+ * DELETE /api/categories/[id]
+ *
+ * Archive a category and its subcategories (ADMIN only). Transactions keep
+ * their category; to fold it into another category use
+ * POST /api/categories/[id]/merge.
+ */
+export const DELETE = withAuth<{ id: string }>(
+  { roles: ['ADMIN'] },
+  async (request, { session, params }) => {
+    const { id } = await params;
+    try {
+      const existing = await prisma.category.findFirst({
+        where: { id, familyId: session.familyId },
+        select: categorySelect,
+      });
+
+      if (!existing) {
+        throw new Error('Kategori tidak ditemukan');
+      }
+
+      const archivedAt = existing.archivedAt ?? new Date();
+
+      const category = await prisma.$transaction(async (tx) => {
+        const updated = await tx.category.update({
+          where: { id },
+          data: { isArchived: true, archivedAt },
+          select: categorySelect,
+        });
+
+        await tx.category.updateMany({
+          where: { parentId: id, isArchived: false },
+          data: { isArchived: true, archivedAt },
+        });
+
+        await tx.auditLog.create({
+          data: {
+            action: 'ARCHIVE_CATEGORY',
+            entityType: 'Category',
+            entityId: id,
+            dataBefore: JSON.stringify(existing),
+            userId: session.userId,
+            familyId: session.familyId,
+          },
+        });
+
+        return updated;
+      });
+
+      return NextResponse.json({
+        message: 'Kategori berhasil diarsipkan',
+        category,
+      });
+    } catch (error) {
+      console.error('Archive category error:', error);
+      return handleError(error, 'Terjadi kesalahan saat mengarsipkan kategori');
+    }
+  }
+);
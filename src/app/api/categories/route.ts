@@ -1,58 +1,46 @@
 import { NextResponse } from 'next/server';
+import { z } from 'zod';
 import { prisma } from '@/lib/prisma';
-import { requireAuth, requireFamily } from '@/lib/auth';
+import { withAuth } from '@/lib/route-auth';
+import { PrismaErrorHandler } from '@/lib/prisma-helpers';
+import { CategoryInput, categorySchema } from '@/lib/validation';
+import { categorySelect, validateCategoryParent } from '@/lib/categories';
 
 /**
  * GET /api/categories
- * 
+ *
  * Get all categories for the user's family
- * 
+ *
+ * Query params:
+ * - includeArchived?: "true" to include archived categories
+ *
+ * Subkategori dikembalikan dalam daftar yang sama dengan `parentId` terisi.
+ *
  * @example
  * ```typescript
  * const response = await fetch('/api/categories');
  * const categories = await response.json();
  * ```
  */
-export async function GET() {
+export const GET = withAuth(async (request, { session }) => {
   try {
-    // Get current session
-    const session = await requireAuth();
-    
-    // Ensure user has a family
-    await requireFamily(session);
+    const includeArchived =
+      request.nextUrl.searchParams.get('includeArchived') === 'true';
 
-        // Fetch categories for user's family
+    // Fetch categories for user's family
     const categories = await prisma.category.findMany({
       where: {
-        familyId: session.familyId!,
+        familyId: session.familyId,
+        ...(!includeArchived && { isArchived: false }),
       },
-      select: {
-        id: true,
-        name: true,
-        description: true,
-        type: true,
-        icon: true,
-      },
-      orderBy: [
-        { type: 'asc' },
-        { name: 'asc' },
-      ],
+      select: categorySelect,
+      orderBy: [{ type: 'asc' }, { name: 'asc' }],
     });
 
     return NextResponse.json(categories);
   } catch (error) {
     console.error('Get categories error:', error);
 
-    if (error instanceof Error && error.message.includes('required')) {
-      return NextResponse.json(
-        {
-          error: error.message,
-          code: 'UNAUTHORIZED',
-        },
-        { status: 401 }
-      );
-    }
-
     return NextResponse.json(
       {
         error: 'Terjadi kesalahan saat mengambil data kategori',
@@ -61,4 +49,108 @@ export async function GET() {
       { status: 500 }
     );
   }
-}
+});
+
+/**
+ * POST /api/categories
+ *
+ * Create a category or subcategory (ADMIN only)
+ *
+ * @example
+ * ```typescript
+ * await fetch('/api/categories', {
+ *   method: 'POST',
+ *   body: JSON.stringify({
+ *     name: 'Bensin',
+ *     type: 'EXPENSE',
+ *     icon: '⛽',
+ *     parentId: transportCategoryId,
+ *   })
+ * });
+ * ```
+ */
+export const POST = withAuth(
+  { roles: ['ADMIN'] },
+  async (request, { session }) => {
+    try {
+      const body = await request.json();
+      const validatedData: CategoryInput = categorySchema.parse(body);
+
+      const category = await prisma.$transaction(async (tx) => {
+        if (validatedData.parentId) {
+          await validateCategoryParent(tx, session.familyId, {
+            type: validatedData.type,
+            parentId: validatedData.parentId,
+          });
+        }
+
+        const created = await tx.category.create({
+          data: {
+            ...validatedData,
+            familyId: session.familyId,
+          },
+          select: categorySelect,
+        });
+
+        await tx.auditLog.create({
+          data: {
+            action: 'CREATE_CATEGORY',
+            entityType: 'Category',
+            entityId: created.id,
+            dataAfter: JSON.stringify(created),
+            userId: session.userId,
+            familyId: session.familyId,
+          },
+        });
+
+        return created;
+      });
+
+      return NextResponse.json(
+        { message: 'Kategori berhasil dibuat', category },
+        { status: 201 }
+      );
+    } catch (error) {
+      console.error('Create category error:', error);
+
+      if (error instanceof z.ZodError) {
+        const firstError = error.errors[0];
+        return NextResponse.json(
+          {
+            error: firstError.message,
+            code: 'VALIDATION_ERROR',
+            field: firstError.path.join('.'),
+          },
+          { status: 400 }
+        );
+      }
+
+      if (
+        error instanceof Error &&
+        (error.message.includes('induk') ||
+          error.message.includes('tidak dapat'))
+      ) {
+        return NextResponse.json(
+          { error: error.message, code: 'BUSINESS_LOGIC_ERROR' },
+          { status: 400 }
+        );
+      }
+
+      if (error && typeof error === 'object' && 'code' in error) {
+        const prismaError = PrismaErrorHandler.handle(error);
+        return NextResponse.json(
+          { error: prismaError.message, code: prismaError.code },
+          { status: 400 }
+        );
+      }
+
+      return NextResponse.json(
+        {
+          error: 'Terjadi kesalahan saat membuat kategori',
+          code: 'INTERNAL_ERROR',
+        },
+        { status: 500 }
+      );
+    }
+  }
+);
@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import {
+  checkFamilyIntegrity,
+  getFamilyAdminId,
+  repairDiscrepancies,
+} from "@/lib/integrity";
+
+/**
+ * POST /api/cron/check-integrity
+ * Background job to check denormalized balances of every family
+ *
+ * Query params:
+ * - repair?: "true" to also repair discrepancies (audit log atas nama admin
+ *   pertama keluarga)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Verify cron secret (required)
+    const authHeader = request.headers.get("authorization");
+    const cronSecret = process.env.CRON_SECRET;
+
+    if (!cronSecret || authHeader !== `Bearer ${cronSecret}`) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const repair = request.nextUrl.searchParams.get("repair") === "true";
+    const results = {
+      checked: 0,
+      withDiscrepancies: 0,
+      repaired: 0,
+      families: [] as Array<{
+        familyId: string;
+        discrepancies: number;
+        repaired: number;
+      }>,
+      errors: [] as Array<{ familyId: string; error: string }>,
+    };
+
+    const families = await prisma.family.findMany({ select: { id: true } });
+
+    for (const family of families) {
+      try {
+        results.checked++;
+
+        const report = await checkFamilyIntegrity(prisma, family.id);
+        if (report.discrepancies.length === 0) {
+          continue;
+        }
+
+        results.withDiscrepancies++;
+        let repaired = 0;
+
+        const adminId = repair
+          ? await getFamilyAdminId(prisma, family.id)
+          : null;
+        if (adminId) {
+          repaired = await prisma.$transaction(async (tx) => {
+            const fresh = await checkFamilyIntegrity(tx, family.id);
+            return repairDiscrepancies(
+              tx,
+              family.id,
+              adminId,
+              fresh.discrepancies
+            );
+          });
+          results.repaired += repaired;
+        }
+
+        results.families.push({
+          familyId: family.id,
+          discrepancies: report.discrepancies.length,
+          repaired,
+        });
+        console.log(
+          `[Cron] Family ${family.id}: ${report.discrepancies.length} discrepancies, ${repaired} repaired`
+        );
+      } catch (error) {
+        console.error(`[Cron] Integrity check failed for ${family.id}:`, error);
+        results.errors.push({
+          familyId: family.id,
+          error: error instanceof Error ? error.message : "Unknown error",
+        });
+      }
+    }
+
+    return NextResponse.json({
+      success: true,
+      timestamp: new Date().toISOString(),
+      results,
+    });
+  } catch (error) {
+    console.error("[Cron] Fatal error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,51 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
-
-/**
- * Calculate next execution date based on frequency
- */
-function calculateNextDate(
-  currentDate: Date,
-  frequency: "DAILY" | "WEEKLY" | "MONTHLY" | "YEARLY",
-  dayOfMonth?: number | null,
-  dayOfWeek?: number | null
-): Date {
-  const next = new Date(currentDate);
-
-  switch (frequency) {
-    case "DAILY":
-      next.setDate(next.getDate() + 1);
-      break;
-
-    case "WEEKLY":
-      if (dayOfWeek !== null && dayOfWeek !== undefined) {
-        next.setDate(next.getDate() + 7);
-      } else {
-        next.setDate(next.getDate() + 7);
-      }
-      break;
-
-    case "MONTHLY":
-      if (dayOfMonth !== null && dayOfMonth !== undefined) {
-        next.setMonth(next.getMonth() + 1);
-        next.setDate(
-          Math.min(
-            dayOfMonth,
-            new Date(next.getFullYear(), next.getMonth() + 1, 0).getDate()
-          )
-        );
-      } else {
-        next.setMonth(next.getMonth() + 1);
-      }
-      break;
-
-    case "YEARLY":
-      next.setFullYear(next.getFullYear() + 1);
-      break;
-  }
-
-  return next;
-}
+import { executeRecurringTransaction } from "@/lib/recurring-transactions";
 
 /**
  * POST /api/cron/execute-recurring
@@ -54,11 +9,11 @@ function calculateNextDate(
  */
 export async function POST(request: NextRequest) {
   try {
-    // Verify cron secret (optional but recommended)
+    // Verify cron secret (required)
     const authHeader = request.headers.get("authorization");
     const cronSecret = process.env.CRON_SECRET;
 
-    if (cronSecret && authHeader !== `Bearer ${cronSecret}`) {
+    if (!cronSecret || authHeader !== `Bearer ${cronSecret}`) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
 
@@ -81,6 +36,7 @@ export async function POST(request: NextRequest) {
       },
       include: {
         family: true,
+        createdBy: { select: { role: true } },
       },
     });
 
@@ -106,92 +62,48 @@ export async function POST(request: NextRequest) {
           continue;
         }
 
-        // Create transaction
-        const transactionData = {
-          type: recurring.type,
-          amount: recurring.amount,
-          description:
-            recurring.description ?? `${recurring.name} (Auto-generated)`,
-          notes: recurring.notes ?? "",
-          date: now,
-          categoryId: recurring.categoryId,
-          fromWalletId: recurring.fromWalletId,
-          toWalletId: recurring.toWalletId,
-          familyId: recurring.familyId,
-          userId: recurring.createdById,
-        };
-
-        // Calculate next execution date
-        const nextDate = calculateNextDate(
-          now,
-          recurring.frequency,
-          recurring.dayOfMonth,
-          recurring.dayOfWeek
-        );
-
-        // Check if next date exceeds end date
-        const shouldComplete =
-          recurring.endDate && nextDate > recurring.endDate;
-
-        // Prepare update data
-        const updateData: any = {
-          lastRunDate: now,
-          status: shouldComplete ? "COMPLETED" : "ACTIVE",
-        };
-
-        if (!shouldComplete) {
-          updateData.nextDate = nextDate;
-        }
-
-        // Execute in transaction
-        const [transaction, updatedRecurring] = await prisma.$transaction([
-          prisma.transaction.create({
-            data: transactionData,
-          }),
-          prisma.recurringTransaction.update({
-            where: { id: recurring.id },
-            data: updateData,
-          }),
-        ]);
-
-        // Update wallet balances
-        if (recurring.type === "EXPENSE" && transactionData.fromWalletId) {
-          await prisma.wallet.update({
-            where: { id: transactionData.fromWalletId },
-            data: { balance: { decrement: transactionData.amount } },
-          });
-        } else if (recurring.type === "INCOME" && transactionData.toWalletId) {
-          await prisma.wallet.update({
-            where: { id: transactionData.toWalletId },
-            data: { balance: { increment: transactionData.amount } },
+        // Goal yang tercapai/dibatalkan menghentikan recurring-nya
+        if (recurring.goalId) {
+          const goal = await prisma.goal.findUnique({
+            where: { id: recurring.goalId },
+            select: { status: true },
           });
+          if (goal?.status !== "ACTIVE") {
+            await prisma.recurringTransaction.update({
+              where: { id: recurring.id },
+              data: { status: "COMPLETED" },
+            });
+            results.completed++;
+            console.log(
+              `[Cron] Completed recurring ${recurring.id} - goal no longer active`
+            );
+            continue;
+          }
         }
 
-        // Create audit log
-        await prisma.auditLog.create({
-          data: {
-            userId: recurring.createdById,
-            familyId: recurring.familyId,
-            action: "AUTO_EXECUTE_RECURRING",
-            entityType: "Transaction",
-            entityId: transaction.id,
-            changes: JSON.stringify({
-              recurringId: recurring.id,
-              recurringName: recurring.name,
-              amount: transactionData.amount,
-              nextDate: shouldComplete ? null : nextDate,
-              completed: shouldComplete,
-            }),
-          },
-        });
+        // Transaksi/kontribusi, saldo, budget, jadwal dan audit log dalam
+        // satu database transaction; pengeluaran anggota pembuatnya tetap
+        // dibatasi uang sakunya
+        const result = await prisma.$transaction((tx) =>
+          executeRecurringTransaction(
+            tx,
+            recurring,
+            { userId: recurring.createdById, role: recurring.createdBy.role },
+            { now, auditAction: "AUTO_EXECUTE_RECURRING" }
+          )
+        );
 
         results.created++;
-        if (shouldComplete) results.completed++;
+        if (result.completed) results.completed++;
 
         console.log(
-          `[Cron] Created transaction ${transaction.id} from recurring ${
-            recurring.id
-          }. Next: ${nextDate.toISOString()}`
+          `[Cron] Created ${
+            result.contribution
+              ? `goal contribution ${result.contribution.id}`
+              : `transaction ${result.transaction!.id}`
+          } from recurring ${recurring.id}. Next: ${
+            result.completed ? "-" : result.nextDate.toISOString()
+          }`
         );
       } catch (error) {
         results.failed++;
@@ -233,7 +145,7 @@ export async function GET(request: NextRequest) {
     const authHeader = request.headers.get("authorization");
     const cronSecret = process.env.CRON_SECRET;
 
-    if (cronSecret && authHeader !== `Bearer ${cronSecret}`) {
+    if (!cronSecret || authHeader !== `Bearer ${cronSecret}`) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
 
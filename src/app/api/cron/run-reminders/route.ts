@@ -0,0 +1,131 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import {
+  getNextReminderRun,
+  resolveTimeZone,
+  runReminderSchedule,
+} from "@/lib/reminder-schedules";
+
+const scheduleInclude = {
+  user: { select: { id: true, name: true, email: true, role: true } },
+  family: { select: { timezone: true, defaultBudgetAlert: true } },
+} as const;
+
+/**
+ * POST /api/cron/run-reminders
+ * Background job to run due reminder schedules
+ * Should be called by a cron job (e.g., every 15 minutes)
+ *
+ * Jadwal aktif tanpa `nextRunAt` hanya dijadwalkan, tidak langsung
+ * dijalankan.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Verify cron secret (required)
+    const authHeader = request.headers.get("authorization");
+    const cronSecret = process.env.CRON_SECRET;
+
+    if (!cronSecret || authHeader !== `Bearer ${cronSecret}`) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const now = new Date();
+    const results = {
+      processed: 0,
+      succeeded: 0,
+      partial: 0,
+      failed: 0,
+      skipped: 0,
+      scheduled: 0,
+      notifications: 0,
+      emails: 0,
+      errors: [] as Array<{ id: string; error: string }>,
+    };
+
+    // Jadwal lama/rusak tanpa nextRunAt
+    const unscheduled = await prisma.reminderSchedule.findMany({
+      where: { enabled: true, nextRunAt: null },
+      include: { family: { select: { timezone: true } } },
+    });
+
+    for (const schedule of unscheduled) {
+      try {
+        await prisma.reminderSchedule.update({
+          where: { id: schedule.id },
+          data: {
+            nextRunAt: getNextReminderRun(
+              schedule,
+              now,
+              resolveTimeZone(schedule.family.timezone)
+            ),
+          },
+        });
+        results.scheduled++;
+      } catch (error) {
+        results.errors.push({
+          id: schedule.id,
+          error: error instanceof Error ? error.message : "Unknown error",
+        });
+      }
+    }
+
+    const dueSchedules = await prisma.reminderSchedule.findMany({
+      where: {
+        enabled: true,
+        nextRunAt: { lte: now },
+      },
+      include: scheduleInclude,
+      orderBy: { nextRunAt: "asc" },
+    });
+
+    console.log(`[Cron] Found ${dueSchedules.length} reminder schedules to run`);
+
+    for (const schedule of dueSchedules) {
+      results.processed++;
+
+      try {
+        const result = await runReminderSchedule(prisma, schedule, now);
+
+        if (!result) {
+          results.skipped++;
+          continue;
+        }
+
+        if (result.status === "PARTIAL") {
+          results.partial++;
+        } else {
+          results.succeeded++;
+        }
+        results.notifications += result.notifications;
+        results.emails += result.emails;
+
+        console.log(
+          `[Cron] Ran reminder ${schedule.id} (${schedule.notificationType}). Next: ${result.nextRunAt.toISOString()}`
+        );
+      } catch (error) {
+        results.failed++;
+        const errorMessage =
+          error instanceof Error ? error.message : "Unknown error";
+        results.errors.push({ id: schedule.id, error: errorMessage });
+        console.error(`[Cron] Failed to run reminder ${schedule.id}:`, error);
+      }
+    }
+
+    console.log("[Cron] Reminder run completed:", results);
+
+    return NextResponse.json({
+      success: true,
+      timestamp: now.toISOString(),
+      results,
+    });
+  } catch (error) {
+    console.error("[Cron] Fatal error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { backfillNetWorth, takeNetWorthSnapshot } from "@/lib/net-worth";
+
+/**
+ * POST /api/cron/snapshot-net-worth
+ * Background job to record the daily net worth snapshot of every family
+ *
+ * Snapshot bulanan berjalan ikut diperbarui. Keluarga yang belum punya
+ * snapshot bulanan sama sekali di-backfill dari riwayat transaksi.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Verify cron secret (required)
+    const authHeader = request.headers.get("authorization");
+    const cronSecret = process.env.CRON_SECRET;
+
+    if (!cronSecret || authHeader !== `Bearer ${cronSecret}`) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const now = new Date();
+    const results = {
+      processed: 0,
+      backfilled: 0,
+      errors: [] as Array<{ familyId: string; error: string }>,
+    };
+
+    const families = await prisma.family.findMany({ select: { id: true } });
+
+    for (const family of families) {
+      try {
+        const hasHistory = await prisma.netWorthSnapshot.findFirst({
+          where: { familyId: family.id, period: "MONTHLY" },
+          select: { id: true },
+        });
+        if (!hasHistory) {
+          await backfillNetWorth(prisma, family.id, "MONTHLY", undefined, now);
+          results.backfilled++;
+        }
+
+        await takeNetWorthSnapshot(prisma, family.id, now);
+        results.processed++;
+      } catch (error) {
+        console.error(`[Cron] Net worth snapshot failed for ${family.id}:`, error);
+        results.errors.push({
+          familyId: family.id,
+          error: error instanceof Error ? error.message : "Unknown error",
+        });
+      }
+    }
+
+    console.log(
+      `[Cron] Net worth snapshots: ${results.processed} families, ${results.backfilled} backfilled`
+    );
+
+    return NextResponse.json({
+      success: true,
+      timestamp: now.toISOString(),
+      results,
+    });
+  } catch (error) {
+    console.error("[Cron] Fatal error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { topUpAllowance } from "@/lib/allowances";
+
+/**
+ * POST /api/cron/top-up-allowances
+ * Background job to top up member allowances that are due
+ *
+ * Jadwal yang terlewat hanya di-top-up sekali; uang saku yang gagal
+ * (mis. saldo dompet sumber kurang) dicoba lagi pada run berikutnya.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Verify cron secret (required)
+    const authHeader = request.headers.get("authorization");
+    const cronSecret = process.env.CRON_SECRET;
+
+    if (!cronSecret || authHeader !== `Bearer ${cronSecret}`) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const now = new Date();
+    const results = {
+      processed: 0,
+      succeeded: 0,
+      failed: 0,
+      errors: [] as Array<{ allowanceId: string; error: string }>,
+    };
+
+    const dueAllowances = await prisma.memberAllowance.findMany({
+      where: {
+        isActive: true,
+        nextDate: { lte: now },
+      },
+      include: { member: { select: { name: true } } },
+    });
+
+    for (const allowance of dueAllowances) {
+      results.processed++;
+
+      try {
+        const { transaction, nextDate } = await prisma.$transaction((tx) =>
+          topUpAllowance(tx, allowance, now)
+        );
+        results.succeeded++;
+        console.log(
+          `[Cron] Topped up allowance ${allowance.id}: ${transaction.id}, next ${nextDate.toISOString()}`
+        );
+      } catch (error) {
+        results.failed++;
+        console.error(`[Cron] Failed to top up allowance ${allowance.id}:`, error);
+        results.errors.push({
+          allowanceId: allowance.id,
+          error: error instanceof Error ? error.message : "Unknown error",
+        });
+      }
+    }
+
+    return NextResponse.json({
+      success: true,
+      timestamp: now.toISOString(),
+      results,
+    });
+  } catch (error) {
+    console.error("[Cron] Fatal error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,192 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { withAuth } from '@/lib/route-auth';
+import { PrismaErrorHandler } from '@/lib/prisma-helpers';
+import {
+  attributeNetWorthChange,
+  backfillNetWorth,
+  computeNetWorth,
+  getNetWorthHistory,
+  MAX_BACKFILL_POINTS,
+} from '@/lib/net-worth';
+
+const snapshotPeriodSchema = z.enum(['DAILY', 'MONTHLY'], {
+  errorMap: () => ({ message: 'Periode harus DAILY atau MONTHLY' }),
+});
+
+const historyQuerySchema = z.object({
+  period: snapshotPeriodSchema.default('MONTHLY'),
+  count: z.coerce
+    .number({ invalid_type_error: 'Jumlah periode harus berupa angka' })
+    .int('Jumlah periode harus bilangan bulat')
+    .min(1, 'Jumlah periode minimal 1')
+    .max(MAX_BACKFILL_POINTS.DAILY, 'Jumlah periode terlalu besar')
+    .default(12),
+});
+
+const backfillSchema = z.object({
+  period: snapshotPeriodSchema.optional(),
+  from: z
+    .string()
+    .datetime({ message: 'Format tanggal tidak valid' })
+    .optional(),
+});
+
+/**
+ * GET /api/dashboard/net-worth
+ *
+ * Net worth trend from stored snapshots, plus the live position and the
+ * change since the end of last month split into savings, asset revaluation
+ * and debt paydown
+ *
+ * Query params:
+ * - period?: DAILY | MONTHLY (default MONTHLY)
+ * - count?: jumlah periode terakhir (default 12)
+ *
+ * @example
+ * ```typescript
+ * const response = await fetch('/api/dashboard/net-worth?period=MONTHLY&count=12');
+ * const { current, monthOverMonth, history } = await response.json();
+ * ```
+ */
+export const GET = withAuth(async (request, { session }) => {
+  try {
+    const { searchParams } = request.nextUrl;
+    const { period, count } = historyQuerySchema.parse({
+      period: searchParams.get('period') ?? undefined,
+      count: searchParams.get('count') ?? undefined,
+    });
+
+    const familyId = session.familyId;
+    const now = new Date();
+    const lastMonthEnd = new Date(
+      now.getFullYear(),
+      now.getMonth(),
+      0,
+      23,
+      59,
+      59,
+      999
+    );
+
+    const [[current, lastMonth], { isLive, history }, family] =
+      await Promise.all([
+        computeNetWorth(prisma, familyId, [now, lastMonthEnd]),
+        getNetWorthHistory(prisma, familyId, period, count, now),
+        prisma.family.findUnique({
+          where: { id: familyId },
+          select: { currency: true },
+        }),
+      ]);
+
+    return NextResponse.json({
+      currency: family?.currency ?? 'IDR',
+      period,
+      current,
+      monthOverMonth: {
+        previous: lastMonth,
+        ...attributeNetWorthChange(lastMonth, current),
+      },
+      // true jika riwayat dihitung langsung karena belum ada snapshot
+      isLive,
+      history,
+    });
+  } catch (error) {
+    console.error('Get net worth error:', error);
+
+    if (error instanceof z.ZodError) {
+      const firstError = error.errors[0];
+      return NextResponse.json(
+        {
+          error: firstError.message,
+          code: 'VALIDATION_ERROR',
+          field: firstError.path.join('.'),
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        error: 'Terjadi kesalahan saat mengambil riwayat kekayaan bersih',
+        code: 'INTERNAL_ERROR',
+      },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * POST /api/dashboard/net-worth
+ *
+ * Rebuild snapshots from AssetValueHistory and transaction history (ADMIN
+ * only). Tanpa `period` kedua periode dibangun ulang; tanpa `from` dimulai
+ * dari aktivitas pertama keluarga.
+ *
+ * @example
+ * ```typescript
+ * await fetch('/api/dashboard/net-worth', {
+ *   method: 'POST',
+ *   body: JSON.stringify({ period: 'MONTHLY' })
+ * });
+ * ```
+ */
+export const POST = withAuth(
+  { roles: ['ADMIN'] },
+  async (request, { session }) => {
+    try {
+      const body = await request.json().catch(() => ({}));
+      const { period, from } = backfillSchema.parse(body);
+
+      const familyId = session.familyId;
+      const periods = period ? [period] : (['MONTHLY', 'DAILY'] as const);
+      const written: Record<string, number> = {};
+
+      for (const item of periods) {
+        written[item] = await backfillNetWorth(
+          prisma,
+          familyId,
+          item,
+          from ? new Date(from) : undefined
+        );
+      }
+
+      return NextResponse.json({
+        message: 'Riwayat kekayaan bersih berhasil dibangun ulang',
+        snapshots: written,
+      });
+    } catch (error) {
+      console.error('Backfill net worth error:', error);
+
+      if (error instanceof z.ZodError) {
+        const firstError = error.errors[0];
+        return NextResponse.json(
+          {
+            error: firstError.message,
+            code: 'VALIDATION_ERROR',
+            field: firstError.path.join('.'),
+          },
+          { status: 400 }
+        );
+      }
+
+      if (error && typeof error === 'object' && 'code' in error) {
+        const prismaError = PrismaErrorHandler.handle(error);
+        return NextResponse.json(
+          { error: prismaError.message, code: prismaError.code },
+          { status: 400 }
+        );
+      }
+
+      return NextResponse.json(
+        {
+          error:
+            'Terjadi kesalahan saat membangun ulang riwayat kekayaan bersih',
+          code: 'INTERNAL_ERROR',
+        },
+        { status: 500 }
+      );
+    }
+  }
+);
@@ -1,7 +1,16 @@
-import { NextRequest, NextResponse } from "next/server";
+import { NextResponse } from "next/server";
 import { z } from "zod";
 import { prisma } from "@/lib/prisma";
-import { requireAuth, requireFamily } from "@/lib/auth";
+import { withAuth } from "@/lib/route-auth";
+import { getCategorySpending } from "@/lib/transaction-ledger";
+import {
+  CurrencyConverter,
+  getConversionDate,
+  getCurrencyConverter,
+} from "@/lib/currency";
+import { addMoney, sumMoney } from "@/lib/money";
+import { getGoalDebitedSavings } from "@/lib/goal-contributions";
+import { getPinnedSearches } from "@/lib/saved-searches";
 
 /**
  * Date Range Query Schema
@@ -26,14 +35,8 @@ const DateRangeQuerySchema = z.object({
  * const data = await response.json();
  * ```
  */
-export async function GET(request: NextRequest) {
+export const GET = withAuth(async (request, { session }) => {
   try {
-    // Get current session
-    const session = await requireAuth();
-
-    // Ensure user has a family
-    await requireFamily(session);
-
     // Parse query parameters
     const { searchParams } = request.nextUrl;
     const queryResult = DateRangeQuerySchema.safeParse({
@@ -71,7 +74,10 @@ export async function GET(request: NextRequest) {
       ? new Date(queryResult.data.endDate)
       : defaultEndDate;
 
-    const familyId = session.familyId!;
+    const familyId = session.familyId;
+
+    // All amounts are reported in the family base currency
+    const converter = await getCurrencyConverter(prisma, familyId);
 
     // Run all queries in parallel for performance
     const [
@@ -79,37 +85,46 @@ export async function GET(request: NextRequest) {
       categoryBreakdown,
       budgetData,
       recentTransactions,
+      walletsData,
       assetsData,
       liabilitiesData,
       monthlyTrendData,
+      pinnedSearches,
     ] = await Promise.all([
       // 1. Summary: Total income, expense, balance
-      getSummaryStats(familyId, startDate, endDate),
+      getSummaryStats(familyId, startDate, endDate, converter),
 
       // 2. Category Breakdown
-      getCategoryBreakdown(familyId, startDate, endDate),
+      getCategoryBreakdown(familyId, startDate, endDate, converter),
 
       // 3. Budget Status
-      getBudgetStatus(familyId, startDate),
+      getBudgetStatus(familyId, startDate, converter),
 
       // 4. Recent Transactions (last 10)
       getRecentTransactions(familyId, 10),
 
-      // 5. Total Assets
+      // 5. Total wallet balances
+      getTotalWalletBalance(familyId, converter),
+
+      // 6. Total Assets
       getTotalAssets(familyId),
 
-      // 6. Total Liabilities
+      // 7. Total Liabilities
       getTotalLiabilities(familyId),
 
-      // 7. Monthly Trend (last 6 months)
-      getMonthlyTrend(familyId, 6),
+      // 8. Monthly Trend (last 6 months)
+      getMonthlyTrend(familyId, converter, 6),
+
+      // 9. Pinned saved searches of the current user
+      getPinnedSearches(prisma, familyId, session.userId, converter),
     ]);
 
     // Calculate net worth
     const netWorth = {
+      totalWallets: walletsData,
       totalAssets: assetsData,
       totalLiabilities: liabilitiesData,
-      netWorth: assetsData - liabilitiesData,
+      netWorth: walletsData + assetsData - liabilitiesData,
     };
 
     return NextResponse.json({
@@ -123,20 +138,13 @@ export async function GET(request: NextRequest) {
       netWorth,
       monthlyTrend: monthlyTrendData,
       recentTransactions,
+      pinnedSearches,
+      currency: converter.baseCurrency,
+      missingRates: [...converter.missingCurrencies],
     });
   } catch (error) {
     console.error("Get dashboard stats error:", error);
 
-    if (error instanceof Error && error.message.includes("required")) {
-      return NextResponse.json(
-        {
-          error: error.message,
-          code: "UNAUTHORIZED",
-        },
-        { status: 401 }
-      );
-    }
-
     return NextResponse.json(
       {
         error: "Terjadi kesalahan saat mengambil statistik dashboard",
@@ -145,7 +153,7 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
 /**
  * Get summary statistics (income, expense, balance)
@@ -153,10 +161,11 @@ export async function GET(request: NextRequest) {
 async function getSummaryStats(
   familyId: string,
   startDate: Date,
-  endDate: Date
+  endDate: Date,
+  converter: CurrencyConverter
 ) {
   const transactions = await prisma.transaction.groupBy({
-    by: ["type"],
+    by: ["type", "currency"],
     where: {
       familyId,
       date: {
@@ -176,14 +185,21 @@ async function getSummaryStats(
   let totalExpense = 0;
   let incomeCount = 0;
   let expenseCount = 0;
+  const conversionDate = getConversionDate(endDate);
 
   transactions.forEach((t) => {
+    const amount = converter.toBase(
+      t._sum.amount || 0,
+      t.currency,
+      conversionDate
+    );
+
     if (t.type === "INCOME") {
-      totalIncome = t._sum.amount || 0;
-      incomeCount = t._count.id;
+      totalIncome += amount;
+      incomeCount += t._count.id;
     } else if (t.type === "EXPENSE") {
-      totalExpense = t._sum.amount || 0;
-      expenseCount = t._count.id;
+      totalExpense += amount;
+      expenseCount += t._count.id;
     }
   });
 
@@ -203,22 +219,21 @@ async function getSummaryStats(
 async function getCategoryBreakdown(
   familyId: string,
   startDate: Date,
-  endDate: Date
+  endDate: Date,
+  converter: CurrencyConverter
 ) {
-  const categoryTotals = await prisma.transaction.groupBy({
-    by: ["categoryId"],
-    where: {
-      familyId,
-      type: "EXPENSE",
-      date: {
-        gte: startDate,
-        lte: endDate,
-      },
-    },
-    _sum: {
-      amount: true,
-    },
-  });
+  // Split transactions are attributed per split line and subcategories
+  // are counted under their parent
+  const spending = await getCategorySpending(
+    prisma,
+    familyId,
+    { start: startDate, end: endDate },
+    { converter, rollup: true }
+  );
+  const categoryTotals = [...spending].map(([categoryId, { amount }]) => ({
+    categoryId,
+    amount,
+  }));
 
   // Get category details
   const categoryIds = categoryTotals
@@ -246,16 +261,13 @@ async function getCategoryBreakdown(
   );
 
   // Calculate total for percentage
-  const total = categoryTotals.reduce(
-    (sum, ct) => sum + (ct._sum.amount || 0),
-    0
-  );
+  const total = sumMoney(categoryTotals, (ct) => ct.amount);
 
   // Map category data
   return categoryTotals
     .map((ct) => {
       const categoryInfo = categoryMap.get(ct.categoryId!);
-      const amount = ct._sum.amount || 0;
+      const amount = ct.amount;
 
       return {
         categoryId: ct.categoryId!,
@@ -271,7 +283,11 @@ async function getCategoryBreakdown(
 /**
  * Get budget status for current month
  */
-async function getBudgetStatus(familyId: string, referenceDate: Date) {
+async function getBudgetStatus(
+  familyId: string,
+  referenceDate: Date,
+  converter: CurrencyConverter
+) {
   const month = referenceDate.getMonth() + 1;
   const year = referenceDate.getFullYear();
 
@@ -305,25 +321,16 @@ async function getBudgetStatus(familyId: string, referenceDate: Date) {
     .map((b) => b.categoryId)
     .filter((id): id is string => id !== null);
 
-  const spending = await prisma.transaction.groupBy({
-    by: ["categoryId"],
-    where: {
-      familyId,
-      categoryId: { in: categoryIds },
-      type: "EXPENSE",
-      date: {
-        gte: startOfMonth,
-        lte: endOfMonth,
-      },
-    },
-    _sum: {
-      amount: true,
-    },
-  });
+  const spending = await getCategorySpending(
+    prisma,
+    familyId,
+    { start: startOfMonth, end: endOfMonth },
+    { categoryIds, converter, rollup: true }
+  );
 
   // Create spending lookup map
   const spendingMap = new Map(
-    spending.map((s) => [s.categoryId!, s._sum?.amount || 0])
+    [...spending].map(([categoryId, s]) => [categoryId ?? "", s.amount])
   );
 
   // Map budget status
@@ -383,6 +390,7 @@ async function getRecentTransactions(familyId: string, limit: number = 10) {
         select: {
           id: true,
           name: true,
+          currency: true,
         },
       },
     },
@@ -393,6 +401,35 @@ async function getRecentTransactions(familyId: string, limit: number = 10) {
   });
 }
 
+/**
+ * Get total wallet balances in the base currency, including goal savings
+ * debited from wallets
+ */
+async function getTotalWalletBalance(
+  familyId: string,
+  converter: CurrencyConverter
+) {
+  const wallets = await prisma.wallet.groupBy({
+    by: ["currency"],
+    where: {
+      familyId,
+    },
+    _sum: {
+      balance: true,
+    },
+  });
+
+  // Tabungan goal yang didebit dari wallet tetap milik keluarga
+  const [goalSavings] = await getGoalDebitedSavings(prisma, familyId, [
+    new Date(),
+  ]);
+
+  return addMoney(
+    sumMoney(wallets, (w) => converter.toBase(w._sum.balance || 0, w.currency)),
+    goalSavings
+  );
+}
+
 /**
  * Get total assets value
  */
@@ -428,7 +465,11 @@ async function getTotalLiabilities(familyId: string) {
 /**
  * Get monthly trend for last N months
  */
-async function getMonthlyTrend(familyId: string, monthsCount: number = 6) {
+async function getMonthlyTrend(
+  familyId: string,
+  converter: CurrencyConverter,
+  monthsCount: number = 6
+) {
   const now = new Date();
   const months: { month: string; income: number; expense: number }[] = [];
 
@@ -443,7 +484,7 @@ async function getMonthlyTrend(familyId: string, monthsCount: number = 6) {
 
     // Get transactions for this month
     const transactions = await prisma.transaction.groupBy({
-      by: ["type"],
+      by: ["type", "currency"],
       where: {
         familyId,
         date: {
@@ -458,12 +499,19 @@ async function getMonthlyTrend(familyId: string, monthsCount: number = 6) {
 
     let income = 0;
     let expense = 0;
+    const conversionDate = getConversionDate(endDate);
 
     transactions.forEach((t) => {
+      const amount = converter.toBase(
+        t._sum.amount || 0,
+        t.currency,
+        conversionDate
+      );
+
       if (t.type === "INCOME") {
-        income = t._sum.amount || 0;
+        income += amount;
       } else if (t.type === "EXPENSE") {
-        expense = t._sum.amount || 0;
+        expense += amount;
       }
     });
 
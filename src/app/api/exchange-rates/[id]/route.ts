@@ -0,0 +1,52 @@
+import { NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { withAuth } from "@/lib/route-auth";
+
+/**
+ * DELETE /api/exchange-rates/[id]
+ *
+ * Delete a recorded rate (ADMIN only)
+ */
+export const DELETE = withAuth<{ id: string }>(
+  { roles: ["ADMIN"] },
+  async (request, { session, params }) => {
+    const { id } = await params;
+    try {
+      const existing = await prisma.exchangeRate.findFirst({
+        where: { id, familyId: session.familyId },
+      });
+
+      if (!existing) {
+        return NextResponse.json(
+          { error: "Kurs tidak ditemukan", code: "NOT_FOUND" },
+          { status: 404 }
+        );
+      }
+
+      await prisma.exchangeRate.delete({ where: { id } });
+
+      await prisma.auditLog.create({
+        data: {
+          action: "DELETE_EXCHANGE_RATE",
+          entityType: "ExchangeRate",
+          entityId: id,
+          dataBefore: JSON.stringify(existing),
+          userId: session.userId,
+          familyId: session.familyId,
+        },
+      });
+
+      return NextResponse.json({ message: "Kurs berhasil dihapus" });
+    } catch (error) {
+      console.error("Delete exchange rate error:", error);
+
+      return NextResponse.json(
+        {
+          error: "Terjadi kesalahan saat menghapus kurs",
+          code: "INTERNAL_ERROR",
+        },
+        { status: 500 }
+      );
+    }
+  }
+);
@@ -0,0 +1,132 @@
+import { NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { withAuth } from "@/lib/route-auth";
+import { PrismaErrorHandler } from "@/lib/prisma-helpers";
+import { ExchangeRateInput, parseExchangeRatesCsv } from "@/lib/currency";
+
+const MAX_RATES_FILE_SIZE = 1024 * 1024; // 1MB
+
+/**
+ * POST /api/exchange-rates/import
+ *
+ * Import rate history from CSV (ADMIN only). Existing rates for the same
+ * pair and date are overwritten.
+ *
+ * Form data:
+ * - file: CSV with columns date (YYYY-MM-DD), from, to, rate
+ */
+export const POST = withAuth(
+  { roles: ["ADMIN"] },
+  async (request, { session }) => {
+    try {
+      const formData = await request.formData();
+      const file = formData.get("file") as File | null;
+
+      if (!file) {
+        return NextResponse.json(
+          { error: "File harus diisi", code: "VALIDATION_ERROR" },
+          { status: 400 }
+        );
+      }
+
+      if (file.size > MAX_RATES_FILE_SIZE) {
+        return NextResponse.json(
+          { error: "Ukuran file maksimal 1MB", code: "FILE_TOO_LARGE" },
+          { status: 400 }
+        );
+      }
+
+      let rates: ExchangeRateInput[];
+      try {
+        rates = parseExchangeRatesCsv(await file.text());
+      } catch (parseError) {
+        return NextResponse.json(
+          {
+            error:
+              parseError instanceof Error
+                ? parseError.message
+                : "File kurs tidak dapat dibaca",
+            code: "PARSE_ERROR",
+          },
+          { status: 400 }
+        );
+      }
+
+      if (rates.length === 0) {
+        return NextResponse.json(
+          { error: "File kurs tidak berisi data", code: "VALIDATION_ERROR" },
+          { status: 400 }
+        );
+      }
+
+      const familyId = session.familyId;
+
+      await prisma.$transaction(async (tx) => {
+        for (const rate of rates) {
+          const date =
+            typeof rate.date === "string" ? new Date(rate.date) : rate.date;
+
+          await tx.exchangeRate.upsert({
+            where: {
+              familyId_fromCurrency_toCurrency_date: {
+                familyId,
+                fromCurrency: rate.fromCurrency,
+                toCurrency: rate.toCurrency,
+                date,
+              },
+            },
+            update: { rate: rate.rate, source: "CSV" },
+            create: {
+              fromCurrency: rate.fromCurrency,
+              toCurrency: rate.toCurrency,
+              rate: rate.rate,
+              date,
+              source: "CSV",
+              familyId,
+            },
+          });
+        }
+
+        await tx.auditLog.create({
+          data: {
+            action: "IMPORT_EXCHANGE_RATES",
+            entityType: "ExchangeRate",
+            entityId: familyId,
+            details: JSON.stringify({
+              fileName: file.name,
+              count: rates.length,
+            }),
+            userId: session.userId,
+            familyId,
+          },
+        });
+      });
+
+      return NextResponse.json(
+        {
+          message: `${rates.length} kurs berhasil diimpor`,
+          imported: rates.length,
+        },
+        { status: 201 }
+      );
+    } catch (error) {
+      console.error("Import exchange rates error:", error);
+
+      if (error && typeof error === "object" && "code" in error) {
+        const prismaError = PrismaErrorHandler.handle(error);
+        return NextResponse.json(
+          { error: prismaError.message, code: prismaError.code },
+          { status: 400 }
+        );
+      }
+
+      return NextResponse.json(
+        {
+          error: "Terjadi kesalahan saat mengimpor kurs",
+          code: "INTERNAL_ERROR",
+        },
+        { status: 500 }
+      );
+    }
+  }
+);
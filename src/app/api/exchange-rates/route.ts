@@ -0,0 +1,152 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { prisma } from "@/lib/prisma";
+import { withAuth } from "@/lib/route-auth";
+import { PrismaErrorHandler } from "@/lib/prisma-helpers";
+import { ExchangeRateInput, exchangeRateSchema } from "@/lib/currency";
+
+/**
+ * GET /api/exchange-rates
+ *
+ * List the family's exchange rate history, newest first
+ *
+ * Query params:
+ * - from?: currency code
+ * - to?: currency code
+ * - limit?: number (default 100, max 1000)
+ */
+export const GET = withAuth(async (request, { session }) => {
+  try {
+    const { searchParams } = request.nextUrl;
+    const from = searchParams.get("from")?.toUpperCase();
+    const to = searchParams.get("to")?.toUpperCase();
+    const limit = parseInt(searchParams.get("limit") || "100");
+
+    const [family, rates] = await Promise.all([
+      prisma.family.findUnique({
+        where: { id: session.familyId },
+        select: { currency: true },
+      }),
+      prisma.exchangeRate.findMany({
+        where: {
+          familyId: session.familyId,
+          ...(from && { fromCurrency: from }),
+          ...(to && { toCurrency: to }),
+        },
+        orderBy: [{ date: "desc" }, { fromCurrency: "asc" }],
+        take: Math.min(limit, 1000),
+      }),
+    ]);
+
+    return NextResponse.json({ baseCurrency: family?.currency, rates });
+  } catch (error) {
+    console.error("Get exchange rates error:", error);
+
+    return NextResponse.json(
+      {
+        error: "Terjadi kesalahan saat mengambil data kurs",
+        code: "INTERNAL_ERROR",
+      },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * POST /api/exchange-rates
+ *
+ * Record a rate manually (ADMIN only). A rate for the same pair and date
+ * is overwritten.
+ *
+ * @example
+ * ```typescript
+ * await fetch('/api/exchange-rates', {
+ *   method: 'POST',
+ *   body: JSON.stringify({
+ *     fromCurrency: 'USD',
+ *     toCurrency: 'IDR',
+ *     rate: 15750,
+ *     date: '2025-01-01T00:00:00.000Z',
+ *   })
+ * });
+ * ```
+ */
+export const POST = withAuth(
+  { roles: ["ADMIN"] },
+  async (request, { session }) => {
+    try {
+      const body = await request.json();
+      const validatedData: ExchangeRateInput = exchangeRateSchema.parse(body);
+      const date =
+        typeof validatedData.date === "string"
+          ? new Date(validatedData.date)
+          : validatedData.date;
+
+      const rate = await prisma.exchangeRate.upsert({
+        where: {
+          familyId_fromCurrency_toCurrency_date: {
+            familyId: session.familyId,
+            fromCurrency: validatedData.fromCurrency,
+            toCurrency: validatedData.toCurrency,
+            date,
+          },
+        },
+        update: { rate: validatedData.rate, source: "MANUAL" },
+        create: {
+          fromCurrency: validatedData.fromCurrency,
+          toCurrency: validatedData.toCurrency,
+          rate: validatedData.rate,
+          date,
+          source: "MANUAL",
+          familyId: session.familyId,
+        },
+      });
+
+      await prisma.auditLog.create({
+        data: {
+          action: "SET_EXCHANGE_RATE",
+          entityType: "ExchangeRate",
+          entityId: rate.id,
+          dataAfter: JSON.stringify(validatedData),
+          userId: session.userId,
+          familyId: session.familyId,
+        },
+      });
+
+      return NextResponse.json(
+        { message: "Kurs berhasil disimpan", rate },
+        { status: 201 }
+      );
+    } catch (error) {
+      console.error("Create exchange rate error:", error);
+
+      if (error instanceof z.ZodError) {
+        const firstError = error.errors[0];
+        return NextResponse.json(
+          {
+            error: firstError.message,
+            code: "VALIDATION_ERROR",
+            field: firstError.path.join("."),
+          },
+          { status: 400 }
+        );
+      }
+
+      if (error && typeof error === "object" && "code" in error) {
+        const prismaError = PrismaErrorHandler.handle(error);
+        return NextResponse.json(
+          { error: prismaError.message, code: prismaError.code },
+          { status: 400 }
+        );
+      }
+
+      return NextResponse.json(
+        {
+          error: "Terjadi kesalahan saat menyimpan kurs",
+          code: "INTERNAL_ERROR",
+        },
+        { status: 500 }
+      );
+    }
+  }
+);
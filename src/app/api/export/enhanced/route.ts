@@ -1,6 +1,7 @@
-import { NextRequest, NextResponse } from "next/server";
+import { NextResponse } from "next/server";
+import { z } from "zod";
 import { prisma } from "@/lib/prisma";
-import { verifyToken } from "@/lib/auth";
+import { withAuth } from "@/lib/route-auth";
 import ExcelJS from "exceljs";
 import PDFDocument from "pdfkit";
 import {
@@ -8,6 +9,11 @@ import {
   monthIntToDate,
   getMonthDateRange,
 } from "@/lib/date-helpers";
+import {
+  buildTransactionWhere,
+  parseTransactionFilters,
+  TransactionFilterInput,
+} from "@/lib/transaction-filters";
 
 /**
  * GET /api/export/enhanced
@@ -17,30 +23,19 @@ import {
  * - type: transactions | budget | report
  * - startDate: ISO date
  * - endDate: ISO date
- * - categoryId: optional filter
+ * - categoryId: optional filter (includes subcategories)
  * - walletId: optional filter
+ * - tags: optional comma separated tags, tagMode: any | all
  */
-export async function GET(request: NextRequest) {
+export const GET = withAuth(async (request, { session }) => {
   try {
-    const token = request.cookies.get("auth-token")?.value;
-    if (!token) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-    const user = await verifyToken(token);
-    if (!user || !user.familyId) {
-      return NextResponse.json(
-        { error: "Unauthorized or no family" },
-        { status: 401 }
-      );
-    }
-
     const { searchParams } = new URL(request.url);
     const format = searchParams.get("format") || "excel";
     const type = searchParams.get("type") || "transactions";
     const startDate = searchParams.get("startDate");
     const endDate = searchParams.get("endDate");
-    const categoryId = searchParams.get("categoryId");
-    const walletId = searchParams.get("walletId");
+    // categoryId, walletId, tags, tagMode, ... (lihat parseTransactionFilters)
+    const filters = parseTransactionFilters(searchParams);
 
     if (!startDate || !endDate) {
       return NextResponse.json(
@@ -54,29 +49,28 @@ export async function GET(request: NextRequest) {
 
     // Get family info
     const family = await prisma.family.findUnique({
-      where: { id: user.familyId },
+      where: { id: session.familyId },
     });
 
     if (format === "excel") {
       if (type === "transactions") {
         return await exportTransactionsExcel(
-          user.familyId,
+          session.familyId,
           start,
           end,
-          categoryId,
-          walletId,
+          filters,
           family?.name || "Family"
         );
       } else if (type === "budget") {
         return await exportBudgetExcel(
-          user.familyId,
+          session.familyId,
           start,
           end,
           family?.name || "Family"
         );
       } else if (type === "report") {
         return await exportMonthlyReportExcel(
-          user.familyId,
+          session.familyId,
           start,
           end,
           family?.name || "Family"
@@ -85,23 +79,22 @@ export async function GET(request: NextRequest) {
     } else if (format === "pdf") {
       if (type === "transactions") {
         return await exportTransactionsPDF(
-          user.familyId,
+          session.familyId,
           start,
           end,
-          categoryId,
-          walletId,
+          filters,
           family?.name || "Family"
         );
       } else if (type === "budget") {
         return await exportBudgetPDF(
-          user.familyId,
+          session.familyId,
           start,
           end,
           family?.name || "Family"
         );
       } else if (type === "report") {
         return await exportMonthlyReportPDF(
-          user.familyId,
+          session.familyId,
           start,
           end,
           family?.name || "Family"
@@ -115,12 +108,20 @@ export async function GET(request: NextRequest) {
     );
   } catch (error) {
     console.error("[Export Enhanced] Error:", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: error.errors[0].message },
+        { status: 400 }
+      );
+    }
+
     return NextResponse.json(
       { error: error instanceof Error ? error.message : "Export failed" },
       { status: 500 }
     );
   }
-}
+});
 
 /**
  * Export transactions to Excel
@@ -129,22 +130,14 @@ async function exportTransactionsExcel(
   familyId: string,
   startDate: Date,
   endDate: Date,
-  categoryId: string | null,
-  walletId: string | null,
+  filters: TransactionFilterInput,
   familyName: string
 ) {
-  const where: any = {
-    familyId,
-    date: {
-      gte: startDate,
-      lte: endDate,
-    },
-  };
-
-  if (categoryId) where.categoryId = categoryId;
-  if (walletId) {
-    where.OR = [{ fromWalletId: walletId }, { toWalletId: walletId }];
-  }
+  const where = await buildTransactionWhere(prisma, familyId, {
+    ...filters,
+    startDate: startDate.toISOString(),
+    endDate: endDate.toISOString(),
+  });
 
   const transactions = await prisma.transaction.findMany({
     where,
@@ -161,16 +154,15 @@ async function exportTransactionsExcel(
   const worksheet = workbook.addWorksheet("Transactions");
 
   // Header
-  worksheet.mergeCells("A1:H1");
+  worksheet.mergeCells("A1:I1");
   worksheet.getCell("A1").value = `${familyName} - Transaction Report`;
   worksheet.getCell("A1").font = { size: 16, bold: true };
   worksheet.getCell("A1").alignment = { horizontal: "center" };
 
-  worksheet.getCell(
-    "A2"
-  ).value = `Period: ${startDate.toLocaleDateString()} - ${endDate.toLocaleDateString()}`;
+  worksheet.getCell("A2").value =
+    `Period: ${startDate.toLocaleDateString()} - ${endDate.toLocaleDateString()}`;
   worksheet.getCell("A2").alignment = { horizontal: "center" };
-  worksheet.mergeCells("A2:H2");
+  worksheet.mergeCells("A2:I2");
 
   // Table headers
   const headers = [
@@ -182,6 +174,7 @@ async function exportTransactionsExcel(
     "From Wallet",
     "To Wallet",
     "Created By",
+    "Tags",
   ];
 
   worksheet.addRow([]);
@@ -208,6 +201,7 @@ async function exportTransactionsExcel(
       tx.fromWallet?.name || "-",
       tx.toWallet?.name || "-",
       tx.user.name,
+      tx.tags.join(", "),
     ]);
 
     // Format amount
@@ -247,6 +241,7 @@ async function exportTransactionsExcel(
     { width: 15 },
     { width: 15 },
     { width: 15 },
+    { width: 25 },
   ];
 
   // Generate buffer
@@ -304,9 +299,8 @@ async function exportBudgetExcel(
   worksheet.getCell("A1").font = { size: 16, bold: true };
   worksheet.getCell("A1").alignment = { horizontal: "center" };
 
-  worksheet.getCell(
-    "A2"
-  ).value = `Period: ${startDate.toLocaleDateString()} - ${endDate.toLocaleDateString()}`;
+  worksheet.getCell("A2").value =
+    `Period: ${startDate.toLocaleDateString()} - ${endDate.toLocaleDateString()}`;
   worksheet.getCell("A2").alignment = { horizontal: "center" };
   worksheet.mergeCells("A2:F2");
 
@@ -421,9 +415,8 @@ async function exportMonthlyReportExcel(
   worksheet.getCell("A1").font = { size: 16, bold: true };
   worksheet.getCell("A1").alignment = { horizontal: "center" };
 
-  worksheet.getCell(
-    "A2"
-  ).value = `Period: ${startDate.toLocaleDateString()} - ${endDate.toLocaleDateString()}`;
+  worksheet.getCell("A2").value =
+    `Period: ${startDate.toLocaleDateString()} - ${endDate.toLocaleDateString()}`;
   worksheet.getCell("A2").alignment = { horizontal: "center" };
   worksheet.mergeCells("A2:D2");
 
@@ -520,22 +513,14 @@ async function exportTransactionsPDF(
   familyId: string,
   startDate: Date,
   endDate: Date,
-  categoryId: string | null,
-  walletId: string | null,
+  filters: TransactionFilterInput,
   familyName: string
 ) {
-  const where: any = {
-    familyId,
-    date: {
-      gte: startDate,
-      lte: endDate,
-    },
-  };
-
-  if (categoryId) where.categoryId = categoryId;
-  if (walletId) {
-    where.OR = [{ fromWalletId: walletId }, { toWalletId: walletId }];
-  }
+  const where = await buildTransactionWhere(prisma, familyId, {
+    ...filters,
+    startDate: startDate.toISOString(),
+    endDate: endDate.toISOString(),
+  });
 
   const transactions = await prisma.transaction.findMany({
     where,
@@ -599,6 +584,9 @@ async function exportTransactionsPDF(
     doc.text(`  ${tx.description}`);
     doc.text(`  Amount: Rp ${Number(tx.amount).toLocaleString("id-ID")}`);
     doc.text(`  By: ${tx.user.name}`);
+    if (tx.tags.length > 0) {
+      doc.text(`  Tags: ${tx.tags.join(", ")}`);
+    }
     doc.moveDown(0.5);
   });
 
@@ -1,7 +1,7 @@
-import { NextRequest, NextResponse } from "next/server";
+import { NextResponse } from "next/server";
 import * as XLSX from "xlsx";
 import { prisma } from "@/lib/prisma";
-import { requireAuth, requireFamily } from "@/lib/auth";
+import { withAuth } from "@/lib/route-auth";
 
 /**
  * GET /api/export/transactions
@@ -18,14 +18,8 @@ import { requireAuth, requireFamily } from "@/lib/auth";
  * Response:
  * Excel file download with Content-Disposition header
  */
-export async function GET(request: NextRequest) {
+export const GET = withAuth(async (request, { session }) => {
   try {
-    // Get current session
-    const session = await requireAuth();
-
-    // Ensure user has a family
-    await requireFamily(session);
-
     // Get query parameters for filtering
     const searchParams = request.nextUrl.searchParams;
     const startDate = searchParams.get("startDate");
@@ -42,7 +36,7 @@ export async function GET(request: NextRequest) {
       categoryId?: string;
       fromWalletId?: string;
     } = {
-      familyId: session.familyId!,
+      familyId: session.familyId,
     };
 
     // Add date filters
@@ -277,4 +271,4 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
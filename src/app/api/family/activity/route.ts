@@ -1,6 +1,6 @@
-import { NextRequest, NextResponse } from "next/server";
+import { NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
-import { getCurrentSession } from "@/lib/auth";
+import { withAuth } from "@/lib/route-auth";
 
 /**
  * GET /api/family/activity
@@ -27,15 +27,9 @@ import { getCurrentSession } from "@/lib/auth";
  *   }
  * }
  */
-export async function GET(request: NextRequest) {
+export const GET = withAuth(async (request, { session }) => {
   try {
-    // 1. Verify authentication
-    const session = await getCurrentSession();
-    if (!session?.userId || !session?.familyId) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-
-    // 2. Parse query parameters
+    // 1. Parse query parameters
     const { searchParams } = new URL(request.url);
     const page = Math.max(1, parseInt(searchParams.get("page") || "1"));
     const limit = Math.min(
@@ -48,7 +42,7 @@ export async function GET(request: NextRequest) {
     const startDate = searchParams.get("startDate");
     const endDate = searchParams.get("endDate");
 
-    // 3. Build where clause
+    // 2. Build where clause
     const where: any = {
       familyId: session.familyId,
     };
@@ -75,10 +69,10 @@ export async function GET(request: NextRequest) {
       }
     }
 
-    // 4. Get total count
+    // 3. Get total count
     const total = await prisma.auditLog.count({ where });
 
-    // 5. Get activities with pagination
+    // 4. Get activities with pagination
     const activities = await prisma.auditLog.findMany({
       where,
       include: {
@@ -98,7 +92,7 @@ export async function GET(request: NextRequest) {
       take: limit,
     });
 
-    // 6. Format activities with parsed JSON
+    // 5. Format activities with parsed JSON
     const formattedActivities = activities.map((activity) => ({
       ...activity,
       dataBefore: activity.dataBefore ? JSON.parse(activity.dataBefore) : null,
@@ -123,4 +117,4 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
@@ -0,0 +1,59 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { withAuth } from '@/lib/route-auth';
+
+/**
+ * DELETE /api/family/allowances/[id]
+ *
+ * Remove a member's allowance with its limits (ADMIN only). Transaksi
+ * top-up yang sudah tercatat tidak dihapus.
+ */
+export const DELETE = withAuth<{ id: string }>(
+  { roles: ['ADMIN'] },
+  async (request, { session, params }) => {
+    try {
+      const { id } = await params;
+
+      const allowance = await prisma.memberAllowance.findFirst({
+        where: { id: id, familyId: session.familyId },
+      });
+
+      if (!allowance) {
+        return NextResponse.json(
+          { error: 'Uang saku tidak ditemukan', code: 'NOT_FOUND' },
+          { status: 404 }
+        );
+      }
+
+      await prisma.$transaction(async (tx) => {
+        await tx.memberAllowance.delete({ where: { id: allowance.id } });
+
+        await tx.auditLog.create({
+          data: {
+            action: 'DELETE_MEMBER_ALLOWANCE',
+            entityType: 'MemberAllowance',
+            entityId: allowance.id,
+            details: JSON.stringify({
+              memberId: allowance.memberId,
+              amount: allowance.amount,
+            }),
+            userId: session.userId,
+            familyId: session.familyId,
+          },
+        });
+      });
+
+      return NextResponse.json({ message: 'Uang saku berhasil dihapus' });
+    } catch (error) {
+      console.error('Delete allowance error:', error);
+
+      return NextResponse.json(
+        {
+          error: 'Terjadi kesalahan saat menghapus uang saku',
+          code: 'INTERNAL_ERROR',
+        },
+        { status: 500 }
+      );
+    }
+  }
+);
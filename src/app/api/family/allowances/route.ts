@@ -0,0 +1,134 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { withAuth } from '@/lib/route-auth';
+import { PrismaErrorHandler } from '@/lib/prisma-helpers';
+import {
+  allowanceInclude,
+  allowanceSchema,
+  saveAllowance,
+} from '@/lib/allowances';
+
+/**
+ * GET /api/family/allowances
+ *
+ * List member allowances with their spending and category limits. Admin
+ * melihat semua anggota, anggota hanya melihat uang sakunya sendiri.
+ */
+export const GET = withAuth(async (request, { session }) => {
+  try {
+    const allowances = await prisma.memberAllowance.findMany({
+      where: {
+        familyId: session.familyId,
+        ...(session.role !== 'ADMIN' && { memberId: session.userId }),
+      },
+      include: allowanceInclude,
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return NextResponse.json({ allowances, total: allowances.length });
+  } catch (error) {
+    console.error('Get allowances error:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Terjadi kesalahan saat mengambil data uang saku',
+        code: 'INTERNAL_ERROR',
+      },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * POST /api/family/allowances
+ *
+ * Create or replace a member's allowance (ADMIN only). Satu anggota hanya
+ * punya satu uang saku; batas kategori yang dikirim menggantikan yang lama.
+ *
+ * @example
+ * ```typescript
+ * await fetch('/api/family/allowances', {
+ *   method: 'POST',
+ *   body: JSON.stringify({
+ *     memberId: 'user_anak',
+ *     walletId: 'wallet_anak',
+ *     sourceWalletId: 'wallet_ayah',
+ *     amount: 100000,
+ *     frequency: 'WEEKLY',
+ *     limitPeriod: 'WEEKLY',
+ *     spendingLimit: 100000,
+ *     approvalThreshold: 50000,
+ *     categoryLimits: [{ categoryId: 'cat_jajan', amount: 40000 }],
+ *   })
+ * });
+ * ```
+ */
+export const POST = withAuth(
+  { roles: ['ADMIN'] },
+  async (request, { session }) => {
+    try {
+      const body = await request.json();
+      const input = allowanceSchema.parse(body);
+
+      const allowance = await prisma.$transaction((tx) =>
+        saveAllowance(tx, session.familyId, session.userId, input)
+      );
+
+      return NextResponse.json(
+        { allowance, message: 'Uang saku berhasil disimpan' },
+        { status: 201 }
+      );
+    } catch (error) {
+      console.error('Save allowance error:', error);
+
+      if (error instanceof z.ZodError) {
+        const firstError = error.errors[0];
+        return NextResponse.json(
+          {
+            error: firstError.message,
+            code: 'VALIDATION_ERROR',
+            field: firstError.path.join('.'),
+          },
+          { status: 400 }
+        );
+      }
+
+      if (error instanceof Error && error.message.includes('tidak ditemukan')) {
+        return NextResponse.json(
+          { error: error.message, code: 'NOT_FOUND' },
+          { status: 404 }
+        );
+      }
+
+      if (
+        error instanceof Error &&
+        (error.message.includes('hanya untuk') ||
+          error.message.includes('tidak boleh sama') ||
+          error.message.includes('diarsipkan') ||
+          error.message.includes('harus sama'))
+      ) {
+        return NextResponse.json(
+          { error: error.message, code: 'BUSINESS_LOGIC_ERROR' },
+          { status: 400 }
+        );
+      }
+
+      if (error && typeof error === 'object' && 'code' in error) {
+        const prismaError = PrismaErrorHandler.handle(error);
+        return NextResponse.json(
+          { error: prismaError.message, code: prismaError.code },
+          { status: 400 }
+        );
+      }
+
+      return NextResponse.json(
+        {
+          error: 'Terjadi kesalahan saat menyimpan uang saku',
+          code: 'INTERNAL_ERROR',
+        },
+        { status: 500 }
+      );
+    }
+  }
+);
@@ -0,0 +1,129 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { withAuth } from '@/lib/route-auth';
+import { PrismaErrorHandler } from '@/lib/prisma-helpers';
+import { createApprovalRequest, requiresApproval } from '@/lib/approvals';
+import {
+  changeMemberRole,
+  changeRoleSchema,
+  validateRoleChange,
+} from '@/lib/family-members';
+
+/**
+ * PATCH /api/family/members/[id]
+ *
+ * Change a member's role (ADMIN only). Jika kebijakan keluarga mewajibkan
+ * persetujuan, perubahan disimpan sebagai permintaan persetujuan dan
+ * dikembalikan 202. Role baru langsung berlaku untuk route yang dibatasi
+ * role.
+ *
+ * @example
+ * ```typescript
+ * await fetch(`/api/family/members/${memberId}`, {
+ *   method: 'PATCH',
+ *   body: JSON.stringify({ role: 'ADMIN' })
+ * });
+ * ```
+ */
+export const PATCH = withAuth<{ id: string }>(
+  { roles: ['ADMIN'] },
+  async (request, { session, params }) => {
+    try {
+      const { id } = await params;
+
+      const body = await request.json();
+      const input = changeRoleSchema.parse(body);
+
+      const member = await validateRoleChange(
+        prisma,
+        session.familyId,
+        session.userId,
+        id,
+        input
+      );
+
+      if (
+        await requiresApproval(prisma, session.familyId, session.userId, {
+          type: 'CHANGE_ROLE',
+        })
+      ) {
+        const approvalRequest = await prisma.$transaction((tx) =>
+          createApprovalRequest(tx, {
+            familyId: session.familyId,
+            type: 'CHANGE_ROLE',
+            requestedById: session.userId,
+            description: `Ubah role ${member.name} dari ${member.role} menjadi ${input.role}`,
+            payload: { id: member.id, ...input },
+          })
+        );
+
+        return NextResponse.json(
+          {
+            approvalRequest,
+            message: 'Perubahan role menunggu persetujuan admin',
+          },
+          { status: 202 }
+        );
+      }
+
+      const updated = await prisma.$transaction((tx) =>
+        changeMemberRole(tx, session.familyId, session.userId, member.id, input)
+      );
+
+      return NextResponse.json({
+        member: updated,
+        message: 'Role anggota berhasil diubah',
+      });
+    } catch (error) {
+      console.error('Change member role error:', error);
+
+      if (error instanceof z.ZodError) {
+        const firstError = error.errors[0];
+        return NextResponse.json(
+          {
+            error: firstError.message,
+            code: 'VALIDATION_ERROR',
+            field: firstError.path.join('.'),
+          },
+          { status: 400 }
+        );
+      }
+
+      if (error instanceof Error && error.message.includes('tidak ditemukan')) {
+        return NextResponse.json(
+          { error: error.message, code: 'NOT_FOUND' },
+          { status: 404 }
+        );
+      }
+
+      if (
+        error instanceof Error &&
+        (error.message.includes('role sendiri') ||
+          error.message.includes('sudah memiliki role') ||
+          error.message.includes('minimal satu admin'))
+      ) {
+        return NextResponse.json(
+          { error: error.message, code: 'BUSINESS_LOGIC_ERROR' },
+          { status: 400 }
+        );
+      }
+
+      if (error && typeof error === 'object' && 'code' in error) {
+        const prismaError = PrismaErrorHandler.handle(error);
+        return NextResponse.json(
+          { error: prismaError.message, code: prismaError.code },
+          { status: 400 }
+        );
+      }
+
+      return NextResponse.json(
+        {
+          error: 'Terjadi kesalahan saat mengubah role anggota',
+          code: 'INTERNAL_ERROR',
+        },
+        { status: 500 }
+      );
+    }
+  }
+);
@@ -0,0 +1,60 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { withAuth } from '@/lib/route-auth';
+import { getMemberSpendingSummary } from '@/lib/allowances';
+
+/**
+ * GET /api/family/members/[id]/spending
+ *
+ * Spending summary of a member for the current allowance period (bulan
+ * berjalan jika belum punya uang saku): total and per-category spending
+ * against the limits, plus pending approval requests. Admin dapat melihat
+ * semua anggota, anggota hanya dirinya sendiri.
+ */
+export const GET = withAuth<{ id: string }>(
+  async (request, { session, params }) => {
+    try {
+      const { id } = await params;
+
+      if (session.role !== 'ADMIN' && session.userId !== id) {
+        return NextResponse.json(
+          {
+            error: 'Akses ditolak',
+            message: 'Anda hanya dapat melihat ringkasan belanja sendiri',
+          },
+          { status: 403 }
+        );
+      }
+
+      const member = await prisma.user.findFirst({
+        where: { id: id, familyId: session.familyId },
+        select: { id: true, name: true, role: true },
+      });
+
+      if (!member) {
+        return NextResponse.json(
+          { error: 'Anggota tidak ditemukan', code: 'NOT_FOUND' },
+          { status: 404 }
+        );
+      }
+
+      const summary = await getMemberSpendingSummary(
+        prisma,
+        session.familyId,
+        member.id
+      );
+
+      return NextResponse.json({ member, ...summary });
+    } catch (error) {
+      console.error('Get member spending error:', error);
+
+      return NextResponse.json(
+        {
+          error: 'Terjadi kesalahan saat mengambil ringkasan belanja anggota',
+          code: 'INTERNAL_ERROR',
+        },
+        { status: 500 }
+      );
+    }
+  }
+);
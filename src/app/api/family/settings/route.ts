@@ -1,6 +1,6 @@
-import { NextRequest, NextResponse } from "next/server";
+import { NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
-import { getCurrentSession } from "@/lib/auth";
+import { withAuth } from "@/lib/route-auth";
 import { z } from "zod";
 
 /**
@@ -19,6 +19,17 @@ const FamilySettingsSchema = z.object({
   monthlyReport: z.boolean().optional(),
   emailNotif: z.boolean().optional(),
   defaultBudgetAlert: z.number().min(0).max(100).optional().nullable(),
+  budgetMode: z.enum(["CATEGORY", "ENVELOPE"]).optional(),
+  // Approval policy
+  approvalTransferThreshold: z
+    .number()
+    .positive("Batas transfer harus lebih dari 0")
+    .max(999999999999, "Batas transfer terlalu besar")
+    .optional()
+    .nullable(),
+  approvalDeleteAssets: z.boolean().optional(),
+  approvalDeleteLiabilities: z.boolean().optional(),
+  approvalRoleChanges: z.boolean().optional(),
 });
 
 type FamilySettingsInput = z.infer<typeof FamilySettingsSchema>;
@@ -44,6 +55,11 @@ type FamilySettingsInput = z.infer<typeof FamilySettingsSchema>;
  *     monthlyReport: boolean,
  *     emailNotif: boolean,
  *     defaultBudgetAlert: number | null,
+ *     budgetMode: 'CATEGORY' | 'ENVELOPE',
+ *     approvalTransferThreshold: number | null,
+ *     approvalDeleteAssets: boolean,
+ *     approvalDeleteLiabilities: boolean,
+ *     approvalRoleChanges: boolean,
  *     createdAt: string,
  *     updatedAt: string,
  *     _count: {
@@ -54,21 +70,20 @@ type FamilySettingsInput = z.infer<typeof FamilySettingsSchema>;
  *   }
  * }
  */
-export async function GET(request: NextRequest) {
+export const GET = withAuth(async (request, { session }) => {
   try {
-    // 1. Verify authentication
-    const session = await getCurrentSession();
-    if (!session?.userId || !session?.familyId) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-
-    // 2. Get family settings
+    // 1. Get family settings
     const family = await prisma.family.findUnique({
       where: { id: session.familyId },
       select: {
         id: true,
         name: true,
         description: true,
+        budgetMode: true,
+        approvalTransferThreshold: true,
+        approvalDeleteAssets: true,
+        approvalDeleteLiabilities: true,
+        approvalRoleChanges: true,
         createdAt: true,
         updatedAt: true,
         _count: {
@@ -96,7 +111,7 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
 /**
  * PUT /api/family/settings
@@ -116,7 +131,12 @@ export async function GET(request: NextRequest) {
  *   weeklyReport?: boolean,
  *   monthlyReport?: boolean,
  *   emailNotif?: boolean,
- *   defaultBudgetAlert?: number | null
+ *   defaultBudgetAlert?: number | null,
+ *   budgetMode?: 'CATEGORY' | 'ENVELOPE',
+ *   approvalTransferThreshold?: number | null,
+ *   approvalDeleteAssets?: boolean,
+ *   approvalDeleteLiabilities?: boolean,
+ *   approvalRoleChanges?: boolean
  * }
  *
  * Response:
@@ -124,89 +144,113 @@ export async function GET(request: NextRequest) {
  *   family: {...}
  * }
  */
-export async function PUT(request: NextRequest) {
-  try {
-    // 1. Verify authentication
-    const session = await getCurrentSession();
-    if (!session?.userId || !session?.familyId) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-
-    // 2. Check if user is ADMIN
-    const user = await prisma.user.findUnique({
-      where: { id: session.userId },
-      select: { role: true },
-    });
-
-    if (user?.role !== "ADMIN") {
-      return NextResponse.json(
-        { error: "Only family admin can update settings" },
-        { status: 403 }
-      );
-    }
+export const PUT = withAuth(
+  { roles: ["ADMIN"] },
+  async (request, { session }) => {
+    try {
+      // 1. Parse and validate request body
+      const body = await request.json();
+      const validatedData = FamilySettingsSchema.parse(body);
 
-    // 3. Parse and validate request body
-    const body = await request.json();
-    const validatedData = FamilySettingsSchema.parse(body);
-
-    // 4. Get old family data for audit log
-    const oldFamily = await prisma.family.findUnique({
-      where: { id: session.familyId },
-    });
-
-    if (!oldFamily) {
-      return NextResponse.json({ error: "Family not found" }, { status: 404 });
-    }
-
-    // 5. Update family settings (only name and description for now)
-    const { name, description } = validatedData;
-    const updatedFamily = await prisma.family.update({
-      where: { id: session.familyId },
-      data: { name, description },
-      select: {
-        id: true,
-        name: true,
-        description: true,
-        createdAt: true,
-        updatedAt: true,
-      },
-    });
+      // 2. Get old family data for audit log
+      const oldFamily = await prisma.family.findUnique({
+        where: { id: session.familyId },
+      });
 
-    // 6. Create audit log
-    const changes: Record<string, any> = {};
-    if (name && oldFamily.name !== name) {
-      changes.name = { old: oldFamily.name, new: name };
-    }
-    if (description !== undefined && oldFamily.description !== description) {
-      changes.description = { old: oldFamily.description, new: description };
-    }
+      if (!oldFamily) {
+        return NextResponse.json(
+          { error: "Family not found" },
+          { status: 404 }
+        );
+      }
 
-    if (Object.keys(changes).length > 0) {
-      await prisma.auditLog.create({
+      // 3. Update family settings (name, description, budget mode and
+      // approval policy for now)
+      const {
+        name,
+        description,
+        budgetMode,
+        approvalTransferThreshold,
+        approvalDeleteAssets,
+        approvalDeleteLiabilities,
+        approvalRoleChanges,
+      } = validatedData;
+      const updatedFamily = await prisma.family.update({
+        where: { id: session.familyId },
         data: {
-          userId: session.userId,
-          familyId: session.familyId,
-          action: "UPDATE_FAMILY_SETTINGS",
-          entityType: "Family",
-          entityId: session.familyId,
-          changes: JSON.stringify(changes),
+          name,
+          description,
+          budgetMode,
+          approvalTransferThreshold,
+          approvalDeleteAssets,
+          approvalDeleteLiabilities,
+          approvalRoleChanges,
+        },
+        select: {
+          id: true,
+          name: true,
+          description: true,
+          budgetMode: true,
+          approvalTransferThreshold: true,
+          approvalDeleteAssets: true,
+          approvalDeleteLiabilities: true,
+          approvalRoleChanges: true,
+          createdAt: true,
+          updatedAt: true,
         },
       });
-    }
 
-    return NextResponse.json({ family: updatedFamily });
-  } catch (error) {
-    if (error instanceof z.ZodError) {
+      // 4. Create audit log
+      const changes: Record<string, any> = {};
+      if (name && oldFamily.name !== name) {
+        changes.name = { old: oldFamily.name, new: name };
+      }
+      if (description !== undefined && oldFamily.description !== description) {
+        changes.description = { old: oldFamily.description, new: description };
+      }
+      if (budgetMode && oldFamily.budgetMode !== budgetMode) {
+        changes.budgetMode = { old: oldFamily.budgetMode, new: budgetMode };
+      }
+      const policy = {
+        approvalTransferThreshold,
+        approvalDeleteAssets,
+        approvalDeleteLiabilities,
+        approvalRoleChanges,
+      };
+      for (const [field, value] of Object.entries(policy)) {
+        const old = oldFamily[field as keyof typeof policy];
+        if (value !== undefined && old !== value) {
+          changes[field] = { old, new: value };
+        }
+      }
+
+      if (Object.keys(changes).length > 0) {
+        await prisma.auditLog.create({
+          data: {
+            userId: session.userId,
+            familyId: session.familyId,
+            action: "UPDATE_FAMILY_SETTINGS",
+            entityType: "Family",
+            entityId: session.familyId,
+            changes: JSON.stringify(changes),
+          },
+        });
+      }
+
+      return NextResponse.json({ family: updatedFamily });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return NextResponse.json(
+          { error: "Validation error", details: error.errors },
+          { status: 400 }
+        );
+      }
+
+      console.error("PUT /api/family/settings error:", error);
       return NextResponse.json(
-        { error: "Validation error", details: error.errors },
-        { status: 400 }
+        { error: "Failed to update family settings" },
+        { status: 500 }
       );
     }
-
-    console.error("PUT /api/family/settings error:", error);
-    return NextResponse.json(
-      { error: "Failed to update family settings" },
-      { status: 500 }
-    );
   }
-}
+);
@@ -1,132 +1,73 @@
-import { NextRequest, NextResponse } from "next/server";
-import { cookies } from "next/headers";
-import { verify } from "jsonwebtoken";
+import { NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
-
-const JWT_SECRET = process.env.JWT_SECRET || "your-secret-key";
-
-interface JWTPayload {
-  userId: string;
-  email: string;
-}
+import { withAuth } from "@/lib/route-auth";
+import { deleteGoalContribution } from "@/lib/goal-contributions";
 
 // DELETE /api/goals/[goalId]/contribute/[contributionId] - Delete contribution
-export async function DELETE(
-  request: NextRequest,
-  { params }: { params: Promise<{ id: string; contributionId: string }> }
-) {
-  try {
-    const cookieStore = await cookies();
-    const token = cookieStore.get("token")?.value;
-
-    if (!token) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-
-    const decoded = verify(token, JWT_SECRET) as JWTPayload;
-    const { id: goalId, contributionId } = await params;
-
-    // Get user with family
-    const user = await prisma.user.findUnique({
-      where: { id: decoded.userId },
-      include: { family: true },
-    });
-
-    if (!user || !user.familyId) {
-      return NextResponse.json(
-        { error: "User tidak tergabung dalam keluarga" },
-        { status: 400 }
-      );
-    }
-
-    // Check if contribution exists
-    const contribution = await prisma.goalContribution.findFirst({
-      where: {
-        id: contributionId,
-        goalId,
-        goal: {
-          familyId: user.familyId,
+export const DELETE = withAuth<{ id: string; contributionId: string }>(
+  async (request, { session, params }) => {
+    try {
+      const { id: goalId, contributionId } = await params;
+
+      // Check if contribution exists
+      const contribution = await prisma.goalContribution.findFirst({
+        where: {
+          id: contributionId,
+          goalId,
+          goal: {
+            familyId: session.familyId,
+          },
         },
-      },
-      include: {
-        goal: true,
-      },
-    });
-
-    if (!contribution) {
-      return NextResponse.json(
-        { error: "Kontribusi tidak ditemukan" },
-        { status: 404 }
-      );
-    }
+      });
 
-    // Only allow deletion by the contributor or admin
-    if (contribution.userId !== user.id && user.role !== "ADMIN") {
-      return NextResponse.json(
-        { error: "Anda tidak memiliki izin untuk menghapus kontribusi ini" },
-        { status: 403 }
-      );
-    }
+      if (!contribution) {
+        return NextResponse.json(
+          { error: "Kontribusi tidak ditemukan" },
+          { status: 404 }
+        );
+      }
 
-    // Use transaction to ensure atomic operations
-    await prisma.$transaction(async (tx) => {
-      // Delete contribution
-      await tx.goalContribution.delete({
-        where: { id: contributionId },
-      });
+      // Only allow deletion by the contributor or admin
+      if (contribution.userId !== session.userId && session.role !== "ADMIN") {
+        return NextResponse.json(
+          { error: "Anda tidak memiliki izin untuk menghapus kontribusi ini" },
+          { status: 403 }
+        );
+      }
 
-      // Update goal's current amount
-      await tx.goal.update({
-        where: { id: goalId },
-        data: {
-          currentAmount: {
-            decrement: contribution.amount,
-          },
-        },
-      });
+      // Transaction, wallet and goal amount are restored atomically
+      const result = await prisma.$transaction((tx) =>
+        deleteGoalContribution(
+          tx,
+          session.familyId,
+          session.userId,
+          contributionId
+        )
+      );
 
-      // If goal was completed, revert to active if amount is now below target
-      const updatedGoal = await tx.goal.findUnique({
-        where: { id: goalId },
+      return NextResponse.json({
+        wallets: result.wallets,
+        newCurrentAmount: result.newCurrentAmount,
+        message: "Kontribusi berhasil dihapus",
       });
+    } catch (error) {
+      console.error(
+        "DELETE /api/goals/[id]/contribute/[contributionId] error:",
+        error
+      );
 
       if (
-        updatedGoal &&
-        updatedGoal.status === "COMPLETED" &&
-        updatedGoal.currentAmount < updatedGoal.targetAmount
+        error instanceof Error &&
+        (error.message.includes("tidak mencukupi") ||
+          error.message.includes("sudah ditarik"))
       ) {
-        await tx.goal.update({
-          where: { id: goalId },
-          data: { status: "ACTIVE" },
-        });
+        return NextResponse.json({ error: error.message }, { status: 400 });
       }
 
-      // Create audit log
-      await tx.auditLog.create({
-        data: {
-          action: "DELETE_CONTRIBUTION",
-          entityType: "GoalContribution",
-          entityId: contributionId,
-          details: `Menghapus kontribusi Rp ${contribution.amount.toLocaleString(
-            "id-ID"
-          )} dari goal: ${contribution.goal.name}`,
-          userId: user.id,
-          familyId: user.familyId,
-        },
-      });
-    });
-
-    return NextResponse.json({
-      message: "Kontribusi berhasil dihapus",
-    });
-  } catch (error) {
-    console.error(
-      "DELETE /api/goals/[id]/contribute/[contributionId] error:",
-      error
-    );
-    return NextResponse.json(
-      { error: "Internal server error" },
-      { status: 500 }
-    );
+      return NextResponse.json(
+        { error: "Internal server error" },
+        { status: 500 }
+      );
+    }
   }
-}
+);
@@ -0,0 +1,69 @@
+import { NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { withAuth } from "@/lib/route-auth";
+import { deleteGoalDistribution } from "@/lib/goal-distributions";
+
+// DELETE /api/goals/[goalId]/distribute/[distributionId] - Delete distribution
+export const DELETE = withAuth<{ id: string; distributionId: string }>(
+  async (request, { session, params }) => {
+    try {
+      const { id: goalId, distributionId } = await params;
+
+      // Check if distribution exists
+      const distribution = await prisma.goalDistribution.findFirst({
+        where: {
+          id: distributionId,
+          goalId,
+          goal: {
+            familyId: session.familyId,
+          },
+        },
+      });
+
+      if (!distribution) {
+        return NextResponse.json(
+          { error: "Penarikan goal tidak ditemukan" },
+          { status: 404 }
+        );
+      }
+
+      // Only allow deletion by the member who recorded it or admin
+      if (distribution.userId !== session.userId && session.role !== "ADMIN") {
+        return NextResponse.json(
+          { error: "Anda tidak memiliki izin untuk menghapus penarikan ini" },
+          { status: 403 }
+        );
+      }
+
+      // Transaction, wallet and goal amount are restored atomically
+      const result = await prisma.$transaction((tx) =>
+        deleteGoalDistribution(
+          tx,
+          session.familyId,
+          session.userId,
+          distributionId
+        )
+      );
+
+      return NextResponse.json({
+        wallets: result.wallets,
+        newCurrentAmount: result.newCurrentAmount,
+        message: "Penarikan goal berhasil dihapus",
+      });
+    } catch (error) {
+      console.error(
+        "DELETE /api/goals/[id]/distribute/[distributionId] error:",
+        error
+      );
+
+      if (error instanceof Error && error.message.includes("tidak mencukupi")) {
+        return NextResponse.json({ error: error.message }, { status: 400 });
+      }
+
+      return NextResponse.json(
+        { error: "Internal server error" },
+        { status: 500 }
+      );
+    }
+  }
+);
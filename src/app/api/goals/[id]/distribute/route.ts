@@ -0,0 +1,175 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { prisma } from "@/lib/prisma";
+import { withAuth } from "@/lib/route-auth";
+import { sendGoalDistributionEmail } from "@/lib/email";
+import {
+  goalDistributionSchema,
+  recordGoalDistribution,
+} from "@/lib/goal-distributions";
+
+// POST /api/goals/[id]/distribute - Withdraw/disburse funds from a goal
+export const POST = withAuth<{ id: string }>(
+  async (request, { session, params }) => {
+    try {
+      const { id: goalId } = await params;
+
+      const user = await prisma.user.findUniqueOrThrow({
+        where: { id: session.userId },
+        select: { id: true, name: true, email: true },
+      });
+
+      const body = await request.json();
+      const input = goalDistributionSchema.parse(body);
+
+      // Distribution, wallet credit, transaction and goal amount are saved
+      // atomically
+      const result = await prisma.$transaction((tx) =>
+        recordGoalDistribution(tx, session.familyId, user, goalId, input)
+      );
+
+      // Email dikirim setelah commit; kegagalan email tidak membatalkan
+      // penarikan
+      let emailSent = false;
+      let emailError: string | null = null;
+      if (input.notifyRecipient) {
+        const emailResult = await sendGoalDistributionEmail(
+          result.distribution.recipientEmail,
+          result.distribution.recipientName,
+          {
+            goalName: result.goal.name,
+            amount: result.distribution.amount,
+            date: result.distribution.date,
+            description: result.distribution.description,
+            distributedBy: user.name,
+            walletName: result.distribution.wallet?.name,
+          }
+        );
+        emailSent = emailResult.success;
+        emailError = emailResult.success
+          ? null
+          : (emailResult.error ?? "Unknown error");
+      }
+
+      return NextResponse.json(
+        {
+          distribution: result.distribution,
+          transactions: result.transactions,
+          wallets: result.wallets,
+          newCurrentAmount: result.newCurrentAmount,
+          emailSent,
+          emailError,
+          message: "Dana goal berhasil ditarik",
+        },
+        { status: 201 }
+      );
+    } catch (error) {
+      console.error("POST /api/goals/[id]/distribute error:", error);
+      return distributionErrorResponse(error);
+    }
+  }
+);
+
+// GET /api/goals/[id]/distribute - Get all distributions for a goal
+export const GET = withAuth<{ id: string }>(
+  async (request, { session, params }) => {
+    try {
+      const { id: goalId } = await params;
+
+      // Check if goal exists and belongs to family
+      const goal = await prisma.goal.findFirst({
+        where: {
+          id: goalId,
+          familyId: session.familyId,
+        },
+      });
+
+      if (!goal) {
+        return NextResponse.json(
+          { error: "Goal tidak ditemukan" },
+          { status: 404 }
+        );
+      }
+
+      // Get distributions with pagination
+      const { searchParams } = new URL(request.url);
+      const limit = parseInt(searchParams.get("limit") || "50");
+      const offset = parseInt(searchParams.get("offset") || "0");
+
+      const [distributions, total, stats] = await Promise.all([
+        prisma.goalDistribution.findMany({
+          where: { goalId },
+          include: {
+            user: {
+              select: {
+                id: true,
+                name: true,
+                avatar: true,
+              },
+            },
+            wallet: {
+              select: {
+                id: true,
+                name: true,
+              },
+            },
+          },
+          orderBy: {
+            date: "desc",
+          },
+          take: limit,
+          skip: offset,
+        }),
+        prisma.goalDistribution.count({
+          where: { goalId },
+        }),
+        prisma.goalDistribution.aggregate({
+          where: { goalId },
+          _sum: {
+            amount: true,
+          },
+        }),
+      ]);
+
+      return NextResponse.json({
+        distributions,
+        total,
+        stats: {
+          totalAmount: stats._sum.amount || 0,
+          totalCount: total,
+        },
+      });
+    } catch (error) {
+      console.error("GET /api/goals/[id]/distribute error:", error);
+      return NextResponse.json(
+        { error: "Internal server error" },
+        { status: 500 }
+      );
+    }
+  }
+);
+
+function distributionErrorResponse(error: unknown) {
+  if (error instanceof z.ZodError) {
+    const firstError = error.errors[0];
+    return NextResponse.json(
+      { error: firstError.message, field: firstError.path.join(".") },
+      { status: 400 }
+    );
+  }
+
+  if (error instanceof Error && error.message.includes("tidak ditemukan")) {
+    return NextResponse.json({ error: error.message }, { status: 404 });
+  }
+
+  if (
+    error instanceof Error &&
+    (error.message.includes("tidak mencukupi") ||
+      error.message.includes("diarsipkan") ||
+      error.message.includes("mata uang"))
+  ) {
+    return NextResponse.json({ error: error.message }, { status: 400 });
+  }
+
+  return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+}
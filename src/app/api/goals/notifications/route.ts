@@ -1,44 +1,15 @@
-import { NextRequest, NextResponse } from "next/server";
-import { cookies } from "next/headers";
-import { verify } from "jsonwebtoken";
+import { NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
-
-const JWT_SECRET = process.env.JWT_SECRET || "your-secret-key";
-
-interface JWTPayload {
-  userId: string;
-  email: string;
-}
+import { withAuth } from "@/lib/route-auth";
+import { getFamilyGoalPlans } from "@/lib/goal-planning";
 
 // GET /api/goals/notifications - Get goal-related notifications
-export async function GET(request: NextRequest) {
+export const GET = withAuth(async (request, { session }) => {
   try {
-    const cookieStore = await cookies();
-    const token = cookieStore.get("token")?.value;
-
-    if (!token) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-
-    const decoded = verify(token, JWT_SECRET) as JWTPayload;
-
-    // Get user with family
-    const user = await prisma.user.findUnique({
-      where: { id: decoded.userId },
-      include: { family: true },
-    });
-
-    if (!user || !user.familyId) {
-      return NextResponse.json(
-        { error: "User tidak tergabung dalam keluarga" },
-        { status: 400 }
-      );
-    }
-
     // Get all active goals for the family
     const goals = await prisma.goal.findMany({
       where: {
-        familyId: user.familyId,
+        familyId: session.familyId,
         status: "ACTIVE",
       },
       include: {
@@ -53,6 +24,10 @@ export async function GET(request: NextRequest) {
 
     const notifications: any[] = [];
     const today = new Date();
+    const { plans } = await getFamilyGoalPlans(prisma, session.familyId, today);
+
+    const formatCurrency = (amount: number) =>
+      `Rp ${Math.ceil(amount).toLocaleString("id-ID")}`;
 
     for (const goal of goals) {
       const progress = (goal.currentAmount / goal.targetAmount) * 100;
@@ -140,6 +115,39 @@ export async function GET(request: NextRequest) {
         });
       }
 
+      // Notification: Behind schedule (laju kontribusi di bawah kebutuhan)
+      const plan = plans.get(goal.id);
+      if (plan?.status === "BEHIND") {
+        const projection = plan.projectedCompletionDate
+          ? `perkiraan tercapai ${plan.projectedCompletionDate.toLocaleDateString(
+              "id-ID",
+              { month: "long", year: "numeric" }
+            )}`
+          : "belum ada kontribusi rutin";
+        notifications.push({
+          id: `goal-behind-${goal.id}`,
+          type: "GOAL_BEHIND",
+          priority:
+            plan.monthsLeft !== null && plan.monthsLeft <= 3
+              ? "high"
+              : "medium",
+          title: "📉 Goal Tertinggal dari Jadwal",
+          message: `${goal.name} butuh ${formatCurrency(
+            plan.requiredMonthly ?? 0
+          )}/bulan, rata-rata kontribusi ${formatCurrency(
+            plan.averageMonthly
+          )}/bulan (${projection}).`,
+          goalId: goal.id,
+          goalName: goal.name,
+          progress,
+          daysLeft,
+          requiredMonthly: plan.requiredMonthly,
+          averageMonthly: plan.averageMonthly,
+          projectedCompletionDate: plan.projectedCompletionDate,
+          createdAt: new Date().toISOString(),
+        });
+      }
+
       // Notification: No progress in 30 days
       if (goal.contributions.length > 0) {
         const lastContribution = goal.contributions[0];
@@ -212,4 +220,4 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
@@ -0,0 +1,74 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { prisma } from "@/lib/prisma";
+import { withAuth } from "@/lib/route-auth";
+import {
+  allocateMonthlySavings,
+  getFamilyGoalPlans,
+  goalPlanQuerySchema,
+} from "@/lib/goal-planning";
+import { sumMoney } from "@/lib/money";
+
+// GET /api/goals/plan - Saving plan per active goal and monthly allocation
+//
+// Query params:
+// - monthlyAmount?: total tabungan per bulan yang dibagi ke goal aktif
+// - strategy?: priority | deadline (default: priority)
+export const GET = withAuth(async (request, { session }) => {
+  try {
+    const { searchParams } = request.nextUrl;
+    const query = goalPlanQuerySchema.parse({
+      monthlyAmount: searchParams.get("monthlyAmount") || undefined,
+      strategy: searchParams.get("strategy") || undefined,
+    });
+
+    const { goals, plans } = await getFamilyGoalPlans(prisma, session.familyId);
+
+    const goalPlans = goals.map((goal) => ({
+      id: goal.id,
+      name: goal.name,
+      targetAmount: goal.targetAmount,
+      currentAmount: goal.currentAmount,
+      deadline: goal.deadline,
+      priority: goal.priority,
+      plan: plans.get(goal.id)!,
+    }));
+
+    return NextResponse.json({
+      goals: goalPlans,
+      totals: {
+        requiredMonthly: sumMoney(
+          goalPlans,
+          (goal) => goal.plan.requiredMonthly ?? 0
+        ),
+        averageMonthly: sumMoney(goalPlans, (goal) => goal.plan.averageMonthly),
+        behind: goalPlans.filter((goal) =>
+          ["BEHIND", "OVERDUE"].includes(goal.plan.status)
+        ).length,
+      },
+      allocation: query.monthlyAmount
+        ? allocateMonthlySavings(
+            goals,
+            plans,
+            query.monthlyAmount,
+            query.strategy
+          )
+        : null,
+    });
+  } catch (error) {
+    console.error("GET /api/goals/plan error:", error);
+
+    if (error instanceof z.ZodError) {
+      const firstError = error.errors[0];
+      return NextResponse.json(
+        { error: firstError.message, field: firstError.path.join(".") },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+});
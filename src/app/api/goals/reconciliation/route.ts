@@ -0,0 +1,22 @@
+import { NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { withAuth } from "@/lib/route-auth";
+import { getGoalReconciliation } from "@/lib/goal-contributions";
+
+// GET /api/goals/reconciliation - Saved vs earmarked goal funds per wallet
+export const GET = withAuth(async (request, { session }) => {
+  try {
+    const reconciliation = await getGoalReconciliation(
+      prisma,
+      session.familyId
+    );
+
+    return NextResponse.json(reconciliation);
+  } catch (error) {
+    console.error("GET /api/goals/reconciliation error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+});
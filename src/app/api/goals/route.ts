@@ -1,41 +1,17 @@
-import { NextRequest, NextResponse } from "next/server";
-import { cookies } from "next/headers";
-import { verify } from "jsonwebtoken";
+import { NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
+import { withAuth } from "@/lib/route-auth";
 import { GoalStatus } from "@prisma/client";
-
-const JWT_SECRET = process.env.JWT_SECRET || "your-secret-key";
-
-interface JWTPayload {
-  userId: string;
-  email: string;
-}
+import {
+  GOAL_PRIORITY_MAX,
+  GOAL_PRIORITY_MIN,
+  getGoalPlan,
+  goalPrioritySchema,
+} from "@/lib/goal-planning";
 
 // GET /api/goals - Get all goals for user's family
-export async function GET(request: NextRequest) {
+export const GET = withAuth(async (request, { session }) => {
   try {
-    const cookieStore = await cookies();
-    const token = cookieStore.get("token")?.value;
-
-    if (!token) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-
-    const decoded = verify(token, JWT_SECRET) as JWTPayload;
-
-    // Get user with family
-    const user = await prisma.user.findUnique({
-      where: { id: decoded.userId },
-      include: { family: true },
-    });
-
-    if (!user || !user.familyId) {
-      return NextResponse.json(
-        { error: "User tidak tergabung dalam keluarga" },
-        { status: 400 }
-      );
-    }
-
     // Get query parameters for filtering
     const { searchParams } = new URL(request.url);
     const status = searchParams.get("status") as GoalStatus | null;
@@ -43,7 +19,7 @@ export async function GET(request: NextRequest) {
 
     // Build where clause
     const where: any = {
-      familyId: user.familyId,
+      familyId: session.familyId,
     };
 
     if (status && ["ACTIVE", "COMPLETED", "CANCELLED"].includes(status)) {
@@ -70,6 +46,25 @@ export async function GET(request: NextRequest) {
                 avatar: true,
               },
             },
+            wallet: {
+              select: {
+                id: true,
+                name: true,
+              },
+            },
+          },
+          orderBy: {
+            date: "desc",
+          },
+        },
+        distributions: {
+          include: {
+            wallet: {
+              select: {
+                id: true,
+                name: true,
+              },
+            },
           },
           orderBy: {
             date: "desc",
@@ -107,6 +102,8 @@ export async function GET(request: NextRequest) {
         ...goal,
         progress: Math.round(progress * 100) / 100,
         daysLeft,
+        // Rencana tabungan hanya untuk goal aktif
+        plan: goal.status === "ACTIVE" ? getGoalPlan(goal) : null,
       };
     });
 
@@ -121,35 +118,13 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
 // POST /api/goals - Create new goal
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request, { session }) => {
   try {
-    const cookieStore = await cookies();
-    const token = cookieStore.get("token")?.value;
-
-    if (!token) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-
-    const decoded = verify(token, JWT_SECRET) as JWTPayload;
-
-    // Get user with family
-    const user = await prisma.user.findUnique({
-      where: { id: decoded.userId },
-      include: { family: true },
-    });
-
-    if (!user || !user.familyId) {
-      return NextResponse.json(
-        { error: "User tidak tergabung dalam keluarga" },
-        { status: 400 }
-      );
-    }
-
     const body = await request.json();
-    const { name, description, targetAmount, deadline } = body;
+    const { name, description, targetAmount, deadline, priority } = body;
 
     // Validation
     if (!name || !name.trim()) {
@@ -173,6 +148,18 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (
+      priority !== undefined &&
+      !goalPrioritySchema.safeParse(priority).success
+    ) {
+      return NextResponse.json(
+        {
+          error: `Prioritas harus antara ${GOAL_PRIORITY_MIN} dan ${GOAL_PRIORITY_MAX}`,
+        },
+        { status: 400 }
+      );
+    }
+
     // Create goal
     const goal = await prisma.goal.create({
       data: {
@@ -180,7 +167,8 @@ export async function POST(request: NextRequest) {
         description: description?.trim() || null,
         targetAmount: parseFloat(targetAmount),
         deadline: deadline ? new Date(deadline) : null,
-        familyId: user.familyId,
+        ...(priority !== undefined && { priority: Number(priority) }),
+        familyId: session.familyId,
         status: "ACTIVE",
         currentAmount: 0,
       },
@@ -194,6 +182,12 @@ export async function POST(request: NextRequest) {
                 avatar: true,
               },
             },
+            wallet: {
+              select: {
+                id: true,
+                name: true,
+              },
+            },
           },
         },
         _count: {
@@ -212,8 +206,8 @@ export async function POST(request: NextRequest) {
         entityType: "Goal",
         entityId: goal.id,
         details: `Membuat goal: ${goal.name}`,
-        userId: user.id,
-        familyId: user.familyId,
+        userId: session.userId,
+        familyId: session.familyId,
       },
     });
 
@@ -231,4 +225,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
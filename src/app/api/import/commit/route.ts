@@ -0,0 +1,344 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { TransactionType } from "@prisma/client";
+import { nanoid } from "nanoid";
+import { prisma } from "@/lib/prisma";
+import { withAuth } from "@/lib/route-auth";
+import { PrismaErrorHandler } from "@/lib/prisma-helpers";
+import { recalculateBudgetSpent } from "@/lib/transaction-ledger";
+import { sumMoney } from "@/lib/money";
+import {
+  applyRules,
+  getActiveRules,
+  recordRuleMatches,
+} from "@/lib/categorization-rules";
+import {
+  assertMemberExpenseAllowed,
+  MEMBER_EXPENSE_APPROVAL_ERROR,
+} from "@/lib/allowances";
+
+const ImportRowSchema = z.object({
+  date: z
+    .string()
+    .datetime({ message: "Format tanggal tidak valid" })
+    .or(z.date()),
+  amount: z
+    .number()
+    .positive("Jumlah harus lebih dari 0")
+    .max(999999999999, "Jumlah terlalu besar"),
+  type: z.enum(["INCOME", "EXPENSE"], {
+    errorMap: () => ({ message: "Tipe harus INCOME atau EXPENSE" }),
+  }),
+  description: z.string().max(500, "Deskripsi maksimal 500 karakter"),
+  externalId: z.string().max(255).nullable().optional(),
+  categoryId: z.string().min(1).nullable().optional(),
+});
+
+const CommitImportSchema = z.object({
+  walletId: z.string().min(1, "Wallet harus dipilih"),
+  fileName: z.string().max(255).optional(),
+  format: z.enum(["CSV", "OFX", "MT940"]).optional(),
+  defaultIncomeCategoryId: z.string().min(1).nullable().optional(),
+  defaultExpenseCategoryId: z.string().min(1).nullable().optional(),
+  rows: z
+    .array(ImportRowSchema)
+    .min(1, "Tidak ada transaksi untuk diimpor")
+    .max(2000, "Maksimal 2000 transaksi per impor"),
+});
+
+type CommitImportInput = z.infer<typeof CommitImportSchema>;
+
+/**
+ * POST /api/import/commit
+ *
+ * Save previewed statement rows as transactions of one wallet.
+ * Semua baris, saldo wallet, Budget.spent dan satu AuditLog batch
+ * disimpan dalam satu database transaction. Baris dengan externalId yang
+ * sudah pernah diimpor ke wallet yang sama, atau muncul lebih dari sekali
+ * di file, dilewati.
+ */
+export const POST = withAuth(async (request, { session }) => {
+  try {
+    const body = await request.json();
+    const validatedData: CommitImportInput = CommitImportSchema.parse(body);
+    const { walletId, rows } = validatedData;
+    const familyId = session.familyId;
+
+    const result = await prisma.$transaction(async (tx) => {
+      // 1. Verify wallet
+      const wallet = await tx.wallet.findUnique({
+        where: { id: walletId },
+        select: {
+          id: true,
+          familyId: true,
+          balance: true,
+          currency: true,
+          isArchived: true,
+        },
+      });
+
+      if (!wallet) {
+        throw new Error("Wallet tidak ditemukan");
+      }
+
+      if (wallet.familyId !== familyId) {
+        throw new Error("Wallet tidak milik keluarga Anda");
+      }
+
+      if (wallet.isArchived) {
+        throw new Error("Wallet sudah diarsipkan");
+      }
+
+      // 2. Verify categories belong to family
+      const categoryIds = new Set(
+        [
+          validatedData.defaultIncomeCategoryId,
+          validatedData.defaultExpenseCategoryId,
+          ...rows.map((row) => row.categoryId),
+        ].filter((id): id is string => !!id)
+      );
+
+      const categoryTypes = new Map<string, TransactionType>();
+      if (categoryIds.size > 0) {
+        const categories = await tx.category.findMany({
+          where: { id: { in: [...categoryIds] }, familyId },
+          select: { id: true, type: true },
+        });
+        if (categories.length !== categoryIds.size) {
+          throw new Error("Kategori tidak milik keluarga Anda");
+        }
+        for (const category of categories) {
+          categoryTypes.set(category.id, category.type);
+        }
+      }
+
+      // 3. Skip rows already imported (same bank reference), including
+      // repeats within this file
+      const externalIds = rows
+        .map((row) => row.externalId)
+        .filter((id): id is string => !!id);
+
+      const existing = externalIds.length
+        ? await tx.transaction.findMany({
+            where: {
+              familyId,
+              externalId: { in: externalIds },
+              OR: [{ fromWalletId: walletId }, { toWalletId: walletId }],
+            },
+            select: { externalId: true },
+          })
+        : [];
+      const seenIds = new Set(existing.map((t) => t.externalId));
+
+      const toImport = rows.filter((row) => {
+        if (!row.externalId) return true;
+        if (seenIds.has(row.externalId)) return false;
+        seenIds.add(row.externalId);
+        return true;
+      });
+
+      // 4. Apply categorization rules, then fall back to default categories
+      const rules = await getActiveRules(tx, familyId);
+      const importBatchId = nanoid();
+      const matchedRuleIds: Array<string | null> = [];
+
+      const data = toImport.map((row) => {
+        const categorized = applyRules(rules, {
+          type: row.type,
+          amount: row.amount,
+          description: row.description,
+          fromWalletId: walletId,
+          toWalletId: null,
+          userId: session.userId,
+          categoryId: row.categoryId,
+        });
+        matchedRuleIds.push(categorized.ruleId);
+
+        return {
+          amount: row.amount,
+          currency: wallet.currency,
+          type: row.type,
+          description: row.description,
+          notes: categorized.notes,
+          tags: categorized.tags,
+          date: typeof row.date === "string" ? new Date(row.date) : row.date,
+          externalId: row.externalId ?? null,
+          importBatchId,
+          categoryId:
+            categorized.categoryId ??
+            (row.type === "INCOME"
+              ? validatedData.defaultIncomeCategoryId
+              : validatedData.defaultExpenseCategoryId) ??
+            null,
+          fromWalletId: walletId,
+          userId: session.userId,
+          familyId,
+        };
+      });
+
+      // Kategori akhir (termasuk dari aturan) harus sesuai tipe barisnya
+      const ruleCategoryIds = [
+        ...new Set(data.map((row) => row.categoryId)),
+      ].filter((id): id is string => !!id && !categoryTypes.has(id));
+      if (ruleCategoryIds.length > 0) {
+        const categories = await tx.category.findMany({
+          where: { id: { in: ruleCategoryIds }, familyId },
+          select: { id: true, type: true },
+        });
+        for (const category of categories) {
+          categoryTypes.set(category.id, category.type);
+        }
+      }
+      for (const row of data) {
+        const categoryType = row.categoryId
+          ? categoryTypes.get(row.categoryId)
+          : null;
+        if (categoryType && categoryType !== row.type) {
+          throw new Error(
+            `Kategori ini untuk ${categoryType}, bukan ${row.type} (${row.description})`
+          );
+        }
+      }
+
+      // Anggota tetap dibatasi uang sakunya (dihitung untuk seluruh batch)
+      await assertMemberExpenseAllowed(
+        tx,
+        familyId,
+        session,
+        data
+          .filter((row) => row.type === "EXPENSE")
+          .map((row) => ({
+            amount: row.amount,
+            categoryId: row.categoryId,
+            walletId,
+            date: row.date,
+          }))
+      );
+
+      await tx.transaction.createMany({ data });
+      await recordRuleMatches(tx, matchedRuleIds);
+
+      // 5. Update wallet balance once with the net amount
+      const netAmount = sumMoney(data, (row) =>
+        row.type === "INCOME" ? row.amount : -row.amount
+      );
+
+      const updatedWallet = await tx.wallet.update({
+        where: { id: walletId },
+        data: { balance: { increment: netAmount } },
+        select: { balance: true },
+      });
+
+      // 6. Recompute budgets for every category/month touched
+      const budgetKeys = new Map<
+        string,
+        { type: "EXPENSE"; categoryId: string; date: Date }
+      >();
+      for (const row of data) {
+        if (row.type !== "EXPENSE" || !row.categoryId) continue;
+        const key = `${row.categoryId}:${row.date.getFullYear()}-${row.date.getMonth()}`;
+        budgetKeys.set(key, {
+          type: "EXPENSE",
+          categoryId: row.categoryId,
+          date: row.date,
+        });
+      }
+      for (const entry of budgetKeys.values()) {
+        await recalculateBudgetSpent(tx, familyId, entry);
+      }
+
+      // 7. One audit log entry for the whole batch
+      await tx.auditLog.create({
+        data: {
+          action: "IMPORT_TRANSACTIONS",
+          entityType: "ImportBatch",
+          entityId: importBatchId,
+          details: JSON.stringify({
+            walletId,
+            fileName: validatedData.fileName,
+            format: validatedData.format,
+            imported: data.length,
+            skipped: rows.length - data.length,
+            netAmount,
+            oldBalance: wallet.balance,
+            newBalance: updatedWallet.balance,
+          }),
+          userId: session.userId,
+          familyId,
+        },
+      });
+
+      return {
+        importBatchId,
+        imported: data.length,
+        skipped: rows.length - data.length,
+        wallet: {
+          id: walletId,
+          oldBalance: wallet.balance,
+          newBalance: updatedWallet.balance,
+        },
+      };
+    });
+
+    return NextResponse.json(
+      {
+        message: `${result.imported} transaksi berhasil diimpor`,
+        ...result,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("Import commit error:", error);
+
+    if (error instanceof z.ZodError) {
+      const firstError = error.errors[0];
+      return NextResponse.json(
+        {
+          error: firstError.message,
+          code: "VALIDATION_ERROR",
+          field: firstError.path.join("."),
+        },
+        { status: 400 }
+      );
+    }
+
+    if (
+      error instanceof Error &&
+      error.message.startsWith(MEMBER_EXPENSE_APPROVAL_ERROR)
+    ) {
+      return NextResponse.json(
+        { error: error.message, code: "APPROVAL_REQUIRED" },
+        { status: 403 }
+      );
+    }
+
+    if (
+      error instanceof Error &&
+      (error.message.includes("tidak ditemukan") ||
+        error.message.includes("tidak milik") ||
+        error.message.includes("diarsipkan") ||
+        error.message.includes("Kategori ini untuk"))
+    ) {
+      return NextResponse.json(
+        { error: error.message, code: "BUSINESS_LOGIC_ERROR" },
+        { status: 400 }
+      );
+    }
+
+    if (error && typeof error === "object" && "code" in error) {
+      const prismaError = PrismaErrorHandler.handle(error);
+      return NextResponse.json(
+        { error: prismaError.message, code: prismaError.code },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        error: "Terjadi kesalahan saat mengimpor transaksi",
+        code: "INTERNAL_ERROR",
+      },
+      { status: 500 }
+    );
+  }
+});
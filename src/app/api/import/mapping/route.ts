@@ -0,0 +1,125 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { prisma } from "@/lib/prisma";
+import { withAuth } from "@/lib/route-auth";
+import { importMappingSchema } from "@/lib/statement-import";
+
+const SaveMappingSchema = z.object({
+  walletId: z.string().min(1, "Wallet harus dipilih"),
+  mapping: importMappingSchema,
+});
+
+/**
+ * GET /api/import/mapping?walletId=xxx
+ *
+ * Get the saved CSV column mapping for a wallet
+ */
+export const GET = withAuth(async (request, { session }) => {
+  try {
+    const walletId = request.nextUrl.searchParams.get("walletId");
+    if (!walletId) {
+      return NextResponse.json(
+        { error: "walletId harus diisi", code: "VALIDATION_ERROR" },
+        { status: 400 }
+      );
+    }
+
+    const wallet = await prisma.wallet.findFirst({
+      where: { id: walletId, familyId: session.familyId },
+      include: { importMapping: true },
+    });
+
+    if (!wallet) {
+      return NextResponse.json(
+        { error: "Wallet tidak ditemukan", code: "NOT_FOUND" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ mapping: wallet.importMapping });
+  } catch (error) {
+    console.error("Get import mapping error:", error);
+
+    return NextResponse.json(
+      {
+        error: "Terjadi kesalahan saat mengambil pemetaan kolom",
+        code: "INTERNAL_ERROR",
+      },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * PUT /api/import/mapping
+ *
+ * Create or replace the CSV column mapping for a wallet
+ *
+ * @example
+ * ```typescript
+ * await fetch('/api/import/mapping', {
+ *   method: 'PUT',
+ *   body: JSON.stringify({
+ *     walletId: 'wallet-id',
+ *     mapping: {
+ *       dateColumn: 'Tanggal',
+ *       descriptionColumn: 'Keterangan',
+ *       debitColumn: 'Debet',
+ *       creditColumn: 'Kredit',
+ *       dateFormat: 'DD/MM/YYYY',
+ *     }
+ *   })
+ * });
+ * ```
+ */
+export const PUT = withAuth(async (request, { session }) => {
+  try {
+    const body = await request.json();
+    const { walletId, mapping } = SaveMappingSchema.parse(body);
+
+    const wallet = await prisma.wallet.findFirst({
+      where: { id: walletId, familyId: session.familyId },
+      select: { id: true },
+    });
+
+    if (!wallet) {
+      return NextResponse.json(
+        { error: "Wallet tidak ditemukan", code: "NOT_FOUND" },
+        { status: 404 }
+      );
+    }
+
+    const saved = await prisma.importMapping.upsert({
+      where: { walletId },
+      create: { ...mapping, walletId },
+      update: mapping,
+    });
+
+    return NextResponse.json({
+      message: "Pemetaan kolom berhasil disimpan",
+      mapping: saved,
+    });
+  } catch (error) {
+    console.error("Save import mapping error:", error);
+
+    if (error instanceof z.ZodError) {
+      const firstError = error.errors[0];
+      return NextResponse.json(
+        {
+          error: firstError.message,
+          code: "VALIDATION_ERROR",
+          field: firstError.path.join("."),
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        error: "Terjadi kesalahan saat menyimpan pemetaan kolom",
+        code: "INTERNAL_ERROR",
+      },
+      { status: 500 }
+    );
+  }
+});
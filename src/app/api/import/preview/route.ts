@@ -0,0 +1,173 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { prisma } from "@/lib/prisma";
+import { withAuth } from "@/lib/route-auth";
+import {
+  detectDuplicates,
+  detectStatementFormat,
+  importMappingSchema,
+  parseStatement,
+  StatementFormat,
+} from "@/lib/statement-import";
+
+const MAX_STATEMENT_SIZE = 5 * 1024 * 1024; // 5MB
+
+/**
+ * POST /api/import/preview
+ *
+ * Parse a bank statement and flag probable duplicates without saving anything
+ *
+ * Form data:
+ * - file: CSV, OFX/QFX or MT940 file
+ * - walletId: target wallet
+ * - format?: "CSV" | "OFX" | "MT940" (auto-detected if omitted)
+ * - mapping?: JSON column mapping for CSV (defaults to the wallet's saved mapping)
+ * - saveMapping?: "true" to store the given mapping for the wallet
+ */
+export const POST = withAuth(
+  { access: "read" },
+  async (request, { session }) => {
+    try {
+      const formData = await request.formData();
+      const file = formData.get("file") as File | null;
+      const walletId = formData.get("walletId") as string | null;
+      const formatParam = formData.get("format") as string | null;
+      const mappingParam = formData.get("mapping") as string | null;
+      const saveMapping = formData.get("saveMapping") === "true";
+
+      if (!file || !walletId) {
+        return NextResponse.json(
+          { error: "File dan wallet harus diisi", code: "VALIDATION_ERROR" },
+          { status: 400 }
+        );
+      }
+
+      // Menyimpan pemetaan adalah penulisan, tidak untuk API key hanya-baca
+      if (saveMapping && session.scope === "READ_ONLY") {
+        return NextResponse.json(
+          {
+            error: "Forbidden: API key is read-only",
+            code: "INSUFFICIENT_SCOPE",
+          },
+          { status: 403 }
+        );
+      }
+
+      if (file.size > MAX_STATEMENT_SIZE) {
+        return NextResponse.json(
+          { error: "Ukuran file maksimal 5MB", code: "FILE_TOO_LARGE" },
+          { status: 400 }
+        );
+      }
+
+      const wallet = await prisma.wallet.findFirst({
+        where: { id: walletId, familyId: session.familyId },
+        include: { importMapping: true },
+      });
+
+      if (!wallet) {
+        return NextResponse.json(
+          { error: "Wallet tidak ditemukan", code: "NOT_FOUND" },
+          { status: 404 }
+        );
+      }
+
+      const content = await file.text();
+      const format: StatementFormat =
+        formatParam === "CSV" ||
+        formatParam === "OFX" ||
+        formatParam === "MT940"
+          ? formatParam
+          : detectStatementFormat(file.name, content);
+
+      const mapping = mappingParam
+        ? importMappingSchema.parse(JSON.parse(mappingParam))
+        : wallet.importMapping
+          ? importMappingSchema.parse(wallet.importMapping)
+          : null;
+
+      let rows;
+      try {
+        rows = parseStatement(format, content, mapping);
+      } catch (parseError) {
+        // Parser errors describe the offending row/field
+        return NextResponse.json(
+          {
+            error:
+              parseError instanceof Error
+                ? parseError.message
+                : "File mutasi tidak dapat dibaca",
+            code: "PARSE_ERROR",
+          },
+          { status: 400 }
+        );
+      }
+
+      const preview = await detectDuplicates(
+        prisma,
+        session.familyId,
+        walletId,
+        rows
+      );
+
+      if (format === "CSV" && mappingParam && saveMapping && mapping) {
+        await prisma.importMapping.upsert({
+          where: { walletId },
+          create: { ...mapping, walletId },
+          update: mapping,
+        });
+      }
+
+      const summary = {
+        count: preview.length,
+        duplicates: preview.filter((row) => row.duplicate).length,
+        totalIncome: preview
+          .filter((row) => row.type === "INCOME")
+          .reduce((sum, row) => sum + row.amount, 0),
+        totalExpense: preview
+          .filter((row) => row.type === "EXPENSE")
+          .reduce((sum, row) => sum + row.amount, 0),
+      };
+
+      return NextResponse.json({
+        format,
+        fileName: file.name,
+        wallet: { id: wallet.id, name: wallet.name, balance: wallet.balance },
+        rows: preview,
+        summary,
+      });
+    } catch (error) {
+      console.error("Import preview error:", error);
+
+      if (error instanceof z.ZodError) {
+        const firstError = error.errors[0];
+        return NextResponse.json(
+          {
+            error: firstError.message,
+            code: "VALIDATION_ERROR",
+            field: firstError.path.join("."),
+          },
+          { status: 400 }
+        );
+      }
+
+      if (error instanceof SyntaxError) {
+        return NextResponse.json(
+          {
+            error: "Format pemetaan kolom tidak valid",
+            code: "VALIDATION_ERROR",
+          },
+          { status: 400 }
+        );
+      }
+
+      return NextResponse.json(
+        {
+          error: "Terjadi kesalahan saat membaca file mutasi",
+          code: "INTERNAL_ERROR",
+        },
+        { status: 500 }
+      );
+    }
+  }
+);
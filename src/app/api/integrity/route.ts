@@ -0,0 +1,98 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { withAuth } from '@/lib/route-auth';
+import { PrismaErrorHandler } from '@/lib/prisma-helpers';
+import { checkFamilyIntegrity, repairDiscrepancies } from '@/lib/integrity';
+
+/**
+ * GET /api/integrity
+ *
+ * Check the family's denormalized balances (ADMIN only): Wallet.balance,
+ * Budget.spent and Goal.currentAmount recomputed from transactions and goal
+ * contributions. Read-only.
+ *
+ * @example
+ * ```typescript
+ * const response = await fetch('/api/integrity');
+ * const { discrepancies } = await response.json();
+ * ```
+ */
+export const GET = withAuth(
+  { roles: ['ADMIN'] },
+  async (request, { session }) => {
+    try {
+      const report = await checkFamilyIntegrity(prisma, session.familyId);
+
+      return NextResponse.json(report);
+    } catch (error) {
+      console.error('Check integrity error:', error);
+
+      return NextResponse.json(
+        {
+          error: 'Terjadi kesalahan saat memeriksa integritas saldo',
+          code: 'INTERNAL_ERROR',
+        },
+        { status: 500 }
+      );
+    }
+  }
+);
+
+/**
+ * POST /api/integrity
+ *
+ * Re-run the check and repair every discrepancy found (ADMIN only). Each
+ * repaired record gets a REPAIR_BALANCE audit log entry.
+ *
+ * @example
+ * ```typescript
+ * const response = await fetch('/api/integrity', { method: 'POST' });
+ * const { repaired, discrepancies } = await response.json();
+ * ```
+ */
+export const POST = withAuth(
+  { roles: ['ADMIN'] },
+  async (request, { session }) => {
+    try {
+      const familyId = session.familyId;
+
+      // Cek ulang di dalam transaksi: jangan perbaiki hasil cek yang sudah basi
+      const result = await prisma.$transaction(async (tx) => {
+        const report = await checkFamilyIntegrity(tx, familyId);
+        const repaired = await repairDiscrepancies(
+          tx,
+          familyId,
+          session.userId,
+          report.discrepancies
+        );
+        return { ...report, repaired };
+      });
+
+      return NextResponse.json({
+        message:
+          result.repaired > 0
+            ? `${result.repaired} saldo berhasil diperbaiki`
+            : 'Semua saldo sudah sesuai',
+        ...result,
+      });
+    } catch (error) {
+      console.error('Repair integrity error:', error);
+
+      if (error && typeof error === 'object' && 'code' in error) {
+        const prismaError = PrismaErrorHandler.handle(error);
+        return NextResponse.json(
+          { error: prismaError.message, code: prismaError.code },
+          { status: 400 }
+        );
+      }
+
+      return NextResponse.json(
+        {
+          error: 'Terjadi kesalahan saat memperbaiki saldo',
+          code: 'INTERNAL_ERROR',
+        },
+        { status: 500 }
+      );
+    }
+  }
+);
@@ -1,317 +1,357 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextResponse } from 'next/server';
 import { z } from 'zod';
 import { prisma } from '@/lib/prisma';
-import { requireAuth, requireFamily, validateFamilyAccess } from '@/lib/auth';
+import { validateFamilyAccess } from '@/lib/auth';
+import { withAuth } from '@/lib/route-auth';
 import { PrismaErrorHandler } from '@/lib/prisma-helpers';
+import { createApprovalRequest, requiresApproval } from '@/lib/approvals';
+import { deleteLiability } from '@/lib/liabilities';
+import { rateScheduleSchema, sortRatePeriods } from '@/lib/liability-rates';
+import {
+  creditCardSettingsSchema,
+  hasCreditCardSettings,
+} from '@/lib/credit-cards';
 
 /**
  * Liability Update Schema
  */
-const UpdateLiabilitySchema = z.object({
-  name: z
-    .string()
-    .min(1, 'Nama hutang tidak boleh kosong')
-    .max(200, 'Nama hutang maksimal 200 karakter')
-    .trim()
-    .optional(),
-  type: z
-    .enum(['MORTGAGE', 'CAR_LOAN', 'CREDIT_CARD', 'PERSONAL_LOAN', 'OTHER'], {
-      errorMap: () => ({ message: 'Tipe hutang tidak valid' }),
-    })
-    .optional(),
-  amount: z
-    .number()
-    .nonnegative('Jumlah hutang tidak boleh negatif')
-    .max(999999999999, 'Jumlah hutang terlalu besar')
-    .optional(),
-  remainingAmount: z
-    .number()
-    .nonnegative('Sisa hutang tidak boleh negatif')
-    .max(999999999999, 'Sisa hutang terlalu besar')
-    .optional(),
-  interestRate: z
-    .number()
-    .nonnegative('Suku bunga tidak boleh negatif')
-    .max(100, 'Suku bunga maksimal 100%')
-    .optional()
-    .nullable(),
-  description: z
-    .string()
-    .max(500, 'Deskripsi maksimal 500 karakter')
-    .optional()
-    .nullable(),
-  creditor: z
-    .string()
-    .max(200, 'Nama kreditor maksimal 200 karakter')
-    .optional()
-    .nullable(),
-  startDate: z
-    .string()
-    .datetime({ message: 'Format tanggal tidak valid' })
-    .or(z.date())
-    .optional()
-    .nullable(),
-  dueDate: z
-    .string()
-    .datetime({ message: 'Format tanggal tidak valid' })
-    .or(z.date())
-    .optional()
-    .nullable(),
-});
+const UpdateLiabilitySchema = z
+  .object({
+    name: z
+      .string()
+      .min(1, 'Nama hutang tidak boleh kosong')
+      .max(200, 'Nama hutang maksimal 200 karakter')
+      .trim()
+      .optional(),
+    type: z
+      .enum(['MORTGAGE', 'CAR_LOAN', 'CREDIT_CARD', 'PERSONAL_LOAN', 'OTHER'], {
+        errorMap: () => ({ message: 'Tipe hutang tidak valid' }),
+      })
+      .optional(),
+    amount: z
+      .number()
+      .nonnegative('Jumlah hutang tidak boleh negatif')
+      .max(999999999999, 'Jumlah hutang terlalu besar')
+      .optional(),
+    remainingAmount: z
+      .number()
+      .nonnegative('Sisa hutang tidak boleh negatif')
+      .max(999999999999, 'Sisa hutang terlalu besar')
+      .optional(),
+    interestRate: z
+      .number()
+      .nonnegative('Suku bunga tidak boleh negatif')
+      .max(100, 'Suku bunga maksimal 100%')
+      .optional()
+      .nullable(),
+    description: z
+      .string()
+      .max(500, 'Deskripsi maksimal 500 karakter')
+      .optional()
+      .nullable(),
+    creditor: z
+      .string()
+      .max(200, 'Nama kreditor maksimal 200 karakter')
+      .optional()
+      .nullable(),
+    startDate: z
+      .string()
+      .datetime({ message: 'Format tanggal tidak valid' })
+      .or(z.date())
+      .optional()
+      .nullable(),
+    dueDate: z
+      .string()
+      .datetime({ message: 'Format tanggal tidak valid' })
+      .or(z.date())
+      .optional()
+      .nullable(),
+    // Jadwal bunga (promo/floating); menggantikan seluruh jadwal lama
+    rateSchedule: rateScheduleSchema.optional().nullable(),
+  })
+  .merge(creditCardSettingsSchema);
 
 type UpdateLiabilityInput = z.infer<typeof UpdateLiabilitySchema>;
 
 /**
  * PUT /api/liabilities/[id]
- * 
+ *
  * Update a liability
  */
-export async function PUT(
-  request: NextRequest,
-  props: { params: Promise<{ id: string }> }
-) {
-  const params = await props.params;
-  try {
-    // Get current session
-    const session = await requireAuth();
-    
-    // Ensure user has a family
-    await requireFamily(session);
+export const PUT = withAuth<{ id: string }>(
+  async (request, { session, params }) => {
+    const { id } = await params;
+    try {
+      // Find liability
+      const liability = await prisma.liability.findUnique({
+        where: { id },
+        select: {
+          id: true,
+          familyId: true,
+          type: true,
+          amount: true,
+          remainingAmount: true,
+        },
+      });
 
-    const { id } = params;
+      if (!liability) {
+        return NextResponse.json(
+          {
+            error: 'Hutang tidak ditemukan',
+            code: 'NOT_FOUND',
+          },
+          { status: 404 }
+        );
+      }
 
-    // Find liability
-    const liability = await prisma.liability.findUnique({
-      where: { id },
-      select: { id: true, familyId: true, amount: true, remainingAmount: true },
-    });
+      // Validate family access
+      await validateFamilyAccess(session, liability.familyId);
 
-    if (!liability) {
-      return NextResponse.json(
-        {
-          error: 'Hutang tidak ditemukan',
-          code: 'NOT_FOUND',
-        },
-        { status: 404 }
-      );
-    }
+      // Parse and validate request body
+      const body = await request.json();
+      const validatedData: UpdateLiabilityInput =
+        UpdateLiabilitySchema.parse(body);
 
-    // Validate family access
-    await validateFamilyAccess(session, liability.familyId);
+      // Validate that remainingAmount <= amount
+      const newAmount = validatedData.amount ?? liability.amount;
+      const newRemainingAmount =
+        validatedData.remainingAmount ?? liability.remainingAmount;
 
-    // Parse and validate request body
-    const body = await request.json();
-    const validatedData: UpdateLiabilityInput = UpdateLiabilitySchema.parse(body);
+      if (newRemainingAmount > newAmount) {
+        return NextResponse.json(
+          {
+            error: 'Sisa hutang tidak boleh lebih besar dari jumlah hutang',
+            code: 'VALIDATION_ERROR',
+            field: 'remainingAmount',
+          },
+          { status: 400 }
+        );
+      }
 
-    // Validate that remainingAmount <= amount
-    const newAmount = validatedData.amount ?? liability.amount;
-    const newRemainingAmount = validatedData.remainingAmount ?? liability.remainingAmount;
-    
-    if (newRemainingAmount > newAmount) {
-      return NextResponse.json(
-        {
-          error: 'Sisa hutang tidak boleh lebih besar dari jumlah hutang',
-          code: 'VALIDATION_ERROR',
-          field: 'remainingAmount',
-        },
-        { status: 400 }
-      );
-    }
+      // Siklus tagihan & limit hanya untuk kartu kredit
+      const newType = validatedData.type ?? liability.type;
+      if (newType !== 'CREDIT_CARD' && hasCreditCardSettings(validatedData)) {
+        return NextResponse.json(
+          {
+            error: 'Pengaturan tagihan hanya untuk hutang kartu kredit',
+            code: 'VALIDATION_ERROR',
+            field: 'type',
+          },
+          { status: 400 }
+        );
+      }
 
-    // Convert date strings to Date objects if provided
-    let startDate = undefined;
-    if (validatedData.startDate !== undefined) {
-      if (validatedData.startDate === null) {
-        startDate = null;
-      } else if (typeof validatedData.startDate === 'string') {
-        startDate = new Date(validatedData.startDate);
-      } else {
-        startDate = validatedData.startDate;
+      // Convert date strings to Date objects if provided
+      let startDate = undefined;
+      if (validatedData.startDate !== undefined) {
+        if (validatedData.startDate === null) {
+          startDate = null;
+        } else if (typeof validatedData.startDate === 'string') {
+          startDate = new Date(validatedData.startDate);
+        } else {
+          startDate = validatedData.startDate;
+        }
       }
-    }
 
-    let dueDate = undefined;
-    if (validatedData.dueDate !== undefined) {
-      if (validatedData.dueDate === null) {
-        dueDate = null;
-      } else if (typeof validatedData.dueDate === 'string') {
-        dueDate = new Date(validatedData.dueDate);
-      } else {
-        dueDate = validatedData.dueDate;
+      let dueDate = undefined;
+      if (validatedData.dueDate !== undefined) {
+        if (validatedData.dueDate === null) {
+          dueDate = null;
+        } else if (typeof validatedData.dueDate === 'string') {
+          dueDate = new Date(validatedData.dueDate);
+        } else {
+          dueDate = validatedData.dueDate;
+        }
       }
-    }
 
-    // Update liability
-    const updatedLiability = await prisma.liability.update({
-      where: { id },
-      data: {
-        ...validatedData,
-        startDate,
-        dueDate,
-      },
-    });
+      // Update liability (jadwal bunga diganti seluruhnya jika dikirim)
+      const { rateSchedule, ...liabilityData } = validatedData;
+      const updatedLiability = await prisma.liability.update({
+        where: { id },
+        data: {
+          ...liabilityData,
+          startDate,
+          dueDate,
+          ...(rateSchedule !== undefined && {
+            rates: {
+              deleteMany: {},
+              create: sortRatePeriods(rateSchedule ?? []),
+            },
+          }),
+        },
+        include: {
+          rates: { orderBy: { startMonth: 'asc' } },
+        },
+      });
 
-    // Create audit log
-    await prisma.auditLog.create({
-      data: {
-        action: 'UPDATE_LIABILITY',
-        entityType: 'Liability',
-        entityId: id,
-        details: JSON.stringify(validatedData),
-        userId: session.userId,
-        familyId: session.familyId!,
-      },
-    });
+      // Create audit log
+      await prisma.auditLog.create({
+        data: {
+          action: 'UPDATE_LIABILITY',
+          entityType: 'Liability',
+          entityId: id,
+          details: JSON.stringify(validatedData),
+          userId: session.userId,
+          familyId: session.familyId,
+        },
+      });
 
-    return NextResponse.json({
-      message: 'Hutang berhasil diperbarui',
-      liability: updatedLiability,
-    });
-  } catch (error) {
-    console.error('Update liability error:', error);
+      return NextResponse.json({
+        message: 'Hutang berhasil diperbarui',
+        liability: updatedLiability,
+      });
+    } catch (error) {
+      console.error('Update liability error:', error);
 
-    // Handle Zod validation errors
-    if (error instanceof z.ZodError) {
-      const firstError = error.errors[0];
-      return NextResponse.json(
-        {
-          error: firstError.message,
-          code: 'VALIDATION_ERROR',
-          field: firstError.path.join('.'),
-        },
-        { status: 400 }
-      );
-    }
+      // Handle Zod validation errors
+      if (error instanceof z.ZodError) {
+        const firstError = error.errors[0];
+        return NextResponse.json(
+          {
+            error: firstError.message,
+            code: 'VALIDATION_ERROR',
+            field: firstError.path.join('.'),
+          },
+          { status: 400 }
+        );
+      }
 
-    // Handle authorization errors
-    if (error instanceof Error && (error.message.includes('required') || error.message.includes('denied'))) {
-      return NextResponse.json(
-        {
-          error: error.message,
-          code: 'UNAUTHORIZED',
-        },
-        { status: 401 }
-      );
-    }
+      // Handle family access errors
+      if (error instanceof Error && error.message.includes('denied')) {
+        return NextResponse.json(
+          {
+            error: error.message,
+            code: 'FORBIDDEN',
+          },
+          { status: 403 }
+        );
+      }
+
+      // Handle Prisma errors
+      if (error && typeof error === 'object' && 'code' in error) {
+        const prismaError = PrismaErrorHandler.handle(error);
+        return NextResponse.json(
+          {
+            error: prismaError.message,
+            code: prismaError.code,
+          },
+          { status: 400 }
+        );
+      }
 
-    // Handle Prisma errors
-    if (error && typeof error === 'object' && 'code' in error) {
-      const prismaError = PrismaErrorHandler.handle(error);
+      // Handle generic errors
       return NextResponse.json(
         {
-          error: prismaError.message,
-          code: prismaError.code,
+          error: 'Terjadi kesalahan saat memperbarui hutang',
+          code: 'INTERNAL_ERROR',
         },
-        { status: 400 }
+        { status: 500 }
       );
     }
-
-    // Handle generic errors
-    return NextResponse.json(
-      {
-        error: 'Terjadi kesalahan saat memperbarui hutang',
-        code: 'INTERNAL_ERROR',
-      },
-      { status: 500 }
-    );
   }
-}
+);
 
 /**
  * DELETE /api/liabilities/[id]
- * 
- * Delete a liability
+ *
+ * Delete a liability. Jika kebijakan keluarga mewajibkan persetujuan, penghapusan
+ * disimpan sebagai permintaan persetujuan dan dikembalikan 202.
  */
-export async function DELETE(
-  request: NextRequest,
-  props: { params: Promise<{ id: string }> }
-) {
-  const params = await props.params;
-  try {
-    // Get current session
-    const session = await requireAuth();
-    
-    // Ensure user has a family
-    await requireFamily(session);
+export const DELETE = withAuth<{ id: string }>(
+  async (request, { session, params }) => {
+    const { id } = await params;
+    try {
+      // Find liability
+      const liability = await prisma.liability.findUnique({
+        where: { id },
+        select: {
+          id: true,
+          familyId: true,
+          name: true,
+          amount: true,
+          remainingAmount: true,
+        },
+      });
 
-    const { id } = params;
+      if (!liability) {
+        return NextResponse.json(
+          {
+            error: 'Hutang tidak ditemukan',
+            code: 'NOT_FOUND',
+          },
+          { status: 404 }
+        );
+      }
 
-    // Find liability
-    const liability = await prisma.liability.findUnique({
-      where: { id },
-      select: { id: true, familyId: true, name: true, amount: true, remainingAmount: true },
-    });
+      // Validate family access
+      await validateFamilyAccess(session, liability.familyId);
 
-    if (!liability) {
-      return NextResponse.json(
-        {
-          error: 'Hutang tidak ditemukan',
-          code: 'NOT_FOUND',
-        },
-        { status: 404 }
-      );
-    }
+      // Hapus hutang perlu persetujuan admin lain jika diatur kebijakan keluarga
+      if (
+        await requiresApproval(prisma, session.familyId, session.userId, {
+          type: 'DELETE_LIABILITY',
+        })
+      ) {
+        const approvalRequest = await prisma.$transaction((tx) =>
+          createApprovalRequest(tx, {
+            familyId: session.familyId,
+            type: 'DELETE_LIABILITY',
+            requestedById: session.userId,
+            description: `Hapus hutang ${liability.name}`,
+            payload: { id },
+          })
+        );
 
-    // Validate family access
-    await validateFamilyAccess(session, liability.familyId);
+        return NextResponse.json(
+          {
+            approvalRequest,
+            message: 'Penghapusan hutang menunggu persetujuan admin',
+          },
+          { status: 202 }
+        );
+      }
 
-    // Delete liability
-    await prisma.liability.delete({
-      where: { id },
-    });
+      await prisma.$transaction((tx) =>
+        deleteLiability(tx, session.familyId, session.userId, id)
+      );
 
-    // Create audit log
-    await prisma.auditLog.create({
-      data: {
-        action: 'DELETE_LIABILITY',
-        entityType: 'Liability',
-        entityId: id,
-        details: JSON.stringify({
-          name: liability.name,
-          amount: liability.amount,
-          remainingAmount: liability.remainingAmount,
-        }),
-        userId: session.userId,
-        familyId: session.familyId!,
-      },
-    });
+      return NextResponse.json({
+        message: 'Hutang berhasil dihapus',
+      });
+    } catch (error) {
+      console.error('Delete liability error:', error);
 
-    return NextResponse.json({
-      message: 'Hutang berhasil dihapus',
-    });
-  } catch (error) {
-    console.error('Delete liability error:', error);
+      // Handle family access errors
+      if (error instanceof Error && error.message.includes('denied')) {
+        return NextResponse.json(
+          {
+            error: error.message,
+            code: 'FORBIDDEN',
+          },
+          { status: 403 }
+        );
+      }
 
-    // Handle authorization errors
-    if (error instanceof Error && (error.message.includes('required') || error.message.includes('denied'))) {
-      return NextResponse.json(
-        {
-          error: error.message,
-          code: 'UNAUTHORIZED',
-        },
-        { status: 401 }
-      );
-    }
+      // Handle Prisma errors
+      if (error && typeof error === 'object' && 'code' in error) {
+        const prismaError = PrismaErrorHandler.handle(error);
+        return NextResponse.json(
+          {
+            error: prismaError.message,
+            code: prismaError.code,
+          },
+          { status: 400 }
+        );
+      }
 
-    // Handle Prisma errors
-    if (error && typeof error === 'object' && 'code' in error) {
-      const prismaError = PrismaErrorHandler.handle(error);
+      // Handle generic errors
       return NextResponse.json(
         {
-          error: prismaError.message,
-          code: prismaError.code,
+          error: 'Terjadi kesalahan saat menghapus hutang',
+          code: 'INTERNAL_ERROR',
         },
-        { status: 400 }
+        { status: 500 }
       );
     }
-
-    // Handle generic errors
-    return NextResponse.json(
-      {
-        error: 'Terjadi kesalahan saat menghapus hutang',
-        code: 'INTERNAL_ERROR',
-      },
-      { status: 500 }
-    );
   }
-}
+);
@@ -0,0 +1,102 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { withAuth } from '@/lib/route-auth';
+import {
+  creditCardSelect,
+  getCardStatement,
+  getUtilization,
+} from '@/lib/credit-cards';
+
+const statementQuerySchema = z.object({
+  cycle: z.coerce
+    .number({ invalid_type_error: 'Siklus harus berupa angka' })
+    .int('Siklus harus bilangan bulat')
+    .min(0, 'Siklus tidak boleh negatif')
+    .max(24, 'Siklus maksimal 24 bulan ke belakang')
+    .default(1),
+});
+
+/**
+ * GET /api/liabilities/[id]/statement
+ *
+ * Credit card statement: opening balance, purchases, refunds, payments,
+ * closing balance and minimum due for one statement cycle
+ *
+ * Query params:
+ * - cycle?: 0 = siklus berjalan, 1 = tagihan terakhir (default), 2 = sebelumnya, dst.
+ *
+ * @example
+ * ```typescript
+ * const response = await fetch(`/api/liabilities/${cardId}/statement?cycle=1`);
+ * const { statement } = await response.json();
+ * ```
+ */
+export const GET = withAuth<{ id: string }>(
+  async (request, { session, params }) => {
+    const { id } = await params;
+    try {
+      const { cycle } = statementQuerySchema.parse({
+        cycle: request.nextUrl.searchParams.get('cycle') ?? undefined,
+      });
+
+      const card = await prisma.liability.findFirst({
+        where: { id, familyId: session.familyId },
+        select: creditCardSelect,
+      });
+
+      if (!card) {
+        return NextResponse.json(
+          { error: 'Hutang tidak ditemukan', code: 'NOT_FOUND' },
+          { status: 404 }
+        );
+      }
+
+      if (card.type !== 'CREDIT_CARD') {
+        return NextResponse.json(
+          {
+            error: 'Tagihan hanya tersedia untuk kartu kredit',
+            code: 'BUSINESS_LOGIC_ERROR',
+          },
+          { status: 400 }
+        );
+      }
+
+      const statement = await getCardStatement(prisma, card, cycle);
+
+      return NextResponse.json({
+        statement,
+        utilization: getUtilization(card),
+      });
+    } catch (error) {
+      console.error('Get card statement error:', error);
+
+      if (error instanceof z.ZodError) {
+        const firstError = error.errors[0];
+        return NextResponse.json(
+          {
+            error: firstError.message,
+            code: 'VALIDATION_ERROR',
+            field: firstError.path.join('.'),
+          },
+          { status: 400 }
+        );
+      }
+
+      if (error instanceof Error && error.message.includes('belum diatur')) {
+        return NextResponse.json(
+          { error: error.message, code: 'BUSINESS_LOGIC_ERROR' },
+          { status: 400 }
+        );
+      }
+
+      return NextResponse.json(
+        {
+          error: 'Terjadi kesalahan saat mengambil tagihan kartu kredit',
+          code: 'INTERNAL_ERROR',
+        },
+        { status: 500 }
+      );
+    }
+  }
+);
@@ -1,31 +1,32 @@
-import { NextRequest, NextResponse } from "next/server";
+import { NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
-import { verifyToken } from "@/lib/auth";
+import { withAuth } from "@/lib/route-auth";
+import {
+  getAccruedInterest,
+  getCurrentAnnualRate,
+  getNextRateChange,
+} from "@/lib/liability-rates";
+import {
+  getCardPaymentDue,
+  getUtilization,
+  UTILIZATION_HIGH,
+  UTILIZATION_WARNING,
+} from "@/lib/credit-cards";
 
 /**
  * GET /api/liabilities/due-date-reminders
  * Get upcoming payment reminders and overdue alerts
+ * Includes upcoming rate changes from the liability rate schedule, and
+ * statement due dates and credit limit utilization for credit cards
  * Query params:
  * - daysAhead: number (default: 30)
  */
-export async function GET(request: NextRequest) {
+export const GET = withAuth(async (request, { session }) => {
   try {
-    const token = request.cookies.get("auth-token")?.value;
-    if (!token) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-    const user = await verifyToken(token);
-    if (!user || !user.familyId) {
-      return NextResponse.json(
-        { error: "Unauthorized or no family" },
-        { status: 401 }
-      );
-    }
-
     const { searchParams } = new URL(request.url);
     const daysAhead = parseInt(searchParams.get("daysAhead") || "30");
 
-    const familyId = user.familyId!;
+    const familyId = session.familyId;
     const today = new Date();
     today.setHours(0, 0, 0, 0);
 
@@ -43,16 +44,44 @@ export async function GET(request: NextRequest) {
           orderBy: { paymentDate: "desc" },
           take: 5,
         },
+        rates: true,
       },
       orderBy: { dueDate: "asc" },
     })) as any[];
 
+    // Credit cards with a statement cycle: due date follows the statement
+    const cardDues = new Map(
+      await Promise.all(
+        liabilities
+          .filter(
+            (liability) =>
+              liability.type === "CREDIT_CARD" && liability.statementDay
+          )
+          .map(
+            async (liability) =>
+              [
+                liability.id,
+                await getCardPaymentDue(prisma, liability),
+              ] as const
+          )
+      )
+    );
+
     // Calculate reminders
     const reminders = liabilities.map((liability: any) => {
-      const dueDate = liability.dueDate ? new Date(liability.dueDate) : null;
+      const cardDue = cardDues.get(liability.id) ?? null;
+      const utilization =
+        liability.type === "CREDIT_CARD" ? getUtilization(liability) : null;
+      const dueDate = cardDue
+        ? cardDue.dueDate
+        : liability.dueDate
+          ? new Date(liability.dueDate)
+          : null;
       const monthlyPayment = Number(liability.monthlyPayment || 0);
       const remainingAmount = Number(liability.remainingAmount);
-      const interestRate = Number(liability.interestRate || 0);
+      // Bunga yang berlaku hari ini sesuai jadwal bunga
+      const interestRate = getCurrentAnnualRate(liability, today);
+      const nextRateChange = getNextRateChange(liability, today);
 
       // Calculate days until due
       let daysUntilDue: number | null = null;
@@ -97,14 +126,22 @@ export async function GET(request: NextRequest) {
       let interestAccrued = 0;
       if ((liability as any).payments.length > 0 && interestRate > 0) {
         const lastPayment = (liability as any).payments[0];
-        const daysSinceLastPayment = Math.ceil(
-          (today.getTime() - new Date(lastPayment.paymentDate).getTime()) /
-            (1000 * 60 * 60 * 24)
+        interestAccrued = getAccruedInterest(
+          liability,
+          remainingAmount,
+          new Date(lastPayment.paymentDate),
+          today
         );
-        interestAccrued =
-          (remainingAmount * (interestRate / 100) * daysSinceLastPayment) / 365;
       }
 
+      // Days until the next scheduled rate change (misal promo KPR habis)
+      const daysUntilRateChange = nextRateChange
+        ? Math.ceil(
+            (nextRateChange.date.getTime() - today.getTime()) /
+              (1000 * 60 * 60 * 24)
+          )
+        : null;
+
       // Payment recommendations
       const recommendations: string[] = [];
       if (isOverdue) {
@@ -129,8 +166,59 @@ export async function GET(request: NextRequest) {
         );
       }
 
+      if (cardDue && cardDue.minimumDue > 0) {
+        recommendations.push(
+          `💳 Statement balance Rp ${cardDue.statementBalance.toLocaleString()}, minimum payment Rp ${cardDue.minimumDue.toLocaleString()}. Pay in full to avoid interest.`
+        );
+      }
+
+      // Credit limit utilization
+      if (utilization !== null) {
+        if (utilization >= 100) {
+          recommendations.push(
+            `🚨 Credit limit exceeded (${utilization.toFixed(1)}% used). New purchases may be declined.`
+          );
+        } else if (utilization >= UTILIZATION_HIGH) {
+          recommendations.push(
+            `⚠️ ${utilization.toFixed(1)}% of your credit limit is used. Reduce card spending.`
+          );
+        } else if (utilization >= UTILIZATION_WARNING) {
+          recommendations.push(
+            `💡 ${utilization.toFixed(1)}% of your credit limit is used. Keep it below ${UTILIZATION_WARNING}%.`
+          );
+        }
+
+        if (utilization >= UTILIZATION_HIGH && urgencyLevel !== "critical") {
+          urgencyLevel = utilization >= 100 ? "critical" : "high";
+        }
+      }
+
+      if (
+        nextRateChange &&
+        daysUntilRateChange !== null &&
+        daysUntilRateChange <= daysAhead
+      ) {
+        recommendations.push(
+          `📈 Interest rate changes from ${interestRate}% to ${nextRateChange.annualRate}% in ${daysUntilRateChange} days. Review your payment plan.`
+        );
+      }
+
       // Notification settings
       const notifications: any[] = [];
+      if (utilization !== null && utilization >= UTILIZATION_HIGH) {
+        notifications.push({
+          type: "credit_utilization",
+          message: `${liability.name} is at ${utilization.toFixed(1)}% of its credit limit`,
+          priority: utilization >= 100 ? "critical" : "high",
+        });
+      }
+      if (nextRateChange && daysUntilRateChange === 30) {
+        notifications.push({
+          type: "rate_change",
+          message: `Interest rate for ${liability.name} changes to ${nextRateChange.annualRate}% in 30 days`,
+          priority: "medium",
+        });
+      }
       if (daysUntilDue !== null) {
         if (daysUntilDue === 0) {
           notifications.push({
@@ -169,12 +257,22 @@ export async function GET(request: NextRequest) {
         remainingAmount,
         monthlyPayment,
         interestRate,
-        dueDate: liability.dueDate,
+        dueDate,
         daysUntilDue,
         isOverdue,
         urgencyLevel,
         estimatedNextPaymentDate,
         interestAccrued,
+        nextRateChange,
+        creditCard:
+          liability.type === "CREDIT_CARD"
+            ? {
+                creditLimit: liability.creditLimit,
+                utilization,
+                statementBalance: cardDue?.statementBalance ?? null,
+                minimumDue: cardDue?.minimumDue ?? null,
+              }
+            : null,
         lastPaymentDate:
           (liability as any).payments.length > 0
             ? (liability as any).payments[0].paymentDate
@@ -198,6 +296,11 @@ export async function GET(request: NextRequest) {
         .length,
       highPriorityReminders: reminders.filter((r) => r.urgencyLevel === "high")
         .length,
+      creditCardsOverUtilized: reminders.filter(
+        (r) =>
+          r.creditCard?.utilization != null &&
+          r.creditCard.utilization >= UTILIZATION_HIGH
+      ).length,
       upcomingPaymentsIn7Days: reminders.filter(
         (r) =>
           r.daysUntilDue !== null && r.daysUntilDue >= 0 && r.daysUntilDue <= 7
@@ -243,4 +346,4 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
@@ -1,30 +1,25 @@
-import { NextRequest, NextResponse } from "next/server";
+import { NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
-import { verifyToken } from "@/lib/auth";
+import { withAuth } from "@/lib/route-auth";
+import { addMoney, multiplyMoney, subtractMoney } from "@/lib/money";
+import {
+  createMonthlyRateFn,
+  getCurrentAnnualRate,
+  MonthlyRateFn,
+} from "@/lib/liability-rates";
 
 /**
  * GET /api/liabilities/early-payment
  * Calculate impact of early/extra payments
+ * Honors the liability rate schedule (promo/floating periods)
  * Query params:
  * - liabilityId: string (required)
  * - oneTimePayment: number (optional) - One-time extra payment
  * - recurringExtraPayment: number (optional) - Extra payment per month
  * - yearlyBonusPayment: number (optional) - Annual bonus payment
  */
-export async function GET(request: NextRequest) {
+export const GET = withAuth(async (request, { session }) => {
   try {
-    const token = request.cookies.get("auth-token")?.value;
-    if (!token) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-    const user = await verifyToken(token);
-    if (!user || !user.familyId) {
-      return NextResponse.json(
-        { error: "Unauthorized or no family" },
-        { status: 401 }
-      );
-    }
-
     const { searchParams } = new URL(request.url);
     const liabilityId = searchParams.get("liabilityId");
     const oneTimePayment = parseFloat(
@@ -44,11 +39,12 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    const familyId = user.familyId!;
+    const familyId = session.familyId;
 
     // Fetch liability
     const liability = await prisma.liability.findFirst({
       where: { id: liabilityId, familyId },
+      include: { rates: true },
     });
 
     if (!liability) {
@@ -69,13 +65,14 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    const monthlyRate = interestRate / 100 / 12;
+    // Bunga bulanan per bulan simulasi (mengikuti jadwal bunga)
+    const rateAt = createMonthlyRateFn(liability);
 
     // Helper function to calculate payoff with extra payments
     function calculatePayoff(
       principal: number,
       monthlyPayment: number,
-      monthlyInterestRate: number,
+      rateAt: MonthlyRateFn,
       oneTime: number = 0,
       recurringExtra: number = 0,
       yearlyBonus: number = 0
@@ -88,8 +85,8 @@ export async function GET(request: NextRequest) {
 
       // Apply one-time payment immediately
       if (oneTime > 0) {
-        balance = Math.max(0, balance - oneTime);
-        totalPaid += oneTime;
+        balance = Math.max(0, subtractMoney(balance, oneTime));
+        totalPaid = addMoney(totalPaid, oneTime);
         schedule.push({
           month: 0,
           type: "one-time",
@@ -100,24 +97,27 @@ export async function GET(request: NextRequest) {
         });
       }
 
-      while (balance > 0.01 && month < 600) {
+      while (balance > 0 && month < 600) {
         month++;
-        const interestCharge = balance * monthlyInterestRate;
+        const interestCharge = multiplyMoney(balance, rateAt(month));
 
         // Calculate payment for this month
-        let payment = monthlyPayment + recurringExtra;
+        let payment = addMoney(monthlyPayment, recurringExtra);
 
         // Add yearly bonus (every 12 months)
         if (yearlyBonus > 0 && month % 12 === 0) {
-          payment += yearlyBonus;
+          payment = addMoney(payment, yearlyBonus);
         }
 
-        const principalPayment = Math.min(payment - interestCharge, balance);
-        const actualPayment = interestCharge + principalPayment;
+        const principalPayment = Math.min(
+          subtractMoney(payment, interestCharge),
+          balance
+        );
+        const actualPayment = addMoney(interestCharge, principalPayment);
 
-        balance = Math.max(0, balance - principalPayment);
-        totalInterest += interestCharge;
-        totalPaid += actualPayment;
+        balance = Math.max(0, subtractMoney(balance, principalPayment));
+        totalInterest = addMoney(totalInterest, interestCharge);
+        totalPaid = addMoney(totalPaid, actualPayment);
 
         schedule.push({
           month,
@@ -149,14 +149,14 @@ export async function GET(request: NextRequest) {
     const baseline = calculatePayoff(
       remainingAmount,
       baseMonthlyPayment,
-      monthlyRate
+      rateAt
     );
 
     // Scenario 1: One-time payment only
     const oneTimeScenario = calculatePayoff(
       remainingAmount,
       baseMonthlyPayment,
-      monthlyRate,
+      rateAt,
       oneTimePayment
     );
 
@@ -164,7 +164,7 @@ export async function GET(request: NextRequest) {
     const recurringScenario = calculatePayoff(
       remainingAmount,
       baseMonthlyPayment,
-      monthlyRate,
+      rateAt,
       0,
       recurringExtraPayment
     );
@@ -173,7 +173,7 @@ export async function GET(request: NextRequest) {
     const yearlyScenario = calculatePayoff(
       remainingAmount,
       baseMonthlyPayment,
-      monthlyRate,
+      rateAt,
       0,
       0,
       yearlyBonusPayment
@@ -183,7 +183,7 @@ export async function GET(request: NextRequest) {
     const combinedScenario = calculatePayoff(
       remainingAmount,
       baseMonthlyPayment,
-      monthlyRate,
+      rateAt,
       oneTimePayment,
       recurringExtraPayment,
       yearlyBonusPayment
@@ -274,7 +274,7 @@ export async function GET(request: NextRequest) {
       const result = calculatePayoff(
         remainingAmount,
         baseMonthlyPayment,
-        monthlyRate,
+        rateAt,
         0,
         scenario.amount
       );
@@ -356,6 +356,8 @@ export async function GET(request: NextRequest) {
         name: liability.name,
         remainingAmount,
         interestRate,
+        currentInterestRate: getCurrentAnnualRate(liability),
+        rateSchedule: liability.rates,
         baseMonthlyPayment,
       },
       baseline: {
@@ -383,4 +385,4 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
@@ -1,35 +1,31 @@
-import { NextRequest, NextResponse } from "next/server";
+import { NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
-import { verifyToken } from "@/lib/auth";
+import { withAuth } from "@/lib/route-auth";
+import { addMoney, multiplyMoney, subtractMoney, sumMoney } from "@/lib/money";
+import {
+  createMonthlyRateFn,
+  getAccruedInterest,
+  getCurrentAnnualRate,
+} from "@/lib/liability-rates";
 
 /**
  * GET /api/liabilities/interest-calculation
  * Calculate interest and analyze interest costs
+ * Rates follow each liability's rate schedule; `interestRate` in the
+ * response is the rate in effect today
  * Query params:
  * - liabilityId: string (optional)
  * - method: "simple" | "compound" | "effective" (default: compound)
  */
-export async function GET(request: NextRequest) {
+export const GET = withAuth(async (request, { session }) => {
   try {
-    const token = request.cookies.get("auth-token")?.value;
-    if (!token) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-    const user = await verifyToken(token);
-    if (!user || !user.familyId) {
-      return NextResponse.json(
-        { error: "Unauthorized or no family" },
-        { status: 401 }
-      );
-    }
-
     const { searchParams } = new URL(request.url);
     const liabilityId = searchParams.get("liabilityId");
     const method =
       (searchParams.get("method") as "simple" | "compound" | "effective") ||
       "compound";
 
-    const familyId = user.familyId!;
+    const familyId = session.familyId;
 
     // Build filter
     const filter: any = { familyId };
@@ -42,6 +38,7 @@ export async function GET(request: NextRequest) {
         payments: {
           orderBy: { paymentDate: "asc" },
         },
+        rates: { orderBy: { startMonth: "asc" } },
       },
       orderBy: { createdAt: "desc" },
     });
@@ -50,11 +47,14 @@ export async function GET(request: NextRequest) {
     const interestCalculations = liabilities.map((liability) => {
       const originalAmount = Number(liability.amount);
       const remainingAmount = Number(liability.remainingAmount);
-      const interestRate = Number(liability.interestRate || 0);
       const startDate = liability.startDate
         ? new Date(liability.startDate)
         : new Date();
       const today = new Date();
+      // Bunga yang berlaku hari ini (bisa berbeda dari bunga awal)
+      const interestRate = getCurrentAnnualRate(liability, today);
+      // Bunga bulanan ke depan, bulan ke-1 = bulan berjalan
+      const rateAt = createMonthlyRateFn(liability, today);
 
       // Calculate time period
       const daysElapsed = Math.ceil(
@@ -64,44 +64,54 @@ export async function GET(request: NextRequest) {
       const yearsElapsed = daysElapsed / 365;
 
       // Total interest paid
-      const totalInterestPaid = liability.payments.reduce(
-        (sum, p) => sum + Number(p.interestPaid),
-        0
+      const totalInterestPaid = sumMoney(liability.payments, (p) =>
+        Number(p.interestPaid)
       );
 
-      // Simple Interest Calculation
-      const simpleInterest =
-        (originalAmount * interestRate * yearsElapsed) / 100;
+      // Simple Interest Calculation (per periode bunga)
+      const simpleInterest = getAccruedInterest(
+        liability,
+        originalAmount,
+        startDate,
+        today
+      );
 
-      // Compound Interest Calculation (monthly compounding)
-      const compoundInterest =
-        originalAmount * Math.pow(1 + interestRate / 100 / 12, monthsElapsed) -
-        originalAmount;
+      // Compound Interest Calculation (monthly compounding, per periode bunga)
+      const historicalRateAt = createMonthlyRateFn(liability, startDate);
+      let compoundFactor = 1;
+      for (let month = 1; month <= Math.ceil(monthsElapsed); month++) {
+        const fraction = Math.min(1, monthsElapsed - (month - 1));
+        compoundFactor *= Math.pow(1 + historicalRateAt(month), fraction);
+      }
+      const compoundInterest = originalAmount * compoundFactor - originalAmount;
 
       // Effective Annual Rate (EAR)
       const effectiveAnnualRate =
         (Math.pow(1 + interestRate / 100 / 12, 12) - 1) * 100;
 
       // Current accrued interest (since last payment)
-      let currentAccruedInterest = 0;
-      if (liability.payments.length > 0) {
-        const lastPayment = liability.payments[liability.payments.length - 1];
-        const daysSinceLastPayment = Math.ceil(
-          (today.getTime() - new Date(lastPayment.paymentDate).getTime()) /
-            (1000 * 60 * 60 * 24)
-        );
-        currentAccruedInterest =
-          (remainingAmount * (interestRate / 100) * daysSinceLastPayment) / 365;
-      } else {
-        currentAccruedInterest =
-          (remainingAmount * (interestRate / 100) * daysElapsed) / 365;
-      }
+      const lastPayment =
+        liability.payments.length > 0
+          ? liability.payments[liability.payments.length - 1]
+          : null;
+      const currentAccruedInterest = getAccruedInterest(
+        liability,
+        remainingAmount,
+        lastPayment ? new Date(lastPayment.paymentDate) : startDate,
+        today
+      );
 
       // Monthly interest charge
-      const monthlyInterestCharge = (remainingAmount * interestRate) / 100 / 12;
+      const monthlyInterestCharge = multiplyMoney(remainingAmount, rateAt(1));
 
-      // Annual interest cost
-      const annualInterestCost = (remainingAmount * interestRate) / 100;
+      // Annual interest cost (12 bulan ke depan, termasuk perubahan bunga)
+      let annualInterestCost = 0;
+      for (let month = 1; month <= 12; month++) {
+        annualInterestCost = addMoney(
+          annualInterestCost,
+          multiplyMoney(remainingAmount, rateAt(month))
+        );
+      }
 
       // APR vs APY
       const apr = interestRate; // Annual Percentage Rate (nominal)
@@ -111,18 +121,17 @@ export async function GET(request: NextRequest) {
       let projectedTotalInterest = totalInterestPaid;
       const monthlyPayment = Number(liability.monthlyPayment || 0);
       if (monthlyPayment > 0 && remainingAmount > 0) {
-        // Amortization calculation
-        const monthlyRate = interestRate / 100 / 12;
-        const paymentsRemaining =
-          monthlyRate === 0
-            ? remainingAmount / monthlyPayment
-            : Math.log(
-                monthlyPayment /
-                  (monthlyPayment - remainingAmount * monthlyRate)
-              ) / Math.log(1 + monthlyRate);
-
-        const totalPayments = monthlyPayment * paymentsRemaining;
-        const futureInterest = totalPayments - remainingAmount;
+        // Amortization simulation (bunga bisa berubah tiap periode)
+        let balance = remainingAmount;
+        let futureInterest = 0;
+        for (let month = 1; balance > 0 && month <= 600; month++) {
+          const interestCharge = multiplyMoney(balance, rateAt(month));
+          futureInterest = addMoney(futureInterest, interestCharge);
+          balance = Math.max(
+            0,
+            subtractMoney(addMoney(balance, interestCharge), monthlyPayment)
+          );
+        }
         projectedTotalInterest += futureInterest;
       }
 
@@ -137,16 +146,18 @@ export async function GET(request: NextRequest) {
       // Monthly interest breakdown
       const monthlyBreakdown: any[] = [];
       let runningBalance = remainingAmount;
-      const rate = interestRate / 100 / 12;
 
       for (
         let i = 0;
         i < Math.min(12, Math.ceil(remainingAmount / (monthlyPayment || 1)));
         i++
       ) {
-        const interestCharge = runningBalance * rate;
-        const principalPayment = monthlyPayment - interestCharge;
-        runningBalance = Math.max(0, runningBalance - principalPayment);
+        const interestCharge = multiplyMoney(runningBalance, rateAt(i + 1));
+        const principalPayment = subtractMoney(monthlyPayment, interestCharge);
+        runningBalance = Math.max(
+          0,
+          subtractMoney(runningBalance, principalPayment)
+        );
 
         monthlyBreakdown.push({
           month: i + 1,
@@ -167,6 +178,8 @@ export async function GET(request: NextRequest) {
         originalAmount,
         remainingAmount,
         interestRate,
+        baseInterestRate: liability.interestRate ?? 0,
+        rateSchedule: liability.rates,
         apr,
         apy,
         calculations: {
@@ -277,4 +290,4 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
@@ -1,6 +1,13 @@
-import { NextRequest, NextResponse } from "next/server";
+import { NextResponse } from "next/server";
+import { z } from "zod";
 import { prisma } from "@/lib/prisma";
-import { verifyToken } from "@/lib/auth";
+import { withAuth } from "@/lib/route-auth";
+import { getCurrentAnnualRate } from "@/lib/liability-rates";
+import {
+  deleteLiabilityPayment,
+  liabilityPaymentSchema,
+  recordLiabilityPayment,
+} from "@/lib/liability-payments";
 
 /**
  * GET /api/liabilities/payment-tracking
@@ -10,26 +17,14 @@ import { verifyToken } from "@/lib/auth";
  * - startDate: ISO date (optional)
  * - endDate: ISO date (optional)
  */
-export async function GET(request: NextRequest) {
+export const GET = withAuth(async (request, { session }) => {
   try {
-    const token = request.cookies.get("auth-token")?.value;
-    if (!token) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-    const user = await verifyToken(token);
-    if (!user || !user.familyId) {
-      return NextResponse.json(
-        { error: "Unauthorized or no family" },
-        { status: 401 }
-      );
-    }
-
     const { searchParams } = new URL(request.url);
     const liabilityId = searchParams.get("liabilityId");
     const startDate = searchParams.get("startDate");
     const endDate = searchParams.get("endDate");
 
-    const familyId = user.familyId!;
+    const familyId = session.familyId;
 
     // Build filter
     const liabilityFilter: any = { familyId };
@@ -53,6 +48,7 @@ export async function GET(request: NextRequest) {
           where: paymentFilter,
           orderBy: { paymentDate: "desc" },
         },
+        rates: true,
       },
       orderBy: { createdAt: "desc" },
     });
@@ -61,7 +57,8 @@ export async function GET(request: NextRequest) {
     const trackingData = liabilities.map((liability: any) => {
       const originalAmount = Number(liability.amount);
       const remainingAmount = Number(liability.remainingAmount);
-      const interestRate = Number(liability.interestRate || 0);
+      // Bunga yang berlaku hari ini sesuai jadwal bunga
+      const interestRate = getCurrentAnnualRate(liability);
 
       const payments = liability.payments.map((p: any) => ({
         id: p.id,
@@ -220,93 +217,105 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
 /**
  * POST /api/liabilities/payment-tracking
  * Record a new payment
+ * Body: liabilityId, amount, principalPaid?, interestPaid?, paymentDate?,
+ * notes?, paymentMethod?, walletId? (debit a wallet and create the matching
+ * interest EXPENSE and principal TRANSFER transactions)
  */
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request, { session }) => {
   try {
-    const token = request.cookies.get("auth-token")?.value;
-    if (!token) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-    const user = await verifyToken(token);
-    if (!user || !user.familyId) {
-      return NextResponse.json(
-        { error: "Unauthorized or no family" },
-        { status: 401 }
-      );
-    }
-
     const body = await request.json();
-    const {
-      liabilityId,
-      amount,
-      principalPaid,
-      interestPaid,
-      paymentDate,
-      notes,
-      paymentMethod,
-    } = body;
-
-    if (!liabilityId || amount === undefined) {
-      return NextResponse.json(
-        { error: "liabilityId and amount are required" },
-        { status: 400 }
-      );
-    }
+    const input = liabilityPaymentSchema.parse(body);
 
-    const familyId = user.familyId!;
+    // Payment, wallet debit, transactions and remaining amount are saved
+    // atomically
+    const result = await prisma.$transaction((tx) =>
+      recordLiabilityPayment(tx, session.familyId, session.userId, input)
+    );
 
-    // Verify liability belongs to family
-    const liability = await prisma.liability.findFirst({
-      where: { id: liabilityId, familyId },
+    return NextResponse.json({
+      success: true,
+      payment: result.payment,
+      transactions: result.transactions,
+      wallets: result.wallets,
+      newRemainingAmount: result.newRemainingAmount,
+      message: "Payment recorded successfully",
     });
+  } catch (error: any) {
+    console.error("Error recording payment:", error);
+    return paymentErrorResponse(error);
+  }
+});
 
-    if (!liability) {
+/**
+ * DELETE /api/liabilities/payment-tracking
+ * Delete a payment, its linked transactions and restore the wallet and the
+ * remaining amount
+ * Query params:
+ * - paymentId: string (required)
+ */
+export const DELETE = withAuth(async (request, { session }) => {
+  try {
+    const paymentId = new URL(request.url).searchParams.get("paymentId");
+    if (!paymentId) {
       return NextResponse.json(
-        { error: "Liability not found" },
-        { status: 404 }
+        { error: "paymentId is required" },
+        { status: 400 }
       );
     }
 
-    // Create payment record
-    const payment = await (prisma as any).liabilityPayment.create({
-      data: {
-        liabilityId,
-        amount: Number(amount),
-        principalPaid: Number(principalPaid || amount),
-        interestPaid: Number(interestPaid || 0),
-        paymentDate: paymentDate ? new Date(paymentDate) : new Date(),
-        notes,
-        paymentMethod,
-      },
-    });
-
-    // Update remaining amount
-    const newRemainingAmount = Math.max(
-      Number(liability.remainingAmount) - Number(principalPaid || amount),
-      0
+    const result = await prisma.$transaction((tx) =>
+      deleteLiabilityPayment(tx, session.familyId, session.userId, paymentId)
     );
 
-    await prisma.liability.update({
-      where: { id: liabilityId },
-      data: { remainingAmount: newRemainingAmount },
-    });
-
     return NextResponse.json({
       success: true,
-      payment,
-      newRemainingAmount,
-      message: "Payment recorded successfully",
+      wallets: result.wallets,
+      newRemainingAmount: result.newRemainingAmount,
+      message: "Payment deleted successfully",
     });
-  } catch (error: any) {
-    console.error("Error recording payment:", error);
+  } catch (error) {
+    console.error("Error deleting payment:", error);
+    return paymentErrorResponse(error);
+  }
+});
+
+/**
+ * Map payment errors to responses
+ */
+function paymentErrorResponse(error: unknown) {
+  if (error instanceof z.ZodError) {
+    const firstError = error.errors[0];
     return NextResponse.json(
-      { error: error.message || "Internal server error" },
-      { status: 500 }
+      { error: firstError.message, field: firstError.path.join(".") },
+      { status: 400 }
     );
   }
+
+  if (error instanceof Error && error.message.includes("tidak ditemukan")) {
+    return NextResponse.json({ error: error.message }, { status: 404 });
+  }
+
+  if (
+    error instanceof Error &&
+    (error.message.includes("tidak mencukupi") ||
+      error.message.includes("diarsipkan") ||
+      error.message.includes("mata uang") ||
+      error.message.includes("melebihi sisa hutang") ||
+      error.message.includes("Pokok dan bunga"))
+  ) {
+    return NextResponse.json({ error: error.message }, { status: 400 });
+  }
+
+  return NextResponse.json(
+    {
+      error:
+        (error instanceof Error && error.message) || "Internal server error",
+    },
+    { status: 500 }
+  );
 }
@@ -0,0 +1,149 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { withAuth } from '@/lib/route-auth';
+import {
+  comparePayoffStrategies,
+  getMinimumPaymentTotal,
+  PayoffDebt,
+  PayoffPlanQuery,
+  payoffPlanQuerySchema,
+  PayoffStrategy,
+} from '@/lib/debt-payoff';
+import { sumMoney } from '@/lib/money';
+import {
+  createMonthlyRateFn,
+  getCurrentAnnualRate,
+} from '@/lib/liability-rates';
+
+/**
+ * GET /api/liabilities/payoff-planner
+ *
+ * Family-level payoff plan: allocate one monthly debt budget across all
+ * outstanding liabilities and compare strategies (snowball, avalanche,
+ * custom order). Cicilan minimum tiap hutang diambil dari `monthlyPayment`,
+ * bunga mengikuti jadwal bunga masing-masing hutang.
+ *
+ * Query params:
+ * - monthlyBudget: number (required), total anggaran bayar hutang per bulan
+ * - strategy?: snowball | avalanche | custom (default: semua)
+ * - order?: comma separated liability ids, prioritas untuk custom
+ * - liabilityIds?: comma separated liability ids (default: semua hutang)
+ *
+ * @example
+ * ```typescript
+ * const response = await fetch(
+ *   '/api/liabilities/payoff-planner?monthlyBudget=15000000&order=cc-1,cc-2'
+ * );
+ * const { plans, recommended } = await response.json();
+ * ```
+ */
+export const GET = withAuth(async (request, { session }) => {
+  try {
+    const { searchParams } = request.nextUrl;
+    const list = (key: string) =>
+      searchParams
+        .get(key)
+        ?.split(',')
+        .map((id) => id.trim())
+        .filter(Boolean);
+
+    const query: PayoffPlanQuery = payoffPlanQuerySchema.parse({
+      monthlyBudget: searchParams.get('monthlyBudget') ?? undefined,
+      strategy: searchParams.get('strategy') || undefined,
+      order: list('order'),
+      liabilityIds: list('liabilityIds'),
+    });
+
+    const liabilities = await prisma.liability.findMany({
+      where: {
+        familyId: session.familyId,
+        remainingAmount: { gt: 0 },
+        ...(query.liabilityIds && { id: { in: query.liabilityIds } }),
+      },
+      select: {
+        id: true,
+        name: true,
+        type: true,
+        remainingAmount: true,
+        interestRate: true,
+        monthlyPayment: true,
+        startDate: true,
+        rates: {
+          select: { startMonth: true, annualRate: true, note: true },
+          orderBy: { startMonth: 'asc' },
+        },
+      },
+    });
+
+    if (liabilities.length === 0) {
+      return NextResponse.json(
+        { error: 'Tidak ada hutang yang perlu dilunasi', code: 'NOT_FOUND' },
+        { status: 404 }
+      );
+    }
+
+    const debts: PayoffDebt[] = liabilities.map((liability) => ({
+      id: liability.id,
+      name: liability.name,
+      balance: liability.remainingAmount,
+      interestRate: getCurrentAnnualRate(liability),
+      monthlyRate: createMonthlyRateFn(liability),
+      minimumPayment: liability.monthlyPayment ?? 0,
+    }));
+
+    const strategies: PayoffStrategy[] = query.strategy
+      ? [query.strategy]
+      : query.order
+        ? ['snowball', 'avalanche', 'custom']
+        : ['snowball', 'avalanche'];
+
+    const { plans, recommended } = comparePayoffStrategies(
+      debts,
+      query.monthlyBudget,
+      strategies,
+      { customOrder: query.order }
+    );
+
+    return NextResponse.json({
+      monthlyBudget: query.monthlyBudget,
+      minimumPaymentTotal: getMinimumPaymentTotal(debts),
+      totalDebt: sumMoney(debts, (debt) => debt.balance),
+      liabilities,
+      plans,
+      recommended,
+    });
+  } catch (error) {
+    console.error('Payoff planner error:', error);
+
+    if (error instanceof z.ZodError) {
+      const firstError = error.errors[0];
+      return NextResponse.json(
+        {
+          error: firstError.message,
+          code: 'VALIDATION_ERROR',
+          field: firstError.path.join('.'),
+        },
+        { status: 400 }
+      );
+    }
+
+    if (
+      error instanceof Error &&
+      error.message.startsWith('Anggaran bulanan')
+    ) {
+      return NextResponse.json(
+        { error: error.message, code: 'BUSINESS_LOGIC_ERROR' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        error: 'Terjadi kesalahan saat menyusun rencana pelunasan',
+        code: 'INTERNAL_ERROR',
+      },
+      { status: 500 }
+    );
+  }
+});
@@ -1,29 +1,25 @@
-import { NextRequest, NextResponse } from "next/server";
+import { NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
-import { verifyToken } from "@/lib/auth";
+import { withAuth } from "@/lib/route-auth";
+import { addMoney, multiplyMoney, subtractMoney, sumMoney } from "@/lib/money";
+import {
+  createMonthlyRateFn,
+  getCurrentAnnualRate,
+  getRequiredPayment,
+  MonthlyRateFn,
+} from "@/lib/liability-rates";
 
 /**
  * GET /api/liabilities/payoff-simulation
  * Simulate different payoff scenarios
+ * Honors the liability rate schedule (promo/floating periods)
  * Query params:
  * - liabilityId: string (required)
  * - extraMonthlyPayment: number (optional, default: 0)
  * - targetMonths: number (optional)
  */
-export async function GET(request: NextRequest) {
+export const GET = withAuth(async (request, { session }) => {
   try {
-    const token = request.cookies.get("auth-token")?.value;
-    if (!token) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-    const user = await verifyToken(token);
-    if (!user || !user.familyId) {
-      return NextResponse.json(
-        { error: "Unauthorized or no family" },
-        { status: 401 }
-      );
-    }
-
     const { searchParams } = new URL(request.url);
     const liabilityId = searchParams.get("liabilityId");
     const extraMonthlyPayment = parseFloat(
@@ -40,7 +36,7 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    const familyId = user.familyId!;
+    const familyId = session.familyId;
 
     // Fetch liability
     const liability = await prisma.liability.findFirst({
@@ -50,6 +46,7 @@ export async function GET(request: NextRequest) {
           orderBy: { paymentDate: "desc" },
           take: 1,
         },
+        rates: true,
       },
     });
 
@@ -71,13 +68,14 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    const monthlyRate = interestRate / 100 / 12;
+    // Bunga bulanan per bulan simulasi (mengikuti jadwal bunga)
+    const rateAt = createMonthlyRateFn(liability);
 
     // Helper function to generate amortization schedule
     function generateAmortizationSchedule(
       principal: number,
       monthlyPayment: number,
-      monthlyInterestRate: number,
+      rateAt: MonthlyRateFn,
       maxMonths: number = 600 // 50 years max
     ) {
       const schedule: any[] = [];
@@ -85,16 +83,16 @@ export async function GET(request: NextRequest) {
       let totalInterest = 0;
       let month = 1;
 
-      while (balance > 0.01 && month <= maxMonths) {
-        const interestCharge = balance * monthlyInterestRate;
+      while (balance > 0 && month <= maxMonths) {
+        const interestCharge = multiplyMoney(balance, rateAt(month));
         const principalPayment = Math.min(
-          monthlyPayment - interestCharge,
+          subtractMoney(monthlyPayment, interestCharge),
           balance
         );
-        const payment = interestCharge + principalPayment;
+        const payment = addMoney(interestCharge, principalPayment);
 
-        balance = Math.max(0, balance - principalPayment);
-        totalInterest += interestCharge;
+        balance = Math.max(0, subtractMoney(balance, principalPayment));
+        totalInterest = addMoney(totalInterest, interestCharge);
 
         schedule.push({
           month,
@@ -103,7 +101,7 @@ export async function GET(request: NextRequest) {
           interestPayment: interestCharge,
           remainingBalance: balance,
           cumulativeInterest: totalInterest,
-          cumulativePrincipal: principal - balance,
+          cumulativePrincipal: subtractMoney(principal, balance),
         });
 
         month++;
@@ -114,7 +112,7 @@ export async function GET(request: NextRequest) {
       return {
         schedule,
         totalMonths: schedule.length,
-        totalPaid: schedule.reduce((sum, s) => sum + s.payment, 0),
+        totalPaid: sumMoney(schedule, (s) => s.payment),
         totalInterest,
         totalPrincipal: principal,
       };
@@ -124,41 +122,39 @@ export async function GET(request: NextRequest) {
     const standardScenario = generateAmortizationSchedule(
       remainingAmount,
       baseMonthlyPayment,
-      monthlyRate
+      rateAt
     );
 
     // Scenario 2: With Extra Payment
     const extraPaymentScenario = generateAmortizationSchedule(
       remainingAmount,
       baseMonthlyPayment + extraMonthlyPayment,
-      monthlyRate
+      rateAt
     );
 
     // Scenario 3: Double Payment
     const doublePaymentScenario = generateAmortizationSchedule(
       remainingAmount,
       baseMonthlyPayment * 2,
-      monthlyRate
+      rateAt
     );
 
     // Scenario 4: Aggressive Payment (paying 50% more)
     const aggressiveScenario = generateAmortizationSchedule(
       remainingAmount,
       baseMonthlyPayment * 1.5,
-      monthlyRate
+      rateAt
     );
 
     // Scenario 5: Target Months (if specified)
     let targetScenario = null;
     if (targetMonths) {
       // Calculate required monthly payment to payoff in target months
-      const requiredPayment =
-        monthlyRate === 0
-          ? remainingAmount / targetMonths
-          : (remainingAmount *
-              monthlyRate *
-              Math.pow(1 + monthlyRate, targetMonths)) /
-            (Math.pow(1 + monthlyRate, targetMonths) - 1);
+      const requiredPayment = getRequiredPayment(
+        remainingAmount,
+        targetMonths,
+        rateAt
+      );
 
       targetScenario = {
         targetMonths,
@@ -169,7 +165,7 @@ export async function GET(request: NextRequest) {
         ...generateAmortizationSchedule(
           remainingAmount,
           requiredPayment,
-          monthlyRate,
+          rateAt,
           targetMonths
         ),
       };
@@ -309,6 +305,8 @@ export async function GET(request: NextRequest) {
         name: liability.name,
         remainingAmount,
         interestRate,
+        currentInterestRate: getCurrentAnnualRate(liability),
+        rateSchedule: liability.rates,
         baseMonthlyPayment,
       },
       scenarios: {
@@ -343,4 +341,4 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
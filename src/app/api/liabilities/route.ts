@@ -1,78 +1,87 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextResponse } from 'next/server';
 import { z } from 'zod';
 import { prisma } from '@/lib/prisma';
-import { requireAuth, requireFamily } from '@/lib/auth';
+import { withAuth } from '@/lib/route-auth';
 import { PrismaErrorHandler } from '@/lib/prisma-helpers';
+import { rateScheduleSchema, sortRatePeriods } from '@/lib/liability-rates';
+import {
+  creditCardSettingsSchema,
+  hasCreditCardSettings,
+} from '@/lib/credit-cards';
 
 /**
  * Liability Creation Schema
  */
-const CreateLiabilitySchema = z.object({
-  name: z
-    .string()
-    .min(1, 'Nama hutang tidak boleh kosong')
-    .max(200, 'Nama hutang maksimal 200 karakter')
-    .trim(),
-  type: z.enum(['MORTGAGE', 'CAR_LOAN', 'CREDIT_CARD', 'PERSONAL_LOAN', 'OTHER'], {
-    errorMap: () => ({ message: 'Tipe hutang tidak valid' }),
-  }),
-  amount: z
-    .number()
-    .nonnegative('Jumlah hutang tidak boleh negatif')
-    .max(999999999999, 'Jumlah hutang terlalu besar'),
-  remainingAmount: z
-    .number()
-    .nonnegative('Sisa hutang tidak boleh negatif')
-    .max(999999999999, 'Sisa hutang terlalu besar'),
-  interestRate: z
-    .number()
-    .nonnegative('Suku bunga tidak boleh negatif')
-    .max(100, 'Suku bunga maksimal 100%')
-    .optional()
-    .nullable(),
-  description: z
-    .string()
-    .max(500, 'Deskripsi maksimal 500 karakter')
-    .optional()
-    .nullable(),
-  creditor: z
-    .string()
-    .max(200, 'Nama kreditor maksimal 200 karakter')
-    .optional()
-    .nullable(),
-  startDate: z
-    .string()
-    .datetime({ message: 'Format tanggal tidak valid' })
-    .or(z.date())
-    .optional()
-    .nullable(),
-  dueDate: z
-    .string()
-    .datetime({ message: 'Format tanggal tidak valid' })
-    .or(z.date())
-    .optional()
-    .nullable(),
-});
+const CreateLiabilitySchema = z
+  .object({
+    name: z
+      .string()
+      .min(1, 'Nama hutang tidak boleh kosong')
+      .max(200, 'Nama hutang maksimal 200 karakter')
+      .trim(),
+    type: z.enum(
+      ['MORTGAGE', 'CAR_LOAN', 'CREDIT_CARD', 'PERSONAL_LOAN', 'OTHER'],
+      {
+        errorMap: () => ({ message: 'Tipe hutang tidak valid' }),
+      }
+    ),
+    amount: z
+      .number()
+      .nonnegative('Jumlah hutang tidak boleh negatif')
+      .max(999999999999, 'Jumlah hutang terlalu besar'),
+    remainingAmount: z
+      .number()
+      .nonnegative('Sisa hutang tidak boleh negatif')
+      .max(999999999999, 'Sisa hutang terlalu besar'),
+    interestRate: z
+      .number()
+      .nonnegative('Suku bunga tidak boleh negatif')
+      .max(100, 'Suku bunga maksimal 100%')
+      .optional()
+      .nullable(),
+    description: z
+      .string()
+      .max(500, 'Deskripsi maksimal 500 karakter')
+      .optional()
+      .nullable(),
+    creditor: z
+      .string()
+      .max(200, 'Nama kreditor maksimal 200 karakter')
+      .optional()
+      .nullable(),
+    startDate: z
+      .string()
+      .datetime({ message: 'Format tanggal tidak valid' })
+      .or(z.date())
+      .optional()
+      .nullable(),
+    dueDate: z
+      .string()
+      .datetime({ message: 'Format tanggal tidak valid' })
+      .or(z.date())
+      .optional()
+      .nullable(),
+    // Jadwal bunga (promo/floating); menggantikan seluruh jadwal lama
+    rateSchedule: rateScheduleSchema.optional(),
+  })
+  .merge(creditCardSettingsSchema);
 
 type CreateLiabilityInput = z.infer<typeof CreateLiabilitySchema>;
 
 /**
  * GET /api/liabilities
- * 
+ *
  * Get all liabilities for the current family
  */
-export async function GET() {
+export const GET = withAuth(async (request, { session }) => {
   try {
-    // Get current session
-    const session = await requireAuth();
-    
-    // Ensure user has a family
-    await requireFamily(session);
-
     // Fetch liabilities
     const liabilities = await prisma.liability.findMany({
       where: {
-        familyId: session.familyId!,
+        familyId: session.familyId,
+      },
+      include: {
+        rates: { orderBy: { startMonth: 'asc' } },
       },
       orderBy: {
         createdAt: 'desc',
@@ -80,10 +89,16 @@ export async function GET() {
     });
 
     // Calculate summary
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const totalAmount = liabilities.reduce((sum: number, liability: any) => sum + liability.amount, 0);
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const totalRemaining = liabilities.reduce((sum: number, liability: any) => sum + liability.remainingAmount, 0);
+    const totalAmount = liabilities.reduce(
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      (sum: number, liability: any) => sum + liability.amount,
+      0
+    );
+    const totalRemaining = liabilities.reduce(
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      (sum: number, liability: any) => sum + liability.remainingAmount,
+      0
+    );
     const totalPaid = totalAmount - totalRemaining;
 
     return NextResponse.json({
@@ -98,17 +113,6 @@ export async function GET() {
   } catch (error) {
     console.error('Get liabilities error:', error);
 
-    // Handle authorization errors
-    if (error instanceof Error && (error.message.includes('required') || error.message.includes('denied'))) {
-      return NextResponse.json(
-        {
-          error: error.message,
-          code: 'UNAUTHORIZED',
-        },
-        { status: 401 }
-      );
-    }
-
     // Handle Prisma errors
     if (error && typeof error === 'object' && 'code' in error) {
       const prismaError = PrismaErrorHandler.handle(error);
@@ -130,24 +134,19 @@ export async function GET() {
       { status: 500 }
     );
   }
-}
+});
 
 /**
  * POST /api/liabilities
- * 
+ *
  * Create a new liability
  */
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request, { session }) => {
   try {
-    // Get current session
-    const session = await requireAuth();
-    
-    // Ensure user has a family
-    await requireFamily(session);
-
     // Parse and validate request body
     const body = await request.json();
-    const validatedData: CreateLiabilityInput = CreateLiabilitySchema.parse(body);
+    const validatedData: CreateLiabilityInput =
+      CreateLiabilitySchema.parse(body);
 
     // Validate that remainingAmount <= amount
     if (validatedData.remainingAmount > validatedData.amount) {
@@ -161,19 +160,36 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Siklus tagihan & limit hanya untuk kartu kredit
+    if (
+      validatedData.type !== 'CREDIT_CARD' &&
+      hasCreditCardSettings(validatedData)
+    ) {
+      return NextResponse.json(
+        {
+          error: 'Pengaturan tagihan hanya untuk hutang kartu kredit',
+          code: 'VALIDATION_ERROR',
+          field: 'type',
+        },
+        { status: 400 }
+      );
+    }
+
     // Convert date strings to Date objects if provided
     let startDate = undefined;
     if (validatedData.startDate) {
-      startDate = typeof validatedData.startDate === 'string' 
-        ? new Date(validatedData.startDate) 
-        : validatedData.startDate;
+      startDate =
+        typeof validatedData.startDate === 'string'
+          ? new Date(validatedData.startDate)
+          : validatedData.startDate;
     }
 
     let dueDate = undefined;
     if (validatedData.dueDate) {
-      dueDate = typeof validatedData.dueDate === 'string' 
-        ? new Date(validatedData.dueDate) 
-        : validatedData.dueDate;
+      dueDate =
+        typeof validatedData.dueDate === 'string'
+          ? new Date(validatedData.dueDate)
+          : validatedData.dueDate;
     }
 
     // Create liability
@@ -188,7 +204,20 @@ export async function POST(request: NextRequest) {
         creditor: validatedData.creditor,
         startDate,
         dueDate,
-        familyId: session.familyId!,
+        statementDay: validatedData.statementDay,
+        paymentDueDay: validatedData.paymentDueDay,
+        creditLimit: validatedData.creditLimit,
+        minimumPaymentPercent: validatedData.minimumPaymentPercent,
+        minimumPaymentAmount: validatedData.minimumPaymentAmount,
+        familyId: session.familyId,
+        ...(validatedData.rateSchedule && {
+          rates: {
+            create: sortRatePeriods(validatedData.rateSchedule),
+          },
+        }),
+      },
+      include: {
+        rates: { orderBy: { startMonth: 'asc' } },
       },
     });
 
@@ -200,7 +229,7 @@ export async function POST(request: NextRequest) {
         entityId: liability.id,
         details: JSON.stringify(validatedData),
         userId: session.userId,
-        familyId: session.familyId!,
+        familyId: session.familyId,
       },
     });
 
@@ -227,17 +256,6 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Handle authorization errors
-    if (error instanceof Error && (error.message.includes('required') || error.message.includes('denied'))) {
-      return NextResponse.json(
-        {
-          error: error.message,
-          code: 'UNAUTHORIZED',
-        },
-        { status: 401 }
-      );
-    }
-
     // Handle Prisma errors
     if (error && typeof error === 'object' && 'code' in error) {
       const prismaError = PrismaErrorHandler.handle(error);
@@ -259,4 +277,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
@@ -1,26 +1,20 @@
-import { NextRequest, NextResponse } from "next/server";
+import { NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
-import { verifyToken } from "@/lib/auth";
+import { withAuth } from "@/lib/route-auth";
+import {
+  getNextReminderRun,
+  isValidReminderTime,
+  reminderCriteriaSchema,
+  resolveTimeZone,
+} from "@/lib/reminder-schedules";
 
 /**
  * GET /api/notifications/reminders
  * Get reminder schedules
  */
-export async function GET(request: NextRequest) {
+export const GET = withAuth(async (request, { session }) => {
   try {
-    const token = request.cookies.get("auth-token")?.value;
-    if (!token) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-    const user = await verifyToken(token);
-    if (!user || !user.familyId) {
-      return NextResponse.json(
-        { error: "Unauthorized or no family" },
-        { status: 401 }
-      );
-    }
-
-    const familyId = user.familyId!;
+    const familyId = session.familyId;
 
     const reminders = await prisma.reminderSchedule.findMany({
       where: { familyId },
@@ -58,26 +52,14 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
 /**
  * POST /api/notifications/reminders
  * Create a new reminder schedule
  */
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request, { session }) => {
   try {
-    const token = request.cookies.get("auth-token")?.value;
-    if (!token) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-    const user = await verifyToken(token);
-    if (!user || !user.familyId) {
-      return NextResponse.json(
-        { error: "Unauthorized or no family" },
-        { status: 401 }
-      );
-    }
-
     const body = await request.json();
     const {
       name,
@@ -99,25 +81,50 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const familyId = user.familyId!;
+    if (!isValidReminderTime(time)) {
+      return NextResponse.json(
+        { error: "time must be in HH:mm format" },
+        { status: 400 }
+      );
+    }
+
+    const parsedCriteria = reminderCriteriaSchema.safeParse(criteria ?? {});
+    if (!parsedCriteria.success) {
+      return NextResponse.json(
+        { error: "Invalid criteria", details: parsedCriteria.error.errors },
+        { status: 400 }
+      );
+    }
+
+    const familyId = session.familyId;
+    const timeZone = await getFamilyTimeZone(familyId);
 
     // Calculate next run time
-    const nextRunAt = calculateNextRun(frequency, dayOfWeek, dayOfMonth, time);
+    const nextRunAt = getNextReminderRun(
+      {
+        frequency,
+        dayOfWeek: dayOfWeek ?? null,
+        dayOfMonth: dayOfMonth ?? null,
+        time,
+      },
+      new Date(),
+      timeZone
+    );
 
     const reminder = await prisma.reminderSchedule.create({
       data: {
         name,
         description,
         frequency,
-        dayOfWeek: dayOfWeek || null,
-        dayOfMonth: dayOfMonth || null,
+        dayOfWeek: dayOfWeek ?? null,
+        dayOfMonth: dayOfMonth ?? null,
         time,
         notificationType,
         emailEnabled: emailEnabled !== false,
         inAppEnabled: inAppEnabled !== false,
         criteria,
         nextRunAt,
-        userId: user.userId,
+        userId: session.userId,
         familyId,
       },
       include: {
@@ -139,26 +146,14 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
 /**
  * PATCH /api/notifications/reminders
  * Update reminder schedule
  */
-export async function PATCH(request: NextRequest) {
+export const PATCH = withAuth(async (request, { session }) => {
   try {
-    const token = request.cookies.get("auth-token")?.value;
-    if (!token) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-    const user = await verifyToken(token);
-    if (!user || !user.familyId) {
-      return NextResponse.json(
-        { error: "Unauthorized or no family" },
-        { status: 401 }
-      );
-    }
-
     const body = await request.json();
     const { reminderId, enabled, ...updateData } = body;
 
@@ -169,7 +164,7 @@ export async function PATCH(request: NextRequest) {
       );
     }
 
-    const familyId = user.familyId!;
+    const familyId = session.familyId;
 
     // Verify ownership
     const existing = await prisma.reminderSchedule.findFirst({
@@ -183,23 +178,58 @@ export async function PATCH(request: NextRequest) {
       );
     }
 
-    // Recalculate next run if schedule changed
+    if (updateData.time && !isValidReminderTime(updateData.time)) {
+      return NextResponse.json(
+        { error: "time must be in HH:mm format" },
+        { status: 400 }
+      );
+    }
+
+    if (updateData.criteria !== undefined) {
+      const parsedCriteria = reminderCriteriaSchema.safeParse(
+        updateData.criteria ?? {}
+      );
+      if (!parsedCriteria.success) {
+        return NextResponse.json(
+          { error: "Invalid criteria", details: parsedCriteria.error.errors },
+          { status: 400 }
+        );
+      }
+    }
+
+    // Status eksekusi hanya diubah oleh cron
+    delete updateData.lastRunAt;
+    delete updateData.nextRunAt;
+    delete updateData.runCount;
+    delete updateData.lastStatus;
+    delete updateData.lastError;
+    delete updateData.failureCount;
+
+    // Recalculate next run if schedule changed or the reminder is re-enabled
+    const reenabled = enabled === true && !existing.enabled;
     let nextRunAt = existing.nextRunAt;
     if (
+      reenabled ||
       updateData.frequency ||
       updateData.dayOfWeek !== undefined ||
       updateData.dayOfMonth !== undefined ||
       updateData.time
     ) {
-      nextRunAt = calculateNextRun(
-        updateData.frequency || existing.frequency,
-        updateData.dayOfWeek !== undefined
-          ? updateData.dayOfWeek
-          : existing.dayOfWeek,
-        updateData.dayOfMonth !== undefined
-          ? updateData.dayOfMonth
-          : existing.dayOfMonth,
-        updateData.time || existing.time
+      nextRunAt = getNextReminderRun(
+        {
+          frequency: updateData.frequency || existing.frequency,
+          dayOfWeek:
+            updateData.dayOfWeek !== undefined
+              ? updateData.dayOfWeek
+              : existing.dayOfWeek,
+          dayOfMonth:
+            updateData.dayOfMonth !== undefined
+              ? updateData.dayOfMonth
+              : existing.dayOfMonth,
+          time: updateData.time || existing.time,
+        },
+        new Date(),
+        await getFamilyTimeZone(familyId)
       );
     }
 
@@ -209,6 +239,8 @@ export async function PATCH(request: NextRequest) {
         ...updateData,
         enabled: enabled !== undefined ? enabled : existing.enabled,
         nextRunAt,
+        // Diaktifkan ulang setelah dinonaktifkan karena gagal berulang
+        ...(reenabled && { failureCount: 0 }),
       },
       include: {
         user: {
@@ -229,26 +261,14 @@ export async function PATCH(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
 /**
  * DELETE /api/notifications/reminders
  * Delete reminder schedule
  */
-export async function DELETE(request: NextRequest) {
+export const DELETE = withAuth(async (request, { session }) => {
   try {
-    const token = request.cookies.get("auth-token")?.value;
-    if (!token) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-    const user = await verifyToken(token);
-    if (!user || !user.familyId) {
-      return NextResponse.json(
-        { error: "Unauthorized or no family" },
-        { status: 401 }
-      );
-    }
-
     const { searchParams } = new URL(request.url);
     const reminderId = searchParams.get("id");
 
@@ -259,7 +279,7 @@ export async function DELETE(request: NextRequest) {
       );
     }
 
-    const familyId = user.familyId!;
+    const familyId = session.familyId;
 
     await prisma.reminderSchedule.delete({
       where: {
@@ -279,54 +299,14 @@ export async function DELETE(request: NextRequest) {
       { status: 500 }
     );
   }
-}
-
-// Helper function to calculate next run time
-function calculateNextRun(
-  frequency: string,
-  dayOfWeek: number | null,
-  dayOfMonth: number | null,
-  time: string
-): Date {
-  const now = new Date();
-  const [hours, minutes] = time.split(":").map(Number);
-
-  let nextRun = new Date(now);
-  nextRun.setHours(hours, minutes, 0, 0);
-
-  switch (frequency) {
-    case "daily":
-      if (nextRun <= now) {
-        nextRun.setDate(nextRun.getDate() + 1);
-      }
-      break;
-
-    case "weekly":
-      if (dayOfWeek !== null) {
-        const currentDay = nextRun.getDay();
-        let daysToAdd = dayOfWeek - currentDay;
-        if (daysToAdd < 0 || (daysToAdd === 0 && nextRun <= now)) {
-          daysToAdd += 7;
-        }
-        nextRun.setDate(nextRun.getDate() + daysToAdd);
-      }
-      break;
+});
 
-    case "monthly":
-      if (dayOfMonth !== null) {
-        nextRun.setDate(dayOfMonth);
-        if (nextRun <= now) {
-          nextRun.setMonth(nextRun.getMonth() + 1);
-        }
-      }
-      break;
-
-    default:
-      // For custom frequency, default to next day
-      if (nextRun <= now) {
-        nextRun.setDate(nextRun.getDate() + 1);
-      }
-  }
+// Helper function to get the family time zone used for schedules
+async function getFamilyTimeZone(familyId: string): Promise<string> {
+  const family = await prisma.family.findUnique({
+    where: { id: familyId },
+    select: { timezone: true },
+  });
 
-  return nextRun;
+  return resolveTimeZone(family?.timezone);
 }
@@ -1,6 +1,6 @@
-import { NextRequest, NextResponse } from "next/server";
+import { NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
-import { verifyToken } from "@/lib/auth";
+import { withAuth } from "@/lib/route-auth";
 import { sendEmail as sendEmailNotification } from "@/lib/email";
 
 /**
@@ -12,24 +12,15 @@ import { sendEmail as sendEmailNotification } from "@/lib/email";
  * - limit: number (default: 50)
  * - unreadOnly: boolean
  */
-export async function GET(request: NextRequest) {
+export const GET = withAuth({ family: false }, async (request, { session }) => {
   try {
-    const token = request.cookies.get("auth-token")?.value;
-    if (!token) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-    const user = await verifyToken(token);
-    if (!user) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-
     const { searchParams } = new URL(request.url);
     const status = searchParams.get("status");
     const type = searchParams.get("type");
     const limit = parseInt(searchParams.get("limit") || "50");
     const unreadOnly = searchParams.get("unreadOnly") === "true";
 
-    const filter: any = { userId: user.userId };
+    const filter: any = { userId: session.userId };
     if (status) filter.status = status;
     if (type) filter.type = type;
     if (unreadOnly) filter.readAt = null;
@@ -48,7 +39,7 @@ export async function GET(request: NextRequest) {
     // Count unread notifications
     const unreadCount = await prisma.notification.count({
       where: {
-        userId: user.userId,
+        userId: session.userId,
         readAt: null,
       },
     });
@@ -74,26 +65,14 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
 /**
  * POST /api/notifications
  * Create a new notification
  */
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request, { session }) => {
   try {
-    const token = request.cookies.get("auth-token")?.value;
-    if (!token) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-    const user = await verifyToken(token);
-    if (!user || !user.familyId) {
-      return NextResponse.json(
-        { error: "Unauthorized or no family" },
-        { status: 401 }
-      );
-    }
-
     const body = await request.json();
     const {
       type,
@@ -113,8 +92,8 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const familyId = user.familyId!;
-    const userId = targetUserId || user.userId;
+    const familyId = session.familyId;
+    const userId = targetUserId || session.userId;
 
     // Create notification
     const notification = await prisma.notification.create({
@@ -181,32 +160,51 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
 /**
  * PATCH /api/notifications
  * Mark notifications as read
  */
-export async function PATCH(request: NextRequest) {
-  try {
-    const token = request.cookies.get("auth-token")?.value;
-    if (!token) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-    const user = await verifyToken(token);
-    if (!user) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
+export const PATCH = withAuth(
+  { family: false },
+  async (request, { session }) => {
+    try {
+      const body = await request.json();
+      const { notificationIds, markAll } = body;
 
-    const body = await request.json();
-    const { notificationIds, markAll } = body;
+      if (markAll) {
+        // Mark all as read
+        const result = await prisma.notification.updateMany({
+          where: {
+            userId: session.userId,
+            readAt: null,
+          },
+          data: {
+            readAt: new Date(),
+            status: "READ",
+          },
+        });
+
+        return NextResponse.json({
+          success: true,
+          count: result.count,
+          message: "All notifications marked as read",
+        });
+      }
+
+      if (!notificationIds || !Array.isArray(notificationIds)) {
+        return NextResponse.json(
+          { error: "notificationIds array or markAll is required" },
+          { status: 400 }
+        );
+      }
 
-    if (markAll) {
-      // Mark all as read
+      // Mark specific notifications as read
       const result = await prisma.notification.updateMany({
         where: {
-          userId: user.userId,
-          readAt: null,
+          id: { in: notificationIds },
+          userId: session.userId,
         },
         data: {
           readAt: new Date(),
@@ -217,102 +215,71 @@ export async function PATCH(request: NextRequest) {
       return NextResponse.json({
         success: true,
         count: result.count,
-        message: "All notifications marked as read",
+        message: "Notifications marked as read",
       });
-    }
-
-    if (!notificationIds || !Array.isArray(notificationIds)) {
+    } catch (error: any) {
+      console.error("Error marking notifications as read:", error);
       return NextResponse.json(
-        { error: "notificationIds array or markAll is required" },
-        { status: 400 }
+        { error: error.message || "Internal server error" },
+        { status: 500 }
       );
     }
-
-    // Mark specific notifications as read
-    const result = await prisma.notification.updateMany({
-      where: {
-        id: { in: notificationIds },
-        userId: user.userId,
-      },
-      data: {
-        readAt: new Date(),
-        status: "READ",
-      },
-    });
-
-    return NextResponse.json({
-      success: true,
-      count: result.count,
-      message: "Notifications marked as read",
-    });
-  } catch (error: any) {
-    console.error("Error marking notifications as read:", error);
-    return NextResponse.json(
-      { error: error.message || "Internal server error" },
-      { status: 500 }
-    );
   }
-}
+);
 
 /**
  * DELETE /api/notifications
  * Delete notifications
  */
-export async function DELETE(request: NextRequest) {
-  try {
-    const token = request.cookies.get("auth-token")?.value;
-    if (!token) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-    const user = await verifyToken(token);
-    if (!user) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
+export const DELETE = withAuth(
+  { family: false },
+  async (request, { session }) => {
+    try {
+      const { searchParams } = new URL(request.url);
+      const notificationId = searchParams.get("id");
+      const deleteAll = searchParams.get("deleteAll") === "true";
 
-    const { searchParams } = new URL(request.url);
-    const notificationId = searchParams.get("id");
-    const deleteAll = searchParams.get("deleteAll") === "true";
+      if (deleteAll) {
+        // Delete all read notifications
+        const result = await prisma.notification.deleteMany({
+          where: {
+            userId: session.userId,
+            readAt: { not: null },
+          },
+        });
+
+        return NextResponse.json({
+          success: true,
+          count: result.count,
+          message: "All read notifications deleted",
+        });
+      }
 
-    if (deleteAll) {
-      // Delete all read notifications
-      const result = await prisma.notification.deleteMany({
+      if (!notificationId) {
+        return NextResponse.json(
+          { error: "notificationId or deleteAll is required" },
+          { status: 400 }
+        );
+      }
+
+      // Delete specific notification
+      await prisma.notification.delete({
         where: {
-          userId: user.userId,
-          readAt: { not: null },
+          id: notificationId,
+          userId: session.userId,
         },
       });
 
       return NextResponse.json({
         success: true,
-        count: result.count,
-        message: "All read notifications deleted",
+        message: "Notification deleted successfully",
       });
-    }
-
-    if (!notificationId) {
+    } catch (error: any) {
+      console.error("Error deleting notification:", error);
       return NextResponse.json(
-        { error: "notificationId or deleteAll is required" },
-        { status: 400 }
+        { error: error.message || "Internal server error" },
+        { status: 500 }
       );
     }
-
-    // Delete specific notification
-    await prisma.notification.delete({
-      where: {
-        id: notificationId,
-        userId: user.userId,
-      },
-    });
-
-    return NextResponse.json({
-      success: true,
-      message: "Notification deleted successfully",
-    });
-  } catch (error: any) {
-    console.error("Error deleting notification:", error);
-    return NextResponse.json(
-      { error: error.message || "Internal server error" },
-      { status: 500 }
-    );
   }
-}
+);
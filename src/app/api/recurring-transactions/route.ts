@@ -1,26 +1,40 @@
-import { NextRequest, NextResponse } from "next/server";
+import { NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
-import { getCurrentSession } from "@/lib/auth";
+import { withAuth } from "@/lib/route-auth";
 import { z } from "zod";
 
 /**
  * Recurring Transaction Schema
+ *
+ * Dengan `goalId`, recurring menjadi kontribusi goal otomatis dari
+ * `fromWalletId` (disimpan sebagai TRANSFER, `type` diabaikan).
  */
-const RecurringTransactionSchema = z.object({
-  name: z.string().min(1, "Nama harus diisi").max(100),
-  amount: z.number().positive("Jumlah harus lebih dari 0"),
-  type: z.enum(["INCOME", "EXPENSE"]),
-  description: z.string().max(500).optional(),
-  notes: z.string().max(1000).optional(),
-  frequency: z.enum(["DAILY", "WEEKLY", "MONTHLY", "YEARLY"]),
-  startDate: z.string().datetime().or(z.date()),
-  endDate: z.string().datetime().or(z.date()).optional().nullable(),
-  dayOfMonth: z.number().min(1).max(31).optional().nullable(),
-  dayOfWeek: z.number().min(0).max(6).optional().nullable(),
-  categoryId: z.string().uuid().optional().nullable(),
-  fromWalletId: z.string().uuid().optional().nullable(),
-  toWalletId: z.string().uuid().optional().nullable(),
-});
+const RecurringTransactionSchema = z
+  .object({
+    name: z.string().min(1, "Nama harus diisi").max(100),
+    amount: z.number().positive("Jumlah harus lebih dari 0"),
+    type: z.enum(["INCOME", "EXPENSE"]).optional(),
+    description: z.string().max(500).optional(),
+    notes: z.string().max(1000).optional(),
+    frequency: z.enum(["DAILY", "WEEKLY", "MONTHLY", "YEARLY"]),
+    startDate: z.string().datetime().or(z.date()),
+    endDate: z.string().datetime().or(z.date()).optional().nullable(),
+    dayOfMonth: z.number().min(1).max(31).optional().nullable(),
+    dayOfWeek: z.number().min(0).max(6).optional().nullable(),
+    categoryId: z.string().uuid().optional().nullable(),
+    fromWalletId: z.string().uuid().optional().nullable(),
+    toWalletId: z.string().uuid().optional().nullable(),
+    goalId: z.string().optional().nullable(),
+    goalFunding: z.enum(["WALLET_DEBIT", "EARMARK"]).optional().nullable(),
+  })
+  .refine((data) => data.goalId || data.type, {
+    message: "Tipe transaksi harus diisi",
+    path: ["type"],
+  })
+  .refine((data) => !data.goalId || data.fromWalletId, {
+    message: "Kontribusi goal otomatis membutuhkan dompet sumber",
+    path: ["fromWalletId"],
+  });
 
 type RecurringTransactionInput = z.infer<typeof RecurringTransactionSchema>;
 
@@ -68,13 +82,8 @@ function calculateNextDate(
  *
  * Get all recurring transactions for family
  */
-export async function GET(request: NextRequest) {
+export const GET = withAuth(async (request, { session }) => {
   try {
-    const session = await getCurrentSession();
-    if (!session?.userId || !session?.familyId) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-
     const { searchParams } = new URL(request.url);
     const status = searchParams.get("status");
     const type = searchParams.get("type");
@@ -114,6 +123,12 @@ export async function GET(request: NextRequest) {
             name: true,
           },
         },
+        goal: {
+          select: {
+            id: true,
+            name: true,
+          },
+        },
         createdBy: {
           select: {
             id: true,
@@ -135,23 +150,37 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
 /**
  * POST /api/recurring-transactions
  *
  * Create a new recurring transaction
  */
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request, { session }) => {
   try {
-    const session = await getCurrentSession();
-    if (!session?.userId || !session?.familyId) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-
     const body = await request.json();
     const validatedData = RecurringTransactionSchema.parse(body);
 
+    if (validatedData.goalId) {
+      const goal = await prisma.goal.findFirst({
+        where: { id: validatedData.goalId, familyId: session.familyId },
+        select: { status: true },
+      });
+      if (!goal) {
+        return NextResponse.json(
+          { error: "Goal tidak ditemukan" },
+          { status: 404 }
+        );
+      }
+      if (goal.status !== "ACTIVE") {
+        return NextResponse.json(
+          { error: "Goal tidak aktif" },
+          { status: 400 }
+        );
+      }
+    }
+
     const startDate =
       typeof validatedData.startDate === "string"
         ? new Date(validatedData.startDate)
@@ -168,7 +197,7 @@ export async function POST(request: NextRequest) {
       data: {
         name: validatedData.name,
         amount: validatedData.amount,
-        type: validatedData.type,
+        type: validatedData.goalId ? "TRANSFER" : validatedData.type!,
         description: validatedData.description,
         notes: validatedData.notes,
         frequency: validatedData.frequency,
@@ -180,7 +209,11 @@ export async function POST(request: NextRequest) {
         familyId: session.familyId,
         categoryId: validatedData.categoryId,
         fromWalletId: validatedData.fromWalletId,
-        toWalletId: validatedData.toWalletId,
+        toWalletId: validatedData.goalId ? null : validatedData.toWalletId,
+        goalId: validatedData.goalId ?? null,
+        goalFunding: validatedData.goalId
+          ? (validatedData.goalFunding ?? "WALLET_DEBIT")
+          : null,
         createdById: session.userId,
       },
       include: {
@@ -198,6 +231,12 @@ export async function POST(request: NextRequest) {
             name: true,
           },
         },
+        goal: {
+          select: {
+            id: true,
+            name: true,
+          },
+        },
         createdBy: {
           select: {
             id: true,
@@ -220,6 +259,8 @@ export async function POST(request: NextRequest) {
           amount: validatedData.amount,
           frequency: validatedData.frequency,
           type: validatedData.type,
+          goalId: validatedData.goalId ?? null,
+          goalFunding: validatedData.goalFunding ?? null,
         }),
       },
     });
@@ -239,4 +280,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
@@ -1,6 +1,6 @@
-import { NextRequest, NextResponse } from "next/server";
+import { NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
-import { verifyToken } from "@/lib/auth";
+import { withAuth } from "@/lib/route-auth";
 import {
   getMonthInt,
   monthIntToDate,
@@ -15,20 +15,8 @@ import {
  * - month: number (optional, if not provided shows all months)
  * - categoryId: string (optional)
  */
-export async function GET(request: NextRequest) {
+export const GET = withAuth(async (request, { session }) => {
   try {
-    const token = request.cookies.get("auth-token")?.value;
-    if (!token) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-    const user = await verifyToken(token);
-    if (!user || !user.familyId) {
-      return NextResponse.json(
-        { error: "Unauthorized or no family" },
-        { status: 401 }
-      );
-    }
-
     const { searchParams } = new URL(request.url);
     const year = parseInt(
       searchParams.get("year") || new Date().getFullYear().toString()
@@ -50,7 +38,7 @@ export async function GET(request: NextRequest) {
 
       budgets = await prisma.budget.findMany({
         where: {
-          familyId: user.familyId!,
+          familyId: session.familyId,
           month: monthInt,
           year: year,
           ...(categoryId && { categoryId }),
@@ -68,7 +56,7 @@ export async function GET(request: NextRequest) {
 
       budgets = await prisma.budget.findMany({
         where: {
-          familyId: user.familyId!,
+          familyId: session.familyId,
           year: year,
           month: {
             gte: startMonthInt,
@@ -94,7 +82,7 @@ export async function GET(request: NextRequest) {
         // Get actual spending
         const spending = await prisma.transaction.aggregate({
           where: {
-            familyId: user.familyId!,
+            familyId: session.familyId,
             categoryId: budget.categoryId,
             type: "EXPENSE",
             date: { gte: budgetStartDate, lte: budgetEndDate },
@@ -106,7 +94,7 @@ export async function GET(request: NextRequest) {
         // Get transaction details
         const transactions = await prisma.transaction.findMany({
           where: {
-            familyId: user.familyId!,
+            familyId: session.familyId,
             categoryId: budget.categoryId,
             type: "EXPENSE",
             date: { gte: budgetStartDate, lte: budgetEndDate },
@@ -140,7 +128,7 @@ export async function GET(request: NextRequest) {
 
           const previousBudget = await prisma.budget.findFirst({
             where: {
-              familyId: user.familyId!,
+              familyId: session.familyId,
               categoryId: budget.categoryId,
               month: prevMonthInt,
               year: prevYear,
@@ -153,7 +141,7 @@ export async function GET(request: NextRequest) {
 
             const previousSpending = await prisma.transaction.aggregate({
               where: {
-                familyId: user.familyId!,
+                familyId: session.familyId,
                 categoryId: budget.categoryId,
                 type: "EXPENSE",
                 date: { gte: prevMonthStart, lte: prevMonthEnd },
@@ -313,4 +301,4 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
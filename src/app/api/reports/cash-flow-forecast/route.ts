@@ -0,0 +1,114 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { FamilySession, withAuth } from '@/lib/route-auth';
+import {
+  CashFlowForecastInput,
+  cashFlowForecastSchema,
+  getCashFlowForecast,
+} from '@/lib/cash-flow-forecast';
+
+/**
+ * GET /api/reports/cash-flow-forecast
+ *
+ * Forward per-wallet balance forecast from recurring transactions, liability
+ * installments and remaining budgets, flagging days a wallet goes negative
+ *
+ * Query params:
+ * - days?: jumlah hari proyeksi (default 90, misal 90 atau 180)
+ * - walletIds?: daftar wallet dipisah koma (default semua wallet aktif)
+ * - includeBudgets?: "false" untuk mengabaikan sisa budget
+ *
+ * @example
+ * ```typescript
+ * const response = await fetch('/api/reports/cash-flow-forecast?days=180');
+ * const { wallets, alerts } = await response.json();
+ * ```
+ */
+export const GET = withAuth(async (request, { session }) => {
+  const { searchParams } = request.nextUrl;
+  const walletIds = searchParams.get('walletIds');
+
+  return handleForecast(session, () =>
+    cashFlowForecastSchema.parse({
+      days: searchParams.get('days') ?? undefined,
+      walletIds: walletIds ? walletIds.split(',').filter(Boolean) : undefined,
+      includeBudgets: searchParams.get('includeBudgets') !== 'false',
+    })
+  );
+});
+
+/**
+ * POST /api/reports/cash-flow-forecast
+ *
+ * Same forecast with one-off planned items for what-if scenarios. Item
+ * terencana tidak disimpan.
+ *
+ * @example
+ * ```typescript
+ * const response = await fetch('/api/reports/cash-flow-forecast', {
+ *   method: 'POST',
+ *   body: JSON.stringify({
+ *     days: 90,
+ *     plannedItems: [
+ *       {
+ *         description: 'Servis mobil',
+ *         type: 'EXPENSE',
+ *         amount: 2500000,
+ *         date: '2025-02-15T00:00:00.000Z',
+ *         walletId: 'wallet_123',
+ *       },
+ *     ],
+ *   })
+ * });
+ * ```
+ */
+export const POST = withAuth(
+  // Hanya menghitung proyeksi, tidak mengubah data
+  { access: 'read' },
+  async (request, { session }) => {
+    const body = await request.json().catch(() => ({}));
+    return handleForecast(session, () => cashFlowForecastSchema.parse(body));
+  }
+);
+
+async function handleForecast(
+  session: FamilySession,
+  parseInput: () => CashFlowForecastInput
+) {
+  try {
+    const input = parseInput();
+    const forecast = await getCashFlowForecast(prisma, session.familyId, input);
+
+    return NextResponse.json(forecast);
+  } catch (error) {
+    console.error('Cash flow forecast error:', error);
+
+    if (error instanceof z.ZodError) {
+      const firstError = error.errors[0];
+      return NextResponse.json(
+        {
+          error: firstError.message,
+          code: 'VALIDATION_ERROR',
+          field: firstError.path.join('.'),
+        },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof Error && error.message.includes('tidak ditemukan')) {
+      return NextResponse.json(
+        { error: error.message, code: 'NOT_FOUND' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        error: 'Terjadi kesalahan saat membuat proyeksi arus kas',
+        code: 'INTERNAL_ERROR',
+      },
+      { status: 500 }
+    );
+  }
+}
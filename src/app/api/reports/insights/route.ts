@@ -1,7 +1,8 @@
-import { NextRequest, NextResponse } from "next/server";
+import { NextResponse } from "next/server";
 import prisma from "@/lib/prisma";
-import { verifyToken } from "@/lib/auth";
+import { withAuth } from "@/lib/route-auth";
 import { getMonthInt, getMonthDateRange } from "@/lib/date-helpers";
+import { sumMoney } from "@/lib/money";
 
 interface SpendingPattern {
   category: string;
@@ -35,20 +36,8 @@ interface Recommendation {
  * Query params:
  * - months: number of months to analyze (default: 3)
  */
-export async function GET(request: NextRequest) {
+export const GET = withAuth(async (request, { session }) => {
   try {
-    const token = request.cookies.get("auth-token")?.value;
-    if (!token) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-    const user = await verifyToken(token);
-    if (!user || !user.familyId) {
-      return NextResponse.json(
-        { error: "Unauthorized or no family" },
-        { status: 401 }
-      );
-    }
-
     const { searchParams } = new URL(request.url);
     const monthsToAnalyze = parseInt(searchParams.get("months") || "3");
 
@@ -59,7 +48,7 @@ export async function GET(request: NextRequest) {
     // Get all transactions in the period
     const transactions = await prisma.transaction.findMany({
       where: {
-        familyId: user.familyId,
+        familyId: session.familyId,
         date: { gte: startDate, lte: endDate },
       },
       include: {
@@ -70,7 +59,7 @@ export async function GET(request: NextRequest) {
 
     // === SPENDING PATTERNS ANALYSIS ===
     const spendingPatterns = await analyzeSpendingPatterns(
-      user.familyId,
+      session.familyId,
       startDate,
       endDate,
       monthsToAnalyze
@@ -78,7 +67,7 @@ export async function GET(request: NextRequest) {
 
     // === ANOMALY DETECTION ===
     const anomalies = await detectAnomalies(
-      user.familyId,
+      session.familyId,
       transactions,
       startDate,
       endDate
@@ -86,7 +75,7 @@ export async function GET(request: NextRequest) {
 
     // === RECOMMENDATIONS ===
     const recommendations = await generateRecommendations(
-      user.familyId,
+      session.familyId,
       transactions,
       spendingPatterns,
       anomalies,
@@ -96,7 +85,7 @@ export async function GET(request: NextRequest) {
 
     // === PREDICTIVE INSIGHTS ===
     const predictions = await generatePredictions(
-      user.familyId,
+      session.familyId,
       startDate,
       endDate,
       monthsToAnalyze
@@ -104,7 +93,7 @@ export async function GET(request: NextRequest) {
 
     // === SAVINGS OPPORTUNITIES ===
     const savingsOpportunities = await findSavingsOpportunities(
-      user.familyId,
+      session.familyId,
       spendingPatterns,
       startDate,
       endDate
@@ -112,7 +101,7 @@ export async function GET(request: NextRequest) {
 
     // === FINANCIAL HEALTH SCORE ===
     const healthScore = await calculateFinancialHealthScore(
-      user.familyId,
+      session.familyId,
       transactions,
       startDate,
       endDate
@@ -140,9 +129,9 @@ export async function GET(request: NextRequest) {
         totalAnomalies: anomalies.length,
         criticalAnomalies: anomalies.filter((a) => a.severity === "high")
           .length,
-        potentialMonthlySavings: savingsOpportunities.reduce(
-          (sum, s) => sum + s.potentialSavings,
-          0
+        potentialMonthlySavings: sumMoney(
+          savingsOpportunities,
+          (s) => s.potentialSavings
         ),
       },
     });
@@ -156,7 +145,7 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
 /**
  * Analyze spending patterns by category
@@ -247,7 +236,7 @@ async function detectAnomalies(
   // Calculate average spending per transaction
   const expenses = transactions.filter((t) => t.type === "EXPENSE");
   const avgExpense =
-    expenses.reduce((sum, t) => sum + Number(t.amount), 0) / expenses.length;
+    sumMoney(expenses, (t) => Number(t.amount)) / expenses.length;
   const stdDev = calculateStdDev(expenses.map((t) => Number(t.amount)));
 
   // Detect unusually high transactions (2 standard deviations above mean)
@@ -372,12 +361,14 @@ async function generateRecommendations(
   const recommendations: Recommendation[] = [];
 
   // Analyze income vs expenses
-  const income = transactions
-    .filter((t) => t.type === "INCOME")
-    .reduce((sum, t) => sum + Number(t.amount), 0);
-  const expenses = transactions
-    .filter((t) => t.type === "EXPENSE")
-    .reduce((sum, t) => sum + Number(t.amount), 0);
+  const income = sumMoney(
+    transactions.filter((t) => t.type === "INCOME"),
+    (t) => Number(t.amount)
+  );
+  const expenses = sumMoney(
+    transactions.filter((t) => t.type === "EXPENSE"),
+    (t) => Number(t.amount)
+  );
 
   const savingsRate = income > 0 ? ((income - expenses) / income) * 100 : 0;
 
@@ -439,7 +430,7 @@ async function generateRecommendations(
     where: { familyId },
   });
 
-  const totalBalance = wallets.reduce((sum, w) => sum + Number(w.balance), 0);
+  const totalBalance = sumMoney(wallets, (w) => Number(w.balance));
   const monthlyExpenses = expenses / 3; // avg of last 3 months
   const emergencyFundMonths =
     monthlyExpenses > 0 ? totalBalance / monthlyExpenses : 0;
@@ -589,14 +580,14 @@ async function generatePredictions(
         incomeTrend > 5
           ? "increasing"
           : incomeTrend < -5
-          ? "decreasing"
-          : "stable",
+            ? "decreasing"
+            : "stable",
       expense:
         expenseTrend > 5
           ? "increasing"
           : expenseTrend < -5
-          ? "decreasing"
-          : "stable",
+            ? "decreasing"
+            : "stable",
     },
     averages: {
       monthlyIncome: avgIncome,
@@ -654,8 +645,8 @@ async function findSavingsOpportunities(
         reductionPercentage >= 20
           ? "hard"
           : reductionPercentage >= 15
-          ? "medium"
-          : "easy",
+            ? "medium"
+            : "easy",
       description: `Kurangi pengeluaran ${
         category.category
       } sebesar ${reductionPercentage}% untuk menghemat Rp ${suggestedReduction.toLocaleString(
@@ -683,12 +674,14 @@ async function calculateFinancialHealthScore(
   > = {};
 
   // 1. Savings Rate (30 points)
-  const income = transactions
-    .filter((t) => t.type === "INCOME")
-    .reduce((sum, t) => sum + Number(t.amount), 0);
-  const expenses = transactions
-    .filter((t) => t.type === "EXPENSE")
-    .reduce((sum, t) => sum + Number(t.amount), 0);
+  const income = sumMoney(
+    transactions.filter((t) => t.type === "INCOME"),
+    (t) => Number(t.amount)
+  );
+  const expenses = sumMoney(
+    transactions.filter((t) => t.type === "EXPENSE"),
+    (t) => Number(t.amount)
+  );
 
   const savingsRate = income > 0 ? ((income - expenses) / income) * 100 : 0;
   const savingsScore = Math.min(30, (savingsRate / 30) * 30);
@@ -711,7 +704,7 @@ async function calculateFinancialHealthScore(
 
   // 3. Emergency Fund (25 points)
   const wallets = await prisma.wallet.findMany({ where: { familyId } });
-  const totalBalance = wallets.reduce((sum, w) => sum + Number(w.balance), 0);
+  const totalBalance = sumMoney(wallets, (w) => Number(w.balance));
   const monthlyExpense = expenses / 3;
   const emergencyMonths =
     monthlyExpense > 0 ? totalBalance / monthlyExpense : 0;
@@ -759,10 +752,10 @@ async function calculateFinancialHealthScore(
       score >= 80
         ? "Excellent"
         : score >= 60
-        ? "Good"
-        : score >= 40
-        ? "Fair"
-        : "Needs Improvement",
+          ? "Good"
+          : score >= 40
+            ? "Fair"
+            : "Needs Improvement",
     breakdown,
   };
 }
@@ -1,7 +1,13 @@
-import { NextRequest, NextResponse } from "next/server";
+import { NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
-import { verifyToken } from "@/lib/auth";
+import { withAuth } from "@/lib/route-auth";
 import { getMonthInt } from "@/lib/date-helpers";
+import { getCategorySpending } from "@/lib/transaction-ledger";
+import {
+  getConversionDate,
+  getCurrencyConverter,
+  sumTransactionsInBase,
+} from "@/lib/currency";
 
 /**
  * GET /api/reports/monthly
@@ -10,20 +16,8 @@ import { getMonthInt } from "@/lib/date-helpers";
  * - year: number
  * - month: number (1-12)
  */
-export async function GET(request: NextRequest) {
+export const GET = withAuth(async (request, { session }) => {
   try {
-    const token = request.cookies.get("auth-token")?.value;
-    if (!token) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-    const user = await verifyToken(token);
-    if (!user || !user.familyId) {
-      return NextResponse.json(
-        { error: "Unauthorized or no family" },
-        { status: 401 }
-      );
-    }
-
     const { searchParams } = new URL(request.url);
     const year = parseInt(
       searchParams.get("year") || new Date().getFullYear().toString()
@@ -35,82 +29,79 @@ export async function GET(request: NextRequest) {
     const startDate = new Date(year, month - 1, 1);
     const endDate = new Date(year, month, 0, 23, 59, 59);
 
+    // All amounts are reported in the family base currency
+    const converter = await getCurrencyConverter(prisma, session.familyId);
+    const conversionDate = getConversionDate(endDate);
+
     // Get income summary
-    const income = await prisma.transaction.aggregate({
-      where: {
-        familyId: user.familyId,
+    const income = await sumTransactionsInBase(
+      prisma,
+      converter,
+      {
+        familyId: session.familyId,
         type: "INCOME",
         date: { gte: startDate, lte: endDate },
       },
-      _sum: { amount: true },
-      _count: true,
-    });
+      conversionDate
+    );
 
     // Get expense summary
-    const expense = await prisma.transaction.aggregate({
-      where: {
-        familyId: user.familyId,
+    const expense = await sumTransactionsInBase(
+      prisma,
+      converter,
+      {
+        familyId: session.familyId,
         type: "EXPENSE",
         date: { gte: startDate, lte: endDate },
       },
-      _sum: { amount: true },
-      _count: true,
-    });
+      conversionDate
+    );
 
-    // Get expense by category
-    const expenseByCategory = await prisma.transaction.groupBy({
-      by: ["categoryId"],
-      where: {
-        familyId: user.familyId,
-        type: "EXPENSE",
-        date: { gte: startDate, lte: endDate },
-      },
-      _sum: { amount: true },
-      _count: true,
-    });
+    // Get expense by category (split transactions per split line,
+    // subcategories counted under their parent)
+    const expenseByCategory = await getCategorySpending(
+      prisma,
+      session.familyId,
+      { start: startDate, end: endDate },
+      { type: "EXPENSE", converter, rollup: true }
+    );
 
     const categoriesWithData = await Promise.all(
-      expenseByCategory.map(async (item) => {
-        const category = item.categoryId
-          ? await prisma.category.findUnique({ where: { id: item.categoryId } })
+      [...expenseByCategory].map(async ([categoryId, item]) => {
+        const category = categoryId
+          ? await prisma.category.findUnique({ where: { id: categoryId } })
           : null;
 
         return {
-          categoryId: item.categoryId,
+          categoryId,
           categoryName: category?.name || "Uncategorized",
-          amount: item._sum.amount,
-          count: item._count,
+          amount: item.amount,
+          count: item.count,
           percentage:
-            Number(expense._sum.amount) > 0
-              ? (Number(item._sum.amount) / Number(expense._sum.amount)) * 100
-              : 0,
+            expense.amount > 0 ? (item.amount / expense.amount) * 100 : 0,
         };
       })
     );
 
     // Get income by category
-    const incomeByCategory = await prisma.transaction.groupBy({
-      by: ["categoryId"],
-      where: {
-        familyId: user.familyId,
-        type: "INCOME",
-        date: { gte: startDate, lte: endDate },
-      },
-      _sum: { amount: true },
-      _count: true,
-    });
+    const incomeByCategory = await getCategorySpending(
+      prisma,
+      session.familyId,
+      { start: startDate, end: endDate },
+      { type: "INCOME", converter, rollup: true }
+    );
 
     const incomeCategoriesWithData = await Promise.all(
-      incomeByCategory.map(async (item) => {
-        const category = item.categoryId
-          ? await prisma.category.findUnique({ where: { id: item.categoryId } })
+      [...incomeByCategory].map(async ([categoryId, item]) => {
+        const category = categoryId
+          ? await prisma.category.findUnique({ where: { id: categoryId } })
           : null;
 
         return {
-          categoryId: item.categoryId,
+          categoryId,
           categoryName: category?.name || "Uncategorized",
-          amount: item._sum.amount,
-          count: item._count,
+          amount: item.amount,
+          count: item.count,
         };
       })
     );
@@ -118,13 +109,14 @@ export async function GET(request: NextRequest) {
     // Get daily trends
     const transactions = await prisma.transaction.findMany({
       where: {
-        familyId: user.familyId,
+        familyId: session.familyId,
         date: { gte: startDate, lte: endDate },
       },
       select: {
         date: true,
         type: true,
         amount: true,
+        currency: true,
       },
       orderBy: { date: "asc" },
     });
@@ -141,10 +133,11 @@ export async function GET(request: NextRequest) {
         dailyData[day] = { income: 0, expense: 0, net: 0 };
       }
 
+      const amount = converter.toBase(Number(tx.amount), tx.currency, tx.date);
       if (tx.type === "INCOME") {
-        dailyData[day].income += Number(tx.amount);
+        dailyData[day].income += amount;
       } else if (tx.type === "EXPENSE") {
-        dailyData[day].expense += Number(tx.amount);
+        dailyData[day].expense += amount;
       }
 
       dailyData[day].net = dailyData[day].income - dailyData[day].expense;
@@ -154,7 +147,7 @@ export async function GET(request: NextRequest) {
     const monthInt = getMonthInt(startDate);
     const budgets = await prisma.budget.findMany({
       where: {
-        familyId: user.familyId!,
+        familyId: session.familyId,
         month: monthInt,
         year: year,
       },
@@ -165,17 +158,16 @@ export async function GET(request: NextRequest) {
 
     const budgetComparison = await Promise.all(
       budgets.map(async (budget) => {
-        const spent = await prisma.transaction.aggregate({
-          where: {
-            familyId: user.familyId!,
-            categoryId: budget.categoryId,
-            type: "EXPENSE",
-            date: { gte: startDate, lte: endDate },
-          },
-          _sum: { amount: true },
-        });
+        const spending = await getCategorySpending(
+          prisma,
+          session.familyId,
+          { start: startDate, end: endDate },
+          budget.categoryId
+            ? { categoryIds: [budget.categoryId], converter, rollup: true }
+            : { converter }
+        );
 
-        const spentAmount = Number(spent._sum?.amount || 0);
+        const spentAmount = spending.get(budget.categoryId)?.amount ?? 0;
         const budgetAmount = Number(budget.amount);
         const remaining = budgetAmount - spentAmount;
         const percentage = (spentAmount / budgetAmount) * 100;
@@ -195,25 +187,26 @@ export async function GET(request: NextRequest) {
 
     // Get wallet balances
     const wallets = await prisma.wallet.findMany({
-      where: { familyId: user.familyId },
+      where: { familyId: session.familyId },
       select: {
         id: true,
         name: true,
         balance: true,
+        currency: true,
         type: true,
       },
     });
 
     // Calculate totals
-    const totalIncome = Number(income._sum.amount || 0);
-    const totalExpense = Number(expense._sum.amount || 0);
+    const totalIncome = income.amount;
+    const totalExpense = expense.amount;
     const netSavings = totalIncome - totalExpense;
     const savingsRate = totalIncome > 0 ? (netSavings / totalIncome) * 100 : 0;
 
     // Get top expenses
     const topExpenses = await prisma.transaction.findMany({
       where: {
-        familyId: user.familyId,
+        familyId: session.familyId,
         type: "EXPENSE",
         date: { gte: startDate, lte: endDate },
       },
@@ -236,9 +229,10 @@ export async function GET(request: NextRequest) {
         totalExpense,
         netSavings,
         savingsRate,
-        incomeTransactions: income._count,
-        expenseTransactions: expense._count,
+        incomeTransactions: income.count,
+        expenseTransactions: expense.count,
       },
+      currency: converter.baseCurrency,
       categoryBreakdown: {
         expenses: categoriesWithData.sort(
           (a, b) => Number(b.amount) - Number(a.amount)
@@ -258,8 +252,10 @@ export async function GET(request: NextRequest) {
         date: tx.date,
         description: tx.description,
         amount: tx.amount,
+        currency: tx.currency,
         category: tx.category?.name || "Uncategorized",
       })),
+      missingRates: [...converter.missingCurrencies],
     });
   } catch (error) {
     console.error("[Monthly Report] Error:", error);
@@ -270,4 +266,4 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
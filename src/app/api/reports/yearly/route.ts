@@ -1,6 +1,13 @@
-import { NextRequest, NextResponse } from "next/server";
+import { NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
-import { verifyToken } from "@/lib/auth";
+import { withAuth } from "@/lib/route-auth";
+import { getCategorySpending } from "@/lib/transaction-ledger";
+import {
+  getConversionDate,
+  getCurrencyConverter,
+  sumTransactionsInBase,
+} from "@/lib/currency";
+import { sumMoney } from "@/lib/money";
 
 /**
  * GET /api/reports/yearly
@@ -8,20 +15,8 @@ import { verifyToken } from "@/lib/auth";
  * Query params:
  * - year: number
  */
-export async function GET(request: NextRequest) {
+export const GET = withAuth(async (request, { session }) => {
   try {
-    const token = request.cookies.get("auth-token")?.value;
-    if (!token) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-    const user = await verifyToken(token);
-    if (!user || !user.familyId) {
-      return NextResponse.json(
-        { error: "Unauthorized or no family" },
-        { status: 401 }
-      );
-    }
-
     const { searchParams } = new URL(request.url);
     const year = parseInt(
       searchParams.get("year") || new Date().getFullYear().toString()
@@ -30,26 +25,32 @@ export async function GET(request: NextRequest) {
     const startDate = new Date(year, 0, 1);
     const endDate = new Date(year, 11, 31, 23, 59, 59);
 
+    // All amounts are reported in the family base currency
+    const converter = await getCurrencyConverter(prisma, session.familyId);
+    const conversionDate = getConversionDate(endDate);
+
     // Get yearly summary
-    const income = await prisma.transaction.aggregate({
-      where: {
-        familyId: user.familyId,
+    const income = await sumTransactionsInBase(
+      prisma,
+      converter,
+      {
+        familyId: session.familyId,
         type: "INCOME",
         date: { gte: startDate, lte: endDate },
       },
-      _sum: { amount: true },
-      _count: true,
-    });
+      conversionDate
+    );
 
-    const expense = await prisma.transaction.aggregate({
-      where: {
-        familyId: user.familyId,
+    const expense = await sumTransactionsInBase(
+      prisma,
+      converter,
+      {
+        familyId: session.familyId,
         type: "EXPENSE",
         date: { gte: startDate, lte: endDate },
       },
-      _sum: { amount: true },
-      _count: true,
-    });
+      conversionDate
+    );
 
     // Get monthly breakdown
     const monthlyData = await Promise.all(
@@ -57,26 +58,30 @@ export async function GET(request: NextRequest) {
         const monthStart = new Date(year, i, 1);
         const monthEnd = new Date(year, i + 1, 0, 23, 59, 59);
 
-        const monthIncome = await prisma.transaction.aggregate({
-          where: {
-            familyId: user.familyId!,
+        const monthIncome = await sumTransactionsInBase(
+          prisma,
+          converter,
+          {
+            familyId: session.familyId,
             type: "INCOME",
             date: { gte: monthStart, lte: monthEnd },
           },
-          _sum: { amount: true },
-        });
+          getConversionDate(monthEnd)
+        );
 
-        const monthExpense = await prisma.transaction.aggregate({
-          where: {
-            familyId: user.familyId!,
+        const monthExpense = await sumTransactionsInBase(
+          prisma,
+          converter,
+          {
+            familyId: session.familyId,
             type: "EXPENSE",
             date: { gte: monthStart, lte: monthEnd },
           },
-          _sum: { amount: true },
-        });
+          getConversionDate(monthEnd)
+        );
 
-        const incomeAmount = Number(monthIncome._sum?.amount || 0);
-        const expenseAmount = Number(monthExpense._sum?.amount || 0);
+        const incomeAmount = monthIncome.amount;
+        const expenseAmount = monthExpense.amount;
         const net = incomeAmount - expenseAmount;
 
         return {
@@ -93,59 +98,50 @@ export async function GET(request: NextRequest) {
     );
 
     // Get category breakdown for the year
-    const expenseByCategory = await prisma.transaction.groupBy({
-      by: ["categoryId"],
-      where: {
-        familyId: user.familyId,
-        type: "EXPENSE",
-        date: { gte: startDate, lte: endDate },
-      },
-      _sum: { amount: true },
-      _count: true,
-    });
+    // (split transactions per split line, subcategories under their parent)
+    const expenseByCategory = await getCategorySpending(
+      prisma,
+      session.familyId,
+      { start: startDate, end: endDate },
+      { type: "EXPENSE", converter, rollup: true }
+    );
 
     const categoriesWithData = await Promise.all(
-      expenseByCategory.map(async (item) => {
-        const category = item.categoryId
-          ? await prisma.category.findUnique({ where: { id: item.categoryId } })
+      [...expenseByCategory].map(async ([categoryId, item]) => {
+        const category = categoryId
+          ? await prisma.category.findUnique({ where: { id: categoryId } })
           : null;
 
         return {
-          categoryId: item.categoryId,
+          categoryId,
           categoryName: category?.name || "Uncategorized",
-          amount: item._sum.amount,
-          count: item._count,
+          amount: item.amount,
+          count: item.count,
           percentage:
-            Number(expense._sum.amount) > 0
-              ? (Number(item._sum.amount) / Number(expense._sum.amount)) * 100
-              : 0,
+            expense.amount > 0 ? (item.amount / expense.amount) * 100 : 0,
         };
       })
     );
 
     // Get income by category
-    const incomeByCategory = await prisma.transaction.groupBy({
-      by: ["categoryId"],
-      where: {
-        familyId: user.familyId,
-        type: "INCOME",
-        date: { gte: startDate, lte: endDate },
-      },
-      _sum: { amount: true },
-      _count: true,
-    });
+    const incomeByCategory = await getCategorySpending(
+      prisma,
+      session.familyId,
+      { start: startDate, end: endDate },
+      { type: "INCOME", converter, rollup: true }
+    );
 
     const incomeCategoriesWithData = await Promise.all(
-      incomeByCategory.map(async (item) => {
-        const category = item.categoryId
-          ? await prisma.category.findUnique({ where: { id: item.categoryId } })
+      [...incomeByCategory].map(async ([categoryId, item]) => {
+        const category = categoryId
+          ? await prisma.category.findUnique({ where: { id: categoryId } })
           : null;
 
         return {
-          categoryId: item.categoryId,
+          categoryId,
           categoryName: category?.name || "Uncategorized",
-          amount: item._sum.amount,
-          count: item._count,
+          amount: item.amount,
+          count: item.count,
         };
       })
     );
@@ -156,26 +152,30 @@ export async function GET(request: NextRequest) {
         const qStart = new Date(year, startMonth, 1);
         const qEnd = new Date(year, startMonth + 3, 0, 23, 59, 59);
 
-        const qIncome = await prisma.transaction.aggregate({
-          where: {
-            familyId: user.familyId!,
+        const qIncome = await sumTransactionsInBase(
+          prisma,
+          converter,
+          {
+            familyId: session.familyId,
             type: "INCOME",
             date: { gte: qStart, lte: qEnd },
           },
-          _sum: { amount: true },
-        });
+          getConversionDate(qEnd)
+        );
 
-        const qExpense = await prisma.transaction.aggregate({
-          where: {
-            familyId: user.familyId!,
+        const qExpense = await sumTransactionsInBase(
+          prisma,
+          converter,
+          {
+            familyId: session.familyId,
             type: "EXPENSE",
             date: { gte: qStart, lte: qEnd },
           },
-          _sum: { amount: true },
-        });
+          getConversionDate(qEnd)
+        );
 
-        const incomeAmount = Number(qIncome._sum?.amount || 0);
-        const expenseAmount = Number(qExpense._sum?.amount || 0);
+        const incomeAmount = qIncome.amount;
+        const expenseAmount = qExpense.amount;
 
         return {
           quarter: index + 1,
@@ -189,7 +189,7 @@ export async function GET(request: NextRequest) {
     // Get goals progress
     const goals = await prisma.goal.findMany({
       where: {
-        familyId: user.familyId!,
+        familyId: session.familyId,
         OR: [
           { deadline: { gte: startDate, lte: endDate } },
           { status: "ACTIVE" },
@@ -225,8 +225,8 @@ export async function GET(request: NextRequest) {
     );
 
     // Calculate totals and averages
-    const totalIncome = Number(income._sum.amount || 0);
-    const totalExpense = Number(expense._sum.amount || 0);
+    const totalIncome = income.amount;
+    const totalExpense = expense.amount;
     const netSavings = totalIncome - totalExpense;
     const savingsRate = totalIncome > 0 ? (netSavings / totalIncome) * 100 : 0;
     const avgMonthlyIncome = totalIncome / 12;
@@ -234,24 +234,24 @@ export async function GET(request: NextRequest) {
 
     // Get wallet summary
     const wallets = await prisma.wallet.findMany({
-      where: { familyId: user.familyId },
+      where: { familyId: session.familyId },
       select: {
         id: true,
         name: true,
         balance: true,
+        currency: true,
         type: true,
       },
     });
 
-    const totalBalance = wallets.reduce(
-      (sum, wallet) => sum + Number(wallet.balance),
-      0
+    const totalBalance = sumMoney(wallets, (wallet) =>
+      converter.toBase(Number(wallet.balance), wallet.currency)
     );
 
     // Get top expenses of the year
     const topExpenses = await prisma.transaction.findMany({
       where: {
-        familyId: user.familyId,
+        familyId: session.familyId,
         type: "EXPENSE",
         date: { gte: startDate, lte: endDate },
       },
@@ -272,9 +272,10 @@ export async function GET(request: NextRequest) {
         avgMonthlyIncome,
         avgMonthlyExpense,
         totalBalance,
-        incomeTransactions: income._count,
-        expenseTransactions: expense._count,
+        incomeTransactions: income.count,
+        expenseTransactions: expense.count,
       },
+      currency: converter.baseCurrency,
       monthlyBreakdown: monthlyData,
       quarterlyBreakdown: quarters,
       categoryBreakdown: {
@@ -292,8 +293,10 @@ export async function GET(request: NextRequest) {
         date: tx.date,
         description: tx.description,
         amount: tx.amount,
+        currency: tx.currency,
         category: tx.category?.name || "Uncategorized",
       })),
+      missingRates: [...converter.missingCurrencies],
     });
   } catch (error) {
     console.error("[Yearly Report] Error:", error);
@@ -304,4 +307,4 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
@@ -0,0 +1,272 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { TransactionType } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { withAuth } from "@/lib/route-auth";
+import { PrismaErrorHandler } from "@/lib/prisma-helpers";
+import { applyRules, ruleMatches } from "@/lib/categorization-rules";
+import { recalculateBudgetSpent } from "@/lib/transaction-ledger";
+
+const ApplyRuleSchema = z.object({
+  dryRun: z.boolean().default(true),
+  overwrite: z.boolean().default(false),
+  startDate: z
+    .string()
+    .datetime({ message: "Format tanggal tidak valid" })
+    .optional(),
+  endDate: z
+    .string()
+    .datetime({ message: "Format tanggal tidak valid" })
+    .optional(),
+  limit: z.number().int().min(1).max(5000).default(1000),
+});
+
+type ApplyRuleInput = z.infer<typeof ApplyRuleSchema>;
+
+/**
+ * POST /api/rules/[id]/apply
+ *
+ * Test a rule against historical transactions (dryRun, default) or re-apply
+ * it in bulk. Dengan `overwrite: false` hanya kategori/catatan yang kosong
+ * yang diisi; tag selalu digabung.
+ *
+ * @example
+ * ```typescript
+ * // Preview
+ * await fetch(`/api/rules/${id}/apply`, {
+ *   method: 'POST',
+ *   body: JSON.stringify({ startDate: '2025-01-01T00:00:00.000Z' })
+ * });
+ * // Apply
+ * await fetch(`/api/rules/${id}/apply`, {
+ *   method: 'POST',
+ *   body: JSON.stringify({ dryRun: false, overwrite: true })
+ * });
+ * ```
+ */
+export const POST = withAuth<{ id: string }>(
+  async (request, { session, params }) => {
+    const { id } = await params;
+    try {
+      const body = await request.json().catch(() => ({}));
+      const validatedData: ApplyRuleInput = ApplyRuleSchema.parse(body);
+
+      if (!validatedData.dryRun && session.role !== "ADMIN") {
+        return NextResponse.json(
+          {
+            error: "Akses ditolak",
+            message: "Hanya admin yang dapat menerapkan aturan kategori",
+          },
+          { status: 403 }
+        );
+      }
+
+      const rule = await prisma.categorizationRule.findFirst({
+        where: { id, familyId: session.familyId },
+        include: { category: { select: { type: true } } },
+      });
+
+      if (!rule) {
+        return NextResponse.json(
+          { error: "Aturan kategori tidak ditemukan", code: "NOT_FOUND" },
+          { status: 404 }
+        );
+      }
+
+      const transactions = await prisma.transaction.findMany({
+        where: {
+          familyId: session.familyId,
+          ...(rule.transactionType && { type: rule.transactionType }),
+          ...((validatedData.startDate || validatedData.endDate) && {
+            date: {
+              ...(validatedData.startDate && {
+                gte: new Date(validatedData.startDate),
+              }),
+              ...(validatedData.endDate && {
+                lte: new Date(validatedData.endDate),
+              }),
+            },
+          }),
+        },
+        select: {
+          id: true,
+          type: true,
+          amount: true,
+          description: true,
+          date: true,
+          notes: true,
+          tags: true,
+          categoryId: true,
+          fromWalletId: true,
+          toWalletId: true,
+          userId: true,
+        },
+        orderBy: { date: "desc" },
+        take: validatedData.limit,
+      });
+
+      // Evaluate the rule and keep only transactions that would change
+      let matched = 0;
+      const changes = transactions.flatMap((transaction) => {
+        if (!ruleMatches(rule, transaction)) return [];
+        matched++;
+
+        const after = applyRules([rule], transaction, validatedData.overwrite);
+        const changed =
+          after.categoryId !== transaction.categoryId ||
+          after.notes !== transaction.notes ||
+          after.tags.join(",") !== transaction.tags.join(",");
+
+        if (!changed) return [];
+
+        return [
+          {
+            transaction,
+            before: {
+              categoryId: transaction.categoryId,
+              notes: transaction.notes,
+              tags: transaction.tags,
+            },
+            after: {
+              categoryId: after.categoryId,
+              notes: after.notes,
+              tags: after.tags,
+            },
+          },
+        ];
+      });
+
+      const preview = changes.map(({ transaction, before, after }) => ({
+        transactionId: transaction.id,
+        date: transaction.date,
+        description: transaction.description,
+        amount: transaction.amount,
+        type: transaction.type,
+        before,
+        after,
+      }));
+
+      if (validatedData.dryRun || changes.length === 0) {
+        return NextResponse.json({
+          dryRun: validatedData.dryRun,
+          scanned: transactions.length,
+          matched,
+          changed: changes.length,
+          changes: preview,
+        });
+      }
+
+      // Satu updateMany per hasil yang sama (kategori/catatan/tag), agar
+      // ribuan transaksi tidak diperbarui satu per satu dalam satu
+      // database transaction
+      const batches = new Map<
+        string,
+        { data: (typeof changes)[number]["after"]; ids: string[] }
+      >();
+      for (const { transaction, after } of changes) {
+        const key = JSON.stringify([after.categoryId, after.notes, after.tags]);
+        const batch = batches.get(key) ?? { data: after, ids: [] };
+        batch.ids.push(transaction.id);
+        batches.set(key, batch);
+      }
+
+      await prisma.$transaction(async (tx) => {
+        for (const { data, ids } of batches.values()) {
+          await tx.transaction.updateMany({
+            where: { id: { in: ids } },
+            data,
+          });
+        }
+
+        // Recompute budgets once per old and new category/month
+        const budgetEntries = new Map<
+          string,
+          { type: TransactionType; categoryId: string; date: Date }
+        >();
+        for (const { transaction, before, after } of changes) {
+          for (const categoryId of [before.categoryId, after.categoryId]) {
+            if (!categoryId) continue;
+            const key = `${categoryId}:${transaction.date.getFullYear()}-${transaction.date.getMonth()}`;
+            budgetEntries.set(key, {
+              type: transaction.type,
+              categoryId,
+              date: transaction.date,
+            });
+          }
+        }
+        for (const entry of budgetEntries.values()) {
+          await recalculateBudgetSpent(tx, session.familyId, entry);
+        }
+
+        await tx.categorizationRule.update({
+          where: { id },
+          data: {
+            matchCount: { increment: changes.length },
+            lastMatchedAt: new Date(),
+          },
+        });
+
+        await tx.auditLog.create({
+          data: {
+            action: "APPLY_RULE",
+            entityType: "CategorizationRule",
+            entityId: id,
+            dataBefore: JSON.stringify(
+              changes.map((c) => ({ id: c.transaction.id, ...c.before }))
+            ),
+            dataAfter: JSON.stringify(
+              changes.map((c) => ({ id: c.transaction.id, ...c.after }))
+            ),
+            details: JSON.stringify({
+              overwrite: validatedData.overwrite,
+              startDate: validatedData.startDate,
+              endDate: validatedData.endDate,
+              changed: changes.length,
+            }),
+            userId: session.userId,
+            familyId: session.familyId,
+          },
+        });
+      });
+
+      return NextResponse.json({
+        message: `${changes.length} transaksi diperbarui`,
+        dryRun: false,
+        scanned: transactions.length,
+        matched,
+        changed: changes.length,
+        changes: preview,
+      });
+    } catch (error) {
+      console.error("Apply rule error:", error);
+
+      if (error instanceof z.ZodError) {
+        const firstError = error.errors[0];
+        return NextResponse.json(
+          {
+            error: firstError.message,
+            code: "VALIDATION_ERROR",
+            field: firstError.path.join("."),
+          },
+          { status: 400 }
+        );
+      }
+
+      if (error && typeof error === "object" && "code" in error) {
+        const prismaError = PrismaErrorHandler.handle(error);
+        return NextResponse.json(
+          { error: prismaError.message, code: prismaError.code },
+          { status: 400 }
+        );
+      }
+
+      return NextResponse.json(
+        {
+          error: "Terjadi kesalahan saat menerapkan aturan kategori",
+          code: "INTERNAL_ERROR",
+        },
+        { status: 500 }
+      );
+    }
+  }
+);
@@ -0,0 +1,193 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { prisma } from "@/lib/prisma";
+import { withAuth } from "@/lib/route-auth";
+import { PrismaErrorHandler } from "@/lib/prisma-helpers";
+import {
+  normalizeTags,
+  ruleInclude,
+  UpdateRuleInput,
+  updateRuleSchema,
+  validateRuleReferences,
+} from "@/lib/categorization-rules";
+
+/**
+ * Map thrown errors to API responses
+ */
+function handleError(error: unknown, fallbackMessage: string) {
+  if (error instanceof z.ZodError) {
+    const firstError = error.errors[0];
+    return NextResponse.json(
+      {
+        error: firstError.message,
+        code: "VALIDATION_ERROR",
+        field: firstError.path.join("."),
+      },
+      { status: 400 }
+    );
+  }
+
+  if (
+    error instanceof Error &&
+    (error.message.includes("tidak ditemukan") ||
+      error.message.includes("Kategori ini untuk"))
+  ) {
+    return NextResponse.json(
+      { error: error.message, code: "BUSINESS_LOGIC_ERROR" },
+      { status: 400 }
+    );
+  }
+
+  if (error && typeof error === "object" && "code" in error) {
+    const prismaError = PrismaErrorHandler.handle(error);
+    return NextResponse.json(
+      { error: prismaError.message, code: prismaError.code },
+      { status: 400 }
+    );
+  }
+
+  return NextResponse.json(
+    { error: fallbackMessage, code: "INTERNAL_ERROR" },
+    { status: 500 }
+  );
+}
+
+const notFound = () =>
+  NextResponse.json(
+    { error: "Aturan kategori tidak ditemukan", code: "NOT_FOUND" },
+    { status: 404 }
+  );
+
+/**
+ * PUT /api/rules/[id]
+ *
+ * Update a categorization rule (ADMIN only)
+ */
+export const PUT = withAuth<{ id: string }>(
+  { roles: ["ADMIN"] },
+  async (request, { session, params }) => {
+    const { id } = await params;
+    try {
+      const existing = await prisma.categorizationRule.findFirst({
+        where: { id, familyId: session.familyId },
+      });
+
+      if (!existing) {
+        return notFound();
+      }
+
+      const body = await request.json();
+      const validatedData: UpdateRuleInput = updateRuleSchema.parse(body);
+
+      const minAmount =
+        validatedData.minAmount !== undefined
+          ? validatedData.minAmount
+          : existing.minAmount;
+      const maxAmount =
+        validatedData.maxAmount !== undefined
+          ? validatedData.maxAmount
+          : existing.maxAmount;
+
+      if (minAmount != null && maxAmount != null && minAmount > maxAmount) {
+        return NextResponse.json(
+          {
+            error: "Jumlah minimal harus lebih kecil dari jumlah maksimal",
+            code: "VALIDATION_ERROR",
+            field: "maxAmount",
+          },
+          { status: 400 }
+        );
+      }
+
+      await validateRuleReferences(prisma, session.familyId, {
+        walletId: validatedData.walletId,
+        memberId: validatedData.memberId,
+        categoryId:
+          validatedData.categoryId !== undefined
+            ? validatedData.categoryId
+            : existing.categoryId,
+        transactionType:
+          validatedData.transactionType !== undefined
+            ? validatedData.transactionType
+            : existing.transactionType,
+      });
+
+      const rule = await prisma.categorizationRule.update({
+        where: { id },
+        data: {
+          ...validatedData,
+          ...(validatedData.tags && {
+            tags: normalizeTags(validatedData.tags),
+          }),
+        },
+        include: ruleInclude,
+      });
+
+      await prisma.auditLog.create({
+        data: {
+          action: "UPDATE_RULE",
+          entityType: "CategorizationRule",
+          entityId: id,
+          dataBefore: JSON.stringify(existing),
+          dataAfter: JSON.stringify(validatedData),
+          userId: session.userId,
+          familyId: session.familyId,
+        },
+      });
+
+      return NextResponse.json({
+        message: "Aturan kategori berhasil diperbarui",
+        rule,
+      });
+    } catch (error) {
+      console.error("Update rule error:", error);
+      return handleError(
+        error,
+        "Terjadi kesalahan saat memperbarui aturan kategori"
+      );
+    }
+  }
+);
+
+/**
+ * DELETE /api/rules/[id]
+ *
+ * Delete a categorization rule (ADMIN only). Transactions categorized by
+ * the rule keep their category.
+ */
+export const DELETE = withAuth<{ id: string }>(
+  { roles: ["ADMIN"] },
+  async (request, { session, params }) => {
+    const { id } = await params;
+    try {
+      const existing = await prisma.categorizationRule.findFirst({
+        where: { id, familyId: session.familyId },
+      });
+
+      if (!existing) {
+        return notFound();
+      }
+
+      await prisma.categorizationRule.delete({ where: { id } });
+
+      await prisma.auditLog.create({
+        data: {
+          action: "DELETE_RULE",
+          entityType: "CategorizationRule",
+          entityId: id,
+          dataBefore: JSON.stringify(existing),
+          userId: session.userId,
+          familyId: session.familyId,
+        },
+      });
+
+      return NextResponse.json({ message: "Aturan kategori berhasil dihapus" });
+    } catch (error) {
+      console.error("Delete rule error:", error);
+      return handleError(
+        error,
+        "Terjadi kesalahan saat menghapus aturan kategori"
+      );
+    }
+  }
+);
@@ -0,0 +1,137 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { prisma } from "@/lib/prisma";
+import { withAuth } from "@/lib/route-auth";
+import { PrismaErrorHandler } from "@/lib/prisma-helpers";
+import {
+  CreateRuleInput,
+  createRuleSchema,
+  normalizeTags,
+  ruleInclude,
+  validateRuleReferences,
+} from "@/lib/categorization-rules";
+
+/**
+ * GET /api/rules
+ *
+ * List categorization rules of the family in evaluation order
+ */
+export const GET = withAuth(async (request, { session }) => {
+  try {
+    const rules = await prisma.categorizationRule.findMany({
+      where: { familyId: session.familyId },
+      include: ruleInclude,
+      orderBy: [{ priority: "asc" }, { createdAt: "asc" }],
+    });
+
+    return NextResponse.json({ rules });
+  } catch (error) {
+    console.error("Get rules error:", error);
+
+    return NextResponse.json(
+      {
+        error: "Terjadi kesalahan saat mengambil aturan kategori",
+        code: "INTERNAL_ERROR",
+      },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * POST /api/rules
+ *
+ * Create a categorization rule (ADMIN only)
+ *
+ * @example
+ * ```typescript
+ * await fetch('/api/rules', {
+ *   method: 'POST',
+ *   body: JSON.stringify({
+ *     name: 'Indomaret',
+ *     transactionType: 'EXPENSE',
+ *     descriptionContains: 'indomaret',
+ *     categoryId: 'category-id',
+ *     tags: ['belanja-harian'],
+ *   })
+ * });
+ * ```
+ */
+export const POST = withAuth(
+  { roles: ["ADMIN"] },
+  async (request, { session }) => {
+    try {
+      const body = await request.json();
+      const validatedData: CreateRuleInput = createRuleSchema.parse(body);
+
+      await validateRuleReferences(prisma, session.familyId, validatedData);
+
+      const rule = await prisma.categorizationRule.create({
+        data: {
+          ...validatedData,
+          tags: normalizeTags(validatedData.tags),
+          familyId: session.familyId,
+          createdById: session.userId,
+        },
+        include: ruleInclude,
+      });
+
+      await prisma.auditLog.create({
+        data: {
+          action: "CREATE_RULE",
+          entityType: "CategorizationRule",
+          entityId: rule.id,
+          dataAfter: JSON.stringify(validatedData),
+          userId: session.userId,
+          familyId: session.familyId,
+        },
+      });
+
+      return NextResponse.json(
+        { message: "Aturan kategori berhasil dibuat", rule },
+        { status: 201 }
+      );
+    } catch (error) {
+      console.error("Create rule error:", error);
+
+      if (error instanceof z.ZodError) {
+        const firstError = error.errors[0];
+        return NextResponse.json(
+          {
+            error: firstError.message,
+            code: "VALIDATION_ERROR",
+            field: firstError.path.join("."),
+          },
+          { status: 400 }
+        );
+      }
+
+      if (
+        error instanceof Error &&
+        (error.message.includes("tidak ditemukan") ||
+          error.message.includes("Kategori ini untuk"))
+      ) {
+        return NextResponse.json(
+          { error: error.message, code: "BUSINESS_LOGIC_ERROR" },
+          { status: 400 }
+        );
+      }
+
+      if (error && typeof error === "object" && "code" in error) {
+        const prismaError = PrismaErrorHandler.handle(error);
+        return NextResponse.json(
+          { error: prismaError.message, code: prismaError.code },
+          { status: 400 }
+        );
+      }
+
+      return NextResponse.json(
+        {
+          error: "Terjadi kesalahan saat membuat aturan kategori",
+          code: "INTERNAL_ERROR",
+        },
+        { status: 500 }
+      );
+    }
+  }
+);
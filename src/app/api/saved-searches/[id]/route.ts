@@ -0,0 +1,162 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { withAuth } from '@/lib/route-auth';
+import { PrismaErrorHandler } from '@/lib/prisma-helpers';
+import { getCurrencyConverter } from '@/lib/currency';
+import {
+  getSavedSearchTotals,
+  parseSavedFilters,
+  UpdateSavedSearchInput,
+  updateSavedSearchSchema,
+} from '@/lib/saved-searches';
+
+/**
+ * Map thrown errors to API responses (shared by all handlers)
+ */
+function handleError(error: unknown, fallbackMessage: string) {
+  if (error instanceof z.ZodError) {
+    const firstError = error.errors[0];
+    return NextResponse.json(
+      {
+        error: firstError.message,
+        code: 'VALIDATION_ERROR',
+        field: firstError.path.join('.'),
+      },
+      { status: 400 }
+    );
+  }
+
+  if (error instanceof Error && error.message === 'Pencarian tidak ditemukan') {
+    return NextResponse.json(
+      { error: error.message, code: 'NOT_FOUND' },
+      { status: 404 }
+    );
+  }
+
+  if (error && typeof error === 'object' && 'code' in error) {
+    const prismaError = PrismaErrorHandler.handle(error);
+    return NextResponse.json(
+      { error: prismaError.message, code: prismaError.code },
+      { status: 400 }
+    );
+  }
+
+  return NextResponse.json(
+    { error: fallbackMessage, code: 'INTERNAL_ERROR' },
+    { status: 500 }
+  );
+}
+
+/**
+ * Load a saved search owned by the session user
+ *
+ * @throws Error when missing or owned by someone else
+ */
+async function findOwnSearch(id: string, userId: string, familyId: string) {
+  const search = await prisma.savedSearch.findFirst({
+    where: { id, userId, familyId },
+  });
+
+  if (!search) {
+    throw new Error('Pencarian tidak ditemukan');
+  }
+
+  return search;
+}
+
+/**
+ * GET /api/saved-searches/[id]
+ *
+ * Get a saved search with the running totals of its matching transactions
+ * (in the family base currency)
+ */
+export const GET = withAuth<{ id: string }>(
+  async (request, { session, params }) => {
+    const { id } = await params;
+    try {
+      const familyId = session.familyId;
+
+      const search = await findOwnSearch(id, session.userId, familyId);
+      const converter = await getCurrencyConverter(prisma, familyId);
+      const totals = await getSavedSearchTotals(
+        prisma,
+        familyId,
+        converter,
+        search.filters
+      );
+
+      return NextResponse.json({
+        ...search,
+        filters: parseSavedFilters(search.filters),
+        totals,
+        currency: converter.baseCurrency,
+        missingRates: [...converter.missingCurrencies],
+      });
+    } catch (error) {
+      console.error('Get saved search error:', error);
+      return handleError(error, 'Terjadi kesalahan saat mengambil pencarian');
+    }
+  }
+);
+
+/**
+ * PUT /api/saved-searches/[id]
+ *
+ * Rename, change filters, or (un)pin a saved search
+ *
+ * @example
+ * ```typescript
+ * await fetch(`/api/saved-searches/${id}`, {
+ *   method: 'PATCH',
+ *   body: JSON.stringify({ isPinned: true })
+ * });
+ * ```
+ */
+export const PUT = withAuth<{ id: string }>(
+  async (request, { session, params }) => {
+    const { id } = await params;
+    try {
+      const body = await request.json();
+      const validatedData: UpdateSavedSearchInput =
+        updateSavedSearchSchema.parse(body);
+
+      await findOwnSearch(id, session.userId, session.familyId);
+
+      const search = await prisma.savedSearch.update({
+        where: { id },
+        data: validatedData,
+      });
+
+      return NextResponse.json({
+        message: 'Pencarian berhasil diperbarui',
+        savedSearch: { ...search, filters: parseSavedFilters(search.filters) },
+      });
+    } catch (error) {
+      console.error('Update saved search error:', error);
+      return handleError(error, 'Terjadi kesalahan saat memperbarui pencarian');
+    }
+  }
+);
+
+export const PATCH = PUT;
+
+/**
+ * DELETE /api/saved-searches/[id]
+ *
+ * Delete a saved search
+ */
+export const DELETE = withAuth<{ id: string }>(
+  async (request, { session, params }) => {
+    const { id } = await params;
+    try {
+      await findOwnSearch(id, session.userId, session.familyId);
+      await prisma.savedSearch.delete({ where: { id } });
+
+      return NextResponse.json({ message: 'Pencarian berhasil dihapus' });
+    } catch (error) {
+      console.error('Delete saved search error:', error);
+      return handleError(error, 'Terjadi kesalahan saat menghapus pencarian');
+    }
+  }
+);
@@ -0,0 +1,133 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { withAuth } from '@/lib/route-auth';
+import { PrismaErrorHandler } from '@/lib/prisma-helpers';
+import {
+  MAX_SAVED_SEARCHES,
+  parseSavedFilters,
+  SavedSearchInput,
+  savedSearchSchema,
+} from '@/lib/saved-searches';
+
+/**
+ * GET /api/saved-searches
+ *
+ * Get the current user's saved searches (pinned first)
+ *
+ * @example
+ * ```typescript
+ * const response = await fetch('/api/saved-searches');
+ * const { savedSearches } = await response.json();
+ * ```
+ */
+export const GET = withAuth(async (request, { session }) => {
+  try {
+    const searches = await prisma.savedSearch.findMany({
+      where: { userId: session.userId, familyId: session.familyId },
+      orderBy: [{ isPinned: 'desc' }, { createdAt: 'asc' }],
+    });
+
+    return NextResponse.json({
+      savedSearches: searches.map((search) => ({
+        ...search,
+        filters: parseSavedFilters(search.filters),
+      })),
+    });
+  } catch (error) {
+    console.error('Get saved searches error:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Terjadi kesalahan saat mengambil pencarian tersimpan',
+        code: 'INTERNAL_ERROR',
+      },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * POST /api/saved-searches
+ *
+ * Save a transaction filter under a name
+ *
+ * @example
+ * ```typescript
+ * await fetch('/api/saved-searches', {
+ *   method: 'POST',
+ *   body: JSON.stringify({
+ *     name: 'Liburan Bali',
+ *     filters: { tags: ['vacation-bali'] },
+ *     isPinned: true,
+ *   })
+ * });
+ * ```
+ */
+export const POST = withAuth(async (request, { session }) => {
+  try {
+    const body = await request.json();
+    const validatedData: SavedSearchInput = savedSearchSchema.parse(body);
+
+    const count = await prisma.savedSearch.count({
+      where: { userId: session.userId },
+    });
+    if (count >= MAX_SAVED_SEARCHES) {
+      return NextResponse.json(
+        {
+          error: `Maksimal ${MAX_SAVED_SEARCHES} pencarian tersimpan`,
+          code: 'BUSINESS_LOGIC_ERROR',
+        },
+        { status: 400 }
+      );
+    }
+
+    const search = await prisma.savedSearch.create({
+      data: {
+        name: validatedData.name,
+        filters: validatedData.filters,
+        isPinned: validatedData.isPinned,
+        userId: session.userId,
+        familyId: session.familyId,
+      },
+    });
+
+    return NextResponse.json(
+      {
+        message: 'Pencarian berhasil disimpan',
+        savedSearch: { ...search, filters: validatedData.filters },
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Create saved search error:', error);
+
+    if (error instanceof z.ZodError) {
+      const firstError = error.errors[0];
+      return NextResponse.json(
+        {
+          error: firstError.message,
+          code: 'VALIDATION_ERROR',
+          field: firstError.path.join('.'),
+        },
+        { status: 400 }
+      );
+    }
+
+    if (error && typeof error === 'object' && 'code' in error) {
+      const prismaError = PrismaErrorHandler.handle(error);
+      return NextResponse.json(
+        { error: prismaError.message, code: prismaError.code },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        error: 'Terjadi kesalahan saat menyimpan pencarian',
+        code: 'INTERNAL_ERROR',
+      },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,657 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { prisma } from "@/lib/prisma";
+import { withAuth } from "@/lib/route-auth";
+import { PrismaErrorHandler } from "@/lib/prisma-helpers";
+import {
+  applyWalletDeltas,
+  getWalletDeltas,
+  mergeWalletDeltas,
+  recalculateBudgetSpent,
+  toAuditSnapshot,
+} from "@/lib/transaction-ledger";
+import { resolveTransactionCurrency } from "@/lib/currency";
+import {
+  splitInclude,
+  splitsSchema,
+  toSplitCreateData,
+  validateSplits,
+} from "@/lib/transaction-splits";
+import { tagsSchema } from "@/lib/transaction-filters";
+import { applyCardCharge, getCardChargeDelta } from "@/lib/credit-cards";
+import { addMoney } from "@/lib/money";
+import { deleteLiabilityPayment } from "@/lib/liability-payments";
+import { deleteGoalDistribution } from "@/lib/goal-distributions";
+import { deleteGoalContribution } from "@/lib/goal-contributions";
+import {
+  assertMemberExpenseAllowed,
+  MEMBER_EXPENSE_APPROVAL_ERROR,
+} from "@/lib/allowances";
+
+/**
+ * Transaction Update Schema
+ *
+ * `walletId` diterima sebagai alias `fromWalletId` (dipakai EditTransactionModal).
+ * `splits` mengganti seluruh baris split; `null` atau `[]` menghapus split.
+ */
+const UpdateTransactionSchema = z.object({
+  amount: z
+    .number()
+    .positive("Jumlah harus lebih dari 0")
+    .max(999999999999, "Jumlah terlalu besar")
+    .optional(),
+  type: z
+    .enum(["INCOME", "EXPENSE", "TRANSFER"], {
+      errorMap: () => ({
+        message: "Tipe harus INCOME, EXPENSE, atau TRANSFER",
+      }),
+    })
+    .optional(),
+  description: z
+    .string()
+    .min(1, "Deskripsi tidak boleh kosong")
+    .max(500, "Deskripsi maksimal 500 karakter")
+    .trim()
+    .optional(),
+  date: z
+    .string()
+    .datetime({ message: "Format tanggal tidak valid" })
+    .or(z.date())
+    .optional(),
+  categoryId: z
+    .string()
+    .min(1, "Category ID tidak valid")
+    .nullable()
+    .optional(),
+  walletId: z.string().min(1, "Wallet ID tidak valid").optional(),
+  fromWalletId: z
+    .string()
+    .min(1, "From Wallet ID tidak valid")
+    .nullable()
+    .optional(),
+  toWalletId: z
+    .string()
+    .min(1, "To Wallet ID tidak valid")
+    .nullable()
+    .optional(),
+  notes: z
+    .string()
+    .max(1000, "Catatan maksimal 1000 karakter")
+    .nullable()
+    .optional(),
+  splits: splitsSchema.nullable().optional(),
+  // Mengganti seluruh tag; [] menghapus semua tag
+  tags: tagsSchema.optional(),
+});
+
+type UpdateTransactionInput = z.infer<typeof UpdateTransactionSchema>;
+
+const transactionInclude = {
+  user: {
+    select: {
+      id: true,
+      name: true,
+      avatar: true,
+    },
+  },
+  category: {
+    select: {
+      id: true,
+      name: true,
+      icon: true,
+      type: true,
+    },
+  },
+  fromWallet: {
+    select: {
+      id: true,
+      name: true,
+    },
+  },
+  toWallet: {
+    select: {
+      id: true,
+      name: true,
+    },
+  },
+  liability: {
+    select: {
+      id: true,
+      name: true,
+    },
+  },
+  splits: {
+    include: splitInclude,
+  },
+} as const;
+
+/**
+ * Map thrown errors to API responses (shared by all handlers)
+ */
+function handleError(error: unknown, fallbackMessage: string) {
+  // Handle Zod validation errors
+  if (error instanceof z.ZodError) {
+    const firstError = error.errors[0];
+    return NextResponse.json(
+      {
+        error: firstError.message,
+        code: "VALIDATION_ERROR",
+        field: firstError.path.join("."),
+      },
+      { status: 400 }
+    );
+  }
+
+  // Handle business logic errors
+  if (error instanceof Error) {
+    if (error.message.startsWith(MEMBER_EXPENSE_APPROVAL_ERROR)) {
+      return NextResponse.json(
+        {
+          error: error.message,
+          code: "APPROVAL_REQUIRED",
+        },
+        { status: 403 }
+      );
+    }
+
+    if (error.message.startsWith("Anda tidak memiliki izin")) {
+      return NextResponse.json(
+        {
+          error: error.message,
+          code: "FORBIDDEN",
+        },
+        { status: 403 }
+      );
+    }
+
+    if (error.message === "Transaksi tidak ditemukan") {
+      return NextResponse.json(
+        {
+          error: error.message,
+          code: "NOT_FOUND",
+        },
+        { status: 404 }
+      );
+    }
+
+    if (
+      error.message.includes("tidak ditemukan") ||
+      error.message.includes("tidak milik") ||
+      error.message.includes("diarsipkan") ||
+      error.message.includes("tidak mencukupi") ||
+      error.message.includes("Kategori ini untuk") ||
+      error.message.includes("Transfer") ||
+      error.message.includes("kartu kredit") ||
+      error.message.includes("pembayaran hutang") ||
+      error.message.includes("penarikan goal") ||
+      error.message.includes("kontribusi goal") ||
+      error.message.includes("sudah ditarik") ||
+      error.message.includes("split")
+    ) {
+      return NextResponse.json(
+        {
+          error: error.message,
+          code: "BUSINESS_LOGIC_ERROR",
+        },
+        { status: 400 }
+      );
+    }
+  }
+
+  // Handle Prisma errors
+  if (error && typeof error === "object" && "code" in error) {
+    const prismaError = PrismaErrorHandler.handle(error);
+    return NextResponse.json(
+      {
+        error: prismaError.message,
+        code: prismaError.code,
+      },
+      { status: 400 }
+    );
+  }
+
+  // Handle generic errors
+  return NextResponse.json(
+    {
+      error: fallbackMessage,
+      code: "INTERNAL_ERROR",
+    },
+    { status: 500 }
+  );
+}
+
+/**
+ * GET /api/transactions/[id]
+ *
+ * Get a single transaction of the user's family
+ */
+export const GET = withAuth<{ id: string }>(
+  async (request, { session, params }) => {
+    const { id } = await params;
+    try {
+      const transaction = await prisma.transaction.findFirst({
+        where: { id, familyId: session.familyId },
+        include: transactionInclude,
+      });
+
+      if (!transaction) {
+        throw new Error("Transaksi tidak ditemukan");
+      }
+
+      return NextResponse.json({ transaction });
+    } catch (error) {
+      console.error("Get transaction error:", error);
+      return handleError(error, "Terjadi kesalahan saat mengambil transaksi");
+    }
+  }
+);
+
+/**
+ * PUT /api/transactions/[id]
+ *
+ * Update a transaction. The old wallet effect is reversed and the new one
+ * applied in the same database transaction, then Budget.spent is recomputed
+ * for both the old and the new category/month (per split line when split).
+ *
+ * @example
+ * ```typescript
+ * await fetch(`/api/transactions/${id}`, {
+ *   method: 'PUT',
+ *   headers: { 'Content-Type': 'application/json' },
+ *   body: JSON.stringify({ amount: 75000, categoryId: 'category-id' })
+ * });
+ * ```
+ */
+export const PUT = withAuth<{ id: string }>(
+  async (request, { session, params }) => {
+    const { id } = await params;
+    try {
+      const body = await request.json();
+      const validatedData: UpdateTransactionInput =
+        UpdateTransactionSchema.parse(body);
+
+      const result = await prisma.$transaction(async (tx) => {
+        // 1. Load current transaction
+        const existing = await tx.transaction.findFirst({
+          where: { id, familyId: session.familyId },
+          include: { splits: true },
+        });
+
+        if (!existing) {
+          throw new Error("Transaksi tidak ditemukan");
+        }
+
+        // Hanya pembuat transaksi atau admin yang boleh mengubahnya
+        if (existing.userId !== session.userId && session.role !== "ADMIN") {
+          throw new Error(
+            "Anda tidak memiliki izin untuk mengubah transaksi ini"
+          );
+        }
+
+        // 2. Merge changes into the next state
+        const type = validatedData.type ?? existing.type;
+        const amount = validatedData.amount ?? existing.amount;
+        let categoryId =
+          validatedData.categoryId !== undefined
+            ? validatedData.categoryId
+            : existing.categoryId;
+        const date =
+          validatedData.date === undefined
+            ? existing.date
+            : typeof validatedData.date === "string"
+              ? new Date(validatedData.date)
+              : validatedData.date;
+
+        let fromWalletId =
+          validatedData.fromWalletId !== undefined
+            ? validatedData.fromWalletId
+            : (validatedData.walletId ?? existing.fromWalletId);
+        let toWalletId =
+          validatedData.toWalletId !== undefined
+            ? validatedData.toWalletId
+            : existing.toWalletId;
+
+        // Transaksi dari pembayaran hutang/penarikan/kontribusi goal hanya
+        // boleh diubah keterangannya; jumlah, tipe, tanggal dan dompet
+        // mengikuti sumbernya
+        if (
+          existing.liabilityPaymentId ||
+          existing.goalDistributionId ||
+          existing.goalContributionId
+        ) {
+          if (
+            type !== existing.type ||
+            amount !== existing.amount ||
+            date.getTime() !== existing.date.getTime() ||
+            fromWalletId !== existing.fromWalletId ||
+            toWalletId !== existing.toWalletId ||
+            (validatedData.splits?.length ?? 0) > 0
+          ) {
+            throw new Error(
+              existing.liabilityPaymentId
+                ? "Transaksi pembayaran hutang hanya dapat diubah keterangannya; hapus pembayarannya untuk mengubah jumlah"
+                : existing.goalDistributionId
+                  ? "Transaksi penarikan goal hanya dapat diubah keterangannya; hapus penarikannya untuk mengubah jumlah"
+                  : "Transaksi kontribusi goal hanya dapat diubah keterangannya; hapus kontribusinya untuk mengubah jumlah"
+            );
+          }
+        } else if (type === "TRANSFER") {
+          if (!fromWalletId || !toWalletId) {
+            throw new Error("Transfer membutuhkan dompet sumber dan tujuan");
+          }
+          if (fromWalletId === toWalletId) {
+            throw new Error("Transfer tidak dapat ke dompet yang sama");
+          }
+        } else {
+          // INCOME/EXPENSE hanya memakai satu dompet
+          fromWalletId = fromWalletId ?? toWalletId;
+          toWalletId = null;
+        }
+
+        // Transaksi kartu kredit tidak memakai dompet
+        if (existing.liabilityId && (type === "TRANSFER" || fromWalletId)) {
+          throw new Error(
+            "Transaksi kartu kredit tidak dapat dipindahkan ke dompet"
+          );
+        }
+
+        // Mata uang transaksi mengikuti dompet
+        const currency = await resolveTransactionCurrency(
+          tx,
+          session.familyId,
+          fromWalletId
+        );
+
+        if (
+          type === "TRANSFER" &&
+          (await resolveTransactionCurrency(
+            tx,
+            session.familyId,
+            toWalletId
+          )) !== currency
+        ) {
+          throw new Error(
+            "Transfer antar mata uang berbeda harus melalui /api/wallets/transfer"
+          );
+        }
+
+        // 3. Validate split lines; kept splits are re-checked against the
+        // (possibly changed) amount and type
+        const replaceSplits = validatedData.splits !== undefined;
+        const splits = replaceSplits
+          ? (validatedData.splits ?? [])
+          : existing.splits.map((split) => ({
+              amount: split.amount,
+              categoryId: split.categoryId,
+              memberId: split.memberId,
+              note: split.note,
+            }));
+
+        if (splits.length > 0) {
+          // Kategori induk = kategori baris split terbesar (untuk tampilan)
+          categoryId = await validateSplits(
+            tx,
+            session.familyId,
+            { type, amount },
+            splits
+          );
+        } else if (
+          categoryId &&
+          (categoryId !== existing.categoryId || type !== existing.type)
+        ) {
+          // Verify category belongs to family and matches the final type
+          // (juga saat hanya tipe yang berubah)
+          const category = await tx.category.findUnique({
+            where: { id: categoryId },
+            select: { id: true, familyId: true, type: true, isArchived: true },
+          });
+
+          if (!category) {
+            throw new Error("Kategori tidak ditemukan");
+          }
+
+          if (category.familyId !== session.familyId) {
+            throw new Error("Kategori tidak milik keluarga Anda");
+          }
+
+          if (categoryId !== existing.categoryId && category.isArchived) {
+            throw new Error("Kategori sudah diarsipkan");
+          }
+
+          if (type !== "TRANSFER" && category.type !== type) {
+            throw new Error(
+              `Kategori ini untuk ${category.type}, bukan ${type}`
+            );
+          }
+        }
+
+        // Anggota tidak bisa melewati batas uang sakunya lewat edit
+        // (menaikkan jumlah, mengubah ke EXPENSE, pindah kategori/periode)
+        if (
+          type === "EXPENSE" &&
+          (existing.type !== "EXPENSE" ||
+            amount > existing.amount ||
+            categoryId !== existing.categoryId ||
+            date.getTime() !== existing.date.getTime() ||
+            fromWalletId !== existing.fromWalletId)
+        ) {
+          await assertMemberExpenseAllowed(tx, session.familyId, session, [
+            {
+              amount,
+              categoryId,
+              walletId: fromWalletId,
+              date,
+              excludeTransactionId: existing.id,
+            },
+          ]);
+        }
+
+        // 4. Reverse old wallet effect and apply the new one
+        const next = { type, amount, fromWalletId, toWalletId };
+        const walletChanges = await applyWalletDeltas(
+          tx,
+          session.familyId,
+          mergeWalletDeltas(
+            getWalletDeltas(existing, -1),
+            getWalletDeltas(next, 1)
+          )
+        );
+
+        // Kartu kredit: balik efek lama, terapkan efek baru
+        const cardDelta = addMoney(
+          getCardChargeDelta(existing, -1),
+          getCardChargeDelta({ ...next, liabilityId: existing.liabilityId }, 1)
+        );
+        const cardChange =
+          existing.liabilityId && cardDelta !== 0
+            ? await applyCardCharge(
+                tx,
+                session.familyId,
+                existing.liabilityId,
+                cardDelta
+              )
+            : null;
+
+        // 5. Update transaction
+        const transaction = await tx.transaction.update({
+          where: { id },
+          data: {
+            type,
+            amount,
+            currency,
+            date,
+            categoryId,
+            fromWalletId,
+            toWalletId,
+            ...(validatedData.description !== undefined && {
+              description: validatedData.description,
+            }),
+            ...(validatedData.notes !== undefined && {
+              notes: validatedData.notes,
+            }),
+            ...(validatedData.tags !== undefined && {
+              tags: validatedData.tags,
+            }),
+            ...(replaceSplits && {
+              splits: {
+                deleteMany: {},
+                createMany: { data: toSplitCreateData(splits) },
+              },
+            }),
+          },
+          include: transactionInclude,
+        });
+
+        // 6. Recompute budgets for old and new category/month
+        await recalculateBudgetSpent(tx, session.familyId, existing);
+        await recalculateBudgetSpent(tx, session.familyId, transaction);
+
+        // 7. Create audit log
+        await tx.auditLog.create({
+          data: {
+            action: "UPDATE_TRANSACTION",
+            entityType: "Transaction",
+            entityId: id,
+            dataBefore: toAuditSnapshot(existing),
+            dataAfter: toAuditSnapshot(transaction),
+            details: JSON.stringify({
+              wallets: walletChanges,
+              ...(cardChange && { card: cardChange }),
+            }),
+            userId: session.userId,
+            familyId: session.familyId,
+          },
+        });
+
+        return { transaction, wallets: walletChanges };
+      });
+
+      return NextResponse.json({
+        message: "Transaksi berhasil diperbarui",
+        transaction: result.transaction,
+        wallets: result.wallets,
+      });
+    } catch (error) {
+      console.error("Update transaction error:", error);
+      return handleError(error, "Terjadi kesalahan saat memperbarui transaksi");
+    }
+  }
+);
+
+/**
+ * PATCH /api/transactions/[id]
+ *
+ * Alias of PUT - all fields are already optional
+ */
+export const PATCH = PUT;
+
+/**
+ * DELETE /api/transactions/[id]
+ *
+ * Delete a transaction and reverse its effect on wallet balances and budgets.
+ * Transactions created by a liability payment delete the whole payment,
+ * those created by a goal distribution delete the distribution.
+ */
+export const DELETE = withAuth<{ id: string }>(
+  async (request, { session, params }) => {
+    const { id } = await params;
+    try {
+      const result = await prisma.$transaction(async (tx) => {
+        // 1. Load current transaction
+        const existing = await tx.transaction.findFirst({
+          where: { id, familyId: session.familyId },
+          include: { splits: true },
+        });
+
+        if (!existing) {
+          throw new Error("Transaksi tidak ditemukan");
+        }
+
+        // Hanya pembuat transaksi atau admin yang boleh menghapusnya
+        if (existing.userId !== session.userId && session.role !== "ADMIN") {
+          throw new Error(
+            "Anda tidak memiliki izin untuk menghapus transaksi ini"
+          );
+        }
+
+        // Transaksi dari pembayaran hutang: hapus pembayaran beserta semua
+        // transaksinya dan kembalikan sisa hutang
+        if (existing.liabilityPaymentId) {
+          return deleteLiabilityPayment(
+            tx,
+            session.familyId,
+            session.userId,
+            existing.liabilityPaymentId
+          );
+        }
+
+        // Transaksi dari penarikan goal: hapus penarikan dan kembalikan dana
+        // ke goal
+        if (existing.goalDistributionId) {
+          return deleteGoalDistribution(
+            tx,
+            session.familyId,
+            session.userId,
+            existing.goalDistributionId
+          );
+        }
+
+        // Transaksi dari kontribusi goal: hapus kontribusi dan kembalikan
+        // dana ke dompet
+        if (existing.goalContributionId) {
+          return deleteGoalContribution(
+            tx,
+            session.familyId,
+            session.userId,
+            existing.goalContributionId
+          );
+        }
+
+        // 2. Reverse wallet effect (atau saldo kartu kredit)
+        const walletChanges = await applyWalletDeltas(
+          tx,
+          session.familyId,
+          getWalletDeltas(existing, -1)
+        );
+        const cardChange = existing.liabilityId
+          ? await applyCardCharge(
+              tx,
+              session.familyId,
+              existing.liabilityId,
+              getCardChargeDelta(existing, -1)
+            )
+          : null;
+
+        // 3. Delete transaction and recompute budget
+        await tx.transaction.delete({ where: { id } });
+        await recalculateBudgetSpent(tx, session.familyId, existing);
+
+        // 4. Create audit log
+        await tx.auditLog.create({
+          data: {
+            action: "DELETE_TRANSACTION",
+            entityType: "Transaction",
+            entityId: id,
+            dataBefore: toAuditSnapshot(existing),
+            details: JSON.stringify({
+              wallets: walletChanges,
+              ...(cardChange && { card: cardChange }),
+            }),
+            userId: session.userId,
+            familyId: session.familyId,
+          },
+        });
+
+        return { wallets: walletChanges };
+      });
+
+      return NextResponse.json({
+        message: "Transaksi berhasil dihapus",
+        wallets: result.wallets,
+      });
+    } catch (error) {
+      console.error("Delete transaction error:", error);
+      return handleError(error, "Terjadi kesalahan saat menghapus transaksi");
+    }
+  }
+);
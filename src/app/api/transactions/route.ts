@@ -1,92 +1,53 @@
-import { NextRequest, NextResponse } from "next/server";
+import { NextResponse } from "next/server";
 import { z } from "zod";
 import { prisma } from "@/lib/prisma";
-import { requireAuth, requireFamily } from "@/lib/auth";
+import { withAuth } from "@/lib/route-auth";
 import { PrismaErrorHandler } from "@/lib/prisma-helpers";
 import { sendBudgetWarningEmail } from "@/lib/email";
-
-/**
- * Transaction Creation Schema
- */
-const CreateTransactionSchema = z.object({
-  amount: z
-    .number()
-    .positive("Jumlah harus lebih dari 0")
-    .max(999999999999, "Jumlah terlalu besar"),
-  type: z.enum(["INCOME", "EXPENSE"], {
-    errorMap: () => ({ message: "Tipe harus INCOME atau EXPENSE" }),
-  }),
-  description: z
-    .string()
-    .min(1, "Deskripsi tidak boleh kosong")
-    .max(500, "Deskripsi maksimal 500 karakter")
-    .trim(),
-  date: z
-    .string()
-    .datetime({ message: "Format tanggal tidak valid" })
-    .or(z.date()),
-  categoryId: z.string().uuid("Category ID tidak valid"),
-  walletId: z.string().uuid("Wallet ID tidak valid"),
-  notes: z.string().max(1000, "Catatan maksimal 1000 karakter").optional(),
-});
-
-type CreateTransactionInput = z.infer<typeof CreateTransactionSchema>;
+import {
+  getBudgetEntries,
+  getCategorySpending,
+} from "@/lib/transaction-ledger";
+import {
+  buildTransactionWhere,
+  parseTransactionFilters,
+} from "@/lib/transaction-filters";
+import { splitInclude } from "@/lib/transaction-splits";
+import {
+  CreateTransactionInput,
+  createTransaction,
+  createTransactionSchema,
+} from "@/lib/transactions";
+import { checkMemberExpense } from "@/lib/allowances";
+import { createApprovalRequest } from "@/lib/approvals";
 
 /**
  * GET /api/transactions
  *
  * Get all transactions for the user's family
  *
+ * Query params: type, categoryId, walletId, startDate, endDate, minAmount,
+ * maxAmount, search, tags (comma separated), tagMode (any | all), limit
+ *
  * @example
  * ```typescript
  * const response = await fetch('/api/transactions');
  * const data = await response.json();
  * ```
  */
-export async function GET(request: NextRequest) {
+export const GET = withAuth(async (request, { session }) => {
   try {
-    // Get current session
-    const session = await requireAuth();
-
-    // Ensure user has a family
-    await requireFamily(session);
-
     // Get query parameters for filtering (optional)
     const { searchParams } = request.nextUrl;
-    const type = searchParams.get("type") as "INCOME" | "EXPENSE" | null;
-    const categoryId = searchParams.get("categoryId");
-    const walletId = searchParams.get("walletId");
-    const startDate = searchParams.get("startDate");
-    const endDate = searchParams.get("endDate");
+    const filters = parseTransactionFilters(searchParams);
     const limit = parseInt(searchParams.get("limit") || "50");
 
-    // Build filter conditions
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const where: any = {
-      familyId: session.familyId!,
-    };
-
-    if (type) {
-      where.type = type;
-    }
-
-    if (categoryId) {
-      where.categoryId = categoryId;
-    }
-
-    if (walletId) {
-      where.walletId = walletId;
-    }
-
-    if (startDate || endDate) {
-      where.date = {};
-      if (startDate) {
-        where.date.gte = new Date(startDate);
-      }
-      if (endDate) {
-        where.date.lte = new Date(endDate);
-      }
-    }
+    // Build filter conditions (kategori induk ikut subkategorinya)
+    const where = await buildTransactionWhere(
+      prisma,
+      session.familyId,
+      filters
+    );
 
     // Fetch transactions with relations
     const transactions = await prisma.transaction.findMany({
@@ -119,6 +80,15 @@ export async function GET(request: NextRequest) {
             name: true,
           },
         },
+        liability: {
+          select: {
+            id: true,
+            name: true,
+          },
+        },
+        splits: {
+          include: splitInclude,
+        },
       },
       orderBy: {
         date: "desc",
@@ -152,13 +122,15 @@ export async function GET(request: NextRequest) {
   } catch (error) {
     console.error("Get transactions error:", error);
 
-    if (error instanceof Error && error.message.includes("required")) {
+    if (error instanceof z.ZodError) {
+      const firstError = error.errors[0];
       return NextResponse.json(
         {
-          error: error.message,
-          code: "UNAUTHORIZED",
+          error: firstError.message,
+          code: "VALIDATION_ERROR",
+          field: firstError.path.join("."),
         },
-        { status: 401 }
+        { status: 400 }
       );
     }
 
@@ -170,12 +142,16 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
 /**
  * POST /api/transactions
  *
- * Create a new transaction and update wallet balance
+ * Create a new transaction and update wallet balance (or the credit card
+ * balance for card transactions)
+ *
+ * Pengeluaran anggota (MEMBER) yang melewati batas uang sakunya tidak
+ * langsung dicatat: dibuat permintaan persetujuan dan dikembalikan 202.
  *
  * @example
  * ```typescript
@@ -188,163 +164,80 @@ export async function GET(request: NextRequest) {
  *     description: 'Makan siang',
  *     date: new Date().toISOString(),
  *     categoryId: 'category-id',
- *     walletId: 'wallet-id'
+ *     walletId: 'wallet-id' // atau liabilityId: 'credit-card-id'
  *   })
  * });
  * ```
  */
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request, { session }) => {
   try {
-    // Get current session
-    const session = await requireAuth();
-
-    // Ensure user has a family
-    await requireFamily(session);
-
     // Parse and validate request body
     const body = await request.json();
     const validatedData: CreateTransactionInput =
-      CreateTransactionSchema.parse(body);
+      createTransactionSchema.parse(body);
 
-    const { amount, type, description, date, categoryId, walletId, notes } =
-      validatedData;
+    const { type, date } = validatedData;
 
     // Convert date string to Date object if needed
     const transactionDate = typeof date === "string" ? new Date(date) : date;
 
-    // Create transaction and update wallet balance in a transaction
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const result = await prisma.$transaction(async (tx: any) => {
-      // 1. Verify wallet belongs to user's family
-      const wallet = await tx.wallet.findUnique({
-        where: { id: walletId },
-        select: { id: true, familyId: true, balance: true },
-      });
-
-      if (!wallet) {
-        throw new Error("Wallet tidak ditemukan");
-      }
-
-      if (wallet.familyId !== session.familyId) {
-        throw new Error("Wallet tidak milik keluarga Anda");
-      }
-
-      // 2. Verify category belongs to user's family
-      const category = await tx.category.findUnique({
-        where: { id: categoryId },
-        select: { id: true, familyId: true, type: true },
-      });
-
-      if (!category) {
-        throw new Error("Kategori tidak ditemukan");
-      }
-
-      if (category.familyId !== session.familyId) {
-        throw new Error("Kategori tidak milik keluarga Anda");
-      }
-
-      // 3. Validate category type matches transaction type
-      if (category.type !== type) {
-        throw new Error(`Kategori ini untuk ${category.type}, bukan ${type}`);
-      }
-
-      // 4. Calculate new wallet balance
-      let newBalance = wallet.balance;
-      if (type === "INCOME") {
-        newBalance += amount;
-      } else if (type === "EXPENSE") {
-        newBalance -= amount;
-      }
+    // Pengeluaran anggota di atas batas uang saku menunggu persetujuan admin
+    if (session.role === "MEMBER" && type === "EXPENSE") {
+      const reasons = await checkMemberExpense(
+        prisma,
+        session.familyId,
+        session.userId,
+        { ...validatedData, date: transactionDate }
+      );
 
-      // Check if wallet has sufficient balance for expenses
-      if (type === "EXPENSE" && newBalance < 0) {
-        throw new Error("Saldo wallet tidak mencukupi");
-      }
+      if (reasons.length > 0) {
+        const approvalRequest = await prisma.$transaction((tx) =>
+          createApprovalRequest(tx, {
+            familyId: session.familyId,
+            type: "MEMBER_EXPENSE",
+            requestedById: session.userId,
+            amount: validatedData.amount,
+            description: validatedData.description,
+            payload: { ...validatedData, date: transactionDate.toISOString() },
+            reasons,
+          })
+        );
 
-      // 5. Create transaction
-      const transaction = await tx.transaction.create({
-        data: {
-          amount,
-          type,
-          description,
-          date: transactionDate,
-          notes: notes || null,
-          categoryId,
-          walletId,
-          userId: session.userId,
-          familyId: session.familyId!,
-        },
-        include: {
-          user: {
-            select: {
-              id: true,
-              name: true,
-              avatar: true,
-            },
-          },
-          category: {
-            select: {
-              id: true,
-              name: true,
-              icon: true,
-              type: true,
-            },
-          },
-          wallet: {
-            select: {
-              id: true,
-              name: true,
-            },
+        return NextResponse.json(
+          {
+            message: "Pengeluaran menunggu persetujuan admin",
+            approvalRequest,
           },
-        },
-      });
-
-      // 6. Update wallet balance
-      await tx.wallet.update({
-        where: { id: walletId },
-        data: { balance: newBalance },
-      });
-
-      // 7. Create audit log
-      await tx.auditLog.create({
-        data: {
-          action: "CREATE_TRANSACTION",
-          entityType: "Transaction",
-          entityId: transaction.id,
-          details: JSON.stringify({
-            type,
-            amount,
-            description,
-            oldBalance: wallet.balance,
-            newBalance,
-          }),
-          userId: session.userId,
-          familyId: session.familyId!,
-        },
-      });
+          { status: 202 }
+        );
+      }
+    }
 
-      return {
-        transaction,
-        wallet: {
-          id: walletId,
-          oldBalance: wallet.balance,
-          newBalance,
-        },
-      };
-    });
+    // Create transaction and update wallet balance in a transaction
+    const result = await prisma.$transaction((tx) =>
+      createTransaction(tx, session.familyId, session.userId, validatedData)
+    );
 
     // 8. Check budget warning (async, non-blocking)
-    // Only for EXPENSE transactions
+    // Only for EXPENSE transactions, once per (split) category
     if (type === "EXPENSE") {
-      // Don't await - run in background to not block response
-      checkBudgetWarning(
-        session.familyId!,
-        session.userId,
-        categoryId,
-        transactionDate
-      ).catch((err: Error) => {
-        console.error("Budget warning check failed:", err);
-      });
+      const budgetCategoryIds = new Set(
+        getBudgetEntries(result.transaction).map((entry) => entry.categoryId)
+      );
+
+      for (const budgetCategoryId of budgetCategoryIds) {
+        if (!budgetCategoryId) continue;
+
+        // Don't await - run in background to not block response
+        checkBudgetWarning(
+          session.familyId,
+          session.userId,
+          budgetCategoryId,
+          transactionDate
+        ).catch((err: Error) => {
+          console.error("Budget warning check failed:", err);
+        });
+      }
     }
 
     return NextResponse.json(
@@ -352,6 +245,7 @@ export async function POST(request: NextRequest) {
         message: "Transaksi berhasil dibuat",
         transaction: result.transaction,
         wallet: result.wallet,
+        card: result.card,
       },
       { status: 201 }
     );
@@ -371,24 +265,17 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Handle authorization errors
-    if (error instanceof Error && error.message.includes("required")) {
-      return NextResponse.json(
-        {
-          error: error.message,
-          code: "UNAUTHORIZED",
-        },
-        { status: 401 }
-      );
-    }
-
     // Handle business logic errors
     if (error instanceof Error) {
       if (
         error.message.includes("tidak ditemukan") ||
         error.message.includes("tidak milik") ||
+        error.message.includes("diarsipkan") ||
         error.message.includes("tidak mencukupi") ||
-        error.message.includes("Kategori ini untuk")
+        error.message.includes("harus dipilih") ||
+        error.message.includes("Kategori ini untuk") ||
+        error.message.includes("kartu kredit") ||
+        error.message.includes("split")
       ) {
         return NextResponse.json(
           {
@@ -421,7 +308,7 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
 /**
  * Check budget warning and send email notification
@@ -443,22 +330,15 @@ async function checkBudgetWarning(
     const endOfMonth = new Date(year, month, 0, 23, 59, 59, 999);
 
     // 1. Get total expenses for this category in current month
-    const totalExpenses = await prisma.transaction.aggregate({
-      where: {
-        familyId,
-        categoryId,
-        type: "EXPENSE",
-        date: {
-          gte: startOfMonth,
-          lte: endOfMonth,
-        },
-      },
-      _sum: {
-        amount: true,
-      },
-    });
+    // (split transactions count per split line)
+    const spending = await getCategorySpending(
+      prisma,
+      familyId,
+      { start: startOfMonth, end: endOfMonth },
+      { categoryIds: [categoryId], rollup: true }
+    );
 
-    const currentSpent = totalExpenses._sum.amount || 0;
+    const currentSpent = spending.get(categoryId)?.amount || 0;
 
     // 2. Get budget for this category and month
     const budget = await prisma.budget.findFirst({
@@ -0,0 +1,34 @@
+import { NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { withAuth } from "@/lib/route-auth";
+import { getFamilyTags } from "@/lib/transaction-filters";
+
+/**
+ * GET /api/transactions/tags
+ *
+ * List tags used in the family's transactions with usage counts, most used
+ * first (for tag autocomplete and filters)
+ *
+ * @example
+ * ```typescript
+ * const response = await fetch('/api/transactions/tags');
+ * const { tags } = await response.json(); // [{ tag: 'vacation-bali', count: 12 }]
+ * ```
+ */
+export const GET = withAuth(async (request, { session }) => {
+  try {
+    const tags = await getFamilyTags(prisma, session.familyId);
+
+    return NextResponse.json({ tags });
+  } catch (error) {
+    console.error("Get transaction tags error:", error);
+
+    return NextResponse.json(
+      {
+        error: "Terjadi kesalahan saat mengambil data tag",
+        code: "INTERNAL_ERROR",
+      },
+      { status: 500 }
+    );
+  }
+});
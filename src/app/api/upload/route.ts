@@ -1,7 +1,8 @@
-import { NextRequest, NextResponse } from "next/server";
+import { NextResponse } from "next/server";
+import { withAuth } from "@/lib/route-auth";
 import { uploadAvatar, uploadAttachment } from "@/lib/upload";
 
-export async function POST(request: NextRequest) {
+export const POST = withAuth({ family: false }, async (request) => {
   try {
     const formData = await request.formData();
     const file = formData.get("file") as File;
@@ -40,4 +41,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
@@ -0,0 +1,323 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { withAuth } from '@/lib/route-auth';
+import { PrismaErrorHandler } from '@/lib/prisma-helpers';
+import { recalculateBudgetSpent } from '@/lib/transaction-ledger';
+import { addMoney, subtractMoney } from '@/lib/money';
+import {
+  getAdjustmentCategory,
+  getComputedBalance,
+  getUnreconciledTransactions,
+  ReconcileWalletInput,
+  reconcileWalletSchema,
+  walletTransactionsWhere,
+} from '@/lib/wallets';
+
+/**
+ * GET /api/wallets/[id]/reconcile
+ *
+ * Preview a reconciliation: computed balance on the statement date and the
+ * transactions not yet reconciled up to that date
+ *
+ * Query params:
+ * - date?: ISO date of the statement balance (default: now)
+ * - statementBalance?: number, to also get the difference
+ */
+export const GET = withAuth<{ id: string }>(
+  async (request, { session, params }) => {
+    const { id } = await params;
+    try {
+      const { searchParams } = request.nextUrl;
+      const dateParam = searchParams.get('date');
+      const balanceParam = searchParams.get('statementBalance');
+      const statementDate = dateParam ? new Date(dateParam) : new Date();
+      const statementBalance = balanceParam ? parseFloat(balanceParam) : null;
+
+      if (
+        isNaN(statementDate.getTime()) ||
+        (statementBalance !== null && isNaN(statementBalance))
+      ) {
+        return NextResponse.json(
+          { error: 'Parameter tidak valid', code: 'VALIDATION_ERROR' },
+          { status: 400 }
+        );
+      }
+
+      const wallet = await prisma.wallet.findFirst({
+        where: { id, familyId: session.familyId },
+        select: { id: true, name: true, balance: true, currency: true },
+      });
+
+      if (!wallet) {
+        return NextResponse.json(
+          { error: 'Dompet tidak ditemukan', code: 'NOT_FOUND' },
+          { status: 404 }
+        );
+      }
+
+      const [computedBalance, unreconciled, lastReconciliation] =
+        await Promise.all([
+          getComputedBalance(prisma, wallet, statementDate),
+          getUnreconciledTransactions(prisma, id, statementDate),
+          prisma.walletReconciliation.findFirst({
+            where: { walletId: id },
+            orderBy: { statementDate: 'desc' },
+          }),
+        ]);
+
+      return NextResponse.json({
+        wallet,
+        statementDate,
+        computedBalance,
+        statementBalance,
+        difference:
+          statementBalance !== null
+            ? subtractMoney(statementBalance, computedBalance)
+            : null,
+        unreconciledTransactions: unreconciled,
+        lastReconciliation,
+      });
+    } catch (error) {
+      console.error('Preview reconciliation error:', error);
+
+      return NextResponse.json(
+        {
+          error: 'Terjadi kesalahan saat menghitung rekonsiliasi',
+          code: 'INTERNAL_ERROR',
+        },
+        { status: 500 }
+      );
+    }
+  }
+);
+
+/**
+ * POST /api/wallets/[id]/reconcile
+ *
+ * Reconcile a wallet against a statement balance (ADMIN only). Marks the
+ * matched transactions as reconciled and, when the balances differ, posts
+ * an adjustment transaction ("Penyesuaian Saldo") on the statement date.
+ *
+ * @example
+ * ```typescript
+ * await fetch(`/api/wallets/${id}/reconcile`, {
+ *   method: 'POST',
+ *   body: JSON.stringify({
+ *     statementDate: '2025-01-31T23:59:59.999Z',
+ *     statementBalance: 4850000,
+ *   })
+ * });
+ * ```
+ */
+export const POST = withAuth<{ id: string }>(
+  { roles: ['ADMIN'] },
+  async (request, { session, params }) => {
+    const { id } = await params;
+    try {
+      const body = await request.json();
+      const validatedData: ReconcileWalletInput =
+        reconcileWalletSchema.parse(body);
+      const familyId = session.familyId;
+      const statementDate =
+        typeof validatedData.statementDate === 'string'
+          ? new Date(validatedData.statementDate)
+          : validatedData.statementDate;
+
+      const result = await prisma.$transaction(async (tx) => {
+        // 1. Verify wallet
+        const wallet = await tx.wallet.findFirst({
+          where: { id, familyId },
+          select: {
+            id: true,
+            name: true,
+            balance: true,
+            currency: true,
+            lastReconciledAt: true,
+          },
+        });
+
+        if (!wallet) {
+          throw new Error('Dompet tidak ditemukan');
+        }
+
+        // 2. Compare statement and computed balance
+        const computedBalance = await getComputedBalance(
+          tx,
+          wallet,
+          statementDate
+        );
+        const difference = subtractMoney(
+          validatedData.statementBalance,
+          computedBalance
+        );
+
+        // 3. Resolve transactions to mark as reconciled
+        const candidates = await tx.transaction.findMany({
+          where: {
+            ...walletTransactionsWhere(id),
+            reconciledAt: null,
+            date: { lte: statementDate },
+            ...(validatedData.transactionIds && {
+              id: { in: validatedData.transactionIds },
+            }),
+          },
+          select: { id: true },
+        });
+
+        if (
+          validatedData.transactionIds &&
+          candidates.length !== new Set(validatedData.transactionIds).size
+        ) {
+          throw new Error(
+            'Sebagian transaksi tidak ditemukan, sudah direkonsiliasi, atau setelah tanggal mutasi'
+          );
+        }
+
+        const reconciledAt = new Date();
+        const reconciliation = await tx.walletReconciliation.create({
+          data: {
+            walletId: id,
+            statementDate,
+            statementBalance: validatedData.statementBalance,
+            computedBalance,
+            difference,
+            notes: validatedData.notes,
+            createdById: session.userId,
+          },
+        });
+
+        await tx.transaction.updateMany({
+          where: { id: { in: candidates.map((candidate) => candidate.id) } },
+          data: { reconciledAt, reconciliationId: reconciliation.id },
+        });
+
+        // 4. Post adjustment for the difference
+        let adjustment = null;
+        if (validatedData.postAdjustment && difference !== 0) {
+          const type = difference > 0 ? 'INCOME' : 'EXPENSE';
+          const category = await getAdjustmentCategory(tx, familyId, type);
+
+          adjustment = await tx.transaction.create({
+            data: {
+              type,
+              amount: Math.abs(difference),
+              currency: wallet.currency,
+              description: `Penyesuaian rekonsiliasi ${wallet.name}`,
+              notes: validatedData.notes,
+              date: statementDate,
+              categoryId: category.id,
+              fromWalletId: id,
+              userId: session.userId,
+              familyId,
+              reconciledAt,
+              reconciliationId: reconciliation.id,
+            },
+          });
+
+          // Saldo boleh negatif di sini: mengikuti saldo bank apa adanya
+          await tx.wallet.update({
+            where: { id },
+            data: { balance: { increment: difference } },
+          });
+
+          await recalculateBudgetSpent(tx, familyId, adjustment);
+
+          await tx.walletReconciliation.update({
+            where: { id: reconciliation.id },
+            data: { adjustmentTransactionId: adjustment.id },
+          });
+        }
+
+        // 5. Remember the latest reconciled statement date
+        if (
+          !wallet.lastReconciledAt ||
+          wallet.lastReconciledAt < statementDate
+        ) {
+          await tx.wallet.update({
+            where: { id },
+            data: { lastReconciledAt: statementDate },
+          });
+        }
+
+        // 6. Create audit log
+        await tx.auditLog.create({
+          data: {
+            action: 'RECONCILE_WALLET',
+            entityType: 'Wallet',
+            entityId: id,
+            details: JSON.stringify({
+              reconciliationId: reconciliation.id,
+              statementDate,
+              statementBalance: validatedData.statementBalance,
+              computedBalance,
+              difference,
+              reconciledTransactions: candidates.length,
+              adjustmentTransactionId: adjustment?.id ?? null,
+              oldBalance: wallet.balance,
+              newBalance: adjustment
+                ? addMoney(wallet.balance, difference)
+                : wallet.balance,
+            }),
+            userId: session.userId,
+            familyId,
+          },
+        });
+
+        return {
+          reconciliation: {
+            ...reconciliation,
+            adjustmentTransactionId: adjustment?.id ?? null,
+          },
+          adjustment,
+          reconciledCount: candidates.length,
+        };
+      });
+
+      return NextResponse.json(
+        {
+          message: 'Rekonsiliasi berhasil disimpan',
+          ...result,
+        },
+        { status: 201 }
+      );
+    } catch (error) {
+      console.error('Reconcile wallet error:', error);
+
+      if (error instanceof z.ZodError) {
+        const firstError = error.errors[0];
+        return NextResponse.json(
+          {
+            error: firstError.message,
+            code: 'VALIDATION_ERROR',
+            field: firstError.path.join('.'),
+          },
+          { status: 400 }
+        );
+      }
+
+      if (error instanceof Error && error.message.includes('tidak ditemukan')) {
+        return NextResponse.json(
+          { error: error.message, code: 'BUSINESS_LOGIC_ERROR' },
+          { status: 400 }
+        );
+      }
+
+      if (error && typeof error === 'object' && 'code' in error) {
+        const prismaError = PrismaErrorHandler.handle(error);
+        return NextResponse.json(
+          { error: prismaError.message, code: prismaError.code },
+          { status: 400 }
+        );
+      }
+
+      return NextResponse.json(
+        {
+          error: 'Terjadi kesalahan saat menyimpan rekonsiliasi',
+          code: 'INTERNAL_ERROR',
+        },
+        { status: 500 }
+      );
+    }
+  }
+);
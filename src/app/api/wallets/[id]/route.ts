@@ -0,0 +1,232 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { withAuth } from '@/lib/route-auth';
+import { PrismaErrorHandler } from '@/lib/prisma-helpers';
+import { UpdateWalletInput, updateWalletSchema } from '@/lib/validation';
+import { walletSelect, walletTransactionsWhere } from '@/lib/wallets';
+
+/**
+ * Map thrown errors to API responses (shared by all handlers)
+ */
+function handleError(error: unknown, fallbackMessage: string) {
+  if (error instanceof z.ZodError) {
+    const firstError = error.errors[0];
+    return NextResponse.json(
+      {
+        error: firstError.message,
+        code: 'VALIDATION_ERROR',
+        field: firstError.path.join('.'),
+      },
+      { status: 400 }
+    );
+  }
+
+  if (error instanceof Error) {
+    if (error.message === 'Dompet tidak ditemukan') {
+      return NextResponse.json(
+        { error: error.message, code: 'NOT_FOUND' },
+        { status: 404 }
+      );
+    }
+
+    if (error.message.includes('tidak dapat')) {
+      return NextResponse.json(
+        { error: error.message, code: 'BUSINESS_LOGIC_ERROR' },
+        { status: 400 }
+      );
+    }
+  }
+
+  if (error && typeof error === 'object' && 'code' in error) {
+    const prismaError = PrismaErrorHandler.handle(error);
+    return NextResponse.json(
+      { error: prismaError.message, code: prismaError.code },
+      { status: 400 }
+    );
+  }
+
+  return NextResponse.json(
+    { error: fallbackMessage, code: 'INTERNAL_ERROR' },
+    { status: 500 }
+  );
+}
+
+/**
+ * GET /api/wallets/[id]
+ *
+ * Get a wallet with transaction counts and recent reconciliations
+ */
+export const GET = withAuth<{ id: string }>(
+  async (request, { session, params }) => {
+    const { id } = await params;
+    try {
+      const wallet = await prisma.wallet.findFirst({
+        where: { id, familyId: session.familyId },
+        select: {
+          ...walletSelect,
+          reconciliations: {
+            orderBy: { statementDate: 'desc' },
+            take: 5,
+          },
+        },
+      });
+
+      if (!wallet) {
+        throw new Error('Dompet tidak ditemukan');
+      }
+
+      const [transactionCount, unreconciledCount] = await Promise.all([
+        prisma.transaction.count({ where: walletTransactionsWhere(id) }),
+        prisma.transaction.count({
+          where: { ...walletTransactionsWhere(id), reconciledAt: null },
+        }),
+      ]);
+
+      return NextResponse.json({
+        wallet,
+        stats: { transactionCount, unreconciledCount },
+      });
+    } catch (error) {
+      console.error('Get wallet error:', error);
+      return handleError(error, 'Terjadi kesalahan saat mengambil data dompet');
+    }
+  }
+);
+
+/**
+ * PUT /api/wallets/[id]
+ *
+ * Update wallet details or (un)archive it (ADMIN only). The balance cannot
+ * be edited directly; use POST /api/wallets/[id]/reconcile instead.
+ */
+export const PUT = withAuth<{ id: string }>(
+  { roles: ['ADMIN'] },
+  async (request, { session, params }) => {
+    const { id } = await params;
+    try {
+      const body = await request.json();
+      const validatedData: UpdateWalletInput = updateWalletSchema.parse(body);
+
+      const wallet = await prisma.$transaction(async (tx) => {
+        const existing = await tx.wallet.findFirst({
+          where: { id, familyId: session.familyId },
+          select: walletSelect,
+        });
+
+        if (!existing) {
+          throw new Error('Dompet tidak ditemukan');
+        }
+
+        // Mata uang hanya bisa diganti sebelum ada transaksi
+        if (
+          validatedData.currency &&
+          validatedData.currency !== existing.currency
+        ) {
+          const transactionCount = await tx.transaction.count({
+            where: walletTransactionsWhere(id),
+          });
+          if (transactionCount > 0) {
+            throw new Error(
+              'Mata uang dompet tidak dapat diubah karena sudah memiliki transaksi'
+            );
+          }
+        }
+
+        const { isArchived, ...details } = validatedData;
+
+        const updated = await tx.wallet.update({
+          where: { id },
+          data: {
+            ...details,
+            ...(isArchived !== undefined && {
+              isArchived,
+              archivedAt: isArchived ? new Date() : null,
+            }),
+          },
+          select: walletSelect,
+        });
+
+        await tx.auditLog.create({
+          data: {
+            action: 'UPDATE_WALLET',
+            entityType: 'Wallet',
+            entityId: id,
+            dataBefore: JSON.stringify(existing),
+            dataAfter: JSON.stringify(updated),
+            userId: session.userId,
+            familyId: session.familyId,
+          },
+        });
+
+        return updated;
+      });
+
+      return NextResponse.json({
+        message: 'Dompet berhasil diperbarui',
+        wallet,
+      });
+    } catch (error) {
+      console.error('Update wallet error:', error);
+      return handleError(error, 'Terjadi kesalahan saat memperbarui dompet');
+    }
+  }
+);
+
+/**
+ * PATCH /api/wallets/[id]
+ *
+ * Alias of PUT - all fields are already optional
+ */
+export const PATCH = PUT;
+
+/**
+ * DELETE /api/wallets/[id]
+ *
+ * Archive a wallet (ADMIN only). Transactions and history are kept; the
+ * wallet is hidden from lists and cannot receive new transactions.
+ */
+export const DELETE = withAuth<{ id: string }>(
+  { roles: ['ADMIN'] },
+  async (request, { session, params }) => {
+    const { id } = await params;
+    try {
+      const existing = await prisma.wallet.findFirst({
+        where: { id, familyId: session.familyId },
+        select: walletSelect,
+      });
+
+      if (!existing) {
+        throw new Error('Dompet tidak ditemukan');
+      }
+
+      const wallet = await prisma.wallet.update({
+        where: { id },
+        data: {
+          isArchived: true,
+          archivedAt: existing.archivedAt ?? new Date(),
+        },
+        select: walletSelect,
+      });
+
+      await prisma.auditLog.create({
+        data: {
+          action: 'ARCHIVE_WALLET',
+          entityType: 'Wallet',
+          entityId: id,
+          dataBefore: JSON.stringify(existing),
+          userId: session.userId,
+          familyId: session.familyId,
+        },
+      });
+
+      return NextResponse.json({
+        message: 'Dompet berhasil diarsipkan',
+        wallet,
+      });
+    } catch (error) {
+      console.error('Archive wallet error:', error);
+      return handleError(error, 'Terjadi kesalahan saat mengarsipkan dompet');
+    }
+  }
+);
@@ -1,37 +1,37 @@
 import { NextResponse } from 'next/server';
+import { z } from 'zod';
 import { prisma } from '@/lib/prisma';
-import { requireAuth, requireFamily } from '@/lib/auth';
+import { withAuth } from '@/lib/route-auth';
+import { PrismaErrorHandler } from '@/lib/prisma-helpers';
+import { WalletInput, walletSchema } from '@/lib/validation';
+import { walletSelect } from '@/lib/wallets';
 
 /**
  * GET /api/wallets
- * 
+ *
  * Get all wallets for the user's family
- * 
+ *
+ * Query params:
+ * - includeArchived?: "true" to include archived wallets
+ *
  * @example
  * ```typescript
  * const response = await fetch('/api/wallets');
  * const wallets = await response.json();
  * ```
  */
-export async function GET() {
+export const GET = withAuth(async (request, { session }) => {
   try {
-    // Get current session
-    const session = await requireAuth();
-    
-    // Ensure user has a family
-    await requireFamily(session);
+    const includeArchived =
+      request.nextUrl.searchParams.get('includeArchived') === 'true';
 
-        // Fetch wallets for user's family
+    // Fetch wallets for user's family
     const wallets = await prisma.wallet.findMany({
       where: {
-        familyId: session.familyId!,
-      },
-      select: {
-        id: true,
-        name: true,
-        description: true,
-        balance: true,
+        familyId: session.familyId,
+        ...(!includeArchived && { isArchived: false }),
       },
+      select: walletSelect,
       orderBy: {
         name: 'asc',
       },
@@ -41,16 +41,6 @@ export async function GET() {
   } catch (error) {
     console.error('Get wallets error:', error);
 
-    if (error instanceof Error && error.message.includes('required')) {
-      return NextResponse.json(
-        {
-          error: error.message,
-          code: 'UNAUTHORIZED',
-        },
-        { status: 401 }
-      );
-    }
-
     return NextResponse.json(
       {
         error: 'Terjadi kesalahan saat mengambil data dompet',
@@ -59,4 +49,98 @@ export async function GET() {
       { status: 500 }
     );
   }
-}
+});
+
+/**
+ * POST /api/wallets
+ *
+ * Create a wallet with an opening balance (ADMIN only)
+ *
+ * @example
+ * ```typescript
+ * await fetch('/api/wallets', {
+ *   method: 'POST',
+ *   body: JSON.stringify({
+ *     name: 'BCA Ayah',
+ *     type: 'BANK',
+ *     balance: 2500000,
+ *     currency: 'IDR',
+ *   })
+ * });
+ * ```
+ */
+export const POST = withAuth(
+  { roles: ['ADMIN'] },
+  async (request, { session }) => {
+    try {
+      const body = await request.json();
+      const validatedData: WalletInput = walletSchema.parse(body);
+
+      const wallet = await prisma.$transaction(async (tx) => {
+        // Default currency mengikuti mata uang keluarga
+        const family = await tx.family.findUnique({
+          where: { id: session.familyId },
+          select: { currency: true },
+        });
+
+        const created = await tx.wallet.create({
+          data: {
+            ...validatedData,
+            openingBalance: validatedData.balance,
+            currency: validatedData.currency ?? family?.currency ?? 'IDR',
+            familyId: session.familyId,
+          },
+          select: walletSelect,
+        });
+
+        await tx.auditLog.create({
+          data: {
+            action: 'CREATE_WALLET',
+            entityType: 'Wallet',
+            entityId: created.id,
+            dataAfter: JSON.stringify(created),
+            userId: session.userId,
+            familyId: session.familyId,
+          },
+        });
+
+        return created;
+      });
+
+      return NextResponse.json(
+        { message: 'Dompet berhasil dibuat', wallet },
+        { status: 201 }
+      );
+    } catch (error) {
+      console.error('Create wallet error:', error);
+
+      if (error instanceof z.ZodError) {
+        const firstError = error.errors[0];
+        return NextResponse.json(
+          {
+            error: firstError.message,
+            code: 'VALIDATION_ERROR',
+            field: firstError.path.join('.'),
+          },
+          { status: 400 }
+        );
+      }
+
+      if (error && typeof error === 'object' && 'code' in error) {
+        const prismaError = PrismaErrorHandler.handle(error);
+        return NextResponse.json(
+          { error: prismaError.message, code: prismaError.code },
+          { status: 400 }
+        );
+      }
+
+      return NextResponse.json(
+        {
+          error: 'Terjadi kesalahan saat membuat dompet',
+          code: 'INTERNAL_ERROR',
+        },
+        { status: 500 }
+      );
+    }
+  }
+);
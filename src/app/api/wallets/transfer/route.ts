@@ -1,47 +1,36 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextResponse } from 'next/server';
 import { z } from 'zod';
 import { prisma } from '@/lib/prisma';
-import { requireAuth, requireFamily } from '@/lib/auth';
+import { withAuth } from '@/lib/route-auth';
 import { PrismaErrorHandler } from '@/lib/prisma-helpers';
-
-/**
- * Wallet Transfer Schema
- */
-const WalletTransferSchema = z.object({
-  fromWalletId: z.string().uuid('From Wallet ID tidak valid'),
-  toWalletId: z.string().uuid('To Wallet ID tidak valid'),
-  amount: z
-    .number()
-    .positive('Jumlah transfer harus lebih dari 0')
-    .max(999999999999, 'Jumlah transfer terlalu besar'),
-  description: z
-    .string()
-    .max(500, 'Deskripsi maksimal 500 karakter')
-    .optional(),
-  date: z
-    .string()
-    .datetime({ message: 'Format tanggal tidak valid' })
-    .or(z.date())
-    .optional()
-    .default(() => new Date().toISOString()),
-});
-
-type WalletTransferInput = z.infer<typeof WalletTransferSchema>;
+import { addMoney } from '@/lib/money';
+import { getCurrencyConverter } from '@/lib/currency';
+import { createApprovalRequest, requiresApproval } from '@/lib/approvals';
+import {
+  WalletTransferInput,
+  transferBetweenWallets,
+  walletTransferSchema,
+} from '@/lib/wallet-transfers';
 
 /**
  * POST /api/wallets/transfer
- * 
+ *
  * Transfer money between wallets within the same family
- * 
+ *
+ * Jika nilainya melebihi `approvalTransferThreshold` keluarga, transfer
+ * disimpan sebagai permintaan persetujuan dan dikembalikan 202.
+ *
  * Request body:
  * {
  *   fromWalletId: string,
  *   toWalletId: string,
- *   amount: number,
+ *   amount: number,           // dalam mata uang dompet sumber
+ *   exchangeRate?: number,    // wajib jika mata uang kedua dompet berbeda
+ *   fee?: number,             // biaya, dipotong dari dompet sumber
  *   description?: string,
  *   date?: string | Date
  * }
- * 
+ *
  * Response:
  * {
  *   transfer: {
@@ -52,19 +41,14 @@ type WalletTransferInput = z.infer<typeof WalletTransferSchema>;
  *   }
  * }
  */
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request, { session }) => {
   try {
-    // Get current session
-    const session = await requireAuth();
-    
-    // Ensure user has a family
-    await requireFamily(session);
-
     // Parse and validate request body
     const body = await request.json();
-    const validatedData: WalletTransferInput = WalletTransferSchema.parse(body);
+    const validatedData: WalletTransferInput = walletTransferSchema.parse(body);
 
-    const { fromWalletId, toWalletId, amount, description, date } = validatedData;
+    const { fromWalletId, toWalletId, amount, exchangeRate, fee, date } =
+      validatedData;
 
     // Validate different wallets
     if (fromWalletId === toWalletId) {
@@ -81,20 +65,24 @@ export async function POST(request: NextRequest) {
     const [fromWallet, toWallet] = await Promise.all([
       prisma.wallet.findUnique({
         where: { id: fromWalletId },
-        select: { 
-          id: true, 
-          name: true, 
-          balance: true, 
-          familyId: true 
+        select: {
+          id: true,
+          name: true,
+          balance: true,
+          currency: true,
+          isArchived: true,
+          familyId: true,
         },
       }),
       prisma.wallet.findUnique({
         where: { id: toWalletId },
-        select: { 
-          id: true, 
-          name: true, 
-          balance: true, 
-          familyId: true 
+        select: {
+          id: true,
+          name: true,
+          balance: true,
+          currency: true,
+          isArchived: true,
+          familyId: true,
         },
       }),
     ]);
@@ -142,145 +130,85 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Validate sufficient balance
-    if (fromWallet.balance < amount) {
+    // Archived wallets are read-only
+    if (fromWallet.isArchived || toWallet.isArchived) {
       return NextResponse.json(
         {
-          error: 'Saldo tidak mencukupi untuk transfer',
-          code: 'INSUFFICIENT_BALANCE',
-          details: {
-            available: fromWallet.balance,
-            required: amount,
-          },
+          error: 'Dompet yang diarsipkan tidak dapat digunakan untuk transfer',
+          code: 'WALLET_ARCHIVED',
         },
         { status: 400 }
       );
     }
 
-    // Get or create "Transfer" category
-    let transferCategory = await prisma.category.findFirst({
-      where: {
-        familyId: session.familyId!,
-        name: 'Transfer',
-        type: 'EXPENSE',
-      },
-    });
-
-    if (!transferCategory) {
-      transferCategory = await prisma.category.create({
-        data: {
-          name: 'Transfer',
-          description: 'Transfer antar dompet',
-          type: 'EXPENSE',
-          icon: '💸',
-          familyId: session.familyId!,
+    // Cross-currency transfers need an explicit rate
+    const isCrossCurrency = fromWallet.currency !== toWallet.currency;
+    if (isCrossCurrency && !exchangeRate) {
+      return NextResponse.json(
+        {
+          error: `Kurs ${fromWallet.currency}/${toWallet.currency} harus diisi untuk transfer antar mata uang`,
+          code: 'EXCHANGE_RATE_REQUIRED',
         },
-      });
+        { status: 400 }
+      );
     }
 
-    // Perform atomic transfer using transaction
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const result = await prisma.$transaction(async (tx: any) => {
-      // 1. Decrease balance from source wallet
-      const updatedFromWallet = await tx.wallet.update({
-        where: { id: fromWalletId },
-        data: {
-          balance: {
-            decrement: amount,
-          },
-        },
-      });
+    const totalDebit = addMoney(amount, fee);
 
-      // 2. Increase balance to destination wallet
-      const updatedToWallet = await tx.wallet.update({
-        where: { id: toWalletId },
-        data: {
-          balance: {
-            increment: amount,
+    // Validate sufficient balance
+    if (fromWallet.balance < totalDebit) {
+      return NextResponse.json(
+        {
+          error: 'Saldo tidak mencukupi untuk transfer',
+          code: 'INSUFFICIENT_BALANCE',
+          details: {
+            available: fromWallet.balance,
+            required: totalDebit,
           },
         },
-      });
-
-      // 3. Create EXPENSE transaction from source wallet
-      const expenseTransaction = await tx.transaction.create({
-        data: {
-          amount,
-          type: 'EXPENSE',
-          description: description || `Transfer ke ${toWallet.name}`,
-          date: typeof date === 'string' ? new Date(date) : date,
-          familyId: session.familyId!,
-          userId: session.userId,
-          categoryId: transferCategory.id,
-          fromWalletId: fromWalletId,
-        },
-      });
+        { status: 400 }
+      );
+    }
 
-      // 4. Create INCOME transaction to destination wallet
-      const incomeTransaction = await tx.transaction.create({
-        data: {
+    // Transfer di atas batas kebijakan keluarga menunggu persetujuan admin
+    const converter = await getCurrencyConverter(prisma, session.familyId);
+    const transferDate = typeof date === 'string' ? new Date(date) : date;
+    if (
+      await requiresApproval(prisma, session.familyId, session.userId, {
+        type: 'WALLET_TRANSFER',
+        amount: converter.toBase(amount, fromWallet.currency, transferDate),
+      })
+    ) {
+      const approvalRequest = await prisma.$transaction((tx) =>
+        createApprovalRequest(tx, {
+          familyId: session.familyId,
+          type: 'WALLET_TRANSFER',
+          requestedById: session.userId,
           amount,
-          type: 'INCOME',
-          description: description || `Transfer dari ${fromWallet.name}`,
-          date: typeof date === 'string' ? new Date(date) : date,
-          familyId: session.familyId!,
-          userId: session.userId,
-          categoryId: transferCategory.id,
-          fromWalletId: toWalletId,
-        },
-      });
+          description: `Transfer ${fromWallet.currency} ${amount.toLocaleString('id-ID')} dari ${fromWallet.name} ke ${toWallet.name}`,
+          payload: { ...validatedData, date: transferDate.toISOString() },
+          reasons: ['Transfer melebihi batas persetujuan keluarga'],
+        })
+      );
 
-      // 5. Create audit log
-      await tx.auditLog.create({
-        data: {
-          userId: session.userId,
-          action: 'WALLET_TRANSFER',
-          entityType: 'Wallet',
-          entityId: fromWalletId,
-          changes: {
-            fromWalletId,
-            fromWalletName: fromWallet.name,
-            toWalletId,
-            toWalletName: toWallet.name,
-            amount,
-            previousFromBalance: fromWallet.balance,
-            newFromBalance: updatedFromWallet.balance,
-            previousToBalance: toWallet.balance,
-            newToBalance: updatedToWallet.balance,
-            expenseTransactionId: expenseTransaction.id,
-            incomeTransactionId: incomeTransaction.id,
-          },
-        },
-      });
+      return NextResponse.json(
+        { approvalRequest, message: 'Transfer menunggu persetujuan admin' },
+        { status: 202 }
+      );
+    }
 
-      return {
-        fromWallet: updatedFromWallet,
-        toWallet: updatedToWallet,
-        transactions: [expenseTransaction, incomeTransaction],
-      };
-    });
+    // Perform atomic transfer using transaction
+    const transfer = await prisma.$transaction((tx) =>
+      transferBetweenWallets(
+        tx,
+        session.familyId,
+        session.userId,
+        validatedData
+      )
+    );
 
     return NextResponse.json(
-      {
-        transfer: {
-          fromWallet: {
-            id: result.fromWallet.id,
-            name: fromWallet.name,
-            previousBalance: fromWallet.balance,
-            newBalance: result.fromWallet.balance,
-          },
-          toWallet: {
-            id: result.toWallet.id,
-            name: toWallet.name,
-            previousBalance: toWallet.balance,
-            newBalance: result.toWallet.balance,
-          },
-          amount,
-          description: description || `Transfer dari ${fromWallet.name} ke ${toWallet.name}`,
-          date,
-          transactions: result.transactions,
-        },
-        message: 'Transfer berhasil',
-      },
+      { transfer, message: 'Transfer berhasil' },
       { status: 201 }
     );
   } catch (error) {
@@ -293,6 +221,14 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Saldo berubah sejak validasi awal
+    if (error instanceof Error && error.message.includes('tidak mencukupi')) {
+      return NextResponse.json(
+        { error: error.message, code: 'INSUFFICIENT_BALANCE' },
+        { status: 400 }
+      );
+    }
+
     // Handle Prisma errors
     const prismaError = PrismaErrorHandler.handle(error);
     if (prismaError.code !== 'UNKNOWN') {
@@ -310,4 +246,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
@@ -26,6 +26,16 @@ interface BudgetCardProps {
     spent?: number;
     percentage?: number;
     status?: "SAFE" | "WARNING" | "DANGER" | "EXCEEDED";
+    // Active period with carry-over, from GET /api/budget?month&year
+    effective?: {
+      period: string;
+      start: string;
+      end: string;
+      amount: number;
+      carryOver: number;
+      effectiveAmount: number;
+      spent: number;
+    } | null;
   };
   onUpdate: () => void;
   onEdit: (budget: {
@@ -44,11 +54,23 @@ export default function BudgetCard({
   const [showMenu, setShowMenu] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
 
-  const spent = budget.spent || 0;
-  const remaining = budget.amount - spent;
+  const effective = budget.effective;
+  const amount = effective?.effectiveAmount ?? budget.amount;
+  const spent = effective?.spent ?? (budget.spent || 0);
+  const remaining = amount - spent;
   const percentage =
     budget.percentage ||
-    (budget.amount > 0 ? (spent / budget.amount) * 100 : 0);
+    (amount > 0 ? (spent / amount) * 100 : spent > 0 ? 100 : 0);
+
+  const formatPeriod = (start: string, end: string) =>
+    [start, end]
+      .map((date) =>
+        new Date(date).toLocaleDateString("id-ID", {
+          day: "numeric",
+          month: "short",
+        })
+      )
+      .join(" - ");
 
   const getStatusColor = () => {
     if (percentage >= 100) return "danger";
@@ -98,8 +120,20 @@ export default function BudgetCard({
               {budget.category.name}
             </h3>
             <p className="text-sm text-secondary-500 dark:text-secondary-400">
-              Budget: {formatCurrency(budget.amount)}
+              Budget: {formatCurrency(amount)}
             </p>
+            {effective && effective.carryOver !== 0 && (
+              <p className="text-xs text-secondary-500 dark:text-secondary-400">
+                {formatCurrency(effective.amount)}{" "}
+                {effective.carryOver > 0 ? "+" : "-"} Rollover{" "}
+                {formatCurrency(Math.abs(effective.carryOver))}
+              </p>
+            )}
+            {effective && effective.period !== "MONTHLY" && (
+              <p className="text-xs text-secondary-500 dark:text-secondary-400">
+                {formatPeriod(effective.start, effective.end)}
+              </p>
+            )}
           </div>
         </div>
 
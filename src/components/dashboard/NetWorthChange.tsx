@@ -0,0 +1,88 @@
+"use client";
+
+import { TrendingUp, TrendingDown } from "lucide-react";
+
+interface NetWorthChangeProps {
+  netWorth: number;
+  change: {
+    change: number;
+    savings: number;
+    assetRevaluation: number;
+    debtPaydown: number;
+  };
+  currency?: string;
+}
+
+/**
+ * Current net worth with the change since the end of last month, split into
+ * savings, asset revaluation and debt paydown
+ */
+export default function NetWorthChange({
+  netWorth,
+  change,
+  currency = "IDR",
+}: NetWorthChangeProps) {
+  // Format currency
+  const formatCurrency = (value: number) => {
+    return new Intl.NumberFormat("id-ID", {
+      style: "currency",
+      currency,
+      minimumFractionDigits: 0,
+      maximumFractionDigits: 0,
+    }).format(value);
+  };
+
+  const formatSigned = (value: number) =>
+    `${value > 0 ? "+" : ""}${formatCurrency(value)}`;
+
+  const colorOf = (value: number) =>
+    value > 0
+      ? "text-green-600 dark:text-green-400"
+      : value < 0
+      ? "text-red-600 dark:text-red-400"
+      : "text-gray-600 dark:text-gray-400";
+
+  const parts = [
+    { label: "Tabungan", value: change.savings },
+    { label: "Revaluasi Aset", value: change.assetRevaluation },
+    { label: "Pelunasan Hutang", value: change.debtPaydown },
+  ];
+
+  return (
+    <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+      <div>
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          Kekayaan Bersih Saat Ini
+        </p>
+        <p className="text-2xl font-bold text-gray-900 dark:text-white">
+          {formatCurrency(netWorth)}
+        </p>
+        <p
+          className={`text-sm flex items-center gap-1 mt-1 ${colorOf(
+            change.change
+          )}`}
+        >
+          {change.change >= 0 ? (
+            <TrendingUp className="w-4 h-4" />
+          ) : (
+            <TrendingDown className="w-4 h-4" />
+          )}
+          {formatSigned(change.change)} sejak akhir bulan lalu
+        </p>
+      </div>
+
+      <div className="grid grid-cols-3 gap-4">
+        {parts.map((part) => (
+          <div key={part.label}>
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              {part.label}
+            </p>
+            <p className={`text-sm font-semibold ${colorOf(part.value)}`}>
+              {formatSigned(part.value)}
+            </p>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,91 @@
+"use client";
+
+import { Search } from "lucide-react";
+
+interface PinnedSearchItem {
+  id: string;
+  name: string;
+  filters: {
+    tags?: string[];
+    startDate?: string;
+    endDate?: string;
+  };
+  totals: {
+    income: number;
+    expense: number;
+    net: number;
+    count: number;
+  };
+}
+
+interface PinnedSearchesProps {
+  searches: PinnedSearchItem[];
+  currency?: string;
+}
+
+export default function PinnedSearches({
+  searches,
+  currency = "IDR",
+}: PinnedSearchesProps) {
+  // Format currency
+  const formatCurrency = (value: number) => {
+    return new Intl.NumberFormat("id-ID", {
+      style: "currency",
+      currency,
+      minimumFractionDigits: 0,
+      maximumFractionDigits: 0,
+    }).format(value);
+  };
+
+  if (searches.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+      {searches.map((search) => (
+        <div
+          key={search.id}
+          className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 p-4"
+        >
+          <div className="flex items-center gap-2 mb-1">
+            <Search className="w-4 h-4 text-gray-400" />
+            <h3 className="text-sm font-semibold text-gray-900 dark:text-white truncate">
+              {search.name}
+            </h3>
+          </div>
+
+          {search.filters.tags && search.filters.tags.length > 0 && (
+            <div className="flex flex-wrap gap-1 mb-2">
+              {search.filters.tags.map((tag) => (
+                <span
+                  key={tag}
+                  className="px-2 py-0.5 rounded-full text-xs bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300"
+                >
+                  #{tag}
+                </span>
+              ))}
+            </div>
+          )}
+
+          <p
+            className={`text-xl font-bold ${
+              search.totals.net >= 0
+                ? "text-green-600 dark:text-green-400"
+                : "text-red-600 dark:text-red-400"
+            }`}
+          >
+            {formatCurrency(search.totals.net)}
+          </p>
+          <div className="mt-2 flex justify-between text-xs text-gray-600 dark:text-gray-400">
+            <span>Masuk {formatCurrency(search.totals.income)}</span>
+            <span>Keluar {formatCurrency(search.totals.expense)}</span>
+          </div>
+          <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+            {search.totals.count} transaksi
+          </p>
+        </div>
+      ))}
+    </div>
+  );
+}
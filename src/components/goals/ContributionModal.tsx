@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, FormEvent } from "react";
+import { useState, useEffect, FormEvent } from "react";
 import { X, TrendingUp, Calendar } from "lucide-react";
 
 interface Goal {
@@ -11,6 +11,13 @@ interface Goal {
   progress: number;
 }
 
+interface Wallet {
+  id: string;
+  name: string;
+  balance: number;
+  isArchived?: boolean;
+}
+
 interface ContributionModalProps {
   isOpen: boolean;
   onClose: () => void;
@@ -25,13 +32,35 @@ export default function ContributionModal({
   goal,
 }: ContributionModalProps) {
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [wallets, setWallets] = useState<Wallet[]>([]);
   const [formData, setFormData] = useState({
     amount: "",
     description: "",
+    walletId: "",
+    funding: "WALLET_DEBIT" as "WALLET_DEBIT" | "EARMARK",
     date: new Date().toISOString().split("T")[0],
   });
   const [errors, setErrors] = useState<Record<string, string>>({});
 
+  useEffect(() => {
+    if (isOpen) {
+      fetchWallets();
+    }
+  }, [isOpen]);
+
+  const fetchWallets = async () => {
+    try {
+      const response = await fetch("/api/wallets");
+      if (!response.ok) throw new Error("Failed to fetch wallets");
+      const data = await response.json();
+      setWallets(
+        (data.wallets || data || []).filter((wallet: Wallet) => !wallet.isArchived)
+      );
+    } catch (error) {
+      console.error("Error fetching wallets:", error);
+    }
+  };
+
   const formatCurrency = (amount: number): string => {
     return new Intl.NumberFormat("id-ID", {
       style: "currency",
@@ -72,6 +101,8 @@ export default function ContributionModal({
           amount: parseFloat(formData.amount),
           description: formData.description.trim() || null,
           date: new Date(formData.date).toISOString(),
+          walletId: formData.walletId || undefined,
+          funding: formData.walletId ? formData.funding : undefined,
         }),
       });
 
@@ -81,6 +112,8 @@ export default function ContributionModal({
         setFormData({
           amount: "",
           description: "",
+          walletId: "",
+          funding: "WALLET_DEBIT",
           date: new Date().toISOString().split("T")[0],
         });
       } else {
@@ -229,6 +262,63 @@ export default function ContributionModal({
             </div>
           )}
 
+          {/* Wallet */}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              Sumber Dana (Opsional)
+            </label>
+            <select
+              value={formData.walletId}
+              onChange={(e) =>
+                setFormData({ ...formData, walletId: e.target.value })
+              }
+              className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+            >
+              <option value="">Catat manual (tanpa dompet)</option>
+              {wallets.map((wallet) => (
+                <option key={wallet.id} value={wallet.id}>
+                  {wallet.name} ({formatCurrency(wallet.balance)})
+                </option>
+              ))}
+            </select>
+
+            {formData.walletId && (
+              <div className="grid grid-cols-2 gap-2 mt-3">
+                <button
+                  type="button"
+                  onClick={() =>
+                    setFormData({ ...formData, funding: "WALLET_DEBIT" })
+                  }
+                  className={`px-3 py-2 text-sm border rounded-lg transition-colors ${
+                    formData.funding === "WALLET_DEBIT"
+                      ? "border-primary-500 bg-primary-50 text-primary-700 dark:bg-primary-900/20 dark:text-primary-300"
+                      : "border-gray-300 dark:border-gray-600 hover:bg-gray-50 dark:hover:bg-gray-700"
+                  }`}
+                >
+                  Pindahkan dari dompet
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setFormData({ ...formData, funding: "EARMARK" })}
+                  className={`px-3 py-2 text-sm border rounded-lg transition-colors ${
+                    formData.funding === "EARMARK"
+                      ? "border-primary-500 bg-primary-50 text-primary-700 dark:bg-primary-900/20 dark:text-primary-300"
+                      : "border-gray-300 dark:border-gray-600 hover:bg-gray-50 dark:hover:bg-gray-700"
+                  }`}
+                >
+                  Alokasikan di dompet
+                </button>
+              </div>
+            )}
+            {formData.walletId && (
+              <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+                {formData.funding === "EARMARK"
+                  ? "Uang tetap di dompet, tetapi disisihkan untuk goal ini."
+                  : "Saldo dompet berkurang sebesar jumlah kontribusi."}
+              </p>
+            )}
+          </div>
+
           {/* Date */}
           <div>
             <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
@@ -0,0 +1,374 @@
+"use client";
+
+import { useState, useEffect, FormEvent } from "react";
+import { X, ArrowDownCircle, Calendar } from "lucide-react";
+
+interface Goal {
+  id: string;
+  name: string;
+  targetAmount: number;
+  currentAmount: number;
+  progress: number;
+}
+
+interface Wallet {
+  id: string;
+  name: string;
+  isArchived?: boolean;
+}
+
+interface DistributionModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSuccess: () => void;
+  goal: Goal;
+}
+
+const initialFormData = () => ({
+  amount: "",
+  description: "",
+  recipientName: "",
+  recipientEmail: "",
+  walletId: "",
+  notifyRecipient: true,
+  date: new Date().toISOString().split("T")[0],
+});
+
+export default function DistributionModal({
+  isOpen,
+  onClose,
+  onSuccess,
+  goal,
+}: DistributionModalProps) {
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [wallets, setWallets] = useState<Wallet[]>([]);
+  const [formData, setFormData] = useState(initialFormData);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    if (isOpen) {
+      fetchWallets();
+    }
+  }, [isOpen]);
+
+  const fetchWallets = async () => {
+    try {
+      const response = await fetch("/api/wallets");
+      if (!response.ok) throw new Error("Failed to fetch wallets");
+      const data = await response.json();
+      setWallets(
+        (data.wallets || data || []).filter((wallet: Wallet) => !wallet.isArchived)
+      );
+    } catch (error) {
+      console.error("Error fetching wallets:", error);
+    }
+  };
+
+  const formatCurrency = (amount: number): string => {
+    return new Intl.NumberFormat("id-ID", {
+      style: "currency",
+      currency: "IDR",
+      minimumFractionDigits: 0,
+    }).format(amount);
+  };
+
+  const validate = () => {
+    const newErrors: Record<string, string> = {};
+    const amount = parseFloat(formData.amount);
+
+    if (!formData.amount || amount <= 0) {
+      newErrors.amount = "Jumlah penarikan harus lebih dari 0";
+    } else if (amount > goal.currentAmount) {
+      newErrors.amount = "Jumlah penarikan melebihi dana terkumpul";
+    }
+
+    if (!formData.date) {
+      newErrors.date = "Tanggal wajib diisi";
+    }
+
+    if (
+      formData.recipientEmail &&
+      !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(formData.recipientEmail)
+    ) {
+      newErrors.recipientEmail = "Email penerima tidak valid";
+    }
+
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+
+    if (!validate()) return;
+
+    setIsSubmitting(true);
+
+    try {
+      const response = await fetch(`/api/goals/${goal.id}/distribute`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          amount: parseFloat(formData.amount),
+          description: formData.description.trim() || undefined,
+          recipientName: formData.recipientName.trim() || undefined,
+          recipientEmail: formData.recipientEmail.trim() || undefined,
+          walletId: formData.walletId || undefined,
+          notifyRecipient: formData.notifyRecipient,
+          date: new Date(formData.date).toISOString(),
+        }),
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        if (formData.notifyRecipient && !data.emailSent) {
+          alert("Dana berhasil ditarik, tetapi email ke penerima gagal dikirim");
+        }
+        onSuccess();
+        setFormData(initialFormData());
+      } else {
+        const data = await response.json();
+        alert(data.error || "Gagal menarik dana goal");
+      }
+    } catch (error) {
+      console.error("Failed to distribute goal funds:", error);
+      alert("Terjadi kesalahan saat menarik dana goal");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const remainingAfter = formData.amount
+    ? goal.currentAmount - parseFloat(formData.amount)
+    : goal.currentAmount;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white dark:bg-gray-800 rounded-xl shadow-xl w-full max-w-lg max-h-[90vh] overflow-y-auto">
+        {/* Header */}
+        <div className="sticky top-0 bg-white dark:bg-gray-800 border-b border-gray-200 dark:border-gray-700 px-6 py-4 flex items-center justify-between">
+          <h2 className="text-xl font-semibold text-gray-900 dark:text-white">
+            Tarik Dana Goal
+          </h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
+          >
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        {/* Goal Info */}
+        <div className="px-6 py-4 bg-gray-50 dark:bg-gray-700/50 border-b border-gray-200 dark:border-gray-700">
+          <h3 className="font-semibold text-gray-900 dark:text-white mb-3">
+            {goal.name}
+          </h3>
+          <div className="flex items-center justify-between text-sm">
+            <span className="text-gray-600 dark:text-gray-400">
+              Dana Tersedia
+            </span>
+            <span className="font-semibold text-green-600 dark:text-green-400">
+              {formatCurrency(goal.currentAmount)}
+            </span>
+          </div>
+        </div>
+
+        {/* Form */}
+        <form onSubmit={handleSubmit} className="p-6 space-y-6">
+          {/* Amount */}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              Jumlah Penarikan <span className="text-red-500">*</span>
+            </label>
+            <div className="relative">
+              <span className="absolute left-4 top-1/2 -translate-y-1/2 text-gray-500 dark:text-gray-400">
+                Rp
+              </span>
+              <input
+                type="number"
+                value={formData.amount}
+                onChange={(e) =>
+                  setFormData({ ...formData, amount: e.target.value })
+                }
+                placeholder="0"
+                className={`w-full pl-12 pr-4 py-2 border rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-primary-500 focus:border-transparent ${
+                  errors.amount
+                    ? "border-red-500"
+                    : "border-gray-300 dark:border-gray-600"
+                }`}
+              />
+            </div>
+            {errors.amount && (
+              <p className="mt-1 text-sm text-red-500">{errors.amount}</p>
+            )}
+            <button
+              type="button"
+              onClick={() =>
+                setFormData({
+                  ...formData,
+                  amount: String(goal.currentAmount),
+                })
+              }
+              className="mt-3 px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors"
+            >
+              Tarik Semua
+            </button>
+          </div>
+
+          {/* Remaining After */}
+          {formData.amount && parseFloat(formData.amount) > 0 && (
+            <div className="p-4 bg-orange-50 dark:bg-orange-900/20 rounded-lg border border-orange-200 dark:border-orange-800">
+              <div className="flex items-center gap-2 mb-2">
+                <ArrowDownCircle className="w-4 h-4 text-orange-600 dark:text-orange-400" />
+                <span className="text-sm font-medium text-orange-900 dark:text-orange-300">
+                  Sisa Dana Setelah Penarikan
+                </span>
+              </div>
+              <div className="text-2xl font-bold text-orange-600 dark:text-orange-400">
+                {formatCurrency(Math.max(remainingAfter, 0))}
+              </div>
+            </div>
+          )}
+
+          {/* Wallet */}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              Masukkan ke Dompet (Opsional)
+            </label>
+            <select
+              value={formData.walletId}
+              onChange={(e) =>
+                setFormData({ ...formData, walletId: e.target.value })
+              }
+              className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+            >
+              <option value="">Tidak ke dompet (dibayarkan langsung)</option>
+              {wallets.map((wallet) => (
+                <option key={wallet.id} value={wallet.id}>
+                  {wallet.name}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {/* Recipient */}
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                Nama Penerima
+              </label>
+              <input
+                type="text"
+                value={formData.recipientName}
+                onChange={(e) =>
+                  setFormData({ ...formData, recipientName: e.target.value })
+                }
+                placeholder="Default: Anda"
+                className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                Email Penerima
+              </label>
+              <input
+                type="email"
+                value={formData.recipientEmail}
+                onChange={(e) =>
+                  setFormData({ ...formData, recipientEmail: e.target.value })
+                }
+                placeholder="Default: email Anda"
+                className={`w-full px-4 py-2 border rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-primary-500 focus:border-transparent ${
+                  errors.recipientEmail
+                    ? "border-red-500"
+                    : "border-gray-300 dark:border-gray-600"
+                }`}
+              />
+              {errors.recipientEmail && (
+                <p className="mt-1 text-sm text-red-500">
+                  {errors.recipientEmail}
+                </p>
+              )}
+            </div>
+          </div>
+
+          <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+            <input
+              type="checkbox"
+              checked={formData.notifyRecipient}
+              onChange={(e) =>
+                setFormData({ ...formData, notifyRecipient: e.target.checked })
+              }
+              className="rounded border-gray-300 dark:border-gray-600"
+            />
+            Kirim email pemberitahuan ke penerima
+          </label>
+
+          {/* Date */}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              Tanggal <span className="text-red-500">*</span>
+            </label>
+            <div className="relative">
+              <Calendar className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-gray-400 pointer-events-none" />
+              <input
+                type="date"
+                value={formData.date}
+                onChange={(e) =>
+                  setFormData({ ...formData, date: e.target.value })
+                }
+                max={new Date().toISOString().split("T")[0]}
+                className={`w-full pl-10 pr-4 py-2 border rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-primary-500 focus:border-transparent ${
+                  errors.date
+                    ? "border-red-500"
+                    : "border-gray-300 dark:border-gray-600"
+                }`}
+              />
+            </div>
+            {errors.date && (
+              <p className="mt-1 text-sm text-red-500">{errors.date}</p>
+            )}
+          </div>
+
+          {/* Description */}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              Keterangan (Opsional)
+            </label>
+            <textarea
+              value={formData.description}
+              onChange={(e) =>
+                setFormData({ ...formData, description: e.target.value })
+              }
+              rows={3}
+              placeholder="Misal: Pembayaran tiket pesawat ke Bali"
+              className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+            />
+          </div>
+
+          {/* Actions */}
+          <div className="flex gap-3 pt-4 border-t border-gray-200 dark:border-gray-700">
+            <button
+              type="button"
+              onClick={onClose}
+              className="flex-1 px-4 py-2 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors"
+            >
+              Batal
+            </button>
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className="flex-1 px-4 py-2 bg-orange-600 text-white rounded-lg hover:bg-orange-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              {isSubmitting ? "Menyimpan..." : "Tarik Dana"}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -9,6 +9,10 @@ import {
   Trash2,
   Plus,
   Clock,
+  ArrowDownCircle,
+  History,
+  ChevronDown,
+  ChevronUp,
 } from "lucide-react";
 import { GoalType } from "@/types/goal";
 
@@ -16,6 +20,7 @@ interface GoalCardProps {
   goal: GoalType;
   onEdit: (goal: GoalType) => void;
   onContribute: (goal: GoalType) => void;
+  onDistribute: (goal: GoalType) => void;
   onRefresh: () => void;
 }
 
@@ -23,9 +28,40 @@ export default function GoalCard({
   goal,
   onEdit,
   onContribute,
+  onDistribute,
   onRefresh,
 }: GoalCardProps) {
   const [isDeleting, setIsDeleting] = useState(false);
+  const [showLedger, setShowLedger] = useState(false);
+
+  const activityCount =
+    (goal._count?.contributions || 0) + (goal._count?.distributions || 0);
+
+  // Kontribusi (+) dan penarikan (-), terbaru lebih dulu
+  const ledger = [
+    ...(goal.contributions || []).map((contribution) => ({
+      id: contribution.id,
+      kind: "CONTRIBUTION" as const,
+      amount: contribution.amount,
+      date: contribution.date,
+      label: contribution.wallet
+        ? `${contribution.user?.name || "Kontribusi"} · ${
+            contribution.wallet.name
+          }${contribution.funding === "EARMARK" ? " (dialokasikan)" : ""}`
+        : contribution.user?.name || "Kontribusi",
+      note: contribution.description,
+    })),
+    ...(goal.distributions || []).map((distribution) => ({
+      id: distribution.id,
+      kind: "DISTRIBUTION" as const,
+      amount: distribution.amount,
+      date: distribution.date,
+      label: distribution.wallet
+        ? `${distribution.recipientName} → ${distribution.wallet.name}`
+        : distribution.recipientName,
+      note: distribution.description,
+    })),
+  ].sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
 
   const formatCurrency = (amount: number): string => {
     return new Intl.NumberFormat("id-ID", {
@@ -92,6 +128,37 @@ export default function GoalCard({
     }
   };
 
+  const getPlanBadge = () => {
+    switch (goal.plan?.status) {
+      case "ON_TRACK":
+        return (
+          <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-green-100 dark:bg-green-900/20 text-green-700 dark:text-green-400">
+            Sesuai jadwal
+          </span>
+        );
+      case "BEHIND":
+        return (
+          <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-yellow-100 dark:bg-yellow-900/20 text-yellow-700 dark:text-yellow-400">
+            Tertinggal
+          </span>
+        );
+      case "OVERDUE":
+        return (
+          <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-red-100 dark:bg-red-900/20 text-red-700 dark:text-red-400">
+            Lewat deadline
+          </span>
+        );
+      case "NO_DEADLINE":
+        return (
+          <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-400">
+            Tanpa deadline
+          </span>
+        );
+      default:
+        return null;
+    }
+  };
+
   const getProgressColor = () => {
     if (goal.progress >= 100) return "bg-green-600 dark:bg-green-500";
     if (goal.progress >= 75) return "bg-blue-600 dark:bg-blue-500";
@@ -108,6 +175,11 @@ export default function GoalCard({
             <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-1">
               {goal.name}
             </h3>
+            {goal.priority !== undefined && goal.status === "ACTIVE" && (
+              <p className="text-xs text-gray-500 dark:text-gray-400 mb-1">
+                Prioritas {goal.priority}
+              </p>
+            )}
             {goal.description && (
               <p className="text-sm text-gray-600 dark:text-gray-400 line-clamp-2">
                 {goal.description}
@@ -153,6 +225,46 @@ export default function GoalCard({
           </div>
         </div>
 
+        {/* Saving Plan */}
+        {goal.plan && goal.plan.status !== "COMPLETED" && (
+          <div className="mb-4 p-3 rounded-lg bg-gray-50 dark:bg-gray-700/50 space-y-1.5 text-sm">
+            <div className="flex items-center justify-between">
+              <span className="text-gray-600 dark:text-gray-400">
+                Rencana Tabungan
+              </span>
+              {getPlanBadge()}
+            </div>
+            {goal.plan.requiredMonthly !== null && (
+              <div className="flex items-center justify-between">
+                <span className="text-gray-600 dark:text-gray-400">
+                  Dibutuhkan
+                </span>
+                <span className="font-medium text-gray-900 dark:text-white">
+                  {formatCurrency(goal.plan.requiredMonthly)}/bln
+                </span>
+              </div>
+            )}
+            <div className="flex items-center justify-between">
+              <span className="text-gray-600 dark:text-gray-400">
+                Rata-rata kontribusi
+              </span>
+              <span className="font-medium text-gray-900 dark:text-white">
+                {formatCurrency(goal.plan.averageMonthly)}/bln
+              </span>
+            </div>
+            <div className="flex items-center justify-between">
+              <span className="text-gray-600 dark:text-gray-400">
+                Perkiraan tercapai
+              </span>
+              <span className="font-medium text-gray-900 dark:text-white">
+                {goal.plan.projectedCompletionDate
+                  ? formatDate(goal.plan.projectedCompletionDate)
+                  : "-"}
+              </span>
+            </div>
+          </div>
+        )}
+
         {/* Deadline & Contributions */}
         <div className="flex items-center gap-4 pt-4 border-t border-gray-200 dark:border-gray-700">
           {goal.deadline && (
@@ -177,10 +289,66 @@ export default function GoalCard({
             )}
         </div>
 
-        <div className="flex items-center gap-1.5 text-sm text-gray-600 dark:text-gray-400 mt-2">
-          <TrendingUp className="w-4 h-4" />
-          <span>{goal._count?.contributions || 0} kontribusi</span>
+        <div className="flex items-center justify-between mt-2">
+          <div className="flex items-center gap-3 text-sm text-gray-600 dark:text-gray-400">
+            <span className="flex items-center gap-1.5">
+              <TrendingUp className="w-4 h-4" />
+              {goal._count?.contributions || 0} kontribusi
+            </span>
+            {(goal._count?.distributions || 0) > 0 && (
+              <span className="flex items-center gap-1.5">
+                <ArrowDownCircle className="w-4 h-4" />
+                {goal._count?.distributions} penarikan
+              </span>
+            )}
+          </div>
+          {ledger.length > 0 && (
+            <button
+              onClick={() => setShowLedger(!showLedger)}
+              className="flex items-center gap-1 text-sm text-primary-600 dark:text-primary-400 hover:underline"
+            >
+              <History className="w-4 h-4" />
+              <span>Riwayat</span>
+              {showLedger ? (
+                <ChevronUp className="w-4 h-4" />
+              ) : (
+                <ChevronDown className="w-4 h-4" />
+              )}
+            </button>
+          )}
         </div>
+
+        {/* Ledger */}
+        {showLedger && (
+          <div className="mt-3 max-h-60 overflow-y-auto divide-y divide-gray-100 dark:divide-gray-700">
+            {ledger.map((entry) => (
+              <div
+                key={`${entry.kind}-${entry.id}`}
+                className="flex items-start justify-between py-2 text-sm"
+              >
+                <div className="min-w-0">
+                  <p className="text-gray-900 dark:text-white truncate">
+                    {entry.label}
+                  </p>
+                  <p className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                    {formatDate(entry.date)}
+                    {entry.note ? ` · ${entry.note}` : ""}
+                  </p>
+                </div>
+                <span
+                  className={`ml-3 font-semibold whitespace-nowrap ${
+                    entry.kind === "CONTRIBUTION"
+                      ? "text-green-600 dark:text-green-400"
+                      : "text-orange-600 dark:text-orange-400"
+                  }`}
+                >
+                  {entry.kind === "CONTRIBUTION" ? "+" : "−"}
+                  {formatCurrency(entry.amount)}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
       </div>
 
       {/* Actions */}
@@ -194,6 +362,18 @@ export default function GoalCard({
             <span>Kontribusi</span>
           </button>
         )}
+        {goal.currentAmount > 0 && (
+          <button
+            onClick={() => onDistribute(goal)}
+            className={`${
+              goal.status === "ACTIVE" ? "" : "flex-1 "
+            }flex items-center justify-center gap-2 px-3 py-2 border border-orange-300 dark:border-orange-700 text-orange-600 dark:text-orange-400 rounded-lg hover:bg-orange-50 dark:hover:bg-orange-900/20 transition-colors text-sm font-medium`}
+            title="Tarik Dana"
+          >
+            <ArrowDownCircle className="w-4 h-4" />
+            <span>Tarik</span>
+          </button>
+        )}
         <button
           onClick={() => onEdit(goal)}
           className="p-2 text-blue-600 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded-lg transition-colors"
@@ -203,11 +383,11 @@ export default function GoalCard({
         </button>
         <button
           onClick={handleDelete}
-          disabled={isDeleting || (goal._count?.contributions || 0) > 0}
+          disabled={isDeleting || activityCount > 0}
           className="p-2 text-red-600 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
           title={
-            (goal._count?.contributions || 0) > 0
-              ? "Tidak bisa menghapus goal yang memiliki kontribusi"
+            activityCount > 0
+              ? "Tidak bisa menghapus goal yang memiliki kontribusi atau penarikan"
               : "Hapus"
           }
         >
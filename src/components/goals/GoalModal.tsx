@@ -14,6 +14,7 @@ interface GoalModalProps {
     targetAmount: number;
     deadline?: string | null;
     status: "ACTIVE" | "COMPLETED" | "CANCELLED";
+    priority?: number;
   } | null;
 }
 
@@ -30,6 +31,7 @@ export default function GoalModal({
     targetAmount: "",
     deadline: "",
     status: "ACTIVE" as "ACTIVE" | "COMPLETED" | "CANCELLED",
+    priority: "3",
   });
   const [errors, setErrors] = useState<Record<string, string>>({});
 
@@ -44,6 +46,7 @@ export default function GoalModal({
             ? new Date(editData.deadline).toISOString().split("T")[0]
             : "",
           status: editData.status,
+          priority: (editData.priority ?? 3).toString(),
         });
       } else {
         setFormData({
@@ -52,6 +55,7 @@ export default function GoalModal({
           targetAmount: "",
           deadline: "",
           status: "ACTIVE",
+          priority: "3",
         });
       }
       setErrors({});
@@ -105,6 +109,7 @@ export default function GoalModal({
           targetAmount: parseFloat(formData.targetAmount),
           deadline: formData.deadline || null,
           status: formData.status,
+          priority: parseInt(formData.priority),
         }),
       });
 
@@ -236,6 +241,29 @@ export default function GoalModal({
             )}
           </div>
 
+          {/* Priority */}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              Prioritas
+            </label>
+            <select
+              value={formData.priority}
+              onChange={(e) =>
+                setFormData({ ...formData, priority: e.target.value })
+              }
+              className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+            >
+              <option value="1">1 - Sangat penting</option>
+              <option value="2">2 - Penting</option>
+              <option value="3">3 - Normal</option>
+              <option value="4">4 - Rendah</option>
+              <option value="5">5 - Sangat rendah</option>
+            </select>
+            <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+              Dipakai saat membagi tabungan bulanan ke beberapa goal
+            </p>
+          </div>
+
           {/* Status (only show when editing) */}
           {editData && (
             <div>
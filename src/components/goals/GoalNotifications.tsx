@@ -7,6 +7,7 @@ import {
   Target,
   Clock,
   TrendingUp,
+  TrendingDown,
   AlertTriangle,
 } from "lucide-react";
 
@@ -23,6 +24,9 @@ interface Notification {
   daysOverdue?: number;
   daysSinceLastContribution?: number;
   milestone?: number;
+  requiredMonthly?: number | null;
+  averageMonthly?: number;
+  projectedCompletionDate?: string | null;
   createdAt: string;
 }
 
@@ -63,6 +67,8 @@ export default function GoalNotifications() {
         return <Clock className="w-5 h-5" />;
       case "GOAL_INACTIVE":
         return <AlertTriangle className="w-5 h-5" />;
+      case "GOAL_BEHIND":
+        return <TrendingDown className="w-5 h-5" />;
       default:
         return <Target className="w-5 h-5" />;
     }
@@ -0,0 +1,191 @@
+"use client";
+
+import { useState, FormEvent } from "react";
+import { PiggyBank, AlertCircle } from "lucide-react";
+import { SavingsAllocationType } from "@/types/goal";
+
+export default function SavingsAllocator() {
+  const [monthlyAmount, setMonthlyAmount] = useState("");
+  const [strategy, setStrategy] = useState<"priority" | "deadline">("priority");
+  const [allocation, setAllocation] = useState<SavingsAllocationType | null>(
+    null
+  );
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState("");
+
+  const formatCurrency = (amount: number): string => {
+    return new Intl.NumberFormat("id-ID", {
+      style: "currency",
+      currency: "IDR",
+      minimumFractionDigits: 0,
+    }).format(amount);
+  };
+
+  const formatDate = (dateString: string): string => {
+    return new Date(dateString).toLocaleDateString("id-ID", {
+      day: "numeric",
+      month: "short",
+      year: "numeric",
+    });
+  };
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+
+    if (!monthlyAmount || parseFloat(monthlyAmount) <= 0) {
+      setError("Jumlah tabungan bulanan harus lebih dari 0");
+      return;
+    }
+
+    try {
+      setIsLoading(true);
+      setError("");
+      const params = new URLSearchParams({ monthlyAmount, strategy });
+      const response = await fetch(`/api/goals/plan?${params}`);
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Gagal menghitung alokasi");
+      }
+
+      setAllocation(data.allocation);
+    } catch (error) {
+      setError(
+        error instanceof Error ? error.message : "Gagal menghitung alokasi"
+      );
+      setAllocation(null);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-xl border border-gray-200 dark:border-gray-700 p-6">
+      <div className="flex items-center gap-3 mb-4">
+        <div className="w-10 h-10 rounded-lg bg-primary-100 dark:bg-primary-900/20 flex items-center justify-center">
+          <PiggyBank className="w-5 h-5 text-primary-600 dark:text-primary-400" />
+        </div>
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
+            Alokasi Tabungan Bulanan
+          </h2>
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            Bagi tabungan bulanan keluarga ke goal aktif
+          </p>
+        </div>
+      </div>
+
+      <form
+        onSubmit={handleSubmit}
+        className="flex flex-col md:flex-row gap-3 mb-4"
+      >
+        <input
+          type="number"
+          min="0"
+          step="1000"
+          placeholder="Jumlah per bulan"
+          value={monthlyAmount}
+          onChange={(e) => setMonthlyAmount(e.target.value)}
+          className="flex-1 px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+        />
+        <select
+          value={strategy}
+          onChange={(e) =>
+            setStrategy(e.target.value as "priority" | "deadline")
+          }
+          className="px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+        >
+          <option value="priority">Berdasarkan prioritas</option>
+          <option value="deadline">Berdasarkan deadline</option>
+        </select>
+        <button
+          type="submit"
+          disabled={isLoading}
+          className="px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isLoading ? "Menghitung..." : "Hitung"}
+        </button>
+      </form>
+
+      {error && (
+        <p className="mb-4 text-sm text-red-600 dark:text-red-400">{error}</p>
+      )}
+
+      {allocation && (
+        <div className="space-y-3">
+          {allocation.allocations.length === 0 ? (
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              Tidak ada goal aktif yang membutuhkan tabungan
+            </p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-600 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700">
+                    <th className="py-2 pr-4 font-medium">Goal</th>
+                    <th className="py-2 pr-4 font-medium">Prioritas</th>
+                    <th className="py-2 pr-4 font-medium">Deadline</th>
+                    <th className="py-2 pr-4 font-medium text-right">
+                      Dibutuhkan/bln
+                    </th>
+                    <th className="py-2 pr-4 font-medium text-right">
+                      Alokasi
+                    </th>
+                    <th className="py-2 font-medium text-right">Kekurangan</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {allocation.allocations.map((entry) => (
+                    <tr
+                      key={entry.goalId}
+                      className="border-b border-gray-100 dark:border-gray-700/50 text-gray-900 dark:text-white"
+                    >
+                      <td className="py-2 pr-4">{entry.name}</td>
+                      <td className="py-2 pr-4">{entry.priority}</td>
+                      <td className="py-2 pr-4">
+                        {entry.deadline ? formatDate(entry.deadline) : "-"}
+                      </td>
+                      <td className="py-2 pr-4 text-right">
+                        {entry.requiredMonthly !== null
+                          ? formatCurrency(entry.requiredMonthly)
+                          : "-"}
+                      </td>
+                      <td className="py-2 pr-4 text-right font-medium">
+                        {formatCurrency(entry.allocated)}
+                      </td>
+                      <td
+                        className={`py-2 text-right ${
+                          entry.shortfall > 0
+                            ? "text-red-600 dark:text-red-400"
+                            : "text-gray-500 dark:text-gray-400"
+                        }`}
+                      >
+                        {entry.shortfall > 0
+                          ? formatCurrency(entry.shortfall)
+                          : "-"}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {!allocation.fullyFunded && (
+            <div className="flex items-center gap-2 text-sm text-yellow-700 dark:text-yellow-400">
+              <AlertCircle className="w-4 h-4" />
+              <span>
+                Tabungan bulanan belum cukup untuk semua goal tepat waktu
+              </span>
+            </div>
+          )}
+          {allocation.unallocated > 0 && (
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              Sisa tidak teralokasi: {formatCurrency(allocation.unallocated)}
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
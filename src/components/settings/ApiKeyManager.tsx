@@ -0,0 +1,251 @@
+"use client";
+
+import { useEffect, useState, FormEvent } from "react";
+import { Copy, KeyRound, Trash2 } from "lucide-react";
+import { Badge, Button, Input, Select } from "@/components/ui";
+import { toast } from "@/store/useNotificationStore";
+
+interface ApiKeyItem {
+  id: string;
+  name: string;
+  prefix: string;
+  scope: "READ_ONLY" | "READ_WRITE";
+  lastUsedAt: string | null;
+  expiresAt: string | null;
+  revokedAt: string | null;
+  createdAt: string;
+}
+
+const scopeOptions = [
+  { value: "READ_ONLY", label: "Hanya baca" },
+  { value: "READ_WRITE", label: "Baca & tulis" },
+];
+
+const expiryOptions = [
+  { value: "", label: "Tanpa masa berlaku" },
+  { value: "30", label: "30 hari" },
+  { value: "90", label: "90 hari" },
+  { value: "365", label: "1 tahun" },
+];
+
+export default function ApiKeyManager() {
+  const [apiKeys, setApiKeys] = useState<ApiKeyItem[]>([]);
+  const [name, setName] = useState("");
+  const [scope, setScope] = useState("READ_ONLY");
+  const [expiresInDays, setExpiresInDays] = useState("");
+  const [newKey, setNewKey] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const formatDate = (dateString: string): string => {
+    return new Date(dateString).toLocaleDateString("id-ID", {
+      day: "numeric",
+      month: "short",
+      year: "numeric",
+    });
+  };
+
+  const fetchApiKeys = async () => {
+    try {
+      const response = await fetch("/api/auth/api-keys");
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Gagal memuat API key");
+      }
+
+      setApiKeys(data.apiKeys);
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Gagal memuat API key"
+      );
+    }
+  };
+
+  useEffect(() => {
+    fetchApiKeys();
+  }, []);
+
+  const handleCreate = async (e: FormEvent) => {
+    e.preventDefault();
+
+    try {
+      setIsLoading(true);
+      const response = await fetch("/api/auth/api-keys", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name,
+          scope,
+          ...(expiresInDays && { expiresInDays: Number(expiresInDays) }),
+        }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Gagal membuat API key");
+      }
+
+      setNewKey(data.key);
+      setName("");
+      toast.success(
+        "API key dibuat",
+        "Salin kunci sekarang, tidak akan ditampilkan lagi"
+      );
+      fetchApiKeys();
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Gagal membuat API key"
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleRevoke = async (apiKey: ApiKeyItem) => {
+    if (!confirm(`Cabut API key "${apiKey.name}"?`)) return;
+
+    try {
+      const response = await fetch(`/api/auth/api-keys/${apiKey.id}`, {
+        method: "DELETE",
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Gagal mencabut API key");
+      }
+
+      toast.success("API key dicabut");
+      fetchApiKeys();
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Gagal mencabut API key"
+      );
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!newKey) return;
+    await navigator.clipboard.writeText(newKey);
+    toast.success("API key disalin");
+  };
+
+  const isInactive = (apiKey: ApiKeyItem) =>
+    !!apiKey.revokedAt ||
+    (!!apiKey.expiresAt && new Date(apiKey.expiresAt) <= new Date());
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-gray-600 dark:text-gray-400">
+        Gunakan API key untuk skrip dan integrasi dengan header{" "}
+        <code>Authorization: Bearer &lt;key&gt;</code>
+      </p>
+
+      <form onSubmit={handleCreate} className="flex flex-col md:flex-row gap-3">
+        <Input
+          placeholder="Nama API key"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          fullWidth
+        />
+        <Select
+          options={scopeOptions}
+          value={scope}
+          onChange={(e) => setScope(e.target.value)}
+        />
+        <Select
+          options={expiryOptions}
+          value={expiresInDays}
+          onChange={(e) => setExpiresInDays(e.target.value)}
+        />
+        <Button
+          type="submit"
+          isLoading={isLoading}
+          disabled={!name.trim()}
+          leftIcon={<KeyRound className="w-4 h-4" />}
+        >
+          Buat
+        </Button>
+      </form>
+
+      {newKey && (
+        <div className="p-3 rounded-lg bg-warning-50 dark:bg-warning-900/20 border border-warning-200 dark:border-warning-800">
+          <p className="text-sm text-warning-700 dark:text-warning-300 mb-2">
+            Salin API key ini sekarang. Kunci tidak akan ditampilkan lagi.
+          </p>
+          <div className="flex items-center gap-2">
+            <code className="flex-1 text-sm break-all text-gray-900 dark:text-white">
+              {newKey}
+            </code>
+            <Button
+              variant="outline"
+              size="sm"
+              leftIcon={<Copy className="w-4 h-4" />}
+              onClick={handleCopy}
+            >
+              Salin
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {apiKeys.length === 0 ? (
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          Belum ada API key
+        </p>
+      ) : (
+        <div className="divide-y divide-gray-200 dark:divide-gray-700">
+          {apiKeys.map((apiKey) => (
+            <div
+              key={apiKey.id}
+              className="py-3 flex items-center justify-between gap-3"
+            >
+              <div className="min-w-0">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium text-gray-900 dark:text-white">
+                    {apiKey.name}
+                  </span>
+                  <Badge
+                    size="sm"
+                    variant={apiKey.scope === "READ_WRITE" ? "warning" : "info"}
+                  >
+                    {apiKey.scope === "READ_WRITE"
+                      ? "Baca & tulis"
+                      : "Hanya baca"}
+                  </Badge>
+                  {apiKey.revokedAt ? (
+                    <Badge size="sm" variant="danger">
+                      Dicabut
+                    </Badge>
+                  ) : (
+                    isInactive(apiKey) && (
+                      <Badge size="sm" variant="default">
+                        Kedaluwarsa
+                      </Badge>
+                    )
+                  )}
+                </div>
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  {apiKey.prefix}… · dibuat {formatDate(apiKey.createdAt)}
+                  {apiKey.lastUsedAt &&
+                    ` · terakhir dipakai ${formatDate(apiKey.lastUsedAt)}`}
+                  {apiKey.expiresAt &&
+                    ` · berlaku sampai ${formatDate(apiKey.expiresAt)}`}
+                </p>
+              </div>
+              {!isInactive(apiKey) && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  leftIcon={<Trash2 className="w-4 h-4" />}
+                  onClick={() => handleRevoke(apiKey)}
+                >
+                  Cabut
+                </Button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -19,6 +19,9 @@ export interface TransactionFilters {
   endDate: string;
   minAmount: string;
   maxAmount: string;
+  // Tag dipisah koma, misal: "liburan-bali, sekolah"
+  tags: string;
+  tagMode: "any" | "all";
 }
 
 interface AdvancedFiltersProps {
@@ -26,6 +29,8 @@ interface AdvancedFiltersProps {
   onFilterChange: (filters: TransactionFilters) => void;
   categories: Array<{ id: string; name: string; type: "INCOME" | "EXPENSE" }>;
   wallets: Array<{ id: string; name: string }>;
+  // Tag yang pernah dipakai (dari /api/transactions/tags), untuk saran
+  availableTags?: string[];
 }
 
 export default function AdvancedFilters({
@@ -33,6 +38,7 @@ export default function AdvancedFilters({
   onFilterChange,
   categories,
   wallets,
+  availableTags = [],
 }: AdvancedFiltersProps) {
   const updateFilter = (key: keyof TransactionFilters, value: string) => {
     onFilterChange({
@@ -51,9 +57,21 @@ export default function AdvancedFilters({
       endDate: "",
       minAmount: "",
       maxAmount: "",
+      tags: "",
+      tagMode: "any",
     });
   };
 
+  const selectedTags = filters.tags
+    .split(",")
+    .map((tag) => tag.trim())
+    .filter(Boolean);
+
+  const addTag = (tag: string) => {
+    if (selectedTags.includes(tag)) return;
+    updateFilter("tags", [...selectedTags, tag].join(", "));
+  };
+
   const hasActiveFilters =
     filters.categoryId ||
     filters.walletId ||
@@ -61,6 +79,7 @@ export default function AdvancedFilters({
     filters.endDate ||
     filters.minAmount ||
     filters.maxAmount ||
+    filters.tags ||
     filters.type !== "ALL";
 
   // Filter categories based on selected type
@@ -175,6 +194,51 @@ export default function AdvancedFilters({
         </div>
       </div>
 
+      {/* Tags Filter */}
+      <div className="space-y-2">
+        <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+          Tag
+        </label>
+        <Input
+          placeholder="liburan-bali, sekolah"
+          value={filters.tags}
+          onChange={(e) => updateFilter("tags", e.target.value)}
+          leftIcon={<Tag className="w-4 h-4" />}
+        />
+        {availableTags.length > 0 && (
+          <div className="flex flex-wrap gap-1.5">
+            {availableTags
+              .filter((tag) => !selectedTags.includes(tag))
+              .slice(0, 10)
+              .map((tag) => (
+                <button
+                  key={tag}
+                  type="button"
+                  onClick={() => addTag(tag)}
+                  className="px-2 py-0.5 rounded-full text-xs bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600"
+                >
+                  #{tag}
+                </button>
+              ))}
+          </div>
+        )}
+        {selectedTags.length > 1 && (
+          <Select
+            value={filters.tagMode}
+            onChange={(e) =>
+              updateFilter(
+                "tagMode",
+                e.target.value as TransactionFilters["tagMode"]
+              )
+            }
+            options={[
+              { value: "any", label: "Salah satu tag" },
+              { value: "all", label: "Semua tag" },
+            ]}
+          />
+        )}
+      </div>
+
       {/* Active Filters Summary */}
       {hasActiveFilters && (
         <div className="pt-3 border-t border-gray-200 dark:border-gray-700">
@@ -186,6 +250,7 @@ export default function AdvancedFilters({
               filters.walletId && "Dompet",
               (filters.startDate || filters.endDate) && "Tanggal",
               (filters.minAmount || filters.maxAmount) && "Jumlah",
+              filters.tags && "Tag",
             ]
               .filter(Boolean)
               .join(", ")}
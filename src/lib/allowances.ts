@@ -0,0 +1,624 @@
+/**
+ * Member allowances and spending limits
+ *
+ * Uang saku anggota (role MEMBER): top-up otomatis ke dompet anggota sesuai
+ * jadwal, batas belanja total dan per kategori per periode, serta batas
+ * nominal pengeluaran yang perlu persetujuan admin. Semua batas dalam mata
+ * uang dasar keluarga.
+ */
+
+import { MemberAllowance } from "@prisma/client";
+import { z } from "zod";
+import { DbClient } from "./prisma";
+import { getBudgetPeriodRange, PeriodRange } from "./budget-periods";
+import { getNextRecurringDate } from "./cash-flow-forecast";
+import { getSubcategoryParents } from "./categories";
+import {
+  CurrencyConverter,
+  getConversionDate,
+  getCurrencyConverter,
+} from "./currency";
+import { addMoney, subtractMoney, sumMoney } from "./money";
+import { applyWalletDeltas, getWalletDeltas } from "./transaction-ledger";
+
+const moneySchema = z
+  .number({ invalid_type_error: "Jumlah harus berupa angka" })
+  .nonnegative("Jumlah tidak boleh negatif")
+  .max(999999999999, "Jumlah terlalu besar");
+
+export const allowanceSchema = z.object({
+  memberId: z.string().min(1, "Anggota harus dipilih"),
+  walletId: z.string().min(1, "Dompet uang saku harus dipilih"),
+  // null = top-up dicatat sebagai pemasukan, bukan transfer
+  sourceWalletId: z.string().min(1).nullable().optional(),
+  amount: moneySchema,
+  frequency: z.enum(["DAILY", "WEEKLY", "MONTHLY", "YEARLY"]).default("WEEKLY"),
+  dayOfMonth: z.number().int().min(1).max(31).nullable().optional(),
+  // Top-up pertama dan awal periode batas belanja (default hari ini)
+  startDate: z.string().datetime({ message: "Format tanggal tidak valid" }).optional(),
+  limitPeriod: z.enum(["WEEKLY", "BIWEEKLY", "MONTHLY"]).default("WEEKLY"),
+  spendingLimit: moneySchema.nullable().optional(),
+  approvalThreshold: moneySchema.nullable().optional(),
+  categoryLimits: z
+    .array(
+      z.object({
+        categoryId: z.string().min(1, "Kategori harus dipilih"),
+        amount: moneySchema,
+      })
+    )
+    .max(50, "Maksimal 50 batas kategori")
+    .optional(),
+  isActive: z.boolean().optional(),
+});
+
+export type AllowanceInput = z.infer<typeof allowanceSchema>;
+
+export const allowanceInclude = {
+  member: { select: { id: true, name: true, avatar: true } },
+  wallet: { select: { id: true, name: true, currency: true } },
+  sourceWallet: { select: { id: true, name: true } },
+  categoryLimits: {
+    include: { category: { select: { id: true, name: true, icon: true } } },
+  },
+} as const;
+
+type AllowancePeriodConfig = Pick<MemberAllowance, "limitPeriod" | "startDate">;
+
+/**
+ * Spending-limit period of an allowance that contains `date`
+ */
+export function getAllowancePeriod(
+  allowance: AllowancePeriodConfig,
+  date: Date
+): PeriodRange {
+  return getBudgetPeriodRange(
+    {
+      period: allowance.limitPeriod,
+      month: null,
+      year: null,
+      startDate: allowance.startDate,
+      cycleStartDay: null,
+    },
+    date
+  );
+}
+
+/**
+ * Create or replace a member's allowance (one per member)
+ *
+ * @throws Error if the member, wallets or categories are invalid
+ */
+export async function saveAllowance(
+  tx: DbClient,
+  familyId: string,
+  userId: string,
+  input: AllowanceInput
+) {
+  const member = await tx.user.findUnique({
+    where: { id: input.memberId },
+    select: { id: true, familyId: true, role: true },
+  });
+
+  if (!member || member.familyId !== familyId) {
+    throw new Error("Anggota tidak ditemukan");
+  }
+
+  if (member.role !== "MEMBER") {
+    throw new Error("Uang saku hanya untuk anggota dengan role MEMBER");
+  }
+
+  const walletIds = [input.walletId, input.sourceWalletId].filter(
+    (id): id is string => !!id
+  );
+  const wallets = await tx.wallet.findMany({
+    where: { id: { in: walletIds }, familyId },
+    select: { id: true, currency: true, isArchived: true },
+  });
+
+  if (wallets.length !== new Set(walletIds).size) {
+    throw new Error("Wallet tidak ditemukan");
+  }
+  if (input.sourceWalletId === input.walletId) {
+    throw new Error("Dompet sumber dan dompet uang saku tidak boleh sama");
+  }
+  if (wallets.some((wallet) => wallet.isArchived)) {
+    throw new Error("Wallet sudah diarsipkan");
+  }
+  if (new Set(wallets.map((wallet) => wallet.currency)).size > 1) {
+    throw new Error("Mata uang dompet sumber dan dompet uang saku harus sama");
+  }
+
+  const categoryLimits = input.categoryLimits ?? [];
+  if (categoryLimits.length > 0) {
+    const categories = await tx.category.findMany({
+      where: {
+        id: { in: categoryLimits.map((limit) => limit.categoryId) },
+        familyId,
+        type: "EXPENSE",
+      },
+      select: { id: true },
+    });
+    if (categories.length !== new Set(categoryLimits.map((l) => l.categoryId)).size) {
+      throw new Error("Kategori pengeluaran tidak ditemukan");
+    }
+  }
+
+  const existing = await tx.memberAllowance.findUnique({
+    where: { memberId: input.memberId },
+  });
+  const startDate = input.startDate
+    ? new Date(input.startDate)
+    : existing?.startDate ?? new Date(new Date().setHours(0, 0, 0, 0));
+
+  const data = {
+    amount: input.amount,
+    frequency: input.frequency,
+    dayOfMonth: input.dayOfMonth ?? null,
+    // Jadwal ulang hanya jika tanggal mulai diubah
+    nextDate: input.startDate || !existing ? startDate : existing.nextDate,
+    isActive: input.isActive ?? existing?.isActive ?? true,
+    limitPeriod: input.limitPeriod,
+    startDate,
+    spendingLimit: input.spendingLimit ?? null,
+    approvalThreshold: input.approvalThreshold ?? null,
+    walletId: input.walletId,
+    sourceWalletId: input.sourceWalletId ?? null,
+  };
+
+  const allowance = existing
+    ? await tx.memberAllowance.update({ where: { id: existing.id }, data })
+    : await tx.memberAllowance.create({
+        data: {
+          ...data,
+          memberId: input.memberId,
+          familyId,
+          createdById: userId,
+        },
+      });
+
+  await tx.memberCategoryLimit.deleteMany({
+    where: { allowanceId: allowance.id },
+  });
+  if (categoryLimits.length > 0) {
+    await tx.memberCategoryLimit.createMany({
+      data: categoryLimits.map((limit) => ({
+        allowanceId: allowance.id,
+        categoryId: limit.categoryId,
+        amount: limit.amount,
+      })),
+    });
+  }
+
+  await tx.auditLog.create({
+    data: {
+      action: existing ? "UPDATE_MEMBER_ALLOWANCE" : "CREATE_MEMBER_ALLOWANCE",
+      entityType: "MemberAllowance",
+      entityId: allowance.id,
+      details: JSON.stringify({
+        memberId: input.memberId,
+        amount: input.amount,
+        frequency: input.frequency,
+        spendingLimit: data.spendingLimit,
+        approvalThreshold: data.approvalThreshold,
+        categoryLimits,
+      }),
+      userId,
+      familyId,
+    },
+  });
+
+  return tx.memberAllowance.findUniqueOrThrow({
+    where: { id: allowance.id },
+    include: allowanceInclude,
+  });
+}
+
+/**
+ * A member's expenses in a range, in the family base currency
+ *
+ * `byCategory` menghitung pengeluaran subkategori juga pada kategori
+ * induknya, sehingga batas kategori induk mencakup subkategorinya.
+ */
+export async function getMemberSpending(
+  db: DbClient,
+  familyId: string,
+  memberId: string,
+  range: PeriodRange,
+  converter?: CurrencyConverter,
+  excludeTransactionId?: string
+): Promise<{ total: number; byCategory: Map<string | null, number> }> {
+  const [rows, parentOf, currencyConverter] = await Promise.all([
+    db.transaction.groupBy({
+      by: ["categoryId", "currency"],
+      where: {
+        familyId,
+        userId: memberId,
+        type: "EXPENSE",
+        date: { gte: range.start, lte: range.end },
+        ...(excludeTransactionId && { id: { not: excludeTransactionId } }),
+      },
+      _sum: { amount: true },
+    }),
+    getSubcategoryParents(db, familyId),
+    converter ?? getCurrencyConverter(db, familyId),
+  ]);
+
+  const byCategory = new Map<string | null, number>();
+  const add = (categoryId: string | null, amount: number) =>
+    byCategory.set(categoryId, addMoney(byCategory.get(categoryId) ?? 0, amount));
+
+  let total = 0;
+  for (const row of rows) {
+    const amount = currencyConverter.toBase(
+      row._sum.amount ?? 0,
+      row.currency,
+      getConversionDate(range.end)
+    );
+    total = addMoney(total, amount);
+    add(row.categoryId, amount);
+
+    const parentId = row.categoryId && parentOf.get(row.categoryId);
+    if (parentId) add(parentId, amount);
+  }
+
+  return { total, byCategory };
+}
+
+/**
+ * Message prefix of a rejected member expense (lihat
+ * `assertMemberExpenseAllowed`)
+ */
+export const MEMBER_EXPENSE_APPROVAL_ERROR =
+  "Pengeluaran melebihi batas uang saku dan perlu persetujuan admin";
+
+/**
+ * Member expense checked against the allowance limits
+ */
+export interface MemberExpense {
+  amount: number;
+  categoryId?: string | null;
+  walletId?: string | null;
+  date: Date;
+  /** Transaksi yang sedang diubah (tidak dihitung dua kali) */
+  excludeTransactionId?: string;
+}
+
+/**
+ * Reasons a member expense needs admin approval (empty = langsung dicatat)
+ */
+export async function checkMemberExpense(
+  db: DbClient,
+  familyId: string,
+  memberId: string,
+  expense: MemberExpense
+): Promise<string[]> {
+  return checkMemberExpenses(db, familyId, memberId, [expense]);
+}
+
+/**
+ * Reasons a batch of member expenses needs admin approval
+ *
+ * Pengeluaran dihitung berurutan: tiap pengeluaran menambah belanja
+ * periodenya, sehingga batch (mis. impor mutasi) tidak bisa melewati batas
+ * meski tiap barisnya kecil. Berhenti di pengeluaran pertama yang melewati
+ * batas.
+ */
+export async function checkMemberExpenses(
+  db: DbClient,
+  familyId: string,
+  memberId: string,
+  expenses: MemberExpense[]
+): Promise<string[]> {
+  const allowance = await db.memberAllowance.findUnique({
+    where: { memberId },
+    include: { categoryLimits: { include: { category: { select: { name: true } } } } },
+  });
+
+  if (!allowance || !allowance.isActive || allowance.familyId !== familyId) {
+    return [];
+  }
+
+  const converter = await getCurrencyConverter(db, familyId);
+  const format = (value: number) =>
+    `${converter.baseCurrency} ${value.toLocaleString("id-ID")}`;
+  const hasLimits =
+    allowance.spendingLimit !== null || allowance.categoryLimits.length > 0;
+
+  const walletCurrencies = new Map<string, string | undefined>();
+  const categoryParents = new Map<string, string | null | undefined>();
+  const spendingByPeriod = new Map<
+    number,
+    { total: number; byCategory: Map<string | null, number> }
+  >();
+
+  for (const expense of expenses) {
+    if (expense.walletId && !walletCurrencies.has(expense.walletId)) {
+      const wallet = await db.wallet.findUnique({
+        where: { id: expense.walletId },
+        select: { currency: true },
+      });
+      walletCurrencies.set(expense.walletId, wallet?.currency);
+    }
+    const amount = converter.toBase(
+      expense.amount,
+      (expense.walletId && walletCurrencies.get(expense.walletId)) ||
+        converter.baseCurrency,
+      expense.date
+    );
+
+    const reasons: string[] = [];
+
+    if (allowance.approvalThreshold !== null && amount > allowance.approvalThreshold) {
+      reasons.push(
+        `Pengeluaran ${format(amount)} melebihi batas persetujuan ${format(
+          allowance.approvalThreshold
+        )}`
+      );
+    }
+
+    if (!hasLimits) {
+      if (reasons.length > 0) return reasons;
+      continue;
+    }
+
+    const period = getAllowancePeriod(allowance, expense.date);
+    let spending = spendingByPeriod.get(period.start.getTime());
+    if (!spending) {
+      spending = await getMemberSpending(
+        db,
+        familyId,
+        memberId,
+        period,
+        converter,
+        expense.excludeTransactionId
+      );
+      spendingByPeriod.set(period.start.getTime(), spending);
+    }
+
+    if (
+      allowance.spendingLimit !== null &&
+      addMoney(spending.total, amount) > allowance.spendingLimit
+    ) {
+      reasons.push(
+        `Total belanja periode ini akan menjadi ${format(
+          addMoney(spending.total, amount)
+        )}, melebihi batas ${format(allowance.spendingLimit)}`
+      );
+    }
+
+    const affected: string[] = [];
+    if (expense.categoryId) {
+      if (!categoryParents.has(expense.categoryId)) {
+        const category = await db.category.findUnique({
+          where: { id: expense.categoryId },
+          select: { parentId: true },
+        });
+        categoryParents.set(expense.categoryId, category?.parentId);
+      }
+      const parentId = categoryParents.get(expense.categoryId);
+      affected.push(expense.categoryId, ...(parentId ? [parentId] : []));
+
+      for (const limit of allowance.categoryLimits) {
+        if (!affected.includes(limit.categoryId)) continue;
+
+        const spent = addMoney(spending.byCategory.get(limit.categoryId) ?? 0, amount);
+        if (spent > limit.amount) {
+          reasons.push(
+            `Belanja kategori ${limit.category.name} akan menjadi ${format(
+              spent
+            )}, melebihi batas ${format(limit.amount)}`
+          );
+        }
+      }
+    }
+
+    if (reasons.length > 0) return reasons;
+
+    // Pengeluaran berikutnya di batch dihitung di atas yang ini
+    spending.total = addMoney(spending.total, amount);
+    for (const categoryId of affected) {
+      spending.byCategory.set(
+        categoryId,
+        addMoney(spending.byCategory.get(categoryId) ?? 0, amount)
+      );
+    }
+  }
+
+  return [];
+}
+
+/**
+ * Reject member expenses that need admin approval
+ *
+ * Untuk jalur yang tidak membuat permintaan persetujuan (ubah transaksi,
+ * impor, template, recurring): pengeluaran di atas batas uang saku harus
+ * diajukan lewat POST /api/transactions.
+ *
+ * @throws Error listing the exceeded limits
+ */
+export async function assertMemberExpenseAllowed(
+  db: DbClient,
+  familyId: string,
+  user: { userId: string; role: string },
+  expenses: MemberExpense[]
+) {
+  if (user.role !== "MEMBER" || expenses.length === 0) return;
+
+  const reasons = await checkMemberExpenses(db, familyId, user.userId, expenses);
+  if (reasons.length > 0) {
+    throw new Error(
+      `${MEMBER_EXPENSE_APPROVAL_ERROR}: ${reasons.join("; ")}. ` +
+        "Ajukan lewat transaksi baru"
+    );
+  }
+}
+
+/**
+ * Spending summary of one member for the current allowance period (atau
+ * bulan berjalan jika anggota belum punya uang saku)
+ */
+export async function getMemberSpendingSummary(
+  db: DbClient,
+  familyId: string,
+  memberId: string,
+  now: Date = new Date()
+) {
+  const [allowance, converter] = await Promise.all([
+    db.memberAllowance.findUnique({
+      where: { memberId },
+      include: allowanceInclude,
+    }),
+    getCurrencyConverter(db, familyId),
+  ]);
+
+  const period = allowance
+    ? getAllowancePeriod(allowance, now)
+    : {
+        start: new Date(now.getFullYear(), now.getMonth(), 1),
+        end: new Date(now.getFullYear(), now.getMonth() + 1, 0, 23, 59, 59, 999),
+      };
+
+  const [spending, categories, pending] = await Promise.all([
+    getMemberSpending(db, familyId, memberId, period, converter),
+    db.category.findMany({
+      where: { familyId, type: "EXPENSE" },
+      select: { id: true, name: true, icon: true, parentId: true },
+    }),
+    db.approvalRequest.findMany({
+      where: { familyId, requestedById: memberId, status: "PENDING" },
+      select: { amount: true },
+    }),
+  ]);
+
+  const limitOf = new Map(
+    (allowance?.categoryLimits ?? []).map((limit) => [limit.categoryId, limit.amount])
+  );
+
+  // Kategori induk (dengan subkategori) dan kategori yang punya batas
+  const byCategory = categories
+    .filter(
+      (category) =>
+        (!category.parentId || limitOf.has(category.id)) &&
+        (spending.byCategory.has(category.id) || limitOf.has(category.id))
+    )
+    .map((category) => {
+      const spent = spending.byCategory.get(category.id) ?? 0;
+      const limit = limitOf.get(category.id) ?? null;
+      return {
+        categoryId: category.id,
+        name: category.name,
+        icon: category.icon,
+        spent,
+        limit,
+        remaining: limit === null ? null : subtractMoney(limit, spent),
+      };
+    })
+    .sort((a, b) => b.spent - a.spent);
+
+  const spendingLimit = allowance?.isActive ? allowance.spendingLimit : null;
+
+  return {
+    memberId,
+    currency: converter.baseCurrency,
+    period,
+    allowance,
+    spent: spending.total,
+    spendingLimit,
+    remaining:
+      spendingLimit === null ? null : subtractMoney(spendingLimit, spending.total),
+    categories: byCategory,
+    pendingApprovals: {
+      count: pending.length,
+      amount: sumMoney(pending, (request) => request.amount ?? 0),
+    },
+  };
+}
+
+/**
+ * Record one allowance top-up and schedule the next one
+ *
+ * Transfer dari dompet sumber jika ada, jika tidak dicatat sebagai
+ * pemasukan ke dompet anggota. Jadwal yang terlewat hanya di-top-up sekali.
+ *
+ * @throws Error if the source wallet balance is insufficient
+ */
+export async function topUpAllowance(
+  tx: DbClient,
+  allowance: Omit<
+    MemberAllowance,
+    "amount" | "spendingLimit" | "approvalThreshold"
+  > & {
+    amount: number;
+    member: { name: string };
+  },
+  now: Date = new Date()
+) {
+  const wallet = await tx.wallet.findUniqueOrThrow({
+    where: { id: allowance.walletId },
+    select: { currency: true },
+  });
+
+  const entry = allowance.sourceWalletId
+    ? {
+        type: "TRANSFER" as const,
+        amount: allowance.amount,
+        fromWalletId: allowance.sourceWalletId,
+        toWalletId: allowance.walletId,
+      }
+    : {
+        type: "INCOME" as const,
+        amount: allowance.amount,
+        fromWalletId: allowance.walletId,
+        toWalletId: null,
+      };
+
+  const transaction = await tx.transaction.create({
+    data: {
+      ...entry,
+      currency: wallet.currency,
+      description: `Uang saku ${allowance.member.name}`,
+      date: now,
+      userId: allowance.createdById,
+      familyId: allowance.familyId,
+    },
+  });
+
+  const changes = await applyWalletDeltas(
+    tx,
+    allowance.familyId,
+    getWalletDeltas(entry)
+  );
+
+  let nextDate = allowance.nextDate;
+  while (nextDate <= now) {
+    nextDate = getNextRecurringDate(
+      nextDate,
+      allowance.frequency,
+      allowance.dayOfMonth
+    );
+  }
+
+  await tx.memberAllowance.update({
+    where: { id: allowance.id },
+    data: { lastRunDate: now, nextDate },
+  });
+
+  await tx.auditLog.create({
+    data: {
+      action: "AUTO_TOP_UP_ALLOWANCE",
+      entityType: "Transaction",
+      entityId: transaction.id,
+      details: JSON.stringify({
+        allowanceId: allowance.id,
+        memberId: allowance.memberId,
+        amount: allowance.amount,
+        wallets: changes,
+        nextDate,
+      }),
+      userId: allowance.createdById,
+      familyId: allowance.familyId,
+    },
+  });
+
+  return { transaction, nextDate };
+}
@@ -0,0 +1,227 @@
+/**
+ * Personal API keys for scripts and integrations
+ *
+ * Kunci dikirim sebagai `Authorization: Bearer fft_...` dan bertindak atas
+ * nama pemiliknya: role dan keluarga dibaca dari user saat kunci dipakai,
+ * sehingga perubahan role/keluarga langsung berlaku. Hanya hash SHA-256 yang
+ * disimpan; kunci lengkap hanya dikembalikan sekali saat dibuat.
+ *
+ * - READ_ONLY: hanya request baca (GET/HEAD, lihat `withAuth`)
+ * - READ_WRITE: semua endpoint yang mengizinkan API key
+ */
+
+import { createHash, randomBytes } from "crypto";
+import { z } from "zod";
+import { DbClient } from "./prisma";
+
+export const API_KEY_SCOPES = ["READ_ONLY", "READ_WRITE"] as const;
+
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number];
+
+/**
+ * Prefix of every API key (membedakan API key dari JWT di header Bearer)
+ */
+export const API_KEY_PREFIX = "fft_";
+
+/**
+ * Maximum active API keys per user
+ */
+export const MAX_API_KEYS = 10;
+
+// Panjang awal kunci yang disimpan untuk ditampilkan
+const DISPLAY_PREFIX_LENGTH = API_KEY_PREFIX.length + 8;
+
+export const apiKeySchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, "Nama API key tidak boleh kosong")
+    .max(100, "Nama API key maksimal 100 karakter"),
+  scope: z
+    .enum(API_KEY_SCOPES, {
+      errorMap: () => ({ message: "Scope harus READ_ONLY atau READ_WRITE" }),
+    })
+    .default("READ_ONLY"),
+  // Opsional: tanpa masa berlaku kunci berlaku sampai dicabut
+  expiresInDays: z.coerce
+    .number({ invalid_type_error: "Masa berlaku harus berupa angka" })
+    .int("Masa berlaku harus bilangan bulat")
+    .min(1, "Masa berlaku minimal 1 hari")
+    .max(365, "Masa berlaku maksimal 365 hari")
+    .optional(),
+});
+
+export type ApiKeyInput = z.infer<typeof apiKeySchema>;
+
+/**
+ * Fields of an API key that are safe to return (tanpa hash)
+ */
+export const apiKeySelect = {
+  id: true,
+  name: true,
+  prefix: true,
+  scope: true,
+  lastUsedAt: true,
+  expiresAt: true,
+  revokedAt: true,
+  createdAt: true,
+} as const;
+
+/**
+ * Hash an API key for storage/lookup
+ */
+export function hashApiKey(key: string): string {
+  return createHash("sha256").update(key).digest("hex");
+}
+
+/**
+ * Check whether a bearer token looks like an API key (bukan JWT)
+ */
+export function isApiKey(token: string): boolean {
+  return token.startsWith(API_KEY_PREFIX);
+}
+
+/**
+ * Create an API key for a user
+ *
+ * @returns The stored key (tanpa hash) and the full key, shown only once
+ * @throws Error if the user already has MAX_API_KEYS active keys
+ */
+export async function createApiKey(
+  tx: DbClient,
+  user: { userId: string; familyId: string | null },
+  input: ApiKeyInput
+) {
+  const activeCount = await tx.apiKey.count({
+    where: {
+      userId: user.userId,
+      revokedAt: null,
+      OR: [{ expiresAt: null }, { expiresAt: { gt: new Date() } }],
+    },
+  });
+
+  if (activeCount >= MAX_API_KEYS) {
+    throw new Error(`Maksimal ${MAX_API_KEYS} API key aktif per user`);
+  }
+
+  const key = `${API_KEY_PREFIX}${randomBytes(32).toString("base64url")}`;
+
+  const apiKey = await tx.apiKey.create({
+    data: {
+      name: input.name,
+      prefix: key.slice(0, DISPLAY_PREFIX_LENGTH),
+      keyHash: hashApiKey(key),
+      scope: input.scope,
+      expiresAt: input.expiresInDays
+        ? new Date(Date.now() + input.expiresInDays * 24 * 60 * 60 * 1000)
+        : null,
+      userId: user.userId,
+    },
+    select: apiKeySelect,
+  });
+
+  await tx.auditLog.create({
+    data: {
+      action: "CREATE_API_KEY",
+      entityType: "ApiKey",
+      entityId: apiKey.id,
+      dataAfter: JSON.stringify(apiKey),
+      userId: user.userId,
+      familyId: user.familyId,
+    },
+  });
+
+  return { apiKey, key };
+}
+
+/**
+ * Revoke an API key of a user
+ *
+ * @throws Error if the key is missing, belongs to another user or is
+ * already revoked
+ */
+export async function revokeApiKey(
+  tx: DbClient,
+  user: { userId: string; familyId: string | null },
+  apiKeyId: string
+) {
+  const existing = await tx.apiKey.findFirst({
+    where: { id: apiKeyId, userId: user.userId },
+    select: apiKeySelect,
+  });
+
+  if (!existing) {
+    throw new Error("API key tidak ditemukan");
+  }
+
+  if (existing.revokedAt) {
+    throw new Error("API key sudah dicabut");
+  }
+
+  const apiKey = await tx.apiKey.update({
+    where: { id: existing.id },
+    data: { revokedAt: new Date() },
+    select: apiKeySelect,
+  });
+
+  await tx.auditLog.create({
+    data: {
+      action: "REVOKE_API_KEY",
+      entityType: "ApiKey",
+      entityId: apiKey.id,
+      dataBefore: JSON.stringify(existing),
+      userId: user.userId,
+      familyId: user.familyId,
+    },
+  });
+
+  return apiKey;
+}
+
+/**
+ * Resolve the owner of an API key
+ *
+ * @returns The key's owner and scope, or null if the key is unknown,
+ * revoked or expired
+ */
+export async function authenticateApiKey(db: DbClient, key: string) {
+  const apiKey = await db.apiKey.findUnique({
+    where: { keyHash: hashApiKey(key) },
+    select: {
+      id: true,
+      scope: true,
+      expiresAt: true,
+      revokedAt: true,
+      lastUsedAt: true,
+      user: {
+        select: { id: true, email: true, role: true, familyId: true },
+      },
+    },
+  });
+
+  const now = new Date();
+  if (
+    !apiKey ||
+    apiKey.revokedAt ||
+    (apiKey.expiresAt && apiKey.expiresAt <= now)
+  ) {
+    return null;
+  }
+
+  // Cukup perbarui lastUsedAt sekali per menit
+  if (
+    !apiKey.lastUsedAt ||
+    now.getTime() - apiKey.lastUsedAt.getTime() > 60 * 1000
+  ) {
+    await db.apiKey.update({
+      where: { id: apiKey.id },
+      data: { lastUsedAt: now },
+    });
+  }
+
+  return {
+    apiKeyId: apiKey.id,
+    scope: apiKey.scope as ApiKeyScope,
+    user: apiKey.user,
+  };
+}
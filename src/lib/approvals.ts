@@ -0,0 +1,353 @@
+/**
+ * Approval requests
+ *
+ * Aksi yang perlu persetujuan admin disimpan sebagai ApprovalRequest
+ * (PENDING) beserta input aslinya di `payload`, lalu baru dijalankan saat
+ * admin lain menyetujuinya. Setiap tipe punya executor sendiri.
+ *
+ * Pengeluaran anggota ditentukan oleh batas uang sakunya (lib/allowances),
+ * tipe lain oleh kebijakan persetujuan keluarga (field `approval*` Family).
+ */
+
+import { ApprovalRequest, ApprovalType, Prisma } from "@prisma/client";
+import { z } from "zod";
+import { DbClient } from "./prisma";
+import { createTransaction, createTransactionSchema } from "./transactions";
+import { transferBetweenWallets, walletTransferSchema } from "./wallet-transfers";
+import { deleteAsset } from "./assets";
+import { deleteLiability } from "./liabilities";
+import { changeMemberRole, changeRoleSchema } from "./family-members";
+
+export const approvalReviewSchema = z.object({
+  action: z.enum(["APPROVE", "REJECT"], {
+    errorMap: () => ({ message: "Aksi harus APPROVE atau REJECT" }),
+  }),
+  note: z.string().max(500, "Catatan maksimal 500 karakter").optional(),
+});
+
+export type ApprovalReviewInput = z.infer<typeof approvalReviewSchema>;
+
+/**
+ * Payload of approvals that target one existing entity
+ */
+const entityPayloadSchema = z.object({ id: z.string().min(1) });
+
+/**
+ * Runs the approved action and returns the id of the created/changed entity
+ */
+type ApprovalExecutor = (
+  tx: DbClient,
+  request: Pick<ApprovalRequest, "type" | "payload" | "familyId" | "requestedById">
+) => Promise<string | null>;
+
+const executors: Record<ApprovalType, ApprovalExecutor> = {
+  MEMBER_EXPENSE: async (tx, request) => {
+    const input = createTransactionSchema.parse(request.payload);
+    const { transaction } = await createTransaction(
+      tx,
+      request.familyId,
+      request.requestedById,
+      input
+    );
+    return transaction.id;
+  },
+  WALLET_TRANSFER: async (tx, request) => {
+    const input = walletTransferSchema.parse(request.payload);
+    const { transactions } = await transferBetweenWallets(
+      tx,
+      request.familyId,
+      request.requestedById,
+      input
+    );
+    return transactions[0].id;
+  },
+  DELETE_ASSET: async (tx, request) => {
+    const { id } = entityPayloadSchema.parse(request.payload);
+    await deleteAsset(tx, request.familyId, request.requestedById, id);
+    return id;
+  },
+  DELETE_LIABILITY: async (tx, request) => {
+    const { id } = entityPayloadSchema.parse(request.payload);
+    await deleteLiability(tx, request.familyId, request.requestedById, id);
+    return id;
+  },
+  CHANGE_ROLE: async (tx, request) => {
+    const { id, ...input } = entityPayloadSchema
+      .merge(changeRoleSchema)
+      .parse(request.payload);
+    await changeMemberRole(tx, request.familyId, request.requestedById, id, input);
+    return id;
+  },
+};
+
+/**
+ * Action checked against the family approval policy; `amount` is in the
+ * family base currency
+ */
+export type PolicyAction =
+  | { type: "WALLET_TRANSFER"; amount: number }
+  | { type: "DELETE_ASSET" | "DELETE_LIABILITY" | "CHANGE_ROLE" };
+
+/**
+ * Whether the family approval policy requires approval for an action
+ *
+ * Tidak berlaku jika tidak ada admin lain yang dapat menyetujui (mis.
+ * admin tunggal), agar aksi tidak tertahan selamanya.
+ */
+export async function requiresApproval(
+  db: DbClient,
+  familyId: string,
+  userId: string,
+  action: PolicyAction
+): Promise<boolean> {
+  const policy = await db.family.findUnique({
+    where: { id: familyId },
+    select: {
+      approvalTransferThreshold: true,
+      approvalDeleteAssets: true,
+      approvalDeleteLiabilities: true,
+      approvalRoleChanges: true,
+    },
+  });
+
+  if (!policy) return false;
+
+  let required: boolean;
+  switch (action.type) {
+    case "WALLET_TRANSFER":
+      required =
+        policy.approvalTransferThreshold !== null &&
+        action.amount > policy.approvalTransferThreshold;
+      break;
+    case "DELETE_ASSET":
+      required = policy.approvalDeleteAssets;
+      break;
+    case "DELETE_LIABILITY":
+      required = policy.approvalDeleteLiabilities;
+      break;
+    case "CHANGE_ROLE":
+      required = policy.approvalRoleChanges;
+      break;
+  }
+
+  if (!required) return false;
+
+  const reviewers = await db.user.count({
+    where: { familyId, role: "ADMIN", id: { not: userId } },
+  });
+  return reviewers > 0;
+}
+
+/**
+ * Store a pending request and notify the family admins (selain pengaju)
+ */
+export async function createApprovalRequest(
+  tx: DbClient,
+  data: {
+    familyId: string;
+    type: ApprovalType;
+    requestedById: string;
+    amount?: number | null;
+    description: string;
+    payload: Prisma.InputJsonValue;
+    reasons?: string[];
+  }
+) {
+  const request = await tx.approvalRequest.create({
+    data: {
+      type: data.type,
+      amount: data.amount ?? null,
+      description: data.description,
+      payload: data.payload,
+      reasons: data.reasons ?? [],
+      familyId: data.familyId,
+      requestedById: data.requestedById,
+    },
+    include: {
+      requestedBy: { select: { id: true, name: true } },
+    },
+  });
+
+  const admins = await tx.user.findMany({
+    where: {
+      familyId: data.familyId,
+      role: "ADMIN",
+      id: { not: data.requestedById },
+    },
+    select: { id: true },
+  });
+
+  if (admins.length > 0) {
+    await tx.notification.createMany({
+      data: admins.map((admin) => ({
+        type: "APPROVAL_REQUEST" as const,
+        title: `Persetujuan diperlukan: ${request.requestedBy.name}`,
+        message: data.description,
+        data: {
+          approvalRequestId: request.id,
+          type: data.type,
+          amount: data.amount ?? null,
+          reasons: data.reasons ?? [],
+        },
+        userId: admin.id,
+        familyId: data.familyId,
+        referenceId: request.id,
+        referenceType: "approval",
+        status: "SENT" as const,
+      })),
+    });
+  }
+
+  await tx.auditLog.create({
+    data: {
+      action: "CREATE_APPROVAL_REQUEST",
+      entityType: "ApprovalRequest",
+      entityId: request.id,
+      details: JSON.stringify({
+        type: data.type,
+        amount: data.amount ?? null,
+        reasons: data.reasons ?? [],
+        notifiedAdmins: admins.length,
+      }),
+      userId: data.requestedById,
+      familyId: data.familyId,
+    },
+  });
+
+  return request;
+}
+
+/**
+ * Approve (and execute) or reject a pending request
+ *
+ * Status diklaim lebih dulu dengan updateMany agar permintaan yang sama
+ * tidak dijalankan dua kali; jika executor gagal, seluruh transaksi
+ * database dibatalkan dan permintaan tetap PENDING.
+ *
+ * @throws Error if the request is missing, already processed, or the
+ * reviewer is the requester
+ */
+export async function reviewApprovalRequest(
+  tx: DbClient,
+  familyId: string,
+  reviewerId: string,
+  requestId: string,
+  input: ApprovalReviewInput
+) {
+  const request = await tx.approvalRequest.findFirst({
+    where: { id: requestId, familyId },
+  });
+
+  if (!request) {
+    throw new Error("Permintaan persetujuan tidak ditemukan");
+  }
+
+  if (request.requestedById === reviewerId) {
+    throw new Error("Tidak dapat memproses permintaan sendiri");
+  }
+
+  const approved = input.action === "APPROVE";
+  const claimed = await tx.approvalRequest.updateMany({
+    where: { id: requestId, status: "PENDING" },
+    data: {
+      status: approved ? "APPROVED" : "REJECTED",
+      reviewedById: reviewerId,
+      reviewedAt: new Date(),
+      reviewNote: input.note,
+    },
+  });
+
+  if (claimed.count === 0) {
+    throw new Error("Permintaan persetujuan sudah diproses");
+  }
+
+  const resultId = approved ? await executors[request.type](tx, request) : null;
+
+  const updated = await tx.approvalRequest.update({
+    where: { id: requestId },
+    data: { resultId },
+    include: {
+      requestedBy: { select: { id: true, name: true } },
+      reviewedBy: { select: { id: true, name: true } },
+    },
+  });
+
+  await tx.notification.create({
+    data: {
+      type: "APPROVAL_REQUEST",
+      title: approved ? "Permintaan disetujui" : "Permintaan ditolak",
+      message: input.note
+        ? `${request.description} — ${input.note}`
+        : request.description,
+      data: {
+        approvalRequestId: request.id,
+        status: updated.status,
+        resultId,
+      },
+      userId: request.requestedById,
+      familyId,
+      referenceId: request.id,
+      referenceType: "approval",
+      status: "SENT",
+    },
+  });
+
+  await tx.auditLog.create({
+    data: {
+      action: approved ? "APPROVE_REQUEST" : "REJECT_REQUEST",
+      entityType: "ApprovalRequest",
+      entityId: request.id,
+      details: JSON.stringify({
+        type: request.type,
+        requestedById: request.requestedById,
+        note: input.note ?? null,
+        resultId,
+      }),
+      userId: reviewerId,
+      familyId,
+    },
+  });
+
+  return updated;
+}
+
+/**
+ * Cancel a pending request by its requester
+ *
+ * @throws Error if the request is missing, not the user's own or already
+ * processed
+ */
+export async function cancelApprovalRequest(
+  tx: DbClient,
+  familyId: string,
+  userId: string,
+  requestId: string
+) {
+  const request = await tx.approvalRequest.findFirst({
+    where: { id: requestId, familyId, requestedById: userId },
+  });
+
+  if (!request) {
+    throw new Error("Permintaan persetujuan tidak ditemukan");
+  }
+
+  const claimed = await tx.approvalRequest.updateMany({
+    where: { id: requestId, status: "PENDING" },
+    data: { status: "CANCELLED" },
+  });
+
+  if (claimed.count === 0) {
+    throw new Error("Permintaan persetujuan sudah diproses");
+  }
+
+  await tx.auditLog.create({
+    data: {
+      action: "CANCEL_APPROVAL_REQUEST",
+      entityType: "ApprovalRequest",
+      entityId: request.id,
+      details: JSON.stringify({ type: request.type }),
+      userId,
+      familyId,
+    },
+  });
+}
@@ -0,0 +1,47 @@
+/**
+ * Asset helpers
+ *
+ * Dipakai oleh DELETE /api/assets/[id] dan saat admin menyetujui
+ * penghapusan aset sesuai kebijakan persetujuan keluarga.
+ */
+
+import { DbClient } from "./prisma";
+
+/**
+ * Delete an asset of a family and log it
+ *
+ * @throws Error if the asset is not found in the family
+ */
+export async function deleteAsset(
+  tx: DbClient,
+  familyId: string,
+  userId: string,
+  assetId: string
+) {
+  const asset = await tx.asset.findFirst({
+    where: { id: assetId, familyId },
+    select: { id: true, name: true, value: true },
+  });
+
+  if (!asset) {
+    throw new Error("Aset tidak ditemukan");
+  }
+
+  await tx.asset.delete({ where: { id: asset.id } });
+
+  await tx.auditLog.create({
+    data: {
+      action: "DELETE_ASSET",
+      entityType: "Asset",
+      entityId: asset.id,
+      details: JSON.stringify({
+        name: asset.name,
+        value: asset.value,
+      }),
+      userId,
+      familyId,
+    },
+  });
+
+  return asset;
+}
@@ -32,7 +32,7 @@ export interface SessionUser {
 /**
  * Auth Cookie Configuration
  */
-const AUTH_COOKIE_NAME = 'auth-token';
+export const AUTH_COOKIE_NAME = 'auth-token';
 const COOKIE_MAX_AGE = 7 * 24 * 60 * 60; // 7 days in seconds
 
 /**
@@ -45,10 +45,10 @@ function getSecretKey(): Uint8Array {
 
 /**
  * Sign JWT token
- * 
+ *
  * @param payload - User data to encode in token
  * @returns JWT token string
- * 
+ *
  * @example
  * ```typescript
  * const token = await signToken({
@@ -59,10 +59,12 @@ function getSecretKey(): Uint8Array {
  * });
  * ```
  */
-export async function signToken(payload: Omit<JWTPayload, 'iat' | 'exp'>): Promise<string> {
+export async function signToken(
+  payload: Omit<JWTPayload, 'iat' | 'exp'>
+): Promise<string> {
   try {
     const secret = getSecretKey();
-    
+
     const token = await new SignJWT(payload as Record<string, unknown>)
       .setProtectedHeader({ alg: 'HS256' })
       .setIssuedAt()
@@ -78,11 +80,11 @@ export async function signToken(payload: Omit<JWTPayload, 'iat' | 'exp'>): Promi
 
 /**
  * Verify JWT token
- * 
+ *
  * @param token - JWT token to verify
  * @returns Decoded JWT payload
  * @throws Error if token is invalid or expired
- * 
+ *
  * @example
  * ```typescript
  * try {
@@ -96,7 +98,7 @@ export async function signToken(payload: Omit<JWTPayload, 'iat' | 'exp'>): Promi
 export async function verifyToken(token: string): Promise<JWTPayload> {
   try {
     const secret = getSecretKey();
-    
+
     const { payload } = await jwtVerify(token, secret, {
       algorithms: ['HS256'],
     });
@@ -124,10 +126,10 @@ export async function verifyToken(token: string): Promise<JWTPayload> {
 
 /**
  * Set authentication cookie with JWT token
- * 
+ *
  * @param payload - User data to encode in token
  * @returns The generated token
- * 
+ *
  * @example
  * ```typescript
  * await setAuthCookie({
@@ -138,12 +140,14 @@ export async function verifyToken(token: string): Promise<JWTPayload> {
  * });
  * ```
  */
-export async function setAuthCookie(payload: Omit<JWTPayload, 'iat' | 'exp'>): Promise<string> {
+export async function setAuthCookie(
+  payload: Omit<JWTPayload, 'iat' | 'exp'>
+): Promise<string> {
   try {
     const token = await signToken(payload);
-    
+
     const cookieStore = await cookies();
-    
+
     cookieStore.set({
       name: AUTH_COOKIE_NAME,
       value: token,
@@ -163,7 +167,7 @@ export async function setAuthCookie(payload: Omit<JWTPayload, 'iat' | 'exp'>): P
 
 /**
  * Clear authentication cookie (logout)
- * 
+ *
  * @example
  * ```typescript
  * await clearAuthCookie();
@@ -172,7 +176,7 @@ export async function setAuthCookie(payload: Omit<JWTPayload, 'iat' | 'exp'>): P
 export async function clearAuthCookie(): Promise<void> {
   try {
     const cookieStore = await cookies();
-    
+
     cookieStore.set({
       name: AUTH_COOKIE_NAME,
       value: '',
@@ -190,9 +194,9 @@ export async function clearAuthCookie(): Promise<void> {
 
 /**
  * Get current user session from cookie
- * 
+ *
  * @returns User session or null if not authenticated
- * 
+ *
  * @example
  * ```typescript
  * const session = await getCurrentSession();
@@ -229,10 +233,10 @@ export async function getCurrentSession(): Promise<SessionUser | null> {
 
 /**
  * Require authentication - throws error if not authenticated
- * 
+ *
  * @returns User session
  * @throws Error if not authenticated
- * 
+ *
  * @example
  * ```typescript
  * const session = await requireAuth();
@@ -251,10 +255,10 @@ export async function requireAuth(): Promise<SessionUser> {
 
 /**
  * Require admin role - throws error if not admin
- * 
+ *
  * @returns Admin user session
  * @throws Error if not authenticated or not admin
- * 
+ *
  * @example
  * ```typescript
  * const adminSession = await requireAdmin();
@@ -273,10 +277,10 @@ export async function requireAdmin(): Promise<SessionUser> {
 
 /**
  * Check if user belongs to a family
- * 
+ *
  * @param session - User session
  * @throws Error if user has no family
- * 
+ *
  * @example
  * ```typescript
  * const session = await requireAuth();
@@ -292,11 +296,11 @@ export async function requireFamily(session: SessionUser): Promise<void> {
 
 /**
  * Validate family access - checks if user belongs to the specified family
- * 
+ *
  * @param session - User session
  * @param familyId - Family ID to check
  * @throws Error if user doesn't belong to the family
- * 
+ *
  * @example
  * ```typescript
  * await validateFamilyAccess(session, 'family-id');
@@ -313,10 +317,10 @@ export async function validateFamilyAccess(
 
 /**
  * Get token from request headers (for API calls)
- * 
+ *
  * @param authHeader - Authorization header value
  * @returns Token string or null
- * 
+ *
  * @example
  * ```typescript
  * const token = getTokenFromHeader(request.headers.get('authorization'));
@@ -334,47 +338,3 @@ export function getTokenFromHeader(authHeader: string | null): string | null {
 
   return authHeader;
 }
-
-/**
- * Verify session from either cookie or Authorization header
- * Useful for API routes that can accept both
- * 
- * @param authHeader - Optional Authorization header
- * @returns User session or null
- * 
- * @example
- * ```typescript
- * const session = await getSessionFromRequest(
- *   request.headers.get('authorization')
- * );
- * ```
- */
-export async function getSessionFromRequest(
-  authHeader?: string | null
-): Promise<SessionUser | null> {
-  // Try cookie first
-  const cookieSession = await getCurrentSession();
-  if (cookieSession) {
-    return cookieSession;
-  }
-
-  // Try Authorization header
-  if (authHeader) {
-    const token = getTokenFromHeader(authHeader);
-    if (token) {
-      try {
-        const payload = await verifyToken(token);
-        return {
-          userId: payload.userId,
-          email: payload.email,
-          role: payload.role,
-          familyId: payload.familyId,
-        };
-      } catch {
-        return null;
-      }
-    }
-  }
-
-  return null;
-}
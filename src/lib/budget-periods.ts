@@ -0,0 +1,166 @@
+/**
+ * Budget period ranges
+ *
+ * Budget MONTHLY lama disimpan per baris month/year. Budget dengan periode
+ * lain (WEEKLY, BIWEEKLY, QUARTERLY, YEARLY, PAY_CYCLE) adalah budget
+ * berulang tanpa month/year: `amount` berlaku untuk setiap periode mulai
+ * `startDate` sampai `endDate` (jika ada).
+ */
+
+import { BudgetPeriod, Prisma } from "@prisma/client";
+
+export interface BudgetPeriodConfig {
+  period: BudgetPeriod;
+  month: number | null;
+  year: number | null;
+  startDate: Date | null;
+  cycleStartDay: number | null;
+}
+
+export interface PeriodRange {
+  start: Date;
+  end: Date;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const endOfDay = (year: number, month: number, day: number) =>
+  new Date(year, month, day, 23, 59, 59, 999);
+
+/**
+ * Whether the budget repeats every period instead of being a month/year row
+ */
+export function isRecurringBudget(budget: BudgetPeriodConfig): boolean {
+  return !budget.month || !budget.year;
+}
+
+/**
+ * Period of a budget that contains `date`
+ *
+ * Baris month/year selalu mengembalikan bulannya sendiri (data lama
+ * menyimpan month sebagai YYYYMM).
+ */
+export function getBudgetPeriodRange(
+  budget: BudgetPeriodConfig,
+  date: Date
+): PeriodRange {
+  if (!isRecurringBudget(budget)) {
+    const month = budget.month! > 12 ? budget.month! % 100 : budget.month!;
+    return {
+      start: new Date(budget.year!, month - 1, 1),
+      end: endOfDay(budget.year!, month, 0),
+    };
+  }
+
+  const year = date.getFullYear();
+  const month = date.getMonth();
+
+  switch (budget.period) {
+    case "WEEKLY":
+    case "BIWEEKLY": {
+      const length = budget.period === "WEEKLY" ? 7 : 14;
+      const anchor = budget.startDate ?? date;
+      const [anchorYear, anchorMonth, anchorDay] = [
+        anchor.getFullYear(),
+        anchor.getMonth(),
+        anchor.getDate(),
+      ];
+      // Selisih hari dalam UTC agar tidak terpengaruh DST
+      const days = Math.floor(
+        (Date.UTC(year, month, date.getDate()) -
+          Date.UTC(anchorYear, anchorMonth, anchorDay)) /
+          DAY_MS
+      );
+      const index = Math.floor(days / length);
+
+      return {
+        start: new Date(anchorYear, anchorMonth, anchorDay + index * length),
+        end: endOfDay(anchorYear, anchorMonth, anchorDay + (index + 1) * length - 1),
+      };
+    }
+
+    case "QUARTERLY": {
+      const quarterStart = Math.floor(month / 3) * 3;
+      return {
+        start: new Date(year, quarterStart, 1),
+        end: endOfDay(year, quarterStart + 3, 0),
+      };
+    }
+
+    case "YEARLY":
+      return {
+        start: new Date(year, 0, 1),
+        end: endOfDay(year, 12, 0),
+      };
+
+    case "PAY_CYCLE": {
+      const startDay = budget.cycleStartDay ?? 1;
+      const startMonth = date.getDate() >= startDay ? month : month - 1;
+      return {
+        start: new Date(year, startMonth, startDay),
+        end: endOfDay(year, startMonth + 1, startDay - 1),
+      };
+    }
+
+    case "MONTHLY":
+    default:
+      return {
+        start: new Date(year, month, 1),
+        end: endOfDay(year, month + 1, 0),
+      };
+  }
+}
+
+/**
+ * Period right before `range`
+ */
+export function getPreviousPeriodRange(
+  budget: BudgetPeriodConfig,
+  range: PeriodRange
+): PeriodRange {
+  return getBudgetPeriodRange(budget, new Date(range.start.getTime() - 1));
+}
+
+/**
+ * Date used to pick the active period when viewing a month
+ *
+ * Hari ini jika bulan yang dilihat adalah bulan berjalan, akhir bulan untuk
+ * bulan lalu, dan awal bulan untuk bulan mendatang.
+ */
+export function getBudgetReferenceDate(
+  month: number,
+  year: number,
+  now: Date = new Date()
+): Date {
+  const start = new Date(year, month - 1, 1);
+  const end = endOfDay(year, month, 0);
+
+  if (now < start) return start;
+  if (now > end) return end;
+  return now;
+}
+
+/**
+ * Filter for budgets that apply to a month: the month/year rows plus
+ * recurring budgets running at some point in that month
+ */
+export function getMonthBudgetsWhere(
+  familyId: string,
+  month: number,
+  year: number
+): Prisma.BudgetWhereInput {
+  const start = new Date(year, month - 1, 1);
+  const end = endOfDay(year, month, 0);
+
+  return {
+    familyId,
+    OR: [
+      { month, year },
+      {
+        month: null,
+        startDate: { lte: end },
+        OR: [{ endDate: null }, { endDate: { gte: start } }],
+      },
+    ],
+  };
+}
@@ -0,0 +1,276 @@
+/**
+ * Budget rollover
+ *
+ * Menghitung jumlah efektif budget (budget + carry-over) untuk periode yang
+ * aktif. Carry-over berasal dari sisa periode sebelumnya menurut
+ * `rolloverMode`:
+ * - UNDERSPEND → hanya sisa positif yang dibawa
+ * - OVERSPEND  → hanya kelebihan belanja (minus) yang dibawa
+ * - BOTH       → keduanya
+ *
+ * Untuk baris MONTHLY, rantai carry-over berhenti di bulan tanpa budget atau
+ * bulan dengan rolloverMode NONE.
+ */
+
+import { BudgetPeriod, BudgetRollover } from "@prisma/client";
+import { DbClient } from "./prisma";
+import { CurrencyConverter, getCurrencyConverter } from "./currency";
+import { getCategorySpending } from "./transaction-ledger";
+import { addMoney, subtractMoney } from "./money";
+import {
+  BudgetPeriodConfig,
+  PeriodRange,
+  getBudgetPeriodRange,
+  getPreviousPeriodRange,
+  isRecurringBudget,
+} from "./budget-periods";
+
+/**
+ * Maximum number of past periods followed for carry-over
+ */
+export const MAX_ROLLOVER_PERIODS = 12;
+
+export interface RolloverBudget extends BudgetPeriodConfig {
+  id: string;
+  categoryId: string | null;
+  amount: number;
+  endDate: Date | null;
+  rolloverMode: BudgetRollover;
+}
+
+export interface EffectiveBudget {
+  budgetId: string;
+  categoryId: string | null;
+  period: BudgetPeriod;
+  start: Date;
+  end: Date;
+  amount: number;
+  carryOver: number;
+  effectiveAmount: number;
+  spent: number;
+  remaining: number;
+  rolloverMode: BudgetRollover;
+}
+
+export const rolloverBudgetSelect = {
+  id: true,
+  categoryId: true,
+  amount: true,
+  period: true,
+  month: true,
+  year: true,
+  startDate: true,
+  endDate: true,
+  cycleStartDay: true,
+  rolloverMode: true,
+} as const;
+
+/**
+ * Part of a period's remainder carried into the next period
+ */
+export function getCarryOver(mode: BudgetRollover, remaining: number): number {
+  switch (mode) {
+    case "UNDERSPEND":
+      return Math.max(0, remaining);
+    case "OVERSPEND":
+      return Math.min(0, remaining);
+    case "BOTH":
+      return remaining;
+    default:
+      return 0;
+  }
+}
+
+const toKey = (month: number, year: number) =>
+  year * 12 + ((month > 12 ? month % 100 : month) - 1);
+
+/**
+ * Effective amount of each budget for the period containing `date`
+ *
+ * Pengeluaran dihitung per periode dengan subkategori masuk ke kategori
+ * induk, dalam mata uang dasar keluarga.
+ */
+export async function getEffectiveBudgets(
+  db: DbClient,
+  familyId: string,
+  budgets: RolloverBudget[],
+  date: Date,
+  converter?: CurrencyConverter
+): Promise<Map<string, EffectiveBudget>> {
+  const result = new Map<string, EffectiveBudget>();
+  if (budgets.length === 0) return result;
+
+  const currencyConverter =
+    converter ?? (await getCurrencyConverter(db, familyId));
+  const categoryIds = [
+    ...new Set(
+      budgets
+        .map((budget) => budget.categoryId)
+        .filter((id): id is string => !!id)
+    ),
+  ];
+
+  // Baris bulan sebelumnya untuk rantai carry-over budget MONTHLY
+  const monthlyRows = new Map<string, RolloverBudget>();
+  const oldestYear = Math.min(
+    ...budgets.map((budget) => budget.year ?? date.getFullYear())
+  );
+  const rows = await db.budget.findMany({
+    where: {
+      familyId,
+      categoryId: { in: categoryIds },
+      month: { not: null },
+      year: { gte: oldestYear - Math.ceil(MAX_ROLLOVER_PERIODS / 12) },
+    },
+    select: rolloverBudgetSelect,
+  });
+  for (const row of [...rows, ...budgets]) {
+    if (!row.categoryId || isRecurringBudget(row)) continue;
+    monthlyRows.set(`${row.categoryId}:${toKey(row.month!, row.year!)}`, row);
+  }
+
+  // Pengeluaran per rentang periode, dipakai bersama semua budget
+  const spendingCache = new Map<
+    string,
+    ReturnType<typeof getCategorySpending>
+  >();
+  const getSpent = async (categoryId: string | null, range: PeriodRange) => {
+    if (!categoryId) return 0;
+    const key = `${range.start.getTime()}-${range.end.getTime()}`;
+    if (!spendingCache.has(key)) {
+      spendingCache.set(
+        key,
+        getCategorySpending(db, familyId, range, {
+          categoryIds,
+          rollup: true,
+          converter: currencyConverter,
+        })
+      );
+    }
+    return (await spendingCache.get(key)!).get(categoryId)?.amount ?? 0;
+  };
+
+  for (const budget of budgets) {
+    const current = getBudgetPeriodRange(budget, date);
+
+    // Periode dari yang terlama sampai periode aktif
+    const chain: Array<{ range: PeriodRange; amount: number; mode: BudgetRollover }> = [
+      { range: current, amount: budget.amount, mode: budget.rolloverMode },
+    ];
+
+    if (isRecurringBudget(budget)) {
+      const firstDay = budget.startDate
+        ? new Date(
+            budget.startDate.getFullYear(),
+            budget.startDate.getMonth(),
+            budget.startDate.getDate()
+          )
+        : null;
+      let range = current;
+      while (
+        budget.rolloverMode !== "NONE" &&
+        chain.length <= MAX_ROLLOVER_PERIODS
+      ) {
+        range = getPreviousPeriodRange(budget, range);
+        if (!firstDay || range.end < firstDay) break;
+        chain.unshift({
+          range,
+          amount: budget.amount,
+          mode: budget.rolloverMode,
+        });
+      }
+    } else if (budget.categoryId) {
+      let key = toKey(budget.month!, budget.year!);
+      while (chain.length <= MAX_ROLLOVER_PERIODS) {
+        const previous = monthlyRows.get(`${budget.categoryId}:${--key}`);
+        if (!previous || previous.rolloverMode === "NONE") break;
+        chain.unshift({
+          range: getBudgetPeriodRange(previous, date),
+          amount: previous.amount,
+          mode: previous.rolloverMode,
+        });
+      }
+    }
+
+    let carryOver = 0;
+    for (let index = 0; index < chain.length; index++) {
+      const { range, amount, mode } = chain[index];
+      const effectiveAmount = addMoney(amount, carryOver);
+      const spent = await getSpent(budget.categoryId, range);
+      const remaining = subtractMoney(effectiveAmount, spent);
+
+      if (index === chain.length - 1) {
+        result.set(budget.id, {
+          budgetId: budget.id,
+          categoryId: budget.categoryId,
+          period: budget.period,
+          start: range.start,
+          end: range.end,
+          amount,
+          carryOver,
+          effectiveAmount,
+          spent,
+          remaining,
+          rolloverMode: budget.rolloverMode,
+        });
+      }
+
+      carryOver = getCarryOver(mode, remaining);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Bring `Budget.spent` of running recurring budgets up to their current
+ * period
+ *
+ * `recalculateBudgetSpent` hanya menghitung ulang saat ada transaksi di
+ * periode berjalan, jadi setelah periode berganti `spent` masih berisi
+ * periode lalu. Dipanggil saat budget dibaca; hanya baris yang berubah
+ * yang diperbarui.
+ */
+export async function refreshRecurringBudgetSpent(
+  db: DbClient,
+  familyId: string,
+  now: Date = new Date()
+): Promise<void> {
+  const budgets = await db.budget.findMany({
+    where: {
+      familyId,
+      month: null,
+      categoryId: { not: null },
+      startDate: { lte: now },
+      OR: [{ endDate: null }, { endDate: { gte: now } }],
+    },
+    select: { ...rolloverBudgetSelect, spent: true },
+  });
+  if (budgets.length === 0) return;
+
+  const categoryIds = budgets.map((budget) => budget.categoryId!);
+  const spendingCache = new Map<
+    string,
+    ReturnType<typeof getCategorySpending>
+  >();
+
+  for (const budget of budgets) {
+    const range = getBudgetPeriodRange(budget, now);
+    const key = `${range.start.getTime()}-${range.end.getTime()}`;
+    if (!spendingCache.has(key)) {
+      spendingCache.set(
+        key,
+        getCategorySpending(db, familyId, range, { categoryIds, rollup: true })
+      );
+    }
+
+    const spent =
+      (await spendingCache.get(key)!).get(budget.categoryId!)?.amount ?? 0;
+    if (spent !== budget.spent) {
+      await db.budget.update({
+        where: { id: budget.id },
+        data: { spent },
+      });
+    }
+  }
+}
@@ -0,0 +1,664 @@
+/**
+ * Cash flow forecast
+ *
+ * Proyeksi saldo per wallet untuk N hari ke depan dari:
+ * - RecurringTransaction aktif (sesuai jadwalnya)
+ * - cicilan hutang (`monthlyPayment`, atau pembayaran minimum kartu kredit)
+ *   dari wallet yang terakhir dipakai membayar hutang tersebut
+ * - sisa budget bulanan, dibagi rata sampai akhir bulan dan dibebankan ke
+ *   wallet yang paling sering dipakai untuk kategori tersebut
+ * - item terencana sekali jalan (what-if) dari request
+ *
+ * Semua item dalam mata uang wallet-nya; hutang dan budget dicatat dalam
+ * mata uang dasar keluarga lalu dikonversi. Item tanpa wallet tidak
+ * mempengaruhi saldo wallet dan dilaporkan di `unassigned`.
+ */
+
+import { z } from "zod";
+import { RecurringFrequency, TransactionType } from "@prisma/client";
+import { DbClient } from "./prisma";
+import { getCurrencyConverter } from "./currency";
+import { getCategorySpending, getWalletDeltas } from "./transaction-ledger";
+import { getSubcategoryParents } from "./categories";
+import { creditCardSelect, getCardPaymentDue } from "./credit-cards";
+import {
+  addMoney,
+  allocateMoney,
+  multiplyMoney,
+  subtractMoney,
+} from "./money";
+
+const DAY = 1000 * 60 * 60 * 24;
+
+/**
+ * Lookback window for picking the wallet a budget category is paid from
+ */
+const BUDGET_WALLET_LOOKBACK_DAYS = 90;
+
+export const plannedItemSchema = z
+  .object({
+    description: z
+      .string()
+      .trim()
+      .min(1, "Deskripsi item tidak boleh kosong")
+      .max(100, "Deskripsi item maksimal 100 karakter"),
+    type: z.enum(["INCOME", "EXPENSE", "TRANSFER"], {
+      errorMap: () => ({
+        message: "Tipe item harus INCOME, EXPENSE, atau TRANSFER",
+      }),
+    }),
+    amount: z.coerce
+      .number({ invalid_type_error: "Jumlah harus berupa angka" })
+      .positive("Jumlah harus lebih dari 0")
+      .max(999999999999, "Jumlah terlalu besar"),
+    date: z.string().datetime({ message: "Format tanggal tidak valid" }),
+    walletId: z.string().min(1, "Wallet harus dipilih"),
+    toWalletId: z.string().min(1, "Wallet tujuan tidak valid").optional(),
+  })
+  .refine((item) => item.type !== "TRANSFER" || !!item.toWalletId, {
+    message: "Transfer harus memiliki wallet tujuan",
+    path: ["toWalletId"],
+  })
+  .refine((item) => item.toWalletId !== item.walletId, {
+    message: "Wallet asal dan tujuan tidak boleh sama",
+    path: ["toWalletId"],
+  });
+
+export const cashFlowForecastSchema = z.object({
+  days: z.coerce
+    .number({ invalid_type_error: "Jumlah hari harus berupa angka" })
+    .int("Jumlah hari harus bilangan bulat")
+    .min(7, "Proyeksi minimal 7 hari")
+    .max(365, "Proyeksi maksimal 365 hari")
+    .default(90),
+  walletIds: z.array(z.string().min(1)).optional(),
+  includeBudgets: z.boolean().default(true),
+  plannedItems: z
+    .array(plannedItemSchema)
+    .max(50, "Maksimal 50 item terencana")
+    .default([]),
+});
+
+export type PlannedItemInput = z.infer<typeof plannedItemSchema>;
+export type CashFlowForecastInput = z.infer<typeof cashFlowForecastSchema>;
+
+export type ForecastSource = "RECURRING" | "LIABILITY" | "BUDGET" | "PLANNED";
+
+export interface ForecastEvent {
+  date: Date;
+  source: ForecastSource;
+  sourceId: string | null;
+  description: string;
+  type: TransactionType;
+  amount: number;
+  walletId: string | null;
+  toWalletId: string | null;
+  categoryId: string | null;
+}
+
+export interface BudgetAllowance {
+  categoryId: string;
+  categoryName: string;
+  month: number;
+  year: number;
+  /** Sisa budget yang diproyeksikan terpakai dalam rentang forecast */
+  allowance: number;
+  walletId: string | null;
+}
+
+export interface WalletForecast {
+  walletId: string;
+  name: string;
+  currency: string;
+  startingBalance: number;
+  endingBalance: number;
+  lowestBalance: number;
+  lowestBalanceDate: Date;
+  /** Hari pertama saldo diproyeksikan negatif, null jika tidak pernah */
+  firstNegativeDate: Date | null;
+  negativeDays: number;
+  daily: Array<{ date: Date; balance: number }>;
+}
+
+export interface CashFlowForecast {
+  startDate: Date;
+  endDate: Date;
+  days: number;
+  currency: string;
+  wallets: WalletForecast[];
+  alerts: Array<{
+    walletId: string;
+    walletName: string;
+    date: Date;
+    balance: number;
+    lowestBalance: number;
+  }>;
+  events: ForecastEvent[];
+  budgets: BudgetAllowance[];
+  unassigned: { income: number; expense: number; count: number };
+}
+
+// ============================================================================
+// Schedules
+// ============================================================================
+
+/**
+ * Same day `months` later, clamped to the end of shorter months
+ */
+function addMonths(date: Date, months: number, day = date.getDate()): Date {
+  const lastDay = new Date(
+    date.getFullYear(),
+    date.getMonth() + months + 1,
+    0
+  ).getDate();
+  return new Date(
+    date.getFullYear(),
+    date.getMonth() + months,
+    Math.min(day, lastDay)
+  );
+}
+
+function startOfDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+/**
+ * Next run of a recurring schedule, following the recurring executor
+ */
+export function getNextRecurringDate(
+  date: Date,
+  frequency: RecurringFrequency,
+  dayOfMonth?: number | null
+): Date {
+  switch (frequency) {
+    case "DAILY":
+      return new Date(date.getFullYear(), date.getMonth(), date.getDate() + 1);
+    case "WEEKLY":
+      return new Date(date.getFullYear(), date.getMonth(), date.getDate() + 7);
+    case "MONTHLY":
+      return addMonths(date, 1, dayOfMonth ?? date.getDate());
+    case "YEARLY":
+      return addMonths(date, 12);
+  }
+}
+
+/**
+ * First monthly due date on or after `from`
+ */
+function getNextMonthlyDueDate(anchor: Date, from: Date): Date {
+  if (anchor >= from) return startOfDay(anchor);
+
+  const months =
+    (from.getFullYear() - anchor.getFullYear()) * 12 +
+    (from.getMonth() - anchor.getMonth());
+  const candidate = addMonths(anchor, months);
+  return candidate >= from
+    ? candidate
+    : addMonths(anchor, months + 1);
+}
+
+// ============================================================================
+// Event sources
+// ============================================================================
+
+async function getRecurringEvents(
+  db: DbClient,
+  familyId: string,
+  today: Date,
+  end: Date
+): Promise<ForecastEvent[]> {
+  const recurrings = await db.recurringTransaction.findMany({
+    where: {
+      familyId,
+      status: "ACTIVE",
+      nextDate: { lte: end },
+      // Alokasi goal (EARMARK) tidak memindahkan uang dari dompet
+      OR: [{ goalFunding: null }, { goalFunding: "WALLET_DEBIT" }],
+    },
+    select: {
+      id: true,
+      name: true,
+      amount: true,
+      type: true,
+      frequency: true,
+      dayOfMonth: true,
+      endDate: true,
+      nextDate: true,
+      categoryId: true,
+      fromWalletId: true,
+      toWalletId: true,
+    },
+  });
+
+  const events: ForecastEvent[] = [];
+  for (const recurring of recurrings) {
+    // Jadwal yang terlewat akan dijalankan executor hari ini
+    let date = recurring.nextDate < today ? today : startOfDay(recurring.nextDate);
+
+    while (date <= end && (!recurring.endDate || date <= recurring.endDate)) {
+      events.push({
+        date,
+        source: "RECURRING",
+        sourceId: recurring.id,
+        description: recurring.name,
+        type: recurring.type,
+        amount: recurring.amount,
+        // INCOME dari recurring lama tersimpan di toWallet
+        walletId:
+          recurring.type === "INCOME"
+            ? recurring.fromWalletId ?? recurring.toWalletId
+            : recurring.fromWalletId,
+        toWalletId: recurring.type === "TRANSFER" ? recurring.toWalletId : null,
+        categoryId: recurring.categoryId,
+      });
+      date = getNextRecurringDate(date, recurring.frequency, recurring.dayOfMonth);
+    }
+  }
+
+  return events;
+}
+
+async function getLiabilityEvents(
+  db: DbClient,
+  familyId: string,
+  today: Date,
+  end: Date
+): Promise<ForecastEvent[]> {
+  const liabilities = await db.liability.findMany({
+    where: { familyId, remainingAmount: { gt: 0 } },
+    select: {
+      ...creditCardSelect,
+      monthlyPayment: true,
+      dueDate: true,
+      startDate: true,
+      payments: {
+        where: { walletId: { not: null } },
+        select: { walletId: true },
+        orderBy: { paymentDate: "desc" },
+        take: 1,
+      },
+    },
+  });
+
+  const events: ForecastEvent[] = [];
+  for (const liability of liabilities) {
+    const walletId = liability.payments[0]?.walletId ?? null;
+    let remaining = liability.remainingAmount;
+    const push = (date: Date, amount: number) => {
+      events.push({
+        date,
+        source: "LIABILITY",
+        sourceId: liability.id,
+        description: `Cicilan ${liability.name}`,
+        type: "EXPENSE",
+        amount,
+        walletId,
+        toWalletId: null,
+        categoryId: null,
+      });
+      remaining = subtractMoney(remaining, amount);
+    };
+
+    let anchor = liability.dueDate ?? liability.startDate;
+
+    // Kartu kredit: tagihan berikutnya mengikuti siklus tagihan
+    if (liability.type === "CREDIT_CARD" && liability.statementDay) {
+      const due = await getCardPaymentDue(db, liability, today);
+      if (due.dueDate && due.dueDate >= today && due.minimumDue > 0) {
+        if (due.dueDate <= end) push(startOfDay(due.dueDate), due.minimumDue);
+        anchor = addMonths(due.dueDate, 1);
+      }
+    }
+
+    const monthlyPayment = liability.monthlyPayment ?? 0;
+    if (!anchor || monthlyPayment <= 0) continue;
+
+    const firstDue = getNextMonthlyDueDate(anchor, today);
+    let date = firstDue;
+    for (let i = 1; date <= end && remaining > 0; i++) {
+      push(date, Math.min(monthlyPayment, remaining));
+      date = addMonths(firstDue, i, anchor.getDate());
+    }
+  }
+
+  return events;
+}
+
+/**
+ * Wallet most often used for expenses of each (parent) category recently
+ */
+async function getCategoryWallets(
+  db: DbClient,
+  familyId: string,
+  parents: Map<string, string>,
+  today: Date
+): Promise<Map<string, string>> {
+  const usage = await db.transaction.groupBy({
+    by: ["categoryId", "fromWalletId"],
+    where: {
+      familyId,
+      type: "EXPENSE",
+      categoryId: { not: null },
+      fromWalletId: { not: null },
+      date: { gte: new Date(today.getTime() - BUDGET_WALLET_LOOKBACK_DAYS * DAY) },
+    },
+    _count: true,
+  });
+
+  const counts = new Map<string, Map<string, number>>();
+  for (const row of usage) {
+    const categoryId = parents.get(row.categoryId!) ?? row.categoryId!;
+    const wallets = counts.get(categoryId) ?? new Map<string, number>();
+    wallets.set(row.fromWalletId!, (wallets.get(row.fromWalletId!) ?? 0) + row._count);
+    counts.set(categoryId, wallets);
+  }
+
+  const result = new Map<string, string>();
+  for (const [categoryId, wallets] of counts) {
+    const [walletId] = [...wallets.entries()].sort((a, b) => b[1] - a[1])[0];
+    result.set(categoryId, walletId);
+  }
+  return result;
+}
+
+/**
+ * Remaining budget per category and month, spread evenly over the rest of
+ * the month
+ *
+ * Bulan tanpa budget memakai budget bulanan terakhir kategori tersebut.
+ * Pengeluaran recurring di kategori yang sama sudah diproyeksikan sendiri,
+ * jadi dikurangkan dari sisa budget agar tidak terhitung dua kali.
+ */
+async function getBudgetEvents(
+  db: DbClient,
+  familyId: string,
+  today: Date,
+  end: Date,
+  recurringEvents: ForecastEvent[]
+): Promise<{ events: ForecastEvent[]; allowances: BudgetAllowance[] }> {
+  const budgets = await db.budget.findMany({
+    where: {
+      familyId,
+      categoryId: { not: null },
+      month: { not: null },
+      year: { not: null },
+    },
+    select: {
+      amount: true,
+      month: true,
+      year: true,
+      categoryId: true,
+      category: { select: { name: true } },
+    },
+  });
+
+  // Budget per kategori, urut bulan (data lama menyimpan month sebagai YYYYMM)
+  const byCategory = new Map<string, Array<{ key: number; amount: number; name: string }>>();
+  for (const budget of budgets) {
+    const month = budget.month! > 12 ? budget.month! % 100 : budget.month!;
+    const list = byCategory.get(budget.categoryId!) ?? [];
+    list.push({
+      key: budget.year! * 12 + (month - 1),
+      amount: budget.amount,
+      name: budget.category?.name ?? "Tanpa kategori",
+    });
+    byCategory.set(budget.categoryId!, list);
+  }
+  if (byCategory.size === 0) return { events: [], allowances: [] };
+
+  const categoryIds = [...byCategory.keys()];
+  const [parents, spending] = await Promise.all([
+    getSubcategoryParents(db, familyId),
+    getCategorySpending(
+      db,
+      familyId,
+      {
+        start: new Date(today.getFullYear(), today.getMonth(), 1),
+        end: new Date(today.getFullYear(), today.getMonth() + 1, 0, 23, 59, 59, 999),
+      },
+      { categoryIds, rollup: true }
+    ),
+  ]);
+  const wallets = await getCategoryWallets(db, familyId, parents, today);
+
+  const recurringByKey = new Map<string, number>();
+  for (const event of recurringEvents) {
+    if (event.type !== "EXPENSE" || !event.categoryId) continue;
+    const categoryId = parents.get(event.categoryId) ?? event.categoryId;
+    const key = `${categoryId}:${event.date.getFullYear() * 12 + event.date.getMonth()}`;
+    recurringByKey.set(key, addMoney(recurringByKey.get(key) ?? 0, event.amount));
+  }
+
+  const events: ForecastEvent[] = [];
+  const allowances: BudgetAllowance[] = [];
+  const currentKey = today.getFullYear() * 12 + today.getMonth();
+  const endKey = end.getFullYear() * 12 + end.getMonth();
+
+  for (const [categoryId, list] of byCategory) {
+    list.sort((a, b) => a.key - b.key);
+
+    for (let key = currentKey; key <= endKey; key++) {
+      const budget = list.filter((item) => item.key <= key).pop();
+      if (!budget) continue;
+
+      const spent =
+        key === currentKey ? spending.get(categoryId)?.amount ?? 0 : 0;
+      const remaining = subtractMoney(
+        subtractMoney(budget.amount, spent),
+        recurringByKey.get(`${categoryId}:${key}`) ?? 0
+      );
+      if (remaining <= 0) continue;
+
+      const year = Math.floor(key / 12);
+      const month = key % 12;
+      const first = key === currentKey ? today : new Date(year, month, 1);
+      const lastDay = new Date(year, month + 1, 0);
+      const days = Math.round((lastDay.getTime() - first.getTime()) / DAY) + 1;
+      const parts = allocateMoney(remaining, new Array(days).fill(1));
+      const walletId = wallets.get(categoryId) ?? null;
+
+      let allowance = 0;
+      parts.forEach((amount, i) => {
+        const date = new Date(first.getFullYear(), first.getMonth(), first.getDate() + i);
+        if (date > end || amount <= 0) return;
+        allowance = addMoney(allowance, amount);
+        events.push({
+          date,
+          source: "BUDGET",
+          sourceId: null,
+          description: `Sisa budget ${budget.name}`,
+          type: "EXPENSE",
+          amount,
+          walletId,
+          toWalletId: null,
+          categoryId,
+        });
+      });
+
+      allowances.push({
+        categoryId,
+        categoryName: budget.name,
+        month: month + 1,
+        year,
+        allowance,
+        walletId,
+      });
+    }
+  }
+
+  return { events, allowances };
+}
+
+// ============================================================================
+// Forecast
+// ============================================================================
+
+/**
+ * Project wallet balances day by day
+ *
+ * @throws Error when a planned item refers to a wallet of another family
+ */
+export async function getCashFlowForecast(
+  db: DbClient,
+  familyId: string,
+  input: CashFlowForecastInput,
+  now: Date = new Date()
+): Promise<CashFlowForecast> {
+  const today = startOfDay(now);
+  const end = new Date(today.getFullYear(), today.getMonth(), today.getDate() + input.days - 1);
+
+  const [converter, wallets] = await Promise.all([
+    getCurrencyConverter(db, familyId),
+    db.wallet.findMany({
+      where: { familyId, isArchived: false },
+      select: { id: true, name: true, balance: true, currency: true },
+      orderBy: { name: "asc" },
+    }),
+  ]);
+  const walletById = new Map(wallets.map((wallet) => [wallet.id, wallet]));
+
+  for (const item of input.plannedItems) {
+    for (const walletId of [item.walletId, item.toWalletId]) {
+      if (walletId && !walletById.has(walletId)) {
+        throw new Error("Wallet tidak ditemukan");
+      }
+    }
+  }
+
+  const recurringEvents = await getRecurringEvents(db, familyId, today, end);
+  const liabilityEvents = await getLiabilityEvents(db, familyId, today, end);
+  const budget = input.includeBudgets
+    ? await getBudgetEvents(db, familyId, today, end, recurringEvents)
+    : { events: [], allowances: [] };
+
+  const plannedEvents: ForecastEvent[] = input.plannedItems
+    .map((item) => ({
+      date: startOfDay(new Date(item.date)),
+      source: "PLANNED" as const,
+      sourceId: null,
+      description: item.description,
+      type: item.type,
+      amount: item.amount,
+      walletId: item.walletId,
+      toWalletId: item.toWalletId ?? null,
+      categoryId: null,
+    }))
+    .map((event) => (event.date < today ? { ...event, date: today } : event))
+    .filter((event) => event.date <= end);
+
+  // Hutang & budget dicatat dalam mata uang dasar: konversi ke mata uang wallet
+  const toWalletCurrency = (event: ForecastEvent): ForecastEvent => {
+    const wallet = event.walletId ? walletById.get(event.walletId) : undefined;
+    if (!wallet || event.source === "RECURRING" || event.source === "PLANNED") {
+      return event;
+    }
+    const rate = converter.getRate(converter.baseCurrency, wallet.currency, event.date);
+    return rate === null ? event : { ...event, amount: multiplyMoney(event.amount, rate) };
+  };
+
+  const events = [
+    ...recurringEvents,
+    ...liabilityEvents,
+    ...budget.events,
+    ...plannedEvents,
+  ]
+    .map(toWalletCurrency)
+    .sort((a, b) => a.date.getTime() - b.date.getTime());
+
+  // Perubahan saldo per wallet per hari
+  const dailyDeltas = new Map<string, number[]>(
+    wallets.map((wallet) => [wallet.id, new Array(input.days).fill(0)])
+  );
+  const unassigned = { income: 0, expense: 0, count: 0 };
+
+  for (const event of events) {
+    const dayIndex = Math.round((event.date.getTime() - today.getTime()) / DAY);
+    const deltas = getWalletDeltas({
+      type: event.type,
+      amount: event.amount,
+      fromWalletId: event.walletId,
+      toWalletId: event.toWalletId,
+    });
+
+    let applied = false;
+    for (const [walletId, delta] of deltas) {
+      const days = dailyDeltas.get(walletId);
+      if (!days) continue;
+      days[dayIndex] = addMoney(days[dayIndex], delta);
+      applied = true;
+    }
+
+    if (!applied && event.type !== "TRANSFER") {
+      unassigned.count++;
+      if (event.type === "INCOME") {
+        unassigned.income = addMoney(unassigned.income, event.amount);
+      } else {
+        unassigned.expense = addMoney(unassigned.expense, event.amount);
+      }
+    }
+  }
+
+  const selected = input.walletIds
+    ? wallets.filter((wallet) => input.walletIds!.includes(wallet.id))
+    : wallets;
+
+  const walletForecasts: WalletForecast[] = selected.map((wallet) => {
+    let balance = wallet.balance;
+    let lowestBalance = wallet.balance;
+    let lowestBalanceDate = today;
+    let firstNegativeDate: Date | null = null;
+    let negativeDays = 0;
+
+    const daily = dailyDeltas.get(wallet.id)!.map((delta, i) => {
+      const date = new Date(today.getFullYear(), today.getMonth(), today.getDate() + i);
+      balance = addMoney(balance, delta);
+      if (balance < lowestBalance) {
+        lowestBalance = balance;
+        lowestBalanceDate = date;
+      }
+      if (balance < 0) {
+        negativeDays++;
+        firstNegativeDate ??= date;
+      }
+      return { date, balance };
+    });
+
+    return {
+      walletId: wallet.id,
+      name: wallet.name,
+      currency: wallet.currency,
+      startingBalance: wallet.balance,
+      endingBalance: balance,
+      lowestBalance,
+      lowestBalanceDate,
+      firstNegativeDate,
+      negativeDays,
+      daily,
+    };
+  });
+
+  const alerts = walletForecasts
+    .filter((wallet) => wallet.firstNegativeDate)
+    .map((wallet) => ({
+      walletId: wallet.walletId,
+      walletName: wallet.name,
+      date: wallet.firstNegativeDate!,
+      balance: wallet.daily.find((day) => day.balance < 0)!.balance,
+      lowestBalance: wallet.lowestBalance,
+    }))
+    .sort((a, b) => a.date.getTime() - b.date.getTime());
+
+  return {
+    startDate: today,
+    endDate: end,
+    days: input.days,
+    currency: converter.baseCurrency,
+    wallets: walletForecasts,
+    alerts,
+    // Pengeluaran budget harian diringkas di `budgets`
+    events: events.filter((event) => event.source !== "BUDGET"),
+    budgets: budget.allowances,
+    unassigned,
+  };
+}
+
@@ -0,0 +1,102 @@
+/**
+ * Category helpers: API shape, hierarchy and merge validation
+ *
+ * Kategori mendukung satu tingkat subkategori (misal: Transport > Bensin).
+ * Laporan dan budget kategori induk ikut menghitung transaksi subkategorinya.
+ */
+
+import { z } from "zod";
+import { TransactionType } from "@prisma/client";
+import { DbClient } from "./prisma";
+
+/**
+ * Fields returned by the category API
+ */
+export const categorySelect = {
+  id: true,
+  name: true,
+  description: true,
+  type: true,
+  icon: true,
+  color: true,
+  parentId: true,
+  isArchived: true,
+  archivedAt: true,
+} as const;
+
+export const mergeCategorySchema = z.object({
+  targetCategoryId: z.string().min(1, "Kategori tujuan harus dipilih"),
+});
+
+export type MergeCategoryInput = z.infer<typeof mergeCategorySchema>;
+
+/**
+ * Validate the parent of a (new or existing) category
+ *
+ * @param categoryId - Category being updated; omit when creating
+ * @throws Error with a user-facing message
+ */
+export async function validateCategoryParent(
+  db: DbClient,
+  familyId: string,
+  data: { categoryId?: string; type: TransactionType; parentId: string }
+): Promise<void> {
+  if (data.parentId === data.categoryId) {
+    throw new Error("Kategori tidak dapat menjadi induk dirinya sendiri");
+  }
+
+  const parent = await db.category.findFirst({
+    where: { id: data.parentId, familyId },
+    select: { type: true, parentId: true, isArchived: true },
+  });
+
+  if (!parent) {
+    throw new Error("Kategori induk tidak ditemukan");
+  }
+
+  if (parent.parentId) {
+    throw new Error("Subkategori tidak dapat memiliki subkategori lagi");
+  }
+
+  if (parent.isArchived) {
+    throw new Error("Kategori induk sudah diarsipkan");
+  }
+
+  if (parent.type !== data.type) {
+    throw new Error(`Kategori induk untuk ${parent.type}, bukan ${data.type}`);
+  }
+
+  if (data.categoryId) {
+    const childCount = await db.category.count({
+      where: { parentId: data.categoryId },
+    });
+    if (childCount > 0) {
+      throw new Error(
+        "Kategori yang memiliki subkategori tidak dapat dijadikan subkategori"
+      );
+    }
+  }
+}
+
+/**
+ * Map of subcategory id to its parent id
+ *
+ * @param parentIds - Only subcategories of these parents; omit for all
+ */
+export async function getSubcategoryParents(
+  db: DbClient,
+  familyId: string,
+  parentIds?: string[]
+): Promise<Map<string, string>> {
+  const children = await db.category.findMany({
+    where: {
+      familyId,
+      parentId: parentIds ? { in: parentIds } : { not: null },
+    },
+    select: { id: true, parentId: true },
+  });
+
+  return new Map(
+    children.map((child) => [child.id, child.parentId as string])
+  );
+}
@@ -0,0 +1,411 @@
+/**
+ * Auto-categorization rules engine
+ *
+ * Aturan dievaluasi berdasarkan `priority` (kecil → besar); aturan pertama
+ * yang cocok menentukan kategori, catatan dan tag transaksi.
+ */
+
+import { z } from "zod";
+import { TransactionType } from "@prisma/client";
+import { DbClient } from "./prisma";
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+const ruleFields = {
+  name: z
+    .string()
+    .min(1, "Nama aturan harus diisi")
+    .max(100, "Nama aturan maksimal 100 karakter")
+    .trim(),
+  enabled: z.boolean(),
+  priority: z.number().int().min(0).max(1000),
+  transactionType: z.enum(["INCOME", "EXPENSE", "TRANSFER"]).nullable(),
+  descriptionContains: z.string().min(1).max(200).nullable(),
+  descriptionRegex: z
+    .string()
+    .min(1)
+    .max(200)
+    .refine((value) => compileRuleRegex(value) !== null, {
+      message:
+        "Regex tidak valid atau berisiko lambat (hindari quantifier bertingkat seperti (a+)+)",
+    })
+    .nullable(),
+  minAmount: z.number().nonnegative("Jumlah minimal tidak boleh negatif").nullable(),
+  maxAmount: z.number().positive("Jumlah maksimal harus lebih dari 0").nullable(),
+  walletId: z.string().min(1).nullable(),
+  memberId: z.string().min(1).nullable(),
+  categoryId: z.string().min(1).nullable(),
+  notes: z.string().max(1000, "Catatan maksimal 1000 karakter").nullable(),
+  tags: z.array(z.string().min(1).max(50)).max(20, "Maksimal 20 tag"),
+};
+
+const amountRangeValid = (data: {
+  minAmount?: number | null;
+  maxAmount?: number | null;
+}) =>
+  data.minAmount == null ||
+  data.maxAmount == null ||
+  data.minAmount <= data.maxAmount;
+
+const amountRangeError = {
+  message: "Jumlah minimal harus lebih kecil dari jumlah maksimal",
+  path: ["maxAmount"],
+};
+
+export const createRuleSchema = z
+  .object({
+    ...ruleFields,
+    enabled: ruleFields.enabled.default(true),
+    priority: ruleFields.priority.default(0),
+    transactionType: ruleFields.transactionType.optional(),
+    descriptionContains: ruleFields.descriptionContains.optional(),
+    descriptionRegex: ruleFields.descriptionRegex.optional(),
+    minAmount: ruleFields.minAmount.optional(),
+    maxAmount: ruleFields.maxAmount.optional(),
+    walletId: ruleFields.walletId.optional(),
+    memberId: ruleFields.memberId.optional(),
+    categoryId: ruleFields.categoryId.optional(),
+    notes: ruleFields.notes.optional(),
+    tags: ruleFields.tags.default([]),
+  })
+  .refine(amountRangeValid, amountRangeError)
+  .refine(
+    (data) =>
+      data.descriptionContains ||
+      data.descriptionRegex ||
+      data.minAmount != null ||
+      data.maxAmount != null ||
+      data.walletId ||
+      data.memberId,
+    { message: "Aturan harus memiliki minimal satu kondisi" }
+  )
+  .refine(
+    (data) => data.categoryId || data.notes || data.tags.length > 0,
+    { message: "Aturan harus mengisi kategori, catatan, atau tag" }
+  );
+
+export const updateRuleSchema = z
+  .object(ruleFields)
+  .partial()
+  .refine(amountRangeValid, amountRangeError);
+
+/**
+ * Relations returned by the rules API
+ */
+export const ruleInclude = {
+  category: { select: { id: true, name: true, icon: true, type: true } },
+  wallet: { select: { id: true, name: true } },
+  member: { select: { id: true, name: true } },
+} as const;
+
+export type CreateRuleInput = z.infer<typeof createRuleSchema>;
+export type UpdateRuleInput = z.infer<typeof updateRuleSchema>;
+
+/**
+ * Verify that wallet, member and category referenced by a rule belong to
+ * the family, and that the category type fits the rule's transaction type
+ *
+ * @throws Error with a user-facing message
+ */
+export async function validateRuleReferences(
+  db: DbClient,
+  familyId: string,
+  data: {
+    walletId?: string | null;
+    memberId?: string | null;
+    categoryId?: string | null;
+    transactionType?: TransactionType | null;
+  }
+): Promise<void> {
+  if (data.walletId) {
+    const wallet = await db.wallet.findFirst({
+      where: { id: data.walletId, familyId },
+      select: { id: true },
+    });
+    if (!wallet) throw new Error("Wallet tidak ditemukan");
+  }
+
+  if (data.memberId) {
+    const member = await db.user.findFirst({
+      where: { id: data.memberId, familyId },
+      select: { id: true },
+    });
+    if (!member) throw new Error("Anggota keluarga tidak ditemukan");
+  }
+
+  if (data.categoryId) {
+    const category = await db.category.findFirst({
+      where: { id: data.categoryId, familyId },
+      select: { type: true },
+    });
+    if (!category) throw new Error("Kategori tidak ditemukan");
+
+    if (
+      data.transactionType &&
+      data.transactionType !== "TRANSFER" &&
+      category.type !== data.transactionType
+    ) {
+      throw new Error(
+        `Kategori ini untuk ${category.type}, bukan ${data.transactionType}`
+      );
+    }
+  }
+}
+
+// ============================================================================
+// Engine
+// ============================================================================
+
+/**
+ * Rule shape as loaded by getActiveRules
+ */
+export interface CategorizationRuleWithCategory {
+  id: string;
+  name: string;
+  transactionType: TransactionType | null;
+  descriptionContains: string | null;
+  descriptionRegex: string | null;
+  minAmount: number | null;
+  maxAmount: number | null;
+  walletId: string | null;
+  memberId: string | null;
+  categoryId: string | null;
+  notes: string | null;
+  tags: string[];
+  category: { type: TransactionType } | null;
+}
+
+/**
+ * Transaction fields a rule can match on and fill in
+ */
+export interface RuleSubject {
+  type: TransactionType;
+  amount: number;
+  description: string | null;
+  fromWalletId: string | null;
+  toWalletId: string | null;
+  userId: string;
+  categoryId?: string | null;
+  notes?: string | null;
+  tags?: string[];
+}
+
+export interface RuleResult {
+  categoryId: string | null;
+  notes: string | null;
+  tags: string[];
+  ruleId: string | null;
+}
+
+const REPEAT_QUANTIFIER = /^(?:[*+]|\{\d+,\d*\})/;
+
+/**
+ * Whether a rule regex is free of catastrophic backtracking
+ *
+ * Regex dijalankan sinkron di setiap transaksi, impor dan recurring, jadi
+ * pola yang bisa backtracking eksponensial ditolak: grup berulang yang di
+ * dalamnya ada quantifier berulang atau alternasi (mis. `(a+)+`, `(a|aa)*`)
+ * dan backreference.
+ */
+export function isSafeRuleRegex(pattern: string): boolean {
+  const groups = [{ repeats: false, alternates: false }];
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    const group = groups[groups.length - 1];
+
+    if (char === "\\") {
+      if (/[1-9k]/.test(pattern[i + 1] ?? "")) return false;
+      i += 1;
+    } else if (char === "[") {
+      // Lewati character class
+      for (i += 1; i < pattern.length && pattern[i] !== "]"; i++) {
+        if (pattern[i] === "\\") i += 1;
+      }
+    } else if (char === "(") {
+      groups.push({ repeats: false, alternates: false });
+    } else if (char === ")") {
+      if (groups.length === 1) return false;
+      groups.pop();
+      const repeated = REPEAT_QUANTIFIER.test(pattern.slice(i + 1));
+      if (repeated && (group.repeats || group.alternates)) return false;
+      if (repeated || group.repeats) {
+        groups[groups.length - 1].repeats = true;
+      }
+    } else if (char === "|") {
+      group.alternates = true;
+    } else if (REPEAT_QUANTIFIER.test(pattern.slice(i))) {
+      group.repeats = true;
+    }
+  }
+
+  return groups.length === 1;
+}
+
+/**
+ * Compile a rule regex, returning null for invalid or unsafe patterns
+ */
+export function compileRuleRegex(pattern: string): RegExp | null {
+  if (!isSafeRuleRegex(pattern)) {
+    return null;
+  }
+
+  try {
+    return new RegExp(pattern, "i");
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Normalize tags: trim, lowercase, spaces to dashes, unique
+ */
+export function normalizeTags(tags: string[]): string[] {
+  const normalized = tags
+    .map((tag) => tag.trim().toLowerCase().replace(/\s+/g, "-"))
+    .filter((tag) => tag.length > 0);
+  return [...new Set(normalized)];
+}
+
+/**
+ * Check whether a rule matches a transaction
+ */
+export function ruleMatches(
+  rule: CategorizationRuleWithCategory,
+  subject: RuleSubject
+): boolean {
+  if (rule.transactionType && rule.transactionType !== subject.type) {
+    return false;
+  }
+
+  const description = subject.description ?? "";
+
+  if (
+    rule.descriptionContains &&
+    !description.toLowerCase().includes(rule.descriptionContains.toLowerCase())
+  ) {
+    return false;
+  }
+
+  if (rule.descriptionRegex) {
+    const regex = compileRuleRegex(rule.descriptionRegex);
+    if (!regex || !regex.test(description)) {
+      return false;
+    }
+  }
+
+  if (rule.minAmount !== null && subject.amount < rule.minAmount) {
+    return false;
+  }
+
+  if (rule.maxAmount !== null && subject.amount > rule.maxAmount) {
+    return false;
+  }
+
+  if (
+    rule.walletId &&
+    rule.walletId !== subject.fromWalletId &&
+    rule.walletId !== subject.toWalletId
+  ) {
+    return false;
+  }
+
+  if (rule.memberId && rule.memberId !== subject.userId) {
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Apply the first matching rule to a transaction
+ *
+ * @param overwrite - Replace an existing category/notes instead of only
+ * filling empty ones (used when re-applying a rule to history)
+ */
+export function applyRules(
+  rules: CategorizationRuleWithCategory[],
+  subject: RuleSubject,
+  overwrite = false
+): RuleResult {
+  const result: RuleResult = {
+    categoryId: subject.categoryId ?? null,
+    notes: subject.notes ?? null,
+    tags: subject.tags ?? [],
+    ruleId: null,
+  };
+
+  const rule = rules.find((candidate) => ruleMatches(candidate, subject));
+  if (!rule) {
+    return result;
+  }
+
+  result.ruleId = rule.id;
+
+  // Kategori hanya dipasang jika tipenya sesuai dengan transaksi
+  if (
+    rule.categoryId &&
+    (overwrite || !result.categoryId) &&
+    (subject.type === "TRANSFER" || rule.category?.type === subject.type)
+  ) {
+    result.categoryId = rule.categoryId;
+  }
+
+  if (rule.notes && (overwrite || !result.notes)) {
+    result.notes = rule.notes;
+  }
+
+  result.tags = normalizeTags([...result.tags, ...rule.tags]);
+
+  return result;
+}
+
+/**
+ * Load enabled rules of a family in evaluation order
+ */
+export async function getActiveRules(
+  db: DbClient,
+  familyId: string
+): Promise<CategorizationRuleWithCategory[]> {
+  return db.categorizationRule.findMany({
+    where: { familyId, enabled: true },
+    include: { category: { select: { type: true } } },
+    orderBy: [{ priority: "asc" }, { createdAt: "asc" }],
+  });
+}
+
+/**
+ * Record that rules matched, for the statistics shown in the rules list
+ */
+export async function recordRuleMatches(
+  db: DbClient,
+  ruleIds: Array<string | null>
+): Promise<void> {
+  const counts = new Map<string, number>();
+  for (const id of ruleIds) {
+    if (id) counts.set(id, (counts.get(id) ?? 0) + 1);
+  }
+
+  for (const [id, count] of counts) {
+    await db.categorizationRule.update({
+      where: { id },
+      data: { matchCount: { increment: count }, lastMatchedAt: new Date() },
+    });
+  }
+}
+
+/**
+ * Load rules, apply them to one transaction and record the match
+ */
+export async function categorizeTransaction(
+  db: DbClient,
+  familyId: string,
+  subject: RuleSubject
+): Promise<RuleResult> {
+  const rules = await getActiveRules(db, familyId);
+  const result = applyRules(rules, subject);
+  await recordRuleMatches(db, [result.ruleId]);
+  return result;
+}
@@ -0,0 +1,457 @@
+/**
+ * Credit card helpers
+ *
+ * Hutang bertipe CREDIT_CARD punya siklus tagihan: transaksi dicatat ke
+ * kartu (Transaction.liabilityId) dan masuk ke tagihan yang ditutup pada
+ * `statementDay` berikutnya. Saldo kartu = Liability.remainingAmount;
+ * pembelian menambah saldo, refund dan pembayaran menguranginya.
+ */
+
+import { z } from "zod";
+import { TransactionType } from "@prisma/client";
+import { DbClient } from "./prisma";
+import { addMoney, multiplyMoney, roundMoney, subtractMoney, sumMoney } from "./money";
+
+/**
+ * Default minimum payment rule (ketentuan umum kartu kredit di Indonesia:
+ * 5% dari tagihan, minimal Rp 50.000)
+ */
+export const DEFAULT_MINIMUM_PAYMENT_PERCENT = 5;
+export const DEFAULT_MINIMUM_PAYMENT_AMOUNT = 50000;
+
+/**
+ * Utilization thresholds (%) for reminders
+ */
+export const UTILIZATION_WARNING = 30;
+export const UTILIZATION_HIGH = 80;
+
+const dayOfMonth = (label: string) =>
+  z
+    .number({ invalid_type_error: `${label} harus berupa angka` })
+    .int(`${label} harus bilangan bulat`)
+    .min(1, `${label} minimal 1`)
+    .max(31, `${label} maksimal 31`);
+
+/**
+ * Credit card fields accepted by liability create/update
+ */
+export const creditCardSettingsSchema = z.object({
+  statementDay: dayOfMonth("Tanggal cetak tagihan").optional().nullable(),
+  paymentDueDay: dayOfMonth("Tanggal jatuh tempo").optional().nullable(),
+  creditLimit: z
+    .number()
+    .positive("Limit kartu harus lebih dari 0")
+    .max(999999999999, "Limit kartu terlalu besar")
+    .optional()
+    .nullable(),
+  minimumPaymentPercent: z
+    .number()
+    .positive("Persentase pembayaran minimum harus lebih dari 0")
+    .max(100, "Persentase pembayaran minimum maksimal 100%")
+    .optional()
+    .nullable(),
+  minimumPaymentAmount: z
+    .number()
+    .nonnegative("Pembayaran minimum tidak boleh negatif")
+    .max(999999999999, "Pembayaran minimum terlalu besar")
+    .optional()
+    .nullable(),
+});
+
+export type CreditCardSettings = z.infer<typeof creditCardSettingsSchema>;
+
+/**
+ * Whether any credit card field is being set (bukan null/undefined)
+ */
+export function hasCreditCardSettings(data: CreditCardSettings): boolean {
+  return Object.keys(creditCardSettingsSchema.shape).some(
+    (key) => data[key as keyof CreditCardSettings] != null
+  );
+}
+
+export interface CreditCard {
+  id: string;
+  name: string;
+  remainingAmount: number;
+  statementDay: number | null;
+  paymentDueDay: number | null;
+  creditLimit: number | null;
+  minimumPaymentPercent: number | null;
+  minimumPaymentAmount: number | null;
+}
+
+export const creditCardSelect = {
+  id: true,
+  name: true,
+  type: true,
+  familyId: true,
+  amount: true,
+  remainingAmount: true,
+  statementDay: true,
+  paymentDueDay: true,
+  creditLimit: true,
+  minimumPaymentPercent: true,
+  minimumPaymentAmount: true,
+} as const;
+
+// ============================================================================
+// Charges
+// ============================================================================
+
+/**
+ * Card balance change caused by a transaction charged to a card
+ *
+ * @param sign - 1 to apply the transaction, -1 to reverse it
+ */
+export function getCardChargeDelta(
+  entry: { type: TransactionType; amount: number; liabilityId: string | null },
+  sign: 1 | -1 = 1
+): number {
+  if (!entry.liabilityId) return 0;
+  if (entry.type === "EXPENSE") return entry.amount * sign;
+  if (entry.type === "INCOME") return -entry.amount * sign;
+  return 0;
+}
+
+/**
+ * Apply a charge (positive) or credit (negative) to a credit card balance
+ * inside a database transaction
+ *
+ * Saldo diubah dengan `increment` agar transaksi bersamaan pada kartu yang
+ * sama tidak saling menimpa; limit diperiksa terhadap saldo hasil update
+ * (melempar error membatalkan update). `amount` ikut dinaikkan jika saldo
+ * melewatinya, agar sisa hutang tidak pernah lebih besar dari jumlah
+ * hutang. Saldo tidak dijepit di 0: refund atau pembayaran yang melebihi
+ * saldo menjadi saldo kredit (negatif), sehingga membalik transaksi dengan
+ * delta sebaliknya selalu mengembalikan saldo semula.
+ *
+ * @throws Error if the card is missing, belongs to another family, is not
+ * a credit card, or the charge exceeds the credit limit
+ */
+export async function applyCardCharge(
+  tx: DbClient,
+  familyId: string,
+  liabilityId: string,
+  delta: number
+): Promise<{ liabilityId: string; oldBalance: number; newBalance: number }> {
+  const card = await tx.liability.findUnique({
+    where: { id: liabilityId },
+    select: creditCardSelect,
+  });
+
+  if (!card) {
+    throw new Error("Kartu kredit tidak ditemukan");
+  }
+
+  if (card.familyId !== familyId) {
+    throw new Error("Kartu kredit tidak milik keluarga Anda");
+  }
+
+  if (card.type !== "CREDIT_CARD") {
+    throw new Error("Hutang ini bukan kartu kredit");
+  }
+
+  const updated = await tx.liability.update({
+    where: { id: liabilityId },
+    data: { remainingAmount: { increment: delta } },
+    select: { amount: true, remainingAmount: true },
+  });
+  const newBalance = updated.remainingAmount;
+
+  if (delta > 0 && card.creditLimit !== null && newBalance > card.creditLimit) {
+    throw new Error("Limit kartu kredit tidak mencukupi");
+  }
+
+  if (newBalance > updated.amount) {
+    await tx.liability.update({
+      where: { id: liabilityId },
+      data: { amount: newBalance },
+    });
+  }
+
+  return {
+    liabilityId,
+    oldBalance: subtractMoney(newBalance, delta),
+    newBalance,
+  };
+}
+
+// ============================================================================
+// Statement cycle
+// ============================================================================
+
+/**
+ * Closing moment of the statement in a given month (tanggal cetak dijepit ke
+ * akhir bulan untuk bulan yang lebih pendek)
+ */
+function getClosingDate(year: number, month: number, statementDay: number): Date {
+  const lastDay = new Date(year, month + 1, 0).getDate();
+  return new Date(year, month, Math.min(statementDay, lastDay), 23, 59, 59, 999);
+}
+
+/**
+ * Statement period `cycle` cycles back from `date`
+ *
+ * cycle 0 = siklus berjalan (belum dicetak), 1 = tagihan terakhir, dst.
+ * Jatuh tempo jatuh di bulan yang sama jika `paymentDueDay` setelah tanggal
+ * cetak, jika tidak di bulan berikutnya.
+ */
+export function getStatementPeriod(
+  card: Pick<CreditCard, "statementDay" | "paymentDueDay">,
+  cycle: number = 1,
+  date: Date = new Date()
+): { start: Date; end: Date; dueDate: Date | null } {
+  if (!card.statementDay) {
+    throw new Error("Tanggal cetak tagihan belum diatur");
+  }
+
+  // Tanggal cetak pertama yang >= date (penutupan siklus berjalan)
+  let year = date.getFullYear();
+  let month = date.getMonth();
+  if (date > getClosingDate(year, month, card.statementDay)) {
+    month += 1;
+  }
+  month -= cycle;
+  year += Math.floor(month / 12);
+  month = ((month % 12) + 12) % 12;
+
+  const end = getClosingDate(year, month, card.statementDay);
+  const previousEnd = getClosingDate(year, month - 1, card.statementDay);
+  const start = new Date(previousEnd.getTime() + 1);
+
+  let dueDate: Date | null = null;
+  if (card.paymentDueDay) {
+    const dueMonth = card.paymentDueDay > card.statementDay ? month : month + 1;
+    const lastDay = new Date(year, dueMonth + 1, 0).getDate();
+    dueDate = new Date(year, dueMonth, Math.min(card.paymentDueDay, lastDay));
+  }
+
+  return { start, end, dueDate };
+}
+
+/**
+ * Minimum payment for a closing balance
+ */
+export function getMinimumDue(
+  card: Pick<CreditCard, "minimumPaymentPercent" | "minimumPaymentAmount">,
+  closingBalance: number
+): number {
+  if (closingBalance <= 0) return 0;
+
+  const percent = card.minimumPaymentPercent ?? DEFAULT_MINIMUM_PAYMENT_PERCENT;
+  const floor = card.minimumPaymentAmount ?? DEFAULT_MINIMUM_PAYMENT_AMOUNT;
+
+  return Math.min(
+    closingBalance,
+    Math.max(multiplyMoney(closingBalance, percent / 100), floor)
+  );
+}
+
+/**
+ * Credit limit usage in percent (null when the card has no limit)
+ */
+export function getUtilization(
+  card: Pick<CreditCard, "remainingAmount" | "creditLimit">
+): number | null {
+  if (!card.creditLimit) return null;
+  // Saldo kredit (negatif) berarti limit belum terpakai
+  return Math.max(
+    0,
+    roundMoney((card.remainingAmount / card.creditLimit) * 100)
+  );
+}
+
+export interface CardStatement {
+  liabilityId: string;
+  name: string;
+  cycle: number;
+  periodStart: Date;
+  periodEnd: Date;
+  dueDate: Date | null;
+  isClosed: boolean;
+  openingBalance: number;
+  purchases: number;
+  credits: number;
+  payments: number;
+  closingBalance: number;
+  minimumDue: number;
+  creditLimit: number | null;
+  availableCredit: number | null;
+  transactions: Array<{
+    id: string;
+    type: TransactionType;
+    amount: number;
+    description: string | null;
+    date: Date;
+    categoryId: string | null;
+  }>;
+  paymentHistory: Array<{
+    id: string;
+    amount: number;
+    principalApplied: number;
+    paymentDate: Date;
+    notes: string | null;
+  }>;
+}
+
+/**
+ * Build the statement of a card for a cycle
+ *
+ * Saldo dihitung mundur dari saldo kartu saat ini: saldo akhir periode =
+ * saldo sekarang - pembelian setelah periode + refund & pembayaran setelah
+ * periode. Dengan begitu saldo awal kartu (sebelum ada transaksi) tetap
+ * terhitung. Pembayaran dihitung dari pokok yang benar-benar mengurangi
+ * saldo (`principalApplied`), bukan jumlah bayarnya.
+ */
+export async function getCardStatement(
+  db: DbClient,
+  card: CreditCard,
+  cycle: number = 1,
+  date: Date = new Date()
+): Promise<CardStatement> {
+  const period = getStatementPeriod(card, cycle, date);
+
+  const [charges, payments] = await Promise.all([
+    db.transaction.findMany({
+      where: {
+        liabilityId: card.id,
+        type: { in: ["EXPENSE", "INCOME"] },
+        date: { gte: period.start },
+      },
+      select: {
+        id: true,
+        type: true,
+        amount: true,
+        description: true,
+        date: true,
+        categoryId: true,
+      },
+      orderBy: { date: "asc" },
+    }),
+    db.liabilityPayment.findMany({
+      where: { liabilityId: card.id, paymentDate: { gte: period.start } },
+      select: {
+        id: true,
+        amount: true,
+        principalApplied: true,
+        paymentDate: true,
+        notes: true,
+      },
+      orderBy: { paymentDate: "asc" },
+    }),
+  ]);
+
+  const inPeriod = (value: Date) => value <= period.end;
+  const periodCharges = charges.filter((charge) => inPeriod(charge.date));
+  const periodPayments = payments.filter((payment) =>
+    inPeriod(payment.paymentDate)
+  );
+
+  // Efek bersih transaksi setelah periode (untuk menghitung mundur)
+  const laterCharges = sumMoney(
+    charges.filter((charge) => !inPeriod(charge.date)),
+    (charge) => getCardChargeDelta({ ...charge, liabilityId: card.id })
+  );
+  const laterPayments = sumMoney(
+    payments.filter((payment) => !inPeriod(payment.paymentDate)),
+    (payment) => payment.principalApplied
+  );
+
+  const purchases = sumMoney(
+    periodCharges.filter((charge) => charge.type === "EXPENSE"),
+    (charge) => charge.amount
+  );
+  const credits = sumMoney(
+    periodCharges.filter((charge) => charge.type === "INCOME"),
+    (charge) => charge.amount
+  );
+  const paid = sumMoney(
+    periodPayments,
+    (payment) => payment.principalApplied
+  );
+
+  const closingBalance = addMoney(
+    subtractMoney(card.remainingAmount, laterCharges),
+    laterPayments
+  );
+  const openingBalance = addMoney(
+    subtractMoney(closingBalance, purchases),
+    credits,
+    paid
+  );
+
+  return {
+    liabilityId: card.id,
+    name: card.name,
+    cycle,
+    periodStart: period.start,
+    periodEnd: period.end,
+    dueDate: period.dueDate,
+    isClosed: period.end < date,
+    openingBalance,
+    purchases,
+    credits,
+    payments: paid,
+    closingBalance,
+    minimumDue: getMinimumDue(card, closingBalance),
+    creditLimit: card.creditLimit,
+    availableCredit:
+      card.creditLimit === null
+        ? null
+        : Math.max(0, subtractMoney(card.creditLimit, card.remainingAmount)),
+    transactions: periodCharges,
+    paymentHistory: periodPayments,
+  };
+}
+
+/**
+ * Upcoming payment of a card for reminders
+ *
+ * Selama tagihan terakhir belum lewat jatuh tempo, atau pembayaran minimumnya
+ * belum terpenuhi, tagihan terakhir yang diingatkan. Setelah itu yang
+ * diingatkan adalah tagihan siklus berjalan.
+ */
+export async function getCardPaymentDue(
+  db: DbClient,
+  card: CreditCard,
+  date: Date = new Date()
+): Promise<{
+  dueDate: Date | null;
+  statementBalance: number;
+  minimumDue: number;
+  statement: CardStatement;
+}> {
+  const [lastStatement, currentCycle] = await Promise.all([
+    getCardStatement(db, card, 1, date),
+    getCardStatement(db, card, 0, date),
+  ]);
+
+  // Pembayaran sejak tagihan terakhir dicetak
+  const paidSince = currentCycle.payments;
+  const minimumOutstanding = Math.max(
+    0,
+    subtractMoney(lastStatement.minimumDue, paidSince)
+  );
+
+  if (
+    lastStatement.dueDate &&
+    (date <= lastStatement.dueDate || minimumOutstanding > 0)
+  ) {
+    return {
+      dueDate: lastStatement.dueDate,
+      statementBalance: Math.max(
+        0,
+        subtractMoney(lastStatement.closingBalance, paidSince)
+      ),
+      minimumDue: minimumOutstanding,
+      statement: lastStatement,
+    };
+  }
+
+  return {
+    dueDate: currentCycle.dueDate,
+    statementBalance: currentCycle.closingBalance,
+    minimumDue: currentCycle.minimumDue,
+    statement: currentCycle,
+  };
+}
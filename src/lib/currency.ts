@@ -0,0 +1,280 @@
+/**
+ * Multi-currency helpers
+ *
+ * Kurs dikelola sendiri per keluarga (tabel ExchangeRate, input manual atau
+ * import CSV). Laporan dikonversi ke mata uang dasar keluarga
+ * (`Family.currency`) memakai kurs terakhir yang berlaku pada tanggal terkait.
+ */
+
+import { z } from "zod";
+import { Prisma } from "@prisma/client";
+import { DbClient } from "./prisma";
+import { splitCsv } from "./statement-import";
+import { addMoney, multiplyMoney } from "./money";
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+export const currencyCodeSchema = z
+  .string()
+  .trim()
+  .toUpperCase()
+  .regex(/^[A-Z]{3}$/, "Kode mata uang harus 3 huruf (ISO 4217)");
+
+export const exchangeRateSchema = z
+  .object({
+    fromCurrency: currencyCodeSchema,
+    toCurrency: currencyCodeSchema,
+    rate: z
+      .number()
+      .positive("Kurs harus lebih dari 0")
+      .max(1000000000, "Kurs terlalu besar"),
+    date: z
+      .string()
+      .datetime({ message: "Format tanggal tidak valid" })
+      .or(z.date()),
+  })
+  .refine((data) => data.fromCurrency !== data.toCurrency, {
+    message: "Mata uang asal dan tujuan tidak boleh sama",
+    path: ["toCurrency"],
+  });
+
+export type ExchangeRateInput = z.infer<typeof exchangeRateSchema>;
+
+// ============================================================================
+// Conversion
+// ============================================================================
+
+interface RatePoint {
+  date: Date;
+  rate: number;
+}
+
+/**
+ * Converts amounts into the family base currency
+ */
+export interface CurrencyConverter {
+  baseCurrency: string;
+  /**
+   * Convert an amount to the base currency using the rate effective on
+   * `date` (default: now). Without a known rate the amount is returned
+   * unchanged and the currency is added to `missingCurrencies`.
+   */
+  toBase(amount: number, currency: string, date?: Date): number;
+  /**
+   * Rate for 1 `from` in `to`, or null when no rate is known
+   */
+  getRate(from: string, to: string, date?: Date): number | null;
+  missingCurrencies: Set<string>;
+}
+
+/**
+ * Find the rate effective on a date: the latest point on or before the
+ * date, or the earliest point when the date precedes all history
+ */
+function findRatePoint(points: RatePoint[], date: Date): number {
+  let effective = points[0];
+  for (const point of points) {
+    if (point.date > date) break;
+    effective = point;
+  }
+  return effective.rate;
+}
+
+/**
+ * Build a converter from already loaded rates (sorted by date ascending)
+ */
+export function createCurrencyConverter(
+  baseCurrency: string,
+  rates: Array<{
+    fromCurrency: string;
+    toCurrency: string;
+    rate: number;
+    date: Date;
+  }>
+): CurrencyConverter {
+  const pairs = new Map<string, RatePoint[]>();
+  for (const rate of rates) {
+    const key = `${rate.fromCurrency}/${rate.toCurrency}`;
+    const points = pairs.get(key) ?? [];
+    points.push({ date: rate.date, rate: rate.rate });
+    pairs.set(key, points);
+  }
+
+  const getRate = (from: string, to: string, date = new Date()) => {
+    if (from === to) return 1;
+
+    const direct = pairs.get(`${from}/${to}`);
+    if (direct) return findRatePoint(direct, date);
+
+    const inverse = pairs.get(`${to}/${from}`);
+    if (inverse) return 1 / findRatePoint(inverse, date);
+
+    return null;
+  };
+
+  const missingCurrencies = new Set<string>();
+
+  return {
+    baseCurrency,
+    getRate,
+    missingCurrencies,
+    toBase(amount, currency, date) {
+      const rate = getRate(currency, baseCurrency, date);
+      if (rate === null) {
+        missingCurrencies.add(currency);
+        return amount;
+      }
+      return multiplyMoney(amount, rate);
+    },
+  };
+}
+
+/**
+ * Load the family base currency and rate history into a converter
+ */
+export async function getCurrencyConverter(
+  db: DbClient,
+  familyId: string
+): Promise<CurrencyConverter> {
+  const [family, rates] = await Promise.all([
+    db.family.findUnique({
+      where: { id: familyId },
+      select: { currency: true },
+    }),
+    db.exchangeRate.findMany({
+      where: { familyId },
+      select: { fromCurrency: true, toCurrency: true, rate: true, date: true },
+      orderBy: { date: "asc" },
+    }),
+  ]);
+
+  return createCurrencyConverter(family?.currency ?? "IDR", rates);
+}
+
+/**
+ * Reference date for converting aggregated amounts of a period: the end of
+ * the period, or today when the period is still running
+ */
+export function getConversionDate(periodEnd: Date): Date {
+  const now = new Date();
+  return periodEnd > now ? now : periodEnd;
+}
+
+/**
+ * Sum transaction amounts in the base currency
+ *
+ * Dikelompokkan per mata uang lalu dikonversi dengan kurs pada `date`.
+ */
+export async function sumTransactionsInBase(
+  db: DbClient,
+  converter: CurrencyConverter,
+  where: Prisma.TransactionWhereInput,
+  date?: Date
+): Promise<{ amount: number; count: number }> {
+  const groups = await db.transaction.groupBy({
+    by: ["currency"],
+    where,
+    _sum: { amount: true },
+    _count: true,
+  });
+
+  return groups.reduce(
+    (total, group) => ({
+      amount: addMoney(
+        total.amount,
+        converter.toBase(group._sum.amount ?? 0, group.currency, date)
+      ),
+      count: total.count + group._count,
+    }),
+    { amount: 0, count: 0 }
+  );
+}
+
+/**
+ * Currency of a new transaction: the wallet currency, falling back to the
+ * family base currency when there is no wallet
+ */
+export async function resolveTransactionCurrency(
+  db: DbClient,
+  familyId: string,
+  walletId: string | null | undefined
+): Promise<string> {
+  if (walletId) {
+    const wallet = await db.wallet.findUnique({
+      where: { id: walletId },
+      select: { currency: true },
+    });
+    if (wallet) return wallet.currency;
+  }
+
+  const family = await db.family.findUnique({
+    where: { id: familyId },
+    select: { currency: true },
+  });
+  return family?.currency ?? "IDR";
+}
+
+// ============================================================================
+// CSV import
+// ============================================================================
+
+/**
+ * Parse an exchange rate CSV
+ *
+ * Format: header `date,from,to,rate` (urutan kolom bebas, delimiter `,` atau
+ * `;`), tanggal `YYYY-MM-DD`, kurs memakai titik sebagai desimal.
+ *
+ * @throws Error with the offending line number
+ */
+export function parseExchangeRatesCsv(content: string): ExchangeRateInput[] {
+  const firstLine = content.split(/\r?\n/, 1)[0] ?? "";
+  const delimiter = firstLine.includes(";") ? ";" : ",";
+  const [header, ...records] = splitCsv(content.replace(/^\uFEFF/, ""), delimiter);
+
+  if (!header) {
+    throw new Error("File kurs kosong");
+  }
+
+  const columns = header.map((name) => name.trim().toLowerCase());
+  const indexOf = (names: string[]) =>
+    columns.findIndex((name) => names.includes(name));
+
+  const dateIndex = indexOf(["date", "tanggal"]);
+  const fromIndex = indexOf(["from", "from_currency", "dari"]);
+  const toIndex = indexOf(["to", "to_currency", "ke"]);
+  const rateIndex = indexOf(["rate", "kurs"]);
+
+  if ([dateIndex, fromIndex, toIndex, rateIndex].includes(-1)) {
+    throw new Error("Header CSV kurs harus berisi kolom date, from, to, rate");
+  }
+
+  return records.map((record, index) => {
+    const line = index + 2;
+    const rawDate = record[dateIndex]?.trim() ?? "";
+    const date = new Date(`${rawDate}T00:00:00`);
+
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(rawDate) || isNaN(date.getTime())) {
+      throw new Error(`Baris ${line}: tanggal tidak valid "${rawDate}"`);
+    }
+
+    const rate = parseFloat((record[rateIndex] ?? "").trim());
+    if (isNaN(rate)) {
+      throw new Error(`Baris ${line}: kurs tidak valid`);
+    }
+
+    const result = exchangeRateSchema.safeParse({
+      fromCurrency: record[fromIndex] ?? "",
+      toCurrency: record[toIndex] ?? "",
+      rate,
+      date,
+    });
+
+    if (!result.success) {
+      throw new Error(`Baris ${line}: ${result.error.errors[0].message}`);
+    }
+
+    return result.data;
+  });
+}
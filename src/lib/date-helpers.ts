@@ -56,3 +56,87 @@ export function getMonthIntRange(startDate: Date, endDate: Date): number[] {
 
   return months;
 }
+
+/**
+ * Calendar date and wall-clock time of a moment in an IANA time zone
+ * (month 1-12, weekday 0-6 Sunday-Saturday)
+ */
+export function getZonedParts(
+  date: Date,
+  timeZone: string
+): {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  weekday: number;
+} {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "numeric",
+    day: "numeric",
+    hour: "numeric",
+    minute: "numeric",
+    second: "numeric",
+  }).formatToParts(date);
+  const get = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((part) => part.type === type)?.value);
+
+  const [year, month, day] = [get("year"), get("month"), get("day")];
+  return {
+    year,
+    month,
+    day,
+    hour: get("hour"),
+    minute: get("minute"),
+    second: get("second"),
+    weekday: new Date(Date.UTC(year, month - 1, day)).getUTCDay(),
+  };
+}
+
+/**
+ * Moment at which a wall-clock time occurs in an IANA time zone
+ *
+ * Offset dihitung dua kali agar tetap benar di sekitar pergantian DST.
+ */
+export function zonedTimeToDate(
+  year: number,
+  month: number,
+  day: number,
+  hour: number,
+  minute: number,
+  timeZone: string
+): Date {
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute);
+  const offsetAt = (time: number) => {
+    const parts = getZonedParts(new Date(time), timeZone);
+    const zoned = Date.UTC(
+      parts.year,
+      parts.month - 1,
+      parts.day,
+      parts.hour,
+      parts.minute,
+      parts.second
+    );
+    return zoned - Math.floor(time / 1000) * 1000;
+  };
+
+  const firstGuess = wallClock - offsetAt(wallClock);
+  return new Date(wallClock - offsetAt(firstGuess));
+}
+
+/**
+ * Whether a string is a time zone supported by the runtime
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,285 @@
+/**
+ * Multi-debt payoff planner
+ *
+ * Mensimulasikan pelunasan semua hutang keluarga dengan satu anggaran
+ * bulanan tetap. Setiap bulan bunga dihitung dulu, lalu cicilan minimum
+ * semua hutang dibayar, dan sisa anggaran dialokasikan ke hutang prioritas
+ * sesuai strategi. Saat satu hutang lunas, cicilannya otomatis "bergulir"
+ * ke hutang berikutnya karena anggaran bulanan tidak berubah.
+ *
+ * - snowball: sisa hutang terkecil dulu
+ * - avalanche: bunga tertinggi dulu (total bunga paling kecil)
+ * - custom: urutan dari user
+ */
+
+import { z } from "zod";
+import { addMoney, multiplyMoney, subtractMoney, sumMoney } from "./money";
+import type { MonthlyRateFn } from "./liability-rates";
+
+export const PAYOFF_STRATEGIES = ["snowball", "avalanche", "custom"] as const;
+
+export type PayoffStrategy = (typeof PAYOFF_STRATEGIES)[number];
+
+/**
+ * Upper bound of a simulation (50 tahun)
+ */
+export const MAX_PAYOFF_MONTHS = 600;
+
+export const payoffPlanQuerySchema = z.object({
+  monthlyBudget: z.coerce
+    .number({ invalid_type_error: "Anggaran bulanan harus berupa angka" })
+    .positive("Anggaran bulanan harus lebih dari 0")
+    .max(999999999999, "Anggaran bulanan terlalu besar"),
+  strategy: z
+    .enum(PAYOFF_STRATEGIES, {
+      errorMap: () => ({
+        message: "Strategi harus snowball, avalanche, atau custom",
+      }),
+    })
+    .optional(),
+  // Urutan prioritas untuk strategi custom (id hutang)
+  order: z.array(z.string().min(1)).optional(),
+  // Batasi perencanaan ke sebagian hutang saja
+  liabilityIds: z.array(z.string().min(1)).optional(),
+});
+
+export type PayoffPlanQuery = z.infer<typeof payoffPlanQuerySchema>;
+
+export interface PayoffDebt {
+  id: string;
+  name: string;
+  balance: number;
+  /** Bunga per tahun dalam persen (yang berlaku sekarang, untuk urutan avalanche) */
+  interestRate: number;
+  /** Bunga bulanan per bulan simulasi jika mengikuti jadwal bunga */
+  monthlyRate?: MonthlyRateFn;
+  /** Cicilan minimum per bulan (0 = tidak ada kewajiban minimum) */
+  minimumPayment: number;
+}
+
+export interface PayoffLine {
+  liabilityId: string;
+  payment: number;
+  interest: number;
+  principal: number;
+  balance: number;
+}
+
+export interface PayoffMonth {
+  month: number;
+  date: Date;
+  payments: PayoffLine[];
+  totalPayment: number;
+  totalInterest: number;
+  totalBalance: number;
+}
+
+export interface PayoffPlan {
+  strategy: PayoffStrategy;
+  order: Array<{ liabilityId: string; name: string }>;
+  /** false jika hutang belum lunas dalam MAX_PAYOFF_MONTHS */
+  feasible: boolean;
+  months: number;
+  debtFreeDate: Date | null;
+  totalPaid: number;
+  totalInterest: number;
+  payoffDates: Array<{
+    liabilityId: string;
+    name: string;
+    month: number;
+    date: Date;
+  }>;
+  schedule: PayoffMonth[];
+}
+
+/**
+ * Same day `months` later, clamped to the end of shorter months
+ */
+function addMonths(date: Date, months: number): Date {
+  const result = new Date(date.getFullYear(), date.getMonth() + months, 1);
+  const lastDay = new Date(
+    result.getFullYear(),
+    result.getMonth() + 1,
+    0
+  ).getDate();
+  result.setDate(Math.min(date.getDate(), lastDay));
+  return result;
+}
+
+const bySmallestBalance = (a: PayoffDebt, b: PayoffDebt) =>
+  a.balance - b.balance || b.interestRate - a.interestRate;
+
+const byHighestRate = (a: PayoffDebt, b: PayoffDebt) =>
+  b.interestRate - a.interestRate || a.balance - b.balance;
+
+/**
+ * Order debts by payoff priority
+ *
+ * Untuk custom, hutang yang tidak disebut di `customOrder` menyusul di
+ * belakang dengan urutan avalanche.
+ */
+export function orderDebts(
+  debts: PayoffDebt[],
+  strategy: PayoffStrategy,
+  customOrder: string[] = []
+): PayoffDebt[] {
+  switch (strategy) {
+    case "snowball":
+      return [...debts].sort(bySmallestBalance);
+    case "avalanche":
+      return [...debts].sort(byHighestRate);
+    case "custom": {
+      const rank = (debt: PayoffDebt) => {
+        const index = customOrder.indexOf(debt.id);
+        return index === -1 ? customOrder.length : index;
+      };
+      return [...debts].sort(
+        (a, b) => rank(a) - rank(b) || byHighestRate(a, b)
+      );
+    }
+  }
+}
+
+/**
+ * Total minimum payment currently due
+ */
+export function getMinimumPaymentTotal(debts: PayoffDebt[]): number {
+  return sumMoney(debts, (debt) => Math.min(debt.minimumPayment, debt.balance));
+}
+
+/**
+ * Simulate paying off all debts with a fixed monthly budget
+ *
+ * @throws Error when the budget does not cover the minimum payments
+ */
+export function simulatePayoff(
+  debts: PayoffDebt[],
+  monthlyBudget: number,
+  strategy: PayoffStrategy,
+  options: {
+    customOrder?: string[];
+    startDate?: Date;
+    maxMonths?: number;
+  } = {}
+): PayoffPlan {
+  const minimumTotal = getMinimumPaymentTotal(debts);
+  if (monthlyBudget < minimumTotal) {
+    throw new Error(
+      `Anggaran bulanan lebih kecil dari total cicilan minimum (${minimumTotal})`
+    );
+  }
+
+  const ordered = orderDebts(debts, strategy, options.customOrder);
+  const startDate = options.startDate ?? new Date();
+  const maxMonths = options.maxMonths ?? MAX_PAYOFF_MONTHS;
+
+  const balances = new Map(ordered.map((debt) => [debt.id, debt.balance]));
+  const totalBalance = () => sumMoney([...balances.values()]);
+
+  const schedule: PayoffMonth[] = [];
+  const payoffDates: PayoffPlan["payoffDates"] = [];
+  let totalPaid = 0;
+  let totalInterest = 0;
+
+  for (let month = 1; month <= maxMonths && totalBalance() > 0; month++) {
+    const date = addMonths(startDate, month);
+    const active = ordered.filter((debt) => balances.get(debt.id)! > 0);
+    const lines = new Map<string, PayoffLine>();
+
+    // 1. Bunga bulan ini
+    for (const debt of active) {
+      const interest = multiplyMoney(
+        balances.get(debt.id)!,
+        debt.monthlyRate ? debt.monthlyRate(month) : debt.interestRate / 100 / 12
+      );
+      balances.set(debt.id, addMoney(balances.get(debt.id)!, interest));
+      lines.set(debt.id, {
+        liabilityId: debt.id,
+        payment: 0,
+        interest,
+        principal: 0,
+        balance: 0,
+      });
+    }
+
+    let available = monthlyBudget;
+    const pay = (debt: PayoffDebt, limit: number) => {
+      const amount = Math.min(limit, balances.get(debt.id)!, available);
+      if (amount <= 0) return;
+      const line = lines.get(debt.id)!;
+      line.payment = addMoney(line.payment, amount);
+      balances.set(debt.id, subtractMoney(balances.get(debt.id)!, amount));
+      available = subtractMoney(available, amount);
+    };
+
+    // 2. Cicilan minimum semua hutang, 3. sisa anggaran ke prioritas
+    for (const debt of active) pay(debt, debt.minimumPayment);
+    for (const debt of active) pay(debt, available);
+
+    for (const debt of active) {
+      const line = lines.get(debt.id)!;
+      line.balance = balances.get(debt.id)!;
+      line.principal = subtractMoney(line.payment, line.interest);
+
+      if (line.balance === 0) {
+        payoffDates.push({ liabilityId: debt.id, name: debt.name, month, date });
+      }
+    }
+
+    const payments = [...lines.values()];
+    const monthPayment = sumMoney(payments, (line) => line.payment);
+    const monthInterest = sumMoney(payments, (line) => line.interest);
+    totalPaid = addMoney(totalPaid, monthPayment);
+    totalInterest = addMoney(totalInterest, monthInterest);
+
+    schedule.push({
+      month,
+      date,
+      payments,
+      totalPayment: monthPayment,
+      totalInterest: monthInterest,
+      totalBalance: totalBalance(),
+    });
+  }
+
+  const feasible = totalBalance() === 0;
+
+  return {
+    strategy,
+    order: ordered.map((debt) => ({ liabilityId: debt.id, name: debt.name })),
+    feasible,
+    months: schedule.length,
+    debtFreeDate: !feasible
+      ? null
+      : schedule.length > 0
+      ? schedule[schedule.length - 1].date
+      : startDate,
+    totalPaid,
+    totalInterest,
+    payoffDates,
+    schedule,
+  };
+}
+
+/**
+ * Run several strategies on the same debts and pick the cheapest feasible
+ * one (lowest total interest, then earliest debt-free date)
+ */
+export function comparePayoffStrategies(
+  debts: PayoffDebt[],
+  monthlyBudget: number,
+  strategies: PayoffStrategy[],
+  options: { customOrder?: string[]; startDate?: Date } = {}
+): { plans: PayoffPlan[]; recommended: PayoffStrategy | null } {
+  const plans = strategies.map((strategy) =>
+    simulatePayoff(debts, monthlyBudget, strategy, options)
+  );
+
+  const recommended = plans
+    .filter((plan) => plan.feasible)
+    .sort(
+      (a, b) => a.totalInterest - b.totalInterest || a.months - b.months
+    )[0];
+
+  return { plans, recommended: recommended?.strategy ?? null };
+}
@@ -832,3 +832,166 @@ Email ini dikirim secara otomatis oleh Family Finance Tracker.
     text,
   });
 }
+
+/**
+ * Notify the recipient of a goal fund distribution
+ */
+export async function sendGoalDistributionEmail(
+  recipientEmail: string,
+  recipientName: string,
+  data: {
+    goalName: string;
+    amount: number;
+    date: Date;
+    description?: string | null;
+    distributedBy: string;
+    walletName?: string | null;
+  }
+) {
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat("id-ID", {
+      style: "currency",
+      currency: "IDR",
+      minimumFractionDigits: 0,
+    }).format(amount);
+  };
+
+  const formattedDate = data.date.toLocaleDateString("id-ID", {
+    day: "numeric",
+    month: "long",
+    year: "numeric",
+  });
+
+  const html = `
+    <!DOCTYPE html>
+    <html>
+      <head>
+        <meta charset="utf-8">
+        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        <title>Penyaluran Dana Goal</title>
+        <style>
+          body {
+            font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif;
+            line-height: 1.6;
+            color: #333;
+            max-width: 600px;
+            margin: 0 auto;
+            padding: 20px;
+            background-color: #f5f5f5;
+          }
+          .container {
+            background-color: white;
+            border-radius: 8px;
+            padding: 30px;
+            box-shadow: 0 2px 4px rgba(0,0,0,0.1);
+          }
+          .header {
+            text-align: center;
+            margin-bottom: 30px;
+          }
+          .icon {
+            font-size: 48px;
+            margin-bottom: 10px;
+          }
+          h1 {
+            color: #059669;
+            font-size: 24px;
+            margin: 0;
+          }
+          .amount {
+            background-color: #ecfdf5;
+            border-left: 4px solid #059669;
+            padding: 15px;
+            margin: 20px 0;
+            border-radius: 4px;
+            font-size: 24px;
+            font-weight: 700;
+            color: #047857;
+          }
+          .stat-row {
+            display: flex;
+            justify-content: space-between;
+            padding: 10px 0;
+            border-bottom: 1px solid #f3f4f6;
+          }
+          .stat-label {
+            color: #6b7280;
+            font-weight: 500;
+          }
+          .footer {
+            margin-top: 30px;
+            padding-top: 20px;
+            border-top: 1px solid #e5e7eb;
+            text-align: center;
+            color: #6b7280;
+            font-size: 14px;
+          }
+        </style>
+      </head>
+      <body>
+        <div class="container">
+          <div class="header">
+            <div class="icon">🎯</div>
+            <h1>Penyaluran Dana Goal</h1>
+          </div>
+
+          <p>Halo <strong>${recipientName}</strong>,</p>
+
+          <p><strong>${data.distributedBy}</strong> menyalurkan dana dari goal <strong>${
+            data.goalName
+          }</strong> kepada Anda:</p>
+
+          <div class="amount">${formatCurrency(data.amount)}</div>
+
+          <div class="stat-row">
+            <span class="stat-label">Tanggal</span>
+            <span>${formattedDate}</span>
+          </div>
+          ${
+            data.walletName
+              ? `<div class="stat-row">
+            <span class="stat-label">Dompet Tujuan</span>
+            <span>${data.walletName}</span>
+          </div>`
+              : ""
+          }
+          ${
+            data.description
+              ? `<div class="stat-row">
+            <span class="stat-label">Keterangan</span>
+            <span>${data.description}</span>
+          </div>`
+              : ""
+          }
+
+          <div class="footer">
+            <p>Email ini dikirim secara otomatis oleh Family Finance Tracker.</p>
+          </div>
+        </div>
+      </body>
+    </html>
+  `;
+
+  const text = `
+Penyaluran Dana Goal - Family Finance Tracker
+
+Halo ${recipientName},
+
+${data.distributedBy} menyalurkan dana dari goal ${data.goalName} kepada Anda.
+
+Jumlah: ${formatCurrency(data.amount)}
+Tanggal: ${formattedDate}${data.walletName ? `\nDompet Tujuan: ${data.walletName}` : ""}${
+    data.description ? `\nKeterangan: ${data.description}` : ""
+  }
+
+---
+Email ini dikirim secara otomatis oleh Family Finance Tracker.
+  `.trim();
+
+  return sendEmail({
+    to: recipientEmail,
+    subject: `🎯 Dana goal ${data.goalName}: ${formatCurrency(data.amount)}`,
+    html,
+    text,
+  });
+}
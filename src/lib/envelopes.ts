@@ -0,0 +1,370 @@
+/**
+ * Envelope (zero-based) budgeting
+ *
+ * Mode alternatif untuk keluarga dengan `budgetMode = ENVELOPE`. Envelope
+ * adalah budget bulanan per kategori (`Budget`), dengan:
+ * - assigned  → `Budget.amount` bulan tersebut
+ * - moved     → pemindahan dana antar envelope (`BudgetTransfer`)
+ * - carryOver → sisa bulan sebelumnya jika `rollover` aktif; sisa envelope
+ *               tanpa rollover kembali ke dana yang belum dialokasikan
+ * - available = carryOver + assigned + moved - spent
+ *
+ * Dana yang belum dialokasikan (available to assign) = total saldo wallet -
+ * total dana di envelope. Envelope yang minus (overspent) tidak ikut
+ * dikurangkan, karena pengeluarannya sudah mengurangi saldo wallet.
+ */
+
+import { z } from "zod";
+import { DbClient } from "./prisma";
+import { getCurrencyConverter } from "./currency";
+import { getCategorySpending } from "./transaction-ledger";
+import { addMoney, subtractMoney, sumMoney } from "./money";
+
+/**
+ * Months of history used to compute carry-overs (2 tahun)
+ */
+export const ENVELOPE_HISTORY_MONTHS = 24;
+
+export const envelopeMoveSchema = z
+  .object({
+    // null = dari dana yang belum dialokasikan
+    fromCategoryId: z.string().min(1).nullable().optional(),
+    // null = kembalikan ke dana yang belum dialokasikan
+    toCategoryId: z.string().min(1).nullable().optional(),
+    amount: z
+      .number({ invalid_type_error: "Jumlah harus berupa angka" })
+      .positive("Jumlah harus lebih dari 0")
+      .max(999999999999, "Jumlah terlalu besar"),
+    month: z
+      .number()
+      .int("Month harus bilangan bulat")
+      .min(1, "Month minimal 1")
+      .max(12, "Month maksimal 12"),
+    year: z
+      .number()
+      .int("Year harus bilangan bulat")
+      .min(2000, "Year minimal 2000")
+      .max(2100, "Year maksimal 2100"),
+    note: z.string().max(200, "Catatan maksimal 200 karakter").optional(),
+  })
+  .refine((data) => data.fromCategoryId || data.toCategoryId, {
+    message: "Envelope asal atau tujuan harus dipilih",
+    path: ["toCategoryId"],
+  })
+  .refine((data) => data.fromCategoryId !== data.toCategoryId, {
+    message: "Envelope asal dan tujuan tidak boleh sama",
+    path: ["toCategoryId"],
+  });
+
+export type EnvelopeMoveInput = z.infer<typeof envelopeMoveSchema>;
+
+export interface Envelope {
+  categoryId: string;
+  name: string;
+  icon: string | null;
+  budgetId: string | null;
+  rollover: boolean;
+  carryOver: number;
+  assigned: number;
+  moved: number;
+  spent: number;
+  available: number;
+}
+
+export interface EnvelopeMonth {
+  month: number;
+  year: number;
+  envelopes: Envelope[];
+  totals: {
+    carryOver: number;
+    assigned: number;
+    moved: number;
+    spent: number;
+    available: number;
+  };
+  /** Total saldo wallet dalam mata uang dasar */
+  cash: number;
+  availableToAssign: number;
+}
+
+const toKey = (month: number, year: number) => year * 12 + (month - 1);
+
+/**
+ * Whether the family uses envelope budgeting
+ */
+export async function isEnvelopeMode(
+  db: DbClient,
+  familyId: string
+): Promise<boolean> {
+  const family = await db.family.findUnique({
+    where: { id: familyId },
+    select: { budgetMode: true },
+  });
+  return family?.budgetMode === "ENVELOPE";
+}
+
+/**
+ * @throws Error when the family is not in envelope mode
+ */
+export async function requireEnvelopeMode(
+  db: DbClient,
+  familyId: string
+): Promise<void> {
+  if (!(await isEnvelopeMode(db, familyId))) {
+    throw new Error("Mode budget envelope belum diaktifkan untuk keluarga ini");
+  }
+}
+
+/**
+ * Envelope balances of one month
+ *
+ * Sisa bulan sebelumnya dihitung berurutan mulai dari budget pertama
+ * (maksimal ENVELOPE_HISTORY_MONTHS ke belakang).
+ */
+export async function getEnvelopeMonth(
+  db: DbClient,
+  familyId: string,
+  month: number,
+  year: number
+): Promise<EnvelopeMonth> {
+  const targetKey = toKey(month, year);
+  const earliestKey = targetKey - ENVELOPE_HISTORY_MONTHS + 1;
+
+  const [budgets, transfers, converter, wallets] = await Promise.all([
+    db.budget.findMany({
+      where: {
+        familyId,
+        categoryId: { not: null },
+        month: { not: null },
+        year: { not: null, lte: year },
+      },
+      select: {
+        id: true,
+        amount: true,
+        month: true,
+        year: true,
+        rollover: true,
+        categoryId: true,
+      },
+    }),
+    db.budgetTransfer.findMany({
+      where: {
+        familyId,
+        year: { gte: Math.floor(earliestKey / 12), lte: year },
+      },
+      select: {
+        amount: true,
+        month: true,
+        year: true,
+        fromCategoryId: true,
+        toCategoryId: true,
+      },
+    }),
+    getCurrencyConverter(db, familyId),
+    db.wallet.groupBy({
+      by: ["currency"],
+      where: { familyId },
+      _sum: { balance: true },
+    }),
+  ]);
+
+  // Budget per kategori per bulan (data lama menyimpan month sebagai YYYYMM)
+  const rows = new Map<string, Map<number, (typeof budgets)[number]>>();
+  let firstKey = targetKey;
+  for (const budget of budgets) {
+    const key = toKey(
+      budget.month! > 12 ? budget.month! % 100 : budget.month!,
+      budget.year!
+    );
+    if (key > targetKey) continue;
+
+    const byMonth = rows.get(budget.categoryId!) ?? new Map();
+    byMonth.set(key, budget);
+    rows.set(budget.categoryId!, byMonth);
+    firstKey = Math.min(firstKey, key);
+  }
+
+  const moves = new Map<string, number>();
+  for (const transfer of transfers) {
+    const key = toKey(transfer.month, transfer.year);
+    if (key < earliestKey || key > targetKey) continue;
+    firstKey = Math.min(firstKey, key);
+
+    for (const [categoryId, sign] of [
+      [transfer.fromCategoryId, -1],
+      [transfer.toCategoryId, 1],
+    ] as const) {
+      if (!categoryId) continue;
+      if (!rows.has(categoryId)) rows.set(categoryId, new Map());
+      const moveKey = `${categoryId}:${key}`;
+      moves.set(
+        moveKey,
+        addMoney(moves.get(moveKey) ?? 0, transfer.amount * sign)
+      );
+    }
+  }
+
+  const categoryIds = [...rows.keys()];
+  const startKey = Math.max(firstKey, earliestKey);
+
+  // Pengeluaran per bulan, subkategori masuk ke envelope induknya
+  const spendingByMonth = new Map<number, Map<string | null, { amount: number }>>();
+  if (categoryIds.length > 0) {
+    for (let key = startKey; key <= targetKey; key++) {
+      const monthYear = Math.floor(key / 12);
+      const monthIndex = key % 12;
+      spendingByMonth.set(
+        key,
+        await getCategorySpending(
+          db,
+          familyId,
+          {
+            start: new Date(monthYear, monthIndex, 1),
+            end: new Date(monthYear, monthIndex + 1, 0, 23, 59, 59, 999),
+          },
+          { categoryIds, rollup: true, converter }
+        )
+      );
+    }
+  }
+
+  const categories = await db.category.findMany({
+    where: { id: { in: categoryIds } },
+    select: { id: true, name: true, icon: true },
+  });
+  const categoryById = new Map(categories.map((category) => [category.id, category]));
+
+  const envelopes: Envelope[] = categoryIds.map((categoryId) => {
+    const byMonth = rows.get(categoryId)!;
+    let rollover = true;
+    let available = 0;
+    let envelope: Envelope | null = null;
+
+    for (let key = startKey; key <= targetKey; key++) {
+      const budget = byMonth.get(key);
+      // Sisa envelope minus tidak dibawa: sudah mengurangi saldo wallet
+      const carryOver = key > startKey && rollover ? Math.max(0, available) : 0;
+      const assigned = budget?.amount ?? 0;
+      const moved = moves.get(`${categoryId}:${key}`) ?? 0;
+      const spent = spendingByMonth.get(key)?.get(categoryId)?.amount ?? 0;
+
+      available = subtractMoney(addMoney(carryOver, assigned, moved), spent);
+      if (budget) rollover = budget.rollover;
+
+      envelope = {
+        categoryId,
+        name: categoryById.get(categoryId)?.name ?? "Kategori dihapus",
+        icon: categoryById.get(categoryId)?.icon ?? null,
+        budgetId: budget?.id ?? null,
+        rollover,
+        carryOver,
+        assigned,
+        moved,
+        spent,
+        available,
+      };
+    }
+
+    return envelope!;
+  });
+
+  envelopes.sort((a, b) => a.name.localeCompare(b.name));
+
+  const cash = sumMoney(wallets, (wallet) =>
+    converter.toBase(wallet._sum.balance ?? 0, wallet.currency)
+  );
+  const held = sumMoney(envelopes, (envelope) => Math.max(0, envelope.available));
+
+  return {
+    month,
+    year,
+    envelopes,
+    totals: {
+      carryOver: sumMoney(envelopes, (envelope) => envelope.carryOver),
+      assigned: sumMoney(envelopes, (envelope) => envelope.assigned),
+      moved: sumMoney(envelopes, (envelope) => envelope.moved),
+      spent: sumMoney(envelopes, (envelope) => envelope.spent),
+      available: sumMoney(envelopes, (envelope) => envelope.available),
+    },
+    cash,
+    availableToAssign: subtractMoney(cash, held),
+  };
+}
+
+/**
+ * Move money between envelopes (or from/to the unassigned pool) inside a
+ * database transaction
+ *
+ * @throws Error if envelope mode is off, a category is missing or not an
+ * expense category, or the source does not have enough money
+ */
+export async function moveEnvelopeMoney(
+  tx: DbClient,
+  familyId: string,
+  userId: string,
+  input: EnvelopeMoveInput
+) {
+  await requireEnvelopeMode(tx, familyId);
+
+  const categoryIds = [input.fromCategoryId, input.toCategoryId].filter(
+    (id): id is string => !!id
+  );
+  const categories = await tx.category.findMany({
+    where: { id: { in: categoryIds }, familyId },
+    select: { id: true, name: true, type: true },
+  });
+
+  if (categories.length !== categoryIds.length) {
+    throw new Error("Kategori tidak ditemukan");
+  }
+  if (categories.some((category) => category.type !== "EXPENSE")) {
+    throw new Error("Envelope hanya untuk kategori pengeluaran");
+  }
+
+  const view = await getEnvelopeMonth(tx, familyId, input.month, input.year);
+  const source = input.fromCategoryId
+    ? view.envelopes.find((envelope) => envelope.categoryId === input.fromCategoryId)
+        ?.available ?? 0
+    : view.availableToAssign;
+
+  if (input.amount > source) {
+    throw new Error(
+      input.fromCategoryId
+        ? "Saldo envelope asal tidak mencukupi"
+        : "Dana yang belum dialokasikan tidak mencukupi"
+    );
+  }
+
+  const transfer = await tx.budgetTransfer.create({
+    data: {
+      amount: input.amount,
+      month: input.month,
+      year: input.year,
+      note: input.note,
+      fromCategoryId: input.fromCategoryId ?? null,
+      toCategoryId: input.toCategoryId ?? null,
+      familyId,
+      userId,
+    },
+  });
+
+  await tx.auditLog.create({
+    data: {
+      action: "MOVE_BUDGET_ENVELOPE",
+      entityType: "BudgetTransfer",
+      entityId: transfer.id,
+      details: JSON.stringify({
+        fromCategoryId: transfer.fromCategoryId,
+        toCategoryId: transfer.toCategoryId,
+        amount: transfer.amount,
+        month: transfer.month,
+        year: transfer.year,
+        sourceAvailableBefore: source,
+      }),
+      userId,
+      familyId,
+    },
+  });
+
+  return transfer;
+}
@@ -16,6 +16,12 @@ export interface ExportTransaction {
     name: string;
   };
   notes?: string | null;
+  splits?: Array<{
+    amount: number;
+    note?: string | null;
+    category: { name: string } | null;
+    member?: { name: string } | null;
+  }>;
 }
 
 export interface ExportOptions {
@@ -24,6 +30,24 @@ export interface ExportOptions {
   type?: "ALL" | "INCOME" | "EXPENSE";
 }
 
+/**
+ * Expand a transaction into one row per split line (or a single row when
+ * not split) so spend is attributed to each split category
+ */
+const toExportRows = (t: ExportTransaction) => {
+  if (!t.splits || t.splits.length === 0) {
+    return [
+      { category: t.category.name, amount: t.amount, notes: t.notes || "" },
+    ];
+  }
+
+  return t.splits.map((split) => ({
+    category: split.category?.name || "Tanpa Kategori",
+    amount: split.amount,
+    notes: [split.member?.name, split.note].filter(Boolean).join(" - "),
+  }));
+};
+
 /**
  * Export transactions to PDF format
  */
@@ -79,14 +103,16 @@ export const exportTransactionsToPDF = (
   yPos += 10;
 
   // Create table data
-  const tableData = transactions.map((t) => [
-    formatDateTime(t.date),
-    t.description,
-    t.category.name,
-    t.wallet.name,
-    t.type === "INCOME" ? "Pemasukan" : "Pengeluaran",
-    formatCurrency(t.amount),
-  ]);
+  const tableData = transactions.flatMap((t) =>
+    toExportRows(t).map((row) => [
+      formatDateTime(t.date),
+      t.description,
+      row.category,
+      t.wallet.name,
+      t.type === "INCOME" ? "Pemasukan" : "Pengeluaran",
+      formatCurrency(row.amount),
+    ])
+  );
 
   // Add table
   autoTable(doc, {
@@ -179,15 +205,17 @@ export const exportTransactionsToExcel = (
 
   // Add transaction data
   transactions.forEach((t) => {
-    worksheetData.push([
-      formatDateTime(t.date),
-      t.description,
-      t.category.name,
-      t.wallet.name,
-      t.type === "INCOME" ? "Pemasukan" : "Pengeluaran",
-      t.amount,
-      t.notes || "",
-    ]);
+    toExportRows(t).forEach((row) => {
+      worksheetData.push([
+        formatDateTime(t.date),
+        t.description,
+        row.category,
+        t.wallet.name,
+        t.type === "INCOME" ? "Pemasukan" : "Pengeluaran",
+        row.amount,
+        row.notes,
+      ]);
+    });
   });
 
   // Create workbook and worksheet
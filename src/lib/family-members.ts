@@ -0,0 +1,92 @@
+/**
+ * Family member management
+ *
+ * Role juga disimpan di token, tetapi route yang membatasi role membaca
+ * role terkini dari database (lihat `withAuth`), jadi perubahan role
+ * langsung berlaku.
+ */
+
+import { z } from "zod";
+import { DbClient } from "./prisma";
+
+export const changeRoleSchema = z.object({
+  role: z.enum(["ADMIN", "MEMBER"], {
+    errorMap: () => ({ message: "Role harus ADMIN atau MEMBER" }),
+  }),
+});
+
+export type ChangeRoleInput = z.infer<typeof changeRoleSchema>;
+
+/**
+ * Validate a role change without applying it
+ *
+ * @throws Error if the member is missing, is the actor, already has the
+ * role, or is the last admin being demoted
+ */
+export async function validateRoleChange(
+  db: DbClient,
+  familyId: string,
+  actorId: string,
+  memberId: string,
+  input: ChangeRoleInput
+) {
+  const member = await db.user.findFirst({
+    where: { id: memberId, familyId },
+    select: { id: true, name: true, email: true, role: true },
+  });
+
+  if (!member) {
+    throw new Error("Anggota tidak ditemukan");
+  }
+
+  if (member.id === actorId) {
+    throw new Error("Tidak dapat mengubah role sendiri");
+  }
+
+  if (member.role === input.role) {
+    throw new Error(`Anggota sudah memiliki role ${input.role}`);
+  }
+
+  if (member.role === "ADMIN") {
+    const admins = await db.user.count({ where: { familyId, role: "ADMIN" } });
+    if (admins <= 1) {
+      throw new Error("Keluarga harus memiliki minimal satu admin");
+    }
+  }
+
+  return member;
+}
+
+/**
+ * Change a member's role and log it
+ *
+ * @throws Error see {@link validateRoleChange}
+ */
+export async function changeMemberRole(
+  tx: DbClient,
+  familyId: string,
+  actorId: string,
+  memberId: string,
+  input: ChangeRoleInput
+) {
+  const member = await validateRoleChange(tx, familyId, actorId, memberId, input);
+
+  const updated = await tx.user.update({
+    where: { id: member.id },
+    data: { role: input.role },
+    select: { id: true, name: true, email: true, role: true },
+  });
+
+  await tx.auditLog.create({
+    data: {
+      action: "CHANGE_MEMBER_ROLE",
+      entityType: "User",
+      entityId: member.id,
+      changes: JSON.stringify({ role: { old: member.role, new: input.role } }),
+      userId: actorId,
+      familyId,
+    },
+  });
+
+  return updated;
+}
@@ -0,0 +1,619 @@
+/**
+ * Goal contributions and wallet funding
+ *
+ * Kontribusi goal bisa dicatat dengan tiga cara:
+ * - `WALLET_DEBIT`: uang keluar dari dompet lewat TRANSFER keluar tanpa
+ *   dompet tujuan, lalu hanya tercatat di `Goal.currentAmount`.
+ * - `EARMARK`: uang tetap di dompet (mis. rekening tabungan) tetapi
+ *   dialokasikan untuk goal. Saldo dompet tidak berubah; bagian yang
+ *   dialokasikan tidak boleh melebihi saldo bebas dompet.
+ * - tanpa `funding` (manual): perilaku lama, tidak menyentuh dompet.
+ *
+ * Alokasi (earmark) per goal per dompet = Σ kontribusi EARMARK dikurangi
+ * Σ `GoalDistribution.earmarkReleased`. Bagian goal di luar alokasi disebut
+ * "tersimpan" (saved).
+ */
+
+import { GoalFunding } from "@prisma/client";
+import { z } from "zod";
+import { DbClient } from "./prisma";
+import {
+  applyWalletDeltas,
+  getWalletDeltas,
+  mergeWalletDeltas,
+} from "./transaction-ledger";
+import { resolveTransactionCurrency } from "./currency";
+import { addMoney, subtractMoney, sumMoney } from "./money";
+
+export const goalContributionSchema = z
+  .object({
+    amount: z.coerce
+      .number({ invalid_type_error: "Jumlah kontribusi harus berupa angka" })
+      .positive("Jumlah kontribusi harus lebih dari 0")
+      .max(999999999999, "Jumlah kontribusi terlalu besar"),
+    description: z
+      .string()
+      .max(500, "Deskripsi maksimal 500 karakter")
+      .nullable()
+      .optional(),
+    date: z
+      .string()
+      .datetime({ message: "Format tanggal tidak valid" })
+      .optional(),
+    // Optional: dompet sumber dana
+    walletId: z.string().min(1, "Wallet ID tidak valid").optional(),
+    // Default WALLET_DEBIT jika walletId diisi
+    funding: z.enum(["WALLET_DEBIT", "EARMARK"]).optional(),
+  })
+  .refine((data) => !data.funding || data.walletId, {
+    message: "Pilih dompet sumber dana",
+    path: ["walletId"],
+  });
+
+export type GoalContributionInput = z.infer<typeof goalContributionSchema>;
+
+export interface EarmarkBalance {
+  goalId: string;
+  walletId: string;
+  amount: number;
+}
+
+/**
+ * Net earmarked amount per goal and wallet (only non-zero entries)
+ */
+export async function getEarmarkBalances(
+  db: DbClient,
+  familyId: string,
+  filter: { goalId?: string; walletId?: string } = {}
+): Promise<EarmarkBalance[]> {
+  const [earmarked, released] = await Promise.all([
+    db.goalContribution.groupBy({
+      by: ["goalId", "walletId"],
+      where: {
+        goal: { familyId },
+        funding: "EARMARK",
+        walletId: filter.walletId ?? { not: null },
+        ...(filter.goalId && { goalId: filter.goalId }),
+      },
+      _sum: { amount: true },
+    }),
+    db.goalDistribution.groupBy({
+      by: ["goalId", "walletId"],
+      where: {
+        goal: { familyId },
+        earmarkReleased: { gt: 0 },
+        walletId: filter.walletId ?? { not: null },
+        ...(filter.goalId && { goalId: filter.goalId }),
+      },
+      _sum: { earmarkReleased: true },
+    }),
+  ]);
+
+  const balances = new Map<string, EarmarkBalance>();
+  const add = (goalId: string, walletId: string | null, amount: number) => {
+    if (!walletId) return;
+    const key = `${goalId}:${walletId}`;
+    const entry = balances.get(key) ?? { goalId, walletId, amount: 0 };
+    entry.amount = addMoney(entry.amount, amount);
+    balances.set(key, entry);
+  };
+
+  for (const group of earmarked) {
+    add(group.goalId, group.walletId, group._sum.amount ?? 0);
+  }
+  for (const group of released) {
+    add(group.goalId, group.walletId, -(group._sum.earmarkReleased ?? 0));
+  }
+
+  return [...balances.values()].filter((entry) => entry.amount !== 0);
+}
+
+/**
+ * Saldo dompet yang belum dialokasikan ke goal mana pun
+ */
+async function getAvailableBalance(
+  tx: DbClient,
+  familyId: string,
+  wallet: { id: string; balance: number }
+) {
+  const earmarks = await getEarmarkBalances(tx, familyId, {
+    walletId: wallet.id,
+  });
+  return subtractMoney(
+    wallet.balance,
+    sumMoney(earmarks, (entry) => entry.amount)
+  );
+}
+
+/**
+ * Total earmarked (in any wallet) for a goal; the rest of
+ * `currentAmount` is "saved"
+ */
+export async function getGoalEarmarked(
+  tx: DbClient,
+  familyId: string,
+  goalId: string
+) {
+  const earmarks = await getEarmarkBalances(tx, familyId, { goalId });
+  return {
+    total: sumMoney(earmarks, (entry) => entry.amount),
+    byWallet: new Map(earmarks.map((entry) => [entry.walletId, entry.amount])),
+  };
+}
+
+/**
+ * Goal money debited from wallets (WALLET_DEBIT) and not yet withdrawn,
+ * at each of the given moments
+ *
+ * Per goal: Σ kontribusi WALLET_DEBIT - Σ penarikan dari dana tersimpan
+ * (`amount - earmarkReleased`) sampai tanggal tersebut, minimal 0.
+ * Penarikan dianggap mengambil dana yang didebit lebih dulu; kelebihannya
+ * berasal dari kontribusi manual yang tidak pernah tercatat di dompet.
+ * Dipakai kekayaan bersih agar kontribusi goal tidak mengurangi kekayaan.
+ *
+ * @returns Totals (mata uang dasar keluarga) in the same order as `asOfDates`
+ */
+export async function getGoalDebitedSavings(
+  db: DbClient,
+  familyId: string,
+  asOfDates: Date[]
+): Promise<number[]> {
+  if (asOfDates.length === 0) return [];
+
+  const [contributions, distributions] = await Promise.all([
+    db.goalContribution.findMany({
+      where: { goal: { familyId }, funding: "WALLET_DEBIT" },
+      select: { goalId: true, amount: true, date: true },
+    }),
+    db.goalDistribution.findMany({
+      where: { goal: { familyId } },
+      select: { goalId: true, amount: true, earmarkReleased: true, date: true },
+    }),
+  ]);
+
+  const events = [
+    ...contributions.map((entry) => ({ ...entry, delta: entry.amount })),
+    ...distributions.map((entry) => ({
+      ...entry,
+      delta: -subtractMoney(entry.amount, entry.earmarkReleased),
+    })),
+  ];
+
+  return asOfDates.map((asOf) => {
+    const byGoal = new Map<string, number>();
+    for (const event of events) {
+      if (event.date > asOf) continue;
+      byGoal.set(
+        event.goalId,
+        addMoney(byGoal.get(event.goalId) ?? 0, event.delta)
+      );
+    }
+    return sumMoney([...byGoal.values()], (amount) => Math.max(0, amount));
+  });
+}
+
+/**
+ * Record a goal contribution inside a database transaction
+ *
+ * @param options.recurringId - Recurring yang membuat kontribusi ini
+ * @throws Error if the goal or wallet is missing, the goal is not active,
+ * or the wallet does not hold enough (free) balance
+ */
+export async function recordGoalContribution(
+  tx: DbClient,
+  familyId: string,
+  userId: string,
+  goalId: string,
+  input: GoalContributionInput,
+  options: { recurringId?: string } = {}
+) {
+  const goal = await tx.goal.findFirst({
+    where: { id: goalId, familyId },
+    select: {
+      id: true,
+      name: true,
+      status: true,
+      currentAmount: true,
+      targetAmount: true,
+    },
+  });
+
+  if (!goal) {
+    throw new Error("Goal tidak ditemukan");
+  }
+
+  if (goal.status !== "ACTIVE") {
+    throw new Error("Goal tidak aktif");
+  }
+
+  const date = input.date ? new Date(input.date) : new Date();
+  const funding = input.walletId ? input.funding ?? "WALLET_DEBIT" : null;
+
+  let currency: string | null = null;
+  if (input.walletId) {
+    const wallet = await tx.wallet.findUnique({
+      where: { id: input.walletId },
+      select: {
+        id: true,
+        familyId: true,
+        balance: true,
+        currency: true,
+        isArchived: true,
+      },
+    });
+
+    if (!wallet || wallet.familyId !== familyId) {
+      throw new Error("Wallet tidak ditemukan");
+    }
+
+    if (wallet.isArchived) {
+      throw new Error("Wallet sudah diarsipkan");
+    }
+
+    // Goal dicatat dalam mata uang dasar keluarga
+    currency = await resolveTransactionCurrency(tx, familyId, null);
+    if (wallet.currency !== currency) {
+      throw new Error(`Kontribusi goal harus dari dompet bermata uang ${currency}`);
+    }
+
+    // Dana yang sudah dialokasikan ke goal lain tidak bisa dipakai lagi
+    const available = await getAvailableBalance(tx, familyId, wallet);
+    if (input.amount > available) {
+      throw new Error(
+        `Saldo wallet tidak mencukupi (tersedia Rp ${available.toLocaleString(
+          "id-ID"
+        )})`
+      );
+    }
+  }
+
+  const contribution = await tx.goalContribution.create({
+    data: {
+      goalId: goal.id,
+      amount: input.amount,
+      description: input.description?.trim() || null,
+      date,
+      userId,
+      walletId: input.walletId ?? null,
+      funding,
+      recurringId: options.recurringId ?? null,
+    },
+    include: {
+      user: { select: { id: true, name: true, avatar: true } },
+      wallet: { select: { id: true, name: true } },
+    },
+  });
+
+  const transactions = [];
+  if (funding === "WALLET_DEBIT" && currency) {
+    transactions.push(
+      await tx.transaction.create({
+        data: {
+          type: "TRANSFER",
+          amount: input.amount,
+          currency,
+          description: `Kontribusi goal ${goal.name}`,
+          notes: input.description?.trim() || null,
+          date,
+          fromWalletId: input.walletId,
+          goalContributionId: contribution.id,
+          userId,
+          familyId,
+        },
+      })
+    );
+  }
+
+  const walletChanges = await applyWalletDeltas(
+    tx,
+    familyId,
+    mergeWalletDeltas(...transactions.map((entry) => getWalletDeltas(entry)))
+  );
+
+  const newCurrentAmount = addMoney(goal.currentAmount, input.amount);
+  const completed = newCurrentAmount >= goal.targetAmount;
+  const updatedGoal = await tx.goal.update({
+    where: { id: goal.id },
+    data: {
+      currentAmount: newCurrentAmount,
+      status: completed ? "COMPLETED" : goal.status,
+    },
+  });
+
+  await tx.auditLog.create({
+    data: {
+      action: "CREATE_CONTRIBUTION",
+      entityType: "GoalContribution",
+      entityId: contribution.id,
+      details: JSON.stringify({
+        goalId: goal.id,
+        goalName: goal.name,
+        amount: input.amount,
+        funding,
+        walletId: input.walletId ?? null,
+        recurringId: options.recurringId ?? null,
+        transactionIds: transactions.map((entry) => entry.id),
+        wallets: walletChanges,
+        oldCurrentAmount: goal.currentAmount,
+        newCurrentAmount,
+        completed,
+      }),
+      userId,
+      familyId,
+    },
+  });
+
+  return {
+    contribution,
+    goal: updatedGoal,
+    transactions,
+    wallets: walletChanges,
+    completed,
+  };
+}
+
+/**
+ * Delete a goal contribution together with its linked transaction,
+ * returning debited money to the wallet or releasing the earmark
+ *
+ * Dipakai baik saat kontribusi dihapus maupun saat transaksinya dihapus,
+ * agar kedua sisi tetap konsisten.
+ *
+ * @throws Error if the contributed funds were already withdrawn from the goal
+ */
+export async function deleteGoalContribution(
+  tx: DbClient,
+  familyId: string,
+  userId: string,
+  contributionId: string
+) {
+  const contribution = await tx.goalContribution.findFirst({
+    where: { id: contributionId, goal: { familyId } },
+    include: {
+      transactions: { include: { splits: true } },
+      goal: {
+        select: {
+          id: true,
+          name: true,
+          status: true,
+          currentAmount: true,
+          targetAmount: true,
+        },
+      },
+    },
+  });
+
+  if (!contribution) {
+    throw new Error("Kontribusi tidak ditemukan");
+  }
+
+  // Dana kontribusi harus masih ada di goal: alokasi di dompet yang sama
+  // untuk EARMARK, bagian "tersimpan" untuk lainnya
+  const earmarked = await getGoalEarmarked(tx, familyId, contribution.goalId);
+  const remaining =
+    contribution.funding === "EARMARK" && contribution.walletId
+      ? earmarked.byWallet.get(contribution.walletId) ?? 0
+      : subtractMoney(contribution.goal.currentAmount, earmarked.total);
+  if (contribution.amount > remaining) {
+    throw new Error(
+      "Dana kontribusi sudah ditarik dari goal, hapus penarikannya terlebih dahulu"
+    );
+  }
+
+  const walletChanges = await applyWalletDeltas(
+    tx,
+    familyId,
+    mergeWalletDeltas(
+      ...contribution.transactions.map((entry) => getWalletDeltas(entry, -1))
+    )
+  );
+
+  await tx.transaction.deleteMany({
+    where: { goalContributionId: contribution.id },
+  });
+
+  const newCurrentAmount = subtractMoney(
+    contribution.goal.currentAmount,
+    contribution.amount
+  );
+  // Goal yang tercapai kembali aktif jika jumlahnya turun di bawah target
+  const reopened =
+    contribution.goal.status === "COMPLETED" &&
+    newCurrentAmount < contribution.goal.targetAmount;
+  await tx.goal.update({
+    where: { id: contribution.goal.id },
+    data: {
+      currentAmount: newCurrentAmount,
+      status: reopened ? "ACTIVE" : contribution.goal.status,
+    },
+  });
+
+  await tx.goalContribution.delete({ where: { id: contribution.id } });
+
+  await tx.auditLog.create({
+    data: {
+      action: "DELETE_CONTRIBUTION",
+      entityType: "GoalContribution",
+      entityId: contribution.id,
+      dataBefore: JSON.stringify({
+        goalId: contribution.goalId,
+        amount: contribution.amount,
+        date: contribution.date,
+        funding: contribution.funding,
+        walletId: contribution.walletId,
+        recurringId: contribution.recurringId,
+        transactionIds: contribution.transactions.map((entry) => entry.id),
+      }),
+      details: JSON.stringify({
+        goalName: contribution.goal.name,
+        wallets: walletChanges,
+        oldCurrentAmount: contribution.goal.currentAmount,
+        newCurrentAmount,
+        reopened,
+      }),
+      userId,
+      familyId,
+    },
+  });
+
+  return { wallets: walletChanges, newCurrentAmount, reopened };
+}
+
+export type GoalReconciliationIssue =
+  | "EARMARK_EXCEEDS_BALANCE"
+  | "EARMARK_EXCEEDS_GOAL";
+
+export interface GoalReconciliation {
+  goals: Array<{
+    id: string;
+    name: string;
+    status: string;
+    currentAmount: number;
+    /** Dialokasikan di dompet (uang masih di dompet) */
+    earmarked: number;
+    /** Sudah dipindahkan keluar dompet atau dicatat manual */
+    saved: number;
+    wallets: Array<{ walletId: string; name: string; amount: number }>;
+    issues: GoalReconciliationIssue[];
+  }>;
+  wallets: Array<{
+    id: string;
+    name: string;
+    balance: number;
+    earmarked: number;
+    available: number;
+    /** Alokasi yang tidak lagi ditutupi saldo dompet */
+    shortfall: number;
+  }>;
+  summary: {
+    totalCurrentAmount: number;
+    totalEarmarked: number;
+    totalSaved: number;
+    totalShortfall: number;
+  };
+}
+
+/**
+ * Compare goal balances with the money actually held in wallets
+ *
+ * Dompet yang saldonya turun di bawah total alokasi (mis. karena
+ * pengeluaran) ditandai `shortfall`, dan goal yang dananya ada di dompet
+ * tersebut mendapat issue `EARMARK_EXCEEDS_BALANCE`.
+ */
+export async function getGoalReconciliation(
+  db: DbClient,
+  familyId: string
+): Promise<GoalReconciliation> {
+  const [goals, earmarks] = await Promise.all([
+    db.goal.findMany({
+      where: { familyId },
+      select: { id: true, name: true, status: true, currentAmount: true },
+      orderBy: { createdAt: "desc" },
+    }),
+    getEarmarkBalances(db, familyId),
+  ]);
+
+  const walletIds = [...new Set(earmarks.map((entry) => entry.walletId))];
+  const wallets = await db.wallet.findMany({
+    where: { familyId, id: { in: walletIds } },
+    select: { id: true, name: true, balance: true },
+  });
+
+  const walletRows = wallets.map((wallet) => {
+    const earmarked = sumMoney(
+      earmarks.filter((entry) => entry.walletId === wallet.id),
+      (entry) => entry.amount
+    );
+    const available = subtractMoney(wallet.balance, earmarked);
+    return {
+      id: wallet.id,
+      name: wallet.name,
+      balance: wallet.balance,
+      earmarked,
+      available,
+      shortfall: available < 0 ? -available : 0,
+    };
+  });
+  const walletById = new Map(walletRows.map((wallet) => [wallet.id, wallet]));
+
+  const goalRows = goals.map((goal) => {
+    const goalEarmarks = earmarks.filter((entry) => entry.goalId === goal.id);
+    const earmarked = sumMoney(goalEarmarks, (entry) => entry.amount);
+    const issues: GoalReconciliationIssue[] = [];
+
+    if (
+      goalEarmarks.some(
+        (entry) => (walletById.get(entry.walletId)?.shortfall ?? 0) > 0
+      )
+    ) {
+      issues.push("EARMARK_EXCEEDS_BALANCE");
+    }
+    if (earmarked > goal.currentAmount) {
+      issues.push("EARMARK_EXCEEDS_GOAL");
+    }
+
+    return {
+      id: goal.id,
+      name: goal.name,
+      status: goal.status,
+      currentAmount: goal.currentAmount,
+      earmarked,
+      saved: subtractMoney(goal.currentAmount, earmarked),
+      wallets: goalEarmarks.map((entry) => ({
+        walletId: entry.walletId,
+        name: walletById.get(entry.walletId)?.name ?? "Wallet",
+        amount: entry.amount,
+      })),
+      issues,
+    };
+  });
+
+  return {
+    goals: goalRows,
+    wallets: walletRows,
+    summary: {
+      totalCurrentAmount: sumMoney(goalRows, (goal) => goal.currentAmount),
+      totalEarmarked: sumMoney(goalRows, (goal) => goal.earmarked),
+      totalSaved: sumMoney(goalRows, (goal) => goal.saved),
+      totalShortfall: sumMoney(walletRows, (wallet) => wallet.shortfall),
+    },
+  };
+}
+
+/**
+ * Record the contribution of a recurring goal contribution run
+ * (`RecurringTransaction.goalId`), debiting or earmarking `fromWalletId`
+ *
+ * @throws Error like recordGoalContribution, e.g. "Goal tidak aktif" once
+ * the goal is completed or cancelled
+ */
+export async function recordRecurringContribution(
+  tx: DbClient,
+  recurring: {
+    id: string;
+    name: string;
+    familyId: string;
+    goalId: string;
+    goalFunding: GoalFunding | null;
+    amount: number;
+    description: string | null;
+    fromWalletId: string | null;
+  },
+  userId: string,
+  date: Date
+) {
+  return recordGoalContribution(
+    tx,
+    recurring.familyId,
+    userId,
+    recurring.goalId,
+    {
+      amount: recurring.amount,
+      description: recurring.description ?? `${recurring.name} (Recurring)`,
+      date: date.toISOString(),
+      walletId: recurring.fromWalletId ?? undefined,
+      funding: recurring.goalFunding ?? undefined,
+    },
+    { recurringId: recurring.id }
+  );
+}
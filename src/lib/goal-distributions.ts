@@ -0,0 +1,275 @@
+/**
+ * Goal fund distributions
+ *
+ * Penarikan/penyaluran dana goal (mis. membayar trip Bali) mengurangi
+ * `Goal.currentAmount`. Jika ada `walletId`, dana dikreditkan ke dompet
+ * lewat TRANSFER masuk tanpa dompet sumber (bukan pemasukan, hanya
+ * memindahkan tabungan goal ke dompet).
+ *
+ * Dana yang dialokasikan (EARMARK, lihat goal-contributions.ts) di dompet
+ * tujuan dilepas lebih dulu tanpa transaksi karena uangnya sudah ada di
+ * dompet; hanya sisanya yang dikreditkan. Dana yang dialokasikan di dompet
+ * lain tidak bisa ditarik ke dompet berbeda atau tanpa dompet.
+ *
+ * Penarikan dan transaksinya selalu dibuat/dihapus bersama dalam satu
+ * database transaction. Status goal tidak berubah oleh penarikan.
+ */
+
+import { z } from "zod";
+import { DbClient } from "./prisma";
+import {
+  applyWalletDeltas,
+  getWalletDeltas,
+  mergeWalletDeltas,
+} from "./transaction-ledger";
+import { resolveTransactionCurrency } from "./currency";
+import { addMoney, subtractMoney } from "./money";
+import { getGoalEarmarked } from "./goal-contributions";
+
+export const goalDistributionSchema = z.object({
+  amount: z.coerce
+    .number({ invalid_type_error: "Jumlah penarikan harus berupa angka" })
+    .positive("Jumlah penarikan harus lebih dari 0")
+    .max(999999999999, "Jumlah penarikan terlalu besar"),
+  description: z
+    .string()
+    .max(500, "Deskripsi maksimal 500 karakter")
+    .optional(),
+  // Default: anggota yang mencatat penarikan
+  recipientName: z
+    .string()
+    .trim()
+    .min(1, "Nama penerima wajib diisi")
+    .max(100, "Nama penerima maksimal 100 karakter")
+    .optional(),
+  recipientEmail: z.string().email("Email penerima tidak valid").optional(),
+  date: z.string().datetime({ message: "Format tanggal tidak valid" }).optional(),
+  // Optional: dompet yang dikredit (membuat transaksi pasangannya)
+  walletId: z.string().min(1, "Wallet ID tidak valid").optional(),
+  // Kirim email pemberitahuan ke penerima (default: ya)
+  notifyRecipient: z.boolean().optional().default(true),
+});
+
+export type GoalDistributionInput = z.infer<typeof goalDistributionSchema>;
+
+/**
+ * Record a goal distribution inside a database transaction
+ *
+ * @throws Error if the goal or wallet is missing, belongs to another family,
+ * or the amount exceeds the collected (or withdrawable) funds
+ */
+export async function recordGoalDistribution(
+  tx: DbClient,
+  familyId: string,
+  user: { id: string; name: string; email: string },
+  goalId: string,
+  input: GoalDistributionInput
+) {
+  const goal = await tx.goal.findFirst({
+    where: { id: goalId, familyId },
+    select: { id: true, name: true, currentAmount: true },
+  });
+
+  if (!goal) {
+    throw new Error("Goal tidak ditemukan");
+  }
+
+  if (input.amount > goal.currentAmount) {
+    throw new Error(
+      `Dana goal tidak mencukupi (terkumpul Rp ${goal.currentAmount.toLocaleString(
+        "id-ID"
+      )})`
+    );
+  }
+
+  // Alokasi di dompet tujuan dilepas dulu, sisanya diambil dari dana
+  // "tersimpan" goal
+  const earmarked = await getGoalEarmarked(tx, familyId, goal.id);
+  const earmarkReleased = input.walletId
+    ? Math.min(input.amount, earmarked.byWallet.get(input.walletId) ?? 0)
+    : 0;
+  const creditAmount = subtractMoney(input.amount, earmarkReleased);
+  if (creditAmount > subtractMoney(goal.currentAmount, earmarked.total)) {
+    throw new Error(
+      "Dana goal tidak mencukupi, sebagian dana dialokasikan di dompet (tarik ke dompet tersebut)"
+    );
+  }
+
+  const date = input.date ? new Date(input.date) : new Date();
+
+  let currency: string | null = null;
+  if (input.walletId) {
+    const wallet = await tx.wallet.findUnique({
+      where: { id: input.walletId },
+      select: { familyId: true, currency: true, isArchived: true },
+    });
+
+    if (!wallet || wallet.familyId !== familyId) {
+      throw new Error("Wallet tidak ditemukan");
+    }
+
+    if (wallet.isArchived) {
+      throw new Error("Wallet sudah diarsipkan");
+    }
+
+    // Goal dicatat dalam mata uang dasar keluarga
+    currency = await resolveTransactionCurrency(tx, familyId, null);
+    if (wallet.currency !== currency) {
+      throw new Error(`Penarikan goal harus ke dompet bermata uang ${currency}`);
+    }
+  }
+
+  const distribution = await tx.goalDistribution.create({
+    data: {
+      goalId: goal.id,
+      amount: input.amount,
+      description: input.description?.trim() || null,
+      recipientName: input.recipientName ?? user.name,
+      recipientEmail: input.recipientEmail ?? user.email,
+      date,
+      userId: user.id,
+      walletId: input.walletId ?? null,
+      earmarkReleased,
+    },
+    include: { wallet: { select: { id: true, name: true } } },
+  });
+
+  const transactions = [];
+  if (input.walletId && currency && creditAmount > 0) {
+    transactions.push(
+      await tx.transaction.create({
+        data: {
+          type: "TRANSFER",
+          amount: creditAmount,
+          currency,
+          description: `Penarikan goal ${goal.name}`,
+          notes: input.description?.trim() || null,
+          date,
+          toWalletId: input.walletId,
+          goalDistributionId: distribution.id,
+          userId: user.id,
+          familyId,
+        },
+      })
+    );
+  }
+
+  const walletChanges = await applyWalletDeltas(
+    tx,
+    familyId,
+    mergeWalletDeltas(...transactions.map((entry) => getWalletDeltas(entry)))
+  );
+
+  const newCurrentAmount = subtractMoney(goal.currentAmount, input.amount);
+  await tx.goal.update({
+    where: { id: goal.id },
+    data: { currentAmount: newCurrentAmount },
+  });
+
+  await tx.auditLog.create({
+    data: {
+      action: "CREATE_GOAL_DISTRIBUTION",
+      entityType: "GoalDistribution",
+      entityId: distribution.id,
+      details: JSON.stringify({
+        goalId: goal.id,
+        amount: input.amount,
+        recipientName: distribution.recipientName,
+        recipientEmail: distribution.recipientEmail,
+        earmarkReleased,
+        transactionIds: transactions.map((entry) => entry.id),
+        wallets: walletChanges,
+        oldCurrentAmount: goal.currentAmount,
+        newCurrentAmount,
+      }),
+      userId: user.id,
+      familyId,
+    },
+  });
+
+  return {
+    distribution,
+    goal: { id: goal.id, name: goal.name },
+    transactions,
+    wallets: walletChanges,
+    newCurrentAmount,
+  };
+}
+
+/**
+ * Delete a goal distribution together with its linked transaction, taking
+ * the money back from the wallet and returning it to the goal
+ *
+ * Dipakai baik saat penarikan dihapus maupun saat transaksinya dihapus,
+ * agar kedua sisi tetap konsisten.
+ *
+ * @throws Error if the wallet no longer holds the credited amount
+ */
+export async function deleteGoalDistribution(
+  tx: DbClient,
+  familyId: string,
+  userId: string,
+  distributionId: string
+) {
+  const distribution = await tx.goalDistribution.findFirst({
+    where: { id: distributionId, goal: { familyId } },
+    include: {
+      transactions: { include: { splits: true } },
+      goal: { select: { id: true, currentAmount: true } },
+    },
+  });
+
+  if (!distribution) {
+    throw new Error("Penarikan goal tidak ditemukan");
+  }
+
+  const walletChanges = await applyWalletDeltas(
+    tx,
+    familyId,
+    mergeWalletDeltas(
+      ...distribution.transactions.map((entry) => getWalletDeltas(entry, -1))
+    )
+  );
+
+  await tx.transaction.deleteMany({
+    where: { goalDistributionId: distribution.id },
+  });
+
+  const newCurrentAmount = addMoney(
+    distribution.goal.currentAmount,
+    distribution.amount
+  );
+  await tx.goal.update({
+    where: { id: distribution.goal.id },
+    data: { currentAmount: newCurrentAmount },
+  });
+
+  await tx.goalDistribution.delete({ where: { id: distribution.id } });
+
+  await tx.auditLog.create({
+    data: {
+      action: "DELETE_GOAL_DISTRIBUTION",
+      entityType: "GoalDistribution",
+      entityId: distribution.id,
+      dataBefore: JSON.stringify({
+        goalId: distribution.goalId,
+        amount: distribution.amount,
+        recipientName: distribution.recipientName,
+        recipientEmail: distribution.recipientEmail,
+        date: distribution.date,
+        walletId: distribution.walletId,
+        earmarkReleased: distribution.earmarkReleased,
+        transactionIds: distribution.transactions.map((entry) => entry.id),
+      }),
+      details: JSON.stringify({
+        wallets: walletChanges,
+        oldCurrentAmount: distribution.goal.currentAmount,
+        newCurrentAmount,
+      }),
+      userId,
+      familyId,
+    },
+  });
+
+  return { wallets: walletChanges, newCurrentAmount };
+}
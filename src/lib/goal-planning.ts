@@ -0,0 +1,320 @@
+/**
+ * Goal planning
+ *
+ * Menghitung untuk setiap goal aktif:
+ * - tabungan bulanan yang dibutuhkan agar target tercapai sebelum deadline
+ * - rata-rata kontribusi bulanan dari riwayat (maks. GOAL_HISTORY_MONTHS
+ *   bulan terakhir, atau sejak goal dibuat)
+ * - perkiraan tanggal tercapai dengan laju rata-rata tersebut
+ * - status on-track/behind
+ *
+ * Allocator membagi satu jumlah tabungan bulanan keluarga ke goal aktif:
+ * kebutuhan bulanan tiap goal dipenuhi lebih dulu sesuai urutan strategi,
+ * lalu sisanya dialirkan ke goal teratas sampai kekurangannya tertutup.
+ *
+ * - priority: `Goal.priority` (1 = paling penting), lalu deadline terdekat
+ * - deadline: deadline terdekat dulu, lalu prioritas
+ */
+
+import { z } from "zod";
+import { DbClient } from "./prisma";
+import { addMoney, roundMoney, subtractMoney, sumMoney } from "./money";
+
+export const ALLOCATION_STRATEGIES = ["priority", "deadline"] as const;
+
+export type AllocationStrategy = (typeof ALLOCATION_STRATEGIES)[number];
+
+/**
+ * Rentang riwayat kontribusi untuk rata-rata bulanan
+ */
+export const GOAL_HISTORY_MONTHS = 6;
+
+/**
+ * Goal priority range (1 = paling penting)
+ */
+export const GOAL_PRIORITY_MIN = 1;
+export const GOAL_PRIORITY_MAX = 5;
+export const DEFAULT_GOAL_PRIORITY = 3;
+
+const DAYS_PER_MONTH = 30.4375;
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+export const goalPrioritySchema = z.coerce
+  .number({ invalid_type_error: "Prioritas harus berupa angka" })
+  .int("Prioritas harus bilangan bulat")
+  .min(GOAL_PRIORITY_MIN, `Prioritas minimal ${GOAL_PRIORITY_MIN}`)
+  .max(GOAL_PRIORITY_MAX, `Prioritas maksimal ${GOAL_PRIORITY_MAX}`);
+
+export const goalPlanQuerySchema = z.object({
+  // Opsional: tanpa jumlah ini hanya rencana per goal yang dihitung
+  monthlyAmount: z.coerce
+    .number({
+      invalid_type_error: "Jumlah tabungan bulanan harus berupa angka",
+    })
+    .positive("Jumlah tabungan bulanan harus lebih dari 0")
+    .max(999999999999, "Jumlah tabungan bulanan terlalu besar")
+    .optional(),
+  strategy: z
+    .enum(ALLOCATION_STRATEGIES, {
+      errorMap: () => ({ message: "Strategi harus priority atau deadline" }),
+    })
+    .optional()
+    .default("priority"),
+});
+
+export type GoalPlanQuery = z.infer<typeof goalPlanQuerySchema>;
+
+export type GoalPlanStatus =
+  "COMPLETED" | "ON_TRACK" | "BEHIND" | "OVERDUE" | "NO_DEADLINE";
+
+export interface PlanningGoal {
+  id: string;
+  name: string;
+  targetAmount: number;
+  currentAmount: number;
+  deadline: Date | null;
+  priority: number;
+  createdAt: Date;
+  contributions: Array<{ amount: number; date: Date }>;
+}
+
+export interface GoalPlan {
+  goalId: string;
+  remaining: number;
+  /** Bulan tersisa sampai deadline (pecahan, null = tanpa deadline) */
+  monthsLeft: number | null;
+  /** Tabungan per bulan agar tercapai tepat di deadline */
+  requiredMonthly: number | null;
+  /** Rata-rata kontribusi per bulan dari riwayat */
+  averageMonthly: number;
+  /** Perkiraan tanggal tercapai dengan laju rata-rata (null = tidak ada laju) */
+  projectedCompletionDate: Date | null;
+  status: GoalPlanStatus;
+  /** Kekurangan per bulan dibanding kebutuhan (0 jika on-track) */
+  monthlyGap: number;
+}
+
+export interface GoalAllocation {
+  goalId: string;
+  name: string;
+  priority: number;
+  deadline: Date | null;
+  requiredMonthly: number | null;
+  allocated: number;
+  /** Kebutuhan bulanan yang tidak tertutup alokasi */
+  shortfall: number;
+}
+
+export interface SavingsAllocation {
+  strategy: AllocationStrategy;
+  monthlyAmount: number;
+  allocations: GoalAllocation[];
+  /** Sisa yang tidak dibutuhkan goal mana pun */
+  unallocated: number;
+  /** true jika kebutuhan bulanan semua goal tertutup */
+  fullyFunded: boolean;
+}
+
+function monthsBetween(from: Date, to: Date): number {
+  return (to.getTime() - from.getTime()) / MS_PER_DAY / DAYS_PER_MONTH;
+}
+
+/**
+ * Compute the saving plan of one goal
+ */
+export function getGoalPlan(
+  goal: PlanningGoal,
+  today: Date = new Date()
+): GoalPlan {
+  const remaining = Math.max(
+    subtractMoney(goal.targetAmount, goal.currentAmount),
+    0
+  );
+
+  // Rata-rata kontribusi: jendela maks. GOAL_HISTORY_MONTHS bulan, minimal
+  // satu bulan untuk goal yang baru dibuat
+  const windowMonths = Math.min(
+    Math.max(monthsBetween(goal.createdAt, today), 1),
+    GOAL_HISTORY_MONTHS
+  );
+  const windowStart = new Date(
+    today.getTime() - windowMonths * DAYS_PER_MONTH * MS_PER_DAY
+  );
+  const recent = goal.contributions.filter(
+    (contribution) =>
+      contribution.date >= windowStart && contribution.date <= today
+  );
+  const averageMonthly = roundMoney(
+    sumMoney(recent, (contribution) => contribution.amount) / windowMonths
+  );
+
+  const monthsLeft = goal.deadline
+    ? Math.max(Math.round(monthsBetween(today, goal.deadline) * 10) / 10, 0)
+    : null;
+  const requiredMonthly =
+    monthsLeft === null
+      ? null
+      : remaining === 0
+        ? 0
+        : roundMoney(remaining / Math.max(monthsLeft, 1));
+
+  const projectedCompletionDate =
+    remaining === 0
+      ? today
+      : averageMonthly > 0
+        ? new Date(
+            today.getTime() +
+              (remaining / averageMonthly) * DAYS_PER_MONTH * MS_PER_DAY
+          )
+        : null;
+
+  let status: GoalPlanStatus;
+  if (remaining === 0) {
+    status = "COMPLETED";
+  } else if (!goal.deadline) {
+    status = "NO_DEADLINE";
+  } else if (goal.deadline < today) {
+    status = "OVERDUE";
+  } else {
+    status = averageMonthly >= requiredMonthly! ? "ON_TRACK" : "BEHIND";
+  }
+
+  return {
+    goalId: goal.id,
+    remaining,
+    monthsLeft,
+    requiredMonthly,
+    averageMonthly,
+    projectedCompletionDate,
+    status,
+    monthlyGap:
+      status === "BEHIND" || status === "OVERDUE"
+        ? Math.max(
+            subtractMoney(requiredMonthly ?? remaining, averageMonthly),
+            0
+          )
+        : 0,
+  };
+}
+
+const byPriority = (a: PlanningGoal, b: PlanningGoal) =>
+  a.priority - b.priority;
+
+const byDeadline = (a: PlanningGoal, b: PlanningGoal) =>
+  (a.deadline?.getTime() ?? Infinity) - (b.deadline?.getTime() ?? Infinity);
+
+/**
+ * Order goals for allocation
+ */
+export function orderGoals<T extends PlanningGoal>(
+  goals: T[],
+  strategy: AllocationStrategy
+): T[] {
+  const compare =
+    strategy === "priority"
+      ? (a: T, b: T) => byPriority(a, b) || byDeadline(a, b)
+      : (a: T, b: T) => byDeadline(a, b) || byPriority(a, b);
+
+  return [...goals].sort(
+    (a, b) => compare(a, b) || a.name.localeCompare(b.name)
+  );
+}
+
+/**
+ * Split a monthly savings amount across active goals
+ *
+ * Goal terlambat (OVERDUE) membutuhkan seluruh sisanya bulan ini; goal
+ * tanpa deadline hanya mendapat sisa setelah semua kebutuhan terpenuhi.
+ */
+export function allocateMonthlySavings(
+  goals: PlanningGoal[],
+  plans: Map<string, GoalPlan>,
+  monthlyAmount: number,
+  strategy: AllocationStrategy
+): SavingsAllocation {
+  const ordered = orderGoals(
+    goals.filter((goal) => (plans.get(goal.id)?.remaining ?? 0) > 0),
+    strategy
+  );
+
+  const allocated = new Map(ordered.map((goal) => [goal.id, 0]));
+  let available = monthlyAmount;
+  const give = (goal: PlanningGoal, limit: number) => {
+    const amount = Math.min(limit, available);
+    if (amount <= 0) return;
+    allocated.set(goal.id, addMoney(allocated.get(goal.id)!, amount));
+    available = subtractMoney(available, amount);
+  };
+
+  const required = (goal: PlanningGoal) => {
+    const plan = plans.get(goal.id)!;
+    return plan.status === "OVERDUE" ? plan.remaining : plan.requiredMonthly;
+  };
+
+  // 1. Kebutuhan bulanan sesuai urutan, 2. sisa ke goal teratas
+  for (const goal of ordered) give(goal, required(goal) ?? 0);
+  for (const goal of ordered) {
+    give(
+      goal,
+      subtractMoney(plans.get(goal.id)!.remaining, allocated.get(goal.id)!)
+    );
+  }
+
+  const allocations = ordered.map((goal) => {
+    const requiredMonthly = required(goal);
+    const amount = allocated.get(goal.id)!;
+    return {
+      goalId: goal.id,
+      name: goal.name,
+      priority: goal.priority,
+      deadline: goal.deadline,
+      requiredMonthly,
+      allocated: amount,
+      shortfall: Math.max(subtractMoney(requiredMonthly ?? 0, amount), 0),
+    };
+  });
+
+  return {
+    strategy,
+    monthlyAmount,
+    allocations,
+    unallocated: available,
+    fullyFunded: allocations.every((entry) => entry.shortfall === 0),
+  };
+}
+
+/**
+ * Load active goals of a family with their recent contributions and plans
+ */
+export async function getFamilyGoalPlans(
+  db: DbClient,
+  familyId: string,
+  today: Date = new Date()
+) {
+  const historyStart = new Date(
+    today.getTime() - GOAL_HISTORY_MONTHS * DAYS_PER_MONTH * MS_PER_DAY
+  );
+
+  const goals: PlanningGoal[] = await db.goal.findMany({
+    where: { familyId, status: "ACTIVE" },
+    select: {
+      id: true,
+      name: true,
+      targetAmount: true,
+      currentAmount: true,
+      deadline: true,
+      priority: true,
+      createdAt: true,
+      contributions: {
+        where: { date: { gte: historyStart } },
+        select: { amount: true, date: true },
+      },
+    },
+  });
+
+  const plans = new Map(
+    goals.map((goal) => [goal.id, getGoalPlan(goal, today)])
+  );
+
+  return { goals, plans };
+}
@@ -0,0 +1,312 @@
+/**
+ * Balance integrity checker
+ *
+ * `Wallet.balance`, `Budget.spent` dan `Goal.currentAmount` adalah nilai
+ * denormalisasi. Modul ini menghitung ulang nilainya dari data sumber
+ * (Transaction, TransactionSplit, GoalContribution, GoalDistribution),
+ * melaporkan selisihnya, dan dapat memperbaikinya dengan mencatat AuditLog
+ * per perubahan.
+ *
+ * Dipakai oleh GET/POST /api/integrity, POST /api/cron/check-integrity dan
+ * script `pnpm db:check-integrity`.
+ */
+
+import { DbClient } from "./prisma";
+import { getCurrencyConverter } from "./currency";
+import { getCategorySpending, getWalletDeltas } from "./transaction-ledger";
+import { addMoney, subtractMoney, sumMoney } from "./money";
+import {
+  BudgetPeriodConfig,
+  getBudgetPeriodRange,
+  isRecurringBudget,
+  PeriodRange,
+} from "./budget-periods";
+
+export type IntegrityEntityType = "Wallet" | "Budget" | "Goal";
+
+export interface BalanceDiscrepancy {
+  entityType: IntegrityEntityType;
+  entityId: string;
+  name: string;
+  field: "balance" | "spent" | "currentAmount";
+  stored: number;
+  expected: number;
+  difference: number;
+}
+
+export interface IntegrityReport {
+  familyId: string;
+  checkedAt: Date;
+  checked: { wallets: number; budgets: number; goals: number };
+  discrepancies: BalanceDiscrepancy[];
+}
+
+/**
+ * Period whose spending `Budget.spent` holds, or null when it cannot be
+ * checked
+ *
+ * Sama dengan `recalculateBudgetSpent`: baris month/year mencatat bulannya,
+ * budget berulang hanya periode yang sedang berjalan. Budget berulang yang
+ * belum mulai atau sudah berakhir dilewati.
+ */
+function getBudgetRange(
+  budget: BudgetPeriodConfig & { endDate: Date | null },
+  now: Date
+): PeriodRange | null {
+  if (
+    isRecurringBudget(budget) &&
+    (!budget.startDate ||
+      budget.startDate > now ||
+      (budget.endDate && budget.endDate < now))
+  ) {
+    return null;
+  }
+
+  return getBudgetPeriodRange(budget, now);
+}
+
+/**
+ * Expected wallet balances: opening balance plus the effect of every
+ * transaction, aggregated per (type, fromWallet, toWallet)
+ */
+async function getExpectedWalletBalances(
+  db: DbClient,
+  familyId: string,
+  wallets: Array<{ id: string; openingBalance: number }>
+): Promise<Map<string, number>> {
+  const groups = await db.transaction.groupBy({
+    by: ["type", "fromWalletId", "toWalletId"],
+    where: { familyId },
+    _sum: { amount: true },
+  });
+
+  const expected = new Map(
+    wallets.map((wallet) => [wallet.id, wallet.openingBalance])
+  );
+
+  for (const group of groups) {
+    const deltas = getWalletDeltas({
+      type: group.type,
+      amount: group._sum.amount ?? 0,
+      fromWalletId: group.fromWalletId,
+      toWalletId: group.toWalletId,
+    });
+
+    for (const [walletId, delta] of deltas) {
+      if (expected.has(walletId)) {
+        expected.set(walletId, addMoney(expected.get(walletId)!, delta));
+      }
+    }
+  }
+
+  return expected;
+}
+
+/**
+ * Recompute denormalized balances of a family and list the mismatches
+ */
+export async function checkFamilyIntegrity(
+  db: DbClient,
+  familyId: string
+): Promise<IntegrityReport> {
+  const [wallets, budgets, goals, contributions, distributions, converter] =
+    await Promise.all([
+      db.wallet.findMany({
+        where: { familyId },
+        select: { id: true, name: true, balance: true, openingBalance: true },
+      }),
+      db.budget.findMany({
+        where: { familyId },
+        select: {
+          id: true,
+          name: true,
+          spent: true,
+          period: true,
+          month: true,
+          year: true,
+          startDate: true,
+          endDate: true,
+          cycleStartDay: true,
+          categoryId: true,
+          category: { select: { name: true } },
+        },
+      }),
+      db.goal.findMany({
+        where: { familyId },
+        select: { id: true, name: true, currentAmount: true },
+      }),
+      db.goalContribution.groupBy({
+        by: ["goalId"],
+        where: { goal: { familyId } },
+        _sum: { amount: true },
+      }),
+      db.goalDistribution.groupBy({
+        by: ["goalId"],
+        where: { goal: { familyId } },
+        _sum: { amount: true },
+      }),
+      getCurrencyConverter(db, familyId),
+    ]);
+
+  const discrepancies: BalanceDiscrepancy[] = [];
+  const compare = (
+    entry: Omit<BalanceDiscrepancy, "difference">
+  ) => {
+    const difference = subtractMoney(entry.expected, entry.stored);
+    if (difference !== 0) {
+      discrepancies.push({ ...entry, difference });
+    }
+  };
+
+  // 1. Wallet.balance
+  const expectedBalances = await getExpectedWalletBalances(
+    db,
+    familyId,
+    wallets
+  );
+  for (const wallet of wallets) {
+    compare({
+      entityType: "Wallet",
+      entityId: wallet.id,
+      name: wallet.name,
+      field: "balance",
+      stored: wallet.balance,
+      expected: expectedBalances.get(wallet.id) ?? wallet.openingBalance,
+    });
+  }
+
+  // 2. Budget.spent (split-aware, subkategori ikut kategori induk)
+  let checkedBudgets = 0;
+  const now = new Date();
+  for (const budget of budgets) {
+    const range = getBudgetRange(budget, now);
+    if (!range) continue;
+
+    const spending = await getCategorySpending(
+      db,
+      familyId,
+      range,
+      budget.categoryId
+        ? { categoryIds: [budget.categoryId], converter, rollup: true }
+        : { converter }
+    );
+    const expected = budget.categoryId
+      ? spending.get(budget.categoryId)?.amount ?? 0
+      : sumMoney([...spending.values()], (item) => item.amount);
+
+    checkedBudgets++;
+    compare({
+      entityType: "Budget",
+      entityId: budget.id,
+      name: budget.name ?? budget.category?.name ?? "Budget",
+      field: "spent",
+      stored: budget.spent,
+      expected,
+    });
+  }
+
+  // 3. Goal.currentAmount (kontribusi dikurangi penarikan)
+  const contributed = new Map(
+    contributions.map((group) => [group.goalId, group._sum.amount ?? 0])
+  );
+  const distributed = new Map(
+    distributions.map((group) => [group.goalId, group._sum.amount ?? 0])
+  );
+  for (const goal of goals) {
+    compare({
+      entityType: "Goal",
+      entityId: goal.id,
+      name: goal.name,
+      field: "currentAmount",
+      stored: goal.currentAmount,
+      expected: subtractMoney(
+        contributed.get(goal.id) ?? 0,
+        distributed.get(goal.id) ?? 0
+      ),
+    });
+  }
+
+  return {
+    familyId,
+    checkedAt: new Date(),
+    checked: {
+      wallets: wallets.length,
+      budgets: checkedBudgets,
+      goals: goals.length,
+    },
+    discrepancies,
+  };
+}
+
+/**
+ * Overwrite drifted values with the recomputed ones, one AuditLog per fix
+ *
+ * Jalankan di dalam `prisma.$transaction` bersama checkFamilyIntegrity agar
+ * nilai yang diperbaiki tidak berubah di antara keduanya.
+ *
+ * @returns Number of repaired records
+ */
+export async function repairDiscrepancies(
+  db: DbClient,
+  familyId: string,
+  userId: string,
+  discrepancies: BalanceDiscrepancy[]
+): Promise<number> {
+  for (const discrepancy of discrepancies) {
+    const { entityType, entityId, field, stored, expected } = discrepancy;
+
+    switch (entityType) {
+      case "Wallet":
+        await db.wallet.update({
+          where: { id: entityId },
+          data: { balance: expected },
+        });
+        break;
+      case "Budget":
+        await db.budget.update({
+          where: { id: entityId },
+          data: { spent: expected },
+        });
+        break;
+      case "Goal":
+        await db.goal.update({
+          where: { id: entityId },
+          data: { currentAmount: expected },
+        });
+        break;
+    }
+
+    await db.auditLog.create({
+      data: {
+        action: "REPAIR_BALANCE",
+        entityType,
+        entityId,
+        dataBefore: JSON.stringify({ [field]: stored }),
+        dataAfter: JSON.stringify({ [field]: expected }),
+        details: JSON.stringify({
+          source: "integrity-check",
+          difference: discrepancy.difference,
+        }),
+        userId,
+        familyId,
+      },
+    });
+  }
+
+  return discrepancies.length;
+}
+
+/**
+ * User recorded as the actor of automatic repairs: the oldest family admin
+ */
+export async function getFamilyAdminId(
+  db: DbClient,
+  familyId: string
+): Promise<string | null> {
+  const admin = await db.user.findFirst({
+    where: { familyId, role: "ADMIN" },
+    select: { id: true },
+    orderBy: { createdAt: "asc" },
+  });
+  return admin?.id ?? null;
+}
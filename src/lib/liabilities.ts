@@ -0,0 +1,48 @@
+/**
+ * Liability helpers
+ *
+ * Dipakai oleh DELETE /api/liabilities/[id] dan saat admin menyetujui
+ * penghapusan hutang sesuai kebijakan persetujuan keluarga.
+ */
+
+import { DbClient } from "./prisma";
+
+/**
+ * Delete a liability of a family and log it
+ *
+ * @throws Error if the liability is not found in the family
+ */
+export async function deleteLiability(
+  tx: DbClient,
+  familyId: string,
+  userId: string,
+  liabilityId: string
+) {
+  const liability = await tx.liability.findFirst({
+    where: { id: liabilityId, familyId },
+    select: { id: true, name: true, amount: true, remainingAmount: true },
+  });
+
+  if (!liability) {
+    throw new Error("Hutang tidak ditemukan");
+  }
+
+  await tx.liability.delete({ where: { id: liability.id } });
+
+  await tx.auditLog.create({
+    data: {
+      action: "DELETE_LIABILITY",
+      entityType: "Liability",
+      entityId: liability.id,
+      details: JSON.stringify({
+        name: liability.name,
+        amount: liability.amount,
+        remainingAmount: liability.remainingAmount,
+      }),
+      userId,
+      familyId,
+    },
+  });
+
+  return liability;
+}
@@ -0,0 +1,330 @@
+/**
+ * Liability payments linked to wallets
+ *
+ * Pembayaran hutang bisa didebit dari dompet. Jika ada `walletId`, dibuat
+ * transaksi pasangannya:
+ * - bunga  → EXPENSE ke kategori "Bunga Hutang" (masuk laporan & budget)
+ * - pokok  → TRANSFER keluar dompet tanpa dompet tujuan (bukan pengeluaran,
+ *            hanya memindahkan uang ke hutang)
+ *
+ * Pembayaran dan transaksinya selalu dibuat/dihapus bersama dalam satu
+ * database transaction, termasuk `Liability.remainingAmount`.
+ */
+
+import { z } from "zod";
+import { DbClient } from "./prisma";
+import {
+  applyWalletDeltas,
+  getWalletDeltas,
+  mergeWalletDeltas,
+  recalculateBudgetSpent,
+} from "./transaction-ledger";
+import { resolveTransactionCurrency } from "./currency";
+import { addMoney, subtractMoney } from "./money";
+
+export const INTEREST_CATEGORY_NAME = "Bunga Hutang";
+
+export const liabilityPaymentSchema = z.object({
+  liabilityId: z.string().min(1, "Hutang harus dipilih"),
+  amount: z.coerce
+    .number({ invalid_type_error: "Jumlah pembayaran harus berupa angka" })
+    .positive("Jumlah pembayaran harus lebih dari 0")
+    .max(999999999999, "Jumlah pembayaran terlalu besar"),
+  principalPaid: z.coerce.number().nonnegative().optional(),
+  interestPaid: z.coerce.number().nonnegative().optional(),
+  paymentDate: z
+    .string()
+    .datetime({ message: "Format tanggal tidak valid" })
+    .optional(),
+  notes: z.string().max(500, "Catatan maksimal 500 karakter").optional(),
+  paymentMethod: z.string().max(50).optional(),
+  // Optional: dompet yang didebit (membuat transaksi pasangannya)
+  walletId: z.string().min(1, "Wallet ID tidak valid").optional(),
+});
+
+export type LiabilityPaymentInput = z.infer<typeof liabilityPaymentSchema>;
+
+/**
+ * Get or create the expense category for loan interest
+ */
+export async function getInterestCategory(db: DbClient, familyId: string) {
+  const existing = await db.category.findFirst({
+    where: { familyId, name: INTEREST_CATEGORY_NAME, type: "EXPENSE" },
+  });
+
+  if (existing) {
+    return existing;
+  }
+
+  return db.category.create({
+    data: {
+      name: INTEREST_CATEGORY_NAME,
+      description: "Bunga dari pembayaran hutang",
+      type: "EXPENSE",
+      icon: "🏦",
+      familyId,
+    },
+  });
+}
+
+/**
+ * Split a payment into principal and interest
+ *
+ * Tanpa rincian seluruh pembayaran dianggap pokok; jika hanya salah satu
+ * diisi, sisanya menjadi bagian yang lain.
+ *
+ * @throws Error when the parts don't add up to the amount
+ */
+export function splitPayment(
+  amount: number,
+  principalPaid?: number,
+  interestPaid?: number
+): { principalPaid: number; interestPaid: number } {
+  const interest =
+    interestPaid ??
+    (principalPaid !== undefined ? subtractMoney(amount, principalPaid) : 0);
+  const principal = principalPaid ?? subtractMoney(amount, interest);
+
+  if (principal < 0 || interest < 0 || addMoney(principal, interest) !== amount) {
+    throw new Error("Pokok dan bunga harus sama dengan jumlah pembayaran");
+  }
+
+  return { principalPaid: principal, interestPaid: interest };
+}
+
+/**
+ * Record a liability payment inside a database transaction
+ *
+ * @throws Error if the liability or wallet is missing, belongs to another
+ * family, the wallet balance is insufficient, or the principal exceeds the
+ * remaining amount of a non credit card liability
+ */
+export async function recordLiabilityPayment(
+  tx: DbClient,
+  familyId: string,
+  userId: string,
+  input: LiabilityPaymentInput
+) {
+  const liability = await tx.liability.findFirst({
+    where: { id: input.liabilityId, familyId },
+    select: { id: true, name: true, type: true, remainingAmount: true },
+  });
+
+  if (!liability) {
+    throw new Error("Hutang tidak ditemukan");
+  }
+
+  const { principalPaid, interestPaid } = splitPayment(
+    input.amount,
+    input.principalPaid,
+    input.interestPaid
+  );
+  const paymentDate = input.paymentDate ? new Date(input.paymentDate) : new Date();
+
+  let currency: string | null = null;
+  if (input.walletId) {
+    const wallet = await tx.wallet.findUnique({
+      where: { id: input.walletId },
+      select: { familyId: true, currency: true, isArchived: true },
+    });
+
+    if (!wallet || wallet.familyId !== familyId) {
+      throw new Error("Wallet tidak ditemukan");
+    }
+
+    if (wallet.isArchived) {
+      throw new Error("Wallet sudah diarsipkan");
+    }
+
+    // Hutang dicatat dalam mata uang dasar keluarga
+    currency = await resolveTransactionCurrency(tx, familyId, null);
+    if (wallet.currency !== currency) {
+      throw new Error(
+        `Pembayaran hutang harus dari dompet bermata uang ${currency}`
+      );
+    }
+  }
+
+  // Aturan saldo kredit sama dengan applyCardCharge: kartu kredit boleh
+  // dibayar melebihi saldonya (menjadi saldo kredit/negatif), hutang lain
+  // tidak. Pokok yang diterapkan selalu sama dengan transfer dari dompet.
+  if (
+    liability.type !== "CREDIT_CARD" &&
+    principalPaid > Math.max(0, liability.remainingAmount)
+  ) {
+    throw new Error("Pokok pembayaran melebihi sisa hutang");
+  }
+  const principalApplied = principalPaid;
+
+  const payment = await tx.liabilityPayment.create({
+    data: {
+      liabilityId: liability.id,
+      amount: input.amount,
+      principalPaid,
+      principalApplied,
+      interestPaid,
+      paymentDate,
+      notes: input.notes,
+      paymentMethod: input.paymentMethod,
+      walletId: input.walletId ?? null,
+    },
+  });
+
+  const transactions = [];
+  if (input.walletId && currency) {
+    const base = {
+      currency,
+      date: paymentDate,
+      notes: input.notes ?? null,
+      fromWalletId: input.walletId,
+      liabilityPaymentId: payment.id,
+      userId,
+      familyId,
+    };
+
+    if (interestPaid > 0) {
+      const category = await getInterestCategory(tx, familyId);
+      transactions.push(
+        await tx.transaction.create({
+          data: {
+            ...base,
+            type: "EXPENSE",
+            amount: interestPaid,
+            description: `Bunga ${liability.name}`,
+            categoryId: category.id,
+          },
+        })
+      );
+    }
+
+    if (principalPaid > 0) {
+      transactions.push(
+        await tx.transaction.create({
+          data: {
+            ...base,
+            type: "TRANSFER",
+            amount: principalPaid,
+            description: `Pembayaran ${liability.name}`,
+          },
+        })
+      );
+    }
+  }
+
+  const walletChanges = await applyWalletDeltas(
+    tx,
+    familyId,
+    mergeWalletDeltas(...transactions.map((entry) => getWalletDeltas(entry)))
+  );
+  for (const entry of transactions) {
+    await recalculateBudgetSpent(tx, familyId, entry);
+  }
+
+  const { remainingAmount: newRemainingAmount } = await tx.liability.update({
+    where: { id: liability.id },
+    data: { remainingAmount: { decrement: principalApplied } },
+    select: { remainingAmount: true },
+  });
+
+  await tx.auditLog.create({
+    data: {
+      action: "CREATE_LIABILITY_PAYMENT",
+      entityType: "LiabilityPayment",
+      entityId: payment.id,
+      details: JSON.stringify({
+        liabilityId: liability.id,
+        amount: input.amount,
+        principalPaid,
+        principalApplied,
+        interestPaid,
+        transactionIds: transactions.map((entry) => entry.id),
+        wallets: walletChanges,
+        oldRemainingAmount: addMoney(newRemainingAmount, principalApplied),
+        newRemainingAmount,
+      }),
+      userId,
+      familyId,
+    },
+  });
+
+  return { payment, transactions, wallets: walletChanges, newRemainingAmount };
+}
+
+/**
+ * Delete a liability payment together with its linked transactions, giving
+ * the money back to the wallet and the principal back to the liability
+ *
+ * Dipakai baik saat pembayaran dihapus maupun saat salah satu transaksinya
+ * dihapus, agar kedua sisi tetap konsisten.
+ */
+export async function deleteLiabilityPayment(
+  tx: DbClient,
+  familyId: string,
+  userId: string,
+  paymentId: string
+) {
+  const payment = await tx.liabilityPayment.findFirst({
+    where: { id: paymentId, liability: { familyId } },
+    include: {
+      transactions: { include: { splits: true } },
+      liability: { select: { id: true, remainingAmount: true } },
+    },
+  });
+
+  if (!payment) {
+    throw new Error("Pembayaran hutang tidak ditemukan");
+  }
+
+  const walletChanges = await applyWalletDeltas(
+    tx,
+    familyId,
+    mergeWalletDeltas(
+      ...payment.transactions.map((entry) => getWalletDeltas(entry, -1))
+    )
+  );
+
+  await tx.transaction.deleteMany({
+    where: { liabilityPaymentId: payment.id },
+  });
+  for (const entry of payment.transactions) {
+    await recalculateBudgetSpent(tx, familyId, entry);
+  }
+
+  const { remainingAmount: newRemainingAmount } = await tx.liability.update({
+    where: { id: payment.liability.id },
+    data: { remainingAmount: { increment: payment.principalApplied } },
+    select: { remainingAmount: true },
+  });
+
+  await tx.liabilityPayment.delete({ where: { id: payment.id } });
+
+  await tx.auditLog.create({
+    data: {
+      action: "DELETE_LIABILITY_PAYMENT",
+      entityType: "LiabilityPayment",
+      entityId: payment.id,
+      dataBefore: JSON.stringify({
+        liabilityId: payment.liabilityId,
+        amount: payment.amount,
+        principalPaid: payment.principalPaid,
+        principalApplied: payment.principalApplied,
+        interestPaid: payment.interestPaid,
+        paymentDate: payment.paymentDate,
+        walletId: payment.walletId,
+        transactionIds: payment.transactions.map((entry) => entry.id),
+      }),
+      details: JSON.stringify({
+        wallets: walletChanges,
+        oldRemainingAmount: subtractMoney(
+          newRemainingAmount,
+          payment.principalApplied
+        ),
+        newRemainingAmount,
+      }),
+      userId,
+      familyId,
+    },
+  });
+
+  return { wallets: walletChanges, newRemainingAmount };
+}
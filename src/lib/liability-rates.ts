@@ -0,0 +1,247 @@
+/**
+ * Liability rate schedules
+ *
+ * Hutang seperti KPR biasanya punya bunga promo fix beberapa tahun lalu
+ * floating. Jadwal bunga disimpan sebagai periode (`LiabilityRatePeriod`)
+ * dengan `startMonth` = bulan ke-n sejak `startDate` hutang (mulai dari 1).
+ * Setiap periode berlaku sampai periode berikutnya dimulai; bulan sebelum
+ * periode pertama memakai `Liability.interestRate`.
+ */
+
+import { z } from "zod";
+
+export const ratePeriodSchema = z.object({
+  startMonth: z
+    .number({ invalid_type_error: "Bulan mulai harus berupa angka" })
+    .int("Bulan mulai harus bilangan bulat")
+    .min(1, "Bulan mulai minimal 1")
+    .max(600, "Bulan mulai maksimal 600"),
+  annualRate: z
+    .number({ invalid_type_error: "Suku bunga harus berupa angka" })
+    .nonnegative("Suku bunga tidak boleh negatif")
+    .max(100, "Suku bunga maksimal 100%"),
+  note: z
+    .string()
+    .max(100, "Catatan maksimal 100 karakter")
+    .trim()
+    .optional()
+    .nullable(),
+});
+
+export const rateScheduleSchema = z
+  .array(ratePeriodSchema)
+  .max(60, "Jadwal bunga maksimal 60 periode")
+  .refine(
+    (periods) =>
+      new Set(periods.map((period) => period.startMonth)).size ===
+      periods.length,
+    { message: "Bulan mulai pada jadwal bunga tidak boleh duplikat" }
+  );
+
+export type RatePeriodInput = z.infer<typeof ratePeriodSchema>;
+
+export interface RatePeriod {
+  startMonth: number;
+  annualRate: number;
+  note?: string | null;
+}
+
+export interface RatedLiability {
+  interestRate: number | null;
+  startDate: Date | null;
+  rates?: RatePeriod[];
+}
+
+/**
+ * Monthly rate (fraction, bukan persen) for simulation month n, where
+ * month 1 is the next month from the simulation start
+ */
+export type MonthlyRateFn = (month: number) => number;
+
+/**
+ * Loan month (1-based) that `date` falls in
+ *
+ * Tanpa `startDate` hutang dianggap berada di bulan pertama.
+ */
+export function getLoanMonth(startDate: Date | null, date: Date = new Date()): number {
+  if (!startDate) return 1;
+
+  const months =
+    (date.getFullYear() - startDate.getFullYear()) * 12 +
+    (date.getMonth() - startDate.getMonth()) -
+    (date.getDate() < startDate.getDate() ? 1 : 0);
+
+  return Math.max(1, months + 1);
+}
+
+/**
+ * Annual rate (%) that applies to a given loan month
+ */
+export function getAnnualRateForMonth(
+  liability: RatedLiability,
+  loanMonth: number
+): number {
+  let rate = liability.interestRate ?? 0;
+  let matchedMonth = 0;
+
+  for (const period of liability.rates ?? []) {
+    if (period.startMonth <= loanMonth && period.startMonth > matchedMonth) {
+      rate = period.annualRate;
+      matchedMonth = period.startMonth;
+    }
+  }
+
+  return rate;
+}
+
+/**
+ * Annual rate (%) in effect at `date`
+ */
+export function getCurrentAnnualRate(
+  liability: RatedLiability,
+  date: Date = new Date()
+): number {
+  return getAnnualRateForMonth(liability, getLoanMonth(liability.startDate, date));
+}
+
+/**
+ * Next scheduled rate change after `date` (misal akhir masa promo)
+ *
+ * Butuh `startDate` untuk menghitung tanggal perubahan.
+ */
+export function getNextRateChange(
+  liability: RatedLiability,
+  date: Date = new Date()
+): { startMonth: number; annualRate: number; date: Date } | null {
+  if (!liability.startDate) return null;
+
+  const loanMonth = getLoanMonth(liability.startDate, date);
+  const currentRate = getAnnualRateForMonth(liability, loanMonth);
+  const next = sortRatePeriods(liability.rates ?? []).find(
+    (period) =>
+      period.startMonth > loanMonth && period.annualRate !== currentRate
+  );
+  if (!next) return null;
+
+  return {
+    startMonth: next.startMonth,
+    annualRate: next.annualRate,
+    date: new Date(
+      liability.startDate.getFullYear(),
+      liability.startDate.getMonth() + next.startMonth - 1,
+      liability.startDate.getDate()
+    ),
+  };
+}
+
+/**
+ * Build a monthly rate function for simulations starting at `asOf`
+ *
+ * Bulan simulasi ke-1 = bulan pinjaman yang sedang berjalan saat `asOf`.
+ */
+export function createMonthlyRateFn(
+  liability: RatedLiability,
+  asOf: Date = new Date()
+): MonthlyRateFn {
+  const offset = getLoanMonth(liability.startDate, asOf) - 1;
+  return (month) => getAnnualRateForMonth(liability, offset + month) / 100 / 12;
+}
+
+/**
+ * Whether the rate changes at some point in the next `months` months
+ */
+export function hasRateChange(rateAt: MonthlyRateFn, months: number): boolean {
+  const first = rateAt(1);
+  for (let month = 2; month <= months; month++) {
+    if (rateAt(month) !== first) return true;
+  }
+  return false;
+}
+
+/**
+ * Simple (daily) interest accrued on `balance` between two dates, split at
+ * every rate change
+ */
+export function getAccruedInterest(
+  liability: RatedLiability,
+  balance: number,
+  from: Date,
+  to: Date = new Date()
+): number {
+  if (to <= from || balance <= 0) return 0;
+
+  const DAY = 1000 * 60 * 60 * 24;
+  let interest = 0;
+  let cursor = from;
+
+  while (cursor < to) {
+    const loanMonth = getLoanMonth(liability.startDate, cursor);
+    // Awal bulan pinjaman berikutnya (atau akhir periode jika tanpa startDate)
+    const nextBoundary = liability.startDate
+      ? new Date(
+          liability.startDate.getFullYear(),
+          liability.startDate.getMonth() + loanMonth,
+          liability.startDate.getDate()
+        )
+      : to;
+    const segmentEnd = nextBoundary < to && nextBoundary > cursor ? nextBoundary : to;
+    const days = (segmentEnd.getTime() - cursor.getTime()) / DAY;
+
+    interest +=
+      (balance * (getAnnualRateForMonth(liability, loanMonth) / 100) * days) /
+      365;
+    cursor = segmentEnd;
+  }
+
+  return Math.round(interest * 100) / 100;
+}
+
+/**
+ * Fixed monthly payment that pays `principal` off in exactly `months`
+ * months under a (possibly changing) monthly rate
+ *
+ * Untuk bunga tetap dipakai rumus anuitas; untuk bunga berubah dicari
+ * dengan bisection pada simulasi amortisasi.
+ */
+export function getRequiredPayment(
+  principal: number,
+  months: number,
+  rateAt: MonthlyRateFn
+): number {
+  if (principal <= 0 || months <= 0) return 0;
+
+  if (!hasRateChange(rateAt, months)) {
+    const rate = rateAt(1);
+    return rate === 0
+      ? principal / months
+      : (principal * rate * Math.pow(1 + rate, months)) /
+          (Math.pow(1 + rate, months) - 1);
+  }
+
+  const balanceAfter = (payment: number) => {
+    let balance = principal;
+    for (let month = 1; month <= months; month++) {
+      balance = balance * (1 + rateAt(month)) - payment;
+    }
+    return balance;
+  };
+
+  let low = 0;
+  let high = principal;
+  while (balanceAfter(high) > 0) high *= 2;
+
+  for (let i = 0; i < 100 && high - low > 0.005; i++) {
+    const mid = (low + high) / 2;
+    if (balanceAfter(mid) > 0) low = mid;
+    else high = mid;
+  }
+
+  return Math.ceil(high * 100) / 100;
+}
+
+/**
+ * Sort periods by start month (for responses and storage)
+ */
+export function sortRatePeriods<T extends RatePeriod>(periods: T[]): T[] {
+  return [...periods].sort((a, b) => a.startMonth - b.startMonth);
+}
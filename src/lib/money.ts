@@ -0,0 +1,264 @@
+/**
+ * Money helpers
+ *
+ * Kolom uang disimpan sebagai DECIMAL(18, 2) di database. Di aplikasi nilai
+ * tetap berupa `number` (satuan mata uang), tetapi semua perhitungan
+ * dilakukan dalam satuan terkecil (minor units, integer) lalu dikembalikan,
+ * sehingga tidak ada selisih pembulatan floating point yang menumpuk.
+ *
+ * @example
+ * ```typescript
+ * addMoney(0.1, 0.2);             // 0.3 (bukan 0.30000000000000004)
+ * multiplyMoney(1000000, 0.015);  // 15000
+ * allocateMoney(100, [1, 1, 1]);  // [33.34, 33.33, 33.33]
+ * ```
+ */
+
+import { Prisma } from "@prisma/client";
+
+/**
+ * Jumlah digit desimal yang disimpan (sesuai DECIMAL(18, 2))
+ */
+export const MONEY_SCALE = 2;
+
+const MINOR_FACTOR = 10 ** MONEY_SCALE;
+
+// ============================================================================
+// Minor units
+// ============================================================================
+
+/**
+ * Convert an amount to integer minor units (e.g. 12.34 → 1234)
+ *
+ * `toPrecision(15)` membuang noise floating point (1.005 * 100 =
+ * 100.49999999999999) sebelum dibulatkan.
+ */
+export function toMinor(amount: number): number {
+  return Math.round(Number((amount * MINOR_FACTOR).toPrecision(15)));
+}
+
+/**
+ * Convert integer minor units back to an amount (e.g. 1234 → 12.34)
+ */
+export function fromMinor(minor: number): number {
+  return minor / MINOR_FACTOR;
+}
+
+// ============================================================================
+// Arithmetic
+// ============================================================================
+
+/**
+ * Round an amount to the stored precision
+ */
+export function roundMoney(amount: number): number {
+  return fromMinor(toMinor(amount));
+}
+
+/**
+ * Add amounts without floating point drift
+ */
+export function addMoney(...amounts: number[]): number {
+  return fromMinor(
+    amounts.reduce((total, amount) => total + toMinor(amount), 0)
+  );
+}
+
+/**
+ * Subtract `b` from `a` without floating point drift
+ */
+export function subtractMoney(a: number, b: number): number {
+  return fromMinor(toMinor(a) - toMinor(b));
+}
+
+/**
+ * Sum a list of amounts, optionally picking the amount from each item
+ */
+export function sumMoney(amounts: number[]): number;
+export function sumMoney<T>(items: T[], getAmount: (item: T) => number): number;
+export function sumMoney<T>(
+  items: T[],
+  getAmount?: (item: T) => number
+): number {
+  return addMoney(
+    ...items.map((item) => (getAmount ? getAmount(item) : (item as number)))
+  );
+}
+
+/**
+ * Multiply an amount by a factor (interest rate, exchange rate, percentage)
+ * and round to the stored precision
+ */
+export function multiplyMoney(amount: number, factor: number): number {
+  return roundMoney(amount * factor);
+}
+
+/**
+ * Split an amount into parts proportional to `weights`; the rounding
+ * remainder goes to the first parts so the parts always add up exactly
+ */
+export function allocateMoney(amount: number, weights: number[]): number[] {
+  const total = toMinor(amount);
+  const weightSum = weights.reduce((sum, weight) => sum + weight, 0);
+
+  if (weights.length === 0 || weightSum <= 0) {
+    return weights.map(() => 0);
+  }
+
+  const parts = weights.map((weight) =>
+    Math.floor((total * weight) / weightSum)
+  );
+  let remainder = total - parts.reduce((sum, part) => sum + part, 0);
+
+  for (let i = 0; remainder > 0; i = (i + 1) % parts.length) {
+    if (weights[i] > 0) {
+      parts[i] += 1;
+      remainder -= 1;
+    }
+  }
+
+  return parts.map(fromMinor);
+}
+
+// ============================================================================
+// Database values
+// ============================================================================
+
+/**
+ * Convert a DECIMAL value (or an already converted number) to a number
+ */
+export function toMoney(
+  value: Prisma.Decimal | number | null | undefined
+): number {
+  if (value === null || value === undefined) return 0;
+  return typeof value === "number" ? roundMoney(value) : value.toNumber();
+}
+
+/**
+ * Like toMoney, but keeps null for optional columns
+ */
+export function toNullableMoney(
+  value: Prisma.Decimal | null | undefined
+): number | null {
+  return value === null || value === undefined ? null : value.toNumber();
+}
+
+/**
+ * Replace Decimal values in a query result with numbers
+ */
+function decimalsToNumbers<T>(value: T): T {
+  if (Prisma.Decimal.isDecimal(value)) {
+    return (value as Prisma.Decimal).toNumber() as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map(decimalsToNumbers) as T;
+  }
+  if (value && typeof value === "object" && !(value instanceof Date)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [
+        key,
+        decimalsToNumbers(item),
+      ])
+    ) as T;
+  }
+  return value;
+}
+
+const money = <T extends string>(field: T) => ({
+  needs: { [field]: true } as { [K in T]: true },
+  compute: (model: { [K in T]: Prisma.Decimal }) => model[field].toNumber(),
+});
+
+const nullableMoney = <T extends string>(field: T) => ({
+  needs: { [field]: true } as { [K in T]: true },
+  compute: (model: { [K in T]: Prisma.Decimal | null }) =>
+    toNullableMoney(model[field]),
+});
+
+/**
+ * Prisma client extension that returns DECIMAL money columns as numbers,
+ * so API responses and existing code keep working with plain numbers
+ *
+ * Result fields cover model queries (find*, create, update, include);
+ * `aggregate` and `groupBy` are converted by the query hooks.
+ */
+export const moneyExtension = Prisma.defineExtension({
+  name: "money",
+  query: {
+    $allModels: {
+      async aggregate({ args, query }) {
+        return decimalsToNumbers(await query(args));
+      },
+      async groupBy({ args, query }) {
+        return decimalsToNumbers(await query(args));
+      },
+    },
+  },
+  result: {
+    family: {
+      approvalTransferThreshold: nullableMoney("approvalTransferThreshold"),
+    },
+    wallet: {
+      balance: money("balance"),
+      openingBalance: money("openingBalance"),
+    },
+    transaction: { amount: money("amount") },
+    transactionSplit: { amount: money("amount") },
+    categorizationRule: {
+      minAmount: nullableMoney("minAmount"),
+      maxAmount: nullableMoney("maxAmount"),
+    },
+    walletReconciliation: {
+      statementBalance: money("statementBalance"),
+      computedBalance: money("computedBalance"),
+      difference: money("difference"),
+    },
+    asset: {
+      value: money("value"),
+      purchasePrice: nullableMoney("purchasePrice"),
+    },
+    assetValueHistory: { value: money("value") },
+    liability: {
+      amount: money("amount"),
+      remainingAmount: money("remainingAmount"),
+      monthlyPayment: nullableMoney("monthlyPayment"),
+      creditLimit: nullableMoney("creditLimit"),
+      minimumPaymentAmount: nullableMoney("minimumPaymentAmount"),
+    },
+    liabilityPayment: {
+      amount: money("amount"),
+      principalPaid: money("principalPaid"),
+      principalApplied: money("principalApplied"),
+      interestPaid: money("interestPaid"),
+    },
+    goal: {
+      targetAmount: money("targetAmount"),
+      currentAmount: money("currentAmount"),
+    },
+    goalContribution: { amount: money("amount") },
+    goalDistribution: {
+      amount: money("amount"),
+      earmarkReleased: money("earmarkReleased"),
+    },
+    budget: {
+      amount: money("amount"),
+      spent: money("spent"),
+    },
+    budgetTransfer: { amount: money("amount") },
+    memberAllowance: {
+      amount: money("amount"),
+      spendingLimit: nullableMoney("spendingLimit"),
+      approvalThreshold: nullableMoney("approvalThreshold"),
+    },
+    memberCategoryLimit: { amount: money("amount") },
+    approvalRequest: { amount: nullableMoney("amount") },
+    recurringTransaction: { amount: money("amount") },
+    transactionTemplate: { amount: nullableMoney("amount") },
+    netWorthSnapshot: {
+      walletTotal: money("walletTotal"),
+      assetTotal: money("assetTotal"),
+      liabilityTotal: money("liabilityTotal"),
+      netWorth: money("netWorth"),
+    },
+  },
+});
@@ -0,0 +1,584 @@
+/**
+ * Net worth history
+ *
+ * Kekayaan bersih = saldo semua wallet + tabungan goal yang didebit dari
+ * wallet + nilai aset - sisa hutang, dalam mata uang dasar keluarga.
+ * Snapshot disimpan per hari (DAILY) dan per bulan (MONTHLY, posisi akhir
+ * bulan) di `NetWorthSnapshot`.
+ *
+ * Posisi di masa lalu dihitung mundur dari nilai saat ini, sama seperti
+ * tagihan kartu kredit:
+ * - wallet  → saldo sekarang - efek transaksi setelah tanggal tersebut
+ * - goal    → kontribusi WALLET_DEBIT - penarikan sampai tanggal tersebut
+ *             (lihat getGoalDebitedSavings)
+ * - aset    → nilai terakhir di AssetValueHistory sebelum tanggal tersebut
+ *             (tanpa riwayat: harga beli, lalu nilai sekarang)
+ * - hutang  → sisa sekarang + pokok yang dibayar setelahnya - transaksi
+ *             kartu kredit setelahnya
+ * Wallet/aset/hutang yang belum ada pada tanggal tersebut bernilai 0.
+ */
+
+import { Prisma, SnapshotPeriod } from "@prisma/client";
+import { DbClient } from "./prisma";
+import { getCurrencyConverter } from "./currency";
+import { getWalletDeltas } from "./transaction-ledger";
+import { getCardChargeDelta } from "./credit-cards";
+import { getGoalDebitedSavings } from "./goal-contributions";
+import { addMoney, subtractMoney, sumMoney } from "./money";
+
+/**
+ * Backfill limits per period (DAILY: 1 tahun, MONTHLY: 10 tahun)
+ */
+export const MAX_BACKFILL_POINTS: Record<SnapshotPeriod, number> = {
+  DAILY: 366,
+  MONTHLY: 120,
+};
+
+export interface NetWorthBreakdown {
+  /** Saldo per tipe wallet (BANK, E_WALLET, CASH, ...); GOAL = tabungan goal */
+  wallets: Record<string, number>;
+  /** Nilai per AssetType */
+  assets: Record<string, number>;
+  /** Sisa hutang per LiabilityType */
+  liabilities: Record<string, number>;
+}
+
+export interface NetWorthPoint {
+  asOf: Date;
+  walletTotal: number;
+  assetTotal: number;
+  liabilityTotal: number;
+  netWorth: number;
+  breakdown: NetWorthBreakdown;
+}
+
+/**
+ * Month-over-month change split by cause
+ *
+ * - savings: perubahan saldo wallet (pemasukan - pengeluaran)
+ * - assetRevaluation: perubahan nilai aset (revaluasi, aset baru/terjual)
+ * - debtPaydown: penurunan sisa hutang (positif = hutang berkurang)
+ *
+ * Ketiganya selalu berjumlah `change`. Pembayaran pokok dari wallet muncul
+ * sebagai savings negatif dan debtPaydown positif dengan nilai yang sama.
+ * Kontribusi goal WALLET_DEBIT tidak mengubah savings karena tabungan goal
+ * ikut dihitung di walletTotal.
+ */
+export interface NetWorthChange {
+  change: number;
+  savings: number;
+  assetRevaluation: number;
+  debtPaydown: number;
+}
+
+type NetWorthTotals = Pick<
+  NetWorthPoint,
+  "walletTotal" | "assetTotal" | "liabilityTotal" | "netWorth"
+>;
+
+// ============================================================================
+// Periods
+// ============================================================================
+
+/**
+ * Snapshot key (`date`) and the position it captures (`asOf`)
+ *
+ * DAILY memakai awal hari, MONTHLY awal bulan. `asOf` adalah akhir hari/bulan,
+ * atau `now` jika periodenya masih berjalan.
+ */
+export function getSnapshotPeriod(
+  period: SnapshotPeriod,
+  date: Date,
+  now: Date = new Date()
+): { date: Date; asOf: Date } {
+  const start =
+    period === "DAILY"
+      ? new Date(date.getFullYear(), date.getMonth(), date.getDate())
+      : new Date(date.getFullYear(), date.getMonth(), 1);
+  const end =
+    period === "DAILY"
+      ? new Date(date.getFullYear(), date.getMonth(), date.getDate(), 23, 59, 59, 999)
+      : new Date(date.getFullYear(), date.getMonth() + 1, 0, 23, 59, 59, 999);
+
+  return { date: start, asOf: end > now ? now : end };
+}
+
+/**
+ * Snapshot keys from `from` up to `to`, newest last
+ */
+export function getSnapshotDates(
+  period: SnapshotPeriod,
+  from: Date,
+  to: Date = new Date()
+): Date[] {
+  const dates: Date[] = [];
+  let cursor = getSnapshotPeriod(period, from, to).date;
+
+  while (cursor <= to) {
+    dates.push(cursor);
+    cursor =
+      period === "DAILY"
+        ? new Date(cursor.getFullYear(), cursor.getMonth(), cursor.getDate() + 1)
+        : new Date(cursor.getFullYear(), cursor.getMonth() + 1, 1);
+  }
+
+  return dates;
+}
+
+// ============================================================================
+// Computation
+// ============================================================================
+
+function addTo(totals: Record<string, number>, key: string, amount: number) {
+  totals[key] = addMoney(totals[key] ?? 0, amount);
+}
+
+/**
+ * Compute the family's net worth at each of the given moments
+ *
+ * Semua data dimuat sekali, lalu transaksi dan pembayaran "dibatalkan"
+ * berurutan dari yang terbaru sambil berjalan mundur melewati setiap tanggal.
+ *
+ * @returns Points in the same order as `asOfDates`
+ */
+export async function computeNetWorth(
+  db: DbClient,
+  familyId: string,
+  asOfDates: Date[]
+): Promise<NetWorthPoint[]> {
+  if (asOfDates.length === 0) return [];
+
+  const earliest = new Date(
+    Math.min(...asOfDates.map((date) => date.getTime()))
+  );
+
+  const [converter, wallets, assets, liabilities, transactions, payments] =
+    await Promise.all([
+      getCurrencyConverter(db, familyId),
+      db.wallet.findMany({
+        where: { familyId },
+        select: {
+          id: true,
+          type: true,
+          balance: true,
+          currency: true,
+          createdAt: true,
+        },
+      }),
+      db.asset.findMany({
+        where: { familyId },
+        select: {
+          type: true,
+          value: true,
+          purchasePrice: true,
+          acquisitionDate: true,
+          createdAt: true,
+          valueHistory: {
+            select: { value: true, date: true },
+            orderBy: { date: "asc" },
+          },
+        },
+      }),
+      db.liability.findMany({
+        where: { familyId },
+        select: {
+          id: true,
+          type: true,
+          remainingAmount: true,
+          startDate: true,
+          createdAt: true,
+        },
+      }),
+      db.transaction.findMany({
+        where: { familyId, date: { gt: earliest } },
+        select: {
+          type: true,
+          amount: true,
+          fromWalletId: true,
+          toWalletId: true,
+          liabilityId: true,
+          date: true,
+        },
+        orderBy: { date: "desc" },
+      }),
+      db.liabilityPayment.findMany({
+        where: { liability: { familyId }, paymentDate: { gt: earliest } },
+        select: {
+          liabilityId: true,
+          principalApplied: true,
+          paymentDate: true,
+        },
+        orderBy: { paymentDate: "desc" },
+      }),
+    ]);
+
+  const goalSavings = await getGoalDebitedSavings(db, familyId, asOfDates);
+
+  // Saldo berjalan, mulai dari posisi saat ini
+  const walletBalances = new Map(
+    wallets.map((wallet) => [wallet.id, wallet.balance])
+  );
+  const liabilityBalances = new Map(
+    liabilities.map((liability) => [liability.id, liability.remainingAmount])
+  );
+  let transactionIndex = 0;
+  let paymentIndex = 0;
+
+  const order = asOfDates
+    .map((asOf, index) => ({ asOf, index }))
+    .sort((a, b) => b.asOf.getTime() - a.asOf.getTime());
+  const points: NetWorthPoint[] = new Array(asOfDates.length);
+
+  for (const { asOf, index } of order) {
+    for (
+      ;
+      transactionIndex < transactions.length &&
+      transactions[transactionIndex].date > asOf;
+      transactionIndex++
+    ) {
+      const entry = transactions[transactionIndex];
+      for (const [walletId, delta] of getWalletDeltas(entry, -1)) {
+        const balance = walletBalances.get(walletId);
+        if (balance !== undefined) {
+          walletBalances.set(walletId, addMoney(balance, delta));
+        }
+      }
+
+      const chargeDelta = getCardChargeDelta(entry, -1);
+      const cardBalance = entry.liabilityId
+        ? liabilityBalances.get(entry.liabilityId)
+        : undefined;
+      if (chargeDelta !== 0 && cardBalance !== undefined) {
+        liabilityBalances.set(
+          entry.liabilityId!,
+          addMoney(cardBalance, chargeDelta)
+        );
+      }
+    }
+
+    for (
+      ;
+      paymentIndex < payments.length &&
+      payments[paymentIndex].paymentDate > asOf;
+      paymentIndex++
+    ) {
+      const payment = payments[paymentIndex];
+      const balance = liabilityBalances.get(payment.liabilityId);
+      if (balance !== undefined) {
+        liabilityBalances.set(
+          payment.liabilityId,
+          addMoney(balance, payment.principalApplied)
+        );
+      }
+    }
+
+    const breakdown: NetWorthBreakdown = {
+      wallets: {},
+      assets: {},
+      liabilities: {},
+    };
+
+    for (const wallet of wallets) {
+      if (wallet.createdAt > asOf) continue;
+      addTo(
+        breakdown.wallets,
+        wallet.type,
+        converter.toBase(walletBalances.get(wallet.id)!, wallet.currency, asOf)
+      );
+    }
+    if (goalSavings[index] > 0) {
+      addTo(breakdown.wallets, "GOAL", goalSavings[index]);
+    }
+
+    for (const asset of assets) {
+      if ((asset.acquisitionDate ?? asset.createdAt) > asOf) continue;
+      addTo(breakdown.assets, asset.type, getAssetValueAt(asset, asOf));
+    }
+
+    for (const liability of liabilities) {
+      if ((liability.startDate ?? liability.createdAt) > asOf) continue;
+      addTo(
+        breakdown.liabilities,
+        liability.type,
+        Math.max(0, liabilityBalances.get(liability.id)!)
+      );
+    }
+
+    const walletTotal = sumMoney(Object.values(breakdown.wallets));
+    const assetTotal = sumMoney(Object.values(breakdown.assets));
+    const liabilityTotal = sumMoney(Object.values(breakdown.liabilities));
+
+    points[index] = {
+      asOf,
+      walletTotal,
+      assetTotal,
+      liabilityTotal,
+      netWorth: subtractMoney(addMoney(walletTotal, assetTotal), liabilityTotal),
+      breakdown,
+    };
+  }
+
+  return points;
+}
+
+/**
+ * Value of an asset at a moment: the latest valuation on or before it
+ */
+function getAssetValueAt(
+  asset: {
+    value: number;
+    purchasePrice: number | null;
+    valueHistory: Array<{ value: number; date: Date }>;
+  },
+  asOf: Date
+): number {
+  if (asset.valueHistory.length === 0) return asset.value;
+
+  let value: number | null = null;
+  for (const entry of asset.valueHistory) {
+    if (entry.date > asOf) break;
+    value = entry.value;
+  }
+
+  return value ?? asset.purchasePrice ?? asset.valueHistory[0].value;
+}
+
+/**
+ * Split the change between two positions by cause
+ */
+export function attributeNetWorthChange(
+  previous: NetWorthTotals,
+  current: NetWorthTotals
+): NetWorthChange {
+  return {
+    change: subtractMoney(current.netWorth, previous.netWorth),
+    savings: subtractMoney(current.walletTotal, previous.walletTotal),
+    assetRevaluation: subtractMoney(current.assetTotal, previous.assetTotal),
+    debtPaydown: subtractMoney(previous.liabilityTotal, current.liabilityTotal),
+  };
+}
+
+// ============================================================================
+// Snapshots
+// ============================================================================
+
+/**
+ * Compute and upsert snapshots for the given keys (see getSnapshotPeriod)
+ *
+ * Snapshot yang sudah ada ditimpa, jadi aman dijalankan berulang.
+ */
+export async function saveNetWorthSnapshots(
+  db: DbClient,
+  familyId: string,
+  period: SnapshotPeriod,
+  dates: Date[],
+  now: Date = new Date()
+) {
+  const keys = dates.map((date) => getSnapshotPeriod(period, date, now));
+  const [points, family] = await Promise.all([
+    computeNetWorth(
+      db,
+      familyId,
+      keys.map((key) => key.asOf)
+    ),
+    db.family.findUnique({
+      where: { id: familyId },
+      select: { currency: true },
+    }),
+  ]);
+
+  const snapshots = [];
+  for (const [i, key] of keys.entries()) {
+    const point = points[i];
+    const data = {
+      asOf: point.asOf,
+      currency: family?.currency ?? "IDR",
+      walletTotal: point.walletTotal,
+      assetTotal: point.assetTotal,
+      liabilityTotal: point.liabilityTotal,
+      netWorth: point.netWorth,
+      breakdown: point.breakdown as unknown as Prisma.InputJsonValue,
+    };
+
+    snapshots.push(
+      await db.netWorthSnapshot.upsert({
+        where: {
+          familyId_period_date: { familyId, period, date: key.date },
+        },
+        create: { ...data, familyId, period, date: key.date },
+        update: data,
+      })
+    );
+  }
+
+  return snapshots;
+}
+
+/**
+ * Take today's DAILY snapshot and refresh the running month (dipakai cron)
+ */
+export async function takeNetWorthSnapshot(
+  db: DbClient,
+  familyId: string,
+  now: Date = new Date()
+) {
+  const [daily] = await saveNetWorthSnapshots(db, familyId, "DAILY", [now], now);
+  const [monthly] = await saveNetWorthSnapshots(
+    db,
+    familyId,
+    "MONTHLY",
+    [now],
+    now
+  );
+  return { daily, monthly };
+}
+
+/**
+ * Date of the family's first recorded activity (transaksi, wallet, aset,
+ * atau hutang), or null for an empty family
+ */
+export async function getFirstActivityDate(
+  db: DbClient,
+  familyId: string
+): Promise<Date | null> {
+  const [transaction, wallet, asset, liability] = await Promise.all([
+    db.transaction.findFirst({
+      where: { familyId },
+      select: { date: true },
+      orderBy: { date: "asc" },
+    }),
+    db.wallet.findFirst({
+      where: { familyId },
+      select: { createdAt: true },
+      orderBy: { createdAt: "asc" },
+    }),
+    db.asset.aggregate({
+      where: { familyId },
+      _min: { acquisitionDate: true, createdAt: true },
+    }),
+    db.liability.aggregate({
+      where: { familyId },
+      _min: { startDate: true, createdAt: true },
+    }),
+  ]);
+
+  const dates = [
+    transaction?.date,
+    wallet?.createdAt,
+    asset._min.acquisitionDate,
+    asset._min.createdAt,
+    liability._min.startDate,
+    liability._min.createdAt,
+  ].filter((date): date is Date => date instanceof Date);
+
+  return dates.length > 0
+    ? new Date(Math.min(...dates.map((date) => date.getTime())))
+    : null;
+}
+
+/**
+ * Rebuild snapshots from the first activity (or `from`) until now
+ *
+ * Dibatasi MAX_BACKFILL_POINTS terakhir per periode.
+ *
+ * @returns Number of snapshots written
+ */
+export async function backfillNetWorth(
+  db: DbClient,
+  familyId: string,
+  period: SnapshotPeriod,
+  from?: Date,
+  now: Date = new Date()
+): Promise<number> {
+  const start = from ?? (await getFirstActivityDate(db, familyId));
+  if (!start) return 0;
+
+  const dates = getSnapshotDates(period, start, now).slice(
+    -MAX_BACKFILL_POINTS[period]
+  );
+  const snapshots = await saveNetWorthSnapshots(
+    db,
+    familyId,
+    period,
+    dates,
+    now
+  );
+  return snapshots.length;
+}
+
+/**
+ * Snapshots of the last `count` periods (oldest first), each with the
+ * change since the previous snapshot
+ *
+ * Jika keluarga belum punya snapshot sama sekali (cron belum berjalan),
+ * riwayat dihitung langsung dari transaksi tanpa disimpan.
+ */
+export async function getNetWorthHistory(
+  db: DbClient,
+  familyId: string,
+  period: SnapshotPeriod,
+  count: number,
+  now: Date = new Date()
+) {
+  // Satu periode ekstra di depan, untuk perubahan titik pertama
+  const dates = getSnapshotDates(
+    period,
+    period === "DAILY"
+      ? new Date(now.getFullYear(), now.getMonth(), now.getDate() - count)
+      : new Date(now.getFullYear(), now.getMonth() - count, 1),
+    now
+  );
+
+  const [stored, before] = await Promise.all([
+    db.netWorthSnapshot.findMany({
+      where: { familyId, period, date: { gte: dates[1] } },
+      orderBy: { date: "asc" },
+    }),
+    db.netWorthSnapshot.findFirst({
+      where: { familyId, period, date: { lt: dates[1] } },
+      orderBy: { date: "desc" },
+    }),
+  ]);
+
+  let points: Array<NetWorthPoint & { date: Date }>;
+  let isLive = false;
+
+  if (stored.length > 0 || before) {
+    points = stored.map((snapshot) => ({
+      ...snapshot,
+      breakdown: snapshot.breakdown as unknown as NetWorthBreakdown,
+    }));
+    if (before) {
+      points.unshift({
+        ...before,
+        breakdown: before.breakdown as unknown as NetWorthBreakdown,
+      });
+    }
+  } else {
+    const keys = dates.map((date) => getSnapshotPeriod(period, date, now));
+    const computed = await computeNetWorth(
+      db,
+      familyId,
+      keys.map((key) => key.asOf)
+    );
+    points = computed.map((point, i) => ({ ...point, date: keys[i].date }));
+    isLive = true;
+  }
+
+  const history = points.map((point, i) => ({
+    date: point.date,
+    asOf: point.asOf,
+    walletTotal: point.walletTotal,
+    assetTotal: point.assetTotal,
+    liabilityTotal: point.liabilityTotal,
+    netWorth: point.netWorth,
+    breakdown: point.breakdown,
+    change: i > 0 ? attributeNetWorthChange(points[i - 1], point) : null,
+  }));
+
+  return {
+    isLive,
+    // Titik pembanding di depan rentang tidak ikut dikembalikan
+    history: history.filter((point) => point.date >= dates[1]),
+  };
+}
@@ -0,0 +1,850 @@
+/**
+ * Notification digests
+ *
+ * Isi notifikasi ringkasan mingguan/bulanan, pengingat jatuh tempo dan
+ * digest lain, dipakai oleh endpoint manual `/api/notifications/send-*`
+ * dan oleh eksekutor ReminderSchedule (`/api/cron/run-reminders`).
+ */
+
+import { NotificationType, Prisma } from "@prisma/client";
+import { DbClient } from "./prisma";
+import { sendEmail } from "./email";
+import { getMonthDateRange } from "./date-helpers";
+import { getMonthBudgetsWhere } from "./budget-periods";
+import { getEffectiveBudgets, rolloverBudgetSelect } from "./budget-rollover";
+
+export interface DigestRecipient {
+  id: string;
+  name: string;
+  email: string | null;
+}
+
+/**
+ * Escape user-entered text before it goes into email HTML
+ */
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+/**
+ * Notification content ready to be stored and/or emailed
+ */
+export interface NotificationDraft {
+  type: NotificationType;
+  title: string;
+  message: string;
+  data: Prisma.InputJsonValue;
+  html: string;
+  referenceId?: string;
+  referenceType?: string;
+}
+
+/**
+ * Weekly summary of the last 7 days (hari ini termasuk)
+ */
+export async function buildWeeklySummary(
+  db: DbClient,
+  familyId: string,
+  user: DigestRecipient,
+  now: Date = new Date()
+) {
+  // Calculate week range (last 7 days)
+  const weekEnd = new Date(now);
+  weekEnd.setHours(23, 59, 59, 999);
+
+  const weekStart = new Date(weekEnd);
+  weekStart.setDate(weekStart.getDate() - 6);
+  weekStart.setHours(0, 0, 0, 0);
+
+  // Fetch transactions for the week
+  const transactions = await db.transaction.findMany({
+    where: {
+      familyId,
+      date: {
+        gte: weekStart,
+        lte: weekEnd,
+      },
+    },
+    include: {
+      category: true,
+    },
+  });
+
+  // Calculate totals
+  const income = transactions
+    .filter((t) => t.type === "INCOME")
+    .reduce((sum, t) => sum + Number(t.amount), 0);
+
+  const expense = transactions
+    .filter((t) => t.type === "EXPENSE")
+    .reduce((sum, t) => sum + Number(t.amount), 0);
+
+  const netCashFlow = income - expense;
+
+  // Group by category
+  const categoryTotals: Record<
+    string,
+    { name: string; amount: number; count: number }
+  > = {};
+
+  transactions
+    .filter((t) => t.type === "EXPENSE")
+    .forEach((t) => {
+      const categoryName = t.category?.name || "Uncategorized";
+      if (!categoryTotals[categoryName]) {
+        categoryTotals[categoryName] = {
+          name: categoryName,
+          amount: 0,
+          count: 0,
+        };
+      }
+      categoryTotals[categoryName].amount += Number(t.amount);
+      categoryTotals[categoryName].count++;
+    });
+
+  // Get top 5 categories
+  const topCategories = Object.values(categoryTotals)
+    .sort((a, b) => b.amount - a.amount)
+    .slice(0, 5);
+
+  const title = `📈 Weekly Summary (${weekStart.toLocaleDateString("id-ID", {
+    day: "numeric",
+    month: "short",
+  })} - ${weekEnd.toLocaleDateString("id-ID", {
+    day: "numeric",
+    month: "short",
+  })})`;
+
+  const message = `Income: Rp ${income.toLocaleString(
+    "id-ID"
+  )} | Expenses: Rp ${expense.toLocaleString("id-ID")} | Net: ${
+    netCashFlow >= 0 ? "+" : ""
+  }Rp ${Math.abs(netCashFlow).toLocaleString("id-ID")}`;
+
+  const html = `
+<div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+  <div style="background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); color: white; padding: 20px; border-radius: 8px 8px 0 0;">
+    <h2 style="margin: 0;">📈 Weekly Financial Summary</h2>
+    <p style="margin: 5px 0 0 0;">${weekStart.toLocaleDateString("id-ID", {
+      day: "numeric",
+      month: "short",
+    })} - ${weekEnd.toLocaleDateString("id-ID", {
+        day: "numeric",
+        month: "short",
+        year: "numeric",
+      })}</p>
+  </div>
+  <div style="background: #f9fafb; padding: 20px; border: 1px solid #e5e7eb;">
+    <p>Hello <strong>${user.name}</strong>,</p>
+    <p>Here's your financial summary for the past week:</p>
+    <div style="background: white; padding: 15px; border-radius: 8px; margin: 10px 0;">
+      <p><strong>Total Income</strong></p>
+      <p style="font-size: 24px; font-weight: bold; color: #059669; margin: 5px 0;">Rp ${income.toLocaleString(
+        "id-ID"
+      )}</p>
+    </div>
+    <div style="background: white; padding: 15px; border-radius: 8px; margin: 10px 0;">
+      <p><strong>Total Expenses</strong></p>
+      <p style="font-size: 24px; font-weight: bold; color: #dc2626; margin: 5px 0;">Rp ${expense.toLocaleString(
+        "id-ID"
+      )}</p>
+    </div>
+    <div style="background: white; padding: 15px; border-radius: 8px; margin: 10px 0;">
+      <p><strong>Net Cash Flow</strong></p>
+      <p style="font-size: 24px; font-weight: bold; color: ${
+        netCashFlow >= 0 ? "#059669" : "#dc2626"
+      }; margin: 5px 0;">
+        ${netCashFlow >= 0 ? "+" : ""}Rp ${Math.abs(netCashFlow).toLocaleString(
+        "id-ID"
+      )}
+      </p>
+    </div>
+    <div style="background: white; padding: 15px; border-radius: 8px; margin: 15px 0;">
+      <p><strong>📊 Top Spending Categories</strong></p>
+      ${topCategories
+        .map(
+          (cat) => `
+        <div style="display: flex; justify-content: space-between; padding: 8px 0; border-bottom: 1px solid #e5e7eb;">
+          <span>${cat.name}</span>
+          <span><strong>Rp ${cat.amount.toLocaleString("id-ID")}</strong></span>
+        </div>
+      `
+        )
+        .join("")}
+    </div>
+    <p>You made <strong>${
+      transactions.length
+    }</strong> transactions this week.</p>
+    <p>Keep up the good work managing your finances! 💪</p>
+  </div>
+</div>
+  `;
+
+  const summary = {
+    period: {
+      start: weekStart,
+      end: weekEnd,
+    },
+    income,
+    expense,
+    netCashFlow,
+    transactionCount: transactions.length,
+    topCategories,
+  };
+
+  const draft: NotificationDraft = {
+    type: "WEEKLY_SUMMARY",
+    title,
+    message,
+    data: {
+      weekStart: weekStart.toISOString(),
+      weekEnd: weekEnd.toISOString(),
+      totalIncome: income,
+      totalExpense: expense,
+      netCashFlow,
+      transactionCount: transactions.length,
+      topCategories,
+    },
+    html,
+  };
+
+  return { draft, summary };
+}
+
+/**
+ * Monthly report of a YYYYMM month
+ */
+export async function buildMonthlySummary(
+  db: DbClient,
+  familyId: string,
+  user: DigestRecipient,
+  monthInt: number
+) {
+  const { start: monthStart, end: monthEnd } = getMonthDateRange(monthInt);
+
+  const monthName = monthStart.toLocaleDateString("id-ID", {
+    month: "long",
+    year: "numeric",
+  });
+
+  // Fetch transactions for the month
+  const transactions = await db.transaction.findMany({
+    where: {
+      familyId,
+      date: {
+        gte: monthStart,
+        lte: monthEnd,
+      },
+    },
+    include: {
+      category: true,
+    },
+  });
+
+  // Calculate totals
+  const income = transactions
+    .filter((t) => t.type === "INCOME")
+    .reduce((sum, t) => sum + Number(t.amount), 0);
+
+  const expense = transactions
+    .filter((t) => t.type === "EXPENSE")
+    .reduce((sum, t) => sum + Number(t.amount), 0);
+
+  const savingsRate = income > 0 ? ((income - expense) / income) * 100 : 0;
+
+  // Category breakdown
+  const categoryTotals: Record<
+    string,
+    { name: string; amount: number; count: number }
+  > = {};
+  const totalExpense = expense;
+
+  transactions
+    .filter((t) => t.type === "EXPENSE")
+    .forEach((t) => {
+      const categoryName = t.category?.name || "Uncategorized";
+      if (!categoryTotals[categoryName]) {
+        categoryTotals[categoryName] = {
+          name: categoryName,
+          amount: 0,
+          count: 0,
+        };
+      }
+      categoryTotals[categoryName].amount += Number(t.amount);
+      categoryTotals[categoryName].count++;
+    });
+
+  const topCategories = Object.values(categoryTotals)
+    .map((cat) => ({
+      name: cat.name,
+      amount: cat.amount,
+      percentage: totalExpense > 0 ? (cat.amount / totalExpense) * 100 : 0,
+      count: cat.count,
+    }))
+    .sort((a, b) => b.amount - a.amount);
+
+  // Budget performance
+  const budgets = await db.budget.findMany({
+    where: {
+      familyId,
+      month: monthInt,
+    },
+    include: {
+      category: true,
+    },
+  });
+
+  let totalBudget = 0;
+  let totalSpent = 0;
+
+  budgets.forEach((budget) => {
+    totalBudget += Number(budget.amount);
+    const categoryExpense =
+      categoryTotals[budget.category?.name || ""]?.amount || 0;
+    totalSpent += categoryExpense;
+  });
+
+  const budgetPerformance =
+    totalBudget > 0 ? (1 - totalSpent / totalBudget) * 100 : 0;
+
+  // Goals progress
+  const goals = await db.goal.findMany({
+    where: {
+      familyId,
+      status: "ACTIVE",
+    },
+    include: {
+      contributions: {
+        where: {
+          date: {
+            gte: monthStart,
+            lte: monthEnd,
+          },
+        },
+      },
+    },
+  });
+
+  const goalsData = goals.map((goal) => {
+    const currentAmount = Number(goal.currentAmount);
+    const targetAmount = Number(goal.targetAmount);
+    const progress =
+      targetAmount > 0 ? (currentAmount / targetAmount) * 100 : 0;
+
+    return {
+      name: goal.name,
+      progress,
+      target: targetAmount,
+      current: currentAmount,
+    };
+  });
+
+  const title = `📊 Monthly Report - ${monthName}`;
+  const message = `Income: Rp ${income.toLocaleString(
+    "id-ID"
+  )} | Expenses: Rp ${expense.toLocaleString(
+    "id-ID"
+  )} | Savings Rate: ${savingsRate.toFixed(1)}%`;
+
+  const html = `
+<div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+  <div style="background: linear-gradient(135deg, #f093fb 0%, #f5576c 100%); color: white; padding: 20px; border-radius: 8px 8px 0 0;">
+    <h2 style="margin: 0;">📊 Monthly Financial Report</h2>
+    <p style="margin: 5px 0 0 0;">${monthName}</p>
+  </div>
+  <div style="background: #f9fafb; padding: 20px; border: 1px solid #e5e7eb;">
+    <p>Hello <strong>${user.name}</strong>,</p>
+    <p>Here's your comprehensive financial report for ${monthName}:</p>
+    <div style="display: grid; grid-template-columns: 1fr 1fr; gap: 10px; margin: 15px 0;">
+      <div style="background: white; padding: 15px; border-radius: 8px; text-align: center;">
+        <div style="font-size: 12px; color: #6b7280; text-transform: uppercase;">Total Income</div>
+        <div style="font-size: 20px; font-weight: bold; color: #059669; margin-top: 5px;">Rp ${income.toLocaleString(
+          "id-ID"
+        )}</div>
+      </div>
+      <div style="background: white; padding: 15px; border-radius: 8px; text-align: center;">
+        <div style="font-size: 12px; color: #6b7280; text-transform: uppercase;">Total Expenses</div>
+        <div style="font-size: 20px; font-weight: bold; color: #dc2626; margin-top: 5px;">Rp ${expense.toLocaleString(
+          "id-ID"
+        )}</div>
+      </div>
+      <div style="background: white; padding: 15px; border-radius: 8px; text-align: center;">
+        <div style="font-size: 12px; color: #6b7280; text-transform: uppercase;">Savings Rate</div>
+        <div style="font-size: 20px; font-weight: bold; color: #3b82f6; margin-top: 5px;">${savingsRate.toFixed(
+          1
+        )}%</div>
+      </div>
+      <div style="background: white; padding: 15px; border-radius: 8px; text-align: center;">
+        <div style="font-size: 12px; color: #6b7280; text-transform: uppercase;">Budget Performance</div>
+        <div style="font-size: 20px; font-weight: bold; color: ${
+          budgetPerformance >= 80 ? "#059669" : "#f59e0b"
+        }; margin-top: 5px;">${budgetPerformance.toFixed(1)}%</div>
+      </div>
+    </div>
+    <div style="background: white; padding: 15px; border-radius: 8px; margin: 15px 0;">
+      <p><strong>💰 Spending by Category</strong></p>
+      ${topCategories
+        .slice(0, 5)
+        .map(
+          (cat) => `
+        <div style="margin: 10px 0;">
+          <div style="display: flex; justify-content: space-between;">
+            <span>${cat.name}</span>
+            <span><strong>Rp ${cat.amount.toLocaleString(
+              "id-ID"
+            )}</strong> (${cat.percentage.toFixed(1)}%)</span>
+          </div>
+          <div style="background: #e5e7eb; height: 8px; border-radius: 4px; overflow: hidden; margin-top: 5px;">
+            <div style="height: 100%; width: ${cat.percentage}%; background: ${
+            cat.percentage > 30
+              ? "#dc2626"
+              : cat.percentage > 20
+              ? "#f59e0b"
+              : "#10b981"
+          };"></div>
+          </div>
+        </div>
+      `
+        )
+        .join("")}
+    </div>
+    ${
+      goalsData.length > 0
+        ? `
+    <div style="background: white; padding: 15px; border-radius: 8px; margin: 15px 0;">
+      <p><strong>🎯 Goal Progress</strong></p>
+      ${goalsData
+        .slice(0, 3)
+        .map(
+          (goal) => `
+        <div style="margin: 10px 0;">
+          <div style="display: flex; justify-content: space-between;">
+            <span>${goal.name}</span>
+            <span><strong>${goal.progress.toFixed(1)}%</strong></span>
+          </div>
+          <div style="background: #e5e7eb; height: 8px; border-radius: 4px; overflow: hidden; margin-top: 5px;">
+            <div style="height: 100%; width: ${
+              goal.progress
+            }%; background: #10b981;"></div>
+          </div>
+        </div>
+      `
+        )
+        .join("")}
+    </div>
+    `
+        : ""
+    }
+    <p>Great job tracking your finances! Keep it up! 🎉</p>
+  </div>
+</div>
+  `;
+
+  const summary = {
+    month: monthName,
+    monthInt,
+    income,
+    expense,
+    savingsRate,
+    budgetPerformance,
+    transactionCount: transactions.length,
+    topCategories: topCategories.slice(0, 10),
+    goals: goalsData,
+    budgetCount: budgets.length,
+  };
+
+  const draft: NotificationDraft = {
+    type: "MONTHLY_SUMMARY",
+    title,
+    message,
+    data: {
+      month: monthName,
+      monthInt,
+      totalIncome: income,
+      totalExpense: expense,
+      savingsRate,
+      budgetPerformance,
+      transactionCount: transactions.length,
+      topCategories: topCategories.slice(0, 5),
+      goals: goalsData.slice(0, 3),
+    },
+    html,
+  };
+
+  return { draft, summary };
+}
+
+/**
+ * One payment reminder per unpaid liability due within `daysAhead` days
+ */
+export async function buildDueDateReminders(
+  db: DbClient,
+  familyId: string,
+  user: DigestRecipient,
+  daysAhead: number,
+  now: Date = new Date()
+) {
+  const today = new Date(now);
+  today.setHours(0, 0, 0, 0);
+
+  const futureDate = new Date(today);
+  futureDate.setDate(futureDate.getDate() + daysAhead);
+
+  // Find liabilities with upcoming due dates
+  const liabilities = await db.liability.findMany({
+    where: {
+      familyId,
+      remainingAmount: { gt: 0 },
+      dueDate: {
+        gte: today,
+        lte: futureDate,
+      },
+    },
+    orderBy: { dueDate: "asc" },
+  });
+
+  const drafts = liabilities.map((liability): NotificationDraft => {
+    const dueDate = new Date(liability.dueDate!);
+    dueDate.setHours(0, 0, 0, 0);
+    const daysUntilDue = Math.ceil(
+      (dueDate.getTime() - today.getTime()) / (1000 * 60 * 60 * 24)
+    );
+
+    const title = `Payment Reminder: ${liability.name}`;
+    const message = `Your payment for ${
+      liability.name
+    } is due in ${daysUntilDue} day${
+      daysUntilDue > 1 ? "s" : ""
+    }. Amount: Rp ${Number(liability.remainingAmount).toLocaleString(
+      "id-ID"
+    )}`;
+
+    const isOverdue = daysUntilDue < 0;
+    const urgency = isOverdue
+      ? "OVERDUE"
+      : daysUntilDue <= 3
+      ? "URGENT"
+      : "UPCOMING";
+    const urgencyColor = isOverdue
+      ? "#dc2626"
+      : daysUntilDue <= 3
+      ? "#f59e0b"
+      : "#3b82f6";
+
+    const html = `
+<div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+  <div style="background: ${urgencyColor}; color: white; padding: 20px; border-radius: 8px 8px 0 0;">
+    <h2 style="margin: 0;">💳 Payment Reminder</h2>
+  </div>
+  <div style="background: #f9fafb; padding: 20px; border: 1px solid #e5e7eb;">
+    <p>Hello <strong>${user.name}</strong>,</p>
+    <p>This is a reminder about your upcoming payment:</p>
+    <div style="background: white; padding: 15px; border-radius: 8px; margin: 15px 0;">
+      <p><strong>Liability:</strong> ${liability.name}</p>
+      <p><strong>Amount:</strong> <span style="font-size: 20px; font-weight: bold;">Rp ${Number(
+        liability.remainingAmount
+      ).toLocaleString("id-ID")}</span></p>
+      <p><strong>Due Date:</strong> ${new Date(
+        liability.dueDate!
+      ).toLocaleDateString("id-ID", {
+        day: "numeric",
+        month: "long",
+        year: "numeric",
+      })}</p>
+      <p><strong>Status:</strong> <span style="background: ${urgencyColor}; color: white; padding: 4px 12px; border-radius: 12px; font-size: 12px; font-weight: bold;">${urgency} - ${
+          isOverdue
+            ? `${Math.abs(daysUntilDue)} days overdue`
+            : `${daysUntilDue} days remaining`
+        }</span></p>
+    </div>
+    ${
+      isOverdue
+        ? `<p style="color: #dc2626; font-weight: bold;">⚠️ This payment is overdue! Please make payment as soon as possible.</p>`
+        : daysUntilDue <= 3
+        ? `<p style="color: #f59e0b; font-weight: bold;">⚠️ Payment due in ${daysUntilDue} days. Please ensure you have sufficient funds.</p>`
+        : `<p>Please make sure you have sufficient funds ready for this payment.</p>`
+    }
+    <p>Thank you for using Family Finance Tracker!</p>
+  </div>
+</div>
+    `;
+
+    return {
+      type: "PAYMENT_DUE",
+      title,
+      message,
+      data: {
+        liabilityId: liability.id,
+        liabilityName: liability.name,
+        amount: Number(liability.remainingAmount),
+        dueDate: liability.dueDate!.toISOString(),
+        daysUntilDue,
+      },
+      html,
+      referenceId: liability.id,
+      referenceType: "liability",
+    };
+  });
+
+  return { drafts, liabilities };
+}
+
+/**
+ * Simple list email used by the digests below (item berisi nama buatan
+ * pengguna, jadi di-escape)
+ */
+function renderListEmail(
+  heading: string,
+  color: string,
+  user: DigestRecipient,
+  intro: string,
+  items: string[]
+): string {
+  return `
+<div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+  <div style="background: ${color}; color: white; padding: 20px; border-radius: 8px 8px 0 0;">
+    <h2 style="margin: 0;">${heading}</h2>
+  </div>
+  <div style="background: #f9fafb; padding: 20px; border: 1px solid #e5e7eb;">
+    <p>Hello <strong>${escapeHtml(user.name)}</strong>,</p>
+    <p>${intro}</p>
+    <div style="background: white; padding: 15px; border-radius: 8px; margin: 15px 0;">
+      ${items
+        .map(
+          (item) =>
+            `<div style="padding: 8px 0; border-bottom: 1px solid #e5e7eb;">${escapeHtml(item)}</div>`
+        )
+        .join("")}
+    </div>
+    <p>Thank you for using Family Finance Tracker!</p>
+  </div>
+</div>
+  `;
+}
+
+/**
+ * Budgets of the running period that reached `thresholdPercent` of their
+ * effective amount (null jika tidak ada)
+ */
+export async function buildBudgetAlertDigest(
+  db: DbClient,
+  familyId: string,
+  user: DigestRecipient,
+  thresholdPercent: number,
+  now: Date = new Date()
+): Promise<NotificationDraft | null> {
+  const budgets = await db.budget.findMany({
+    where: getMonthBudgetsWhere(familyId, now.getMonth() + 1, now.getFullYear()),
+    select: { ...rolloverBudgetSelect, category: { select: { name: true } } },
+  });
+  const effective = await getEffectiveBudgets(db, familyId, budgets, now);
+
+  const alerts = budgets
+    .map((budget) => {
+      const period = effective.get(budget.id)!;
+      const percentage =
+        period.effectiveAmount > 0
+          ? (period.spent / period.effectiveAmount) * 100
+          : period.spent > 0
+          ? 100
+          : 0;
+      return {
+        budgetId: budget.id,
+        category: budget.category?.name ?? "Tanpa kategori",
+        budget: period.effectiveAmount,
+        spent: period.spent,
+        percentage,
+      };
+    })
+    .filter((alert) => alert.percentage >= thresholdPercent)
+    .sort((a, b) => b.percentage - a.percentage);
+
+  if (alerts.length === 0) return null;
+
+  const items = alerts.map(
+    (alert) =>
+      `${alert.category}: Rp ${alert.spent.toLocaleString(
+        "id-ID"
+      )} / Rp ${alert.budget.toLocaleString("id-ID")} (${alert.percentage.toFixed(0)}%)`
+  );
+
+  return {
+    type: "BUDGET_ALERT",
+    title: `⚠️ ${alerts.length} budget mencapai ${thresholdPercent}%`,
+    message: items.join(" | "),
+    data: { threshold: thresholdPercent, budgets: alerts },
+    html: renderListEmail(
+      "⚠️ Budget Alert",
+      "#f59e0b",
+      user,
+      `These budgets have used at least ${thresholdPercent}% of this period:`,
+      items
+    ),
+  };
+}
+
+/**
+ * Active goals not yet reached whose deadline is within `daysAhead` days
+ * (null jika tidak ada)
+ */
+export async function buildGoalDeadlineDigest(
+  db: DbClient,
+  familyId: string,
+  user: DigestRecipient,
+  daysAhead: number,
+  now: Date = new Date()
+): Promise<NotificationDraft | null> {
+  const today = new Date(now);
+  today.setHours(0, 0, 0, 0);
+  const until = new Date(today);
+  until.setDate(until.getDate() + daysAhead);
+  until.setHours(23, 59, 59, 999);
+
+  const goals = (
+    await db.goal.findMany({
+      where: {
+        familyId,
+        status: "ACTIVE",
+        deadline: { gte: today, lte: until },
+      },
+      orderBy: { deadline: "asc" },
+    })
+  ).filter((goal) => goal.currentAmount < goal.targetAmount);
+
+  if (goals.length === 0) return null;
+
+  const items = goals.map(
+    (goal) =>
+      `${goal.name}: Rp ${goal.currentAmount.toLocaleString(
+        "id-ID"
+      )} / Rp ${goal.targetAmount.toLocaleString(
+        "id-ID"
+      )}, deadline ${goal.deadline!.toLocaleDateString("id-ID", {
+        day: "numeric",
+        month: "long",
+        year: "numeric",
+      })}`
+  );
+
+  return {
+    type: "GOAL_MILESTONE",
+    title: `🎯 ${goals.length} goal mendekati deadline`,
+    message: items.join(" | "),
+    data: {
+      goals: goals.map((goal) => ({
+        goalId: goal.id,
+        name: goal.name,
+        currentAmount: goal.currentAmount,
+        targetAmount: goal.targetAmount,
+        deadline: goal.deadline!.toISOString(),
+      })),
+    },
+    html: renderListEmail(
+      "🎯 Goal Deadlines",
+      "#10b981",
+      user,
+      `These goals are due within ${daysAhead} days:`,
+      items
+    ),
+  };
+}
+
+/**
+ * Pending approval requests an admin can review (null jika tidak ada atau
+ * penerima bukan admin)
+ */
+export async function buildPendingApprovalDigest(
+  db: DbClient,
+  familyId: string,
+  user: DigestRecipient & { role: string }
+): Promise<NotificationDraft | null> {
+  if (user.role !== "ADMIN") return null;
+
+  const requests = await db.approvalRequest.findMany({
+    where: { familyId, status: "PENDING", requestedById: { not: user.id } },
+    include: { requestedBy: { select: { name: true } } },
+    orderBy: { createdAt: "asc" },
+  });
+
+  if (requests.length === 0) return null;
+
+  const items = requests.map(
+    (request) => `${request.requestedBy.name}: ${request.description}`
+  );
+
+  return {
+    type: "APPROVAL_REQUEST",
+    title: `⏳ ${requests.length} permintaan menunggu persetujuan`,
+    message: items.join(" | "),
+    data: { approvalRequestIds: requests.map((request) => request.id) },
+    html: renderListEmail(
+      "⏳ Pending Approvals",
+      "#3b82f6",
+      user,
+      "These requests are waiting for your approval:",
+      items
+    ),
+  };
+}
+
+/**
+ * Store a draft as an in-app notification and/or email it to the user
+ *
+ * Jika in-app nonaktif, email tetap dikirim tanpa menyimpan notifikasi.
+ */
+export async function deliverNotification(
+  db: DbClient,
+  familyId: string,
+  user: DigestRecipient,
+  draft: NotificationDraft,
+  channels: { inApp: boolean; email: boolean }
+) {
+  const notification = channels.inApp
+    ? await db.notification.create({
+        data: {
+          type: draft.type,
+          title: draft.title,
+          message: draft.message,
+          data: draft.data,
+          userId: user.id,
+          familyId,
+          referenceId: draft.referenceId,
+          referenceType: draft.referenceType,
+          status: "SENT",
+        },
+      })
+    : null;
+
+  let emailSent = false;
+  let emailError: string | null = null;
+
+  if (channels.email && user.email) {
+    const emailResult = await sendEmail({
+      to: user.email,
+      subject: draft.title,
+      html: draft.html,
+      text: draft.message,
+    });
+
+    emailSent = emailResult.success;
+    emailError = emailResult.success
+      ? null
+      : emailResult.error ?? "Unknown error";
+
+    if (notification) {
+      await db.notification.update({
+        where: { id: notification.id },
+        data: emailResult.success
+          ? { emailSent: true, emailSentAt: new Date() }
+          : { emailError },
+      });
+    }
+  }
+
+  return { notification, emailSent, emailError };
+}
@@ -1,4 +1,5 @@
 import { PrismaClient } from "@prisma/client";
+import { moneyExtension } from "./money";
 
 /**
  * Prisma Client Singleton Pattern
@@ -7,10 +8,6 @@ import { PrismaClient } from "@prisma/client";
  * Best practice untuk Next.js development
  */
 
-declare global {
-  var prisma: PrismaClient | undefined;
-}
-
 const prismaClientSingleton = () => {
   return new PrismaClient({
     log:
@@ -18,11 +15,24 @@ const prismaClientSingleton = () => {
         ? ["query", "error", "warn"]
         : ["error"],
     errorFormat: "pretty",
-  });
+  }).$extends(moneyExtension);
 };
 
+declare global {
+  var prisma: ReturnType<typeof prismaClientSingleton> | undefined;
+}
+
 export const prisma = globalThis.prisma ?? prismaClientSingleton();
 
+/**
+ * Client accepted by helpers that run inside or outside `prisma.$transaction`
+ * (the interactive transaction client lacks the connection methods)
+ */
+export type DbClient = Omit<
+  typeof prisma,
+  "$connect" | "$disconnect" | "$on" | "$transaction" | "$extends"
+>;
+
 if (process.env.NODE_ENV !== "production") {
   globalThis.prisma = prisma;
 }
@@ -0,0 +1,204 @@
+/**
+ * Recurring transaction execution
+ *
+ * Dipakai oleh eksekusi manual (`/api/recurring-transactions/[id]/execute`)
+ * dan cron (`/api/cron/execute-recurring`). Satu run — transaksi (lewat
+ * `createTransaction`, termasuk saldo dompet dan Budget.spent) atau
+ * kontribusi goal, jadwal berikutnya dan audit log — disimpan dalam satu
+ * database transaction.
+ */
+
+import {
+  GoalFunding,
+  RecurringFrequency,
+  TransactionType,
+} from "@prisma/client";
+import { DbClient } from "./prisma";
+import { createTransaction } from "./transactions";
+import { recordRecurringContribution } from "./goal-contributions";
+import { assertMemberExpenseAllowed } from "./allowances";
+
+export interface RecurringRun {
+  id: string;
+  name: string;
+  familyId: string;
+  type: TransactionType;
+  amount: number;
+  description: string | null;
+  notes: string | null;
+  frequency: RecurringFrequency;
+  dayOfMonth: number | null;
+  endDate: Date | null;
+  categoryId: string | null;
+  fromWalletId: string | null;
+  toWalletId: string | null;
+  goalId: string | null;
+  goalFunding: GoalFunding | null;
+}
+
+type CreatedTransaction = Awaited<
+  ReturnType<typeof createTransaction>
+>["transaction"];
+type RecurringContribution = Awaited<
+  ReturnType<typeof recordRecurringContribution>
+>;
+
+/**
+ * Calculate next execution date based on frequency
+ */
+export function calculateNextDate(
+  currentDate: Date,
+  frequency: RecurringFrequency,
+  dayOfMonth?: number | null
+): Date {
+  const next = new Date(currentDate);
+
+  switch (frequency) {
+    case "DAILY":
+      next.setDate(next.getDate() + 1);
+      break;
+
+    case "WEEKLY":
+      next.setDate(next.getDate() + 7);
+      break;
+
+    case "MONTHLY":
+      if (dayOfMonth !== null && dayOfMonth !== undefined) {
+        next.setMonth(next.getMonth() + 1);
+        next.setDate(
+          Math.min(
+            dayOfMonth,
+            new Date(next.getFullYear(), next.getMonth() + 1, 0).getDate()
+          )
+        );
+      } else {
+        next.setMonth(next.getMonth() + 1);
+      }
+      break;
+
+    case "YEARLY":
+      next.setFullYear(next.getFullYear() + 1);
+      break;
+  }
+
+  return next;
+}
+
+/**
+ * Execute one run of a recurring transaction inside a database transaction
+ *
+ * INCOME/EXPENSE dibuat lewat `createTransaction` (validasi dompet dan
+ * kategori, saldo, Budget.spent); pengeluaran MEMBER tetap dibatasi uang
+ * sakunya. Recurring dengan `goalId` mencatat kontribusi goal. Recurring
+ * selesai (COMPLETED) jika jadwal berikutnya melewati `endDate` atau goal
+ * sudah tercapai.
+ *
+ * @param user - User the run is recorded for (pembuat untuk cron)
+ * @throws Error from createTransaction / recordGoalContribution, or
+ * MEMBER_EXPENSE_APPROVAL_ERROR
+ */
+export async function executeRecurringTransaction(
+  tx: DbClient,
+  recurring: RecurringRun,
+  user: { userId: string; role: string },
+  options: {
+    now: Date;
+    auditAction: "EXECUTE_RECURRING" | "AUTO_EXECUTE_RECURRING";
+  }
+) {
+  const { now, auditAction } = options;
+  const nextDate = calculateNextDate(
+    now,
+    recurring.frequency,
+    recurring.dayOfMonth
+  );
+  const pastEnd = !!recurring.endDate && nextDate > recurring.endDate;
+
+  let transaction: CreatedTransaction | null = null;
+  let contribution: RecurringContribution | null = null;
+
+  if (recurring.goalId) {
+    contribution = await recordRecurringContribution(
+      tx,
+      { ...recurring, goalId: recurring.goalId },
+      user.userId,
+      now
+    );
+  } else {
+    if (recurring.type === "TRANSFER") {
+      throw new Error("Recurring TRANSFER hanya untuk kontribusi goal");
+    }
+
+    // INCOME lama menyimpan dompetnya di toWallet
+    const walletId =
+      recurring.type === "EXPENSE"
+        ? recurring.fromWalletId
+        : (recurring.fromWalletId ?? recurring.toWalletId);
+
+    ({ transaction } = await createTransaction(
+      tx,
+      recurring.familyId,
+      user.userId,
+      {
+        type: recurring.type,
+        amount: recurring.amount,
+        description: recurring.description ?? `${recurring.name} (Recurring)`,
+        date: now,
+        categoryId: recurring.categoryId ?? undefined,
+        walletId: walletId ?? undefined,
+        notes: recurring.notes ?? undefined,
+      }
+    ));
+
+    // Pengeluaran anggota tetap dibatasi uang sakunya (transaksi baru
+    // dikecualikan dari total yang sudah dipakai)
+    if (recurring.type === "EXPENSE") {
+      await assertMemberExpenseAllowed(tx, recurring.familyId, user, [
+        {
+          amount: transaction.amount,
+          categoryId: transaction.categoryId,
+          walletId: transaction.fromWalletId,
+          date: now,
+          excludeTransactionId: transaction.id,
+        },
+      ]);
+    }
+  }
+
+  const completed = pastEnd || !!contribution?.completed;
+  const updatedRecurring = await tx.recurringTransaction.update({
+    where: { id: recurring.id },
+    data: {
+      lastRunDate: now,
+      status: completed ? "COMPLETED" : "ACTIVE",
+      ...(!completed && { nextDate }),
+    },
+  });
+
+  await tx.auditLog.create({
+    data: {
+      userId: user.userId,
+      familyId: recurring.familyId,
+      action: auditAction,
+      entityType: contribution ? "GoalContribution" : "Transaction",
+      entityId: contribution ? contribution.contribution.id : transaction!.id,
+      changes: JSON.stringify({
+        recurringId: recurring.id,
+        recurringName: recurring.name,
+        ...(recurring.goalId && { goalId: recurring.goalId }),
+        amount: recurring.amount,
+        nextDate: completed ? null : nextDate,
+        completed,
+      }),
+    },
+  });
+
+  return {
+    transaction,
+    contribution: contribution?.contribution ?? null,
+    transactions: contribution?.transactions ?? [],
+    recurring: updatedRecurring,
+    nextDate,
+    completed,
+  };
+}
@@ -0,0 +1,330 @@
+/**
+ * Reminder schedule executor
+ *
+ * Menjalankan baris ReminderSchedule yang jatuh tempo: isi notifikasi
+ * dipilih berdasarkan `notificationType`, dikirim lewat in-app dan/atau
+ * email sesuai pengaturan, lalu `nextRunAt` dimajukan. Jadwal dihitung
+ * dalam zona waktu keluarga (`Family.timezone`).
+ */
+
+import { ReminderSchedule } from "@prisma/client";
+import { z } from "zod";
+import { DbClient } from "./prisma";
+import {
+  getMonthInt,
+  getZonedParts,
+  isValidTimeZone,
+  zonedTimeToDate,
+} from "./date-helpers";
+import {
+  DigestRecipient,
+  NotificationDraft,
+  buildBudgetAlertDigest,
+  buildDueDateReminders,
+  buildGoalDeadlineDigest,
+  buildMonthlySummary,
+  buildPendingApprovalDigest,
+  buildWeeklySummary,
+  deliverNotification,
+  escapeHtml,
+} from "./notification-digests";
+
+export const DEFAULT_TIMEZONE = "Asia/Jakarta";
+
+/**
+ * Consecutive failures after which a schedule is disabled
+ */
+export const MAX_REMINDER_FAILURES = 5;
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+/**
+ * Optional `criteria` of a schedule, per notification type
+ */
+export const reminderCriteriaSchema = z
+  .object({
+    // DUE_DATE_REMINDER/PAYMENT_DUE (default 7) dan GOAL_MILESTONE (default 30)
+    daysAhead: z.number().int().min(0).max(365).optional(),
+    // BUDGET_ALERT: persentase pemakaian budget (default alert keluarga)
+    threshold: z.number().min(0).max(1000).optional(),
+    // MONTHLY_SUMMARY: bulan lalu (default) atau bulan berjalan
+    period: z.enum(["current", "previous"]).optional(),
+    // SYSTEM: isi pesan (default deskripsi jadwal)
+    message: z.string().max(1000).optional(),
+  })
+  .passthrough();
+
+type ScheduleTiming = Pick<
+  ReminderSchedule,
+  "frequency" | "dayOfWeek" | "dayOfMonth" | "time"
+>;
+
+export function isValidReminderTime(time: string): boolean {
+  return TIME_PATTERN.test(time);
+}
+
+/**
+ * Family time zone, falling back to the default for unknown values
+ */
+export function resolveTimeZone(timeZone: string | null | undefined): string {
+  return timeZone && isValidTimeZone(timeZone) ? timeZone : DEFAULT_TIMEZONE;
+}
+
+/**
+ * First run of a schedule strictly after `after`, in the given time zone
+ *
+ * - daily/custom → setiap hari pada `time`
+ * - weekly → pada `dayOfWeek` (default hari dari `after`)
+ * - monthly → pada `dayOfMonth` (default tanggal dari `after`), dibatasi
+ *   ke hari terakhir bulan yang lebih pendek
+ *
+ * @throws Error if `time` is not HH:mm
+ */
+export function getNextReminderRun(
+  schedule: ScheduleTiming,
+  after: Date,
+  timeZone: string
+): Date {
+  const match = TIME_PATTERN.exec(schedule.time);
+  if (!match) {
+    throw new Error("Format waktu harus HH:mm");
+  }
+  const [hour, minute] = [Number(match[1]), Number(match[2])];
+
+  const local = getZonedParts(after, timeZone);
+  const dayOfWeek = schedule.dayOfWeek ?? local.weekday;
+  const dayOfMonth = schedule.dayOfMonth ?? local.day;
+
+  for (let offset = 0; offset <= 366; offset++) {
+    // Aritmetika kalender dalam UTC, lalu dikonversi ke zona keluarga
+    const day = new Date(Date.UTC(local.year, local.month - 1, local.day + offset));
+    const [year, month, date] = [
+      day.getUTCFullYear(),
+      day.getUTCMonth() + 1,
+      day.getUTCDate(),
+    ];
+
+    if (schedule.frequency === "weekly" && day.getUTCDay() !== dayOfWeek) {
+      continue;
+    }
+    if (schedule.frequency === "monthly") {
+      const lastDay = new Date(Date.UTC(year, month, 0)).getUTCDate();
+      if (date !== Math.min(dayOfMonth, lastDay)) continue;
+    }
+
+    const candidate = zonedTimeToDate(year, month, date, hour, minute, timeZone);
+    if (candidate > after) return candidate;
+  }
+
+  throw new Error("Jadwal berikutnya tidak dapat ditentukan");
+}
+
+/**
+ * Notifications a schedule should send now (bisa kosong, mis. tidak ada
+ * hutang yang jatuh tempo)
+ */
+async function buildScheduleDrafts(
+  db: DbClient,
+  schedule: ReminderSchedule,
+  user: DigestRecipient & { role: string },
+  family: { defaultBudgetAlert: number | null },
+  now: Date,
+  timeZone: string
+): Promise<NotificationDraft[]> {
+  const criteria = reminderCriteriaSchema.parse(schedule.criteria ?? {});
+
+  switch (schedule.notificationType) {
+    case "WEEKLY_SUMMARY":
+      return [(await buildWeeklySummary(db, schedule.familyId, user, now)).draft];
+
+    case "MONTHLY_SUMMARY": {
+      const local = getZonedParts(now, timeZone);
+      const month = new Date(
+        local.year,
+        local.month - (criteria.period === "current" ? 1 : 2),
+        1
+      );
+      const { draft } = await buildMonthlySummary(
+        db,
+        schedule.familyId,
+        user,
+        getMonthInt(month)
+      );
+      return [draft];
+    }
+
+    case "DUE_DATE_REMINDER":
+    case "PAYMENT_DUE": {
+      const { drafts } = await buildDueDateReminders(
+        db,
+        schedule.familyId,
+        user,
+        criteria.daysAhead ?? 7,
+        now
+      );
+      return drafts.map((draft) => ({
+        ...draft,
+        type: schedule.notificationType,
+      }));
+    }
+
+    case "BUDGET_ALERT": {
+      const draft = await buildBudgetAlertDigest(
+        db,
+        schedule.familyId,
+        user,
+        criteria.threshold ?? family.defaultBudgetAlert ?? 80,
+        now
+      );
+      return draft ? [draft] : [];
+    }
+
+    case "GOAL_MILESTONE": {
+      const draft = await buildGoalDeadlineDigest(
+        db,
+        schedule.familyId,
+        user,
+        criteria.daysAhead ?? 30,
+        now
+      );
+      return draft ? [draft] : [];
+    }
+
+    case "APPROVAL_REQUEST": {
+      const draft = await buildPendingApprovalDigest(db, schedule.familyId, user);
+      return draft ? [draft] : [];
+    }
+
+    case "SYSTEM":
+    default: {
+      const message = criteria.message ?? schedule.description ?? schedule.name;
+      return [
+        {
+          type: schedule.notificationType,
+          title: schedule.name,
+          message,
+          data: { reminderScheduleId: schedule.id },
+          html: `<p>Hello <strong>${escapeHtml(user.name)}</strong>,</p><p><strong>${escapeHtml(schedule.name)}</strong></p><p>${escapeHtml(message)}</p>`,
+          referenceId: schedule.id,
+          referenceType: "reminder",
+        },
+      ];
+    }
+  }
+}
+
+/**
+ * Run one due schedule and record the outcome on it
+ *
+ * Jadwal diklaim lebih dulu dengan memajukan `nextRunAt` (updateMany
+ * dengan nilai lama), sehingga run cron yang tumpang tindih tidak mengirim
+ * dua kali. Jadwal yang terlewat hanya dijalankan sekali. Kegagalan dicatat
+ * di `lastError`/`failureCount`; setelah {@link MAX_REMINDER_FAILURES}
+ * kegagalan berturut-turut jadwal dinonaktifkan dan pemiliknya diberi tahu.
+ *
+ * @returns null if another run already claimed the schedule
+ */
+export async function runReminderSchedule(
+  db: DbClient,
+  schedule: ReminderSchedule & {
+    user: DigestRecipient & { role: string };
+    family: { timezone: string; defaultBudgetAlert: number | null };
+  },
+  now: Date = new Date()
+) {
+  const timeZone = resolveTimeZone(schedule.family.timezone);
+  const nextRunAt = getNextReminderRun(schedule, now, timeZone);
+
+  const claimed = await db.reminderSchedule.updateMany({
+    where: { id: schedule.id, enabled: true, nextRunAt: schedule.nextRunAt },
+    data: { nextRunAt },
+  });
+  if (claimed.count === 0) return null;
+
+  try {
+    const drafts = await buildScheduleDrafts(
+      db,
+      schedule,
+      schedule.user,
+      schedule.family,
+      now,
+      timeZone
+    );
+
+    let notificationsCreated = 0;
+    let emailsSent = 0;
+    const emailErrors: string[] = [];
+
+    for (const draft of drafts) {
+      const delivery = await deliverNotification(
+        db,
+        schedule.familyId,
+        schedule.user,
+        draft,
+        { inApp: schedule.inAppEnabled, email: schedule.emailEnabled }
+      );
+      if (delivery.notification) notificationsCreated++;
+      if (delivery.emailSent) emailsSent++;
+      if (delivery.emailError) emailErrors.push(delivery.emailError);
+    }
+
+    // Email gagal tetapi notifikasi in-app terkirim dianggap berhasil sebagian
+    const nothingDelivered =
+      drafts.length > 0 && notificationsCreated === 0 && emailsSent === 0;
+    if (emailErrors.length > 0 && nothingDelivered) {
+      throw new Error(`Email gagal dikirim: ${emailErrors[0]}`);
+    }
+
+    const status = emailErrors.length > 0 ? "PARTIAL" : "SUCCESS";
+    await db.reminderSchedule.update({
+      where: { id: schedule.id },
+      data: {
+        lastRunAt: now,
+        runCount: { increment: 1 },
+        lastStatus: status,
+        lastError: emailErrors[0] ? `Email gagal dikirim: ${emailErrors[0]}` : null,
+        failureCount: 0,
+      },
+    });
+
+    return {
+      status,
+      nextRunAt,
+      notifications: notificationsCreated,
+      emails: emailsSent,
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    const failureCount = schedule.failureCount + 1;
+    const disabled = failureCount >= MAX_REMINDER_FAILURES;
+
+    await db.reminderSchedule.update({
+      where: { id: schedule.id },
+      data: {
+        lastRunAt: now,
+        lastStatus: "FAILED",
+        lastError: message,
+        failureCount,
+        ...(disabled && { enabled: false }),
+      },
+    });
+
+    if (disabled) {
+      await db.notification.create({
+        data: {
+          type: "SYSTEM",
+          title: `Pengingat "${schedule.name}" dinonaktifkan`,
+          message: `Pengingat gagal ${failureCount} kali berturut-turut: ${message}`,
+          data: { reminderScheduleId: schedule.id, error: message },
+          userId: schedule.userId,
+          familyId: schedule.familyId,
+          referenceId: schedule.id,
+          referenceType: "reminder",
+          status: "SENT",
+        },
+      });
+    }
+
+    throw error;
+  }
+}
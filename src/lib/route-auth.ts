@@ -0,0 +1,286 @@
+/**
+ * Route authentication for API handlers (server only)
+ *
+ * Dipisah dari `auth.ts` karena memakai Prisma dan Node `crypto` (API key),
+ * sedangkan `auth.ts` juga dimuat oleh middleware di Edge runtime.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from './prisma';
+import {
+  AUTH_COOKIE_NAME,
+  Role,
+  SessionUser,
+  getTokenFromHeader,
+  verifyToken,
+} from './auth';
+import { ApiKeyScope, authenticateApiKey, isApiKey } from './api-keys';
+
+/**
+ * Authentication method of a request session
+ */
+export type AuthMethod = 'cookie' | 'bearer' | 'api-key';
+
+/**
+ * Request Session Interface
+ */
+export interface RequestSession extends SessionUser {
+  method: AuthMethod;
+  /** API key yang dipakai (hanya untuk method `api-key`) */
+  apiKeyId: string | null;
+  scope: ApiKeyScope | null;
+}
+
+/**
+ * Request session of a family member
+ */
+export interface FamilySession extends RequestSession {
+  familyId: string;
+}
+
+/**
+ * Resolve the session of a request from the auth cookie or the
+ * Authorization header
+ *
+ * Bearer token berupa JWT (sama dengan cookie) atau API key pribadi
+ * (`fft_...`, lihat `@/lib/api-keys`). Untuk API key, role dan keluarga
+ * dibaca dari user pemilik kunci saat ini.
+ *
+ * @param request - Incoming request
+ * @returns Request session or null
+ *
+ * @example
+ * ```typescript
+ * const session = await getSessionFromRequest(request);
+ * if (session?.method === 'api-key') {
+ *   console.log('Scope:', session.scope);
+ * }
+ * ```
+ */
+export async function getSessionFromRequest(
+  request: NextRequest
+): Promise<RequestSession | null> {
+  // Try cookie first
+  const cookieToken = request.cookies.get(AUTH_COOKIE_NAME)?.value;
+  if (cookieToken) {
+    try {
+      const payload = await verifyToken(cookieToken);
+      return {
+        userId: payload.userId,
+        email: payload.email,
+        role: payload.role,
+        familyId: payload.familyId,
+        method: 'cookie',
+        apiKeyId: null,
+        scope: null,
+      };
+    } catch {
+      // Cookie kadaluarsa: masih bisa memakai Authorization header
+    }
+  }
+
+  // Try Authorization header
+  const token = getTokenFromHeader(request.headers.get('authorization'));
+  if (!token) {
+    return null;
+  }
+
+  if (isApiKey(token)) {
+    const result = await authenticateApiKey(prisma, token);
+    if (!result) {
+      return null;
+    }
+
+    return {
+      userId: result.user.id,
+      email: result.user.email,
+      role: result.user.role,
+      familyId: result.user.familyId,
+      method: 'api-key',
+      apiKeyId: result.apiKeyId,
+      scope: result.scope,
+    };
+  }
+
+  try {
+    const payload = await verifyToken(token);
+    return {
+      userId: payload.userId,
+      email: payload.email,
+      role: payload.role,
+      familyId: payload.familyId,
+      method: 'bearer',
+      apiKeyId: null,
+      scope: null,
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Route Auth Options
+ */
+export interface AuthOptions {
+  /** Role yang diizinkan (default: semua role) */
+  roles?: Role[];
+  /** Wajib tergabung dalam keluarga (default: true) */
+  family?: boolean;
+  /** Izinkan API key (default: true) */
+  apiKey?: boolean;
+  /**
+   * Jenis akses untuk scope API key (default: `read` untuk GET/HEAD,
+   * selain itu `write`). Pakai `read` untuk POST yang tidak mengubah data.
+   */
+  access?: 'read' | 'write';
+}
+
+/**
+ * Route handler context (params are async since Next.js 15)
+ */
+export interface RouteContext<P> {
+  params: Promise<P>;
+}
+
+/**
+ * Authenticated route handler
+ */
+export type AuthHandler<S extends RequestSession, P> = (
+  request: NextRequest,
+  context: RouteContext<P> & { session: S }
+) => Promise<Response> | Response;
+
+type RouteHandler<P> = (
+  request: NextRequest,
+  context: RouteContext<P>
+) => Promise<Response>;
+
+const READ_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+function authError(error: string, code: string, status: number) {
+  return NextResponse.json({ error, code }, { status });
+}
+
+/**
+ * Wrap a route handler with authentication and authorization
+ *
+ * Session dibaca dari cookie atau `Authorization: Bearer` (JWT / API key).
+ * Secara default handler wajib tergabung dalam keluarga sehingga
+ * `session.familyId` selalu terisi; role dan izin API key diatur lewat
+ * `options`. Jika `roles` diisi, role dan keluarga dibaca ulang dari
+ * database agar perubahan role langsung berlaku. Respons 401/403
+ * dikembalikan sebelum handler dipanggil.
+ *
+ * @example
+ * ```typescript
+ * export const GET = withAuth(async (request, { session }) => {
+ *   const wallets = await prisma.wallet.findMany({
+ *     where: { familyId: session.familyId },
+ *   });
+ *   return NextResponse.json(wallets);
+ * });
+ *
+ * export const DELETE = withAuth<{ id: string }>(
+ *   { roles: ['ADMIN'] },
+ *   async (request, { session, params }) => {
+ *     const { id } = await params;
+ *     // ...
+ *   }
+ * );
+ * ```
+ */
+export function withAuth<P = Record<string, string>>(
+  handler: AuthHandler<FamilySession, P>
+): RouteHandler<P>;
+export function withAuth<P = Record<string, string>>(
+  options: AuthOptions & { family?: true },
+  handler: AuthHandler<FamilySession, P>
+): RouteHandler<P>;
+export function withAuth<P = Record<string, string>>(
+  options: AuthOptions & { family: false },
+  handler: AuthHandler<RequestSession, P>
+): RouteHandler<P>;
+export function withAuth<P>(
+  optionsOrHandler: AuthOptions | AuthHandler<FamilySession, P>,
+  maybeHandler?: AuthHandler<FamilySession, P>
+): RouteHandler<P> {
+  const options =
+    typeof optionsOrHandler === 'function' ? {} : optionsOrHandler;
+  const handler = (
+    typeof optionsOrHandler === 'function' ? optionsOrHandler : maybeHandler
+  ) as AuthHandler<RequestSession, P>;
+
+  return async (request, context) => {
+    const session = await getSessionFromRequest(request);
+
+    if (!session) {
+      return authError(
+        'Unauthorized: Authentication required',
+        'UNAUTHORIZED',
+        401
+      );
+    }
+
+    if (session.method === 'api-key') {
+      if (options.apiKey === false) {
+        return authError(
+          'Forbidden: API keys are not allowed for this endpoint',
+          'FORBIDDEN',
+          403
+        );
+      }
+
+      const access =
+        options.access ??
+        (READ_METHODS.includes(request.method) ? 'read' : 'write');
+      if (access === 'write' && session.scope !== 'READ_WRITE') {
+        return authError(
+          'Forbidden: API key is read-only',
+          'INSUFFICIENT_SCOPE',
+          403
+        );
+      }
+    }
+
+    // Role dan keluarga di JWT bisa basi (mis. admin yang baru diturunkan
+    // tetap ADMIN sampai token kedaluwarsa): untuk route yang membatasi
+    // role, baca nilai terkini dari database seperti jalur API key
+    if (options.roles && session.method !== 'api-key') {
+      const user = await prisma.user.findUnique({
+        where: { id: session.userId },
+        select: { role: true, familyId: true },
+      });
+
+      if (!user) {
+        return authError(
+          'Unauthorized: Authentication required',
+          'UNAUTHORIZED',
+          401
+        );
+      }
+
+      session.role = user.role;
+      session.familyId = user.familyId;
+    }
+
+    if (options.family !== false && !session.familyId) {
+      return authError(
+        'Forbidden: Family membership required',
+        'NO_FAMILY',
+        403
+      );
+    }
+
+    if (options.roles && !options.roles.includes(session.role)) {
+      return authError(
+        options.roles.length === 1 && options.roles[0] === 'ADMIN'
+          ? 'Forbidden: Admin access required'
+          : 'Forbidden: Insufficient role',
+        'FORBIDDEN',
+        403
+      );
+    }
+
+    return handler(request, { ...context, session });
+  };
+}
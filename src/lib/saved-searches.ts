@@ -0,0 +1,93 @@
+/**
+ * Saved searches: named transaction filters per user
+ *
+ * Pencarian yang di-pin tampil di dashboard beserta total berjalan
+ * (pemasukan, pengeluaran, selisih) dari semua transaksi yang cocok.
+ */
+
+import { z } from "zod";
+import { DbClient } from "./prisma";
+import { CurrencyConverter } from "./currency";
+import {
+  buildTransactionWhere,
+  getTransactionTotals,
+  TransactionFilterInput,
+  transactionFilterSchema,
+  TransactionTotals,
+} from "./transaction-filters";
+
+export const savedSearchSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, "Nama pencarian tidak boleh kosong")
+    .max(100, "Nama pencarian maksimal 100 karakter"),
+  filters: transactionFilterSchema,
+  isPinned: z.boolean().default(false),
+});
+
+export const updateSavedSearchSchema = savedSearchSchema
+  .extend({ isPinned: z.boolean() })
+  .partial();
+
+export type SavedSearchInput = z.infer<typeof savedSearchSchema>;
+export type UpdateSavedSearchInput = z.infer<typeof updateSavedSearchSchema>;
+
+/**
+ * Maximum saved searches per user
+ */
+export const MAX_SAVED_SEARCHES = 50;
+
+/**
+ * Read stored filters, dropping fields that no longer validate
+ */
+export function parseSavedFilters(filters: unknown): TransactionFilterInput {
+  const result = transactionFilterSchema.safeParse(filters);
+  return result.success ? result.data : {};
+}
+
+/**
+ * Running totals of a saved search, in the family base currency
+ */
+export async function getSavedSearchTotals(
+  db: DbClient,
+  familyId: string,
+  converter: CurrencyConverter,
+  filters: unknown
+): Promise<TransactionTotals> {
+  const where = await buildTransactionWhere(
+    db,
+    familyId,
+    parseSavedFilters(filters)
+  );
+  return getTransactionTotals(db, converter, where);
+}
+
+/**
+ * Pinned searches of a user with their running totals (untuk dashboard)
+ */
+export async function getPinnedSearches(
+  db: DbClient,
+  familyId: string,
+  userId: string,
+  converter: CurrencyConverter
+) {
+  const searches = await db.savedSearch.findMany({
+    where: { userId, familyId, isPinned: true },
+    orderBy: { createdAt: "asc" },
+  });
+
+  return Promise.all(
+    searches.map(async (search) => ({
+      id: search.id,
+      name: search.name,
+      filters: parseSavedFilters(search.filters),
+      totals: await getSavedSearchTotals(
+        db,
+        familyId,
+        converter,
+        search.filters
+      ),
+    }))
+  );
+}
@@ -0,0 +1,535 @@
+/**
+ * Bank Statement Import
+ * Parsers for CSV, OFX/QFX and MT940 statements plus duplicate detection
+ */
+
+import { z } from "zod";
+import { DbClient } from "./prisma";
+
+export type StatementFormat = "CSV" | "OFX" | "MT940";
+
+/**
+ * Normalized statement row, independent of the source format
+ */
+export interface ParsedStatementRow {
+  date: Date;
+  amount: number; // Selalu positif, arah ditentukan oleh type
+  type: "INCOME" | "EXPENSE";
+  description: string;
+  externalId: string | null;
+}
+
+export interface DuplicateMatch {
+  transactionId: string;
+  description: string | null;
+  date: Date;
+  amount: number;
+  similarity: number; // 0..1
+  reason: "EXTERNAL_ID" | "FUZZY";
+}
+
+export interface PreviewRow extends ParsedStatementRow {
+  rowNumber: number;
+  duplicate: DuplicateMatch | null;
+}
+
+// ============================================================================
+// Column Mapping (CSV)
+// ============================================================================
+
+export const importMappingSchema = z
+  .object({
+    dateColumn: z.string().min(1, "Kolom tanggal harus diisi"),
+    descriptionColumn: z.string().min(1, "Kolom deskripsi harus diisi"),
+    amountColumn: z.string().min(1).nullable().optional(),
+    debitColumn: z.string().min(1).nullable().optional(),
+    creditColumn: z.string().min(1).nullable().optional(),
+    referenceColumn: z.string().min(1).nullable().optional(),
+    delimiter: z.string().min(1).max(2).default(","),
+    hasHeader: z.boolean().default(true),
+    dateFormat: z
+      .enum(["DD/MM/YYYY", "MM/DD/YYYY", "YYYY-MM-DD", "DD-MM-YYYY"], {
+        errorMap: () => ({ message: "Format tanggal tidak didukung" }),
+      })
+      .default("DD/MM/YYYY"),
+    decimalSeparator: z.enum([",", "."]).default(","),
+  })
+  .refine(
+    (data) => data.amountColumn || (data.debitColumn && data.creditColumn),
+    {
+      message: "Isi kolom jumlah, atau kolom debit dan kredit",
+      path: ["amountColumn"],
+    }
+  );
+
+export type ImportMappingInput = z.infer<typeof importMappingSchema>;
+
+// ============================================================================
+// Format Detection
+// ============================================================================
+
+/**
+ * Detect statement format from file name and content
+ */
+export function detectStatementFormat(
+  fileName: string,
+  content: string
+): StatementFormat {
+  const lower = fileName.toLowerCase();
+  if (lower.endsWith(".ofx") || lower.endsWith(".qfx")) return "OFX";
+  if (lower.endsWith(".sta") || lower.endsWith(".mt940")) return "MT940";
+
+  const head = content.slice(0, 2000);
+  if (/OFXHEADER|<OFX>/i.test(head)) return "OFX";
+  if (/^:20:/m.test(head) && /^:61:/m.test(content)) return "MT940";
+  return "CSV";
+}
+
+/**
+ * Parse a statement file into normalized rows
+ *
+ * @throws Error if the content cannot be parsed
+ */
+export function parseStatement(
+  format: StatementFormat,
+  content: string,
+  mapping?: ImportMappingInput | null
+): ParsedStatementRow[] {
+  switch (format) {
+    case "OFX":
+      return parseOfx(content);
+    case "MT940":
+      return parseMt940(content);
+    case "CSV":
+      if (!mapping) {
+        throw new Error("Pemetaan kolom CSV belum diatur untuk dompet ini");
+      }
+      return parseCsv(content, mapping);
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Parse a localized amount string ("1.234.567,89", "(1,234.50)", "-50000",
+ * "150.000,00 DR")
+ */
+export function parseAmount(raw: string, decimalSeparator: "," | "."): number {
+  let value = raw.trim();
+  let negative = /(DR|DB)$/i.test(value);
+
+  value = value
+    .replace(/(DR|DB|CR)$/i, "")
+    .replace(/Rp\.?|[A-Z]{3}/gi, "")
+    .replace(/\s/g, "");
+
+  if (/^\(.*\)$/.test(value)) {
+    negative = true;
+    value = value.slice(1, -1);
+  }
+  if (value.endsWith("-")) {
+    negative = true;
+    value = value.slice(0, -1);
+  }
+  if (value.startsWith("-")) {
+    negative = true;
+    value = value.slice(1);
+  }
+  value = value.replace(/^\+/, "");
+
+  const thousands = decimalSeparator === "," ? "." : ",";
+  value = value.split(thousands).join("").replace(decimalSeparator, ".");
+
+  const amount = parseFloat(value);
+  if (isNaN(amount)) {
+    throw new Error(`Jumlah tidak valid: "${raw}"`);
+  }
+  return negative ? -amount : amount;
+}
+
+/**
+ * Parse a date string using one of the supported mapping formats
+ */
+export function parseDate(
+  raw: string,
+  format: ImportMappingInput["dateFormat"]
+): Date {
+  const parts = raw.trim().split(/[\/\-. ]/).map((p) => parseInt(p, 10));
+  let year: number, month: number, day: number;
+
+  switch (format) {
+    case "YYYY-MM-DD":
+      [year, month, day] = parts;
+      break;
+    case "MM/DD/YYYY":
+      [month, day, year] = parts;
+      break;
+    default:
+      [day, month, year] = parts;
+  }
+
+  if (year < 100) year += 2000;
+  const date = new Date(year, month - 1, day);
+  if (
+    isNaN(date.getTime()) ||
+    date.getMonth() !== month - 1 ||
+    date.getDate() !== day
+  ) {
+    throw new Error(`Tanggal tidak valid: "${raw}"`);
+  }
+  return date;
+}
+
+function toRow(
+  date: Date,
+  signedAmount: number,
+  description: string,
+  externalId: string | null
+): ParsedStatementRow {
+  return {
+    date,
+    amount: Math.abs(signedAmount),
+    type: signedAmount < 0 ? "EXPENSE" : "INCOME",
+    description: description.replace(/\s+/g, " ").trim(),
+    externalId: externalId?.trim() || null,
+  };
+}
+
+// ============================================================================
+// CSV
+// ============================================================================
+
+/**
+ * Split CSV content into records, honoring quoted fields
+ */
+export function splitCsv(content: string, delimiter: string): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (content.startsWith(delimiter, i)) {
+      record.push(field);
+      field = "";
+      i += delimiter.length - 1;
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && content[i + 1] === "\n") i++;
+      record.push(field);
+      if (record.some((value) => value.trim() !== "")) records.push(record);
+      record = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  record.push(field);
+  if (record.some((value) => value.trim() !== "")) records.push(record);
+
+  return records;
+}
+
+function parseCsv(
+  content: string,
+  mapping: ImportMappingInput
+): ParsedStatementRow[] {
+  const records = splitCsv(content.replace(/^\uFEFF/, ""), mapping.delimiter);
+  const header = mapping.hasHeader ? records.shift() ?? [] : [];
+  const normalizedHeader = header.map((h) => h.trim().toLowerCase());
+
+  const columnIndex = (column?: string | null): number | null => {
+    if (!column) return null;
+    const byName = normalizedHeader.indexOf(column.trim().toLowerCase());
+    if (byName !== -1) return byName;
+    const byIndex = parseInt(column, 10);
+    if (!isNaN(byIndex) && String(byIndex) === column.trim()) return byIndex;
+    throw new Error(`Kolom "${column}" tidak ditemukan di file CSV`);
+  };
+
+  const dateIdx = columnIndex(mapping.dateColumn)!;
+  const descIdx = columnIndex(mapping.descriptionColumn)!;
+  const amountIdx = columnIndex(mapping.amountColumn);
+  const debitIdx = columnIndex(mapping.debitColumn);
+  const creditIdx = columnIndex(mapping.creditColumn);
+  const refIdx = columnIndex(mapping.referenceColumn);
+
+  return records.map((record, i) => {
+    const line = i + (mapping.hasHeader ? 2 : 1);
+    try {
+      let signedAmount: number;
+      if (amountIdx !== null) {
+        signedAmount = parseAmount(record[amountIdx] ?? "", mapping.decimalSeparator);
+      } else {
+        const debit = record[debitIdx!]?.trim();
+        const credit = record[creditIdx!]?.trim();
+        signedAmount = credit
+          ? Math.abs(parseAmount(credit, mapping.decimalSeparator))
+          : -Math.abs(parseAmount(debit ?? "", mapping.decimalSeparator));
+      }
+
+      return toRow(
+        parseDate(record[dateIdx] ?? "", mapping.dateFormat),
+        signedAmount,
+        record[descIdx] ?? "",
+        refIdx !== null ? record[refIdx] ?? null : null
+      );
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Baris tidak valid";
+      throw new Error(`Baris ${line}: ${message}`);
+    }
+  });
+}
+
+// ============================================================================
+// OFX / QFX
+// ============================================================================
+
+/**
+ * Read a tag value from an OFX block (works for both SGML and XML variants)
+ */
+function readOfxTag(block: string, tag: string): string | null {
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, "i"));
+  return match ? match[1].trim() : null;
+}
+
+function parseOfx(content: string): ParsedStatementRow[] {
+  const blocks = content.match(/<STMTTRN>[\s\S]*?(?=<\/STMTTRN>|<STMTTRN>|<\/BANKTRANLIST>)/gi);
+
+  if (!blocks) {
+    throw new Error("Tidak ada transaksi di file OFX");
+  }
+
+  return blocks.map((block, i) => {
+    const posted = readOfxTag(block, "DTPOSTED");
+    const amount = readOfxTag(block, "TRNAMT");
+
+    if (!posted || !amount) {
+      throw new Error(`Transaksi OFX ke-${i + 1} tidak lengkap`);
+    }
+
+    const date = new Date(
+      parseInt(posted.slice(0, 4), 10),
+      parseInt(posted.slice(4, 6), 10) - 1,
+      parseInt(posted.slice(6, 8), 10)
+    );
+
+    const name = readOfxTag(block, "NAME") ?? "";
+    const memo = readOfxTag(block, "MEMO") ?? "";
+    const description = memo && memo !== name ? `${name} ${memo}` : name;
+
+    return toRow(
+      date,
+      parseAmount(amount, "."),
+      description || readOfxTag(block, "TRNTYPE") || "",
+      readOfxTag(block, "FITID")
+    );
+  });
+}
+
+// ============================================================================
+// MT940
+// ============================================================================
+
+/**
+ * :61: statement line — YYMMDD[MMDD](R)C|D[funds code]amount N+3 chars reference
+ */
+const MT940_STATEMENT_LINE =
+  /^(\d{2})(\d{2})(\d{2})(\d{4})?(RC|RD|C|D)[A-Z]?(\d+,\d*)([A-Z]\w{3})?([^\n/]*)(?:\/\/(\S*))?/;
+
+function parseMt940(content: string): ParsedStatementRow[] {
+  // Gabungkan baris lanjutan ke tag sebelumnya
+  const fields: Array<{ tag: string; value: string }> = [];
+  for (const line of content.split(/\r?\n/)) {
+    const tagMatch = line.match(/^:(\d{2}[A-Z]?):(.*)$/);
+    if (tagMatch) {
+      fields.push({ tag: tagMatch[1], value: tagMatch[2] });
+    } else if (fields.length > 0 && line.trim() !== "-" && line.trim() !== "") {
+      fields[fields.length - 1].value += `\n${line}`;
+    }
+  }
+
+  const rows: ParsedStatementRow[] = [];
+
+  fields.forEach((field, i) => {
+    if (field.tag !== "61") return;
+
+    const match = field.value.match(MT940_STATEMENT_LINE);
+    if (!match) {
+      throw new Error(`Baris :61: tidak valid: "${field.value.split("\n")[0]}"`);
+    }
+
+    const [, yy, mm, dd, , mark, amount, , reference, bankReference] = match;
+    const date = new Date(2000 + parseInt(yy, 10), parseInt(mm, 10) - 1, parseInt(dd, 10));
+
+    // Debit (D) dan reversal credit (RC) mengurangi saldo
+    const negative = mark === "D" || mark === "RC";
+    const value = parseAmount(amount, ",");
+
+    const next = fields[i + 1];
+    const info = next?.tag === "86" ? next.value.replace(/\n/g, " ") : "";
+    const ref = reference?.trim();
+
+    rows.push(
+      toRow(
+        date,
+        negative ? -value : value,
+        info || ref || "",
+        bankReference?.trim() || (ref && ref !== "NONREF" ? ref : null)
+      )
+    );
+  });
+
+  if (rows.length === 0) {
+    throw new Error("Tidak ada transaksi di file MT940");
+  }
+
+  return rows;
+}
+
+// ============================================================================
+// Duplicate Detection
+// ============================================================================
+
+const DUPLICATE_DATE_WINDOW_DAYS = 3;
+const DUPLICATE_SIMILARITY_THRESHOLD = 0.5;
+
+function bigrams(text: string): string[] {
+  const normalized = text.toLowerCase().replace(/[^a-z0-9]/g, "");
+  const result: string[] = [];
+  for (let i = 0; i < normalized.length - 1; i++) {
+    result.push(normalized.slice(i, i + 2));
+  }
+  return result;
+}
+
+/**
+ * Sørensen–Dice similarity of two descriptions (0..1)
+ */
+export function descriptionSimilarity(a: string, b: string): number {
+  const left = bigrams(a);
+  const right = bigrams(b);
+  if (left.length === 0 && right.length === 0) return 1;
+  if (left.length === 0 || right.length === 0) return 0;
+
+  const counts = new Map<string, number>();
+  left.forEach((gram) => counts.set(gram, (counts.get(gram) ?? 0) + 1));
+
+  let overlap = 0;
+  for (const gram of right) {
+    const count = counts.get(gram) ?? 0;
+    if (count > 0) {
+      overlap++;
+      counts.set(gram, count - 1);
+    }
+  }
+
+  return (2 * overlap) / (left.length + right.length);
+}
+
+/**
+ * Flag rows that probably already exist in the wallet
+ *
+ * Cocok jika FITID/referensi sama, atau jumlah & tipe sama dalam jendela
+ * ±3 hari dengan deskripsi yang mirip (atau di hari yang sama).
+ */
+export async function detectDuplicates(
+  db: DbClient,
+  familyId: string,
+  walletId: string,
+  rows: ParsedStatementRow[]
+): Promise<PreviewRow[]> {
+  if (rows.length === 0) return [];
+
+  const windowMs = DUPLICATE_DATE_WINDOW_DAYS * 24 * 60 * 60 * 1000;
+  // Tanpa spread: ribuan baris bisa melebihi batas argumen fungsi
+  let minTime = Infinity;
+  let maxTime = -Infinity;
+  for (const row of rows) {
+    minTime = Math.min(minTime, row.date.getTime());
+    maxTime = Math.max(maxTime, row.date.getTime());
+  }
+
+  const existing = await db.transaction.findMany({
+    where: {
+      familyId,
+      OR: [{ fromWalletId: walletId }, { toWalletId: walletId }],
+      date: {
+        gte: new Date(minTime - windowMs),
+        lte: new Date(maxTime + windowMs),
+      },
+    },
+    select: {
+      id: true,
+      amount: true,
+      type: true,
+      description: true,
+      date: true,
+      externalId: true,
+    },
+  });
+
+  return rows.map((row, i) => {
+    let duplicate: DuplicateMatch | null = null;
+
+    for (const candidate of existing) {
+      if (row.externalId && candidate.externalId === row.externalId) {
+        duplicate = {
+          transactionId: candidate.id,
+          description: candidate.description,
+          date: candidate.date,
+          amount: candidate.amount,
+          similarity: 1,
+          reason: "EXTERNAL_ID",
+        };
+        break;
+      }
+
+      const dayDiff = Math.abs(candidate.date.getTime() - row.date.getTime());
+      if (
+        candidate.type !== row.type ||
+        Math.abs(candidate.amount - row.amount) > 0.005 ||
+        dayDiff > windowMs
+      ) {
+        continue;
+      }
+
+      const similarity = descriptionSimilarity(
+        row.description,
+        candidate.description ?? ""
+      );
+      const sameDay = candidate.date.toDateString() === row.date.toDateString();
+
+      if (
+        (similarity >= DUPLICATE_SIMILARITY_THRESHOLD || sameDay) &&
+        similarity > (duplicate?.similarity ?? -1)
+      ) {
+        duplicate = {
+          transactionId: candidate.id,
+          description: candidate.description,
+          date: candidate.date,
+          amount: candidate.amount,
+          similarity,
+          reason: "FUZZY",
+        };
+      }
+    }
+
+    return { ...row, rowNumber: i + 1, duplicate };
+  });
+}
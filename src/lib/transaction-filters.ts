@@ -0,0 +1,205 @@
+/**
+ * Transaction filters shared by the transaction list, exports and saved
+ * searches
+ *
+ * Filter disimpan apa adanya di SavedSearch.filters (JSON), jadi skema di
+ * sini juga menjadi format penyimpanan. Tambahkan field baru sebagai
+ * optional agar saved search lama tetap valid.
+ */
+
+import { z } from "zod";
+import { Prisma } from "@prisma/client";
+import { DbClient } from "./prisma";
+import { getSubcategoryParents } from "./categories";
+import { normalizeTags } from "./categorization-rules";
+import { CurrencyConverter, sumTransactionsInBase } from "./currency";
+import { subtractMoney } from "./money";
+
+export const tagsSchema = z
+  .array(z.string().trim().min(1).max(50, "Tag maksimal 50 karakter"))
+  .max(20, "Maksimal 20 tag")
+  .transform(normalizeTags);
+
+export const transactionFilterSchema = z.object({
+  type: z.enum(["INCOME", "EXPENSE", "TRANSFER"]).optional(),
+  categoryId: z.string().min(1).optional(),
+  walletId: z.string().min(1).optional(),
+  startDate: z
+    .string()
+    .datetime({ message: "Format tanggal tidak valid" })
+    .optional(),
+  endDate: z
+    .string()
+    .datetime({ message: "Format tanggal tidak valid" })
+    .optional(),
+  minAmount: z.number().nonnegative().optional(),
+  maxAmount: z.number().nonnegative().optional(),
+  search: z.string().trim().max(200).optional(),
+  tags: tagsSchema.optional(),
+  // any = salah satu tag cocok, all = semua tag harus ada
+  tagMode: z.enum(["any", "all"]).optional(),
+});
+
+export type TransactionFilterInput = z.infer<typeof transactionFilterSchema>;
+
+/**
+ * Read filters from query params
+ *
+ * Tag boleh dikirim sebagai `tags=a,b` atau berulang `tag=a&tag=b`.
+ *
+ * @throws ZodError for malformed values
+ */
+export function parseTransactionFilters(
+  searchParams: URLSearchParams
+): TransactionFilterInput {
+  const get = (key: string) => searchParams.get(key) || undefined;
+  const number = (key: string) => {
+    const value = get(key);
+    return value === undefined ? undefined : Number(value);
+  };
+  const toIso = (value: string | undefined) => {
+    if (!value) return undefined;
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? value : date.toISOString();
+  };
+
+  const tags = [
+    ...(get("tags")?.split(",") ?? []),
+    ...searchParams.getAll("tag"),
+  ].filter((tag) => tag.trim().length > 0);
+
+  return transactionFilterSchema.parse({
+    type: get("type"),
+    categoryId: get("categoryId"),
+    walletId: get("walletId"),
+    startDate: toIso(get("startDate")),
+    endDate: toIso(get("endDate")),
+    minAmount: number("minAmount"),
+    maxAmount: number("maxAmount"),
+    search: get("search"),
+    tags: tags.length > 0 ? tags : undefined,
+    tagMode: get("tagMode"),
+  });
+}
+
+/**
+ * Build the Prisma where clause for a family's transactions
+ *
+ * Filter kategori induk ikut menyertakan subkategorinya.
+ */
+export async function buildTransactionWhere(
+  db: DbClient,
+  familyId: string,
+  filters: TransactionFilterInput
+): Promise<Prisma.TransactionWhereInput> {
+  const and: Prisma.TransactionWhereInput[] = [];
+  const where: Prisma.TransactionWhereInput = { familyId, AND: and };
+
+  if (filters.type) {
+    where.type = filters.type;
+  }
+
+  if (filters.categoryId) {
+    const subcategories = await getSubcategoryParents(db, familyId, [
+      filters.categoryId,
+    ]);
+    where.categoryId = { in: [filters.categoryId, ...subcategories.keys()] };
+  }
+
+  if (filters.walletId) {
+    and.push({
+      OR: [{ fromWalletId: filters.walletId }, { toWalletId: filters.walletId }],
+    });
+  }
+
+  if (filters.startDate || filters.endDate) {
+    where.date = {
+      ...(filters.startDate && { gte: new Date(filters.startDate) }),
+      ...(filters.endDate && { lte: new Date(filters.endDate) }),
+    };
+  }
+
+  if (filters.minAmount !== undefined || filters.maxAmount !== undefined) {
+    where.amount = {
+      ...(filters.minAmount !== undefined && { gte: filters.minAmount }),
+      ...(filters.maxAmount !== undefined && { lte: filters.maxAmount }),
+    };
+  }
+
+  if (filters.search) {
+    and.push({
+      OR: [
+        { description: { contains: filters.search, mode: "insensitive" } },
+        { notes: { contains: filters.search, mode: "insensitive" } },
+      ],
+    });
+  }
+
+  if (filters.tags && filters.tags.length > 0) {
+    where.tags =
+      filters.tagMode === "all"
+        ? { hasEvery: filters.tags }
+        : { hasSome: filters.tags };
+  }
+
+  return where;
+}
+
+export interface TransactionTotals {
+  income: number;
+  expense: number;
+  net: number;
+  count: number;
+}
+
+/**
+ * Income/expense totals of the transactions matching `where`, in the
+ * family base currency (TRANSFER hanya dihitung di `count`)
+ */
+export async function getTransactionTotals(
+  db: DbClient,
+  converter: CurrencyConverter,
+  where: Prisma.TransactionWhereInput
+): Promise<TransactionTotals> {
+  const [income, expense, count] = await Promise.all([
+    sumTransactionsInBase(db, converter, {
+      AND: [where, { type: "INCOME" }],
+    }),
+    sumTransactionsInBase(db, converter, {
+      AND: [where, { type: "EXPENSE" }],
+    }),
+    db.transaction.count({ where }),
+  ]);
+
+  return {
+    income: income.amount,
+    expense: expense.amount,
+    net: subtractMoney(income.amount, expense.amount),
+    count,
+  };
+}
+
+/**
+ * Tags used in a family with the number of transactions, most used first
+ * (untuk autocomplete)
+ */
+export async function getFamilyTags(
+  db: DbClient,
+  familyId: string
+): Promise<Array<{ tag: string; count: number }>> {
+  const transactions = await db.transaction.findMany({
+    where: { familyId, tags: { isEmpty: false } },
+    select: { tags: true },
+  });
+
+  const counts = new Map<string, number>();
+  for (const { tags } of transactions) {
+    for (const tag of tags) {
+      counts.set(tag, (counts.get(tag) ?? 0) + 1);
+    }
+  }
+
+  return [...counts]
+    .map(([tag, count]) => ({ tag, count }))
+    .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+}
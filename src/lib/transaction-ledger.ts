@@ -0,0 +1,398 @@
+/**
+ * Ledger helpers for keeping denormalized balances in sync with transactions
+ *
+ * Semua fungsi di sini menerima Prisma transaction client (`tx`) agar bisa
+ * dipanggil di dalam `prisma.$transaction` bersama perubahan transaksi.
+ */
+
+import { TransactionType } from "@prisma/client";
+import { DbClient } from "./prisma";
+import {
+  CurrencyConverter,
+  getConversionDate,
+  getCurrencyConverter,
+} from "./currency";
+import { getSubcategoryParents } from "./categories";
+import { addMoney } from "./money";
+import { getBudgetPeriodRange } from "./budget-periods";
+
+/**
+ * Minimal shape of a transaction needed to compute its wallet effect
+ */
+export interface LedgerEntry {
+  type: TransactionType;
+  amount: number;
+  fromWalletId: string | null;
+  toWalletId: string | null;
+}
+
+/**
+ * Minimal shape of a transaction needed to locate affected budgets
+ */
+export interface BudgetEntry {
+  type: TransactionType;
+  categoryId: string | null;
+  date: Date;
+}
+
+/**
+ * Wallet yang dipengaruhi transaksi INCOME/EXPENSE.
+ * INCOME/EXPENSE memakai fromWallet, tetapi transaksi dari recurring lama
+ * menyimpan INCOME di toWallet.
+ */
+function getPrimaryWalletId(entry: LedgerEntry): string | null {
+  if (entry.type === "EXPENSE") {
+    return entry.fromWalletId;
+  }
+  return entry.fromWalletId ?? entry.toWalletId;
+}
+
+/**
+ * Calculate balance change per wallet caused by a transaction
+ *
+ * @param entry - Transaction to evaluate
+ * @param sign - 1 to apply the transaction, -1 to reverse it
+ * @returns Map of walletId to balance delta
+ */
+export function getWalletDeltas(
+  entry: LedgerEntry,
+  sign: 1 | -1 = 1
+): Map<string, number> {
+  const deltas = new Map<string, number>();
+
+  const add = (walletId: string | null, delta: number) => {
+    if (!walletId) return;
+    deltas.set(walletId, addMoney(deltas.get(walletId) ?? 0, delta * sign));
+  };
+
+  switch (entry.type) {
+    case "INCOME":
+      add(getPrimaryWalletId(entry), entry.amount);
+      break;
+    case "EXPENSE":
+      add(getPrimaryWalletId(entry), -entry.amount);
+      break;
+    case "TRANSFER":
+      add(entry.fromWalletId, -entry.amount);
+      add(entry.toWalletId, entry.amount);
+      break;
+  }
+
+  return deltas;
+}
+
+/**
+ * Merge several delta maps into one, dropping wallets with a net zero change
+ */
+export function mergeWalletDeltas(
+  ...maps: Map<string, number>[]
+): Map<string, number> {
+  const merged = new Map<string, number>();
+
+  for (const map of maps) {
+    for (const [walletId, delta] of map) {
+      merged.set(walletId, addMoney(merged.get(walletId) ?? 0, delta));
+    }
+  }
+
+  for (const [walletId, delta] of merged) {
+    if (delta === 0) merged.delete(walletId);
+  }
+
+  return merged;
+}
+
+/**
+ * Apply wallet deltas inside a database transaction
+ *
+ * @throws Error if a wallet is missing, belongs to another family,
+ * or would end up with a negative balance
+ * @returns Balance before/after per wallet, for audit logs
+ */
+export async function applyWalletDeltas(
+  tx: DbClient,
+  familyId: string,
+  deltas: Map<string, number>
+): Promise<
+  Array<{ walletId: string; oldBalance: number; newBalance: number }>
+> {
+  const changes: Array<{
+    walletId: string;
+    oldBalance: number;
+    newBalance: number;
+  }> = [];
+
+  for (const [walletId, delta] of deltas) {
+    const wallet = await tx.wallet.findUnique({
+      where: { id: walletId },
+      select: { id: true, familyId: true, balance: true },
+    });
+
+    if (!wallet) {
+      throw new Error("Wallet tidak ditemukan");
+    }
+
+    if (wallet.familyId !== familyId) {
+      throw new Error("Wallet tidak milik keluarga Anda");
+    }
+
+    const newBalance = addMoney(wallet.balance, delta);
+    if (delta < 0 && newBalance < 0) {
+      throw new Error("Saldo wallet tidak mencukupi");
+    }
+
+    await tx.wallet.update({
+      where: { id: walletId },
+      data: { balance: { increment: delta } },
+    });
+
+    changes.push({ walletId, oldBalance: wallet.balance, newBalance });
+  }
+
+  return changes;
+}
+
+export interface CategorySpending {
+  amount: number;
+  count: number;
+}
+
+/**
+ * Sum spending per category in a date range, attributing split
+ * transactions per split line instead of the parent category
+ *
+ * Jumlah dikonversi ke mata uang dasar keluarga dengan kurs pada akhir
+ * periode (lihat getConversionDate).
+ *
+ * @param categoryIds - Optional filter; omit to get every category
+ * @param converter - Reuse an already loaded converter
+ * @param rollup - Count subcategory spending under its parent category
+ * (only for parents in scope: all categories, or those in `categoryIds`)
+ * @returns Map of categoryId (null = tanpa kategori) to amount and count
+ */
+export async function getCategorySpending(
+  db: DbClient,
+  familyId: string,
+  range: { start: Date; end: Date },
+  options: {
+    type?: TransactionType;
+    categoryIds?: string[];
+    converter?: CurrencyConverter;
+    rollup?: boolean;
+  } = {}
+): Promise<Map<string | null, CategorySpending>> {
+  const type = options.type ?? "EXPENSE";
+  const parentOf = options.rollup
+    ? await getSubcategoryParents(db, familyId, options.categoryIds)
+    : new Map<string, string>();
+  const categoryIds = options.categoryIds && [
+    ...options.categoryIds,
+    ...parentOf.keys(),
+  ];
+  const categoryFilter = categoryIds
+    ? { categoryId: { in: categoryIds } }
+    : {};
+  const dateFilter = { gte: range.start, lte: range.end };
+
+  const [unsplit, splitLines, converter] = await Promise.all([
+    db.transaction.groupBy({
+      by: ["categoryId", "currency"],
+      where: {
+        familyId,
+        type,
+        date: dateFilter,
+        splits: { none: {} },
+        ...categoryFilter,
+      },
+      _sum: { amount: true },
+      _count: true,
+    }),
+    db.transactionSplit.findMany({
+      where: {
+        transaction: { familyId, type, date: dateFilter },
+        ...categoryFilter,
+      },
+      select: {
+        categoryId: true,
+        amount: true,
+        transaction: { select: { currency: true } },
+      },
+    }),
+    options.converter ?? getCurrencyConverter(db, familyId),
+  ]);
+
+  const conversionDate = getConversionDate(range.end);
+  const spending = new Map<string | null, CategorySpending>();
+  const add = (
+    categoryId: string | null,
+    amount: number,
+    currency: string,
+    count: number
+  ) => {
+    const key = (categoryId && parentOf.get(categoryId)) ?? categoryId;
+    const current = spending.get(key) ?? { amount: 0, count: 0 };
+    spending.set(key, {
+      amount: addMoney(
+        current.amount,
+        converter.toBase(amount, currency, conversionDate)
+      ),
+      count: current.count + count,
+    });
+  };
+
+  for (const row of unsplit) {
+    add(row.categoryId, row._sum.amount ?? 0, row.currency, row._count);
+  }
+  for (const split of splitLines) {
+    add(split.categoryId, split.amount, split.transaction.currency, 1);
+  }
+
+  return spending;
+}
+
+/**
+ * Budget entries touched by a transaction: the parent category, or one
+ * entry per split line when the transaction is split
+ */
+export function getBudgetEntries(
+  transaction: BudgetEntry & {
+    splits?: Array<{ categoryId: string | null }>;
+  }
+): BudgetEntry[] {
+  if (transaction.splits && transaction.splits.length > 0) {
+    return transaction.splits.map((split) => ({
+      type: transaction.type,
+      categoryId: split.categoryId,
+      date: transaction.date,
+    }));
+  }
+  return [transaction];
+}
+
+/**
+ * Recompute Budget.spent for the category/month a transaction falls into
+ *
+ * Budget memakai kombinasi month (1-12) dan year, jadi cukup hitung ulang
+ * total EXPENSE kategori pada bulan tersebut (termasuk baris split). Budget
+ * kategori induk ikut dihitung ulang karena mencakup subkategorinya.
+ */
+export async function recalculateBudgetSpent(
+  tx: DbClient,
+  familyId: string,
+  entry: BudgetEntry & { splits?: Array<{ categoryId: string | null }> }
+): Promise<void> {
+  for (const { type, categoryId, date } of getBudgetEntries(entry)) {
+    if (type !== "EXPENSE" || !categoryId) {
+      continue;
+    }
+
+    const month = date.getMonth() + 1;
+    const year = date.getFullYear();
+
+    const category = await tx.category.findUnique({
+      where: { id: categoryId },
+      select: { parentId: true },
+    });
+    const budgetCategoryIds = [categoryId, category?.parentId].filter(
+      (id): id is string => !!id
+    );
+
+    for (const budgetCategoryId of budgetCategoryIds) {
+      const budgets = await tx.budget.findMany({
+        where: { familyId, categoryId: budgetCategoryId, month, year },
+        select: { id: true },
+      });
+
+      if (budgets.length > 0) {
+        const spending = await getCategorySpending(
+          tx,
+          familyId,
+          {
+            start: new Date(year, month - 1, 1),
+            end: new Date(year, month, 0, 23, 59, 59, 999),
+          },
+          { categoryIds: [budgetCategoryId], rollup: true }
+        );
+
+        await tx.budget.updateMany({
+          where: { id: { in: budgets.map((budget) => budget.id) } },
+          data: { spent: spending.get(budgetCategoryId)?.amount ?? 0 },
+        });
+      }
+
+      // Budget berulang: `spent` hanya mencatat periode yang sedang berjalan
+      const recurringBudgets = await tx.budget.findMany({
+        where: {
+          familyId,
+          categoryId: budgetCategoryId,
+          month: null,
+          startDate: { lte: date },
+          OR: [{ endDate: null }, { endDate: { gte: date } }],
+        },
+        select: {
+          id: true,
+          period: true,
+          month: true,
+          year: true,
+          startDate: true,
+          cycleStartDay: true,
+        },
+      });
+
+      for (const budget of recurringBudgets) {
+        const range = getBudgetPeriodRange(budget, new Date());
+        if (date < range.start || date > range.end) {
+          continue;
+        }
+
+        const spending = await getCategorySpending(tx, familyId, range, {
+          categoryIds: [budgetCategoryId],
+          rollup: true,
+        });
+
+        await tx.budget.update({
+          where: { id: budget.id },
+          data: { spent: spending.get(budgetCategoryId)?.amount ?? 0 },
+        });
+      }
+    }
+  }
+}
+
+/**
+ * Serialize a transaction for AuditLog.dataBefore / dataAfter
+ */
+export function toAuditSnapshot(
+  transaction: LedgerEntry &
+    BudgetEntry & {
+      id: string;
+      description: string | null;
+      notes: string | null;
+      tags?: string[];
+      liabilityId?: string | null;
+      splits?: Array<{
+        amount: number;
+        categoryId: string | null;
+        memberId: string | null;
+      }>;
+    }
+): string {
+  return JSON.stringify({
+    id: transaction.id,
+    type: transaction.type,
+    amount: transaction.amount,
+    description: transaction.description,
+    notes: transaction.notes,
+    tags: transaction.tags,
+    date: transaction.date,
+    categoryId: transaction.categoryId,
+    fromWalletId: transaction.fromWalletId,
+    toWalletId: transaction.toWalletId,
+    liabilityId: transaction.liabilityId,
+    splits: transaction.splits?.map((split) => ({
+      amount: split.amount,
+      categoryId: split.categoryId,
+      memberId: split.memberId,
+    })),
+  });
+}
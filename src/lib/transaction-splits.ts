@@ -0,0 +1,119 @@
+/**
+ * Split transactions
+ *
+ * Satu transaksi dapat dipecah menjadi beberapa baris (jumlah + kategori +
+ * anggota opsional). Total baris split harus sama dengan jumlah transaksi.
+ */
+
+import { z } from "zod";
+import { Prisma, TransactionType } from "@prisma/client";
+import { DbClient } from "./prisma";
+import { roundMoney, sumMoney } from "./money";
+
+export const splitLineSchema = z.object({
+  amount: z
+    .number()
+    .positive("Jumlah split harus lebih dari 0")
+    .max(999999999999, "Jumlah split terlalu besar"),
+  categoryId: z.string().min(1, "Category ID tidak valid").nullable().optional(),
+  memberId: z.string().min(1, "Member ID tidak valid").nullable().optional(),
+  note: z.string().max(500, "Catatan split maksimal 500 karakter").nullable().optional(),
+});
+
+export const splitsSchema = z
+  .array(splitLineSchema)
+  .max(50, "Maksimal 50 baris split");
+
+export type SplitLineInput = z.infer<typeof splitLineSchema>;
+
+/**
+ * Relations returned with each split line
+ */
+export const splitInclude = {
+  category: { select: { id: true, name: true, icon: true, type: true } },
+  member: { select: { id: true, name: true } },
+} as const;
+
+/**
+ * Validate split lines against their parent transaction
+ *
+ * @throws Error with a user-facing message
+ * @returns Category of the largest split line, used as the parent category
+ */
+export async function validateSplits(
+  db: DbClient,
+  familyId: string,
+  parent: { type: TransactionType; amount: number },
+  splits: SplitLineInput[]
+): Promise<string | null> {
+  if (parent.type === "TRANSFER") {
+    throw new Error("Transaksi Transfer tidak dapat di-split");
+  }
+
+  if (splits.length < 2) {
+    throw new Error("Transaksi split minimal terdiri dari 2 baris");
+  }
+
+  const total = sumMoney(splits, (split) => split.amount);
+  if (total !== roundMoney(parent.amount)) {
+    throw new Error(
+      `Total split (${total}) harus sama dengan jumlah transaksi (${parent.amount})`
+    );
+  }
+
+  const categoryIds = [
+    ...new Set(splits.map((split) => split.categoryId).filter(Boolean)),
+  ] as string[];
+  const memberIds = [
+    ...new Set(splits.map((split) => split.memberId).filter(Boolean)),
+  ] as string[];
+
+  if (categoryIds.length > 0) {
+    const categories = await db.category.findMany({
+      where: { id: { in: categoryIds }, familyId },
+      select: { id: true, type: true, isArchived: true },
+    });
+
+    if (categories.length !== categoryIds.length) {
+      throw new Error("Kategori split tidak ditemukan");
+    }
+
+    if (categories.some((category) => category.isArchived)) {
+      throw new Error("Kategori split sudah diarsipkan");
+    }
+
+    const mismatch = categories.find((category) => category.type !== parent.type);
+    if (mismatch) {
+      throw new Error(`Kategori ini untuk ${mismatch.type}, bukan ${parent.type}`);
+    }
+  }
+
+  if (memberIds.length > 0) {
+    const memberCount = await db.user.count({
+      where: { id: { in: memberIds }, familyId },
+    });
+
+    if (memberCount !== memberIds.length) {
+      throw new Error("Anggota keluarga split tidak ditemukan");
+    }
+  }
+
+  const largest = splits.reduce((max, split) =>
+    split.amount > max.amount ? split : max
+  );
+  return largest.categoryId ?? null;
+}
+
+/**
+ * Map validated split lines to createMany data
+ */
+export function toSplitCreateData(
+  splits: SplitLineInput[]
+): Prisma.TransactionSplitCreateManyTransactionInput[] {
+  return splits.map((split) => ({
+    amount: split.amount,
+    categoryId: split.categoryId ?? null,
+    memberId: split.memberId ?? null,
+    note: split.note ?? null,
+  }));
+}
@@ -0,0 +1,288 @@
+/**
+ * Transaction creation
+ *
+ * Dipakai oleh POST /api/transactions dan saat admin menyetujui pengeluaran
+ * anggota yang menunggu persetujuan.
+ */
+
+import { z } from "zod";
+import { DbClient } from "./prisma";
+import { recalculateBudgetSpent } from "./transaction-ledger";
+import { categorizeTransaction } from "./categorization-rules";
+import { addMoney, subtractMoney } from "./money";
+import { tagsSchema } from "./transaction-filters";
+import {
+  splitInclude,
+  splitsSchema,
+  toSplitCreateData,
+  validateSplits,
+} from "./transaction-splits";
+import { resolveTransactionCurrency } from "./currency";
+import { applyCardCharge, getCardChargeDelta } from "./credit-cards";
+
+/**
+ * Transaction Creation Schema
+ */
+export const createTransactionSchema = z
+  .object({
+    amount: z
+      .number()
+      .positive("Jumlah harus lebih dari 0")
+      .max(999999999999, "Jumlah terlalu besar"),
+    type: z.enum(["INCOME", "EXPENSE"], {
+      errorMap: () => ({ message: "Tipe harus INCOME atau EXPENSE" }),
+    }),
+    description: z
+      .string()
+      .min(1, "Deskripsi tidak boleh kosong")
+      .max(500, "Deskripsi maksimal 500 karakter")
+      .trim(),
+    date: z
+      .string()
+      .datetime({ message: "Format tanggal tidak valid" })
+      .or(z.date()),
+    // Optional: bisa diisi otomatis oleh aturan kategorisasi
+    categoryId: z.string().uuid("Category ID tidak valid").optional(),
+    walletId: z.string().uuid("Wallet ID tidak valid").optional(),
+    // Belanja/refund kartu kredit: dicatat ke hutang CREDIT_CARD, bukan dompet
+    liabilityId: z.string().min(1, "Liability ID tidak valid").optional(),
+    notes: z.string().max(1000, "Catatan maksimal 1000 karakter").optional(),
+    // Optional: pecah transaksi ke beberapa kategori/anggota
+    splits: splitsSchema.optional(),
+    // Label bebas lintas kategori, digabung dengan tag dari aturan
+    tags: tagsSchema.optional(),
+  })
+  .refine((data) => !!data.walletId !== !!data.liabilityId, {
+    message: "Pilih salah satu: dompet atau kartu kredit",
+    path: ["walletId"],
+  });
+
+export type CreateTransactionInput = z.infer<typeof createTransactionSchema>;
+
+/**
+ * Create an income/expense transaction and apply it to the wallet (or
+ * credit card) balance and budgets, inside a database transaction
+ *
+ * @throws Error for wallet, category, split or balance validation failures
+ */
+export async function createTransaction(
+  tx: DbClient,
+  familyId: string,
+  userId: string,
+  input: CreateTransactionInput
+) {
+  const {
+    amount,
+    type,
+    description,
+    date,
+    categoryId,
+    walletId,
+    liabilityId,
+    notes,
+    splits,
+    tags,
+  } = input;
+  const hasSplits = !!splits && splits.length > 0;
+
+  // Convert date string to Date object if needed
+  const transactionDate = typeof date === "string" ? new Date(date) : date;
+
+  // 1. Verify wallet belongs to user's family (kartu kredit dicek saat
+  // saldo kartu diperbarui)
+  const wallet = walletId
+    ? await tx.wallet.findUnique({
+        where: { id: walletId },
+        select: {
+          id: true,
+          familyId: true,
+          balance: true,
+          currency: true,
+          isArchived: true,
+        },
+      })
+    : null;
+
+  if (walletId && !wallet) {
+    throw new Error("Wallet tidak ditemukan");
+  }
+
+  if (wallet && wallet.familyId !== familyId) {
+    throw new Error("Wallet tidak milik keluarga Anda");
+  }
+
+  if (wallet?.isArchived) {
+    throw new Error("Wallet sudah diarsipkan");
+  }
+
+  // 2. Apply categorization rules (fills category, notes and tags)
+  const categorized = await categorizeTransaction(tx, familyId, {
+    type,
+    amount,
+    description,
+    fromWalletId: walletId ?? null,
+    toWalletId: null,
+    userId: userId,
+    categoryId,
+    notes,
+    tags,
+  });
+
+  // 3. Validate category, or split lines for a split transaction
+  let parentCategoryId = categorized.categoryId;
+
+  if (hasSplits) {
+    // Kategori induk = kategori baris split terbesar (untuk tampilan)
+    parentCategoryId = await validateSplits(
+      tx,
+      familyId,
+      { type, amount },
+      splits
+    );
+  } else {
+    if (!categorized.categoryId) {
+      throw new Error("Kategori harus dipilih");
+    }
+
+    // Verify category belongs to user's family
+    const category = await tx.category.findUnique({
+      where: { id: categorized.categoryId },
+      select: { id: true, familyId: true, type: true, isArchived: true },
+    });
+
+    if (!category) {
+      throw new Error("Kategori tidak ditemukan");
+    }
+
+    if (category.familyId !== familyId) {
+      throw new Error("Kategori tidak milik keluarga Anda");
+    }
+
+    if (category.isArchived) {
+      throw new Error("Kategori sudah diarsipkan");
+    }
+
+    // Validate category type matches transaction type
+    if (category.type !== type) {
+      throw new Error(`Kategori ini untuk ${category.type}, bukan ${type}`);
+    }
+  }
+
+  // 4. Calculate new wallet balance
+  let newBalance = wallet?.balance ?? 0;
+  if (type === "INCOME") {
+    newBalance = addMoney(newBalance, amount);
+  } else if (type === "EXPENSE") {
+    newBalance = subtractMoney(newBalance, amount);
+  }
+
+  // Check if wallet has sufficient balance for expenses
+  if (wallet && type === "EXPENSE" && newBalance < 0) {
+    throw new Error("Saldo wallet tidak mencukupi");
+  }
+
+  // 5. Create transaction
+  const transaction = await tx.transaction.create({
+    data: {
+      amount,
+      currency:
+        wallet?.currency ??
+        (await resolveTransactionCurrency(tx, familyId, null)),
+      type,
+      description,
+      date: transactionDate,
+      notes: categorized.notes || null,
+      tags: categorized.tags,
+      categoryId: parentCategoryId,
+      fromWalletId: walletId ?? null,
+      liabilityId: liabilityId ?? null,
+      userId: userId,
+      familyId: familyId,
+      ...(hasSplits && {
+        splits: { createMany: { data: toSplitCreateData(splits) } },
+      }),
+    },
+    include: {
+      user: {
+        select: {
+          id: true,
+          name: true,
+          avatar: true,
+        },
+      },
+      category: {
+        select: {
+          id: true,
+          name: true,
+          icon: true,
+          type: true,
+        },
+      },
+      fromWallet: {
+        select: {
+          id: true,
+          name: true,
+        },
+      },
+      liability: {
+        select: {
+          id: true,
+          name: true,
+        },
+      },
+      splits: {
+        include: splitInclude,
+      },
+    },
+  });
+
+  // 6. Update wallet balance, or the credit card balance
+  if (wallet) {
+    await tx.wallet.update({
+      where: { id: walletId },
+      data: { balance: newBalance },
+    });
+  }
+
+  const card = liabilityId
+    ? await applyCardCharge(
+        tx,
+        familyId,
+        liabilityId,
+        getCardChargeDelta(transaction)
+      )
+    : null;
+
+  // Keep Budget.spent in sync with the new expense
+  await recalculateBudgetSpent(tx, familyId, transaction);
+
+  // 7. Create audit log
+  await tx.auditLog.create({
+    data: {
+      action: "CREATE_TRANSACTION",
+      entityType: "Transaction",
+      entityId: transaction.id,
+      details: JSON.stringify({
+        type,
+        amount,
+        description,
+        ruleId: categorized.ruleId,
+        splits: transaction.splits.length,
+        ...(wallet && { oldBalance: wallet.balance, newBalance }),
+        ...(card && { card }),
+      }),
+      userId: userId,
+      familyId: familyId,
+    },
+  });
+
+  return {
+    transaction,
+    wallet: wallet && {
+      id: walletId,
+      oldBalance: wallet.balance,
+      newBalance,
+    },
+    card,
+  };
+}
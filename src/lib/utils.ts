@@ -9,14 +9,17 @@ export function cn(...inputs: ClassValue[]) {
 }
 
 /**
- * Format currency to IDR
+ * Format currency (default IDR)
+ *
+ * IDR ditampilkan tanpa desimal, mata uang lain dengan 2 desimal
  */
-export function formatCurrency(amount: number): string {
+export function formatCurrency(amount: number, currency: string = "IDR"): string {
+  const fractionDigits = currency === "IDR" ? 0 : 2;
   return new Intl.NumberFormat("id-ID", {
     style: "currency",
-    currency: "IDR",
-    minimumFractionDigits: 0,
-    maximumFractionDigits: 0,
+    currency,
+    minimumFractionDigits: fractionDigits,
+    maximumFractionDigits: fractionDigits,
   }).format(amount);
 }
 
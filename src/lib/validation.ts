@@ -147,9 +147,12 @@ export const budgetSchema = z
       .positive("Jumlah harus lebih dari 0")
       .max(1000000000, "Jumlah terlalu besar"),
     categoryId: z.string().min(1, "Kategori harus dipilih"),
-    period: z.enum(["DAILY", "WEEKLY", "MONTHLY", "YEARLY"], {
-      errorMap: () => ({ message: "Periode tidak valid" }),
-    }),
+    period: z.enum(
+      ["WEEKLY", "BIWEEKLY", "MONTHLY", "QUARTERLY", "YEARLY", "PAY_CYCLE"],
+      {
+        errorMap: () => ({ message: "Periode tidak valid" }),
+      }
+    ),
     startDate: z.date({
       errorMap: () => ({ message: "Tanggal mulai tidak valid" }),
     }),
@@ -184,8 +187,31 @@ export const categorySchema = z.object({
     .string()
     .regex(/^#[0-9A-F]{6}$/i, "Format warna tidak valid (gunakan hex)")
     .optional(),
+  description: z
+    .string()
+    .max(200, "Deskripsi maksimal 200 karakter")
+    .optional(),
+  // Kategori induk (hanya satu tingkat subkategori)
+  parentId: z.string().min(1, "Parent ID tidak valid").optional(),
 });
 
+export const updateCategorySchema = categorySchema
+  .omit({ type: true })
+  .extend({
+    icon: z.string().max(10, "Icon maksimal 10 karakter").nullable(),
+    color: z
+      .string()
+      .regex(/^#[0-9A-F]{6}$/i, "Format warna tidak valid (gunakan hex)")
+      .nullable(),
+    description: z
+      .string()
+      .max(200, "Deskripsi maksimal 200 karakter")
+      .nullable(),
+    parentId: z.string().min(1, "Parent ID tidak valid").nullable(),
+    isArchived: z.boolean(),
+  })
+  .partial();
+
 export const walletSchema = z.object({
   name: z
     .string()
@@ -203,8 +229,33 @@ export const walletSchema = z.object({
     .string()
     .regex(/^#[0-9A-F]{6}$/i, "Format warna tidak valid (gunakan hex)")
     .optional(),
+  currency: z
+    .string()
+    .regex(/^[A-Z]{3}$/, "Kode mata uang harus 3 huruf kapital (ISO 4217)")
+    .optional(),
+  description: z
+    .string()
+    .max(200, "Deskripsi maksimal 200 karakter")
+    .optional(),
 });
 
+// Saldo tidak diubah langsung; gunakan rekonsiliasi untuk menyesuaikan saldo
+export const updateWalletSchema = walletSchema
+  .omit({ balance: true })
+  .extend({
+    icon: z.string().max(10, "Icon maksimal 10 karakter").nullable(),
+    color: z
+      .string()
+      .regex(/^#[0-9A-F]{6}$/i, "Format warna tidak valid (gunakan hex)")
+      .nullable(),
+    description: z
+      .string()
+      .max(200, "Deskripsi maksimal 200 karakter")
+      .nullable(),
+    isArchived: z.boolean(),
+  })
+  .partial();
+
 // ============================================================================
 // Family Schemas
 // ============================================================================
@@ -260,7 +311,9 @@ export type TransactionInput = z.infer<typeof transactionSchema>;
 export type TransactionFilterInput = z.infer<typeof transactionFilterSchema>;
 export type BudgetInput = z.infer<typeof budgetSchema>;
 export type CategoryInput = z.infer<typeof categorySchema>;
+export type UpdateCategoryInput = z.infer<typeof updateCategorySchema>;
 export type WalletInput = z.infer<typeof walletSchema>;
+export type UpdateWalletInput = z.infer<typeof updateWalletSchema>;
 export type InviteMemberInput = z.infer<typeof inviteMemberSchema>;
 export type UpdateMemberRoleInput = z.infer<typeof updateMemberRoleSchema>;
 export type FamilySettingsInput = z.infer<typeof familySettingsSchema>;
@@ -0,0 +1,238 @@
+/**
+ * Wallet transfers
+ *
+ * Dipakai oleh POST /api/wallets/transfer dan saat admin menyetujui
+ * transfer yang melewati batas kebijakan persetujuan keluarga.
+ */
+
+import { z } from "zod";
+import { DbClient } from "./prisma";
+import { addMoney, multiplyMoney } from "./money";
+
+/**
+ * Wallet Transfer Schema
+ */
+export const walletTransferSchema = z.object({
+  fromWalletId: z.string().uuid("From Wallet ID tidak valid"),
+  toWalletId: z.string().uuid("To Wallet ID tidak valid"),
+  amount: z
+    .number()
+    .positive("Jumlah transfer harus lebih dari 0")
+    .max(999999999999, "Jumlah transfer terlalu besar"),
+  // Wajib untuk transfer antar mata uang: 1 unit mata uang sumber = exchangeRate unit mata uang tujuan
+  exchangeRate: z.number().positive("Kurs harus lebih dari 0").optional(),
+  // Biaya transfer dalam mata uang dompet sumber
+  fee: z
+    .number()
+    .nonnegative("Biaya transfer tidak boleh negatif")
+    .max(999999999999, "Biaya transfer terlalu besar")
+    .optional()
+    .default(0),
+  description: z.string().max(500, "Deskripsi maksimal 500 karakter").optional(),
+  date: z
+    .string()
+    .datetime({ message: "Format tanggal tidak valid" })
+    .or(z.date())
+    .optional()
+    .default(() => new Date().toISOString()),
+});
+
+export type WalletTransferInput = z.infer<typeof walletTransferSchema>;
+
+const transferWalletSelect = {
+  id: true,
+  name: true,
+  balance: true,
+  currency: true,
+  isArchived: true,
+  familyId: true,
+} as const;
+
+/**
+ * Move money between two wallets of a family: EXPENSE from the source,
+ * INCOME to the destination and an optional fee expense, all in the
+ * "Transfer" category
+ *
+ * @throws Error if a wallet is missing/archived, the rate is missing for a
+ * cross-currency transfer or the source balance is insufficient
+ */
+export async function transferBetweenWallets(
+  tx: DbClient,
+  familyId: string,
+  userId: string,
+  input: WalletTransferInput
+) {
+  const { fromWalletId, toWalletId, amount, exchangeRate, fee, description } =
+    input;
+  const date = typeof input.date === "string" ? new Date(input.date) : input.date;
+
+  if (fromWalletId === toWalletId) {
+    throw new Error("Tidak dapat transfer ke dompet yang sama");
+  }
+
+  const [fromWallet, toWallet] = await Promise.all([
+    tx.wallet.findFirst({
+      where: { id: fromWalletId, familyId },
+      select: transferWalletSelect,
+    }),
+    tx.wallet.findFirst({
+      where: { id: toWalletId, familyId },
+      select: transferWalletSelect,
+    }),
+  ]);
+
+  if (!fromWallet) {
+    throw new Error("Dompet sumber tidak ditemukan");
+  }
+  if (!toWallet) {
+    throw new Error("Dompet tujuan tidak ditemukan");
+  }
+  if (fromWallet.isArchived || toWallet.isArchived) {
+    throw new Error("Dompet yang diarsipkan tidak dapat digunakan untuk transfer");
+  }
+
+  const isCrossCurrency = fromWallet.currency !== toWallet.currency;
+  if (isCrossCurrency && !exchangeRate) {
+    throw new Error(
+      `Kurs ${fromWallet.currency}/${toWallet.currency} harus diisi untuk transfer antar mata uang`
+    );
+  }
+
+  const rate = isCrossCurrency ? exchangeRate! : 1;
+  const receivedAmount = multiplyMoney(amount, rate);
+  const totalDebit = addMoney(amount, fee);
+
+  if (fromWallet.balance < totalDebit) {
+    throw new Error("Saldo tidak mencukupi untuk transfer");
+  }
+
+  // Get or create "Transfer" category
+  const transferCategory =
+    (await tx.category.findFirst({
+      where: { familyId, name: "Transfer", type: "EXPENSE" },
+    })) ??
+    (await tx.category.create({
+      data: {
+        name: "Transfer",
+        description: "Transfer antar dompet",
+        type: "EXPENSE",
+        icon: "💸",
+        familyId,
+      },
+    }));
+
+  // 1. Decrease balance from source wallet (amount + fee)
+  const updatedFromWallet = await tx.wallet.update({
+    where: { id: fromWalletId },
+    data: { balance: { decrement: totalDebit } },
+  });
+
+  // 2. Increase balance to destination wallet (converted amount)
+  const updatedToWallet = await tx.wallet.update({
+    where: { id: toWalletId },
+    data: { balance: { increment: receivedAmount } },
+  });
+
+  // 3. Create EXPENSE transaction from source wallet
+  const expenseTransaction = await tx.transaction.create({
+    data: {
+      amount,
+      currency: fromWallet.currency,
+      type: "EXPENSE",
+      description: description || `Transfer ke ${toWallet.name}`,
+      date,
+      familyId,
+      userId,
+      categoryId: transferCategory.id,
+      fromWalletId,
+    },
+  });
+
+  // 4. Create INCOME transaction to destination wallet
+  const incomeTransaction = await tx.transaction.create({
+    data: {
+      amount: receivedAmount,
+      currency: toWallet.currency,
+      type: "INCOME",
+      description: description || `Transfer dari ${fromWallet.name}`,
+      date,
+      familyId,
+      userId,
+      categoryId: transferCategory.id,
+      fromWalletId: toWalletId,
+    },
+  });
+
+  // 5. Record the transfer fee as a separate expense
+  const feeTransaction =
+    fee > 0
+      ? await tx.transaction.create({
+          data: {
+            amount: fee,
+            currency: fromWallet.currency,
+            type: "EXPENSE",
+            description: `Biaya transfer ke ${toWallet.name}`,
+            date,
+            familyId,
+            userId,
+            categoryId: transferCategory.id,
+            fromWalletId,
+          },
+        })
+      : null;
+
+  // 6. Create audit log
+  await tx.auditLog.create({
+    data: {
+      userId,
+      action: "WALLET_TRANSFER",
+      entityType: "Wallet",
+      entityId: fromWalletId,
+      changes: JSON.stringify({
+        fromWalletId,
+        fromWalletName: fromWallet.name,
+        toWalletId,
+        toWalletName: toWallet.name,
+        amount,
+        fromCurrency: fromWallet.currency,
+        toCurrency: toWallet.currency,
+        exchangeRate: rate,
+        receivedAmount,
+        fee,
+        previousFromBalance: fromWallet.balance,
+        newFromBalance: updatedFromWallet.balance,
+        previousToBalance: toWallet.balance,
+        newToBalance: updatedToWallet.balance,
+        expenseTransactionId: expenseTransaction.id,
+        incomeTransactionId: incomeTransaction.id,
+        feeTransactionId: feeTransaction?.id ?? null,
+      }),
+      familyId,
+    },
+  });
+
+  return {
+    fromWallet: {
+      id: updatedFromWallet.id,
+      name: fromWallet.name,
+      previousBalance: fromWallet.balance,
+      newBalance: updatedFromWallet.balance,
+    },
+    toWallet: {
+      id: updatedToWallet.id,
+      name: toWallet.name,
+      previousBalance: toWallet.balance,
+      newBalance: updatedToWallet.balance,
+    },
+    amount,
+    receivedAmount,
+    exchangeRate: rate,
+    fee,
+    description:
+      description || `Transfer dari ${fromWallet.name} ke ${toWallet.name}`,
+    date: input.date,
+    transactions: feeTransaction
+      ? [expenseTransaction, incomeTransaction, feeTransaction]
+      : [expenseTransaction, incomeTransaction],
+  };
+}
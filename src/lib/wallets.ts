@@ -0,0 +1,131 @@
+/**
+ * Wallet helpers: API shape and reconciliation
+ *
+ * Rekonsiliasi membandingkan saldo rekening koran pada suatu tanggal dengan
+ * saldo menurut transaksi, lalu menandai transaksi yang sudah cocok dan
+ * (opsional) membuat transaksi penyesuaian untuk selisihnya.
+ */
+
+import { z } from "zod";
+import { Prisma, TransactionType } from "@prisma/client";
+import { DbClient } from "./prisma";
+import { getWalletDeltas } from "./transaction-ledger";
+import { subtractMoney } from "./money";
+
+/**
+ * Fields returned by the wallet API
+ */
+export const walletSelect = {
+  id: true,
+  name: true,
+  type: true,
+  description: true,
+  balance: true,
+  openingBalance: true,
+  currency: true,
+  icon: true,
+  color: true,
+  isArchived: true,
+  archivedAt: true,
+  lastReconciledAt: true,
+} as const;
+
+export const ADJUSTMENT_CATEGORY_NAME = "Penyesuaian Saldo";
+
+export const reconcileWalletSchema = z.object({
+  statementDate: z
+    .string()
+    .datetime({ message: "Format tanggal tidak valid" })
+    .or(z.date()),
+  statementBalance: z
+    .number()
+    .min(-999999999999, "Saldo terlalu kecil")
+    .max(999999999999, "Saldo terlalu besar"),
+  // Transaksi yang cocok dengan mutasi; default semua yang belum direkonsiliasi
+  transactionIds: z.array(z.string().min(1)).max(5000).optional(),
+  postAdjustment: z.boolean().default(true),
+  notes: z.string().max(1000, "Catatan maksimal 1000 karakter").optional(),
+});
+
+export type ReconcileWalletInput = z.infer<typeof reconcileWalletSchema>;
+
+/**
+ * Transactions that touch a wallet (as source or destination)
+ */
+export function walletTransactionsWhere(
+  walletId: string
+): Prisma.TransactionWhereInput {
+  return { OR: [{ fromWalletId: walletId }, { toWalletId: walletId }] };
+}
+
+/**
+ * Wallet balance at the end of a date according to recorded transactions
+ *
+ * Dihitung mundur dari saldo saat ini dengan membalik efek transaksi yang
+ * terjadi setelah tanggal tersebut.
+ */
+export async function getComputedBalance(
+  db: DbClient,
+  wallet: { id: string; balance: number },
+  date: Date
+): Promise<number> {
+  const later = await db.transaction.findMany({
+    where: { ...walletTransactionsWhere(wallet.id), date: { gt: date } },
+    select: { type: true, amount: true, fromWalletId: true, toWalletId: true },
+  });
+
+  return later.reduce(
+    (balance, transaction) =>
+      subtractMoney(balance, getWalletDeltas(transaction).get(wallet.id) ?? 0),
+    wallet.balance
+  );
+}
+
+/**
+ * Unreconciled transactions of a wallet up to a date, oldest first
+ */
+export async function getUnreconciledTransactions(
+  db: DbClient,
+  walletId: string,
+  date: Date
+) {
+  return db.transaction.findMany({
+    where: {
+      ...walletTransactionsWhere(walletId),
+      reconciledAt: null,
+      date: { lte: date },
+    },
+    include: {
+      category: { select: { id: true, name: true, icon: true } },
+      user: { select: { id: true, name: true } },
+    },
+    orderBy: { date: "asc" },
+  });
+}
+
+/**
+ * Get or create the category used for balance adjustment transactions
+ */
+export async function getAdjustmentCategory(
+  db: DbClient,
+  familyId: string,
+  type: TransactionType
+) {
+  const existing = await db.category.findFirst({
+    where: { familyId, name: ADJUSTMENT_CATEGORY_NAME, type },
+  });
+
+  if (existing) {
+    return existing;
+  }
+
+  return db.category.create({
+    data: {
+      name: ADJUSTMENT_CATEGORY_NAME,
+      description: "Selisih saldo dari rekonsiliasi dompet",
+      type,
+      icon: "⚖️",
+      familyId,
+    },
+  });
+}
@@ -1,3 +1,54 @@
+export interface GoalContributionType {
+  id: string;
+  amount: number;
+  description?: string | null;
+  date: string;
+  user?: { id: string; name: string; avatar?: string | null };
+  funding?: "WALLET_DEBIT" | "EARMARK" | null;
+  walletId?: string | null;
+  wallet?: { id: string; name: string } | null;
+}
+
+export interface GoalDistributionType {
+  id: string;
+  amount: number;
+  description?: string | null;
+  recipientName: string;
+  recipientEmail: string;
+  date: string;
+  walletId?: string | null;
+  wallet?: { id: string; name: string } | null;
+}
+
+export interface GoalPlanType {
+  goalId: string;
+  remaining: number;
+  monthsLeft: number | null;
+  requiredMonthly: number | null;
+  averageMonthly: number;
+  projectedCompletionDate: string | null;
+  status: "COMPLETED" | "ON_TRACK" | "BEHIND" | "OVERDUE" | "NO_DEADLINE";
+  monthlyGap: number;
+}
+
+export interface GoalAllocationType {
+  goalId: string;
+  name: string;
+  priority: number;
+  deadline: string | null;
+  requiredMonthly: number | null;
+  allocated: number;
+  shortfall: number;
+}
+
+export interface SavingsAllocationType {
+  strategy: "priority" | "deadline";
+  monthlyAmount: number;
+  allocations: GoalAllocationType[];
+  unallocated: number;
+  fullyFunded: boolean;
+}
+
 export interface GoalType {
   id: string;
   name: string;
@@ -6,9 +57,12 @@ export interface GoalType {
   currentAmount: number;
   deadline?: string | null;
   status: "ACTIVE" | "COMPLETED" | "CANCELLED";
+  priority?: number;
   progress: number;
   daysLeft?: number | null;
-  contributions?: any[];
+  plan?: GoalPlanType | null;
+  contributions?: GoalContributionType[];
+  distributions?: GoalDistributionType[];
   _count?: {
     contributions: number;
     distributions?: number;